@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+
+/**
+ * Copies the client's cube JSON schemas next to the compiled server (dist/schemas/), so that
+ * the built server validates cubes without the client's sources
+ *
+ * Usage: node scripts/copy-schemas.js (run by `npm run build`)
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+/** Schemas read by the action validator (src/validation.ts) */
+const SCHEMA_FILES = ['cube-schema.json', 'fft-cube-schema.json', 'stack-schema.json']
+
+const serverDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..')
+const sourceDir = path.join(serverDir, '..', 'src', 'types')
+const targetDir = path.join(serverDir, 'dist', 'schemas')
+
+fs.mkdirSync(targetDir, { recursive: true })
+for (const file of SCHEMA_FILES) {
+  fs.copyFileSync(path.join(sourceDir, file), path.join(targetDir, file))
+}
+console.log(`Copied ${SCHEMA_FILES.length} schemas to ${path.relative(serverDir, targetDir)}`)
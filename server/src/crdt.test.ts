@@ -0,0 +1,348 @@
+/**
+ * Tests for the cube document CRDT
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CRDTClock,
+  applyDelta,
+  compareStamps,
+  createCRDTDocument,
+  createCubeDelta,
+  createDocumentFromCubes,
+  deleteCubeDelta,
+  getActionDelta,
+  getDocumentCube,
+  getDocumentCubes,
+  hasCube,
+  mergeDocuments,
+  updateCubeDelta,
+} from './crdt.js'
+import type { CRDTDocument } from './crdt.js'
+
+type Cube = Record<string, unknown>
+
+/** A replica: its document and clock */
+class Replica {
+  document: CRDTDocument = createCRDTDocument()
+  clock: CRDTClock
+
+  constructor(id: string) {
+    this.clock = new CRDTClock(id)
+  }
+
+  receive(delta: CRDTDocument): void {
+    applyDelta(this.document, delta)
+    this.clock.observe(delta)
+  }
+
+  create(cube: Cube): CRDTDocument {
+    const delta = createCubeDelta(this.clock, cube['id'] as string, cube)
+    this.receive(delta)
+    return delta
+  }
+
+  update(cubeId: string, edit: (cube: Cube) => Cube): CRDTDocument | null {
+    const before = getDocumentCube<Cube>(this.document, cubeId)
+    if (!before) return null
+    const after = edit(structuredClone(before))
+    const delta = updateCubeDelta(this.document, this.clock, cubeId, before, after)
+    if (delta) this.receive(delta)
+    return delta
+  }
+
+  delete(cubeId: string): CRDTDocument | null {
+    const delta = deleteCubeDelta(this.document, cubeId)
+    if (delta) this.receive(delta)
+    return delta
+  }
+}
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const baseCube: Cube = {
+  id: 'cube-1',
+  base: { color: [0.5, 0.5, 0.5], roughness: 0.5 },
+  noise: { type: 'perlin', scale: 1, octaves: 2 },
+  gradients: [{ axis: 'y', factor: 0.3, color_shift: [0.1, 0.1, 0.1] }],
+}
+
+describe('crdt', () => {
+  describe('stamps', () => {
+    it('should order stamps by counter, then replica', () => {
+      expect(compareStamps([2, 'a'], [1, 'z'])).toBeGreaterThan(0)
+      expect(compareStamps([1, 'a'], [1, 'b'])).toBeLessThan(0)
+      expect(compareStamps([1, 'a'], [1, 'a'])).toBe(0)
+    })
+
+    it('should advance the clock past observed stamps', () => {
+      const alice = new Replica('alice')
+      const delta = alice.create(baseCube)
+      const bob = new CRDTClock('bob')
+      bob.observe(delta)
+      expect(compareStamps(bob.tick(), [alice.clock.getCounter(), 'alice'])).toBeGreaterThan(0)
+    })
+  })
+
+  describe('cube documents', () => {
+    it('should read back a created cube', () => {
+      const alice = new Replica('alice')
+      alice.create(baseCube)
+      expect(getDocumentCube(alice.document, 'cube-1')).toEqual(baseCube)
+      expect(getDocumentCubes(alice.document)).toEqual([['cube-1', baseCube]])
+    })
+
+    it('should keep concurrent edits of different nested fields', () => {
+      const alice = new Replica('alice')
+      const bob = new Replica('bob')
+      bob.receive(alice.create(baseCube))
+
+      const scale = alice.update('cube-1', (cube) => ({
+        ...cube,
+        noise: { ...(cube['noise'] as Cube), scale: 4 },
+      }))!
+      const octaves = bob.update('cube-1', (cube) => ({
+        ...cube,
+        noise: { ...(cube['noise'] as Cube), octaves: 6 },
+      }))!
+      alice.receive(octaves)
+      bob.receive(scale)
+
+      const expected = { type: 'perlin', scale: 4, octaves: 6 }
+      expect(getDocumentCube<Cube>(alice.document, 'cube-1')!['noise']).toEqual(expected)
+      expect(bob.document).toEqual(alice.document)
+    })
+
+    it('should let the later write win on the same field', () => {
+      const alice = new Replica('alice')
+      const bob = new Replica('bob')
+      bob.receive(alice.create(baseCube))
+
+      const first = alice.update('cube-1', (cube) => ({ ...cube, base: { color: [1, 0, 0] } }))!
+      const second = bob.update('cube-1', (cube) => ({
+        ...cube,
+        base: { ...(cube['base'] as Cube), color: [0, 0, 1] },
+      }))!
+      alice.receive(second)
+      bob.receive(first)
+
+      // Same counter: the replica id breaks the tie; alice also removed roughness
+      const base = getDocumentCube<Cube>(alice.document, 'cube-1')!['base']
+      expect(base).toEqual({ color: [0, 0, 1] })
+      expect(bob.document).toEqual(alice.document)
+    })
+
+    it('should merge concurrent inserts into gradients and FFT coefficients', () => {
+      const fftCube = {
+        id: 'cube-1',
+        channels: { R: { dcAmplitude: 0.5, dcPhase: 0, coefficients: [] as Cube[] } },
+        gradients: [] as Cube[],
+      }
+      const alice = new Replica('alice')
+      const bob = new Replica('bob')
+      bob.receive(alice.create(fftCube))
+
+      const fromAlice = alice.update('cube-1', (cube) => {
+        ;(cube['gradients'] as Cube[]).push({ axis: 'x', factor: 1 })
+        ;(cube['channels'] as { R: { coefficients: Cube[] } }).R.coefficients.push({ freqX: 1 })
+        return cube
+      })!
+      const fromBob = bob.update('cube-1', (cube) => {
+        ;(cube['gradients'] as Cube[]).push({ axis: 'z', factor: 2 })
+        ;(cube['channels'] as { R: { coefficients: Cube[] } }).R.coefficients.push({ freqX: 2 })
+        return cube
+      })!
+      alice.receive(fromBob)
+      bob.receive(fromAlice)
+
+      const cube = getDocumentCube<typeof fftCube>(alice.document, 'cube-1')!
+      expect(cube.gradients.map((gradient) => gradient['axis']).sort()).toEqual(['x', 'z'])
+      expect(cube.channels.R.coefficients).toHaveLength(2)
+      expect(getDocumentCube(bob.document, 'cube-1')).toEqual(cube)
+    })
+
+    it('should keep concurrent edits of different fields of one gradient', () => {
+      const alice = new Replica('alice')
+      const bob = new Replica('bob')
+      bob.receive(alice.create(baseCube))
+
+      const factor = alice.update('cube-1', (cube) => {
+        ;(cube['gradients'] as Cube[])[0]!['factor'] = 0.9
+        return cube
+      })!
+      const axis = bob.update('cube-1', (cube) => {
+        ;(cube['gradients'] as Cube[])[0]!['axis'] = 'x'
+        return cube
+      })!
+      alice.receive(axis)
+      bob.receive(factor)
+
+      const [gradient] = getDocumentCube<Cube>(bob.document, 'cube-1')!['gradients'] as Cube[]
+      expect(gradient).toMatchObject({ axis: 'x', factor: 0.9 })
+    })
+
+    it('should only remove the creates a delete has observed', () => {
+      const alice = new Replica('alice')
+      const bob = new Replica('bob')
+      bob.receive(alice.create(baseCube))
+
+      const deletion = alice.delete('cube-1')!
+      const recreate = bob.create({ ...baseCube, noise: { type: 'worley' } })
+      alice.receive(recreate)
+      bob.receive(deletion)
+
+      expect(hasCube(alice.document, 'cube-1')).toBe(true)
+      expect(getDocumentCube<Cube>(bob.document, 'cube-1')!['noise']).toEqual({ type: 'worley' })
+      expect(bob.document).toEqual(alice.document)
+
+      bob.receive(bob.delete('cube-1')!)
+      expect(getDocumentCubes(bob.document)).toEqual([])
+    })
+
+    it('should seed the same document from the same snapshot on every replica', () => {
+      const cubes: [string, unknown][] = [['cube-1', baseCube]]
+      const seeded = createDocumentFromCubes(cubes)
+      expect(createDocumentFromCubes(cubes)).toEqual(seeded)
+      expect(getDocumentCube(seeded, 'cube-1')).toEqual(baseCube)
+    })
+
+    it('should derive deltas from plain cube actions', () => {
+      const alice = new Replica('alice')
+      alice.receive(
+        getActionDelta(alice.document, alice.clock, {
+          type: 'cube_create',
+          payload: { cube: baseCube },
+        })!
+      )
+      const delta = getActionDelta(alice.document, alice.clock, {
+        type: 'cube_update',
+        payload: { cubeId: 'cube-1', changes: { noise: { type: 'perlin' } } },
+      })!
+      alice.receive(delta)
+
+      expect(getDocumentCube<Cube>(alice.document, 'cube-1')!['noise']).toEqual({ type: 'perlin' })
+      expect(getActionDelta(alice.document, alice.clock, { type: 'x', payload: { delta } })).toBe(
+        delta
+      )
+      expect(
+        getActionDelta(alice.document, alice.clock, { type: 'cursor_move', payload: {} })
+      ).toBeNull()
+    })
+
+    it('should return no delta when nothing changed', () => {
+      const alice = new Replica('alice')
+      alice.create(baseCube)
+      expect(alice.update('cube-1', (cube) => cube)).toBeNull()
+      expect(alice.update('missing', (cube) => cube)).toBeNull()
+      expect(alice.delete('missing')).toBeNull()
+    })
+  })
+
+  describe('convergence', () => {
+    /** Random edit of a replica's copy of the cube */
+    function randomEdit(replica: Replica, random: () => number): CRDTDocument | null {
+      const choice = Math.floor(random() * 9)
+      const value = Math.round(random() * 100) / 10
+      if (!hasCube(replica.document, 'cube-1')) {
+        return choice < 3 ? replica.create({ ...baseCube, base: { color: [value, 0, 0] } }) : null
+      }
+      if (choice === 8) return replica.delete('cube-1')
+      return replica.update('cube-1', (cube) => {
+        const noise = (cube['noise'] ?? {}) as Cube
+        const gradients = (cube['gradients'] ?? []) as Cube[]
+        const index = Math.floor(random() * (gradients.length + 1))
+        switch (choice) {
+          case 0:
+            return { ...cube, noise: { ...noise, scale: value } }
+          case 1:
+            return { ...cube, noise: { ...noise, octaves: Math.floor(value) } }
+          case 2: {
+            const rest = { ...noise }
+            delete rest['type']
+            return { ...cube, noise: rest }
+          }
+          case 3:
+            gradients.splice(index, 0, { axis: 'y', factor: value })
+            return { ...cube, gradients }
+          case 4:
+            gradients.splice(index, 1)
+            return { ...cube, gradients }
+          case 5:
+            if (gradients[index]) gradients[index] = { ...gradients[index], factor: value }
+            return { ...cube, gradients }
+          case 6:
+            return { ...cube, base: { ...(cube['base'] as Cube), roughness: value } }
+          default:
+            return { ...cube, noise: { type: 'worley', scale: value } }
+        }
+      })
+    }
+
+    it('should converge for random interleavings of concurrent edits', () => {
+      for (let seed = 1; seed <= 40; seed++) {
+        const random = createRandom(seed)
+        const replicas = ['a', 'b', 'c'].map((id) => new Replica(id))
+        const initial = replicas[0]!.create(baseCube)
+        // Deltas each replica has not received yet
+        const inboxes = replicas.map((_, index) => (index === 0 ? [] : [initial]))
+
+        for (let step = 0; step < 60; step++) {
+          const index = Math.floor(random() * replicas.length)
+          const replica = replicas[index]!
+          const inbox = inboxes[index]!
+          if (inbox.length > 0 && random() < 0.5) {
+            // Deliver a random pending delta, sometimes twice
+            const [delta] = inbox.splice(Math.floor(random() * inbox.length), 1)
+            replica.receive(delta!)
+            if (random() < 0.1) replica.receive(delta!)
+          } else {
+            const delta = randomEdit(replica, random)
+            if (delta) inboxes.forEach((other, i) => i !== index && other.push(delta))
+          }
+        }
+
+        // Deliver the rest in random order
+        replicas.forEach((replica, index) => {
+          const inbox = inboxes[index]!
+          while (inbox.length > 0) {
+            replica.receive(inbox.splice(Math.floor(random() * inbox.length), 1)[0]!)
+          }
+        })
+
+        const [first, ...others] = replicas.map((replica) => getDocumentCubes(replica.document))
+        for (const cubes of others) {
+          expect(cubes, `seed ${seed}`).toEqual(first)
+        }
+      }
+    })
+
+    it('should merge whole documents in any order', () => {
+      const random = createRandom(7)
+      const replicas = ['a', 'b', 'c'].map((id) => new Replica(id))
+      const initial = replicas[0]!.create(baseCube)
+      replicas.slice(1).forEach((replica) => replica.receive(initial))
+      for (let step = 0; step < 30; step++) {
+        randomEdit(replicas[step % 3]!, random)
+      }
+
+      const [a, b, c] = replicas.map((replica) => replica.document) as [
+        CRDTDocument,
+        CRDTDocument,
+        CRDTDocument,
+      ]
+      const abc = mergeDocuments(mergeDocuments(a, b), c)
+      expect(mergeDocuments(c, mergeDocuments(b, a))).toEqual(abc)
+      expect(mergeDocuments(abc, abc)).toEqual(abc)
+    })
+  })
+})
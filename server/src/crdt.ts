@@ -0,0 +1,573 @@
+/**
+ * CRDT document for collaborative cube editing
+ * Shared by the server (session-store.ts) and the client (src/lib/crdt.ts re-exports it),
+ * so this module has no imports.
+ *
+ * A session's cubes live in one document:
+ * - Cubes: observed-remove map keyed by cube id. A delete removes only the creates it has seen
+ * - Objects: maps merged field by field, so concurrent edits of `noise.scale` and
+ *   `noise.octaves` both survive
+ * - Scalars and other arrays (colours, tags): last-writer-wins registers
+ * - `gradients` and FFT `coefficients`: RGA sequences whose items are nested nodes
+ *
+ * Every node carries a Lamport stamp. Edits are expressed as deltas, which are themselves
+ * documents holding only the changed paths; `applyDelta` is a join (commutative, associative
+ * and idempotent), so replicas that have applied the same deltas in any order, with
+ * duplicates, hold the same document.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Lamport stamp: counter, then replica id to break ties */
+export type CRDTStamp = [counter: number, replica: string]
+
+/** Last-writer-wins register holding a JSON value */
+export interface CRDTRegister {
+  kind: 'register'
+  stamp: CRDTStamp
+  value?: unknown
+  /** The field was removed */
+  deleted?: true
+}
+
+/** Object whose fields merge independently while the map stamp is the same */
+export interface CRDTMap {
+  kind: 'map'
+  /** Stamp of the write that created this map; a newer map replaces it */
+  stamp: CRDTStamp
+  fields: Record<string, CRDTNode>
+}
+
+/** Item of a sequence, placed after its `after` item (RGA) */
+export interface CRDTSequenceItem {
+  id: CRDTStamp
+  /** Item this one was inserted after; null for the start of the sequence */
+  after: CRDTStamp | null
+  deleted?: true
+  value: CRDTNode
+}
+
+/** Replicated list; items are keyed by stampKey(id) */
+export interface CRDTSequence {
+  kind: 'sequence'
+  stamp: CRDTStamp
+  items: Record<string, CRDTSequenceItem>
+}
+
+/** Node of a CRDT document */
+export type CRDTNode = CRDTRegister | CRDTMap | CRDTSequence
+
+/** Entry of the observed-remove cube map */
+export interface CRDTCubeEntry {
+  /** Keys of the creates that added the cube */
+  tags: string[]
+  /** Keys of the creates removed by deletes */
+  removed: string[]
+  /** Cube content; absent in delete deltas */
+  value?: CRDTMap
+}
+
+/** CRDT document of a session's cubes, also used for deltas */
+export interface CRDTDocument {
+  cubes: Record<string, CRDTCubeEntry>
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Array fields merged as sequences; other arrays are replaced as a whole */
+export const CRDT_SEQUENCE_FIELDS: readonly string[] = ['gradients', 'coefficients']
+
+/** Stamp of documents seeded from a plain snapshot, identical on every replica */
+const SNAPSHOT_STAMP: CRDTStamp = [0, '']
+
+// ============================================================================
+// Stamps and Clock
+// ============================================================================
+
+/**
+ * Orders two stamps by counter, then by replica id
+ */
+export function compareStamps(a: CRDTStamp, b: CRDTStamp): number {
+  if (a[0] !== b[0]) return a[0] - b[0]
+  return a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0
+}
+
+/**
+ * Serializes a stamp for use as a key
+ */
+export function stampKey(stamp: CRDTStamp): string {
+  return `${stamp[0]}@${stamp[1]}`
+}
+
+/**
+ * Lamport clock of one replica
+ */
+export class CRDTClock {
+  private replica: string
+  private counter: number
+
+  constructor(replica: string, counter = 0) {
+    this.replica = replica
+    this.counter = counter
+  }
+
+  /**
+   * Returns a new stamp, later than every stamp issued or observed so far
+   */
+  tick(): CRDTStamp {
+    this.counter++
+    return [this.counter, this.replica]
+  }
+
+  /**
+   * Advances the clock past every stamp in a document or delta
+   */
+  observe(document: CRDTDocument): void {
+    this.counter = Math.max(this.counter, getMaxCounter(document))
+  }
+
+  getReplica(): string {
+    return this.replica
+  }
+
+  getCounter(): number {
+    return this.counter
+  }
+}
+
+/**
+ * Highest stamp counter in a document
+ */
+export function getMaxCounter(document: CRDTDocument): number {
+  let max = 0
+  const visit = (node: CRDTNode) => {
+    max = Math.max(max, node.stamp[0])
+    if (node.kind === 'map') {
+      Object.values(node.fields).forEach(visit)
+    } else if (node.kind === 'sequence') {
+      for (const item of Object.values(node.items)) {
+        max = Math.max(max, item.id[0])
+        visit(item.value)
+      }
+    }
+  }
+  for (const entry of Object.values(document.cubes)) {
+    for (const tag of entry.tags) {
+      max = Math.max(max, Number.parseInt(tag, 10))
+    }
+    if (entry.value) visit(entry.value)
+  }
+  return max
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => deepEqual(item, b[index]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined)
+    const otherKeys = Object.keys(b).filter((key) => b[key] !== undefined)
+    return keys.length === otherKeys.length && keys.every((key) => deepEqual(a[key], b[key]))
+  }
+  return false
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+function union(a: string[], b: string[]): string[] {
+  return Array.from(new Set([...a, ...b])).sort()
+}
+
+/**
+ * Converts a JSON value into a node; all new nodes share the stamp except sequence items,
+ * which take one stamp each from the clock
+ */
+function toNode(value: unknown, stamp: CRDTStamp, field: string, clock: CRDTClock): CRDTNode {
+  if (Array.isArray(value) && CRDT_SEQUENCE_FIELDS.includes(field)) {
+    const items: Record<string, CRDTSequenceItem> = {}
+    let after: CRDTStamp | null = null
+    for (const element of value) {
+      const id = clock.tick()
+      items[stampKey(id)] = { id, after, value: toNode(element, id, '', clock) }
+      after = id
+    }
+    return { kind: 'sequence', stamp, items }
+  }
+  if (isPlainObject(value)) {
+    const fields: Record<string, CRDTNode> = {}
+    for (const [key, child] of Object.entries(value)) {
+      if (child !== undefined) fields[key] = toNode(child, stamp, key, clock)
+    }
+    return { kind: 'map', stamp, fields }
+  }
+  return { kind: 'register', stamp, value }
+}
+
+// ============================================================================
+// Merge
+// ============================================================================
+
+/**
+ * Joins two nodes. The node with the later stamp wins; nodes with the same stamp are
+ * the same write and their children are joined
+ */
+function mergeNode(target: CRDTNode, source: CRDTNode): CRDTNode {
+  const order = compareStamps(target.stamp, source.stamp)
+  if (order < 0) return clone(source)
+  if (order > 0) return target
+
+  if (target.kind === 'map' && source.kind === 'map') {
+    for (const [key, child] of Object.entries(source.fields)) {
+      const existing = target.fields[key]
+      target.fields[key] = existing ? mergeNode(existing, child) : clone(child)
+    }
+  } else if (target.kind === 'sequence' && source.kind === 'sequence') {
+    for (const [key, item] of Object.entries(source.items)) {
+      const existing = target.items[key]
+      if (!existing) {
+        target.items[key] = clone(item)
+        continue
+      }
+      existing.value = mergeNode(existing.value, item.value)
+      if (item.deleted) existing.deleted = true
+    }
+  }
+  return target
+}
+
+/**
+ * Applies a delta (or a whole document) to a document in place and returns it
+ */
+export function applyDelta(document: CRDTDocument, delta: CRDTDocument): CRDTDocument {
+  for (const [cubeId, entry] of Object.entries(delta.cubes)) {
+    const existing = document.cubes[cubeId]
+    if (!existing) {
+      document.cubes[cubeId] = {
+        tags: [...entry.tags].sort(),
+        removed: [...entry.removed].sort(),
+        ...(entry.value ? { value: clone(entry.value) } : {}),
+      }
+      continue
+    }
+    existing.tags = union(existing.tags, entry.tags)
+    existing.removed = union(existing.removed, entry.removed)
+    if (entry.value) {
+      existing.value = existing.value
+        ? (mergeNode(existing.value, entry.value) as CRDTMap)
+        : clone(entry.value)
+    }
+  }
+  return document
+}
+
+/**
+ * Joins two documents into a new one
+ */
+export function mergeDocuments(a: CRDTDocument, b: CRDTDocument): CRDTDocument {
+  return applyDelta(applyDelta(createCRDTDocument(), a), b)
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+/**
+ * Visible items of a sequence in RGA order: children of an item follow it, newest first
+ */
+function getOrderedItems(sequence: CRDTSequence): CRDTSequenceItem[] {
+  const children = new Map<string, CRDTSequenceItem[]>()
+  for (const item of Object.values(sequence.items)) {
+    const parent = item.after ? stampKey(item.after) : ''
+    const siblings = children.get(parent) ?? []
+    siblings.push(item)
+    children.set(parent, siblings)
+  }
+
+  const ordered: CRDTSequenceItem[] = []
+  const visit = (parent: string) => {
+    const siblings = (children.get(parent) ?? []).sort((a, b) => compareStamps(b.id, a.id))
+    for (const item of siblings) {
+      ordered.push(item)
+      visit(stampKey(item.id))
+    }
+  }
+  visit('')
+  return ordered.filter((item) => !item.deleted)
+}
+
+/**
+ * Converts a node back into a JSON value (undefined for removed fields)
+ */
+function readNode(node: CRDTNode): unknown {
+  switch (node.kind) {
+    case 'register':
+      return node.deleted ? undefined : node.value
+    case 'map': {
+      const value: Record<string, unknown> = {}
+      for (const [key, child] of Object.entries(node.fields)) {
+        const childValue = readNode(child)
+        if (childValue !== undefined) value[key] = childValue
+      }
+      return value
+    }
+    case 'sequence':
+      return getOrderedItems(node).map((item) => readNode(item.value))
+  }
+}
+
+/**
+ * Checks whether a cube is in the document (added by a create no delete has seen)
+ */
+export function hasCube(document: CRDTDocument, cubeId: string): boolean {
+  const entry = document.cubes[cubeId]
+  if (!entry?.value) return false
+  const removed = new Set(entry.removed)
+  return entry.tags.some((tag) => !removed.has(tag))
+}
+
+/**
+ * Reads a cube from the document; null when it is not present
+ */
+export function getDocumentCube<T = Record<string, unknown>>(
+  document: CRDTDocument,
+  cubeId: string
+): T | null {
+  const entry = document.cubes[cubeId]
+  if (!entry?.value || !hasCube(document, cubeId)) return null
+  return readNode(entry.value) as T
+}
+
+/**
+ * Reads all present cubes as [id, cube] entries, sorted by id
+ */
+export function getDocumentCubes<T = Record<string, unknown>>(
+  document: CRDTDocument
+): [string, T][] {
+  return Object.keys(document.cubes)
+    .sort()
+    .flatMap((cubeId) => {
+      const cube = getDocumentCube<T>(document, cubeId)
+      return cube ? [[cubeId, cube] as [string, T]] : []
+    })
+}
+
+// ============================================================================
+// Creating Deltas
+// ============================================================================
+
+/**
+ * Creates an empty document
+ */
+export function createCRDTDocument(): CRDTDocument {
+  return { cubes: {} }
+}
+
+/**
+ * Seeds a document from plain cubes. Every replica seeding the same cubes gets the same
+ * document, so sessions saved before documents existed can still be merged
+ */
+export function createDocumentFromCubes(cubes: [string, unknown][]): CRDTDocument {
+  const document = createCRDTDocument()
+  const snapshotClock = new CRDTClock(SNAPSHOT_STAMP[1])
+  for (const [cubeId, cube] of cubes) {
+    document.cubes[cubeId] = {
+      tags: [stampKey(SNAPSHOT_STAMP)],
+      removed: [],
+      value: toNode(cube, SNAPSHOT_STAMP, '', snapshotClock) as CRDTMap,
+    }
+  }
+  return document
+}
+
+/**
+ * Delta that adds a cube. A cube created again after a delete starts from the new content
+ */
+export function createCubeDelta(clock: CRDTClock, cubeId: string, cube: unknown): CRDTDocument {
+  const stamp = clock.tick()
+  const value = toNode(isPlainObject(cube) ? cube : {}, stamp, '', clock) as CRDTMap
+  return { cubes: { [cubeId]: { tags: [stampKey(stamp)], removed: [], value } } }
+}
+
+/**
+ * Delta that removes a cube as currently observed; null when it is not present
+ */
+export function deleteCubeDelta(document: CRDTDocument, cubeId: string): CRDTDocument | null {
+  const entry = document.cubes[cubeId]
+  if (!entry || !hasCube(document, cubeId)) return null
+  return { cubes: { [cubeId]: { tags: [], removed: [...entry.tags] } } }
+}
+
+/**
+ * Delta of the changes between two sequence values; `before` must match the visible items
+ */
+function diffSequence(
+  sequence: CRDTSequence,
+  before: unknown[],
+  after: unknown[],
+  clock: CRDTClock
+): CRDTSequence {
+  const visible = getOrderedItems(sequence)
+  const items: Record<string, CRDTSequenceItem> = {}
+
+  let start = 0
+  while (start < before.length && start < after.length && deepEqual(before[start], after[start])) {
+    start++
+  }
+  let end = 0
+  while (
+    end < before.length - start &&
+    end < after.length - start &&
+    deepEqual(before[before.length - 1 - end], after[after.length - 1 - end])
+  ) {
+    end++
+  }
+
+  let previous: CRDTStamp | null = start > 0 ? (visible[start - 1]?.id ?? null) : null
+  const removedCount = before.length - start - end
+  const insertedCount = after.length - start - end
+
+  for (let offset = 0; offset < Math.max(removedCount, insertedCount); offset++) {
+    const item = offset < removedCount ? visible[start + offset] : undefined
+    const hasNew = offset < insertedCount
+    const newValue = after[start + offset]
+
+    // Edit objects in place so concurrent edits of other fields of the item survive
+    if (item && hasNew && item.value.kind === 'map' && isPlainObject(newValue)) {
+      const valueDelta = diffNode(item.value, before[start + offset], newValue, '', clock)
+      if (valueDelta) {
+        items[stampKey(item.id)] = { id: item.id, after: item.after, value: valueDelta }
+      }
+      previous = item.id
+      continue
+    }
+
+    if (item) {
+      items[stampKey(item.id)] = { ...clone(item), deleted: true }
+    }
+    if (hasNew) {
+      const id = clock.tick()
+      items[stampKey(id)] = { id, after: previous, value: toNode(newValue, id, '', clock) }
+      previous = id
+    } else if (item) {
+      previous = item.id
+    }
+  }
+
+  return { kind: 'sequence', stamp: sequence.stamp, items }
+}
+
+/**
+ * Delta of the changes between two values of a node; null when nothing changed
+ */
+function diffNode(
+  node: CRDTNode,
+  before: unknown,
+  after: unknown,
+  field: string,
+  clock: CRDTClock
+): CRDTNode | null {
+  if (deepEqual(before, after)) return null
+  if (after === undefined) return { kind: 'register', stamp: clock.tick(), deleted: true }
+
+  if (node.kind === 'map' && isPlainObject(before) && isPlainObject(after)) {
+    const fields: Record<string, CRDTNode> = {}
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      const child = node.fields[key]
+      const childDelta =
+        child && before[key] !== undefined
+          ? diffNode(child, before[key], after[key], key, clock)
+          : deepEqual(before[key], after[key])
+            ? null
+            : after[key] === undefined
+              ? { kind: 'register' as const, stamp: clock.tick(), deleted: true as const }
+              : toNode(after[key], clock.tick(), key, clock)
+      if (childDelta) fields[key] = childDelta
+    }
+    return { kind: 'map', stamp: node.stamp, fields }
+  }
+
+  if (
+    node.kind === 'sequence' &&
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    getOrderedItems(node).length === before.length
+  ) {
+    return diffSequence(node, before, after, clock)
+  }
+
+  return toNode(after, clock.tick(), field, clock)
+}
+
+/**
+ * Delta that turns a cube from `before` into `after`, touching only the changed fields.
+ * `before` is the cube the edit was made on; null when the cube is not present or
+ * nothing changed
+ */
+export function updateCubeDelta(
+  document: CRDTDocument,
+  clock: CRDTClock,
+  cubeId: string,
+  before: unknown,
+  after: unknown
+): CRDTDocument | null {
+  const entry = document.cubes[cubeId]
+  if (!entry?.value || !hasCube(document, cubeId)) return null
+
+  const value = diffNode(entry.value, before, after, '', clock)
+  if (!value || value.kind !== 'map') return null
+  return { cubes: { [cubeId]: { tags: [], removed: [], value } } }
+}
+
+/**
+ * Delta of a cube action: the one it carries, or one derived from a plain
+ * `cube_create`/`cube_update`/`cube_delete` payload. Updates are diffed against
+ * `previousState` when given, so only the fields the sender changed are written;
+ * null for other actions or when nothing changes
+ */
+export function getActionDelta(
+  document: CRDTDocument,
+  clock: CRDTClock,
+  action: { type: string; payload: unknown }
+): CRDTDocument | null {
+  const payload = (isPlainObject(action.payload) ? action.payload : {}) as {
+    cube?: { id: string }
+    cubeId?: string
+    changes?: Record<string, unknown>
+    previousState?: Record<string, unknown>
+    delta?: CRDTDocument
+  }
+  if (payload.delta) return payload.delta
+
+  clock.observe(document)
+  switch (action.type) {
+    case 'cube_create':
+      return payload.cube ? createCubeDelta(clock, payload.cube.id, payload.cube) : null
+    case 'cube_update': {
+      if (!payload.cubeId) return null
+      const before = payload.previousState ?? getDocumentCube(document, payload.cubeId)
+      return updateCubeDelta(document, clock, payload.cubeId, before, {
+        ...before,
+        ...payload.changes,
+      })
+    }
+    case 'cube_delete':
+      return payload.cubeId ? deleteCubeDelta(document, payload.cubeId) : null
+    default:
+      return null
+  }
+}
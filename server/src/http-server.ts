@@ -11,7 +11,9 @@ import type {
   ParticipantId,
   ParticipantStatus,
   CollaborativeAction,
+  ApplyActionResult,
   CursorPosition,
+  JWTPayload,
 } from './types.js'
 import { generateMessageId } from './types.js'
 import type { SessionStore } from './session-store.js'
@@ -150,6 +152,13 @@ export class IsocubicHttpServer {
         this.handleAction(ctx)
       } else if (path === '/api/presence' && req.method === 'POST') {
         this.handlePresence(ctx)
+      } else if (
+        path.startsWith('/api/sessions/') &&
+        path.endsWith('/recording') &&
+        req.method === 'GET'
+      ) {
+        const sessionId = path.slice('/api/sessions/'.length, -'/recording'.length)
+        this.handleGetRecording(ctx, sessionId)
       } else if (path.startsWith('/api/sessions/') && req.method === 'GET') {
         const sessionId = path.replace('/api/sessions/', '')
         this.handleGetSession(ctx, sessionId)
@@ -174,6 +183,7 @@ export class IsocubicHttpServer {
         api: '/api',
         health: '/api/health',
         sessions: '/api/sessions',
+        recording: '/api/sessions/:id/recording',
         poll: '/api/poll',
         action: '/api/action',
         presence: '/api/presence',
@@ -261,6 +271,7 @@ export class IsocubicHttpServer {
         session: this.sessionStore.serializeSession(session),
         participant,
         authToken,
+        lastSequence: this.sessionStore.getLastSequence(session.id, participant.id),
       })
     } catch (error) {
       this.sendError(
@@ -338,39 +349,102 @@ export class IsocubicHttpServer {
   }
 
   /**
-   * Handles action sync (for polling clients)
+   * Verifies the request's bearer token for a session. Sends 401 and returns null when the
+   * token is missing, invalid or expired, or was issued for another session
+   */
+  private authenticate(ctx: RequestContext, sessionId: SessionId): JWTPayload | null {
+    const header = ctx.req.headers.authorization
+    const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : ''
+    if (!token) {
+      this.sendError(ctx.res, 401, 'Authentication required')
+      return null
+    }
+
+    const payload = this.authManager.verifyToken(token)
+    if (!payload) {
+      this.sendError(ctx.res, 401, 'Invalid or expired token')
+      return null
+    }
+    if (payload.sessionId !== sessionId) {
+      this.sendError(ctx.res, 401, 'Token session mismatch')
+      return null
+    }
+    return payload
+  }
+
+  /**
+   * Handles action sync (for polling clients). The participant is the one the bearer token
+   * was issued to on joining
    */
   private handleAction(ctx: RequestContext): void {
     const body = ctx.parsedBody as {
       sessionId: string
-      participantId: string
       action: CollaborativeAction
+      sequence?: number
     }
 
-    if (!body?.sessionId || !body?.participantId || !body?.action) {
-      this.sendError(ctx.res, 400, 'sessionId, participantId, and action are required')
+    if (!body?.sessionId || !body?.action) {
+      this.sendError(ctx.res, 400, 'sessionId and action are required')
       return
     }
 
+    const auth = this.authenticate(ctx, body.sessionId)
+    if (!auth) return
+    const { participantId } = auth
+
     try {
-      const success = this.sessionStore.applyAction(body.action)
-
-      if (success) {
-        // Queue action for other polling clients
-        this.queueMessageForSession(body.sessionId, body.participantId, {
-          id: generateMessageId(),
-          type: 'sync_action',
-          timestamp: new Date().toISOString(),
-          payload: {
-            action: body.action,
-            sessionId: body.sessionId,
-          },
+      // A replay of an action that was already applied: acknowledge it again, do not re-apply
+      const { sequence } = body
+      const lastSequence = this.sessionStore.getLastSequence(body.sessionId, participantId)
+      if (sequence !== undefined && sequence <= lastSequence) {
+        this.sendJson(ctx.res, 200, {
+          success: true,
+          actionId: body.action.id,
+          sequence,
+          duplicate: true,
+        })
+        return
+      }
+
+      // Clients act only as the participant they joined as, in the session they joined
+      const denied =
+        body.action.participantId !== participantId
+          ? 'Actions must come from the joined participant'
+          : body.action.sessionId !== body.sessionId
+            ? 'Actions must belong to the joined session'
+            : null
+      const result: ApplyActionResult = denied
+        ? { success: false, error: { code: 'PERMISSION_DENIED', message: denied } }
+        : this.sessionStore.tryApplyAction(body.action, sequence)
+
+      if (!result.success) {
+        // A rejection is final, so it is answered like an applied action, not as an HTTP error
+        this.sendJson(ctx.res, 200, {
+          success: false,
+          actionId: body.action.id,
+          sequence,
+          error: result.error.message,
+          code: result.error.code,
+          details: result.error.details,
         })
+        return
       }
 
+      // Queue action for other polling clients
+      this.queueMessageForSession(body.sessionId, participantId, {
+        id: generateMessageId(),
+        type: 'sync_action',
+        timestamp: new Date().toISOString(),
+        payload: {
+          action: body.action,
+          sessionId: body.sessionId,
+        },
+      })
+
       this.sendJson(ctx.res, 200, {
-        success,
+        success: true,
         actionId: body.action.id,
+        sequence,
       })
     } catch (error) {
       this.sendError(
@@ -438,6 +512,22 @@ export class IsocubicHttpServer {
     })
   }
 
+  /**
+   * Handles get session recording, for participants of the session
+   */
+  private handleGetRecording(ctx: RequestContext, sessionId: string): void {
+    if (!this.authenticate(ctx, sessionId)) return
+
+    const recording = this.sessionStore.getRecording(sessionId)
+
+    if (!recording) {
+      this.sendError(ctx.res, 404, 'Session not found')
+      return
+    }
+
+    this.sendJson(ctx.res, 200, { recording })
+  }
+
   /**
    * Queues a message for all participants in a session except the sender
    */
@@ -4,7 +4,7 @@
  */
 
 import { DEFAULT_SERVER_CONFIG } from './types.js'
-import type { ServerConfig } from './types.js'
+import type { ServerConfig, PersistenceConfig } from './types.js'
 import { createSessionStore } from './session-store.js'
 import { createAuthManager } from './auth.js'
 import { createWebSocketServer } from './websocket-server.js'
@@ -13,6 +13,9 @@ import { createHttpServer } from './http-server.js'
 // Re-export types and factories for library usage
 export * from './types.js'
 export * from './session-store.js'
+export * from './persistence.js'
+export * from './crdt.js'
+export * from './validation.js'
 export * from './auth.js'
 export * from './websocket-server.js'
 export * from './http-server.js'
@@ -32,6 +35,15 @@ export async function startServer(config?: Partial<ServerConfig>): Promise<{
     host: process.env['HOST'] || config?.host || DEFAULT_SERVER_CONFIG.host,
     jwtSecret: process.env['JWT_SECRET'] || config?.jwtSecret || DEFAULT_SERVER_CONFIG.jwtSecret,
     debug: process.env['DEBUG'] === 'true' || config?.debug || DEFAULT_SERVER_CONFIG.debug,
+    persistence: getPersistenceFromEnv() ?? config?.persistence,
+    validation: {
+      ...config?.validation,
+      schemaDir: process.env['SCHEMA_DIR'] || config?.validation?.schemaDir,
+    },
+    recording: {
+      ...config?.recording,
+      enabled: process.env['RECORDING'] === 'false' ? false : config?.recording?.enabled,
+    },
   }
 
   // Warn about default JWT secret in production
@@ -47,6 +59,9 @@ export async function startServer(config?: Partial<ServerConfig>): Promise<{
   console.log('Starting isocubic server...')
   console.log(`Environment: ${process.env['NODE_ENV'] || 'development'}`)
   console.log(`Debug mode: ${finalConfig.debug}`)
+  if (finalConfig.persistence) {
+    console.log(`Persistence: ${finalConfig.persistence.driver} (${finalConfig.persistence.path})`)
+  }
 
   // Create components
   const sessionStore = createSessionStore(finalConfig)
@@ -63,11 +78,27 @@ export async function startServer(config?: Partial<ServerConfig>): Promise<{
   console.log('isocubic server started successfully')
 
   return {
-    stop: () => httpServer.stop(),
+    stop: async () => {
+      await httpServer.stop()
+      sessionStore.close()
+    },
     config: finalConfig,
   }
 }
 
+/**
+ * Reads the persistence config from PERSISTENCE_DRIVER ('file' or 'sqlite') and
+ * PERSISTENCE_PATH
+ */
+function getPersistenceFromEnv(): PersistenceConfig | undefined {
+  const driver = process.env['PERSISTENCE_DRIVER']
+  const path = process.env['PERSISTENCE_PATH']
+  if (!path || (driver !== 'file' && driver !== 'sqlite')) {
+    return undefined
+  }
+  return { driver, path }
+}
+
 // Run server if this is the main module
 const isMainModule = import.meta.url === `file://${process.argv[1]}`
 if (isMainModule) {
@@ -0,0 +1,108 @@
+/**
+ * Tests for session persistence backends
+ */
+
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { createSessionPersistence } from './persistence.js'
+import type { PersistenceEntry } from './persistence.js'
+import type { PersistenceDriver, ServerSession } from './types.js'
+
+/** Whether this Node.js version has the built-in SQLite module */
+const hasSqlite = (() => {
+  try {
+    createRequire(import.meta.url)('node:sqlite')
+    return true
+  } catch {
+    return false
+  }
+})()
+
+const session: ServerSession = {
+  id: 's-1',
+  code: 'ABC234',
+  settings: {
+    name: 'Castle',
+    isOpen: true,
+    maxParticipants: 10,
+    allowRoleRequests: true,
+    autoSaveInterval: 30000,
+  },
+  ownerId: 'p-1',
+  participants: [],
+  cubes: [],
+  createdAt: '2026-01-01T00:00:00.000Z',
+  modifiedAt: '2026-01-01T00:00:00.000Z',
+}
+
+const entries: PersistenceEntry[] = [
+  { type: 'session', session },
+  { type: 'delete', sessionId: 's-2' },
+]
+
+describe.each<[PersistenceDriver, boolean]>([
+  ['file', true],
+  ['sqlite', hasSqlite],
+])('%s persistence', (driver, available) => {
+  let directory: string
+  let target: string
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'isocubic-persistence-'))
+    target = driver === 'file' ? directory : path.join(directory, 'sessions.db')
+  })
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it.skipIf(!available)('should start empty', () => {
+    const persistence = createSessionPersistence({ driver, path: target })
+    expect(persistence.load()).toEqual({ sessions: [], entries: [] })
+    persistence.close()
+  })
+
+  it.skipIf(!available)('should read back logged changes in order after reopening', () => {
+    const first = createSessionPersistence({ driver, path: target })
+    entries.forEach((entry) => first.append(entry))
+    first.close()
+
+    const second = createSessionPersistence({ driver, path: target })
+    expect(second.load()).toEqual({ sessions: [], entries })
+    second.close()
+  })
+
+  it.skipIf(!available)('should replace the snapshot and clear the log', () => {
+    const persistence = createSessionPersistence({ driver, path: target })
+    entries.forEach((entry) => persistence.append(entry))
+    persistence.snapshot([session])
+    persistence.append({ type: 'delete', sessionId: 's-1' })
+
+    expect(persistence.load()).toEqual({
+      sessions: [session],
+      entries: [{ type: 'delete', sessionId: 's-1' }],
+    })
+    persistence.close()
+  })
+})
+
+describe('file persistence', () => {
+  it('should skip a log line torn by a crash', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'isocubic-persistence-'))
+    const persistence = createSessionPersistence({ driver: 'file', path: directory })
+    persistence.append({ type: 'delete', sessionId: 's-1' })
+    fs.appendFileSync(path.join(directory, 'actions.log'), '{"type":"dele')
+
+    expect(persistence.load().entries).toEqual([{ type: 'delete', sessionId: 's-1' }])
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it.skipIf(hasSqlite)('should explain when SQLite is not available', () => {
+    expect(() => createSessionPersistence({ driver: 'sqlite', path: 'unused.db' })).toThrow(
+      /Node\.js 22\.5/
+    )
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Durable session persistence for isocubic server
+ * An append-only log of session changes plus periodic snapshots, either as files in a
+ * directory or in a SQLite database file. SessionStore writes every change and, on startup,
+ * replays the latest snapshot followed by the log.
+ *
+ * Replaying a log entry that is already part of the snapshot leaves the state unchanged
+ * (session records are upserts, cube actions carry CRDT deltas), so a crash between writing
+ * a snapshot and truncating the log loses nothing.
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { createRequire } from 'node:module'
+import type { DatabaseSync } from 'node:sqlite'
+import type { SessionId, ServerSession, CollaborativeAction, PersistenceConfig } from './types.js'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Session without its cubes or recording: participants, settings and expiry
+ */
+export type SessionRecord = Omit<ServerSession, 'cubes' | 'document' | 'recording'>
+
+/**
+ * One change in the log
+ */
+export type PersistenceEntry =
+  | { type: 'session'; session: SessionRecord }
+  | { type: 'action'; action: CollaborativeAction; sequence?: number; recordedAt?: string }
+  | { type: 'delete'; sessionId: SessionId }
+
+/**
+ * State read back on startup
+ */
+export interface PersistedState {
+  /** Sessions in the latest snapshot */
+  sessions: ServerSession[]
+  /** Changes logged since that snapshot, oldest first */
+  entries: PersistenceEntry[]
+}
+
+/**
+ * Storage backend for sessions. Calls are synchronous so that a change is stored before
+ * SessionStore reports it applied
+ */
+export interface SessionPersistence {
+  /** Reads the latest snapshot and the changes logged after it */
+  load(): PersistedState
+  /** Appends a change to the log */
+  append(entry: PersistenceEntry): void
+  /** Replaces the snapshot with the given sessions and clears the log */
+  snapshot(sessions: ServerSession[]): void
+  /** Releases files or connections */
+  close(): void
+}
+
+/**
+ * Parses one log entry; null for a torn or unreadable write
+ */
+function parseEntry(text: string): PersistenceEntry | null {
+  try {
+    const entry = JSON.parse(text) as PersistenceEntry
+    return typeof entry === 'object' && entry !== null && 'type' in entry ? entry : null
+  } catch {
+    return null
+  }
+}
+
+// ============================================================================
+// File Persistence
+// ============================================================================
+
+/** Snapshot file name inside the persistence directory */
+const SNAPSHOT_FILE = 'snapshot.json'
+
+/** Action log file name inside the persistence directory (one JSON entry per line) */
+const LOG_FILE = 'actions.log'
+
+/**
+ * Persists sessions as `snapshot.json` and an `actions.log` of JSON lines in a directory
+ */
+export class FileSessionPersistence implements SessionPersistence {
+  private snapshotPath: string
+  private logPath: string
+
+  constructor(directory: string) {
+    fs.mkdirSync(directory, { recursive: true })
+    this.snapshotPath = path.join(directory, SNAPSHOT_FILE)
+    this.logPath = path.join(directory, LOG_FILE)
+  }
+
+  load(): PersistedState {
+    let sessions: ServerSession[] = []
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8')) as {
+        sessions?: ServerSession[]
+      }
+      sessions = snapshot.sessions ?? []
+    }
+
+    const entries = fs.existsSync(this.logPath)
+      ? fs
+          .readFileSync(this.logPath, 'utf8')
+          .split('\n')
+          .filter((line) => line.trim() !== '')
+          .flatMap((line) => parseEntry(line) ?? [])
+      : []
+
+    return { sessions, entries }
+  }
+
+  append(entry: PersistenceEntry): void {
+    fs.appendFileSync(this.logPath, `${JSON.stringify(entry)}\n`)
+  }
+
+  snapshot(sessions: ServerSession[]): void {
+    // Write to a temporary file and rename, so a crash never leaves half a snapshot
+    const temporaryPath = `${this.snapshotPath}.tmp`
+    fs.writeFileSync(
+      temporaryPath,
+      JSON.stringify({ version: 1, savedAt: new Date().toISOString(), sessions })
+    )
+    fs.renameSync(temporaryPath, this.snapshotPath)
+    fs.writeFileSync(this.logPath, '')
+  }
+
+  close(): void {
+    // Every write is synchronous; nothing is held open
+  }
+}
+
+// ============================================================================
+// SQLite Persistence
+// ============================================================================
+
+/**
+ * Opens a SQLite database with the built-in `node:sqlite` module, loaded on first use so
+ * the server still starts on Node.js versions without it
+ */
+function openDatabase(file: string): DatabaseSync {
+  let sqlite: typeof import('node:sqlite')
+  try {
+    sqlite = createRequire(import.meta.url)('node:sqlite') as typeof import('node:sqlite')
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new Error(`SQLite persistence requires Node.js 22.5 or later (${message})`)
+  }
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  return new sqlite.DatabaseSync(file)
+}
+
+/**
+ * Persists sessions in a SQLite database file: a `snapshots` table with one row per session
+ * and an `actions` table as the log
+ */
+export class SqliteSessionPersistence implements SessionPersistence {
+  private database: DatabaseSync
+
+  constructor(file: string) {
+    this.database = openDatabase(file)
+    this.database.exec(`
+      CREATE TABLE IF NOT EXISTS snapshots (session_id TEXT PRIMARY KEY, data TEXT NOT NULL);
+      CREATE TABLE IF NOT EXISTS actions (seq INTEGER PRIMARY KEY AUTOINCREMENT, entry TEXT NOT NULL);
+    `)
+  }
+
+  load(): PersistedState {
+    const sessions = this.database
+      .prepare('SELECT data FROM snapshots ORDER BY session_id')
+      .all()
+      .map((row) => JSON.parse(String(row['data'])) as ServerSession)
+    const entries = this.database
+      .prepare('SELECT entry FROM actions ORDER BY seq')
+      .all()
+      .flatMap((row) => parseEntry(String(row['entry'])) ?? [])
+    return { sessions, entries }
+  }
+
+  append(entry: PersistenceEntry): void {
+    this.database.prepare('INSERT INTO actions (entry) VALUES (?)').run(JSON.stringify(entry))
+  }
+
+  snapshot(sessions: ServerSession[]): void {
+    const insert = this.database.prepare('INSERT INTO snapshots (session_id, data) VALUES (?, ?)')
+    this.database.exec('BEGIN')
+    try {
+      this.database.exec('DELETE FROM snapshots')
+      for (const session of sessions) {
+        insert.run(session.id, JSON.stringify(session))
+      }
+      this.database.exec('DELETE FROM actions')
+      this.database.exec('COMMIT')
+    } catch (error) {
+      this.database.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  close(): void {
+    this.database.close()
+  }
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Creates the persistence backend for a configuration
+ */
+export function createSessionPersistence(config: PersistenceConfig): SessionPersistence {
+  switch (config.driver) {
+    case 'file':
+      return new FileSessionPersistence(config.path)
+    case 'sqlite':
+      return new SqliteSessionPersistence(config.path)
+  }
+}
@@ -2,10 +2,18 @@
  * Tests for session store module
  */
 
-import { describe, it, expect, beforeEach } from 'vitest'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { SessionStore, createSessionStore } from './session-store.js'
 import { DEFAULT_SERVER_CONFIG } from './types.js'
 import type { ServerConfig, CollaborativeAction } from './types.js'
+import type { CRDTDocument } from './crdt.js'
+import { FileSessionPersistence } from './persistence.js'
+
+/** Base material of the test cubes, as the cube schema requires */
+const base = { color: [0.5, 0.5, 0.5] }
 
 describe('SessionStore', () => {
   let store: SessionStore
@@ -100,6 +108,19 @@ describe('SessionStore', () => {
       expect(reconnectedBob.id).toBe(bob.id)
       expect(reconnectedBob.status).toBe('online')
     })
+
+    it('should allow reconnection to a full or closed session', () => {
+      const { session } = store.createSession('Alice', { maxParticipants: 2 })
+      const { participant: bob } = store.joinSession(session.code, 'Bob')
+      expect(() => store.joinSession(session.code, 'Carol')).toThrow('Session is full')
+
+      expect(store.joinSession(session.code, 'Bob', bob.id).participant.id).toBe(bob.id)
+
+      session.settings.isOpen = false
+      expect(() => store.joinSession(session.code, 'Carol')).toThrow('Session is closed')
+      expect(store.joinSession(session.code, 'Bob', bob.id).participant.id).toBe(bob.id)
+      expect(store.getSession(session.id)?.participants).toHaveLength(2)
+    })
   })
 
   describe('leaveSession', () => {
@@ -152,7 +173,7 @@ describe('SessionStore', () => {
     it('should update participant cursor', () => {
       const { session, participant } = store.createSession('Alice')
 
-      const cursor = { x: 1, y: 2, z: 3, selectedCubeId: 'cube-1' }
+      const cursor = { x: 1, y: 2, z: 3, selectedCubeId: 'cube_1' }
       const updated = store.updatePresence(session.id, participant.id, undefined, cursor)
 
       expect(updated?.cursor).toEqual(cursor)
@@ -210,7 +231,7 @@ describe('SessionStore', () => {
         participantId: participant.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cube: { id: 'cube-1', name: 'Test Cube' } },
+        payload: { cube: { id: 'cube_1', base } },
       }
 
       const success = store.applyAction(action)
@@ -218,7 +239,7 @@ describe('SessionStore', () => {
       expect(success).toBe(true)
       const updatedSession = store.getSession(session.id)
       expect(updatedSession?.cubes).toHaveLength(1)
-      expect(updatedSession?.cubes[0]?.[0]).toBe('cube-1')
+      expect(updatedSession?.cubes[0]?.[0]).toBe('cube_1')
     })
 
     it('should apply cube_update action', () => {
@@ -231,7 +252,7 @@ describe('SessionStore', () => {
         participantId: participant.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cube: { id: 'cube-1', name: 'Test Cube', color: 'red' } },
+        payload: { cube: { id: 'cube_1', base } },
       })
 
       // Then update it
@@ -241,13 +262,13 @@ describe('SessionStore', () => {
         participantId: participant.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cubeId: 'cube-1', changes: { color: 'blue' } },
+        payload: { cubeId: 'cube_1', changes: { base: { color: [0, 0, 1] } } },
       })
 
       expect(success).toBe(true)
       const updatedSession = store.getSession(session.id)
       const cube = updatedSession?.cubes[0]?.[1] as Record<string, unknown>
-      expect(cube?.color).toBe('blue')
+      expect(cube?.base).toEqual({ color: [0, 0, 1] })
     })
 
     it('should apply cube_delete action', () => {
@@ -259,7 +280,7 @@ describe('SessionStore', () => {
         participantId: participant.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cube: { id: 'cube-1' } },
+        payload: { cube: { id: 'cube_1', base } },
       })
 
       const success = store.applyAction({
@@ -268,7 +289,7 @@ describe('SessionStore', () => {
         participantId: participant.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cubeId: 'cube-1' },
+        payload: { cubeId: 'cube_1' },
       })
 
       expect(success).toBe(true)
@@ -276,6 +297,97 @@ describe('SessionStore', () => {
       expect(updatedSession?.cubes).toHaveLength(0)
     })
 
+    it('should keep concurrent edits of different nested fields', () => {
+      const { session, participant: alice } = store.createSession('Alice')
+      const { participant: bob } = store.joinSession(session.code, 'Bob')
+      const cube = { id: 'cube_1', base, noise: { type: 'perlin', scale: 1, octaves: 2 } }
+      const update = (participantId: string, noise: Record<string, unknown>) =>
+        store.applyAction({
+          id: `update-${participantId}`,
+          type: 'cube_update',
+          participantId,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload: { cubeId: 'cube_1', changes: { noise }, previousState: cube },
+        })
+
+      store.applyAction({
+        id: 'action-1',
+        type: 'cube_create',
+        participantId: alice.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cube },
+      })
+      // Both edits were made on the same state of the cube
+      update(alice.id, { ...cube.noise, scale: 4 })
+      update(bob.id, { ...cube.noise, octaves: 6 })
+
+      const updated = store.getSession(session.id)?.cubes[0]?.[1] as Record<string, unknown>
+      expect(updated['noise']).toEqual({ type: 'perlin', scale: 4, octaves: 6 })
+    })
+
+    it('should attach the applied CRDT delta to the action', () => {
+      const { session, participant } = store.createSession('Alice')
+      const action: CollaborativeAction = {
+        id: 'action-1',
+        type: 'cube_create',
+        participantId: participant.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cube: { id: 'cube_1', base } },
+      }
+
+      store.applyAction(action)
+
+      const { delta } = action.payload as { delta: CRDTDocument }
+      expect(Object.keys(delta.cubes)).toEqual(['cube_1'])
+      expect(store.serializeSession(store.getSession(session.id)!).document).toEqual(delta)
+    })
+
+    it('should record the last sequence number per participant', () => {
+      const { session, participant } = store.createSession('Alice')
+      const create = (sequence: number) =>
+        store.applyAction(
+          {
+            id: `action-${sequence}`,
+            type: 'cube_create',
+            participantId: participant.id,
+            sessionId: session.id,
+            timestamp: new Date().toISOString(),
+            payload: { cube: { id: `cube_${sequence}`, base } },
+          },
+          sequence
+        )
+
+      expect(store.getLastSequence(session.id, participant.id)).toBe(0)
+      create(2)
+      create(1)
+      expect(store.getLastSequence(session.id, participant.id)).toBe(2)
+      expect(store.getLastSequence(session.id, 'someone-else')).toBe(0)
+    })
+
+    it('should not record the sequence number of a rejected action', () => {
+      const { session, participant: owner } = store.createSession('Alice')
+      const { participant: viewer } = store.joinSession(session.code, 'Bob')
+      store.updateParticipantRole(session.id, owner.id, viewer.id, 'viewer')
+
+      const result = store.tryApplyAction(
+        {
+          id: 'action-1',
+          type: 'cube_create',
+          participantId: viewer.id,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload: { cube: { id: 'cube_1', base } },
+        },
+        1
+      )
+
+      expect(result.success).toBe(false)
+      expect(store.getLastSequence(session.id, viewer.id)).toBe(0)
+    })
+
     it('should not allow viewer to modify cubes', () => {
       const { session, participant: owner } = store.createSession('Alice')
       const { participant: viewer } = store.joinSession(session.code, 'Bob')
@@ -289,13 +401,108 @@ describe('SessionStore', () => {
         participantId: viewer.id,
         sessionId: session.id,
         timestamp: new Date().toISOString(),
-        payload: { cube: { id: 'cube-1' } },
+        payload: { cube: { id: 'cube_1', base } },
       })
 
       expect(success).toBe(false)
     })
   })
 
+  describe('tryApplyAction', () => {
+    /** Creates a session with a cube, owned by Alice, with Bob and Carol as editors */
+    function createTeam() {
+      const { session, participant: alice } = store.createSession('Alice')
+      const { participant: bob } = store.joinSession(session.code, 'Bob')
+      const { participant: carol } = store.joinSession(session.code, 'Carol')
+      const act = (participantId: string, type: CollaborativeAction['type'], payload: unknown) =>
+        store.tryApplyAction({
+          id: `action-${Math.random()}`,
+          type,
+          participantId,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload,
+        })
+      act(alice.id, 'cube_create', { cube: { id: 'cube_1', base } })
+      return { session, alice, bob, carol, act }
+    }
+
+    it('should explain why an action was rejected', () => {
+      const { alice, act } = createTeam()
+
+      expect(act(alice.id, 'cube_create', { cube: { id: 'cube_2' } })).toMatchObject({
+        success: false,
+        error: { code: 'INVALID_CUBE' },
+      })
+      expect(act(alice.id, 'cube_update', { cubeId: 'cube_1', changes: { mass: 5 } })).toEqual({
+        success: false,
+        error: expect.objectContaining({
+          code: 'UNKNOWN_FIELDS',
+          message: 'Unknown fields: /mass',
+        }),
+      })
+      expect(act(alice.id, 'cube_delete', { cubeId: 'cube_9' })).toMatchObject({
+        error: { code: 'CUBE_NOT_FOUND' },
+      })
+      expect(act('stranger', 'cube_delete', { cubeId: 'cube_1' })).toMatchObject({
+        error: { code: 'NOT_A_PARTICIPANT' },
+      })
+    })
+
+    it('should reject deltas that change other cubes', () => {
+      const { alice, act } = createTeam()
+      const delta = { cubes: { cube_2: { tags: ['1:x'], removed: [] } } }
+
+      expect(act(alice.id, 'cube_delete', { cubeId: 'cube_1', delta })).toMatchObject({
+        error: { code: 'INVALID_ACTION' },
+      })
+    })
+
+    it('should let commenters comment but not edit', () => {
+      const { session, alice, bob, act } = createTeam()
+      store.updateParticipantRole(session.id, alice.id, bob.id, 'commenter')
+
+      expect(act(bob.id, 'cube_comment', { cubeId: 'cube_1', text: 'Darker?' })).toEqual({
+        success: true,
+      })
+      expect(act(bob.id, 'cube_delete', { cubeId: 'cube_1' })).toMatchObject({
+        error: { code: 'PERMISSION_DENIED' },
+      })
+      expect(act(bob.id, 'session_settings_update', { settings: { name: 'Mine' } })).toMatchObject({
+        error: { code: 'PERMISSION_DENIED' },
+      })
+    })
+
+    it('should only let the lock holder change a locked cube', () => {
+      const { session, alice, bob, carol, act } = createTeam()
+      const update = { cubeId: 'cube_1', changes: { base: { color: [0, 0, 1] } } }
+
+      expect(act(bob.id, 'cube_lock', { cubeId: 'cube_1' }).success).toBe(true)
+      expect(act(carol.id, 'cube_update', update)).toMatchObject({
+        error: { code: 'CUBE_LOCKED', details: { cubeId: 'cube_1', lockedBy: bob.id } },
+      })
+      expect(act(carol.id, 'cube_unlock', { cubeId: 'cube_1' }).success).toBe(false)
+      expect(act(bob.id, 'cube_update', update).success).toBe(true)
+      expect(store.serializeSession(store.getSession(session.id)!).cubeLocks).toEqual({
+        cube_1: bob.id,
+      })
+
+      // The owner may remove any lock
+      expect(act(alice.id, 'cube_unlock', { cubeId: 'cube_1' }).success).toBe(true)
+      expect(act(carol.id, 'cube_update', update).success).toBe(true)
+    })
+
+    it('should release the locks of a participant who leaves', () => {
+      const { session, bob, carol, act } = createTeam()
+      act(bob.id, 'cube_lock', { cubeId: 'cube_1' })
+
+      store.leaveSession(session.id, bob.id)
+
+      expect(store.getSession(session.id)?.cubeLocks).toEqual({})
+      expect(act(carol.id, 'cube_delete', { cubeId: 'cube_1' }).success).toBe(true)
+    })
+  })
+
   describe('cleanup', () => {
     it('should mark inactive participants as offline', () => {
       // Use a very short timeout for testing
@@ -318,6 +525,218 @@ describe('SessionStore', () => {
     })
   })
 
+  describe('persistence', () => {
+    let directory: string
+    let persistentConfig: ServerConfig
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'isocubic-sessions-'))
+      persistentConfig = { ...config, persistence: { driver: 'file', path: directory } }
+    })
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+
+    /** Creates a session with one cube, edited once */
+    function createEditedSession(target: SessionStore) {
+      const { session, participant } = target.createSession('Alice', { name: 'Castle' })
+      const action = (id: string, type: CollaborativeAction['type'], payload: unknown) =>
+        target.applyAction({
+          id,
+          type,
+          participantId: participant.id,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload,
+        })
+      action('action-1', 'cube_create', { cube: { id: 'cube_1', base, noise: { scale: 1 } } })
+      action('action-2', 'cube_update', { cubeId: 'cube_1', changes: { noise: { scale: 3 } } })
+      return { session, participant }
+    }
+
+    it('should restore sessions and cubes after a restart', () => {
+      const first = createSessionStore(persistentConfig)
+      const { session, participant } = createEditedSession(first)
+      const { participant: bob } = first.joinSession(session.code, 'Bob')
+      // The process ends without a snapshot: everything is in the log
+
+      const restarted = createSessionStore(persistentConfig)
+      const restored = restarted.getSessionByCode(session.code)
+      expect(restored?.settings.name).toBe('Castle')
+      expect(restored?.cubes).toEqual([['cube_1', { id: 'cube_1', base, noise: { scale: 3 } }]])
+      expect(restored?.participants.map(([id]) => id)).toEqual([participant.id, bob.id])
+      expect(restored?.participants.every(([, p]) => p.status === 'offline')).toBe(true)
+    })
+
+    it('should restore the last sequence numbers', () => {
+      const first = createSessionStore(persistentConfig)
+      const { session, participant } = first.createSession('Alice')
+      first.applyAction(
+        {
+          id: 'action-1',
+          type: 'cube_create',
+          participantId: participant.id,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload: { cube: { id: 'cube_1', base } },
+        },
+        7
+      )
+
+      const restarted = createSessionStore(persistentConfig)
+      expect(restarted.getLastSequence(session.id, participant.id)).toBe(7)
+    })
+
+    it('should keep accepting changes after a restart', () => {
+      const first = createSessionStore(persistentConfig)
+      const { session, participant } = createEditedSession(first)
+      first.close()
+
+      const second = createSessionStore(persistentConfig)
+      second.applyAction({
+        id: 'action-3',
+        type: 'cube_delete',
+        participantId: participant.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cubeId: 'cube_1' },
+      })
+
+      const third = createSessionStore(persistentConfig)
+      expect(third.getSession(session.id)?.cubes).toEqual([])
+    })
+
+    it('should compact the log into a snapshot', () => {
+      const store = createSessionStore({
+        ...persistentConfig,
+        persistence: { driver: 'file', path: directory, snapshotInterval: 2 },
+      })
+      const { session } = createEditedSession(store)
+
+      // Three changes: the session and the create were compacted, the update is logged
+      const persistence = new FileSessionPersistence(directory)
+      const { sessions, entries } = persistence.load()
+      expect(entries).toHaveLength(1)
+      expect(sessions.map(({ id }) => id)).toEqual([session.id])
+    })
+
+    it('should not restore deleted or expired sessions', () => {
+      const first = createSessionStore(persistentConfig)
+      const { session: deleted } = first.createSession('Alice')
+      first.deleteSession(deleted.id)
+      const { session: expired } = first.createSession('Bob')
+      expired.expiresAt = new Date(Date.now() - 1000).toISOString()
+      first.snapshot()
+      const { session: kept } = first.createSession('Carol')
+
+      const restarted = createSessionStore(persistentConfig)
+      expect(restarted.getAllSessions().map(({ id }) => id)).toEqual([kept.id])
+      expect(restarted.getSessionByCode(expired.code)).toBeNull()
+    })
+
+    it('should honour sessionExpirationMs for sessions restored without an expiry', () => {
+      const first = createSessionStore(persistentConfig)
+      const { session } = first.createSession('Alice')
+      delete session.expiresAt
+      session.createdAt = new Date(Date.now() - 2000).toISOString()
+      first.close()
+
+      const long = createSessionStore({ ...persistentConfig, sessionExpirationMs: 60000 })
+      expect(long.getSessionCount()).toBe(1)
+      long.close()
+      const short = createSessionStore({ ...persistentConfig, sessionExpirationMs: 1000 })
+      expect(short.getSessionCount()).toBe(0)
+    })
+  })
+
+  describe('getRecording', () => {
+    it('should record joins, applied actions and leaves in order', () => {
+      const { session, participant: alice } = store.createSession('Alice', { name: 'Castle' })
+      const { participant: bob } = store.joinSession(session.code, 'Bob')
+      store.applyAction({
+        id: 'action-1',
+        type: 'cube_create',
+        participantId: bob.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cube: { id: 'cube_1', base } },
+      })
+      // Rejected actions are not recorded
+      store.applyAction({
+        id: 'action-2',
+        type: 'cube_delete',
+        participantId: bob.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cubeId: 'cube_9' },
+      })
+      store.leaveSession(session.id, bob.id)
+
+      const recording = store.getRecording(session.id)
+      expect(recording).toMatchObject({ sessionId: session.id, name: 'Castle' })
+      expect(recording?.actions.map(({ action }) => [action.type, action.participantId])).toEqual([
+        ['participant_join', alice.id],
+        ['participant_join', bob.id],
+        ['cube_create', bob.id],
+        ['participant_leave', bob.id],
+      ])
+      expect(recording?.actions[2]?.action.payload).toHaveProperty('delta')
+      expect(recording?.actions.every(({ recordedAt }) => !isNaN(Date.parse(recordedAt)))).toBe(
+        true
+      )
+    })
+
+    it('should sample cursor positions per participant', () => {
+      store = createSessionStore({ ...config, recording: { cursorInterval: 60000 } })
+      const { session, participant } = store.createSession('Alice')
+      store.updatePresence(session.id, participant.id, undefined, { x: 1, y: 0, z: 0 })
+      store.updatePresence(session.id, participant.id, undefined, { x: 2, y: 0, z: 0 })
+
+      const moves = store
+        .getRecording(session.id)
+        ?.actions.filter(({ action }) => action.type === 'cursor_move')
+      expect(moves?.map(({ action }) => action.payload)).toEqual([
+        { position: { x: 1, y: 0, z: 0 } },
+      ])
+    })
+
+    it('should not record when disabled', () => {
+      store = createSessionStore({ ...config, recording: { enabled: false } })
+      const { session } = store.createSession('Alice')
+
+      expect(store.getRecording(session.id)?.actions).toEqual([])
+    })
+
+    it('should return null for an unknown session', () => {
+      expect(store.getRecording('non-existent')).toBeNull()
+    })
+
+    it('should keep the recording across a restart', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'isocubic-sessions-'))
+      const persistentConfig: ServerConfig = {
+        ...config,
+        persistence: { driver: 'file', path: directory },
+      }
+      const first = createSessionStore(persistentConfig)
+      const { session, participant } = first.createSession('Alice')
+      first.snapshot()
+      first.applyAction({
+        id: 'action-1',
+        type: 'cube_create',
+        participantId: participant.id,
+        sessionId: session.id,
+        timestamp: new Date().toISOString(),
+        payload: { cube: { id: 'cube_1', base } },
+      })
+      const recorded = first.getRecording(session.id)?.actions
+
+      const restarted = createSessionStore(persistentConfig)
+      expect(restarted.getRecording(session.id)?.actions).toEqual(recorded)
+      fs.rmSync(directory, { recursive: true, force: true })
+    })
+  })
+
   describe('getSessionByCode', () => {
     it('should find session by code', () => {
       const { session } = store.createSession('Alice')
@@ -1,6 +1,10 @@
 /**
  * In-memory session store for isocubic server
- * Manages session state and provides session operations
+ * Manages session state and provides session operations.
+ * With a persistence backend (see persistence.ts) every change is logged and the sessions
+ * are restored on startup. Actions are validated (see validation.ts) and checked against the
+ * participant's role and the session's cube locks before they are applied. Applied actions,
+ * joins, leaves and sampled cursor positions are recorded per session for playback
  */
 
 import { v4 as uuidv4 } from 'uuid'
@@ -12,10 +16,30 @@ import type {
   ServerSession,
   SessionSettings,
   SerializableSession,
+  SessionRecording,
   CollaborativeAction,
+  ActionType,
+  ActionError,
+  ApplyActionResult,
   ServerConfig,
 } from './types.js'
 import { generateSessionCode, generateParticipantColor } from './types.js'
+import {
+  CRDTClock,
+  applyDelta,
+  createCRDTDocument,
+  createDocumentFromCubes,
+  getActionDelta,
+  getDocumentCube,
+  getDocumentCubes,
+  hasCube,
+  mergeDocuments,
+} from './crdt.js'
+import type { CRDTDocument } from './crdt.js'
+import { createSessionPersistence } from './persistence.js'
+import type { SessionPersistence, PersistenceEntry, SessionRecord } from './persistence.js'
+import { createActionValidator } from './validation.js'
+import type { ActionValidator } from './validation.js'
 
 /**
  * Default session settings
@@ -28,6 +52,52 @@ const DEFAULT_SESSION_SETTINGS: SessionSettings = {
   autoSaveInterval: 30000,
 }
 
+/** Logged changes between snapshots when the persistence config does not say */
+const DEFAULT_SNAPSHOT_INTERVAL = 100
+
+/** Recording size after which cursor moves are dropped, when the recording config does not say */
+const DEFAULT_MAX_RECORDED_ACTIONS = 10000
+
+/** Shortest time between two recorded cursor positions of a participant, in ms */
+const DEFAULT_CURSOR_RECORD_INTERVAL = 100
+
+/** Actions each role may perform; every role includes those of the roles below it */
+const VIEWER_ACTIONS: ActionType[] = [
+  'cube_select',
+  'cursor_move',
+  'participant_join',
+  'participant_leave',
+]
+const COMMENTER_ACTIONS: ActionType[] = [...VIEWER_ACTIONS, 'cube_comment']
+const EDITOR_ACTIONS: ActionType[] = [
+  ...COMMENTER_ACTIONS,
+  'cube_create',
+  'cube_update',
+  'cube_delete',
+  'cube_lock',
+  'cube_unlock',
+]
+const ROLE_ACTIONS: Record<ParticipantRole, ActionType[]> = {
+  owner: [...EDITOR_ACTIONS, 'session_settings_update'],
+  editor: EDITOR_ACTIONS,
+  commenter: COMMENTER_ACTIONS,
+  viewer: VIEWER_ACTIONS,
+}
+
+/**
+ * Checks whether a role may perform an action type
+ */
+export function canPerformAction(role: ParticipantRole, type: ActionType): boolean {
+  return ROLE_ACTIONS[role].includes(type)
+}
+
+/**
+ * Creates a rejected action result
+ */
+function reject(code: ActionError['code'], message: string, details?: unknown): ApplyActionResult {
+  return { success: false, error: { code, message, ...(details !== undefined && { details }) } }
+}
+
 /**
  * In-memory session store
  * In production, this could be replaced with Redis or a database
@@ -36,9 +106,148 @@ export class SessionStore {
   private sessions: Map<SessionId, ServerSession> = new Map()
   private sessionsByCode: Map<string, SessionId> = new Map()
   private config: ServerConfig
-
-  constructor(config: ServerConfig) {
+  /** Stamps the deltas derived from actions that do not carry one */
+  private clock = new CRDTClock('server')
+  private persistence: SessionPersistence | null
+  /** Changes logged since the last snapshot */
+  private unsnapshottedChanges = 0
+  private validator: ActionValidator
+  /** Time of the last recorded cursor position per participant */
+  private lastRecordedCursors: Map<ParticipantId, number> = new Map()
+
+  constructor(
+    config: ServerConfig,
+    persistence: SessionPersistence | null = config.persistence
+      ? createSessionPersistence(config.persistence)
+      : null
+  ) {
     this.config = config
+    this.persistence = persistence
+    this.validator = createActionValidator(config.validation)
+    if (persistence) {
+      this.restore(persistence)
+    }
+  }
+
+  /**
+   * Rebuilds the sessions from the latest snapshot and the log, drops the ones that have
+   * expired and compacts the log into a new snapshot
+   */
+  private restore(persistence: SessionPersistence): void {
+    const { sessions, entries } = persistence.load()
+    for (const session of sessions) {
+      this.sessions.set(session.id, session)
+    }
+    for (const entry of entries) {
+      this.replay(entry)
+    }
+
+    const now = Date.now()
+    for (const session of this.sessions.values()) {
+      if (this.isExpired(session, now)) {
+        this.sessions.delete(session.id)
+        continue
+      }
+      session.document ??= createDocumentFromCubes(session.cubes)
+      session.cubes = getDocumentCubes(session.document)
+      this.clock.observe(session.document)
+      // Nobody is connected after a restart
+      for (const [, participant] of session.participants) {
+        participant.status = 'offline'
+      }
+      this.sessionsByCode.set(session.code, session.id)
+    }
+
+    this.snapshot()
+    this.log(`Restored ${this.sessions.size} sessions (${entries.length} logged changes)`)
+  }
+
+  /**
+   * Applies one logged change while restoring
+   */
+  private replay(entry: PersistenceEntry): void {
+    switch (entry.type) {
+      case 'session': {
+        const existing = this.sessions.get(entry.session.id)
+        this.sessions.set(entry.session.id, {
+          ...entry.session,
+          cubes: existing?.cubes ?? [],
+          document: existing?.document ?? createCRDTDocument(),
+          recording: existing?.recording ?? [],
+        })
+        break
+      }
+      case 'action': {
+        const session = this.sessions.get(entry.action.sessionId)
+        if (session) {
+          this.recordSequence(session, entry.action.participantId, entry.sequence)
+          this.applyCubeAction(session, entry.action)
+          // The snapshot may already hold the action
+          if (!session.recording?.some(({ action }) => action.id === entry.action.id)) {
+            this.record(session, entry.action, entry.recordedAt ?? entry.action.timestamp)
+          }
+        }
+        break
+      }
+      case 'delete':
+        this.sessions.delete(entry.sessionId)
+        break
+    }
+  }
+
+  /**
+   * Logs a change; every `snapshotInterval` changes the log is compacted into a snapshot.
+   * Storage errors are reported but do not fail the change
+   */
+  private persist(entry: PersistenceEntry): void {
+    if (!this.persistence) return
+    try {
+      this.persistence.append(entry)
+    } catch (error) {
+      console.error('[SessionStore] Failed to persist change:', error)
+      return
+    }
+    this.unsnapshottedChanges++
+    const interval = this.config.persistence?.snapshotInterval ?? DEFAULT_SNAPSHOT_INTERVAL
+    if (this.unsnapshottedChanges >= interval) {
+      this.snapshot()
+    }
+  }
+
+  /**
+   * Logs a session's participants, settings and expiry (not its cubes)
+   */
+  private persistSession(session: ServerSession): void {
+    if (!this.persistence) return
+    const record: SessionRecord & Partial<Pick<ServerSession, 'cubes' | 'document' | 'recording'>> =
+      { ...session }
+    delete record.cubes
+    delete record.document
+    delete record.recording
+    this.persist({ type: 'session', session: record })
+  }
+
+  /**
+   * Writes a snapshot of every session and clears the log
+   */
+  snapshot(): void {
+    if (!this.persistence) return
+    try {
+      this.persistence.snapshot(this.getAllSessions())
+      this.unsnapshottedChanges = 0
+    } catch (error) {
+      console.error('[SessionStore] Failed to write snapshot:', error)
+    }
+  }
+
+  /**
+   * Snapshots the sessions and releases the persistence backend
+   */
+  close(): void {
+    if (!this.persistence) return
+    this.snapshot()
+    this.persistence.close()
+    this.persistence = null
   }
 
   /**
@@ -74,6 +283,7 @@ export class SessionStore {
       ownerId: participantId,
       participants: [[participantId, participant]],
       cubes: [],
+      document: createCRDTDocument(),
       createdAt: now,
       modifiedAt: now,
       expiresAt: new Date(Date.now() + this.config.sessionExpirationMs).toISOString(),
@@ -81,6 +291,8 @@ export class SessionStore {
 
     this.sessions.set(sessionId, session)
     this.sessionsByCode.set(sessionCode, sessionId)
+    this.persistSession(session)
+    this.recordParticipantAction(session, participantId, 'participant_join', { participant })
 
     this.log(`Session created: ${sessionId} (code: ${sessionCode})`)
 
@@ -132,30 +344,32 @@ export class SessionStore {
       throw new Error('Session not found')
     }
 
-    if (!session.settings.isOpen) {
-      throw new Error('Session is closed')
-    }
-
     const participantsMap = new Map(session.participants)
-    if (
-      session.settings.maxParticipants > 0 &&
-      participantsMap.size >= session.settings.maxParticipants
-    ) {
-      throw new Error('Session is full')
-    }
-
     const newParticipantId = participantId || `p-${uuidv4()}`
     const now = new Date().toISOString()
 
-    // Check if participant already exists (reconnection)
+    // Check if participant already exists (reconnection); members may rejoin a closed or
+    // full session
     const existingParticipant = participantsMap.get(newParticipantId)
     if (existingParticipant) {
       existingParticipant.status = 'online'
       existingParticipant.lastActiveAt = now
       session.modifiedAt = now
+      this.persistSession(session)
       return { session, participant: existingParticipant }
     }
 
+    if (!session.settings.isOpen) {
+      throw new Error('Session is closed')
+    }
+
+    if (
+      session.settings.maxParticipants > 0 &&
+      participantsMap.size >= session.settings.maxParticipants
+    ) {
+      throw new Error('Session is full')
+    }
+
     const participant: Participant = {
       id: newParticipantId,
       name: participantName,
@@ -169,6 +383,8 @@ export class SessionStore {
     participantsMap.set(newParticipantId, participant)
     session.participants = Array.from(participantsMap.entries())
     session.modifiedAt = now
+    this.persistSession(session)
+    this.recordParticipantAction(session, newParticipantId, 'participant_join', { participant })
 
     this.log(`Participant ${newParticipantId} joined session ${session.id}`)
 
@@ -193,6 +409,8 @@ export class SessionStore {
     participantsMap.delete(participantId)
     session.participants = Array.from(participantsMap.entries())
     session.modifiedAt = new Date().toISOString()
+    this.releaseLocks(session, participantId)
+    this.recordParticipantAction(session, participantId, 'participant_leave', { reason })
 
     this.log(`Participant ${participantId} left session ${sessionId} (${reason})`)
 
@@ -210,9 +428,11 @@ export class SessionStore {
       } else {
         // No participants left, delete session
         this.deleteSession(sessionId)
+        return true
       }
     }
 
+    this.persistSession(session)
     return true
   }
 
@@ -237,6 +457,7 @@ export class SessionStore {
     }
     if (cursor) {
       participant.cursor = cursor
+      this.recordParticipantAction(session, participantId, 'cursor_move', { position: cursor })
     }
     participant.lastActiveAt = new Date().toISOString()
 
@@ -269,6 +490,11 @@ export class SessionStore {
     target.role = newRole
     session.participants = Array.from(participantsMap.entries())
     session.modifiedAt = new Date().toISOString()
+    if (!canPerformAction(newRole, 'cube_lock')) {
+      this.releaseLocks(session, targetId)
+    }
+
+    this.persistSession(session)
 
     this.log(`Role of ${targetId} changed to ${newRole} by ${requesterId}`)
 
@@ -276,44 +502,70 @@ export class SessionStore {
   }
 
   /**
-   * Applies an action to a session
+   * Gets the highest action sequence number applied for a participant (0 when none)
    */
-  applyAction(action: CollaborativeAction): boolean {
+  getLastSequence(sessionId: SessionId, participantId: ParticipantId): number {
+    return this.getSession(sessionId)?.lastSequences?.[participantId] ?? 0
+  }
+
+  /**
+   * Records the sequence number of a participant's action
+   */
+  private recordSequence(
+    session: ServerSession,
+    participantId: ParticipantId,
+    sequence: number | undefined
+  ): void {
+    if (sequence === undefined) return
+    session.lastSequences ??= {}
+    session.lastSequences[participantId] = Math.max(
+      session.lastSequences[participantId] ?? 0,
+      sequence
+    )
+  }
+
+  /**
+   * Applies an action to a session; false when it is rejected (see `tryApplyAction`)
+   */
+  applyAction(action: CollaborativeAction, sequence?: number): boolean {
+    return this.tryApplyAction(action, sequence).success
+  }
+
+  /**
+   * Validates an action, checks it against the participant's role and the cube locks, and
+   * applies it. A `sequence` number, when given, is recorded for `getLastSequence` once the
+   * action is applied, so that a rejected action can be retried
+   */
+  tryApplyAction(action: CollaborativeAction, sequence?: number): ApplyActionResult {
     const session = this.getSession(action.sessionId)
-    if (!session) return false
+    if (!session) return reject('SESSION_NOT_FOUND', 'Session not found')
 
     const participantsMap = new Map(session.participants)
     const participant = participantsMap.get(action.participantId)
-    if (!participant) return false
+    if (!participant) return reject('NOT_A_PARTICIPANT', 'Not a participant of this session')
 
-    // Verify participant can perform the action
-    if (
-      action.type.startsWith('cube_') &&
-      action.type !== 'cube_select' &&
-      participant.role === 'viewer'
-    ) {
-      return false
+    const invalid = this.validator.validateAction(action)
+    if (invalid) return { success: false, error: invalid }
+
+    if (!canPerformAction(participant.role, action.type)) {
+      return reject('PERMISSION_DENIED', `A ${participant.role} cannot perform ${action.type}`)
     }
 
-    const cubesMap = new Map(session.cubes)
+    const locked = this.checkCubeLock(session, participant, action)
+    if (locked) return { success: false, error: locked }
+
+    const recordedAt = new Date().toISOString()
 
     switch (action.type) {
-      case 'cube_create': {
-        const payload = action.payload as { cube: { id: string } }
-        cubesMap.set(payload.cube.id, payload.cube)
-        break
-      }
-      case 'cube_update': {
-        const payload = action.payload as { cubeId: string; changes: Record<string, unknown> }
-        const existing = cubesMap.get(payload.cubeId) as Record<string, unknown> | undefined
-        if (existing) {
-          cubesMap.set(payload.cubeId, { ...existing, ...payload.changes })
-        }
-        break
-      }
+      case 'cube_create':
+      case 'cube_update':
       case 'cube_delete': {
-        const payload = action.payload as { cubeId: string }
-        cubesMap.delete(payload.cubeId)
+        const prepared = this.prepareCubeAction(session, action)
+        if ('code' in prepared) return { success: false, error: prepared }
+        this.applyCubeAction(session, action, sequence, prepared.delta, recordedAt)
+        if (action.type === 'cube_delete') {
+          this.unlockCube(session, (action.payload as { cubeId: string }).cubeId)
+        }
         break
       }
       case 'cube_select': {
@@ -335,20 +587,212 @@ export class SessionStore {
       }
       case 'session_settings_update': {
         const payload = action.payload as { settings: Partial<SessionSettings> }
-        if (participant.role === 'owner') {
-          session.settings = { ...session.settings, ...payload.settings }
-        } else {
-          return false
+        session.settings = { ...session.settings, ...payload.settings }
+        this.persistSession(session)
+        break
+      }
+      case 'cube_lock':
+      case 'cube_unlock':
+      case 'cube_comment': {
+        const { cubeId } = action.payload as { cubeId: string }
+        if (!hasCube(this.getDocument(session), cubeId)) {
+          return reject('CUBE_NOT_FOUND', `Cube ${cubeId} not found`)
         }
+        if (action.type === 'cube_lock') {
+          session.cubeLocks = { ...session.cubeLocks, [cubeId]: participant.id }
+          this.persistSession(session)
+        } else if (action.type === 'cube_unlock') {
+          this.unlockCube(session, cubeId)
+        }
+        // Comments are relayed to the other participants, not stored
         break
       }
     }
 
-    session.cubes = Array.from(cubesMap.entries())
     session.participants = Array.from(participantsMap.entries())
-    session.modifiedAt = new Date().toISOString()
+    session.modifiedAt = recordedAt
+    this.recordSequence(session, participant.id, sequence)
+    this.record(session, action, recordedAt)
 
-    return true
+    return { success: true }
+  }
+
+  /**
+   * Checks the lock of the cube an action changes: only the holder edits or deletes a
+   * locked cube, and only the holder or the owner unlocks it
+   */
+  private checkCubeLock(
+    session: ServerSession,
+    participant: Participant,
+    action: CollaborativeAction
+  ): ActionError | null {
+    const guarded: ActionType[] = ['cube_update', 'cube_delete', 'cube_lock', 'cube_unlock']
+    if (!guarded.includes(action.type)) return null
+
+    const { cubeId } = action.payload as { cubeId: string }
+    const holder = session.cubeLocks?.[cubeId]
+    if (!holder || holder === participant.id) return null
+    if (action.type === 'cube_unlock' && participant.role === 'owner') return null
+
+    return {
+      code: 'CUBE_LOCKED',
+      message: `Cube ${cubeId} is locked by another participant`,
+      details: { cubeId, lockedBy: holder },
+    }
+  }
+
+  /**
+   * Removes a cube's lock
+   */
+  private unlockCube(session: ServerSession, cubeId: string): void {
+    if (!session.cubeLocks?.[cubeId]) return
+    const locks = { ...session.cubeLocks }
+    delete locks[cubeId]
+    session.cubeLocks = locks
+    this.persistSession(session)
+  }
+
+  /**
+   * Removes the locks a participant holds
+   */
+  private releaseLocks(session: ServerSession, participantId: ParticipantId): void {
+    const locks = Object.entries(session.cubeLocks ?? {})
+    if (!locks.some(([, holder]) => holder === participantId)) return
+    session.cubeLocks = Object.fromEntries(locks.filter(([, holder]) => holder !== participantId))
+  }
+
+  /**
+   * Gets the session's CRDT document, seeding it from the cubes of sessions without one
+   */
+  private getDocument(session: ServerSession): CRDTDocument {
+    return (session.document ??= createDocumentFromCubes(session.cubes))
+  }
+
+  /**
+   * Derives the delta of a cube action and checks it: it may only touch the action's cube,
+   * an updated or deleted cube must exist, and a created or updated cube must match its
+   * schema afterwards
+   */
+  private prepareCubeAction(
+    session: ServerSession,
+    action: CollaborativeAction
+  ): { delta: CRDTDocument | null } | ActionError {
+    const payload = action.payload as { cube?: { id?: unknown }; cubeId?: string }
+    if (action.type === 'cube_create') {
+      const invalid = this.validator.validateCube(payload.cube)
+      if (invalid) return invalid
+    }
+
+    const cubeId = String(action.type === 'cube_create' ? payload.cube?.id : payload.cubeId)
+    const document = this.getDocument(session)
+    if (action.type !== 'cube_create' && !hasCube(document, cubeId)) {
+      return { code: 'CUBE_NOT_FOUND', message: `Cube ${cubeId} not found` }
+    }
+
+    try {
+      const delta = getActionDelta(document, this.clock, action)
+      if (!delta) return { delta }
+      if (Object.keys(delta.cubes).some((id) => id !== cubeId)) {
+        return { code: 'INVALID_ACTION', message: `Delta changes cubes other than ${cubeId}` }
+      }
+      if (action.type === 'cube_delete') return { delta }
+
+      // Validate the cube as it will be, without touching the document
+      const entry = document.cubes[cubeId]
+      const result = mergeDocuments({ cubes: entry ? { [cubeId]: entry } : {} }, delta)
+      const cube = getDocumentCube(result, cubeId)
+      if (!cube) {
+        return { code: 'INVALID_ACTION', message: `Delta does not leave cube ${cubeId} present` }
+      }
+      if (cube['id'] !== cubeId) {
+        return { code: 'INVALID_ACTION', message: 'A cube id cannot change' }
+      }
+      return this.validator.validateCube(cube) ?? { delta }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      return { code: 'INVALID_ACTION', message: `Malformed delta: ${reason}` }
+    }
+  }
+
+  /**
+   * Applies a cube action to the session's CRDT document and logs it with its delta
+   */
+  private applyCubeAction(
+    session: ServerSession,
+    action: CollaborativeAction,
+    sequence?: number,
+    delta: CRDTDocument | null = getActionDelta(this.getDocument(session), this.clock, action),
+    recordedAt?: string
+  ): void {
+    const document = this.getDocument(session)
+    if (delta) {
+      applyDelta(document, delta)
+      this.clock.observe(delta)
+      // Relay the delta so every replica merges the same change
+      ;(action.payload as { delta?: CRDTDocument }).delta = delta
+      this.persist({ type: 'action', action, sequence, recordedAt })
+    }
+    session.cubes = getDocumentCubes(document)
+  }
+
+  /**
+   * Adds an applied action to the session's recording. A participant's cursor moves are
+   * sampled at most every `cursorInterval` and dropped once the recording holds `maxEntries`;
+   * other actions are always kept, so that playback rebuilds the cubes exactly
+   */
+  private record(
+    session: ServerSession,
+    action: CollaborativeAction,
+    recordedAt = new Date().toISOString()
+  ): void {
+    const config = this.config.recording
+    if (config?.enabled === false) return
+    const recording = (session.recording ??= [])
+
+    if (action.type === 'cursor_move') {
+      if (recording.length >= (config?.maxEntries ?? DEFAULT_MAX_RECORDED_ACTIONS)) return
+      const time = new Date(recordedAt).getTime()
+      const last = this.lastRecordedCursors.get(action.participantId)
+      const interval = config?.cursorInterval ?? DEFAULT_CURSOR_RECORD_INTERVAL
+      if (last !== undefined && time - last < interval) return
+      this.lastRecordedCursors.set(action.participantId, time)
+    }
+
+    recording.push({ recordedAt, action })
+  }
+
+  /**
+   * Records a change the server makes on a participant's behalf (joining, leaving or moving
+   * the cursor through a presence update) as the equivalent action
+   */
+  private recordParticipantAction(
+    session: ServerSession,
+    participantId: ParticipantId,
+    type: 'participant_join' | 'participant_leave' | 'cursor_move',
+    payload: unknown
+  ): void {
+    const timestamp = new Date().toISOString()
+    this.record(
+      session,
+      { id: `a-${uuidv4()}`, type, participantId, sessionId: session.id, timestamp, payload },
+      timestamp
+    )
+  }
+
+  /**
+   * Gets a session's recording for playback
+   */
+  getRecording(sessionId: SessionId): SessionRecording | null {
+    const session = this.getSession(sessionId)
+    if (!session) return null
+
+    return {
+      sessionId: session.id,
+      name: session.settings.name,
+      createdAt: session.createdAt,
+      participants: session.participants,
+      actions: session.recording ?? [],
+    }
   }
 
   /**
@@ -360,6 +804,7 @@ export class SessionStore {
 
     this.sessionsByCode.delete(session.code)
     this.sessions.delete(sessionId)
+    this.persist({ type: 'delete', sessionId })
 
     this.log(`Session deleted: ${sessionId}`)
 
@@ -377,6 +822,8 @@ export class SessionStore {
       ownerId: session.ownerId,
       participants: session.participants,
       cubes: session.cubes,
+      document: session.document,
+      cubeLocks: session.cubeLocks,
       createdAt: session.createdAt,
       modifiedAt: session.modifiedAt,
     }
@@ -392,7 +839,7 @@ export class SessionStore {
 
     for (const [sessionId, session] of this.sessions) {
       // Check session expiration
-      if (session.expiresAt && new Date(session.expiresAt).getTime() < now) {
+      if (this.isExpired(session, now)) {
         this.deleteSession(sessionId)
         expiredSessions++
         continue
@@ -416,9 +863,25 @@ export class SessionStore {
       this.log(`Cleanup: ${expiredSessions} sessions expired, ${inactiveParticipants} inactive`)
     }
 
+    // Periodic snapshot of the changes logged since the last one
+    if (this.unsnapshottedChanges > 0) {
+      this.snapshot()
+    }
+
     return { expiredSessions, inactiveParticipants }
   }
 
+  /**
+   * Checks whether a session has expired: at `expiresAt`, or `sessionExpirationMs` after
+   * creation for sessions without one
+   */
+  private isExpired(session: ServerSession, now: number): boolean {
+    const expiresAt = session.expiresAt
+      ? new Date(session.expiresAt).getTime()
+      : new Date(session.createdAt).getTime() + this.config.sessionExpirationMs
+    return expiresAt < now
+  }
+
   /**
    * Gets all sessions (for debugging)
    */
@@ -446,6 +909,9 @@ export class SessionStore {
 /**
  * Creates a new session store instance
  */
-export function createSessionStore(config: ServerConfig): SessionStore {
-  return new SessionStore(config)
+export function createSessionStore(
+  config: ServerConfig,
+  persistence?: SessionPersistence | null
+): SessionStore {
+  return new SessionStore(config, persistence)
 }
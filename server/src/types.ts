@@ -3,6 +3,8 @@
  * These types mirror the client-side types but are adapted for server use
  */
 
+import type { CRDTDocument } from './crdt.js'
+
 // ============================================================================
 // Session Types
 // ============================================================================
@@ -13,8 +15,11 @@ export type SessionId = string
 /** Unique identifier for a participant */
 export type ParticipantId = string
 
-/** Role of a participant in a session */
-export type ParticipantRole = 'owner' | 'editor' | 'viewer'
+/**
+ * Role of a participant in a session: owners also change settings, editors change cubes,
+ * commenters comment on cubes and viewers only select and point
+ */
+export type ParticipantRole = 'owner' | 'editor' | 'commenter' | 'viewer'
 
 /** Current status of a participant */
 export type ParticipantStatus = 'online' | 'away' | 'offline'
@@ -65,6 +70,10 @@ export interface SerializableSession {
   ownerId: ParticipantId
   participants: [ParticipantId, Participant][]
   cubes: [string, unknown][]
+  /** CRDT state of the cubes; `cubes` is read from it */
+  document?: CRDTDocument
+  /** Locked cubes and the participant holding each lock */
+  cubeLocks?: Record<string, ParticipantId>
   createdAt: string
   modifiedAt: string
 }
@@ -77,6 +86,10 @@ export interface ServerSession extends SerializableSession {
   authToken?: string
   /** Session expiration timestamp */
   expiresAt?: string
+  /** Highest action sequence number applied per participant, to drop replays */
+  lastSequences?: Record<ParticipantId, number>
+  /** Applied actions, oldest first, for playback (see SessionRecording) */
+  recording?: RecordedAction[]
 }
 
 // ============================================================================
@@ -93,6 +106,9 @@ export type ActionType =
   | 'participant_join'
   | 'participant_leave'
   | 'session_settings_update'
+  | 'cube_lock'
+  | 'cube_unlock'
+  | 'cube_comment'
 
 /**
  * Base interface for all collaborative actions
@@ -106,6 +122,53 @@ export interface CollaborativeAction {
   payload: unknown
 }
 
+/**
+ * Action in a session recording, with the server time it was applied
+ */
+export interface RecordedAction {
+  recordedAt: string
+  action: CollaborativeAction
+}
+
+/**
+ * Exported recording of a session: every applied action, plus joins, leaves and sampled
+ * cursor positions, from which playback rebuilds the session at any point in time
+ */
+export interface SessionRecording {
+  sessionId: SessionId
+  name: string
+  createdAt: string
+  /** Participants at export time; those who left appear in `participant_join` actions */
+  participants: [ParticipantId, Participant][]
+  actions: RecordedAction[]
+}
+
+/** Why the server rejected an action */
+export type ActionErrorCode =
+  | 'INVALID_ACTION'
+  | 'UNKNOWN_FIELDS'
+  | 'INVALID_CUBE'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'SESSION_NOT_FOUND'
+  | 'NOT_A_PARTICIPANT'
+  | 'PERMISSION_DENIED'
+  | 'CUBE_NOT_FOUND'
+  | 'CUBE_LOCKED'
+  | 'NOT_JOINED'
+
+/**
+ * Rejection of an action, sent to the client as an `error` message
+ */
+export interface ActionError {
+  code: ActionErrorCode
+  message: string
+  /** Schema violations (`path` and `message` each) or the lock holder */
+  details?: unknown
+}
+
+/** Outcome of applying an action */
+export type ApplyActionResult = { success: true } | { success: false; error: ActionError }
+
 // ============================================================================
 // WebSocket Message Types
 // ============================================================================
@@ -149,6 +212,8 @@ export interface JoinSessionResponse extends BaseWebSocketMessage {
     participant?: Participant
     /** JWT token for subsequent requests */
     authToken?: string
+    /** Highest action sequence number applied for this participant */
+    lastSequence?: number
     error?: string
   }
 }
@@ -178,6 +243,8 @@ export interface SyncActionMessage extends BaseWebSocketMessage {
   payload: {
     action: CollaborativeAction
     sessionId: SessionId
+    /** Per-participant sequence number; sequenced actions are de-duplicated and acked */
+    sequence?: number
   }
 }
 
@@ -188,6 +255,7 @@ export interface SyncActionResponse extends BaseWebSocketMessage {
     success: boolean
     actionId: string
     error?: string
+    code?: ActionErrorCode
   }
 }
 
@@ -247,6 +315,12 @@ export interface AckMessage extends BaseWebSocketMessage {
   payload: {
     messageId: string
     success: boolean
+    /** Sequence number of the acknowledged action */
+    sequence?: number
+    /** The action had already been applied (a replay) */
+    duplicate?: boolean
+    error?: string
+    code?: ActionErrorCode
   }
 }
 
@@ -300,6 +374,51 @@ export interface ServerConfig {
   maxSessions: number
   /** Maximum participants per session */
   maxParticipantsPerSession: number
+  /** Durable session storage; sessions are kept in memory only when unset */
+  persistence?: PersistenceConfig
+  /** Limits and schemas for validating actions */
+  validation?: ValidationConfig
+  /** Session recording for playback */
+  recording?: RecordingConfig
+}
+
+/**
+ * Action validation configuration
+ */
+export interface ValidationConfig {
+  /** Directory with cube-schema.json, fft-cube-schema.json and stack-schema.json (default: the client's src/types) */
+  schemaDir?: string
+  /** Largest accepted action payload, in bytes of JSON (default: 64 KiB) */
+  maxPayloadBytes?: number
+  /** Longest accepted comment, in characters (default: 2000) */
+  maxCommentLength?: number
+}
+
+/**
+ * Session recording configuration
+ */
+export interface RecordingConfig {
+  /** Record the actions of every session (default: true) */
+  enabled?: boolean
+  /** Recording size after which cursor moves are no longer recorded (default: 10000) */
+  maxEntries?: number
+  /** Shortest time between two recorded cursor positions of a participant, in ms (default: 100) */
+  cursorInterval?: number
+}
+
+/** Storage backend for session persistence */
+export type PersistenceDriver = 'file' | 'sqlite'
+
+/**
+ * Session persistence configuration
+ */
+export interface PersistenceConfig {
+  /** 'file': JSON snapshot and action log in a directory; 'sqlite': one SQLite database file */
+  driver: PersistenceDriver
+  /** Directory (file driver) or database file (sqlite driver) */
+  path: string
+  /** Logged changes between snapshots (default: 100); cleanup also snapshots */
+  snapshotInterval?: number
 }
 
 /**
@@ -0,0 +1,107 @@
+/**
+ * Tests for action validation
+ */
+
+import { describe, it, expect } from 'vitest'
+import { createActionValidator } from './validation.js'
+import type { CollaborativeAction } from './types.js'
+
+const validator = createActionValidator()
+
+const stone = { id: 'stone', base: { color: [0.5, 0.5, 0.5] } }
+
+/** Creates an action of a type with a payload */
+function createAction(type: CollaborativeAction['type'], payload: unknown): CollaborativeAction {
+  return {
+    id: 'action-1',
+    type,
+    participantId: 'p-1',
+    sessionId: 's-1',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    payload,
+  }
+}
+
+describe('ActionValidator', () => {
+  describe('validateAction', () => {
+    it('should accept well-formed actions', () => {
+      expect(validator.validateAction(createAction('cube_create', { cube: stone }))).toBeNull()
+      expect(
+        validator.validateAction(
+          createAction('cube_update', { cubeId: 'stone', changes: { base: stone.base } })
+        )
+      ).toBeNull()
+      expect(validator.validateAction(createAction('cube_select', { cubeId: null }))).toBeNull()
+    })
+
+    it('should report unknown fields of the action and its payload', () => {
+      expect(
+        validator.validateAction({ ...createAction('cube_select', { cubeId: null }), extra: 1 })
+      ).toMatchObject({ code: 'UNKNOWN_FIELDS', details: [{ path: '/extra' }] })
+      expect(
+        validator.validateAction(createAction('cube_lock', { cubeId: 'stone', until: 5 }))
+      ).toMatchObject({ code: 'UNKNOWN_FIELDS', message: 'Unknown fields: /until' })
+    })
+
+    it('should reject malformed payloads and unknown action types', () => {
+      expect(validator.validateAction(createAction('cube_update', { cubeId: 'stone' }))?.code).toBe(
+        'INVALID_ACTION'
+      )
+      expect(
+        validator.validateAction(createAction('teleport' as CollaborativeAction['type'], {}))
+      ).toMatchObject({ code: 'INVALID_ACTION', message: 'Unknown action type: teleport' })
+    })
+
+    it('should enforce the payload size and comment length limits', () => {
+      const strict = createActionValidator({ maxPayloadBytes: 100, maxCommentLength: 10 })
+      const large = { ...stone, prompt: 'x'.repeat(200) }
+
+      expect(strict.validateAction(createAction('cube_create', { cube: large }))).toMatchObject({
+        code: 'PAYLOAD_TOO_LARGE',
+        details: { limit: 100 },
+      })
+      expect(
+        strict.validateAction(
+          createAction('cube_comment', { cubeId: 'stone', text: 'too long!!!' })
+        )?.code
+      ).toBe('INVALID_ACTION')
+    })
+  })
+
+  describe('validateCube', () => {
+    it('should validate spectral cubes against the cube schema', () => {
+      expect(validator.validateCube(stone)).toBeNull()
+      expect(validator.validateCube({ ...stone, base: { color: [2, 0, 0] } })).toMatchObject({
+        code: 'INVALID_CUBE',
+        details: [{ path: '/base/color/0' }],
+      })
+      expect(validator.validateCube({ ...stone, name: 'Stone' })?.code).toBe('UNKNOWN_FIELDS')
+    })
+
+    it('should validate FFT cubes and stacks against their schemas', () => {
+      const energy = {
+        id: 'energy_core',
+        is_magical: true,
+        fft_size: 8,
+        energy_capacity: 100,
+        channels: {},
+      }
+      const tower = {
+        id: 'tower',
+        totalHeight: 1,
+        layers: [{ id: 'ground', position: 'single', cubeConfig: stone }],
+      }
+
+      expect(validator.validateCube(energy)).toBeNull()
+      expect(validator.validateCube({ ...energy, fft_size: 12 })?.code).toBe('INVALID_CUBE')
+      expect(validator.validateCube(tower)).toBeNull()
+      expect(
+        validator.validateCube({ ...tower, layers: [{ ...tower.layers[0], cubeConfig: {} }] })?.code
+      ).toBe('INVALID_CUBE')
+    })
+  })
+
+  it('should explain where to find missing schemas', () => {
+    expect(() => createActionValidator({ schemaDir: '/nonexistent' })).toThrow(/SCHEMA_DIR/)
+  })
+})
@@ -0,0 +1,235 @@
+/**
+ * Action validation for isocubic server
+ * Checks the envelope, payload shape and size of actions from clients, and validates the
+ * cubes they create or update against the client's JSON schemas (spectral cubes, FFT cubes
+ * and stacks). Permissions and cube locks are checked by SessionStore
+ */
+
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { Ajv } from 'ajv'
+import type { ErrorObject, SchemaObject, ValidateFunction } from 'ajv'
+import formats from 'ajv-formats'
+import type { ActionError, ActionErrorCode, ActionType, ValidationConfig } from './types.js'
+
+/** Schemas copied next to the compiled server by `npm run build` (`dist/schemas/`) */
+const BUILT_SCHEMA_DIR = fileURLToPath(new URL('./schemas/', import.meta.url))
+
+/** The built server's schemas, or the client's when running from `src/` */
+const DEFAULT_SCHEMA_DIR = fs.existsSync(BUILT_SCHEMA_DIR)
+  ? BUILT_SCHEMA_DIR
+  : fileURLToPath(new URL('../../src/types/', import.meta.url))
+
+/** Default largest action payload, in bytes of JSON */
+const DEFAULT_MAX_PAYLOAD_BYTES = 64 * 1024
+
+/** Default longest comment, in characters */
+const DEFAULT_MAX_COMMENT_LENGTH = 2000
+
+// ajv-formats is CommonJS; its default export is the module object under NodeNext
+const addFormats = formats as unknown as typeof formats.default
+
+/**
+ * Builds an object schema that rejects unknown fields
+ */
+function objectSchema(
+  properties: Record<string, SchemaObject>,
+  required: string[] = []
+): SchemaObject {
+  return { type: 'object', properties, required, additionalProperties: false }
+}
+
+const CUBE_ID: SchemaObject = { type: 'string', minLength: 1, maxLength: 128 }
+const CUBE: SchemaObject = { type: 'object' }
+const DELTA: SchemaObject = {
+  type: 'object',
+  properties: { cubes: { type: 'object' } },
+  required: ['cubes'],
+}
+const CURSOR: SchemaObject = objectSchema(
+  {
+    x: { type: 'number' },
+    y: { type: 'number' },
+    z: { type: 'number' },
+    selectedCubeId: CUBE_ID,
+  },
+  ['x', 'y', 'z']
+)
+
+/**
+ * Payload schema of every action type. Cubes are only checked to be objects here; their
+ * content is validated against the cube schemas by `validateCube`
+ */
+function createPayloadSchemas(maxCommentLength: number): Record<ActionType, SchemaObject> {
+  return {
+    cube_create: objectSchema({ cube: CUBE, delta: DELTA }, ['cube']),
+    cube_update: objectSchema(
+      { cubeId: CUBE_ID, changes: CUBE, previousState: CUBE, delta: DELTA },
+      ['cubeId', 'changes']
+    ),
+    cube_delete: objectSchema({ cubeId: CUBE_ID, deletedCube: CUBE, delta: DELTA }, ['cubeId']),
+    cube_select: objectSchema({ cubeId: { anyOf: [CUBE_ID, { type: 'null' }] } }, ['cubeId']),
+    cursor_move: objectSchema({ position: CURSOR }, ['position']),
+    participant_join: objectSchema({ participant: { type: 'object' } }, ['participant']),
+    participant_leave: objectSchema({ reason: { enum: ['manual', 'timeout', 'kicked'] } }),
+    session_settings_update: objectSchema(
+      {
+        settings: objectSchema({
+          name: { type: 'string', minLength: 1, maxLength: 200 },
+          isOpen: { type: 'boolean' },
+          maxParticipants: { type: 'integer', minimum: 1 },
+          allowRoleRequests: { type: 'boolean' },
+          autoSaveInterval: { type: 'number', minimum: 0 },
+        }),
+      },
+      ['settings']
+    ),
+    cube_lock: objectSchema({ cubeId: CUBE_ID }, ['cubeId']),
+    cube_unlock: objectSchema({ cubeId: CUBE_ID }, ['cubeId']),
+    cube_comment: objectSchema(
+      { cubeId: CUBE_ID, text: { type: 'string', minLength: 1, maxLength: maxCommentLength } },
+      ['cubeId', 'text']
+    ),
+  }
+}
+
+/** Schema of the action envelope; the payload is checked per type */
+const ACTION_SCHEMA: SchemaObject = objectSchema(
+  {
+    id: { type: 'string', minLength: 1, maxLength: 128 },
+    type: { type: 'string' },
+    participantId: { type: 'string', minLength: 1 },
+    sessionId: { type: 'string', minLength: 1 },
+    timestamp: { type: 'string' },
+    payload: {},
+  },
+  ['id', 'type', 'participantId', 'sessionId', 'timestamp', 'payload']
+)
+
+/**
+ * Turns the errors of a failed schema check into an action error: `UNKNOWN_FIELDS` when
+ * every error is an unexpected field, otherwise `fallback`
+ */
+function toActionError(
+  errors: ErrorObject[] | null | undefined,
+  fallback: ActionErrorCode,
+  message: string
+): ActionError {
+  const violations = (errors ?? []).map((error) => {
+    const field =
+      error.keyword === 'additionalProperties'
+        ? `/${String((error.params as { additionalProperty: string }).additionalProperty)}`
+        : ''
+    return { path: `${error.instancePath}${field}` || '/', message: error.message ?? 'invalid' }
+  })
+  const unknownFields =
+    violations.length > 0 &&
+    (errors ?? []).every((error) => error.keyword === 'additionalProperties')
+
+  return unknownFields
+    ? {
+        code: 'UNKNOWN_FIELDS',
+        message: `Unknown fields: ${violations.map((violation) => violation.path).join(', ')}`,
+        details: violations,
+      }
+    : { code: fallback, message, details: violations }
+}
+
+/**
+ * Validates actions and cubes received from clients
+ */
+export class ActionValidator {
+  private maxPayloadBytes: number
+  private validateEnvelope: ValidateFunction
+  private payloadValidators: Map<string, ValidateFunction>
+  private cubeValidator: ValidateFunction
+  private fftCubeValidator: ValidateFunction
+  private stackValidator: ValidateFunction
+
+  constructor(config: ValidationConfig = {}) {
+    this.maxPayloadBytes = config.maxPayloadBytes ?? DEFAULT_MAX_PAYLOAD_BYTES
+
+    const ajv = new Ajv({ allErrors: true, strict: false })
+    addFormats(ajv)
+
+    const schemaDir = config.schemaDir ?? DEFAULT_SCHEMA_DIR
+    const readSchema = (file: string) => {
+      const schemaPath = path.join(schemaDir, file)
+      try {
+        return JSON.parse(fs.readFileSync(schemaPath, 'utf8')) as SchemaObject
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error)
+        throw new Error(`Cannot read cube schema ${schemaPath} (set SCHEMA_DIR): ${reason}`)
+      }
+    }
+
+    // The FFT cube and stack schemas reference the cube schema by $id
+    this.cubeValidator = ajv.compile(readSchema('cube-schema.json'))
+    this.fftCubeValidator = ajv.compile(readSchema('fft-cube-schema.json'))
+    this.stackValidator = ajv.compile(readSchema('stack-schema.json'))
+
+    this.validateEnvelope = ajv.compile(ACTION_SCHEMA)
+    const payloadSchemas = createPayloadSchemas(
+      config.maxCommentLength ?? DEFAULT_MAX_COMMENT_LENGTH
+    )
+    this.payloadValidators = new Map(
+      Object.entries(payloadSchemas).map(([type, schema]) => [type, ajv.compile(schema)])
+    )
+  }
+
+  /**
+   * Checks an action's envelope, its payload size and the shape of its payload
+   */
+  validateAction(action: unknown): ActionError | null {
+    if (!this.validateEnvelope(action)) {
+      return toActionError(this.validateEnvelope.errors, 'INVALID_ACTION', 'Malformed action')
+    }
+
+    const { type, payload } = action as { type: string; payload: unknown }
+    const validatePayload = this.payloadValidators.get(type)
+    if (!validatePayload) {
+      return { code: 'INVALID_ACTION', message: `Unknown action type: ${type}` }
+    }
+
+    const size = Buffer.byteLength(JSON.stringify(payload ?? null))
+    if (size > this.maxPayloadBytes) {
+      return {
+        code: 'PAYLOAD_TOO_LARGE',
+        message: `Action payload is ${size} bytes, the limit is ${this.maxPayloadBytes}`,
+        details: { size, limit: this.maxPayloadBytes },
+      }
+    }
+
+    if (!validatePayload(payload)) {
+      return toActionError(validatePayload.errors, 'INVALID_ACTION', `Invalid ${type} payload`)
+    }
+    return null
+  }
+
+  /**
+   * Validates a cube against the schema for its kind: stacks have `layers`, FFT cubes have
+   * `channels`, anything else is a spectral cube
+   */
+  validateCube(cube: unknown): ActionError | null {
+    const fields = typeof cube === 'object' && cube !== null ? cube : {}
+    const validate =
+      'layers' in fields
+        ? this.stackValidator
+        : 'channels' in fields
+          ? this.fftCubeValidator
+          : this.cubeValidator
+
+    if (!validate(cube)) {
+      return toActionError(validate.errors, 'INVALID_CUBE', 'Cube does not match its schema')
+    }
+    return null
+  }
+}
+
+/**
+ * Creates a new action validator
+ */
+export function createActionValidator(config?: ValidationConfig): ActionValidator {
+  return new ActionValidator(config)
+}
@@ -18,11 +18,13 @@ import type {
   LeaveSessionResponse,
   SyncActionMessage,
   SyncActionResponse,
+  AckMessage,
   FullSyncMessage,
   PresenceUpdateMessage,
   HeartbeatMessage,
   HeartbeatResponse,
   ErrorMessage,
+  ActionError,
   Participant,
 } from './types.js'
 import { generateMessageId } from './types.js'
@@ -230,6 +232,7 @@ export class IsocubicWebSocketServer {
           session: this.sessionStore.serializeSession(session),
           participant,
           authToken,
+          lastSequence: this.sessionStore.getLastSequence(session.id, participant.id),
         },
       }
       this.send(client.ws, response)
@@ -337,46 +340,111 @@ export class IsocubicWebSocketServer {
     const client = this.clients.get(clientId)
     if (!client) return
 
-    const { action, sessionId } = message.payload
+    const { action, sessionId, sequence } = message.payload
 
     try {
+      // An action sent before the join completes is not rejected: the client sends it again
+      if (!client.sessionId) {
+        this.respondToSyncAction(
+          client.ws,
+          message,
+          false,
+          'Not joined to a session',
+          undefined,
+          'NOT_JOINED'
+        )
+        return
+      }
+
       // Verify client is in this session
       if (client.sessionId !== sessionId) {
         throw new Error('Not in this session')
       }
 
-      // Apply action to session
-      const success = this.sessionStore.applyAction(action)
+      // Clients act only as the participant they joined as, in the session they joined
+      if (action.participantId !== client.participantId) {
+        this.rejectSyncAction(client.ws, message, {
+          code: 'PERMISSION_DENIED',
+          message: 'Actions must come from the joined participant',
+        })
+        return
+      }
+      if (action.sessionId !== client.sessionId) {
+        this.rejectSyncAction(client.ws, message, {
+          code: 'PERMISSION_DENIED',
+          message: 'Actions must belong to the joined session',
+        })
+        return
+      }
 
-      const response: SyncActionResponse = {
-        id: message.id,
-        type: 'sync_action',
-        timestamp: new Date().toISOString(),
-        payload: {
-          success,
-          actionId: action.id,
-          error: success ? undefined : 'Failed to apply action',
-        },
+      // A replay of an action that was already applied: acknowledge it again, do not re-apply
+      const lastSequence = this.sessionStore.getLastSequence(sessionId, action.participantId)
+      if (sequence !== undefined && sequence <= lastSequence) {
+        this.respondToSyncAction(client.ws, message, true, undefined, true)
+        return
       }
-      this.send(client.ws, response)
 
-      // Broadcast action to other clients in session
-      if (success) {
-        this.broadcastToSession(sessionId, clientId, message)
+      // Validate and apply action to session
+      const result = this.sessionStore.tryApplyAction(action, sequence)
+      if (!result.success) {
+        this.rejectSyncAction(client.ws, message, result.error)
+        return
       }
+      this.respondToSyncAction(client.ws, message, true)
+
+      // Broadcast action to other clients in session
+      this.broadcastToSession(sessionId, clientId, message)
     } catch (error) {
+      this.respondToSyncAction(
+        client.ws,
+        message,
+        false,
+        error instanceof Error ? error.message : 'Failed to sync action'
+      )
+    }
+  }
+
+  /**
+   * Rejects a sync action: an error message with the code, then the failed response
+   */
+  private rejectSyncAction(ws: WebSocket, message: SyncActionMessage, error: ActionError): void {
+    this.sendError(ws, error.code, error.message, {
+      actionId: message.payload.action.id,
+      ...(error.details !== undefined && { errors: error.details }),
+    })
+    this.respondToSyncAction(ws, message, false, error.message, undefined, error.code)
+  }
+
+  /**
+   * Answers a sync action: sequenced actions get an ack, others a sync_action response
+   */
+  private respondToSyncAction(
+    ws: WebSocket,
+    message: SyncActionMessage,
+    success: boolean,
+    error?: string,
+    duplicate?: boolean,
+    code?: ActionError['code']
+  ): void {
+    const { action, sequence } = message.payload
+    if (sequence === undefined) {
       const response: SyncActionResponse = {
         id: message.id,
         type: 'sync_action',
         timestamp: new Date().toISOString(),
-        payload: {
-          success: false,
-          actionId: action.id,
-          error: error instanceof Error ? error.message : 'Failed to sync action',
-        },
+        payload: { success, actionId: action.id, error, code },
       }
-      this.send(client.ws, response)
+      this.send(ws, response)
+      return
+    }
+
+    const ack: AckMessage = {
+      id: message.id,
+      type: 'ack',
+      timestamp: new Date().toISOString(),
+      payload: { messageId: message.id, success, sequence, duplicate, error, code },
     }
+    this.send(ws, ack)
   }
 
   /**
@@ -26,7 +26,31 @@ vi.mock('./components/ExportPanel.vue', () => ({
     name: 'ExportPanel',
     template:
       '<div class="export-panel-mock"><button>Download JSON</button><button>Upload JSON</button><button>Save</button></div>',
-    props: ['currentCube'],
+    props: ['currentCube', 'currentWorld'],
+  },
+}))
+
+vi.mock('./components/WorldPreview.vue', () => ({
+  default: {
+    name: 'WorldPreview',
+    template: '<div class="world-preview-mock">WorldPreview</div>',
+    props: ['world'],
+  },
+}))
+
+vi.mock('./components/SessionPlayback.vue', () => ({
+  default: {
+    name: 'SessionPlayback',
+    template: '<div class="session-playback-mock">SessionPlayback</div>',
+    props: ['recording', 'showStage'],
+  },
+}))
+
+vi.mock('./components/ParticipantCursor.vue', () => ({
+  default: {
+    name: 'ParticipantCursor',
+    template: '<div class="participant-cursor-mock">ParticipantCursor</div>',
+    props: ['participants'],
   },
 }))
 
@@ -87,12 +111,20 @@ vi.mock('./composables/useDeviceType', () => ({
   useDeviceType: () => mockDeviceType,
 }))
 
+const showPlaybackCube = vi.fn()
+
 vi.mock('./composables/useCubeEditor', () => ({
   useCubeEditor: () => ({
     currentCube: { id: 'test-cube', base: { color: [0.5, 0.5, 0.5] } },
     updateCube: vi.fn(),
     selectCube: vi.fn(),
     loadCube: vi.fn(),
+    historyEntries: [],
+    historyComparison: null,
+    jumpTo: vi.fn(),
+    compareWith: vi.fn(),
+    closeComparison: vi.fn(),
+    showPlaybackCube,
   }),
 }))
 
@@ -182,6 +214,68 @@ describe('App', () => {
       expect(wrapper.findComponent({ name: 'ComponentInfo' }).exists()).toBe(true)
     })
 
+    it('should show a world loaded from the export panel', async () => {
+      const wrapper = createWrapper()
+      expect(wrapper.findComponent({ name: 'WorldPreview' }).exists()).toBe(false)
+
+      const world = { id: 'garden', palette: {}, cells: {} }
+      wrapper.findComponent({ name: 'ExportPanel' }).vm.$emit('worldLoad', world)
+      await nextTick()
+
+      expect(wrapper.findComponent({ name: 'WorldPreview' }).props('world')).toEqual(world)
+      expect(wrapper.findComponent({ name: 'ExportPanel' }).props('currentWorld')).toEqual(world)
+    })
+
+    it('should replay an opened recording in the preview', async () => {
+      const wrapper = createWrapper()
+      const player = wrapper.findComponent({ name: 'SessionPlayback' })
+      expect(player.props('showStage')).toBe(false)
+      expect(wrapper.findComponent({ name: 'ParticipantCursor' }).exists()).toBe(false)
+
+      const recording = {
+        sessionId: 's-1',
+        name: 'Castle',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        participants: [],
+        actions: [],
+      }
+      player.vm.$emit('recordingLoad', recording)
+      await nextTick()
+      expect(player.props('recording')).toEqual(recording)
+
+      const stone = { id: 'stone', base: { color: [0.5, 0.5, 0.5] } }
+      const alice = {
+        id: 'p-alice',
+        name: 'Alice',
+        color: '#ff0000',
+        role: 'owner',
+        status: 'online',
+        joinedAt: '2026-01-01T00:00:00.000Z',
+        lastActiveAt: '2026-01-01T00:00:00.000Z',
+        cursor: { x: 1, y: 2, z: 3, selectedCubeId: 'stone' },
+      }
+      player.vm.$emit('frame', {
+        position: 0,
+        duration: 1000,
+        appliedCount: 2,
+        cubes: [['stone', stone]],
+        participants: [alice],
+        lastAction: null,
+      })
+      await nextTick()
+
+      expect(showPlaybackCube).toHaveBeenLastCalledWith(stone)
+      expect(wrapper.findComponent({ name: 'ParticipantCursor' }).props('participants')).toEqual([
+        { participant: alice, cursor: alice.cursor },
+      ])
+
+      player.vm.$emit('close')
+      await nextTick()
+      expect(showPlaybackCube).toHaveBeenLastCalledWith(null)
+      expect(player.props('recording')).toBeNull()
+      expect(wrapper.findComponent({ name: 'ParticipantCursor' }).exists()).toBe(false)
+    })
+
     it('should have proper heading structure', () => {
       const wrapper = createWrapper()
       const h1 = wrapper.find('h1')
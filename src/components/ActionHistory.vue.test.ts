@@ -9,6 +9,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { shallowMount } from '@vue/test-utils'
 import ActionHistory from './ActionHistory.vue'
 import type { CollaborativeAction, Participant, CubeCreateAction } from '../types/collaboration'
+import type { HistoryComparison, HistoryEntry } from '../lib/history'
 
 // Helper to create mock actions
 const createMockAction = (overrides: Partial<CubeCreateAction> = {}): CubeCreateAction => ({
@@ -593,3 +594,94 @@ describe('ActionHistory Vue Component — Relative Time Display', () => {
     expect(wrapper.text()).toMatch(/s ago/)
   })
 })
+
+describe('ActionHistory Vue Component — Edit History Timeline', () => {
+  const createEntry = (overrides: Partial<HistoryEntry> = {}): HistoryEntry => ({
+    id: 'h0',
+    parentId: null,
+    label: 'Initial state',
+    timestamp: new Date().toISOString(),
+    depth: 0,
+    isCurrent: false,
+    isActivePath: true,
+    childCount: 0,
+    ...overrides,
+  })
+
+  const historyEntries = [
+    createEntry({ childCount: 2 }),
+    createEntry({ id: 'h2', parentId: 'h0', label: 'base.roughness 0.5 → 0.9', isCurrent: true }),
+    createEntry({
+      id: 'h1',
+      parentId: 'h0',
+      label: 'noise.scale 8 → 12',
+      depth: 1,
+      isActivePath: false,
+    }),
+  ]
+
+  it('should render timeline entries instead of the empty state', () => {
+    const wrapper = shallowMount(ActionHistory, {
+      props: { actions: [], historyEntries },
+    })
+
+    expect(wrapper.find('.action-history--empty').exists()).toBe(false)
+    const items = wrapper.findAll('.action-history__timeline-item')
+    expect(items).toHaveLength(3)
+    expect(items[1].classes()).toContain('action-history__timeline-item--current')
+    expect(items[2].classes()).toContain('action-history__timeline-item--inactive')
+    expect(items[2].attributes('style')).toContain('padding-left: 12px')
+    expect(wrapper.text()).toContain('noise.scale 8 → 12')
+    expect(wrapper.text()).toContain('2 branches')
+  })
+
+  it('should emit jumpTo for other steps only', async () => {
+    const wrapper = shallowMount(ActionHistory, {
+      props: { actions: [], historyEntries },
+    })
+
+    const buttons = wrapper.findAll('.action-history__timeline-button')
+    expect(buttons[1].attributes('aria-current')).toBe('step')
+    await buttons[1].trigger('click')
+    await buttons[2].trigger('click')
+
+    expect(wrapper.emitted('jumpTo')).toEqual([['h1']])
+  })
+
+  it('should emit compare for steps other than the current one', async () => {
+    const wrapper = shallowMount(ActionHistory, {
+      props: { actions: [], historyEntries },
+    })
+
+    const buttons = wrapper.findAll('.action-history__compare-btn')
+    expect(buttons).toHaveLength(2)
+    await buttons[1].trigger('click')
+
+    expect(wrapper.emitted('compare')).toEqual([['h1']])
+    expect(wrapper.emitted('jumpTo')).toBeUndefined()
+  })
+
+  it('should show the diff of the compared step', async () => {
+    const comparison: HistoryComparison = {
+      nodeId: 'h1',
+      label: 'noise.scale 8 → 12',
+      before: { id: 'stone', base: { color: [0.5, 0.5, 0.5] }, noise: { scale: 12 } },
+      after: { id: 'stone', base: { color: [0.5, 0.5, 0.5] }, noise: { scale: 8 } },
+    }
+    const wrapper = shallowMount(ActionHistory, {
+      props: { actions: [], historyEntries, comparison },
+    })
+
+    expect(wrapper.find('.action-history__comparison-title').text()).toBe(
+      'Changes since "noise.scale 8 → 12"'
+    )
+    expect(wrapper.find('.action-history__compare-btn--active').exists()).toBe(true)
+    const diff = wrapper.findComponent({ name: 'CubeDiffView' })
+    expect(diff.props('before')).toEqual(comparison.before)
+    expect(diff.props('after')).toEqual(comparison.after)
+    expect(diff.props('afterLabel')).toBe('Current')
+
+    await wrapper.find('.action-history__comparison-close').trigger('click')
+    expect(wrapper.emitted('closeComparison')).toHaveLength(1)
+  })
+})
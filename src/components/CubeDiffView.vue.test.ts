@@ -0,0 +1,63 @@
+/**
+ * Unit tests for CubeDiffView Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect } from 'vitest'
+import { mount } from '@vue/test-utils'
+import CubeDiffView from './CubeDiffView.vue'
+import type { SpectralCube } from '../types/cube'
+
+const before: SpectralCube = {
+  id: 'stone',
+  base: { color: [0.5, 0.5, 0.5], roughness: 0.5 },
+  gradients: [{ axis: 'y', factor: 0.3, color_shift: [0.1, 0.1, 0.1] }],
+  meta: { name: 'Stone' },
+}
+
+const after: SpectralCube = {
+  ...before,
+  base: { color: [0.6, 0.4, 0.5], roughness: 0.75 },
+  gradients: [],
+  noise: { type: 'perlin', scale: 8 },
+}
+
+describe('CubeDiffView Vue Component', () => {
+  it('should render both versions side by side', () => {
+    const wrapper = mount(CubeDiffView, {
+      props: { before, after, beforeLabel: 'Saved', afterLabel: 'Current', previewSize: 16 },
+    })
+
+    const sides = wrapper.findAll('.cube-diff__side')
+    expect(sides).toHaveLength(2)
+    expect(sides[0].text()).toContain('Saved')
+    expect(sides[1].text()).toContain('Current')
+    expect(sides[0].text()).toContain('Stone')
+    for (const side of sides) {
+      expect(side.find('img').attributes('src')).toMatch(/^data:image\/png;base64,/)
+    }
+  })
+
+  it('should highlight changed, added and removed parameters', () => {
+    const wrapper = mount(CubeDiffView, { props: { before, after, previewSize: 16 } })
+
+    expect(wrapper.find('.cube-diff__summary').text()).toBe('2 changed, 1 added, 1 removed')
+    const row = (path: string) => wrapper.find(`[data-path="${path}"]`)
+    expect(row('base.color').classes()).toContain('cube-diff__change--changed')
+    expect(row('base.color').findAll('.cube-diff__swatch')).toHaveLength(2)
+    expect(row('base.roughness').text()).toContain('(+0.25)')
+    expect(row('gradients[0]').classes()).toContain('cube-diff__change--removed')
+    expect(row('noise').classes()).toContain('cube-diff__change--added')
+  })
+
+  it('should show a message when there is nothing to compare', () => {
+    const same = mount(CubeDiffView, { props: { before, after: before, previewSize: 16 } })
+    expect(same.find('.cube-diff__changes').exists()).toBe(false)
+    expect(same.find('.cube-diff__empty').text()).toBe('No differences')
+
+    const missing = mount(CubeDiffView, { props: { before, after: null, previewSize: 16 } })
+    expect(missing.find('.cube-diff__empty').text()).toBe('Select two versions to compare')
+    expect(missing.find('.cube-diff__preview--empty').exists()).toBe(true)
+  })
+})
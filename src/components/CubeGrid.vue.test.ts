@@ -358,3 +358,25 @@ describe('CubeGrid Vue Component — Boundary Stitching', () => {
     })
   })
 })
+
+describe('CubeGrid Vue Component — Instancing', () => {
+  it('should draw the grid with one instanced mesh when instanced', async () => {
+    const { default: CubeGrid } = await import('./CubeGrid.vue')
+    const wrapper = mount(CubeGrid as any, {
+      props: { config: mockConfig, gridSize: [4, 2, 4], instanced: true },
+      global: {
+        stubs: {
+          ...globalStubs.stubs,
+          primitive: { template: '<div data-testid="instanced-mesh" />' },
+        },
+      },
+    })
+
+    expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(0)
+    expect(wrapper.findAll('[data-testid="instanced-mesh"]')).toHaveLength(1)
+    expect(wrapper.emitted('statisticsUpdate')![0][0]).toMatchObject({
+      totalCubes: 32,
+      drawCalls: 1,
+    })
+  })
+})
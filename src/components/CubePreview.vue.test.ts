@@ -7,6 +7,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
 import { shallowMount } from '@vue/test-utils'
+import * as THREE from 'three'
 import type { SpectralCube } from '../types/cube'
 import { createDefaultCube } from '../types/cube'
 
@@ -88,7 +89,7 @@ describe('CubePreview Vue Component — Metadata', () => {
     expect(CUBE_PREVIEW_META).toBeDefined()
     expect(CUBE_PREVIEW_META.id).toBe('cube-preview')
     expect(CUBE_PREVIEW_META.name).toBe('CubePreview')
-    expect(CUBE_PREVIEW_META.version).toBe('2.0.0')
+    expect(CUBE_PREVIEW_META.version).toBe('2.1.0')
     expect(CUBE_PREVIEW_META.phase).toBe(10)
     expect(CUBE_PREVIEW_META.taskId).toBe('TASK 62')
     expect(CUBE_PREVIEW_META.filePath).toBe('components/CubePreview.vue')
@@ -327,3 +328,89 @@ describe('CubePreview Vue Component — Component Mounting', () => {
     expect(wrapper.exists()).toBe(true)
   })
 })
+
+describe('CubePreview Vue Component — Isometric Camera', () => {
+  const globalStubs = {
+    stubs: {
+      TresCanvas: true,
+      TresColor: true,
+      TresAmbientLight: true,
+      TresDirectionalLight: true,
+      TresPointLight: true,
+      OrbitControls: true,
+      ContactShadows: true,
+      Environment: true,
+      ParametricCube: true,
+    },
+  }
+
+  beforeEach(() => {
+    Element.prototype.getBoundingClientRect = vi.fn(() => ({
+      width: 400,
+      height: 300,
+      top: 0,
+      left: 0,
+      bottom: 300,
+      right: 400,
+      x: 0,
+      y: 0,
+      toJSON: () => {},
+    }))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  async function mountPreview(props: Record<string, unknown> = {}) {
+    const { default: CubePreview } = await import('./CubePreview.vue')
+    const wrapper = shallowMount(CubePreview as any, {
+      props: { config: mockCube, ...props },
+      global: globalStubs,
+    })
+    await wrapper.vm.$nextTick()
+    return wrapper
+  }
+
+  function getCamera(wrapper: Awaited<ReturnType<typeof mountPreview>>) {
+    return wrapper.findComponent({ name: 'TresCanvas' }).props('camera')
+  }
+
+  it('should switch to an orthographic camera from the toolbar', async () => {
+    const wrapper = await mountPreview()
+    expect(getCamera(wrapper)).not.toBeInstanceOf(THREE.OrthographicCamera)
+
+    await wrapper.find('[data-testid="camera-mode-toggle"]').trigger('click')
+
+    expect(wrapper.emitted('cameraModeChange')).toEqual([['isometric']])
+    expect(getCamera(wrapper)).toBeInstanceOf(THREE.OrthographicCamera)
+    expect(wrapper.find('[data-testid="camera-zoom-level"]').text()).toBe('32 px')
+  })
+
+  it('should snap rotation and step through pixel zoom levels', async () => {
+    const wrapper = await mountPreview({ cameraMode: 'isometric' })
+    const camera = getCamera(wrapper) as THREE.OrthographicCamera
+    const width = camera.right - camera.left
+    const { x, z } = camera.position
+
+    await wrapper.find('[data-testid="camera-zoom-in"]').trigger('click')
+    expect(wrapper.find('[data-testid="camera-zoom-level"]').text()).toBe('48 px')
+    expect(camera.right - camera.left).toBeCloseTo((width * 32) / 48)
+
+    await wrapper.find('[data-testid="camera-rotate-left"]').trigger('click')
+    await wrapper.find('[data-testid="camera-rotate-left"]').trigger('click')
+    expect(camera.position.x).toBeCloseTo(-x)
+    expect(camera.position.z).toBeCloseTo(-z)
+    expect(wrapper.emitted('controlsChange')).toHaveLength(3)
+  })
+
+  it('should render pixel-perfect views at one pixel per device pixel without antialiasing', async () => {
+    const wrapper = await mountPreview({ cameraMode: 'isometric', pixelPerfect: true })
+    const canvas = wrapper.findComponent({ name: 'TresCanvas' })
+    expect(canvas.props('dpr')).toBe(1)
+    expect(canvas.props('antialias')).toBe(false)
+
+    await wrapper.find('[data-testid="camera-pixel-perfect"]').trigger('click')
+    expect(wrapper.findComponent({ name: 'TresCanvas' }).props('dpr')).toEqual([1, 2])
+  })
+})
@@ -452,6 +452,36 @@ describe('CubeStack Vue Component — Component Mounting', () => {
       expect(cubes.length).toBeGreaterThan(0)
     })
   })
+
+  describe('Screen-Space Layer Merging', () => {
+    it('should keep every layer when layers are large on screen', async () => {
+      const { default: CubeStack } = await import('./CubeStack.vue')
+      const wrapper = mount(CubeStack as any, {
+        props: { config: createTestStack(), screenSize: 100, lodLevel: 4 },
+        global: globalStubs,
+      })
+      expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(3)
+    })
+
+    it('should merge sub-pixel layers into one block spanning them', async () => {
+      const { default: CubeStack } = await import('./CubeStack.vue')
+      const wrapper = mount(CubeStack as any, {
+        props: { config: createTestStack(), screenSize: 0.5, minLayerScreenSize: 1 },
+        global: globalStubs,
+      })
+      const cubes = wrapper.findAll('[data-testid="parametric-cube-mock"]')
+
+      expect(cubes).toHaveLength(1)
+      expect(cubes[0].attributes('data-scale')).toBe('1,3,1')
+      expect(parseFloat(cubes[0].attributes('data-position')!.split(',')[1])).toBeCloseTo(0)
+      expect(wrapper.emitted('renderStateChange')![0][0]).toEqual({
+        currentLODLevel: 0,
+        visibleLayers: 1,
+        simplifiedTransitions: true,
+        distanceFromCamera: 0,
+      })
+    })
+  })
 })
 
 describe('CubeStackGrid Vue Component — Component Mounting', () => {
@@ -6,10 +6,13 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { shallowMount } from '@vue/test-utils'
+import { flushPromises, shallowMount } from '@vue/test-utils'
 import ExportPanel, { EXPORT_PANEL_META } from './ExportPanel.vue'
 import type { SpectralCube } from '../types/cube'
-import { saveCubeToStorage, pushToHistory, clearHistory } from '../lib/storage'
+import type { WorldConfig } from '../types/world'
+import { saveCubeToStorage, loadCubeFromStorage, pushToHistory, clearHistory } from '../lib/storage'
+import { readProjectFile, serializeProject } from '../lib/project-file'
+import { MemoryStorageAdapter, setStorageAdapter } from '../lib/storage-adapter'
 
 // Mock cube for testing
 const mockCube: SpectralCube = {
@@ -59,6 +62,9 @@ describe('ExportPanel Vue Component — Module Exports', () => {
 
     const featureIds = features!.map((f) => f.id)
     expect(featureIds).toContain('json-export')
+    expect(featureIds).toContain('gltf-export')
+    expect(featureIds).toContain('voxel-interop')
+    expect(featureIds).toContain('project-files')
     expect(featureIds).toContain('json-import')
     expect(featureIds).toContain('local-storage')
     expect(featureIds).toContain('saved-configs-list')
@@ -100,15 +106,16 @@ describe('ExportPanel Vue Component — Date Formatting', () => {
 })
 
 describe('ExportPanel Vue Component — Rendering', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
   })
 
-  it('should render undo/redo buttons', () => {
+  it('should render undo/redo buttons', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     const undoBtn = wrapper.find('[aria-label="Undo"]')
     const redoBtn = wrapper.find('[aria-label="Redo"]')
     expect(undoBtn.exists()).toBe(true)
@@ -117,29 +124,34 @@ describe('ExportPanel Vue Component — Rendering', () => {
     expect(redoBtn.text()).toBe('Redo')
   })
 
-  it('should render export/import buttons', () => {
+  it('should render export/import buttons', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     expect(wrapper.text()).toContain('Download JSON')
+    expect(wrapper.text()).toContain('Download GLB')
     expect(wrapper.text()).toContain('Upload JSON')
     expect(wrapper.text()).toContain('Save')
   })
 
-  it('should disable export buttons when no cube', () => {
+  it('should disable export buttons when no cube', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     const downloadBtn = wrapper.find('[title="Download JSON file"]')
     const saveBtn = wrapper.find('[title="Save to browser storage"]')
     expect(downloadBtn.attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[title="Download glTF binary"]').attributes('disabled')).toBeDefined()
     expect(saveBtn.attributes('disabled')).toBeDefined()
   })
 
-  it('should enable export buttons when cube is provided', () => {
+  it('should enable export buttons when cube is provided', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
     const downloadBtn = wrapper.find('[title="Download JSON file"]')
     const saveBtn = wrapper.find('[title="Save to browser storage"]')
     expect(downloadBtn.attributes('disabled')).toBeUndefined()
@@ -148,51 +160,56 @@ describe('ExportPanel Vue Component — Rendering', () => {
 })
 
 describe('ExportPanel Vue Component — Undo/Redo', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
   })
 
-  it('should have disabled undo button initially', () => {
+  it('should have disabled undo button initially', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
     const undoBtn = wrapper.find('[aria-label="Undo"]')
     expect(undoBtn.attributes('disabled')).toBeDefined()
   })
 
-  it('should have disabled redo button initially', () => {
+  it('should have disabled redo button initially', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
     const redoBtn = wrapper.find('[aria-label="Redo"]')
     expect(redoBtn.attributes('disabled')).toBeDefined()
   })
 
-  it('should enable undo after history push', () => {
-    pushToHistory(mockCube)
+  it('should enable undo after history push', async () => {
+    await pushToHistory(mockCube)
     const modifiedCube = { ...mockCube, id: 'modified_cube' }
-    pushToHistory(modifiedCube)
+    await pushToHistory(modifiedCube)
 
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: modifiedCube },
     })
+    await flushPromises()
 
     const undoBtn = wrapper.find('[aria-label="Undo"]')
     expect(undoBtn.attributes('disabled')).toBeUndefined()
   })
 
   it('should emit cubeChange when undo is clicked', async () => {
-    pushToHistory(mockCube)
+    await pushToHistory(mockCube)
     const modifiedCube: SpectralCube = { ...mockCube, id: 'modified_cube' }
-    pushToHistory(modifiedCube)
+    await pushToHistory(modifiedCube)
 
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: modifiedCube },
     })
+    await flushPromises()
 
     const undoBtn = wrapper.find('[aria-label="Undo"]')
     await undoBtn.trigger('click')
+    await flushPromises()
 
     expect(wrapper.emitted('cubeChange')).toBeTruthy()
     expect(wrapper.emitted('cubeChange')![0][0]).toEqual(mockCube)
@@ -200,9 +217,9 @@ describe('ExportPanel Vue Component — Undo/Redo', () => {
 })
 
 describe('ExportPanel Vue Component — Export Functionality', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
   })
 
   it('should trigger export when Download JSON clicked', async () => {
@@ -214,6 +231,7 @@ describe('ExportPanel Vue Component — Export Functionality', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     const downloadBtn = wrapper.find('[title="Download JSON file"]')
     await downloadBtn.trigger('click')
@@ -223,12 +241,28 @@ describe('ExportPanel Vue Component — Export Functionality', () => {
     expect(statusEl.exists()).toBe(true)
     expect(wrapper.text()).toContain('exported successfully')
   })
+
+  it('should trigger glTF export when Download GLB clicked', async () => {
+    const mockCreateObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:mock-url')
+    global.URL.createObjectURL = mockCreateObjectURL
+    global.URL.revokeObjectURL = vi.fn()
+
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: mockCube },
+    })
+    await flushPromises()
+
+    await wrapper.find('[title="Download glTF binary"]').trigger('click')
+
+    expect(mockCreateObjectURL.mock.calls[0][0].type).toBe('model/gltf-binary')
+    expect(wrapper.text()).toContain('Model exported successfully')
+  })
 })
 
 describe('ExportPanel Vue Component — Save Functionality', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
   })
 
   it('should save cube to localStorage when Save clicked', async () => {
@@ -236,9 +270,11 @@ describe('ExportPanel Vue Component — Save Functionality', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     const saveBtn = wrapper.find('[title="Save to browser storage"]')
     await saveBtn.trigger('click')
+    await flushPromises()
 
     // Should show success message
     const statusEl = wrapper.find('[role="status"]')
@@ -252,45 +288,65 @@ describe('ExportPanel Vue Component — Save Functionality', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     const saveBtn = wrapper.find('[title="Save to browser storage"]')
     await saveBtn.trigger('click')
+    await flushPromises()
 
     // Saved configs list should appear
     expect(wrapper.text()).toContain('Saved Configurations')
   })
+
+  it('should report a full storage instead of failing silently', async () => {
+    setStorageAdapter(new MemoryStorageAdapter(100))
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: mockCube },
+    })
+    await flushPromises()
+
+    await wrapper.find('[title="Save to browser storage"]').trigger('click')
+    await flushPromises()
+    setStorageAdapter(null)
+
+    expect(wrapper.find('[role="alert"]').text()).toContain('Browser storage is full')
+    expect(wrapper.text()).not.toContain('Configuration saved')
+  })
 })
 
 describe('ExportPanel Vue Component — Saved Configs List', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
     // Pre-save some configs
-    saveCubeToStorage(mockCube)
+    await saveCubeToStorage(mockCube)
   })
 
-  it('should display saved configs', () => {
+  it('should display saved configs', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     expect(wrapper.text()).toContain('Saved Configurations')
     expect(wrapper.text()).toContain('Test Cube')
   })
 
-  it('should have load button for each config', () => {
+  it('should have load button for each config', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     const loadButtons = wrapper
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text().includes('Load'))
     expect(loadButtons.length).toBeGreaterThan(0)
   })
 
-  it('should have delete button for each config', () => {
+  it('should have delete button for each config', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     const deleteButtons = wrapper
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text().includes('Delete'))
@@ -301,11 +357,13 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
 
     const loadButtons = wrapper
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text() === 'Load')
     await loadButtons[0].trigger('click')
+    await flushPromises()
 
     expect(wrapper.emitted('cubeLoad')).toBeTruthy()
     const emittedCube = wrapper.emitted('cubeLoad')![0][0] as SpectralCube
@@ -317,6 +375,7 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
 
     // Initially should show the config
     expect(wrapper.text()).toContain('Test Cube')
@@ -325,6 +384,7 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text() === 'Delete')
     await deleteButtons[0].trigger('click')
+    await flushPromises()
 
     // Config should be removed
     expect(wrapper.text()).not.toContain('Test Cube')
@@ -337,11 +397,13 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
 
     const loadButtons = wrapper
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text() === 'Load')
     await loadButtons[0].trigger('click')
+    await flushPromises()
 
     const statusEl = wrapper.find('[role="status"]')
     expect(statusEl.exists()).toBe(true)
@@ -355,11 +417,13 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
 
     const deleteButtons = wrapper
       .findAll('.export-panel__saved-actions button')
       .filter((btn) => btn.text() === 'Delete')
     await deleteButtons[0].trigger('click')
+    await flushPromises()
 
     const statusEl = wrapper.find('[role="status"]')
     expect(statusEl.exists()).toBe(true)
@@ -370,9 +434,9 @@ describe('ExportPanel Vue Component — Saved Configs List', () => {
 })
 
 describe('ExportPanel Vue Component — Status Messages', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorage.clear()
-    clearHistory()
+    await clearHistory()
   })
 
   it('should clear success message after timeout', async () => {
@@ -380,9 +444,11 @@ describe('ExportPanel Vue Component — Status Messages', () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     const saveBtn = wrapper.find('[title="Save to browser storage"]')
     await saveBtn.trigger('click')
+    await flushPromises()
 
     // Message should be visible
     expect(wrapper.find('[role="status"]').exists()).toBe(true)
@@ -399,29 +465,219 @@ describe('ExportPanel Vue Component — Status Messages', () => {
 })
 
 describe('ExportPanel Vue Component — Custom className', () => {
-  it('should apply custom className', () => {
+  it('should apply custom className', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null, className: 'custom-class' },
     })
+    await flushPromises()
     expect(wrapper.find('.export-panel.custom-class').exists()).toBe(true)
   })
 })
 
 describe('ExportPanel Vue Component — Import Functionality', () => {
-  it('should have Upload JSON button always enabled', () => {
+  it('should have Upload JSON button always enabled', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: null },
     })
+    await flushPromises()
     const uploadBtn = wrapper.find('[title="Upload JSON file"]')
     expect(uploadBtn.attributes('disabled')).toBeUndefined()
   })
 })
 
+describe('ExportPanel Vue Component — Voxel Import/Export', () => {
+  const mockWorld: WorldConfig = {
+    id: 'test_world',
+    palette: { test_cube: mockCube },
+    cells: { '0,0,0': 'test_cube' },
+  }
+
+  it('should disable voxel export without a world', async () => {
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: mockCube },
+    })
+    await flushPromises()
+    expect(
+      wrapper.find('[title="Import MagicaVoxel or schematic file"]').attributes('disabled')
+    ).toBeUndefined()
+    expect(wrapper.find('[title="Download MagicaVoxel file"]').attributes('disabled')).toBeDefined()
+    expect(wrapper.find('[title="Download Sponge schematic"]').attributes('disabled')).toBeDefined()
+  })
+
+  it('should export the current world as .vox', async () => {
+    global.URL.createObjectURL = vi.fn(() => 'blob:mock-url')
+    global.URL.revokeObjectURL = vi.fn()
+
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null, currentWorld: mockWorld },
+    })
+    await flushPromises()
+    await wrapper.find('[title="Download MagicaVoxel file"]').trigger('click')
+    await flushPromises()
+
+    expect(global.URL.createObjectURL).toHaveBeenCalled()
+    expect(wrapper.text()).toContain('World exported successfully')
+  })
+
+  it('should open a file picker for .vox and .schem files', async () => {
+    const click = vi.spyOn(HTMLInputElement.prototype, 'click').mockImplementation(() => {})
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null },
+    })
+    await flushPromises()
+
+    await wrapper.find('[title="Import MagicaVoxel or schematic file"]').trigger('click')
+
+    await flushPromises()
+
+    const input = click.mock.instances[0] as unknown as HTMLInputElement
+    expect(input.accept).toBe('.vox,.schem')
+    click.mockRestore()
+  })
+})
+
+describe('ExportPanel Vue Component — Project Files', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  /** Selects a file in the next file picker the panel opens */
+  async function selectFile(wrapper: ReturnType<typeof shallowMount>, title: string, text: string) {
+    const click = vi.spyOn(HTMLInputElement.prototype, 'click').mockImplementation(() => {})
+    await wrapper.find(`[title="${title}"]`).trigger('click')
+    const input = click.mock.instances[0] as unknown as HTMLInputElement
+    click.mockRestore()
+
+    const file = Object.assign(new Blob([text]), {
+      name: 'project.isocubic',
+      text: () => Promise.resolve(text),
+    }) as unknown as File
+    Object.defineProperty(input, 'files', { value: [file] })
+    input.onchange?.(new Event('change'))
+    await flushPromises()
+    return input
+  }
+
+  const projectText = serializeProject({
+    name: 'Shared project',
+    cubes: [{ ...mockCube, meta: { ...mockCube.meta, name: 'Imported Cube' } }],
+    fftCubes: [],
+    stacks: [],
+    stackPresets: [],
+    worlds: [],
+    editor: { currentCubeId: 'test_cube' },
+  })
+
+  it('should import a project without conflicts directly', async () => {
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null },
+    })
+    await flushPromises()
+
+    const input = await selectFile(wrapper, 'Open .isocubic project', projectText)
+
+    expect(input.accept).toBe('.isocubic,.json')
+    expect(await loadCubeFromStorage('test_cube')).not.toBeNull()
+    expect(wrapper.emitted('projectLoad')).toHaveLength(1)
+    expect(wrapper.emitted('cubeLoad')?.[0][0]).toMatchObject({ id: 'test_cube' })
+    expect(wrapper.text()).toContain('Imported project: Shared project')
+  })
+
+  it('should ask how to resolve id conflicts and rename by default', async () => {
+    await saveCubeToStorage(mockCube)
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null },
+    })
+    await flushPromises()
+
+    await selectFile(wrapper, 'Open .isocubic project', projectText)
+
+    expect(wrapper.find('.export-panel__collisions').text()).toContain('Imported Cube (cube)')
+    expect(wrapper.emitted('projectLoad')).toBeUndefined()
+
+    await wrapper.find('.export-panel__collisions .export-panel__button--primary').trigger('click')
+    await flushPromises()
+
+    expect(wrapper.find('.export-panel__collisions').exists()).toBe(false)
+    expect((await loadCubeFromStorage('test_cube'))?.meta?.name).toBe('Test Cube')
+    expect((await loadCubeFromStorage('test_cube_2'))?.meta?.name).toBe('Imported Cube')
+    expect(wrapper.emitted('cubeLoad')?.[0][0]).toMatchObject({ id: 'test_cube_2' })
+  })
+
+  it('should replace or skip conflicting items when chosen', async () => {
+    await saveCubeToStorage(mockCube)
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null },
+    })
+    await flushPromises()
+
+    await selectFile(wrapper, 'Open .isocubic project', projectText)
+    await wrapper.find('.export-panel__collisions-list select').setValue('replace')
+    await wrapper.find('.export-panel__collisions .export-panel__button--primary').trigger('click')
+    await flushPromises()
+    expect((await loadCubeFromStorage('test_cube'))?.meta?.name).toBe('Imported Cube')
+
+    await selectFile(wrapper, 'Open .isocubic project', projectText)
+    await wrapper.find('.export-panel__collisions select').setValue('skip')
+    await wrapper.find('.export-panel__collisions .export-panel__button--primary').trigger('click')
+    await flushPromises()
+    expect(await loadCubeFromStorage('test_cube_2')).toBeNull()
+  })
+
+  it('should report invalid project files', async () => {
+    const wrapper = shallowMount(ExportPanel, {
+      props: { currentCube: null },
+    })
+    await flushPromises()
+
+    await selectFile(wrapper, 'Open .isocubic project', '{"format":"other"}')
+
+    expect(wrapper.find('[role="alert"]').text()).toContain('Not a project file')
+  })
+
+  it('should download saved cubes and the open world as a project', async () => {
+    global.URL.createObjectURL = vi.fn(() => 'blob:mock-url')
+    global.URL.revokeObjectURL = vi.fn()
+    await saveCubeToStorage({ ...mockCube, id: 'saved_cube' })
+    const wrapper = shallowMount(ExportPanel, {
+      props: {
+        currentCube: mockCube,
+        currentWorld: {
+          id: 'world',
+          palette: { test_cube: mockCube },
+          cells: { '0,0,0': 'test_cube' },
+        },
+      },
+    })
+    await flushPromises()
+
+    await wrapper.find('[title="Download .isocubic project"]').trigger('click')
+    await flushPromises()
+
+    const blob = vi.mocked(global.URL.createObjectURL).mock.calls[0][0] as Blob
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.readAsText(blob)
+    })
+    const file = JSON.parse(text)
+    expect(file.definitions.cubes).toHaveLength(2)
+    expect(file.worlds[0].palette).toEqual({ test_cube: 'test_cube' })
+
+    const project = readProjectFile(file).project!
+    expect(project.cubes.map((cube) => cube.id)).toEqual(['test_cube', 'saved_cube'])
+    expect(project.worlds[0].palette.test_cube.meta?.name).toBe('Test Cube')
+    expect(project.editor).toMatchObject({ currentCubeId: 'test_cube', currentWorldId: 'world' })
+    expect(wrapper.text()).toContain('Project exported successfully')
+  })
+})
+
 describe('ExportPanel Vue Component — Accessibility', () => {
-  it('should have proper button titles', () => {
+  it('should have proper button titles', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     expect(wrapper.find('[title="Undo (Ctrl+Z)"]').exists()).toBe(true)
     expect(wrapper.find('[title="Redo (Ctrl+Shift+Z)"]').exists()).toBe(true)
@@ -430,10 +686,11 @@ describe('ExportPanel Vue Component — Accessibility', () => {
     expect(wrapper.find('[title="Save to browser storage"]').exists()).toBe(true)
   })
 
-  it('should have aria-labels for undo/redo', () => {
+  it('should have aria-labels for undo/redo', async () => {
     const wrapper = shallowMount(ExportPanel, {
       props: { currentCube: mockCube },
     })
+    await flushPromises()
 
     const undoBtn = wrapper.find('[aria-label="Undo"]')
     const redoBtn = wrapper.find('[aria-label="Redo"]')
@@ -6,7 +6,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { shallowMount } from '@vue/test-utils'
+import { flushPromises, shallowMount } from '@vue/test-utils'
 import Gallery, { GALLERY_META } from './Gallery.vue'
 import type { SpectralCube } from '../types/cube'
 
@@ -384,6 +384,7 @@ describe('Gallery Vue Component — Save to Gallery', () => {
 
     const saveButton = wrapper.find('.gallery__save-btn')
     await saveButton.trigger('click')
+    await flushPromises()
 
     // Status message should appear
     const statusEl = wrapper.find('[role="status"]')
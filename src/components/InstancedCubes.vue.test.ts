@@ -0,0 +1,109 @@
+/**
+ * Unit tests for InstancedCubes Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import type * as THREE from 'three'
+import InstancedCubes from './InstancedCubes.vue'
+import type { SpectralCube } from '../types/cube'
+import type { CubeInstance } from '../lib/instanced-renderer'
+import { createBenchmarkScene } from '../lib/instanced-renderer'
+
+// Mock TresJS dependencies
+vi.mock('@tresjs/core', () => ({
+  useLoop: () => ({ onBeforeRender: vi.fn(), onRender: vi.fn() }),
+}))
+
+// Mock ParametricCube to render a simple stub with data attributes
+vi.mock('./ParametricCube.vue', () => ({
+  default: {
+    name: 'ParametricCube',
+    props: ['config', 'position', 'gridPosition', 'scale', 'lodLevel', 'neighbors'],
+    template: `<div data-testid="parametric-cube-mock" :data-config-id="config?.id" />`,
+  },
+}))
+
+const globalStubs = {
+  stubs: {
+    TresGroup: { template: '<div><slot /></div>' },
+    primitive: {
+      name: 'PrimitiveStub',
+      props: ['object'],
+      template: '<div data-testid="instanced-mesh" :data-count="object.count" />',
+    },
+  },
+}
+
+const stone: SpectralCube = {
+  id: 'stone',
+  base: { color: [0.5, 0.5, 0.5] },
+  noise: { type: 'perlin', scale: 8 },
+}
+
+const tiled: SpectralCube = {
+  ...stone,
+  id: 'tiled',
+  faces: { top: { base: { color: [0.8, 0.8, 0.8] } } },
+}
+
+function row(configs: SpectralCube[]): CubeInstance[] {
+  return configs.map((config, x) => ({
+    key: `cube-${x}`,
+    config,
+    position: [x, 0, 0],
+    gridPosition: [x, 0, 0],
+  }))
+}
+
+describe('InstancedCubes Vue Component', () => {
+  it('should draw cubes sharing a configuration with one instanced mesh', () => {
+    const wrapper = mount(InstancedCubes, {
+      props: { cubes: row([stone, stone, stone, tiled]) },
+      global: globalStubs,
+    })
+
+    const meshes = wrapper.findAll('[data-testid="instanced-mesh"]')
+    expect(meshes).toHaveLength(1)
+    expect(meshes[0].attributes('data-count')).toBe('3')
+    const fallback = wrapper.findAll('[data-testid="parametric-cube-mock"]')
+    expect(fallback.map((cube) => cube.attributes('data-config-id'))).toEqual(['tiled'])
+    expect(wrapper.emitted('statisticsUpdate')![0]).toEqual([
+      { totalCubes: 4, instancedCubes: 3, batches: 1, drawCalls: 7 },
+    ])
+  })
+
+  it('should update the meshes in place when only LOD levels change', async () => {
+    const cubes = row([stone, stone])
+    const wrapper = mount(InstancedCubes, { props: { cubes }, global: globalStubs })
+    const mesh = wrapper
+      .findComponent({ name: 'PrimitiveStub' })
+      .props('object') as THREE.InstancedMesh
+    const dispose = vi.spyOn(mesh.geometry, 'dispose')
+
+    await wrapper.setProps({ cubes: cubes.map((cube) => ({ ...cube, lodLevel: 4 as const })) })
+    expect(wrapper.findComponent({ name: 'PrimitiveStub' }).props('object')).toBe(mesh)
+    expect(mesh.geometry.getAttribute('aDetail').array[1]).toBe(0)
+
+    await wrapper.setProps({ cubes: cubes.slice(1) })
+    expect(dispose).toHaveBeenCalled()
+    expect(wrapper.findComponent({ name: 'PrimitiveStub' }).props('object')).not.toBe(mesh)
+
+    wrapper.unmount()
+  })
+
+  it('should render the benchmark scene in three draw calls', () => {
+    const wrapper = mount(InstancedCubes, {
+      props: { cubes: createBenchmarkScene([16, 4, 16]) },
+      global: globalStubs,
+    })
+
+    expect(wrapper.findAll('[data-testid="instanced-mesh"]')).toHaveLength(3)
+    expect(wrapper.emitted('statisticsUpdate')![0][0]).toMatchObject({
+      totalCubes: 1024,
+      drawCalls: 3,
+    })
+  })
+})
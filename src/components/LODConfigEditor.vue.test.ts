@@ -190,6 +190,8 @@ describe('LODConfigEditor Vue Component', () => {
       averageLODLevel: 1.69,
       transitioningCubes: 3,
       performanceSavings: 42.5,
+      occludedCubes: 0,
+      frustumCulledCubes: 0,
     }
 
     it('renders statistics when provided', () => {
@@ -280,6 +282,23 @@ describe('LODConfigEditor Vue Component', () => {
       expect(calledConfig.screenSizeThreshold).toBe(75)
     })
 
+    it('updates hysteresis', async () => {
+      const wrapper = shallowMount(LODConfigEditor, {
+        props: {
+          config: DEFAULT_LOD_CONFIG,
+          onConfigChange: mockOnConfigChange,
+          showAdvanced: true,
+        },
+      })
+
+      expect(wrapper.find('label[for="lod-hysteresis"]').text()).toContain('15%')
+      await wrapper.find('#lod-hysteresis').setValue('0.3')
+
+      expect(mockOnConfigChange).toHaveBeenCalled()
+      const calledConfig = mockOnConfigChange.mock.calls[0][0]
+      expect(calledConfig.hysteresis).toBe(0.3)
+    })
+
     it('disables advanced toggle when LOD is disabled', () => {
       const disabledConfig: LODConfig = { ...DEFAULT_LOD_CONFIG, enabled: false }
       const wrapper = shallowMount(LODConfigEditor, {
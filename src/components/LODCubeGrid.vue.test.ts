@@ -6,6 +6,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
 import * as THREE from 'three'
 import { createLODSystem } from '../lib/lod-system'
 import type { LODLevel, LODConfig } from '../types/lod'
@@ -18,6 +19,15 @@ vi.mock('@tresjs/core', () => ({
   useTresContext: () => ({ camera: { value: null } }),
 }))
 
+// Mock ParametricCube to render a simple stub with data attributes
+vi.mock('./ParametricCube.vue', () => ({
+  default: {
+    name: 'ParametricCube',
+    props: ['config', 'position', 'gridPosition', 'scale', 'lodLevel', 'opacity'],
+    template: `<div data-testid="parametric-cube-mock" :data-grid="gridPosition.join(',')" />`,
+  },
+}))
+
 describe('LODCubeGrid Vue Component — LOD System Integration', () => {
   it('should create LOD system with default config', () => {
     const system = createLODSystem()
@@ -139,6 +149,44 @@ describe('LODCubeGrid Vue Component — Debug Colors', () => {
   })
 })
 
+describe('LODCubeGrid Vue Component — Culling', () => {
+  const stubs = {
+    TresGroup: { template: '<div><slot /></div>' },
+    TresMesh: true,
+    TresSphereGeometry: true,
+    TresMeshBasicMaterial: true,
+  }
+  const stone = { id: 'stone', base: { color: [0.5, 0.5, 0.5] as [number, number, number] } }
+
+  it('should skip cubes enclosed by opaque neighbours', async () => {
+    const { default: LODCubeGrid } = await import('./LODCubeGrid.vue')
+    const wrapper = mount(LODCubeGrid, {
+      props: { config: stone, gridSize: [3, 3, 3] },
+      global: { stubs },
+    })
+
+    const cubes = wrapper.findAll('[data-testid="parametric-cube-mock"]')
+    expect(cubes).toHaveLength(26)
+    expect(cubes.map((cube) => cube.attributes('data-grid'))).not.toContain('1,1,1')
+  })
+
+  it('should render every cube when culling is off or the grid is transparent', async () => {
+    const { default: LODCubeGrid } = await import('./LODCubeGrid.vue')
+    const unculled = mount(LODCubeGrid, {
+      props: { config: stone, gridSize: [3, 3, 3], culling: false },
+      global: { stubs },
+    })
+    expect(unculled.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(27)
+
+    const glass = { ...stone, base: { ...stone.base, transparency: 0.5 } }
+    const transparent = mount(LODCubeGrid, {
+      props: { config: glass, gridSize: [3, 3, 3] },
+      global: { stubs },
+    })
+    expect(transparent.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(27)
+  })
+})
+
 describe('LODCubeGrid Vue Component — Module Exports', () => {
   it('should export LODCubeGrid.vue as a valid Vue component', async () => {
     const module = await import('./LODCubeGrid.vue')
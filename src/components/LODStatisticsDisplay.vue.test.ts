@@ -17,6 +17,8 @@ const mockStats: LODStatistics = {
   averageLODLevel: 1.5,
   performanceSavings: 35.2,
   transitioningCubes: 2,
+  occludedCubes: 0,
+  frustumCulledCubes: 0,
 }
 
 describe('LODStatisticsDisplay Vue Component', () => {
@@ -70,6 +72,64 @@ describe('LODStatisticsDisplay Vue Component', () => {
     expect(wrapper.text()).not.toContain('Transitioning')
   })
 
+  it('should render draw calls only when reported', () => {
+    expect(mount(LODStatisticsDisplay, { props: { stats: mockStats } }).text()).not.toContain(
+      'Draw Calls'
+    )
+    const wrapper = mount(LODStatisticsDisplay, {
+      props: { stats: { ...mockStats, drawCalls: 3 } },
+    })
+    expect(wrapper.text()).toContain('Draw Calls: 3')
+  })
+
+  it('should render culled cubes only when there are any', () => {
+    expect(mount(LODStatisticsDisplay, { props: { stats: mockStats } }).text()).not.toContain(
+      'Occluded'
+    )
+    const wrapper = mount(LODStatisticsDisplay, {
+      props: { stats: { ...mockStats, occludedCubes: 1, frustumCulledCubes: 4 } },
+    })
+    expect(wrapper.text()).toContain('Occluded: 1')
+    expect(wrapper.text()).toContain('Outside View: 4')
+  })
+
+  it('should render adaptive quality decisions, newest first', () => {
+    const high = { qualityLevel: 'high' as const, lodDistanceScale: 1 }
+    const medium = { qualityLevel: 'medium' as const, lodDistanceScale: 0.75 }
+    const wrapper = mount(LODStatisticsDisplay, {
+      props: {
+        stats: mockStats,
+        qualityDecisions: [
+          {
+            direction: 'up',
+            from: medium,
+            to: high,
+            stepIndex: 4,
+            averageFPS: 59.6,
+            targetFPS: 60,
+            time: 9000,
+          },
+          {
+            direction: 'down',
+            from: high,
+            to: medium,
+            stepIndex: 3,
+            averageFPS: 41.25,
+            targetFPS: 60,
+            time: 2000,
+          },
+        ],
+      },
+    })
+
+    expect(wrapper.text()).toContain('Quality: high (LOD ×1)')
+    expect(wrapper.text()).toContain('↑ medium → high at 59.6 FPS')
+    expect(wrapper.text()).toContain('↓ high → medium at 41.3 FPS')
+    expect(mount(LODStatisticsDisplay, { props: { stats: mockStats } }).text()).not.toContain(
+      'Quality'
+    )
+  })
+
   it('should apply correct inline styles', () => {
     const wrapper = mount(LODStatisticsDisplay, {
       props: { stats: mockStats },
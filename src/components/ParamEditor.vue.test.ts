@@ -203,6 +203,60 @@ describe('ParamEditor Vue Component', () => {
     })
   })
 
+  describe('Face overrides', () => {
+    let testCube: SpectralCube
+
+    beforeEach(() => {
+      testCube = createDefaultCube('test-cube')
+      testCube.base = { color: [0.5, 0.5, 0.5], roughness: 0.5 }
+    })
+
+    it('edits the whole cube by default', () => {
+      const wrapper = shallowMount(ParamEditor, {
+        props: { currentCube: testCube },
+      })
+      expect((wrapper.find('#face-target').element as HTMLSelectElement).value).toBe('all')
+      expect(wrapper.find('#base-transparency').exists()).toBe(true)
+    })
+
+    it('writes base changes into the selected face override', async () => {
+      const wrapper = shallowMount(ParamEditor, {
+        props: { currentCube: testCube, onCubeUpdate: mockOnCubeUpdate },
+      })
+      await wrapper.find('#face-target').setValue('top')
+      expect(wrapper.find('#base-transparency').exists()).toBe(false)
+
+      await wrapper.find('#base-roughness').setValue('0.9')
+      const updatedCube = mockOnCubeUpdate.mock.calls[0][0]
+      expect(updatedCube.base.roughness).toBe(0.5)
+      expect(updatedCube.faces).toEqual({ top: { base: { roughness: 0.9 } } })
+    })
+
+    it('writes gradients into the selected face override', async () => {
+      const wrapper = shallowMount(ParamEditor, {
+        props: { currentCube: testCube, onCubeUpdate: mockOnCubeUpdate },
+      })
+      await wrapper.find('#face-target').setValue('sides')
+      await wrapper.find('.param-editor__add-btn').trigger('click')
+      const updatedCube = mockOnCubeUpdate.mock.calls[0][0]
+      expect(updatedCube.gradients).toEqual(testCube.gradients)
+      expect(updatedCube.faces.sides.gradients).toHaveLength((testCube.gradients?.length ?? 0) + 1)
+    })
+
+    it('clears the override of the selected face', async () => {
+      const wrapper = shallowMount(ParamEditor, {
+        props: {
+          currentCube: { ...testCube, faces: { top: { base: { color: [0, 1, 0] } } } },
+          onCubeUpdate: mockOnCubeUpdate,
+        },
+      })
+      expect(wrapper.text()).toContain('Top (overridden)')
+      await wrapper.find('#face-target').setValue('top')
+      await wrapper.find('.param-editor__clear-face-btn').trigger('click')
+      expect(mockOnCubeUpdate.mock.calls[0][0].faces).toBeUndefined()
+    })
+  })
+
   describe('Gradients section', () => {
     let testCube: SpectralCube
 
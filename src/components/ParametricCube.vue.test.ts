@@ -6,6 +6,7 @@
  */
 
 import { describe, it, expect, vi } from 'vitest'
+import type * as THREE from 'three'
 import { shallowMount } from '@vue/test-utils'
 import { axisToInt, noiseTypeToInt, parseMask, createUniforms } from '../lib/shader-utils'
 import type { SpectralCube } from '../types/cube'
@@ -372,4 +373,22 @@ describe('ParametricCube Vue Component — Component Mounting', () => {
       }).not.toThrow()
     }
   })
+
+  it('should fade the material through the opacity prop', async () => {
+    const { default: ParametricCube } = await import('./ParametricCube.vue')
+    const wrapper = shallowMount(ParametricCube as any, {
+      props: { config: defaultConfig, opacity: 0.25 },
+      global: globalStubs,
+    })
+    const material = () =>
+      wrapper.findComponent({ name: 'TresMesh' }).vm.$attrs.material as THREE.ShaderMaterial
+    expect(material().uniforms.uTransparency.value).toBe(0.25)
+    expect(material().transparent).toBe(true)
+
+    const faded = material()
+    await wrapper.setProps({ opacity: 1 })
+    expect(material()).toBe(faded)
+    expect(faded.uniforms.uTransparency.value).toBe(1)
+    expect(faded.transparent).toBe(false)
+  })
 })
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for SessionPlayback Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { flushPromises, mount } from '@vue/test-utils'
+import SessionPlayback from './SessionPlayback.vue'
+import type { Participant, SessionRecording } from '../types/collaboration'
+
+const alice: Participant = {
+  id: 'p-alice',
+  name: 'Alice',
+  color: '#ff0000',
+  role: 'owner',
+  status: 'online',
+  joinedAt: '2026-01-01T00:00:00.000Z',
+  lastActiveAt: '2026-01-01T00:00:00.000Z',
+}
+
+const action = { participantId: alice.id, sessionId: 's-1' }
+
+const recording: SessionRecording = {
+  sessionId: 's-1',
+  name: 'Castle',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  participants: [[alice.id, alice]],
+  actions: [
+    {
+      recordedAt: '2026-01-01T00:00:00.000Z',
+      action: {
+        ...action,
+        id: 'a-1',
+        type: 'participant_join',
+        timestamp: '2026-01-01T00:00:00.000Z',
+        payload: { participant: alice },
+      },
+    },
+    {
+      recordedAt: '2026-01-01T00:00:02.000Z',
+      action: {
+        ...action,
+        id: 'a-2',
+        type: 'cube_create',
+        timestamp: '2026-01-01T00:00:02.000Z',
+        payload: { cube: { id: 'stone', base: { color: [0.5, 0.5, 0.5] } } },
+      },
+    },
+    {
+      recordedAt: '2026-01-01T00:01:05.000Z',
+      action: {
+        ...action,
+        id: 'a-3',
+        type: 'cursor_move',
+        timestamp: '2026-01-01T00:01:05.000Z',
+        payload: { position: { x: 1, y: 2, z: 3, selectedCubeId: 'stone' } },
+      },
+    },
+  ],
+}
+
+/**
+ * Selects a file with the given JSON content in the recording input
+ */
+async function openFile(wrapper: ReturnType<typeof mount>, content: unknown, name: string) {
+  const input = wrapper.find('.session-playback__file')
+  // jsdom files have no text()
+  const file = { name, text: () => Promise.resolve(JSON.stringify(content)) }
+  Object.defineProperty(input.element, 'files', { value: [file], configurable: true })
+  await input.trigger('change')
+  await flushPromises()
+}
+
+describe('SessionPlayback Vue Component', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should show a message without a recording', () => {
+    const wrapper = mount(SessionPlayback, { props: { recording: null } })
+
+    expect(wrapper.find('.session-playback__empty').text()).toBe('No recording loaded')
+    expect(wrapper.find('.session-playback__controls').exists()).toBe(false)
+  })
+
+  it('should show the start of the recording', () => {
+    const wrapper = mount(SessionPlayback, { props: { recording } })
+
+    expect(wrapper.find('.session-playback__title').text()).toBe('Castle')
+    expect(wrapper.find('.session-playback__time').text()).toBe('0:00 / 1:05')
+    expect(wrapper.find('.session-playback__no-cubes').exists()).toBe(true)
+    expect(wrapper.find('.session-playback__last-action').text()).toBe('Alice: participant join')
+  })
+
+  it('should replay cubes and cursors when scrubbing', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording } })
+    const scrubber = wrapper.find('.session-playback__scrubber')
+
+    await scrubber.setValue('2000')
+    expect(wrapper.findAll('.session-playback__cube').map((cube) => cube.text())).toEqual(['stone'])
+    expect(wrapper.find('.participant-cursor').exists()).toBe(false)
+
+    await scrubber.setValue('65000')
+    expect(wrapper.find('.participant-cursor').attributes('data-participant-id')).toBe(alice.id)
+    expect(wrapper.find('.session-playback__cube--selected').text()).toBe('stone')
+    expect(wrapper.emitted('frame')?.at(-1)?.[0]).toMatchObject({ position: 65000 })
+  })
+
+  it('should play at the selected speed until the end', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording } })
+
+    await wrapper.find('.session-playback__speed').setValue('8')
+    await wrapper.find('.session-playback__play').trigger('click')
+    expect(wrapper.find('.session-playback__play').attributes('aria-label')).toBe('Pause')
+
+    vi.advanceTimersByTime(1000)
+    await wrapper.vm.$nextTick()
+    expect(wrapper.find('.session-playback__time').text()).toBe('0:08 / 1:05')
+
+    vi.advanceTimersByTime(10000)
+    await wrapper.vm.$nextTick()
+    expect(wrapper.emitted('ended')).toHaveLength(1)
+    expect(wrapper.find('.session-playback__play').attributes('aria-label')).toBe('Play')
+  })
+
+  it('should pause when the play button is clicked again', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording, autoplay: true } })
+
+    vi.advanceTimersByTime(1000)
+    await wrapper.find('.session-playback__play').trigger('click')
+    vi.advanceTimersByTime(5000)
+    await wrapper.vm.$nextTick()
+
+    expect(wrapper.find('.session-playback__time').text()).toBe('0:01 / 1:05')
+  })
+
+  it('should open a recording file', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording: null } })
+
+    await openFile(wrapper, { recording }, 'castle.json')
+
+    expect(wrapper.emitted('recordingLoad')?.[0]?.[0]).toEqual(recording)
+  })
+
+  it('should report files that are not recordings', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording: null } })
+
+    await openFile(wrapper, { id: 'stone' }, 'stone.json')
+
+    expect(wrapper.emitted('recordingLoad')).toBeUndefined()
+    expect((wrapper.emitted('error')?.[0]?.[0] as Error).message).toBe(
+      'stone.json is not a session recording'
+    )
+    expect(wrapper.find('.session-playback__error').text()).toBe(
+      'stone.json is not a session recording'
+    )
+  })
+
+  it('should hide the stage and close the recording', async () => {
+    const wrapper = mount(SessionPlayback, { props: { recording, showStage: false } })
+
+    expect(wrapper.find('.session-playback__stage').exists()).toBe(false)
+    expect(wrapper.find('.session-playback__time').exists()).toBe(true)
+
+    await wrapper.find('.session-playback__close').trigger('click')
+    expect(wrapper.emitted('close')).toHaveLength(1)
+  })
+})
@@ -6,12 +6,13 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
-import { shallowMount } from '@vue/test-utils'
+import { flushPromises, shallowMount } from '@vue/test-utils'
 import StackPresetPicker from './StackPresetPicker.vue'
 import type { CubeStackConfig } from '../types/stack'
 import { createCubeStack, createStackLayer } from '../types/stack'
 import { createDefaultCube } from '../types/cube'
 import { STACK_PRESETS, STACK_PRESET_CATEGORIES } from '../lib/stack-presets'
+import { MemoryStorageAdapter, setStorageAdapter } from '../lib/storage-adapter'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -476,7 +477,7 @@ describe('StackPresetPicker Vue Component', () => {
 
       // Submit
       await wrapper.find('.stack-preset-picker__dialog-save').trigger('click')
-      await wrapper.vm.$nextTick()
+      await flushPromises()
 
       // Dialog should close
       expect(wrapper.find('#preset-name').exists()).toBe(false)
@@ -485,6 +486,22 @@ describe('StackPresetPicker Vue Component', () => {
       expect(wrapper.text()).toContain('My Custom Stack')
     })
 
+    it('keeps the dialog open and reports a full storage', async () => {
+      setStorageAdapter(new MemoryStorageAdapter(100))
+      const wrapper = shallowMount(StackPresetPicker, {
+        props: { isOpen: true, currentStack: createTestStack() },
+      })
+
+      await wrapper.find('.stack-preset-picker__save-btn').trigger('click')
+      await wrapper.find('#preset-name').setValue('Too Big')
+      await wrapper.find('.stack-preset-picker__dialog-save').trigger('click')
+      await flushPromises()
+      setStorageAdapter(null)
+
+      expect(wrapper.find('#preset-name').exists()).toBe(true)
+      expect(wrapper.find('[role="alert"]').text()).toContain('Browser storage is full')
+    })
+
     it('save button is disabled when name is empty', async () => {
       const testStack = createTestStack()
       const wrapper = shallowMount(StackPresetPicker, {
@@ -509,7 +526,7 @@ describe('StackPresetPicker Vue Component', () => {
       await wrapper.find('.stack-preset-picker__save-btn').trigger('click')
       await wrapper.find('#preset-name').setValue('Deletable Stack')
       await wrapper.find('.stack-preset-picker__dialog-save').trigger('click')
-      await wrapper.vm.$nextTick()
+      await flushPromises()
 
       // Find the user preset card and check for delete button
       const presetCards = wrapper.findAll('.stack-preset-picker__preset')
@@ -538,7 +555,7 @@ describe('StackPresetPicker Vue Component', () => {
       await wrapper.find('.stack-preset-picker__save-btn').trigger('click')
       await wrapper.find('#preset-name').setValue('To Be Deleted')
       await wrapper.find('.stack-preset-picker__dialog-save').trigger('click')
-      await wrapper.vm.$nextTick()
+      await flushPromises()
 
       // Verify it's there
       expect(wrapper.text()).toContain('To Be Deleted')
@@ -547,7 +564,7 @@ describe('StackPresetPicker Vue Component', () => {
       const presetCards = wrapper.findAll('.stack-preset-picker__preset')
       const userCard = presetCards.find((card) => card.text().includes('To Be Deleted'))
       await userCard!.find('.stack-preset-picker__delete-btn').trigger('click')
-      await wrapper.vm.$nextTick()
+      await flushPromises()
 
       // Should be gone
       expect(wrapper.text()).not.toContain('To Be Deleted')
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for StreamedWorld Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { flushPromises, mount } from '@vue/test-utils'
+import * as THREE from 'three'
+import type { SpectralCube } from '../types/cube'
+import { createWorld, fillWorldRegion } from '../types/world'
+import { MemoryStorageAdapter } from '../lib/storage-adapter'
+import { saveWorldChunks } from '../lib/world-streaming'
+import type { WorldStreamer } from '../lib/world-streaming'
+import type { CubeInstance } from '../lib/instanced-renderer'
+
+const { renderCallbacks, camera } = vi.hoisted(() => ({
+  renderCallbacks: [] as ((context: { elapsed: number }) => void)[],
+  camera: { value: null as THREE.Camera | null },
+}))
+
+// Mock TresJS dependencies; render callbacks are run by the tests
+vi.mock('@tresjs/core', () => ({
+  useLoop: () => ({
+    onBeforeRender: (callback: (context: { elapsed: number }) => void) =>
+      renderCallbacks.push(callback),
+    onRender: vi.fn(),
+  }),
+  useTresContext: () => ({ camera }),
+}))
+
+// Mock ParametricCube to render a simple stub with data attributes
+vi.mock('./ParametricCube.vue', () => ({
+  default: {
+    name: 'ParametricCube',
+    props: ['config', 'neighbors', 'position', 'gridPosition', 'scale', 'lodLevel'],
+    template: `<div data-testid="parametric-cube-mock" :data-grid-position="gridPosition?.join(',')" />`,
+  },
+}))
+
+// Mock InstancedCubes to expose the impostor instances
+vi.mock('./InstancedCubes.vue', () => ({
+  default: {
+    name: 'InstancedCubes',
+    props: ['cubes', 'levelSettings'],
+    template: `<div data-testid="instanced-cubes-mock" :data-count="cubes.length" />`,
+  },
+}))
+
+const globalStubs = {
+  stubs: {
+    TresGroup: { template: '<div><slot /></div>' },
+  },
+}
+
+const stone: SpectralCube = { id: 'stone', base: { color: [0.4, 0.4, 0.4] } }
+
+/** Saves a row of 20 cells along x as five chunks of size 4 */
+async function saveRow(adapter: MemoryStorageAdapter) {
+  const world = fillWorldRegion(createWorld('row', [stone]), [0, 0, 0], [19, 0, 0], 'stone')
+  await saveWorldChunks(world, { adapter, chunkSize: 4 })
+}
+
+async function render(elapsed: number) {
+  renderCallbacks.forEach((callback) => callback({ elapsed }))
+  await flushPromises()
+}
+
+describe('StreamedWorld Vue Component', () => {
+  beforeEach(() => {
+    renderCallbacks.length = 0
+    camera.value = new THREE.PerspectiveCamera()
+  })
+
+  async function mountRow() {
+    const adapter = new MemoryStorageAdapter()
+    await saveRow(adapter)
+    const { default: StreamedWorld } = await import('./StreamedWorld.vue')
+    const wrapper = mount(StreamedWorld, {
+      props: {
+        worldId: 'row',
+        adapter,
+        streamingConfig: { impostorDistance: 6, viewDistance: 10, hysteresis: 2 },
+      },
+      global: globalStubs,
+    })
+    await flushPromises()
+    return { adapter, wrapper }
+  }
+
+  it('should render near chunks as cubes and far chunks as impostors', async () => {
+    const { wrapper } = await mountRow()
+    expect(wrapper.emitted('ready')).toHaveLength(1)
+
+    await render(1)
+    const cubes = wrapper.findAll('[data-testid="parametric-cube-mock"]')
+    expect(cubes).toHaveLength(8)
+    expect(cubes[0].attributes('data-grid-position')).toBe('0,0,0')
+    expect(wrapper.find('[data-testid="instanced-cubes-mock"]').attributes('data-count')).toBe('1')
+    expect(wrapper.emitted('statisticsUpdate')![0][0]).toMatchObject({
+      totalChunks: 5,
+      fullChunks: 2,
+      impostorChunks: 1,
+    })
+  })
+
+  it('should follow the camera at the update interval', async () => {
+    const { wrapper } = await mountRow()
+    await render(1)
+
+    camera.value!.position.set(16, 0, 0)
+    await render(1.2)
+    expect(wrapper.emitted('statisticsUpdate')).toHaveLength(1)
+
+    await render(2)
+    const positions = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .map((cube) => cube.attributes('data-grid-position'))
+    expect(positions).toHaveLength(12)
+    expect(positions).not.toContain('0,0,0')
+    expect(positions).toContain('19,0,0')
+  })
+
+  it('should show edits made through the streamer', async () => {
+    const { wrapper } = await mountRow()
+    await render(1)
+    const [streamer] = wrapper.emitted('ready')![0] as [WorldStreamer]
+
+    streamer.setCell([0, 1, 0], 'stone')
+    await render(2)
+    expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(9)
+  })
+
+  it('should report worlds that are not stored', async () => {
+    const { default: StreamedWorld } = await import('./StreamedWorld.vue')
+    const wrapper = mount(StreamedWorld, {
+      props: { worldId: 'missing', adapter: new MemoryStorageAdapter() },
+      global: globalStubs,
+    })
+    await flushPromises()
+
+    expect(wrapper.emitted('error')![0][0]).toBeInstanceOf(Error)
+    expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(0)
+  })
+
+  it('should place impostors relative to the world position', async () => {
+    const { wrapper } = await mountRow()
+    await wrapper.setProps({ position: [100, 0, 0] })
+    camera.value!.position.set(100, 0, 0)
+    await render(1)
+
+    const instanced = wrapper.findComponent({ name: 'InstancedCubes' })
+    const [impostor] = instanced.props('cubes') as CubeInstance[]
+    expect(impostor.position[0]).toBeCloseTo(100 + 9.5)
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for WorldGrid Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { mount } from '@vue/test-utils'
+import type { WorldConfig } from '../types/world'
+
+import gardenPath from '../../examples/world-garden-path.json'
+
+// Mock TresJS dependencies
+vi.mock('@tresjs/core', () => ({
+  useLoop: () => ({ onBeforeRender: vi.fn(), onRender: vi.fn() }),
+}))
+
+// Mock ParametricCube to render a simple stub with data attributes
+vi.mock('./ParametricCube.vue', () => ({
+  default: {
+    name: 'ParametricCube',
+    props: ['config', 'neighbors', 'position', 'gridPosition', 'scale', 'lodLevel'],
+    template: `<div
+      data-testid="parametric-cube-mock"
+      :data-config-id="config?.id"
+      :data-position="position?.join(',')"
+      :data-grid-position="gridPosition?.join(',')"
+      :data-scale="scale?.join(',')"
+      :data-lod-level="lodLevel"
+      :data-neighbors="Object.entries(neighbors || {}).map(([d, c]) => d + ':' + c.id).join(',')"
+    />`,
+  },
+}))
+
+const globalStubs = {
+  stubs: {
+    TresGroup: { template: '<div><slot /></div>' },
+  },
+}
+
+const world = gardenPath as unknown as WorldConfig
+
+async function mountWorld(props: Record<string, unknown>) {
+  const { default: WorldGrid } = await import('./WorldGrid.vue')
+  return mount(WorldGrid as any, { props, global: globalStubs })
+}
+
+describe('WorldGrid Vue Component', () => {
+  it('should render one cube per occupied cell including stack layers', async () => {
+    const wrapper = await mountWorld({ world })
+    expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(10)
+  })
+
+  it('should render different configurations per cell', async () => {
+    const wrapper = await mountWorld({ world })
+    const ids = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .map((cube) => cube.attributes('data-config-id'))
+    expect(new Set(ids)).toEqual(
+      new Set(['grass_001', 'stone_path_001', 'pillar_base', 'pillar_top'])
+    )
+  })
+
+  it('should pass world grid coordinates for stitching', async () => {
+    const wrapper = await mountWorld({ world })
+    const gridPositions = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .map((cube) => cube.attributes('data-grid-position'))
+    expect(gridPositions).toContain('1,0,1')
+    expect(gridPositions).toContain('2,1,2')
+  })
+
+  it('should pass different neighbouring cubes for edge blending', async () => {
+    const wrapper = await mountWorld({ world })
+    const pathCube = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .find((cube) => cube.attributes('data-grid-position') === '1,0,2')
+    expect(pathCube?.attributes('data-neighbors')).toBe(
+      'x:pillar_base,-x:grass_001,-z:stone_path_001'
+    )
+  })
+
+  it('should center the occupied bounds', async () => {
+    const wrapper = await mountWorld({ world })
+    const center = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .find((cube) => cube.attributes('data-grid-position') === '1,0,1')
+    expect(center?.attributes('data-position')).toBe('0,-0.5,0')
+  })
+
+  it('should place cell 0,0,0 at the position when not centered', async () => {
+    const wrapper = await mountWorld({ world, centered: false, position: [10, 0, 0] })
+    const cube = wrapper
+      .findAll('[data-testid="parametric-cube-mock"]')
+      .find((cube) => cube.attributes('data-grid-position') === '1,0,1')
+    expect(cube?.attributes('data-position')).toBe('11,0,1')
+  })
+
+  it('should apply cube scale and spacing', async () => {
+    const wrapper = await mountWorld({
+      world: {
+        id: 'w',
+        palette: world.palette,
+        cells: { '0,0,0': 'grass_001', '1,0,0': 'grass_001' },
+      },
+      cubeScale: 2,
+      spacing: 1,
+    })
+    const cubes = wrapper.findAll('[data-testid="parametric-cube-mock"]')
+    expect(cubes.map((c) => c.attributes('data-position'))).toEqual(['-1.5,0,0', '1.5,0,0'])
+    expect(cubes[0].attributes('data-scale')).toBe('2,2,2')
+  })
+
+  it('should pass LOD level to all cubes', async () => {
+    const wrapper = await mountWorld({ world, lodLevel: 3 })
+    wrapper.findAll('[data-testid="parametric-cube-mock"]').forEach((cube) => {
+      expect(cube.attributes('data-lod-level')).toBe('3')
+    })
+  })
+
+  it('should render nothing for an empty world', async () => {
+    const wrapper = await mountWorld({ world: { id: 'w', palette: {}, cells: {} } })
+    expect(wrapper.findAll('[data-testid="parametric-cube-mock"]')).toHaveLength(0)
+  })
+})
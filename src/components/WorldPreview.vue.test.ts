@@ -0,0 +1,114 @@
+/**
+ * Unit tests for WorldPreview Vue component
+ *
+ * @vitest-environment jsdom
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import { flushPromises, mount } from '@vue/test-utils'
+import WorldPreview from './WorldPreview.vue'
+import type { SpectralCube } from '../types/cube'
+import { createWorld, fillWorldRegion } from '../types/world'
+import { MemoryStorageAdapter } from '../lib/storage-adapter'
+import { getWorldHeaderKey } from '../lib/world-streaming'
+
+vi.mock('@tresjs/core', () => ({
+  TresCanvas: {
+    name: 'TresCanvas',
+    template: '<div data-testid="canvas-mock"><slot /></div>',
+    props: ['clearColor', 'alpha', 'powerPreference'],
+  },
+}))
+
+vi.mock('@tresjs/cientos', () => ({
+  OrbitControls: {
+    name: 'OrbitControls',
+    template: '<div data-testid="orbit-controls-mock" />',
+    props: ['target', 'enableDamping'],
+  },
+}))
+
+vi.mock('./WorldGrid.vue', () => ({
+  default: {
+    name: 'WorldGrid',
+    template: '<div data-testid="world-grid-mock" />',
+    props: ['world', 'centered', 'instanced'],
+  },
+}))
+
+vi.mock('./StreamedWorld.vue', () => ({
+  default: {
+    name: 'StreamedWorld',
+    template: '<div data-testid="streamed-world-mock" />',
+    props: ['worldId', 'adapter', 'instanced'],
+    emits: ['statisticsUpdate', 'error'],
+  },
+}))
+
+const globalStubs = {
+  stubs: {
+    TresPerspectiveCamera: true,
+    TresAmbientLight: true,
+    TresDirectionalLight: true,
+  },
+}
+
+const stone: SpectralCube = { id: 'stone', base: { color: [0.4, 0.4, 0.4] } }
+
+/** A row of 8 cells along x */
+const row = fillWorldRegion(createWorld('row', [stone]), [0, 0, 0], [7, 0, 0], 'stone')
+
+describe('WorldPreview Vue Component', () => {
+  it('should show a message without a world', () => {
+    const wrapper = mount(WorldPreview, { props: { world: null }, global: globalStubs })
+
+    expect(wrapper.find('.world-preview__empty').text()).toBe('No world loaded')
+    expect(wrapper.find('[data-testid="canvas-mock"]').exists()).toBe(false)
+  })
+
+  it('should render small worlds whole', () => {
+    const wrapper = mount(WorldPreview, { props: { world: row }, global: globalStubs })
+
+    expect(wrapper.findComponent({ name: 'WorldGrid' }).props('world')).toEqual(row)
+    expect(wrapper.findComponent({ name: 'StreamedWorld' }).exists()).toBe(false)
+    expect(wrapper.find('.world-preview__stats').text()).toBe('8 cells')
+    expect(wrapper.findComponent({ name: 'OrbitControls' }).props('target')).toEqual([3.5, 0, 0])
+  })
+
+  it('should stream large worlds from chunks saved to storage', async () => {
+    const adapter = new MemoryStorageAdapter()
+    const wrapper = mount(WorldPreview, {
+      props: { world: row, streamingThreshold: 8, adapter },
+      global: globalStubs,
+    })
+    expect(wrapper.findComponent({ name: 'WorldGrid' }).exists()).toBe(false)
+
+    await flushPromises()
+    expect(await adapter.getItem(getWorldHeaderKey('row'))).not.toBeNull()
+    const streamedWorld = wrapper.findComponent({ name: 'StreamedWorld' })
+    expect(streamedWorld.props('worldId')).toBe('row')
+
+    streamedWorld.vm.$emit('statisticsUpdate', {
+      totalChunks: 4,
+      loadedChunks: 2,
+      fullChunks: 1,
+      impostorChunks: 1,
+      dirtyChunks: 0,
+    })
+    await wrapper.vm.$nextTick()
+    expect(wrapper.find('.world-preview__stats').text()).toBe('8 cells · 2 / 4 chunks loaded')
+  })
+
+  it('should emit an error when the chunks cannot be saved', async () => {
+    const adapter = new MemoryStorageAdapter()
+    vi.spyOn(adapter, 'setItem').mockRejectedValue(new Error('quota'))
+    const wrapper = mount(WorldPreview, {
+      props: { world: row, streamingThreshold: 8, adapter },
+      global: globalStubs,
+    })
+
+    await flushPromises()
+    expect(wrapper.emitted('error')?.[0]?.[0]).toBeInstanceOf(Error)
+    expect(wrapper.findComponent({ name: 'StreamedWorld' }).exists()).toBe(false)
+  })
+})
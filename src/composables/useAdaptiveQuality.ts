@@ -0,0 +1,60 @@
+/**
+ * Adaptive Quality Composable
+ * Vue.js 3.0 composable wrapping AdaptiveQualityController in reactive state
+ *
+ * Call `recordFrame` once per rendered frame (e.g. from TresJS `onBeforeRender`); the
+ * quality step and the recent decisions update when the controller steps.
+ */
+
+import { onScopeDispose, ref, shallowRef } from 'vue'
+import type { LODConfig } from '../types/lod'
+import { createAdaptiveQualityController, scaleLODThresholds } from '../lib/adaptive-quality'
+import type {
+  AdaptiveQualityDecision,
+  AdaptiveQualityOptions,
+  AdaptiveQualityStep,
+} from '../lib/adaptive-quality'
+
+/** Number of decisions kept for display */
+const MAX_DECISIONS = 5
+
+/**
+ * Composable for adaptive quality in a component
+ * Returns the current step, the most recent decisions (newest first) and the frame hook
+ */
+export function useAdaptiveQuality(options?: AdaptiveQualityOptions) {
+  const controller = createAdaptiveQualityController(options)
+  const step = shallowRef<AdaptiveQualityStep>(controller.getStep())
+  const decisions = ref<AdaptiveQualityDecision[]>([])
+
+  function handleDecision(decision: AdaptiveQualityDecision) {
+    step.value = decision.to
+    decisions.value = [decision, ...decisions.value].slice(0, MAX_DECISIONS)
+  }
+
+  controller.on('quality_changed', handleDecision)
+  onScopeDispose(() => controller.off('quality_changed', handleDecision))
+
+  /**
+   * Records a rendered frame
+   */
+  function recordFrame() {
+    return controller.recordFrame()
+  }
+
+  /**
+   * Applies the LOD distance scale of the current step to an LOD config
+   * (reactive when called inside a computed)
+   */
+  function getLODConfig(baseConfig: LODConfig): LODConfig {
+    return scaleLODThresholds(baseConfig, step.value.lodDistanceScale)
+  }
+
+  return {
+    controller,
+    step,
+    decisions,
+    recordFrame,
+    getLODConfig,
+  }
+}
@@ -2,7 +2,10 @@
  * Cube Editor composable
  * Centralized state management for the cube editing workflow
  *
- * Manages the current cube, undo/redo history, and autosave.
+ * Manages the current cube, the branching undo/redo timeline, comparison of
+ * timeline steps with the current cube, the cube shown during session playback,
+ * and autosave.
+ * Persistence goes through the async storage API (IndexedDB when available).
  *
  * Phase 10, TASK 67: App.vue layout and adaptive design
  */
@@ -12,12 +15,18 @@ import type { SpectralCube } from '../types/cube'
 import {
   loadCurrentCube,
   saveCurrentCube,
+  getHistoryState,
+  initializeHistory,
   pushToHistory,
   undo as storageUndo,
   redo as storageRedo,
-  canUndo as storageCanUndo,
-  canRedo as storageCanRedo,
+  jumpToHistory,
+  getHistoryCube,
+  StorageError,
 } from '../lib/storage'
+import { canRedoTimeline, canUndoTimeline, getHistoryEntries } from '../lib/history'
+import type { HistoryComparison, HistoryEntry } from '../lib/history'
+import { jsonEqual } from '../lib/json-patch'
 
 /** Default cube used when no saved state exists */
 const DEFAULT_CUBE: SpectralCube = {
@@ -57,79 +66,183 @@ const DEFAULT_CUBE: SpectralCube = {
 /**
  * Composable for managing the cube editing state
  * Provides the current cube, update/select functions, and undo/redo
+ *
+ * Edits are recorded as labelled steps of a branching timeline (see lib/history);
+ * selecting a cube starts a new timeline, so selection is never an undo step.
+ * The saved cube is restored asynchronously; storage failures (such as an
+ * exceeded quota) are exposed through `storageError` instead of being dropped.
  */
 export function useCubeEditor() {
-  const currentCube = ref<SpectralCube>(loadCurrentCube() ?? DEFAULT_CUBE)
-  const undoAvailable = ref(storageCanUndo())
-  const redoAvailable = ref(storageCanRedo())
-
-  /** Refresh undo/redo availability flags */
-  function refreshHistory() {
-    undoAvailable.value = storageCanUndo()
-    redoAvailable.value = storageCanRedo()
+  const currentCube = ref<SpectralCube>(DEFAULT_CUBE)
+  const undoAvailable = ref(false)
+  const redoAvailable = ref(false)
+  const historyEntries = ref<HistoryEntry[]>([])
+  const storageError = ref<StorageError | null>(null)
+  const comparedStep = ref<{ nodeId: string; label: string; cube: SpectralCube } | null>(null)
+  /** Cube of a session playback frame, shown instead of the current cube without saving it */
+  const playbackCube = ref<SpectralCube | null>(null)
+  let edited = false
+
+  /** Record a failed storage operation */
+  function reportStorageError(error: unknown) {
+    storageError.value =
+      error instanceof StorageError ? error : new StorageError('Storage operation failed', error)
   }
 
-  /** Update the current cube with new values and push to history */
-  function updateCube(cube: SpectralCube) {
-    pushToHistory(currentCube.value)
+  /** Refresh undo/redo availability flags and the timeline entries */
+  async function refreshHistory() {
+    const timeline = await getHistoryState()
+    undoAvailable.value = timeline !== null && canUndoTimeline(timeline)
+    redoAvailable.value = timeline !== null && canRedoTimeline(timeline)
+    historyEntries.value = timeline ? getHistoryEntries(timeline) : []
+    // Steps dropped from the timeline (pruned or merged away) cannot stay compared
+    if (comparedStep.value && !timeline?.nodes[comparedStep.value.nodeId]) {
+      comparedStep.value = null
+    }
+  }
+
+  /** Make a cube current, record it in history and persist it */
+  async function replaceCube(cube: SpectralCube, record: () => Promise<void>) {
+    edited = true
+    playbackCube.value = null
     currentCube.value = cube
-    saveCurrentCube(cube)
-    refreshHistory()
+    try {
+      // History must start from the restored cube before the first edit is recorded
+      await restored
+      await record()
+      await saveCurrentCube(cube)
+      storageError.value = null
+    } catch (error) {
+      reportStorageError(error)
+    }
+    await refreshHistory()
   }
 
-  /** Select a cube (from gallery) without pushing to history */
+  /** Update the current cube and record the change (rapid edits of one field merge) */
+  function updateCube(cube: SpectralCube) {
+    return replaceCube(cube, () => pushToHistory(cube))
+  }
+
+  /** Select a cube (from gallery) and start a new history timeline for it */
   function selectCube(cube: SpectralCube) {
-    pushToHistory(currentCube.value)
-    currentCube.value = cube
-    saveCurrentCube(cube)
-    refreshHistory()
+    comparedStep.value = null
+    return replaceCube(cube, () => initializeHistory(cube, `Open "${cube.meta?.name ?? cube.id}"`))
   }
 
-  /** Load a cube from import (same as select) */
+  /** Load a cube from import as a single undoable step */
   function loadCube(cube: SpectralCube) {
-    pushToHistory(currentCube.value)
-    currentCube.value = cube
-    saveCurrentCube(cube)
-    refreshHistory()
+    return replaceCube(cube, () =>
+      pushToHistory(cube, { label: `Import "${cube.meta?.name ?? cube.id}"`, group: false })
+    )
+  }
+
+  /** Move through history and persist the resulting cube */
+  async function step(move: () => Promise<SpectralCube | null>) {
+    try {
+      const cube = await move()
+      if (cube) {
+        edited = true
+        playbackCube.value = null
+        currentCube.value = cube
+        await saveCurrentCube(cube)
+      }
+    } catch (error) {
+      reportStorageError(error)
+    }
+    await refreshHistory()
   }
 
   /** Undo last change */
   function undo() {
-    const prev = storageUndo()
-    if (prev) {
-      currentCube.value = prev
-      saveCurrentCube(prev)
-    }
-    refreshHistory()
+    return step(storageUndo)
   }
 
-  /** Redo last undone change */
+  /** Redo last undone change (on the most recently used branch) */
   function redo() {
-    const next = storageRedo()
-    if (next) {
-      currentCube.value = next
-      saveCurrentCube(next)
+    return step(() => storageRedo())
+  }
+
+  /** Jump to any step of the history timeline */
+  function jumpTo(nodeId: string) {
+    return step(() => jumpToHistory(nodeId))
+  }
+
+  /** Compare a step of the history timeline with the current cube */
+  async function compareWith(nodeId: string) {
+    try {
+      const cube = await getHistoryCube(nodeId)
+      const entry = historyEntries.value.find((candidate) => candidate.id === nodeId)
+      comparedStep.value = cube ? { nodeId, label: entry?.label ?? nodeId, cube } : null
+    } catch (error) {
+      reportStorageError(error)
     }
-    refreshHistory()
   }
 
+  /** Stop comparing a history step */
+  function closeComparison() {
+    comparedStep.value = null
+  }
+
+  /**
+   * Show the cube of a session playback frame (null shows the current cube again).
+   * Editing it makes it the current cube until the next frame
+   */
+  function showPlaybackCube(cube: SpectralCube | null) {
+    playbackCube.value = cube
+  }
+
+  // Restore the saved cube unless the user already started editing, and keep
+  // the stored timeline only when it ends at the cube being shown
+  const restored: Promise<void> = loadCurrentCube().then(async (saved) => {
+    const base = saved && !edited ? saved : DEFAULT_CUBE
+    if (!edited) {
+      currentCube.value = base
+    }
+    try {
+      const timeline = await getHistoryState()
+      if (!timeline || !jsonEqual(timeline.present, base)) {
+        await initializeHistory(base)
+      }
+    } catch (error) {
+      reportStorageError(error)
+    }
+    await refreshHistory()
+  })
+
   // Autosave on changes
   watch(
     currentCube,
     (cube) => {
-      saveCurrentCube(cube)
+      saveCurrentCube(cube).catch(reportStorageError)
     },
     { deep: true }
   )
 
   return {
-    currentCube: computed(() => currentCube.value),
+    currentCube: computed(() => playbackCube.value ?? currentCube.value),
     undoAvailable: computed(() => undoAvailable.value),
     redoAvailable: computed(() => redoAvailable.value),
+    historyEntries: computed(() => historyEntries.value),
+    storageError: computed(() => storageError.value),
+    historyComparison: computed<HistoryComparison | null>(() =>
+      comparedStep.value
+        ? {
+            nodeId: comparedStep.value.nodeId,
+            label: comparedStep.value.label,
+            before: comparedStep.value.cube,
+            after: currentCube.value,
+          }
+        : null
+    ),
+    restored,
     updateCube,
     selectCube,
     loadCube,
     undo,
     redo,
+    jumpTo,
+    compareWith,
+    closeComparison,
+    showPlaybackCube,
   }
 }
@@ -22,8 +22,16 @@ export function useLODStatistics() {
     stats.value = newStats
   }
 
+  /**
+   * Records the draw calls reported by the renderer (e.g. InstancedCubes)
+   */
+  function setDrawCalls(drawCalls: number) {
+    stats.value = { ...stats.value, drawCalls }
+  }
+
   return {
     stats,
     setStats,
+    setDrawCalls,
   }
 }
@@ -47,8 +47,16 @@ vi.mock('../components/ExportPanel.vue', () => ({
       <button disabled>Undo</button>
       <button disabled>Redo</button>
     </div>`,
-    props: ['currentCube'],
-    emits: ['cube-load', 'cube-change'],
+    props: ['currentCube', 'currentWorld'],
+    emits: ['cube-load', 'cube-change', 'world-load'],
+  },
+}))
+
+vi.mock('../components/WorldPreview.vue', () => ({
+  default: {
+    name: 'WorldPreview',
+    template: '<div class="world-preview-mock">WorldPreview</div>',
+    props: ['world'],
   },
 }))
 
@@ -116,6 +124,8 @@ const mockCubeEditor = {
   updateCube: vi.fn(),
   selectCube: vi.fn(),
   loadCube: vi.fn(),
+  historyEntries: [],
+  jumpTo: vi.fn(),
 }
 
 vi.mock('../composables/useCubeEditor', () => ({
@@ -159,12 +169,12 @@ beforeEach(() => {
 })
 
 describe('E2E: Complete Editing Workflow (Vue)', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     setActivePinia(createPinia())
     setDeviceType('desktop')
     localStorage.clear()
-    clearAllConfigs()
-    clearHistory()
+    await clearAllConfigs()
+    await clearHistory()
   })
 
   describe('Workflow: Browse and Select Cube', () => {
@@ -210,12 +220,12 @@ describe('E2E: Complete Editing Workflow (Vue)', () => {
 })
 
 describe('E2E: Mobile Workflow (Vue)', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     setActivePinia(createPinia())
     setDeviceType('mobile')
     localStorage.clear()
-    clearAllConfigs()
-    clearHistory()
+    await clearAllConfigs()
+    await clearHistory()
   })
 
   it('should render mobile layout', () => {
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the adaptive quality controller
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import {
+  AdaptiveQualityController,
+  DEFAULT_QUALITY_STEPS,
+  createAdaptiveQualityController,
+  scaleLODThresholds,
+} from './adaptive-quality'
+import type { AdaptiveQualityDecision, AdaptiveQualityOptions } from './adaptive-quality'
+import { DEFAULT_LOD_CONFIG } from '../types/lod'
+
+/**
+ * Controller on a fake clock that renders frames at a given frame rate
+ */
+function createHarness(options: AdaptiveQualityOptions = {}) {
+  let time = 0
+  const controller = createAdaptiveQualityController({
+    sampleSize: 10,
+    now: () => time,
+    ...options,
+  })
+
+  /** Renders frames at `fps` for `duration` ms and returns the decisions made */
+  function run(fps: number, duration: number): AdaptiveQualityDecision[] {
+    const decisions: AdaptiveQualityDecision[] = []
+    const end = time + duration
+    while (time < end) {
+      time += 1000 / fps
+      const decision = controller.recordFrame()
+      if (decision) decisions.push(decision)
+    }
+    return decisions
+  }
+
+  return { controller, run }
+}
+
+describe('adaptive-quality', () => {
+  describe('AdaptiveQualityController', () => {
+    it('should start at the highest step of the initial quality', () => {
+      expect(new AdaptiveQualityController().getQualityLevel()).toBe('high')
+
+      const medium = createAdaptiveQualityController({ initialQuality: 'medium' })
+      expect(medium.getStepIndex()).toBe(3)
+      expect(medium.getStep()).toEqual({ qualityLevel: 'medium', lodDistanceScale: 1 })
+      expect(() => createAdaptiveQualityController({ steps: [] })).toThrow()
+    })
+
+    it('should not decide before the sample window is full', () => {
+      const { controller, run } = createHarness({ downgradeDelay: 0 })
+
+      expect(run(10, 900)).toEqual([])
+      expect(controller.getQualityLevel()).toBe('high')
+      expect(run(10, 200)).toHaveLength(1)
+    })
+
+    it('should step down one step per downgrade delay while below the target', () => {
+      const { controller, run } = createHarness()
+      const listener = vi.fn()
+      controller.on('quality_changed', listener)
+
+      // 40 FPS: 10 frames fill the window at 275 ms, the drop is held for 1 s
+      const [decision] = run(40, 1300)
+      expect(decision).toMatchObject({
+        direction: 'down',
+        from: { qualityLevel: 'high', lodDistanceScale: 1 },
+        to: { qualityLevel: 'medium', lodDistanceScale: 1 },
+        stepIndex: 3,
+        targetFPS: 60,
+        time: 1275,
+      })
+      expect(decision.averageFPS).toBeCloseTo(40)
+      expect(listener).toHaveBeenCalledWith(decision)
+
+      // Each step is judged on its own frames
+      expect(run(40, 1000)).toEqual([])
+      expect(run(40, 10_000).map((d) => d.stepIndex)).toEqual([2, 1, 0])
+      expect(run(40, 10_000)).toEqual([])
+      expect(controller.getStep()).toBe(DEFAULT_QUALITY_STEPS[0])
+    })
+
+    it('should hold the step between the downgrade and upgrade bounds', () => {
+      const { controller, run } = createHarness({ initialQuality: 'medium' })
+
+      // 56 FPS lies between 54 (10% below 60) and 57 (5% below 60)
+      expect(run(56, 20_000)).toEqual([])
+      expect(controller.getStepIndex()).toBe(3)
+    })
+
+    it('should step up after holding the target for the upgrade delay', () => {
+      const { controller, run } = createHarness({ initialQuality: 'low' })
+
+      expect(run(60, 4000)).toEqual([])
+      const decisions = run(60, 1500)
+      expect(decisions).toHaveLength(1)
+      expect(decisions[0]).toMatchObject({ direction: 'up', stepIndex: 2 })
+      expect(controller.getQualityLevel()).toBe('medium')
+    })
+
+    it('should wait longer before upgrading again after a failed upgrade', () => {
+      const { controller, run } = createHarness({ initialQuality: 'medium' })
+
+      expect(run(60, 5500).map((d) => d.direction)).toEqual(['up'])
+      // The higher step cannot hold the target and is undone
+      expect(run(40, 1500).map((d) => d.direction)).toEqual(['down'])
+
+      expect(run(60, 6000)).toEqual([])
+      expect(run(60, 5000).map((d) => d.direction)).toEqual(['up'])
+
+      controller.reset()
+      expect(controller.getStepIndex()).toBe(4)
+    })
+
+    it('should compare against a changed target frame rate', () => {
+      const { controller, run } = createHarness()
+      controller.setTargetFPS(30)
+
+      expect(run(40, 5000)).toEqual([])
+      expect(controller.getConfig().targetFPS).toBe(30)
+    })
+
+    it('should stop notifying removed listeners', () => {
+      const { controller, run } = createHarness({ downgradeDelay: 0 })
+      const listener = vi.fn()
+      controller.on('quality_changed', listener)
+      controller.off('quality_changed', listener)
+
+      expect(run(20, 1000)).not.toEqual([])
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('scaleLODThresholds', () => {
+    it('should scale distance bands and the screen size threshold', () => {
+      const scaled = scaleLODThresholds(DEFAULT_LOD_CONFIG, 0.5)
+
+      expect(scaled.thresholds.map((t) => [t.minDistance, t.maxDistance])).toEqual([
+        [0, 2.5],
+        [2.5, 7.5],
+        [7.5, 15],
+        [15, 25],
+        [25, Infinity],
+      ])
+      expect(scaled.screenSizeThreshold).toBe(DEFAULT_LOD_CONFIG.screenSizeThreshold * 2)
+      expect(scaleLODThresholds(DEFAULT_LOD_CONFIG, 1)).toBe(DEFAULT_LOD_CONFIG)
+    })
+
+    it('should apply the LOD scale of the current step', () => {
+      const controller = createAdaptiveQualityController({
+        steps: [{ qualityLevel: 'low', lodDistanceScale: 0.5 }],
+      })
+      expect(controller.getLODConfig(DEFAULT_LOD_CONFIG).thresholds[0].maxDistance).toBe(2.5)
+    })
+  })
+})
@@ -0,0 +1,367 @@
+/**
+ * Adaptive Quality Controller
+ * Closed-loop control of rendering quality driven by FrameRateMonitor
+ *
+ * The controller averages recent frame times and walks a ladder of quality steps
+ * (QualityLevel plus an LOD distance scale) to hold a target FPS:
+ * - Steps down once the average FPS stays below the downgrade bound for `downgradeDelay`
+ * - Steps up once it stays at or above the upgrade bound for `upgradeDelay`
+ * - Holds the current step while the FPS lies between the two bounds (hysteresis)
+ *
+ * After every change the frame samples are discarded, so the new step is judged on its own
+ * frames. An upgrade that has to be undone within `upgradeDelay` doubles the time the
+ * controller waits before the next upgrade, which stops it from oscillating at a vsync cap.
+ * Time comes from an injectable clock so tests can drive the controller frame by frame.
+ */
+
+import type { LODConfig } from '../types/lod'
+import type { QualityLevel } from './performance'
+import { FrameRateMonitor } from './performance'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One step of the quality ladder
+ */
+export interface AdaptiveQualityStep {
+  /** Quality level passed to the renderer and the LOD system */
+  qualityLevel: QualityLevel
+  /** Multiplier for LOD distance thresholds (< 1 switches to coarser levels earlier) */
+  lodDistanceScale: number
+}
+
+/**
+ * Configuration for AdaptiveQualityController
+ */
+export interface AdaptiveQualityConfig {
+  /** Frame rate to hold */
+  targetFPS: number
+  /** Step down when the average FPS falls this fraction below the target (0-1) */
+  downgradeMargin: number
+  /** Step up when the average FPS is within this fraction of the target (0-1) */
+  upgradeMargin: number
+  /** How long the FPS must stay below the downgrade bound before stepping down (ms) */
+  downgradeDelay: number
+  /** How long the FPS must stay at the upgrade bound before stepping up (ms) */
+  upgradeDelay: number
+  /** Number of frame times averaged; no decision is made until the window is full */
+  sampleSize: number
+  /** Quality ladder from lowest to highest */
+  steps: AdaptiveQualityStep[]
+}
+
+/**
+ * Options for creating an AdaptiveQualityController
+ */
+export interface AdaptiveQualityOptions extends Partial<AdaptiveQualityConfig> {
+  /** Quality level to start at (default: the highest step) */
+  initialQuality?: QualityLevel
+  /** Clock in milliseconds (defaults to performance.now) */
+  now?: () => number
+}
+
+/**
+ * A step change made by the controller
+ */
+export interface AdaptiveQualityDecision {
+  /** Whether quality was raised or lowered */
+  direction: 'up' | 'down'
+  /** Step before the change */
+  from: AdaptiveQualityStep
+  /** Step after the change */
+  to: AdaptiveQualityStep
+  /** Index of the new step in the ladder */
+  stepIndex: number
+  /** Average FPS that triggered the change */
+  averageFPS: number
+  /** Target FPS at the time of the change */
+  targetFPS: number
+  /** Clock time of the change (ms) */
+  time: number
+}
+
+/**
+ * Event types emitted by AdaptiveQualityController
+ */
+export type AdaptiveQualityEventType = 'quality_changed'
+
+/**
+ * Event listener callback type
+ */
+export type AdaptiveQualityEventListener = (decision: AdaptiveQualityDecision) => void
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/**
+ * Default quality ladder, from lowest to highest
+ */
+export const DEFAULT_QUALITY_STEPS: AdaptiveQualityStep[] = [
+  { qualityLevel: 'low', lodDistanceScale: 0.5 },
+  { qualityLevel: 'low', lodDistanceScale: 0.75 },
+  { qualityLevel: 'medium', lodDistanceScale: 0.75 },
+  { qualityLevel: 'medium', lodDistanceScale: 1 },
+  { qualityLevel: 'high', lodDistanceScale: 1 },
+]
+
+/**
+ * Default adaptive quality configuration
+ */
+export const DEFAULT_ADAPTIVE_QUALITY_CONFIG: AdaptiveQualityConfig = {
+  targetFPS: 60,
+  downgradeMargin: 0.1,
+  upgradeMargin: 0.05,
+  downgradeDelay: 1000,
+  upgradeDelay: 5000,
+  sampleSize: 30,
+  steps: DEFAULT_QUALITY_STEPS,
+}
+
+/** Largest factor the upgrade delay grows to after failed upgrades */
+const MAX_UPGRADE_BACKOFF = 8
+
+// ============================================================================
+// LOD Thresholds
+// ============================================================================
+
+/**
+ * Scales the distance thresholds of an LOD config
+ * A scale below 1 brings every boundary closer (and raises the screen size threshold), so
+ * cubes switch to coarser levels earlier
+ */
+export function scaleLODThresholds(config: LODConfig, scale: number): LODConfig {
+  if (scale === 1) return config
+  return {
+    ...config,
+    thresholds: config.thresholds.map((threshold) => ({
+      ...threshold,
+      minDistance: threshold.minDistance * scale,
+      maxDistance: threshold.maxDistance * scale,
+    })),
+    screenSizeThreshold: config.screenSizeThreshold / scale,
+  }
+}
+
+// ============================================================================
+// Controller
+// ============================================================================
+
+/**
+ * Steps rendering quality up and down to hold a target frame rate
+ */
+export class AdaptiveQualityController {
+  private config: AdaptiveQualityConfig
+  private readonly now: () => number
+  private readonly monitor: FrameRateMonitor
+  private listeners: Map<AdaptiveQualityEventType, Set<AdaptiveQualityEventListener>> = new Map()
+  private stepIndex: number
+  private belowSince: number | null = null
+  private aboveSince: number | null = null
+  private lastUpgradeTime: number | null = null
+  private upgradeBackoff = 1
+
+  constructor(options: AdaptiveQualityOptions = {}) {
+    const { initialQuality, now, ...config } = options
+    this.config = { ...DEFAULT_ADAPTIVE_QUALITY_CONFIG, ...config }
+    if (this.config.steps.length === 0) {
+      throw new Error('Adaptive quality needs at least one step')
+    }
+    this.now = now ?? (() => performance.now())
+    this.monitor = new FrameRateMonitor(this.config.sampleSize, this.now)
+    this.stepIndex = this.findInitialStep(initialQuality)
+  }
+
+  private findInitialStep(quality?: QualityLevel): number {
+    const { steps } = this.config
+    if (quality) {
+      for (let i = steps.length - 1; i >= 0; i--) {
+        if (steps[i].qualityLevel === quality) return i
+      }
+    }
+    return steps.length - 1
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  /**
+   * Gets the current configuration
+   */
+  getConfig(): Readonly<AdaptiveQualityConfig> {
+    return this.config
+  }
+
+  /**
+   * Changes the target frame rate; the current step is kept
+   */
+  setTargetFPS(targetFPS: number): void {
+    this.config = { ...this.config, targetFPS }
+    this.belowSince = null
+    this.aboveSince = null
+  }
+
+  /**
+   * Gets the current quality step
+   */
+  getStep(): AdaptiveQualityStep {
+    return this.config.steps[this.stepIndex]
+  }
+
+  /**
+   * Gets the index of the current step in the ladder
+   */
+  getStepIndex(): number {
+    return this.stepIndex
+  }
+
+  /**
+   * Gets the current quality level
+   */
+  getQualityLevel(): QualityLevel {
+    return this.getStep().qualityLevel
+  }
+
+  /**
+   * Gets the average FPS of the current sample window
+   */
+  getAverageFPS(): number {
+    return this.monitor.getAverageFPS()
+  }
+
+  /**
+   * Applies the LOD distance scale of the current step to an LOD config
+   */
+  getLODConfig(baseConfig: LODConfig): LODConfig {
+    return scaleLODThresholds(baseConfig, this.getStep().lodDistanceScale)
+  }
+
+  // ==========================================================================
+  // Control Loop
+  // ==========================================================================
+
+  /**
+   * Records a rendered frame and steps the quality if needed
+   * @returns The decision made on this frame, or null when the step is unchanged
+   */
+  recordFrame(): AdaptiveQualityDecision | null {
+    this.monitor.recordFrame()
+    if (this.monitor.getSampleCount() < this.config.sampleSize) return null
+
+    const now = this.now()
+    const averageFPS = this.monitor.getAverageFPS()
+    const { targetFPS, downgradeMargin, upgradeMargin, downgradeDelay, upgradeDelay, steps } =
+      this.config
+
+    if (averageFPS < targetFPS * (1 - downgradeMargin)) {
+      this.aboveSince = null
+      this.belowSince ??= now
+      if (now - this.belowSince >= downgradeDelay && this.stepIndex > 0) {
+        return this.changeStep(-1, averageFPS, now)
+      }
+    } else if (averageFPS >= targetFPS * (1 - upgradeMargin)) {
+      this.belowSince = null
+      this.aboveSince ??= now
+      if (
+        now - this.aboveSince >= upgradeDelay * this.upgradeBackoff &&
+        this.stepIndex < steps.length - 1
+      ) {
+        return this.changeStep(1, averageFPS, now)
+      }
+    } else {
+      this.belowSince = null
+      this.aboveSince = null
+    }
+
+    return null
+  }
+
+  private changeStep(delta: 1 | -1, averageFPS: number, now: number): AdaptiveQualityDecision {
+    const from = this.getStep()
+    this.stepIndex += delta
+
+    if (delta > 0) {
+      this.lastUpgradeTime = now
+    } else if (
+      this.lastUpgradeTime !== null &&
+      now - this.lastUpgradeTime < this.config.upgradeDelay
+    ) {
+      // The last upgrade could not hold the target, so wait longer before the next one
+      this.upgradeBackoff = Math.min(this.upgradeBackoff * 2, MAX_UPGRADE_BACKOFF)
+      this.lastUpgradeTime = null
+    }
+
+    this.monitor.reset()
+    this.belowSince = null
+    this.aboveSince = null
+
+    const decision: AdaptiveQualityDecision = {
+      direction: delta > 0 ? 'up' : 'down',
+      from,
+      to: this.getStep(),
+      stepIndex: this.stepIndex,
+      averageFPS,
+      targetFPS: this.config.targetFPS,
+      time: now,
+    }
+    this.emit('quality_changed', decision)
+    return decision
+  }
+
+  /**
+   * Discards frame samples and upgrade backoff; the current step is kept
+   */
+  reset(): void {
+    this.monitor.reset()
+    this.belowSince = null
+    this.aboveSince = null
+    this.lastUpgradeTime = null
+    this.upgradeBackoff = 1
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  /**
+   * Adds an event listener
+   */
+  on(type: AdaptiveQualityEventType, listener: AdaptiveQualityEventListener): void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(listener)
+  }
+
+  /**
+   * Removes an event listener
+   */
+  off(type: AdaptiveQualityEventType, listener: AdaptiveQualityEventListener): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  /**
+   * Emits an event to all listeners
+   */
+  private emit(type: AdaptiveQualityEventType, decision: AdaptiveQualityDecision): void {
+    this.listeners.get(type)?.forEach((listener) => {
+      try {
+        listener(decision)
+      } catch {
+        // Ignore listener errors
+      }
+    })
+  }
+}
+
+/**
+ * Creates an adaptive quality controller
+ */
+export function createAdaptiveQualityController(
+  options?: AdaptiveQualityOptions
+): AdaptiveQualityController {
+  return new AdaptiveQualityController(options)
+}
@@ -5,14 +5,20 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import {
   CollaborationManager,
+  NetworkedCollaborationManager,
   createCollaborationManager,
   canEdit,
+  canComment,
   isOwner,
   formatSessionCode,
   parseSessionCode,
 } from './collaboration'
 import type { Participant, Session, CollaborativeAction } from '../types/collaboration'
-import { DEFAULT_SESSION_SETTINGS } from '../types/collaboration'
+import {
+  DEFAULT_SESSION_SETTINGS,
+  deserializeSession,
+  serializeSession,
+} from '../types/collaboration'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -370,6 +376,55 @@ describe('CollaborationManager', () => {
       expect(result.success).toBe(false)
       expect(result.error).toContain('Not in a session')
     })
+
+    it('should refuse to change cubes locked by another participant', () => {
+      const session = manager.getSession()!
+      manager.createCube({ id: 'test-cube', base: { color: [1, 0, 0] } })
+      const lockedBy = (participantId: string, type: 'cube_lock' | 'participant_leave') =>
+        ({
+          id: `${type}-${participantId}`,
+          type,
+          participantId,
+          sessionId: session.id,
+          timestamp: new Date().toISOString(),
+          payload: type === 'cube_lock' ? { cubeId: 'test-cube' } : { reason: 'manual' },
+        }) as CollaborativeAction
+
+      manager.receiveAction(lockedBy('other', 'cube_lock'))
+
+      expect(manager.getCubeLock('test-cube')).toBe('other')
+      expect(manager.updateCube('test-cube', { base: { color: [0, 1, 0] } }).error).toContain(
+        'locked'
+      )
+      expect(manager.deleteCube('test-cube').success).toBe(false)
+      expect(manager.lockCube('test-cube').success).toBe(false)
+
+      // Leaving releases the participant's locks
+      manager.receiveAction(lockedBy('other', 'participant_leave'))
+      expect(manager.getCubeLock('test-cube')).toBeNull()
+      expect(manager.lockCube('test-cube').success).toBe(true)
+      expect(manager.getCubeLock('test-cube')).toBe(manager.getState().localParticipantId)
+      expect(manager.unlockCube('test-cube').success).toBe(true)
+      expect(manager.getCubeLock('test-cube')).toBeNull()
+    })
+
+    it('should emit comments on cubes', () => {
+      const listener = vi.fn()
+      manager.on('comment_added', listener)
+      manager.createCube({ id: 'test-cube', base: { color: [1, 0, 0] } })
+
+      expect(manager.commentOnCube('test-cube', 'Too bright').success).toBe(true)
+      expect(manager.commentOnCube('test-cube', '  ').success).toBe(false)
+      expect(manager.commentOnCube('missing', 'Hello').success).toBe(false)
+      expect(listener).toHaveBeenCalledOnce()
+      expect(listener.mock.calls[0][0].data).toMatchObject({
+        cubeId: 'test-cube',
+        text: 'Too bright',
+        participantId: manager.getState().localParticipantId,
+      })
+      // Comments are not pending edits
+      expect(manager.getPendingActions().map((action) => action.type)).toEqual(['cube_create'])
+    })
   })
 
   describe('cursor operations', () => {
@@ -463,6 +518,23 @@ describe('CollaborationManager', () => {
       expect(result.success).toBe(true)
       expect(manager.getCube('external-cube')).not.toBeNull()
     })
+
+    it('should rebase unconfirmed actions onto the server session', () => {
+      const session = manager.getSession()!
+      const server = deserializeSession(serializeSession(session))
+      manager.createCube({
+        id: 'confirmed',
+        base: { color: [1, 0, 0] as [number, number, number] },
+      })
+      manager.confirmSyncedActions(manager.getPendingActions().map((action) => action.id))
+      manager.createCube({ id: 'queued', base: { color: [0, 1, 0] as [number, number, number] } })
+      server.cubes.set('remote', { id: 'remote', base: { color: [0, 0, 1] } })
+
+      expect(manager.rebaseSession(server).success).toBe(true)
+      expect(manager.getCubes().map((cube) => cube.id)).toEqual(['remote', 'queued'])
+      expect(manager.getLocalParticipant()?.id).toBe(manager.getState().localParticipantId)
+      expect(manager.rebaseSession({ ...server, id: 'other-session' }).success).toBe(false)
+    })
   })
 
   describe('conflict resolution', () => {
@@ -506,6 +578,113 @@ describe('CollaborationManager', () => {
       }
       expect(resolvedCube?.base.color).toEqual([0, 0, 1])
     })
+
+    it('should merge concurrent updates field by field using the merge strategy', () => {
+      const mergeManager = new CollaborationManager({ conflictResolution: 'merge' })
+      mergeManager.createSession('Test User')
+      mergeManager.createCube({
+        id: 'merge-cube',
+        base: { color: [1, 0, 0] as [number, number, number], roughness: 0.5 },
+      })
+      const conflictListener = vi.fn()
+      mergeManager.on('conflict_resolved', conflictListener)
+
+      // Local update changes the roughness
+      mergeManager.updateCube('merge-cube', {
+        base: { color: [1, 0, 0] as [number, number, number], roughness: 0.9 },
+      })
+
+      // External update changes the colour and, differently, the roughness (incoming wins)
+      mergeManager.receiveAction({
+        id: 'external-merge',
+        type: 'cube_update',
+        participantId: 'other-participant',
+        sessionId: mergeManager.getSession()!.id,
+        timestamp: new Date().toISOString(),
+        payload: {
+          cubeId: 'merge-cube',
+          changes: { base: { color: [0, 0, 1] as [number, number, number], roughness: 0.2 } },
+        },
+      })
+
+      expect(mergeManager.getCube('merge-cube')).toMatchObject({
+        base: { color: [0, 0, 1], roughness: 0.2 },
+      })
+      expect(conflictListener.mock.calls[0][0].data.conflicts).toEqual([
+        { path: 'base.roughness', base: 0.5, ours: 0.9, theirs: 0.2, resolution: 'theirs' },
+      ])
+      expect(mergeManager.getPendingActions().map((action) => action.type)).toEqual(['cube_create'])
+      mergeManager.leaveSession()
+    })
+
+    it('should keep concurrent edits of different nested fields with the crdt strategy', () => {
+      const alice = new CollaborationManager({ conflictResolution: 'crdt' })
+      const bob = new CollaborationManager({ conflictResolution: 'crdt' })
+      const { session } = alice.createSession('Alice')
+      alice.createCube({
+        id: 'crdt-cube',
+        base: { color: [1, 0, 0] as [number, number, number] },
+        noise: { type: 'perlin', scale: 1, octaves: 2 },
+      })
+      bob.joinSession(session!.code, 'Bob', deserializeSession(serializeSession(session!)))
+      const conflictListener = vi.fn()
+      alice.on('conflict_resolved', conflictListener)
+
+      // Both edit the noise of the same cube before seeing the other's update
+      const fromAlice = alice.updateCube('crdt-cube', {
+        noise: { type: 'perlin', scale: 4, octaves: 2 },
+      }).action!
+      const fromBob = bob.updateCube('crdt-cube', {
+        noise: { type: 'perlin', scale: 1, octaves: 6 },
+      }).action!
+      alice.receiveAction(fromBob)
+      bob.receiveAction(fromAlice)
+
+      const expected = { type: 'perlin', scale: 4, octaves: 6 }
+      expect(alice.getCube('crdt-cube')).toMatchObject({ noise: expected })
+      expect(bob.getCube('crdt-cube')).toEqual(alice.getCube('crdt-cube'))
+      expect(conflictListener).not.toHaveBeenCalled()
+      alice.dispose()
+      bob.dispose()
+    })
+
+    it('should merge a received CRDT document with the crdt strategy', () => {
+      const alice = new CollaborationManager({ conflictResolution: 'crdt' })
+      const bob = new CollaborationManager({ conflictResolution: 'crdt' })
+      const { session } = alice.createSession('Alice')
+      bob.joinSession(session!.code, 'Bob', deserializeSession(serializeSession(session!)))
+      alice.createCube({ id: 'from-alice', base: { color: [1, 0, 0] as [number, number, number] } })
+      bob.createCube({ id: 'from-bob', base: { color: [0, 0, 1] as [number, number, number] } })
+
+      expect(alice.mergeDocument(bob.getSession()!.document!).success).toBe(true)
+      expect(alice.getCubes().map((cube) => cube.id)).toEqual(['from-alice', 'from-bob'])
+      alice.dispose()
+      bob.dispose()
+    })
+
+    it('should keep offline edits of other fields when rebasing with the crdt strategy', () => {
+      const alice = new CollaborationManager({ conflictResolution: 'crdt' })
+      const bob = new CollaborationManager({ conflictResolution: 'crdt' })
+      const { session } = alice.createSession('Alice')
+      alice.createCube({
+        id: 'crdt-cube',
+        base: { color: [1, 0, 0] as [number, number, number] },
+        noise: { type: 'perlin', scale: 1, octaves: 2 },
+      })
+      alice.confirmSyncedActions(alice.getPendingActions().map((action) => action.id))
+      bob.joinSession(session!.code, 'Bob', deserializeSession(serializeSession(session!)))
+
+      // Bob's edit reaches the server while Alice edits offline
+      bob.updateCube('crdt-cube', { noise: { type: 'perlin', scale: 4, octaves: 2 } })
+      alice.updateCube('crdt-cube', { noise: { type: 'perlin', scale: 1, octaves: 6 } })
+      alice.rebaseSession(deserializeSession(serializeSession(bob.getSession()!)))
+
+      expect(alice.getCube('crdt-cube')).toMatchObject({
+        noise: { type: 'perlin', scale: 4, octaves: 6 },
+      })
+      alice.dispose()
+      bob.dispose()
+    })
   })
 
   describe('event system', () => {
@@ -564,6 +743,45 @@ describe('CollaborationManager', () => {
   })
 })
 
+describe('NetworkedCollaborationManager', () => {
+  it('should revert an action the server rejected', async () => {
+    const manager = new NetworkedCollaborationManager({
+      realtime: { preferWebSocket: false, queueStorageKey: null },
+      syncDebounceDelay: 0,
+    })
+    manager.createSession('Alice')
+    manager.createCube({ id: 'stone', base: { color: [0.5, 0.5, 0.5] } })
+    manager.confirmSyncedActions(manager.getPendingActions().map((action) => action.id))
+    const serverCopy = serializeSession(manager.getSession()!)
+
+    const fetchMock = vi.fn((url: string) => {
+      const data = url.endsWith('/sessions/join')
+        ? { success: true, authToken: 'token-1', lastSequence: 0 }
+        : url.endsWith('/action')
+          ? { success: false, actionId: 'update', code: 'CUBE_LOCKED', error: 'Cube is locked' }
+          : url.endsWith(`/sessions/${serverCopy.id}`)
+            ? { session: serverCopy }
+            : { success: true, messages: [] }
+      return Promise.resolve({ ok: true, json: () => Promise.resolve(data) })
+    })
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    await manager.connect()
+
+    const stoneColor = () => (manager.getCube('stone') as { base: { color: number[] } }).base.color
+    manager.updateCube('stone', { base: { color: [1, 0, 0] } })
+    expect(stoneColor()).toEqual([1, 0, 0])
+
+    await vi.waitFor(() => expect(stoneColor()).toEqual([0.5, 0.5, 0.5]))
+    expect(manager.getPendingActions()).toEqual([])
+
+    manager.disconnect()
+    manager.dispose()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+})
+
 describe('utility functions', () => {
   describe('canEdit', () => {
     it('should return true for owner', () => {
@@ -613,6 +831,26 @@ describe('utility functions', () => {
     })
   })
 
+  describe('canComment', () => {
+    it('should allow every role but viewer to comment', () => {
+      const participant = (role: Participant['role']): Participant => ({
+        id: 'p1',
+        name: 'Participant',
+        color: '#FF6B6B',
+        role,
+        status: 'online',
+        joinedAt: new Date().toISOString(),
+        lastActiveAt: new Date().toISOString(),
+      })
+
+      expect(canComment(participant('owner'))).toBe(true)
+      expect(canComment(participant('editor'))).toBe(true)
+      expect(canComment(participant('commenter'))).toBe(true)
+      expect(canComment(participant('viewer'))).toBe(false)
+      expect(canComment(null)).toBe(false)
+    })
+  })
+
   describe('isOwner', () => {
     it('should return true for owner', () => {
       const participant: Participant = {
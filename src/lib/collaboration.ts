@@ -1,6 +1,11 @@
 /**
  * Collaboration module for isocubic
  * Provides session management, action synchronization, and conflict resolution
+ *
+ * The 'merge' strategy merges concurrent cube updates field by field (see cube-diff.ts),
+ * using the cube as it was before the local update as common ancestor.
+ * The 'crdt' strategy keeps the session's cubes in a CRDT document (see crdt.ts) and sends
+ * each cube action with its delta, so replicas converge whatever order actions arrive in
  */
 
 import type { SpectralCube, FFTCubeConfig } from '../types/cube'
@@ -21,11 +26,24 @@ import type {
   CubeUpdateAction,
   CubeDeleteAction,
   CubeSelectAction,
+  CubeLockAction,
+  CubeUnlockAction,
+  CubeCommentAction,
   CursorMoveAction,
   CursorPosition,
   ConnectionState,
   SerializableSession,
 } from '../types/collaboration'
+import { mergeConfigs } from './cube-diff'
+import type { MergeConflict } from './cube-diff'
+import {
+  CRDTClock,
+  applyDelta,
+  createDocumentFromCubes,
+  getActionDelta,
+  getDocumentCube,
+} from './crdt'
+import type { CRDTDocument } from './crdt'
 import {
   DEFAULT_SESSION_SETTINGS,
   DEFAULT_COLLABORATION_CONFIG,
@@ -63,6 +81,7 @@ export type CollaborationEventType =
   | 'action_applied'
   | 'conflict_resolved'
   | 'connection_changed'
+  | 'comment_added'
   | 'error'
 
 /**
@@ -88,6 +107,10 @@ export class CollaborationManager {
   private config: CollaborationConfig
   private listeners: Map<CollaborationEventType, Set<CollaborationEventListener>>
   private cursorUpdateTimer: ReturnType<typeof setInterval> | null = null
+  /** Cube before each pending local update, the common ancestor for merges */
+  private pendingBaseCubes = new Map<string, SpectralCube | FFTCubeConfig>()
+  /** Lamport clock of the local participant for the 'crdt' strategy */
+  private crdtClock: CRDTClock | null = null
 
   constructor(config?: Partial<CollaborationConfig>) {
     this.config = { ...DEFAULT_COLLABORATION_CONFIG, ...config }
@@ -252,6 +275,7 @@ export class CollaborationManager {
       this.state.session = session
       this.state.localParticipantId = participantId
       this.state.pendingActions = []
+      this.pendingBaseCubes.clear()
       this.state.error = null
 
       this.saveState()
@@ -315,6 +339,7 @@ export class CollaborationManager {
       this.state.session = existingSession
       this.state.localParticipantId = participantId
       this.state.pendingActions = []
+      this.pendingBaseCubes.clear()
       this.state.error = null
 
       this.saveState()
@@ -373,6 +398,7 @@ export class CollaborationManager {
     this.state.session = null
     this.state.localParticipantId = null
     this.state.pendingActions = []
+    this.pendingBaseCubes.clear()
     this.state.error = null
 
     this.saveState()
@@ -566,6 +592,9 @@ export class CollaborationManager {
     if (!existingCube) {
       return { success: false, error: 'Cube not found' }
     }
+    if (this.isLockedByOther(cubeId)) {
+      return { success: false, error: 'Cube is locked by another participant' }
+    }
 
     const action: CubeUpdateAction = {
       id: generateActionId(),
@@ -595,6 +624,9 @@ export class CollaborationManager {
     if (!existingCube) {
       return { success: false, error: 'Cube not found' }
     }
+    if (this.isLockedByOther(cubeId)) {
+      return { success: false, error: 'Cube is locked by another participant' }
+    }
 
     const action: CubeDeleteAction = {
       id: generateActionId(),
@@ -611,6 +643,99 @@ export class CollaborationManager {
     return this.applyAction(action)
   }
 
+  /**
+   * Locks a cube, so that only the local participant edits or deletes it
+   */
+  lockCube(cubeId: string): ActionResult {
+    if (!this.state.session || !this.state.localParticipantId) {
+      return { success: false, error: 'Not in a session' }
+    }
+    if (!this.state.session.cubes.has(cubeId)) {
+      return { success: false, error: 'Cube not found' }
+    }
+    if (this.isLockedByOther(cubeId)) {
+      return { success: false, error: 'Cube is locked by another participant' }
+    }
+
+    const action: CubeLockAction = {
+      id: generateActionId(),
+      type: 'cube_lock',
+      participantId: this.state.localParticipantId,
+      sessionId: this.state.session.id,
+      timestamp: new Date().toISOString(),
+      payload: { cubeId },
+    }
+
+    return this.applyAction(action)
+  }
+
+  /**
+   * Releases a cube lock held by the local participant (the owner releases any lock)
+   */
+  unlockCube(cubeId: string): ActionResult {
+    if (!this.state.session || !this.state.localParticipantId) {
+      return { success: false, error: 'Not in a session' }
+    }
+    if (!this.getCubeLock(cubeId)) {
+      return { success: false, error: 'Cube is not locked' }
+    }
+    if (this.isLockedByOther(cubeId) && !isOwner(this.getLocalParticipant())) {
+      return { success: false, error: 'Cube is locked by another participant' }
+    }
+
+    const action: CubeUnlockAction = {
+      id: generateActionId(),
+      type: 'cube_unlock',
+      participantId: this.state.localParticipantId,
+      sessionId: this.state.session.id,
+      timestamp: new Date().toISOString(),
+      payload: { cubeId },
+    }
+
+    return this.applyAction(action)
+  }
+
+  /**
+   * Comments on a cube. Comments are shown to the participants online, not stored
+   */
+  commentOnCube(cubeId: string, text: string): ActionResult {
+    if (!this.state.session || !this.state.localParticipantId) {
+      return { success: false, error: 'Not in a session' }
+    }
+    if (!this.state.session.cubes.has(cubeId)) {
+      return { success: false, error: 'Cube not found' }
+    }
+    if (!text.trim()) {
+      return { success: false, error: 'Comment is empty' }
+    }
+
+    const action: CubeCommentAction = {
+      id: generateActionId(),
+      type: 'cube_comment',
+      participantId: this.state.localParticipantId,
+      sessionId: this.state.session.id,
+      timestamp: new Date().toISOString(),
+      payload: { cubeId, text },
+    }
+
+    return this.applyAction(action)
+  }
+
+  /**
+   * Gets the participant holding a cube's lock, or null if it is not locked
+   */
+  getCubeLock(cubeId: string): ParticipantId | null {
+    return this.state.session?.cubeLocks?.[cubeId] ?? null
+  }
+
+  /**
+   * Checks if a cube is locked by a participant other than the local one
+   */
+  private isLockedByOther(cubeId: string): boolean {
+    const holder = this.getCubeLock(cubeId)
+    return holder !== null && holder !== this.state.localParticipantId
+  }
+
   /**
    * Selects a cube
    */
@@ -661,16 +786,22 @@ export class CollaborationManager {
     }
 
     try {
+      const baseCube =
+        action.type === 'cube_update' ? this.state.session.cubes.get(action.payload.cubeId) : null
+
       // Apply the action to local state (optimistic update)
       this.processAction(action)
 
       // Add to pending actions for synchronization
       if (this.config.enableOptimisticUpdates && isCubeModificationAction(action)) {
         this.state.pendingActions.push(action)
+        if (baseCube) {
+          this.pendingBaseCubes.set(action.id, baseCube)
+        }
 
         // Limit pending actions
         if (this.state.pendingActions.length > this.config.maxPendingActions) {
-          this.state.pendingActions.shift()
+          this.removePendingAction(this.state.pendingActions[0].id)
         }
       }
 
@@ -692,14 +823,16 @@ export class CollaborationManager {
       return { success: false, error: 'Not in a session' }
     }
 
-    // Check for conflicts with pending actions
-    const conflictingAction = this.findConflictingAction(action)
+    // Check for conflicts with pending actions (CRDT deltas merge without conflicts)
+    const conflictingAction =
+      this.config.conflictResolution === 'crdt' ? null : this.findConflictingAction(action)
     if (conflictingAction) {
-      const resolvedAction = this.resolveConflict(action, conflictingAction)
+      const { action: resolvedAction, conflicts } = this.resolveConflict(action, conflictingAction)
       this.emit('conflict_resolved', {
         incoming: action,
         pending: conflictingAction,
         resolved: resolvedAction,
+        conflicts,
       })
       action = resolvedAction
     }
@@ -728,6 +861,16 @@ export class CollaborationManager {
     const now = new Date().toISOString()
     this.state.session.modifiedAt = now
 
+    // Deleting a cube releases its lock, leaving releases the participant's locks
+    if (action.type === 'cube_delete' || action.type === 'participant_leave') {
+      this.releaseCubeLocks(action)
+    }
+
+    if (this.config.conflictResolution === 'crdt' && isCubeModificationAction(action)) {
+      this.processCRDTAction(action)
+      return
+    }
+
     switch (action.type) {
       case 'cube_create': {
         const { cube } = action.payload
@@ -793,7 +936,158 @@ export class CollaborationManager {
         this.emit('session_updated', { session: this.state.session })
         break
       }
+
+      case 'cube_lock': {
+        this.state.session.cubeLocks = {
+          ...this.state.session.cubeLocks,
+          [action.payload.cubeId]: action.participantId,
+        }
+        break
+      }
+
+      case 'cube_unlock': {
+        const cubeLocks = { ...this.state.session.cubeLocks }
+        delete cubeLocks[action.payload.cubeId]
+        this.state.session.cubeLocks = cubeLocks
+        break
+      }
+
+      case 'cube_comment': {
+        const { cubeId, text } = action.payload
+        this.emit('comment_added', {
+          cubeId,
+          text,
+          participantId: action.participantId,
+          timestamp: action.timestamp,
+        })
+        break
+      }
+    }
+  }
+
+  /**
+   * Releases the lock of a deleted cube, or the locks of a participant who left
+   */
+  private releaseCubeLocks(action: CollaborativeAction): void {
+    const cubeLocks = this.state.session?.cubeLocks
+    if (!this.state.session || !cubeLocks) return
+
+    this.state.session.cubeLocks = Object.fromEntries(
+      Object.entries(cubeLocks).filter(([cubeId, holder]) =>
+        action.type === 'cube_delete'
+          ? cubeId !== action.payload.cubeId
+          : holder !== action.participantId
+      )
+    )
+  }
+
+  /**
+   * Applies a cube action through the CRDT document. The delta is attached to the action,
+   * so local actions are sent with it
+   */
+  private processCRDTAction(action: CubeCreateAction | CubeUpdateAction | CubeDeleteAction): void {
+    const document = this.getDocument()
+    if (!document) return
+
+    const delta = getActionDelta(document, this.getCRDTClock(), action)
+    if (!delta) return
+    action.payload.delta = delta
+    this.applyDocument(delta)
+  }
+
+  /**
+   * Gets the session's CRDT document, seeding it from the cubes of sessions without one
+   */
+  private getDocument(): CRDTDocument | null {
+    const session = this.state.session
+    if (!session) return null
+    session.document ??= createDocumentFromCubes(Array.from(session.cubes.entries()))
+    return session.document
+  }
+
+  /**
+   * Gets the CRDT clock of the local participant
+   */
+  private getCRDTClock(): CRDTClock {
+    const replica = this.state.localParticipantId ?? 'local'
+    if (!this.crdtClock || this.crdtClock.getReplica() !== replica) {
+      this.crdtClock = new CRDTClock(replica)
+    }
+    return this.crdtClock
+  }
+
+  /**
+   * Joins a delta or a whole document into the session's document and refreshes the cubes
+   * it touches
+   */
+  private applyDocument(delta: CRDTDocument): void {
+    const session = this.state.session
+    const document = this.getDocument()
+    if (!session || !document) return
+
+    applyDelta(document, delta)
+    this.getCRDTClock().observe(delta)
+    for (const cubeId of Object.keys(delta.cubes)) {
+      const cube = getDocumentCube<SpectralCube | FFTCubeConfig>(document, cubeId)
+      if (cube) {
+        session.cubes.set(cubeId, cube)
+      } else {
+        session.cubes.delete(cubeId)
+      }
+    }
+  }
+
+  /**
+   * Merges a CRDT document received from another replica (e.g. a full sync) into the
+   * session. Only used with the 'crdt' strategy
+   */
+  mergeDocument(document: CRDTDocument): ActionResult {
+    if (!this.state.session) {
+      return { success: false, error: 'Not in a session' }
+    }
+
+    this.applyDocument(document)
+    this.state.session.modifiedAt = new Date().toISOString()
+    this.saveState()
+    this.emit('session_updated', { session: this.state.session })
+
+    return { success: true }
+  }
+
+  /**
+   * Replaces the session with the server's copy (e.g. a full sync after reconnecting) and
+   * replays the local actions the server has not confirmed yet on top of it, so queued
+   * edits survive the resync. The local participant is kept
+   */
+  rebaseSession(serverSession: Session): ActionResult {
+    const current = this.state.session
+    if (!current) {
+      return { success: false, error: 'Not in a session' }
+    }
+    if (current.id !== serverSession.id) {
+      return { success: false, error: 'Session mismatch' }
+    }
+
+    const localParticipantId = this.state.localParticipantId
+    const localParticipant = localParticipantId
+      ? current.participants.get(localParticipantId)
+      : undefined
+    if (localParticipantId && localParticipant) {
+      serverSession.participants.set(localParticipantId, localParticipant)
+    }
+
+    this.state.session = serverSession
+    if (serverSession.document) {
+      this.getCRDTClock().observe(serverSession.document)
+    }
+    for (const action of this.state.pendingActions) {
+      this.processAction(action)
     }
+
+    this.saveState()
+    this.emit('session_updated', { session: serverSession })
+
+    return { success: true }
   }
 
   /**
@@ -832,60 +1126,87 @@ export class CollaborationManager {
     return null
   }
 
+  /**
+   * Removes an action from the pending queue
+   */
+  private removePendingAction(actionId: string): void {
+    this.state.pendingActions = this.state.pendingActions.filter((a) => a.id !== actionId)
+    this.pendingBaseCubes.delete(actionId)
+  }
+
+  /**
+   * Merges two concurrent updates of the same cube field by field.
+   * Fields both updates changed differently are conflicts; the incoming value wins
+   */
+  private mergeCubeUpdates(
+    incoming: CubeUpdateAction,
+    pending: CubeUpdateAction
+  ): { action: CubeUpdateAction; conflicts: MergeConflict[] } {
+    const { cubeId } = incoming.payload
+    const base = this.pendingBaseCubes.get(pending.id) ?? this.state.session?.cubes.get(cubeId)
+    if (!base) {
+      return { action: incoming, conflicts: [] }
+    }
+
+    const ours = { ...base, ...pending.payload.changes } as SpectralCube | FFTCubeConfig
+    const theirs = { ...base, ...incoming.payload.changes } as SpectralCube | FFTCubeConfig
+    const { merged, conflicts } = mergeConfigs(base, ours, theirs, { prefer: 'theirs' })
+
+    const changedFields = new Set([
+      ...Object.keys(pending.payload.changes),
+      ...Object.keys(incoming.payload.changes),
+    ])
+    const changes = Object.fromEntries(
+      Array.from(changedFields).map((field) => [field, merged[field as keyof typeof merged]])
+    ) as Partial<SpectralCube | FFTCubeConfig>
+
+    return { action: { ...incoming, payload: { ...incoming.payload, changes } }, conflicts }
+  }
+
   /**
    * Resolves a conflict between two actions
    */
   private resolveConflict(
     incoming: CollaborativeAction,
     pending: CollaborativeAction
-  ): CollaborativeAction {
+  ): { action: CollaborativeAction; conflicts: MergeConflict[] } {
     switch (this.config.conflictResolution) {
       case 'last_write_wins':
         // Compare timestamps, latest wins
         if (incoming.timestamp > pending.timestamp) {
           // Remove pending action
-          this.state.pendingActions = this.state.pendingActions.filter((a) => a.id !== pending.id)
-          return incoming
+          this.removePendingAction(pending.id)
+          return { action: incoming, conflicts: [] }
         } else {
           // Keep pending, ignore incoming
-          return pending
+          return { action: pending, conflicts: [] }
         }
 
       case 'first_write_wins':
         // Keep whichever came first
         if (pending.timestamp < incoming.timestamp) {
-          return pending
+          return { action: pending, conflicts: [] }
         } else {
-          this.state.pendingActions = this.state.pendingActions.filter((a) => a.id !== pending.id)
-          return incoming
+          this.removePendingAction(pending.id)
+          return { action: incoming, conflicts: [] }
         }
 
       case 'merge':
-        // For cube updates, try to merge changes
+        // For cube updates, merge the changed fields against the cube before the local update
         if (incoming.type === 'cube_update' && pending.type === 'cube_update') {
-          const mergedChanges = {
-            ...pending.payload.changes,
-            ...incoming.payload.changes,
-          }
-          const mergedAction: CubeUpdateAction = {
-            ...incoming,
-            payload: {
-              ...incoming.payload,
-              changes: mergedChanges,
-            },
-          }
-          this.state.pendingActions = this.state.pendingActions.filter((a) => a.id !== pending.id)
-          return mergedAction
+          const result = this.mergeCubeUpdates(incoming, pending)
+          this.removePendingAction(pending.id)
+          return result
         }
         // For other conflicts, fallback to last_write_wins
         if (incoming.timestamp > pending.timestamp) {
-          this.state.pendingActions = this.state.pendingActions.filter((a) => a.id !== pending.id)
-          return incoming
+          this.removePendingAction(pending.id)
+          return { action: incoming, conflicts: [] }
         }
-        return pending
+        return { action: pending, conflicts: [] }
 
       default:
-        return incoming
+        return { action: incoming, conflicts: [] }
     }
   }
 
@@ -896,6 +1217,9 @@ export class CollaborationManager {
     this.state.pendingActions = this.state.pendingActions.filter(
       (action) => !syncedActionIds.includes(action.id)
     )
+    for (const actionId of syncedActionIds) {
+      this.pendingBaseCubes.delete(actionId)
+    }
     this.saveState()
   }
 
@@ -930,7 +1254,7 @@ export class CollaborationManager {
   /**
    * Emits an event to all listeners
    */
-  private emit(type: CollaborationEventType, data: unknown): void {
+  protected emit(type: CollaborationEventType, data: unknown): void {
     const event: CollaborationEvent = {
       type,
       data,
@@ -984,6 +1308,14 @@ export function canEdit(participant: Participant | null): boolean {
   return participant.role === 'owner' || participant.role === 'editor'
 }
 
+/**
+ * Checks if a participant can comment on cubes
+ */
+export function canComment(participant: Participant | null): boolean {
+  if (!participant) return false
+  return participant.role !== 'viewer'
+}
+
 /**
  * Checks if a participant is the session owner
  */
@@ -1025,6 +1357,8 @@ import type {
   SyncActionMessage,
   FullSyncMessage,
   PresenceUpdateMessage,
+  ErrorMessage,
+  ActionAckedEventData,
 } from '../types/websocket'
 import type { RealtimeClientConfig } from './websocket-client'
 
@@ -1086,10 +1420,16 @@ export class NetworkedCollaborationManager extends CollaborationManager {
 
       const session = this.getSession()
       const localParticipantId = this.getState().localParticipantId
+      const localParticipant = this.getLocalParticipant()
 
       if (session && localParticipantId) {
-        await this.realtimeClient.connect(session.id, localParticipantId, serverUrl)
+        const join = localParticipant
+          ? { sessionCode: session.code, participantName: localParticipant.name }
+          : undefined
+        await this.realtimeClient.connect(session.id, localParticipantId, serverUrl, join)
         this.setConnectionState('connected')
+        // Queue the edits made before connecting
+        await this.syncPendingActions()
       } else {
         throw new Error('Must be in a session to connect')
       }
@@ -1172,6 +1512,11 @@ export class NetworkedCollaborationManager extends CollaborationManager {
       this.handlePresenceUpdate(message)
     })
 
+    // Handle rejected actions and other server errors
+    this.wsClient.onMessage('error', (event) => {
+      this.handleServerError(event.data as ErrorMessage)
+    })
+
     // Handle reconnection
     this.wsClient.on('reconnected', () => {
       this.requestFullSync()
@@ -1194,8 +1539,26 @@ export class NetworkedCollaborationManager extends CollaborationManager {
       this.handleIncomingMessage(message)
     })
 
-    this.realtimeClient.on('reconnected', () => {
-      this.requestFullSync()
+    // The realtime client rejoins, requests a full sync and replays its queue on reconnect
+    this.realtimeClient.on('action_acked', (event) => {
+      const data = event.data as ActionAckedEventData
+      if (!data.success) {
+        console.error('Server rejected action:', data.error)
+        // Over WebSocket the server also sends an error message with the details
+        if (!this.realtimeClient?.isUsingWebSocket()) {
+          this.emit('error', {
+            code: data.code,
+            message: data.error ?? 'Action rejected by server',
+            details: { actionId: data.actionId },
+          })
+        }
+      }
+      this.confirmSyncedActions([data.actionId])
+      if (!data.success) {
+        // The rejected action is no longer pending, so the server's copy reverts its
+        // optimistic update
+        this.requestFullSync()
+      }
     })
   }
 
@@ -1215,9 +1578,21 @@ export class NetworkedCollaborationManager extends CollaborationManager {
       case 'presence_update':
         this.handlePresenceUpdate(message as PresenceUpdateMessage)
         break
+      case 'error':
+        this.handleServerError(message as ErrorMessage)
+        break
     }
   }
 
+  /**
+   * Surfaces a server error, e.g. an action rejected as invalid or not permitted. The
+   * rejected action itself is reverted when its response or acknowledgement arrives
+   */
+  private handleServerError(message: ErrorMessage): void {
+    const { code, message: text, details } = message.payload
+    this.emit('error', { code, message: text, details })
+  }
+
   /**
    * Handles a remote action from another participant
    */
@@ -1237,15 +1612,9 @@ export class NetworkedCollaborationManager extends CollaborationManager {
 
     const session = deserializeSession(message.payload.session)
 
-    // Update local state with server state
-    // This is a simplified version - in production you'd want to merge states
-    const state = this.getState()
-    if (state.session && state.session.id === session.id) {
-      // Preserve local participant
-      const localParticipant = state.session.participants.get(state.localParticipantId!)
-      if (localParticipant) {
-        session.participants.set(state.localParticipantId!, localParticipant)
-      }
+    // Adopt the server state and replay the edits it has not confirmed yet
+    if (this.getSession()?.id === session.id) {
+      this.rebaseSession(session)
     }
   }
 
@@ -1286,7 +1655,9 @@ export class NetworkedCollaborationManager extends CollaborationManager {
     const session = this.getSession()
     if (!session) return
 
-    if (this.wsClient?.isConnected()) {
+    if (this.realtimeClient) {
+      this.realtimeClient.requestFullSync()
+    } else if (this.wsClient?.isConnected()) {
       this.wsClient.requestFullSync(session.id)
     }
   }
@@ -1298,23 +1669,22 @@ export class NetworkedCollaborationManager extends CollaborationManager {
     const session = this.getSession()
     if (!session) return
 
-    if (this.wsClient?.isConnected()) {
+    if (this.realtimeClient) {
+      // Queued until acknowledged, also while offline; confirmed on 'action_acked'
+      this.realtimeClient.sendAction(action)
+    } else if (this.wsClient?.isConnected()) {
       try {
-        await this.wsClient.syncAction(action, session.id)
+        const response = await this.wsClient.syncAction(action, session.id)
+        // Sent before the join completed: it stays pending for the next sync
+        if (response.payload.code === 'NOT_JOINED') return
         this.confirmSyncedActions([action.id])
+        if (!response.payload.success) {
+          // Revert the optimistic update of the rejected action
+          this.requestFullSync()
+        }
       } catch (error) {
         console.error('Failed to sync action:', error)
       }
-    } else if (this.realtimeClient?.isConnected()) {
-      const pollingClient = this.realtimeClient.getPollingClient()
-      if (pollingClient) {
-        try {
-          await pollingClient.sendAction(action)
-          this.confirmSyncedActions([action.id])
-        } catch (error) {
-          console.error('Failed to sync action via polling:', error)
-        }
-      }
     }
   }
 
@@ -1380,8 +1750,21 @@ export class NetworkedCollaborationManager extends CollaborationManager {
   override applyAction(action: CollaborativeAction): ActionResult {
     const result = super.applyAction(action)
 
-    if (result.success && this.networkConfig.autoSyncActions && this.isConnected()) {
-      this.scheduleSyncPendingActions()
+    if (
+      result.success &&
+      this.networkConfig.autoSyncActions &&
+      (this.realtimeClient || this.isConnected())
+    ) {
+      // Locks and comments are not pending edits; send them right away
+      if (
+        action.type === 'cube_lock' ||
+        action.type === 'cube_unlock' ||
+        action.type === 'cube_comment'
+      ) {
+        void this.syncAction(action)
+      } else {
+        this.scheduleSyncPendingActions()
+      }
     }
 
     return result
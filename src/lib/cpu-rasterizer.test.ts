@@ -0,0 +1,237 @@
+/**
+ * Unit tests for the headless CPU rasterizer
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createEnergyCubeShader,
+  createSpectralCubeShader,
+  fftCubeToEnergyConfig,
+  isCubeStackConfig,
+  isFFTCubeConfig,
+  rasterizeCube,
+  renderCubeToDataURL,
+  renderCubeToPNG,
+} from './cpu-rasterizer'
+import type { RasterFragment, RasterImage } from './cpu-rasterizer'
+import type { FFTCubeConfig, SpectralCube } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import stoneMoss from '../../examples/stone-moss.json'
+import stoneWall from '../../examples/stack-stone-wall.json'
+
+const plainRed: SpectralCube = {
+  id: 'plain_red',
+  base: { color: [1, 0, 0], roughness: 0 },
+}
+
+const energyCube: FFTCubeConfig = {
+  id: 'energy_test',
+  is_magical: true,
+  fft_size: 8,
+  energy_capacity: 10,
+  channels: {
+    R: {
+      dcAmplitude: 0.8,
+      dcPhase: 0,
+      coefficients: [{ amplitude: 0.3, phase: 0, freqX: 1, freqY: 0, freqZ: 0 }],
+    },
+    G: { dcAmplitude: 0.2, dcPhase: 0, coefficients: [] },
+    B: { dcAmplitude: 0.6, dcPhase: 0, coefficients: [] },
+  },
+}
+
+/** Fragment on the top face of a unit cube, facing the light */
+const topFragment: RasterFragment = {
+  localPosition: [0, 0.5, 0],
+  worldPosition: [0, 0.5, 0],
+  globalPosition: [0.5, 1, 0.5],
+  normal: [0, 0, 1],
+}
+
+function pixel(image: RasterImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4
+  return Array.from(image.data.subarray(offset, offset + 4))
+}
+
+describe('cpu-rasterizer', () => {
+  describe('type detection', () => {
+    it('should detect stacks, FFT cubes and spectral cubes', () => {
+      expect(isCubeStackConfig(stoneWall as CubeStackConfig)).toBe(true)
+      expect(isFFTCubeConfig(energyCube)).toBe(true)
+      expect(isFFTCubeConfig(plainRed)).toBe(false)
+      expect(isCubeStackConfig(plainRed)).toBe(false)
+    })
+  })
+
+  describe('fftCubeToEnergyConfig', () => {
+    it('should map FFT channels and physics to the energy shader config', () => {
+      const config = fftCubeToEnergyConfig({
+        ...energyCube,
+        physics: { coherence_loss: 0.2, fracture_threshold: 5 },
+      })
+      expect(config.channelR?.dcAmplitude).toBe(0.8)
+      expect(config.channelR?.coefficients).toHaveLength(1)
+      expect(config.channelA).toBeUndefined()
+      expect(config.energyCapacity).toBe(10)
+      expect(config.coherenceLoss).toBe(0.2)
+      expect(config.fractureThreshold).toBe(5)
+    })
+  })
+
+  describe('createSpectralCubeShader', () => {
+    it('should return the base colour scaled by lighting', () => {
+      const color = createSpectralCubeShader(plainRed)(topFragment)
+      expect(color[0]).toBeGreaterThan(0.5)
+      expect(color[1]).toBe(0)
+      expect(color[2]).toBe(0)
+      expect(color[3]).toBe(1)
+    })
+
+    it('should fall back to ambient light on faces turned away from the light', () => {
+      const lit = createSpectralCubeShader(plainRed)(topFragment)
+      const unlit = createSpectralCubeShader(plainRed)({ ...topFragment, normal: [-1, -1, 0] })
+      expect(unlit[0]).toBeCloseTo(0.3, 5) // uAmbientIntensity
+      expect(unlit[0]).toBeLessThan(lit[0])
+    })
+
+    it('should apply gradients along their axis', () => {
+      const shader = createSpectralCubeShader({
+        ...plainRed,
+        base: { color: [0, 0, 0], roughness: 0 },
+        gradients: [{ axis: 'y', factor: 1, color_shift: [0, 1, 0] }],
+        boundary: { mode: 'none' },
+      })
+      const bottom = shader({ ...topFragment, localPosition: [0, -0.5, 0] })
+      const top = shader(topFragment)
+      expect(bottom[1]).toBe(0)
+      expect(top[1]).toBeGreaterThan(0.5)
+    })
+
+    it('should vary with the noise seed', () => {
+      const noisy = (seed: number) =>
+        createSpectralCubeShader({
+          ...plainRed,
+          base: { color: [0.5, 0.5, 0.5] },
+          noise: { type: 'perlin', scale: 4, seed },
+        })({ ...topFragment, localPosition: [-0.13, 0, 0.11], globalPosition: [0.37, 0.5, 0.61] })
+      expect(noisy(1)).toEqual(noisy(1))
+      expect(noisy(1)).not.toEqual(noisy(2))
+    })
+
+    it('should return the unlit albedo when requested', () => {
+      const shader = createSpectralCubeShader(plainRed, { unlit: true })
+      expect(shader(topFragment)).toEqual([1, 0, 0, 1])
+      expect(shader({ ...topFragment, normal: [-1, -1, 0] })).toEqual([1, 0, 0, 1])
+    })
+
+    it('should use the cube transparency as alpha', () => {
+      const color = createSpectralCubeShader({
+        ...plainRed,
+        base: { color: [1, 0, 0], transparency: 0.4 },
+      })(topFragment)
+      expect(color[3]).toBe(0.4)
+    })
+
+    it('should shade each face with its overrides', () => {
+      const shader = createSpectralCubeShader(
+        { ...plainRed, faces: { top: { base: { color: [0, 1, 0] } } } },
+        { unlit: true }
+      )
+      expect(shader(topFragment)).toEqual([0, 1, 0, 1])
+      expect(shader({ ...topFragment, localPosition: [0.5, 0.2, 0] })).toEqual([1, 0, 0, 1])
+    })
+  })
+
+  describe('createEnergyCubeShader', () => {
+    it('should produce tone mapped colours in [0, 1)', () => {
+      const color = createEnergyCubeShader(energyCube)(topFragment)
+      for (let c = 0; c < 3; c++) {
+        expect(color[c]).toBeGreaterThanOrEqual(0)
+        expect(color[c]).toBeLessThan(1)
+      }
+      expect(color[0]).toBeGreaterThan(color[1])
+    })
+
+    it('should animate with time', () => {
+      const still = createEnergyCubeShader(energyCube, { time: 0 })(topFragment)
+      const later = createEnergyCubeShader(energyCube, { time: 1.3 })(topFragment)
+      expect(later).not.toEqual(still)
+    })
+  })
+
+  describe('rasterizeCube', () => {
+    it('should return an RGBA buffer of the requested size', () => {
+      const image = rasterizeCube(plainRed, { width: 32, height: 24 })
+      expect(image.width).toBe(32)
+      expect(image.height).toBe(24)
+      expect(image.data).toHaveLength(32 * 24 * 4)
+    })
+
+    it('should leave corners transparent and draw the cube in the middle', () => {
+      const image = rasterizeCube(plainRed, { width: 32 })
+      expect(pixel(image, 0, 0)).toEqual([0, 0, 0, 0])
+
+      const center = pixel(image, 16, 16)
+      expect(center[3]).toBe(255)
+      expect(center[0]).toBeGreaterThan(0)
+      expect(center[1]).toBe(0)
+    })
+
+    it('should shade the three visible faces differently', () => {
+      const image = rasterizeCube(plainRed, { width: 64, samples: 1 })
+      const top = pixel(image, 32, 14)
+      const left = pixel(image, 20, 40)
+      const right = pixel(image, 44, 40)
+      expect(new Set([top[0], left[0], right[0]]).size).toBe(3)
+    })
+
+    it('should composite over an opaque background', () => {
+      const image = rasterizeCube(plainRed, { width: 16, background: [0, 0, 1, 1] })
+      expect(pixel(image, 0, 0)).toEqual([0, 0, 255, 255])
+    })
+
+    it('should be deterministic', () => {
+      const config = stoneMoss as SpectralCube
+      const a = rasterizeCube(config, { width: 24 })
+      const b = rasterizeCube(config, { width: 24 })
+      expect(Array.from(a.data)).toEqual(Array.from(b.data))
+    })
+
+    it('should render stacks taller than wide', () => {
+      const image = rasterizeCube(stoneWall as CubeStackConfig, { width: 48, samples: 1 })
+      const rowCoverage = (y: number) =>
+        Array.from({ length: image.width }, (_, x) => pixel(image, x, y)[3]).filter((a) => a > 0)
+          .length
+      const columnCoverage = (x: number) =>
+        Array.from({ length: image.height }, (_, y) => pixel(image, x, y)[3]).filter((a) => a > 0)
+          .length
+      expect(columnCoverage(24)).toBeGreaterThan(rowCoverage(24))
+    })
+
+    it('should render FFT cubes', () => {
+      const image = rasterizeCube(energyCube, { width: 16 })
+      expect(pixel(image, 8, 8)[3]).toBeGreaterThan(0)
+    })
+
+    it('should render an empty stack as background only', () => {
+      const empty: CubeStackConfig = { id: 'empty', layers: [], totalHeight: 0 }
+      const image = rasterizeCube(empty, { width: 4, background: [1, 1, 1, 1] })
+      expect(Array.from(image.data).every((v) => v === 255)).toBe(true)
+    })
+  })
+
+  describe('renderCubeToPNG', () => {
+    it('should encode the rasterized image as PNG', () => {
+      const png = renderCubeToPNG(plainRed, { width: 8 })
+      expect(Array.from(png.subarray(1, 4))).toEqual([80, 78, 71]) // "PNG"
+    })
+  })
+
+  describe('renderCubeToDataURL', () => {
+    it('should return the PNG as a data URL', () => {
+      const url = renderCubeToDataURL(plainRed, { width: 8 })
+      expect(url.startsWith('data:image/png;base64,')).toBe(true)
+      expect(atob(url.slice('data:image/png;base64,'.length)).slice(1, 4)).toBe('PNG')
+    })
+  })
+})
@@ -0,0 +1,763 @@
+/**
+ * Headless CPU Rasterizer
+ * Renders isometric previews of cubes without a WebGL context
+ *
+ * Evaluates the colour pipeline of parametric-cube.glsl (base colour, gradients,
+ * seeded noise with region mask or the cube's material graph, neighbour blending,
+ * lighting) and of energy-cube.glsl (FFT wave reconstruction, glow, fracture,
+ * tone mapping) per pixel, using the same uniforms that createUniforms / createEnergyUniforms
+ * produce for the viewport. Runs in Node, workers and vitest.
+ *
+ * Scope: orthographic isometric camera and the shaders' own directional light.
+ * Only the nearest face is shaded per sample; transparent cubes keep their alpha,
+ * but faces behind them are not composited.
+ */
+
+import type { FFTChannel as CubeFFTChannel, FFTCubeConfig, SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import { getLayerYPosition, getStackCenterOffset } from '../types/stack'
+import type { LODLevel } from '../types/lod'
+import { createUniforms, getLODSettings } from './shader-utils'
+import type { CreateUniformsOptions } from './shader-utils'
+import { computeNoise } from './noise'
+import {
+  applyLODToMaterialGraph,
+  createMaterialEvaluator,
+  getGradientFactor,
+  getRegionMask,
+} from './material-graph'
+import type { MaterialEvaluator } from './material-graph'
+import {
+  CUBE_FACES,
+  getCubeFaceAt,
+  hasFaceOverrides,
+  resolveCubeFace,
+  resolveNeighborFaces,
+} from './cube-faces'
+import { encodePNG } from './png-encoder'
+import { createEnergyUniforms } from '../shaders/energy-cube'
+import type { EnergyCubeConfig, FFTChannel as EnergyFFTChannel } from '../shaders/energy-cube'
+
+/** 3D vector as a tuple */
+type Vec3 = [number, number, number]
+
+/** RGBA colour with components in [0, 1] */
+export type RGBA = [number, number, number, number]
+
+/**
+ * Any configuration the rasterizer can draw
+ */
+export type RenderableCube = SpectralCube | FFTCubeConfig | CubeStackConfig
+
+/**
+ * Surface sample passed to a fragment shader
+ * Mirrors the varyings of the cube vertex shaders
+ */
+export interface RasterFragment {
+  /** Local position in the unit cube [-0.5, 0.5] (vPosition) */
+  localPosition: Vec3
+  /** Position in scene units (vWorldPosition) */
+  worldPosition: Vec3
+  /** Grid position + local position + 0.5 (vGlobalPosition) */
+  globalPosition: Vec3
+  /** Surface normal in view space (vNormal) */
+  normal: Vec3
+}
+
+/**
+ * CPU fragment shader: returns the straight (non premultiplied) RGBA colour
+ */
+export type RasterFragmentShader = (fragment: RasterFragment) => RGBA
+
+/**
+ * Options for rasterizing a cube
+ */
+export interface RasterizeOptions {
+  /** Image width in pixels (default: 128) */
+  width?: number
+  /** Image height in pixels (default: width) */
+  height?: number
+  /** Empty margin around the cube as a fraction of the image size (default: 0.1) */
+  padding?: number
+  /** Supersampling per axis for anti-aliasing (default: 2, i.e. 4 samples per pixel) */
+  samples?: number
+  /** Background colour (default: fully transparent) */
+  background?: RGBA
+  /** LOD level applied to the cube uniforms (default: full detail) */
+  lodLevel?: LODLevel
+  /** Animation time in seconds for FFT cubes (default: 0) */
+  time?: number
+}
+
+/**
+ * Options for the SpectralCube CPU shader
+ */
+export interface SpectralCubeShaderOptions extends CreateUniformsOptions {
+  /** Skip lighting and return the surface albedo, e.g. for baking textures */
+  unlit?: boolean
+}
+
+/**
+ * Rasterized image
+ */
+export interface RasterImage {
+  /** Width in pixels */
+  width: number
+  /** Height in pixels */
+  height: number
+  /** RGBA bytes, row-major, top row first */
+  data: Uint8ClampedArray
+}
+
+/**
+ * Axis-aligned box in the scene, shaded by its own fragment shader
+ */
+interface RasterBox {
+  min: Vec3
+  max: Vec3
+  gridPosition: Vec3
+  shader: RasterFragmentShader
+}
+
+/** Default image size */
+const DEFAULT_SIZE = 128
+
+/** Direction toward the isometric camera */
+const VIEW_DIRECTION: Vec3 = normalize([1, 1, 1])
+
+/** Screen-space right axis of the isometric camera */
+const VIEW_RIGHT: Vec3 = normalize([1, 0, -1])
+
+/** Screen-space up axis of the isometric camera */
+const VIEW_UP: Vec3 = normalize([-1, 2, -1])
+
+const TWO_PI = 6.28318530718
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2]
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.sqrt(dot(v, v))
+  return length > 0 ? [v[0] / length, v[1] / length, v[2] / length] : [0, 0, 0]
+}
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+/** GLSL smoothstep */
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
+/** GLSL mix */
+function mix(a: number, b: number, t: number): number {
+  return a * (1 - t) + b * t
+}
+
+/** GLSL fract */
+function fract(x: number): number {
+  return x - Math.floor(x)
+}
+
+/**
+ * Checks whether a configuration is a cube stack
+ */
+export function isCubeStackConfig(config: RenderableCube): config is CubeStackConfig {
+  return Array.isArray((config as CubeStackConfig).layers)
+}
+
+/**
+ * Checks whether a configuration is an FFT (energy) cube
+ */
+export function isFFTCubeConfig(config: RenderableCube): config is FFTCubeConfig {
+  return 'channels' in config && 'fft_size' in config
+}
+
+/**
+ * Converts an FFTCubeConfig into the EnergyCubeConfig consumed by the energy shader
+ */
+export function fftCubeToEnergyConfig(config: FFTCubeConfig): EnergyCubeConfig {
+  const convertChannel = (channel: CubeFFTChannel | undefined): EnergyFFTChannel | undefined =>
+    channel
+      ? {
+          dcAmplitude: channel.dcAmplitude,
+          dcPhase: channel.dcPhase,
+          coefficients: channel.coefficients.map((c) => ({ ...c })),
+        }
+      : undefined
+
+  return {
+    channelR: convertChannel(config.channels.R),
+    channelG: convertChannel(config.channels.G),
+    channelB: convertChannel(config.channels.B),
+    channelA: convertChannel(config.channels.A),
+    energyCapacity: config.energy_capacity,
+    coherenceLoss: config.physics?.coherence_loss,
+    fractureThreshold: config.physics?.fracture_threshold,
+  }
+}
+
+// ============================================================
+// PARAMETRIC CUBE SHADER (parametric-cube.glsl)
+// ============================================================
+
+function getFaceDistance(pos: Vec3, direction: number): number {
+  const axis = direction >> 1
+  return direction % 2 === 0 ? 0.5 - pos[axis] : pos[axis] + 0.5
+}
+
+/**
+ * Creates a CPU fragment shader for a SpectralCube
+ * Accepts the same options as createUniforms (grid position, LOD, neighbours)
+ * and honours face overrides
+ */
+export function createSpectralCubeShader(
+  config: SpectralCube,
+  options: SpectralCubeShaderOptions = {}
+): RasterFragmentShader {
+  // Cubes with face overrides shade every face as its own plain cube
+  if (hasFaceOverrides(config)) {
+    const faceShaders = new Map(
+      CUBE_FACES.map((face) => [
+        face,
+        createSpectralCubeShader(resolveCubeFace(config, face), {
+          ...options,
+          neighbors: resolveNeighborFaces(options.neighbors, face),
+        }),
+      ])
+    )
+    return (fragment) => faceShaders.get(getCubeFaceAt(fragment.localPosition))!(fragment)
+  }
+
+  const { unlit = false, ...uniformOptions } = options
+  const u = createUniforms(config, uniformOptions)
+  const v3 = (value: { x: number; y: number; z: number }): Vec3 => [value.x, value.y, value.z]
+
+  const baseColor = v3(u.uBaseColor.value)
+  const transparency: number = u.uTransparency.value
+  const roughness: number = u.uRoughness.value
+  const gradientCount: number = u.uGradientCount.value
+  const gradientAxis: number[] = u.uGradientAxis.value
+  const gradientFactor: number[] = u.uGradientFactor.value
+  const gradientShift: Vec3[] = u.uGradientColorShift.value.map(v3)
+  const noiseType: number = u.uNoiseType.value
+  const noiseScale: number = u.uNoiseScale.value
+  const noiseOctaves: number = u.uNoiseOctaves.value
+  const noisePersistence: number = u.uNoisePersistence.value
+  const noiseSeed: number = u.uNoiseSeed.value
+  const maskStart: number = u.uNoiseMaskStart.value
+  const maskEnd: number = u.uNoiseMaskEnd.value
+  const maskAxis: number = u.uNoiseMaskAxis.value
+  const lightDirection = normalize(v3(u.uLightDirection.value))
+  const lightColor = v3(u.uLightColor.value)
+  const ambient: number = u.uAmbientIntensity.value
+  const boundaryMode: number = u.uBoundaryMode.value
+  const neighborInfluence: number = u.uNeighborInfluence.value
+  const gridPosition = v3(u.uGridPosition.value)
+  const neighborPresent: number[] = u.uNeighborPresent.value
+  const neighborColor: Vec3[] = u.uNeighborColor.value.map(v3)
+  const neighborNoiseType: number[] = u.uNeighborNoiseType.value
+  const neighborNoiseScale: number[] = u.uNeighborNoiseScale.value
+  const neighborNoiseOctaves: number[] = u.uNeighborNoiseOctaves.value
+  const neighborNoisePersistence: number[] = u.uNeighborNoisePersistence.value
+  const neighborNoiseAmplitude: number[] = u.uNeighborNoiseAmplitude.value
+  const neighborNoiseSeed: number[] = u.uNeighborNoiseSeed.value
+
+  // Material graph, if any; the flat fields below are its preset equivalent
+  const materialGraph = config.material
+    ? applyLODToMaterialGraph(
+        config.material,
+        getLODSettings(uniformOptions.lodLevel, uniformOptions.lodSettings)
+      )
+    : null
+  const computeMaterialColor: MaterialEvaluator = materialGraph
+    ? createMaterialEvaluator(materialGraph, { boundaryMode, neighborInfluence, gridPosition })
+    : ({ localPosition, worldPosition, globalPosition }) => {
+        const color: Vec3 = [...baseColor]
+
+        // Gradients with boundary stitching support
+        for (let i = 0; i < Math.min(gradientCount, 4); i++) {
+          const factor =
+            getGradientFactor(
+              localPosition,
+              globalPosition,
+              gridPosition,
+              gradientAxis[i],
+              boundaryMode,
+              neighborInfluence
+            ) * gradientFactor[i]
+          for (let c = 0; c < 3; c++) color[c] += gradientShift[i][c] * factor
+        }
+
+        // Noise with region mask
+        if (noiseType > 0) {
+          const source = boundaryMode === 0 ? worldPosition : globalPosition
+          const noiseValue = computeNoise(
+            source[0] * noiseScale,
+            source[1] * noiseScale,
+            source[2] * noiseScale,
+            noiseType,
+            noiseOctaves,
+            noisePersistence,
+            noiseSeed
+          )
+
+          const maskFactor = getRegionMask(localPosition, maskAxis, maskStart, maskEnd)
+          const influence = (noiseValue - 0.5) * 0.3 * maskFactor
+          for (let c = 0; c < 3; c++) color[c] += influence
+        }
+
+        return color
+      }
+
+  return ({ localPosition, worldPosition, globalPosition, normal }) => {
+    const color = computeMaterialColor({ localPosition, worldPosition, globalPosition })
+
+    // Edge blending toward neighbouring materials (smooth mode only)
+    if (boundaryMode === 1 && neighborInfluence > 0) {
+      const blendWidth = neighborInfluence * 0.5
+      for (let i = 0; i < 6; i++) {
+        if (neighborPresent[i] < 0.5) continue
+        const dist = getFaceDistance(localPosition, i)
+        if (dist >= blendWidth) continue
+
+        const neighbor: Vec3 = [...neighborColor[i]]
+        if (neighborNoiseType[i] > 0) {
+          const neighborNoise = computeNoise(
+            globalPosition[0] * neighborNoiseScale[i],
+            globalPosition[1] * neighborNoiseScale[i],
+            globalPosition[2] * neighborNoiseScale[i],
+            neighborNoiseType[i],
+            Math.max(neighborNoiseOctaves[i], 1),
+            neighborNoisePersistence[i],
+            neighborNoiseSeed[i]
+          )
+          for (let c = 0; c < 3; c++) {
+            neighbor[c] += (neighborNoise - 0.5) * neighborNoiseAmplitude[i]
+          }
+        }
+
+        const weight = 0.5 * (1 - smoothstep(0, blendWidth, dist))
+        for (let c = 0; c < 3; c++) color[c] = mix(color[c], neighbor[c], weight)
+      }
+    }
+
+    if (unlit) {
+      return [clamp(color[0], 0, 1), clamp(color[1], 0, 1), clamp(color[2], 0, 1), transparency]
+    }
+
+    // Lighting
+    const diffuse = Math.max(dot(normalize(normal), lightDirection), 0)
+    let lighting = ambient + (1 - ambient) * diffuse
+    lighting = mix(lighting, diffuse * 0.8 + 0.2, roughness * 0.3)
+
+    return [
+      clamp(color[0] * lighting * lightColor[0], 0, 1),
+      clamp(color[1] * lighting * lightColor[1], 0, 1),
+      clamp(color[2] * lighting * lightColor[2], 0, 1),
+      transparency,
+    ]
+  }
+}
+
+// ============================================================
+// ENERGY CUBE SHADER (energy-cube.glsl)
+// ============================================================
+
+interface EnergyChannelUniforms {
+  dcAmplitude: number
+  dcPhase: number
+  coeffs: number[][]
+  freqZ: number[]
+  count: number
+}
+
+function reconstructWaveFunction(
+  pos: Vec3,
+  channel: EnergyChannelUniforms,
+  time: number
+): [number, number] {
+  const phase0 = channel.dcPhase + time * 0.5
+  let re = channel.dcAmplitude * Math.cos(phase0)
+  let im = channel.dcAmplitude * Math.sin(phase0)
+
+  for (let i = 0; i < Math.min(channel.count, 8); i++) {
+    const [amplitude, phase, freqX, freqY] = channel.coeffs[i]
+    const freq: Vec3 = [freqX, freqY, channel.freqZ[i]]
+    const omega = Math.sqrt(dot(freq, freq)) * 0.5 + 1
+    const totalPhase =
+      dot(freq, [pos[0] * TWO_PI, pos[1] * TWO_PI, pos[2] * TWO_PI]) + phase + omega * time
+    re += amplitude * Math.cos(totalPhase)
+    im += amplitude * Math.sin(totalPhase)
+  }
+
+  return [re, im]
+}
+
+function calculateFracturePattern(pos: Vec3, energy: number, threshold: number): number {
+  if (threshold <= 0 || energy < threshold * 0.5) return 0
+  const stress = clamp((energy - threshold * 0.5) / (threshold * 0.5), 0, 1)
+  const crackNoise = fract(
+    Math.sin(dot([pos[0] * 20, pos[1] * 20, pos[2] * 20], [12.9898, 78.233, 45.164])) * 43758.5453
+  )
+  return stress * crackNoise
+}
+
+function mapEnergyToColor(energy: RGBA, channelMask: number, energyScale: number): RGBA {
+  const color: RGBA = [0, 0, 0, 0]
+  for (let c = 0; c < 4; c++) {
+    if (channelMask & (1 << c)) color[c] = energy[c] * energyScale
+  }
+  if ((channelMask & 7) === 0 && (channelMask & 8) !== 0) {
+    color[0] = color[1] = color[2] = energy[3] * energyScale
+  }
+  return color
+}
+
+/**
+ * Creates a CPU fragment shader for an FFT (energy) cube
+ */
+export function createEnergyCubeShader(
+  config: FFTCubeConfig,
+  options: Parameters<typeof createEnergyUniforms>[1] = {}
+): RasterFragmentShader {
+  const u = createEnergyUniforms(fftCubeToEnergyConfig(config), options)
+  const value = <T>(name: string): T => u[name].value as T
+
+  const time = value<number>('uTime')
+  const energyScale = value<number>('uEnergyScale')
+  const glowIntensity = value<number>('uGlowIntensity')
+  const dcAmplitude = value<number[]>('uDCAmplitude')
+  const dcPhase = value<number[]>('uDCPhase')
+  const channels: EnergyChannelUniforms[] = (['R', 'G', 'B', 'A'] as const).map((c, i) => ({
+    dcAmplitude: dcAmplitude[i],
+    dcPhase: dcPhase[i],
+    coeffs: value<number[][]>(`uCoeff${c}`),
+    freqZ: value<number[]>(`uCoeff${c}FreqZ`),
+    count: value<number>(`uCoeffCount${c}`),
+  }))
+  const energyCapacity = value<number>('uEnergyCapacity')
+  const coherenceLoss = value<number>('uCoherenceLoss')
+  const fractureThreshold = value<number>('uFractureThreshold')
+  const visualizationMode = value<number>('uVisualizationMode')
+  const channelMask = value<number>('uChannelMask')
+  const lightDirection = normalize(value<Vec3>('uLightDirection'))
+  const lightColor = value<Vec3>('uLightColor')
+  const ambient = value<number>('uAmbientIntensity')
+  const boundaryMode = value<number>('uBoundaryMode')
+  const neighborInfluence = value<number>('uNeighborInfluence')
+
+  return ({ localPosition, globalPosition, normal }) => {
+    const uv: Vec3 = [localPosition[0] + 0.5, localPosition[1] + 0.5, localPosition[2] + 0.5]
+    const global: Vec3 = [
+      fract(globalPosition[0]),
+      fract(globalPosition[1]),
+      fract(globalPosition[2]),
+    ]
+    const samplePos: Vec3 =
+      boundaryMode === 0
+        ? uv
+        : boundaryMode === 1
+          ? [
+              mix(uv[0], global[0], neighborInfluence),
+              mix(uv[1], global[1], neighborInfluence),
+              mix(uv[2], global[2], neighborInfluence),
+            ]
+          : global
+
+    const coherenceFactor = Math.exp(-coherenceLoss * time * 0.01)
+    const psi = channels.map((channel) => {
+      const [re, im] = reconstructWaveFunction(samplePos, channel, time)
+      return [re * coherenceFactor, im * coherenceFactor]
+    })
+
+    const energy = psi.map(([re, im]) => re * re + im * im) as RGBA
+    let totalEnergy = (energy[0] + energy[1] + energy[2] + energy[3]) / 4
+    if (energyCapacity > 0) {
+      for (let c = 0; c < 4; c++) energy[c] /= energyCapacity
+      totalEnergy /= energyCapacity
+    }
+
+    let baseColor: RGBA
+    if (visualizationMode === 0) {
+      baseColor = mapEnergyToColor(energy, channelMask, energyScale)
+    } else if (visualizationMode === 1) {
+      baseColor = mapEnergyToColor(energy.map(Math.sqrt) as RGBA, channelMask, energyScale)
+    } else {
+      const phase = psi.map(([re, im]) => Math.atan2(im, re) / TWO_PI + 0.5) as RGBA
+      baseColor = mapEnergyToColor(phase, channelMask, 1)
+    }
+
+    if (baseColor[3] < 0.1) {
+      baseColor[3] = 0.8 + totalEnergy * 0.2
+    }
+
+    // Glow
+    const glowFactor = totalEnergy * glowIntensity
+    let color: Vec3 = [0, 1, 2].map((c) =>
+      mix(baseColor[c] * (1 + glowFactor * 2), 1, glowFactor * 0.3)
+    ) as Vec3
+
+    // Fracture visualization
+    const fracture = calculateFracturePattern(
+      samplePos,
+      totalEnergy * energyCapacity,
+      fractureThreshold
+    )
+    if (fracture > 0) {
+      const crack: Vec3 = [1, 0.8, 0.3]
+      color = color.map((v, c) => mix(v, crack[c], fracture * 0.8)) as Vec3
+    }
+
+    // Lighting with emission, then HDR tone mapping
+    const diffuse = Math.max(dot(normalize(normal), lightDirection), 0)
+    const emission = totalEnergy * glowIntensity * 0.5
+    const lighting = ambient + (1 - ambient) * diffuse + emission
+
+    return [
+      ...color.map((v, c) => {
+        const lit = v * lighting * lightColor[c]
+        return lit / (1 + lit)
+      }),
+      baseColor[3],
+    ] as RGBA
+  }
+}
+
+// ============================================================
+// SCENE AND RASTERIZATION
+// ============================================================
+
+/**
+ * Applies the stack-level boundary settings to a layer cube, as CubeStack does
+ */
+export function getStackLayerCubeConfig(stack: CubeStackConfig, cube: SpectralCube): SpectralCube {
+  return {
+    ...cube,
+    boundary: {
+      mode: stack.boundaryMode ?? cube.boundary?.mode ?? CUBE_DEFAULTS.boundary.mode,
+      neighbor_influence:
+        stack.neighborInfluence ??
+        cube.boundary?.neighbor_influence ??
+        CUBE_DEFAULTS.boundary.neighbor_influence,
+    },
+  }
+}
+
+/**
+ * Builds the boxes of a renderable cube, centered on the origin like CubePreview and CubeStack
+ */
+function createBoxes(config: RenderableCube, options: RasterizeOptions): RasterBox[] {
+  const { lodLevel, time = 0 } = options
+
+  if (isCubeStackConfig(config)) {
+    const centerOffset = getStackCenterOffset(config)
+    return config.layers.map((layer, index) => {
+      const height = layer.height ?? 1
+      const centerY = getLayerYPosition(config, index) - centerOffset
+      const gridPosition: Vec3 = [0, index, 0]
+      const layerConfig = getStackLayerCubeConfig(config, layer.cubeConfig)
+      return {
+        min: [-0.5, centerY - height / 2, -0.5],
+        max: [0.5, centerY + height / 2, 0.5],
+        gridPosition,
+        shader: createSpectralCubeShader(layerConfig, { gridPosition, lodLevel }),
+      }
+    })
+  }
+
+  const shader = isFFTCubeConfig(config)
+    ? createEnergyCubeShader(config, { time })
+    : createSpectralCubeShader(config, { lodLevel })
+  return [{ min: [-0.5, -0.5, -0.5], max: [0.5, 0.5, 0.5], gridPosition: [0, 0, 0], shader }]
+}
+
+/**
+ * Intersects a ray with a box (slab method)
+ * @returns Distance and entry face normal, or null when the ray misses
+ */
+function intersectBox(
+  origin: Vec3,
+  direction: Vec3,
+  box: RasterBox
+): { t: number; normal: Vec3 } | null {
+  let tNear = -Infinity
+  let tFar = Infinity
+  let entryAxis = 0
+
+  for (let axis = 0; axis < 3; axis++) {
+    const t1 = (box.min[axis] - origin[axis]) / direction[axis]
+    const t2 = (box.max[axis] - origin[axis]) / direction[axis]
+    const tEnter = Math.min(t1, t2)
+    const tExit = Math.max(t1, t2)
+    if (tEnter > tNear) {
+      tNear = tEnter
+      entryAxis = axis
+    }
+    tFar = Math.min(tFar, tExit)
+  }
+
+  if (tNear > tFar || tFar < 0) return null
+
+  const normal: Vec3 = [0, 0, 0]
+  normal[entryAxis] = direction[entryAxis] < 0 ? 1 : -1
+  return { t: tNear, normal }
+}
+
+/**
+ * Shades the nearest box surface along a ray
+ */
+function traceRay(origin: Vec3, direction: Vec3, boxes: RasterBox[]): RGBA | null {
+  let nearest: { t: number; normal: Vec3; box: RasterBox } | null = null
+  for (const box of boxes) {
+    const hit = intersectBox(origin, direction, box)
+    if (hit && (!nearest || hit.t < nearest.t)) {
+      nearest = { ...hit, box }
+    }
+  }
+  if (!nearest) return null
+
+  const { t, normal, box } = nearest
+  const worldPosition: Vec3 = [
+    origin[0] + direction[0] * t,
+    origin[1] + direction[1] * t,
+    origin[2] + direction[2] * t,
+  ]
+  const localPosition = [0, 1, 2].map((axis) => {
+    const size = box.max[axis] - box.min[axis]
+    const center = (box.min[axis] + box.max[axis]) / 2
+    return clamp((worldPosition[axis] - center) / size, -0.5, 0.5)
+  }) as Vec3
+  const globalPosition = localPosition.map((v, axis) => box.gridPosition[axis] + v + 0.5) as Vec3
+
+  return box.shader({
+    localPosition,
+    worldPosition,
+    globalPosition,
+    normal: [dot(normal, VIEW_RIGHT), dot(normal, VIEW_UP), dot(normal, VIEW_DIRECTION)],
+  })
+}
+
+/**
+ * Rasterizes a cube, FFT cube or stack into an RGBA image from an isometric view
+ */
+export function rasterizeCube(config: RenderableCube, options: RasterizeOptions = {}): RasterImage {
+  const width = Math.max(1, Math.round(options.width ?? DEFAULT_SIZE))
+  const height = Math.max(1, Math.round(options.height ?? width))
+  const padding = clamp(options.padding ?? 0.1, 0, 0.45)
+  const samples = Math.max(1, Math.round(options.samples ?? 2))
+  const background = options.background ?? [0, 0, 0, 0]
+
+  const boxes = createBoxes(config, options)
+  const data = new Uint8ClampedArray(width * height * 4)
+
+  if (boxes.length === 0) {
+    for (let i = 0; i < width * height; i++) {
+      data.set(
+        background.map((v) => Math.round(v * 255)),
+        i * 4
+      )
+    }
+    return { width, height, data }
+  }
+
+  // Fit the projected scene bounds into the image
+  let minX = Infinity
+  let maxX = -Infinity
+  let minY = Infinity
+  let maxY = -Infinity
+  let radius = 0
+  for (const box of boxes) {
+    for (let corner = 0; corner < 8; corner++) {
+      const p: Vec3 = [
+        corner & 1 ? box.max[0] : box.min[0],
+        corner & 2 ? box.max[1] : box.min[1],
+        corner & 4 ? box.max[2] : box.min[2],
+      ]
+      const x = dot(p, VIEW_RIGHT)
+      const y = dot(p, VIEW_UP)
+      minX = Math.min(minX, x)
+      maxX = Math.max(maxX, x)
+      minY = Math.min(minY, y)
+      maxY = Math.max(maxY, y)
+      radius = Math.max(radius, Math.sqrt(dot(p, p)))
+    }
+  }
+
+  const pixelsPerUnit = Math.min(
+    (width * (1 - 2 * padding)) / (maxX - minX),
+    (height * (1 - 2 * padding)) / (maxY - minY)
+  )
+  const centerX = (minX + maxX) / 2
+  const centerY = (minY + maxY) / 2
+  const cameraDistance = radius + 1
+  const direction: Vec3 = [-VIEW_DIRECTION[0], -VIEW_DIRECTION[1], -VIEW_DIRECTION[2]]
+  const sampleWeight = 1 / (samples * samples)
+
+  for (let py = 0; py < height; py++) {
+    for (let px = 0; px < width; px++) {
+      // Accumulate premultiplied colour over the supersampling grid
+      const sum = [0, 0, 0, 0]
+      for (let sy = 0; sy < samples; sy++) {
+        for (let sx = 0; sx < samples; sx++) {
+          const screenX = centerX + (px + (sx + 0.5) / samples - width / 2) / pixelsPerUnit
+          const screenY = centerY - (py + (sy + 0.5) / samples - height / 2) / pixelsPerUnit
+          const origin: Vec3 = [0, 1, 2].map(
+            (axis) =>
+              VIEW_RIGHT[axis] * screenX +
+              VIEW_UP[axis] * screenY +
+              VIEW_DIRECTION[axis] * cameraDistance
+          ) as Vec3
+
+          const color = traceRay(origin, direction, boxes)
+          if (!color) continue
+          const alpha = clamp(color[3], 0, 1)
+          for (let c = 0; c < 3; c++) sum[c] += color[c] * alpha * sampleWeight
+          sum[3] += alpha * sampleWeight
+        }
+      }
+
+      // Composite over the background ("over" operator, straight alpha output)
+      const backgroundAlpha = background[3] * (1 - sum[3])
+      const outAlpha = sum[3] + backgroundAlpha
+      const offset = (py * width + px) * 4
+      for (let c = 0; c < 3; c++) {
+        const premultiplied = sum[c] + background[c] * backgroundAlpha
+        data[offset + c] = Math.round((outAlpha > 0 ? premultiplied / outAlpha : 0) * 255)
+      }
+      data[offset + 3] = Math.round(outAlpha * 255)
+    }
+  }
+
+  return { width, height, data }
+}
+
+/**
+ * Rasterizes a cube and encodes it as PNG bytes
+ */
+export function renderCubeToPNG(
+  config: RenderableCube,
+  options: RasterizeOptions = {}
+): Uint8Array {
+  const image = rasterizeCube(config, options)
+  return encodePNG(image.width, image.height, image.data)
+}
+
+/**
+ * Rasterizes a cube and returns it as a PNG data URL, e.g. for <img> previews
+ */
+export function renderCubeToDataURL(
+  config: RenderableCube,
+  options: RasterizeOptions = {}
+): string {
+  const png = renderCubeToPNG(config, options)
+  let binary = ''
+  for (let i = 0; i < png.length; i += 0x8000) {
+    binary += String.fromCharCode(...png.subarray(i, i + 0x8000))
+  }
+  return `data:image/png;base64,${btoa(binary)}`
+}
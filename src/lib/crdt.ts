@@ -0,0 +1,7 @@
+/**
+ * CRDT document for collaborative cube editing
+ * The implementation lives in server/src/crdt.ts so that the client and the server merge
+ * edits with the same code; see that module for the data model.
+ */
+
+export * from '../../server/src/crdt'
@@ -0,0 +1,208 @@
+/**
+ * Unit tests for the semantic diff and three-way merge
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { FFTCubeConfig, SpectralCube } from '../types/cube'
+import { createDefaultFFTCube } from '../types/cube'
+import { createCubeStack, createStackLayer } from '../types/stack'
+import { diffConfigs, formatDiffValue, mergeConfigs, summarizeDiff } from './cube-diff'
+
+const baseCube: SpectralCube = {
+  id: 'diff_cube',
+  base: { color: [0.5, 0.5, 0.5], roughness: 0.5 },
+  gradients: [{ axis: 'y', factor: 0.3, color_shift: [0.1, 0.1, 0.1] }],
+  noise: { type: 'perlin', scale: 8, octaves: 4 },
+  meta: { name: 'Stone', tags: ['rock'] },
+}
+
+function withFFTCoefficients(
+  cube: FFTCubeConfig,
+  coefficients: [number, number, number, number][]
+): FFTCubeConfig {
+  return {
+    ...cube,
+    channels: {
+      ...cube.channels,
+      R: {
+        ...cube.channels.R!,
+        coefficients: coefficients.map(([freqX, freqY, freqZ, amplitude]) => ({
+          amplitude,
+          phase: 0,
+          freqX,
+          freqY,
+          freqZ,
+        })),
+      },
+    },
+  }
+}
+
+describe('cube-diff', () => {
+  describe('diffConfigs', () => {
+    it('should return no changes for equal configurations', () => {
+      expect(diffConfigs(baseCube, { ...baseCube })).toEqual([])
+    })
+
+    it('should report field paths with numeric and colour deltas', () => {
+      const changes = diffConfigs(baseCube, {
+        ...baseCube,
+        base: { color: [0.75, 0.5, 0.25], roughness: 0.25 },
+      })
+
+      expect(changes).toEqual([
+        {
+          kind: 'changed',
+          path: 'base.color',
+          before: [0.5, 0.5, 0.5],
+          after: [0.75, 0.5, 0.25],
+          colorDelta: [0.25, 0, -0.25],
+        },
+        { kind: 'changed', path: 'base.roughness', before: 0.5, after: 0.25, delta: -0.25 },
+      ])
+    })
+
+    it('should report added and removed gradients', () => {
+      const added = diffConfigs(baseCube, {
+        ...baseCube,
+        gradients: [...baseCube.gradients!, { axis: 'x', factor: 1, color_shift: [0, 0, 0.2] }],
+      })
+      expect(added).toEqual([expect.objectContaining({ kind: 'added', path: 'gradients[1]' })])
+
+      const removed = diffConfigs(baseCube, { ...baseCube, gradients: [], noise: undefined })
+      expect(removed.map((change) => [change.kind, change.path])).toEqual([
+        ['removed', 'gradients[0]'],
+        ['removed', 'noise'],
+      ])
+    })
+
+    it('should compare arrays of primitives as one value', () => {
+      const changes = diffConfigs(baseCube, {
+        ...baseCube,
+        meta: { name: 'Stone', tags: ['rock', 'grey'] },
+      })
+      expect(changes).toEqual([
+        { kind: 'changed', path: 'meta.tags', before: ['rock'], after: ['rock', 'grey'] },
+      ])
+    })
+
+    it('should match FFT coefficients by frequency', () => {
+      const fft = createDefaultFFTCube('energy')
+      const before = withFFTCoefficients(fft, [
+        [1, 0, 0, 0.5],
+        [0, 1, 0, 0.3],
+      ])
+      const after = withFFTCoefficients(fft, [
+        [0, 1, 0, 0.4],
+        [0, 0, 2, 0.1],
+      ])
+
+      expect(diffConfigs(before, after).map((change) => [change.kind, change.path])).toEqual([
+        ['removed', 'channels.R.coefficients[1,0,0]'],
+        ['changed', 'channels.R.coefficients[0,1,0].amplitude'],
+        ['added', 'channels.R.coefficients[0,0,2]'],
+      ])
+    })
+
+    it('should match stack layers by id', () => {
+      const top = createStackLayer('top', baseCube, 'top')
+      const bottom = createStackLayer('bottom', baseCube, 'bottom')
+      const before = createCubeStack('tower', [bottom, top])
+      const after = {
+        ...before,
+        layers: [
+          before.layers[0],
+          { ...before.layers[1], cubeConfig: { ...baseCube, base: { color: [1, 0, 0] } } },
+        ],
+      } as typeof before
+
+      expect(diffConfigs(before, after).map((change) => change.path)).toEqual([
+        'layers[top].cubeConfig.base.color',
+        'layers[top].cubeConfig.base.roughness',
+      ])
+    })
+  })
+
+  describe('summarizeDiff / formatDiffValue', () => {
+    it('should count changes by kind', () => {
+      expect(summarizeDiff([])).toBe('No changes')
+      expect(
+        summarizeDiff(diffConfigs(baseCube, { ...baseCube, gradients: [], prompt: 'stone' }))
+      ).toBe('1 added, 1 removed')
+    })
+
+    it('should format values compactly', () => {
+      expect(formatDiffValue(0.123456)).toBe('0.123')
+      expect(formatDiffValue([0.5, 1, 0])).toBe('[0.5, 1, 0]')
+      expect(formatDiffValue(baseCube.gradients)).toBe('[1 items]')
+      expect(formatDiffValue(undefined)).toBe('—')
+    })
+  })
+
+  describe('mergeConfigs', () => {
+    it('should keep changes to different fields from both sides', () => {
+      const ours: SpectralCube = { ...baseCube, base: { ...baseCube.base, roughness: 0.9 } }
+      const theirs: SpectralCube = { ...baseCube, base: { ...baseCube.base, color: [1, 0, 0] } }
+
+      const { merged, conflicts } = mergeConfigs(baseCube, ours, theirs)
+      expect(conflicts).toEqual([])
+      expect(merged.base).toEqual({ color: [1, 0, 0], roughness: 0.9 })
+      expect(merged.noise).toEqual(baseCube.noise)
+    })
+
+    it('should mark fields changed differently on both sides as conflicts', () => {
+      const ours = { ...baseCube, noise: { ...baseCube.noise!, scale: 10 } }
+      const theirs = { ...baseCube, noise: { ...baseCube.noise!, scale: 12, octaves: 6 } }
+
+      const result = mergeConfigs(baseCube, ours, theirs)
+      expect(result.conflicts).toEqual([
+        { path: 'noise.scale', base: 8, ours: 10, theirs: 12, resolution: 'ours' },
+      ])
+      expect(result.merged.noise).toEqual({ type: 'perlin', scale: 10, octaves: 6 })
+
+      expect(mergeConfigs(baseCube, ours, theirs, { prefer: 'theirs' }).merged.noise?.scale).toBe(
+        12
+      )
+      expect(
+        mergeConfigs(baseCube, ours, theirs, { resolutions: { 'noise.scale': 'theirs' } }).merged
+          .noise?.scale
+      ).toBe(12)
+    })
+
+    it('should merge keyed array items added and removed on either side', () => {
+      const fft = createDefaultFFTCube('energy')
+      const base = withFFTCoefficients(fft, [
+        [1, 0, 0, 0.5],
+        [0, 1, 0, 0.3],
+      ])
+      const ours = withFFTCoefficients(fft, [
+        [1, 0, 0, 0.5],
+        [0, 1, 0, 0.3],
+        [2, 0, 0, 0.2],
+      ])
+      const theirs = withFFTCoefficients(fft, [[0, 1, 0, 0.6]])
+
+      const { merged, conflicts } = mergeConfigs(base, ours, theirs)
+      expect(conflicts).toEqual([])
+      expect(
+        merged.channels.R!.coefficients.map((c) => [c.freqX, c.freqY, c.freqZ, c.amplitude])
+      ).toEqual([
+        [0, 1, 0, 0.6],
+        [2, 0, 0, 0.2],
+      ])
+    })
+
+    it('should report an item removed on one side and changed on the other', () => {
+      const ours = { ...baseCube, gradients: [] }
+      const theirs = {
+        ...baseCube,
+        gradients: [{ ...baseCube.gradients![0], factor: 0.8 }],
+      }
+
+      const result = mergeConfigs(baseCube, ours, theirs)
+      expect(result.conflicts).toHaveLength(1)
+      expect(result.conflicts[0]).toMatchObject({ path: 'gradients', resolution: 'ours' })
+      expect(result.merged.gradients).toEqual([])
+    })
+  })
+})
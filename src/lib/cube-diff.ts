@@ -0,0 +1,352 @@
+/**
+ * Semantic diff and three-way merge for cube configurations
+ * Compares SpectralCube, CubeStackConfig and FFTCubeConfig documents field by field.
+ *
+ * Array items are matched by identity where the configuration has one: stack layers by
+ * their id, FFT coefficients by their frequency (freqX, freqY, freqZ). Other arrays of
+ * objects (gradients) are matched by index, and arrays of primitives (colours, vectors,
+ * tags) are compared as one value.
+ *
+ * Paths are dotted field paths with the item key in brackets, e.g. "gradients[1].factor",
+ * "layers[top].cubeConfig.base.color" or "channels.R.coefficients[1,0,0].amplitude"
+ */
+
+import type { Color3, FFTCubeConfig, SpectralCube } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import { jsonEqual } from './json-patch'
+
+/** Configuration types the diff understands */
+export type DiffableConfig = SpectralCube | CubeStackConfig | FFTCubeConfig
+
+/** Kind of a single difference */
+export type DiffChangeKind = 'added' | 'removed' | 'changed'
+
+/**
+ * One difference between two configurations
+ */
+export interface DiffChange {
+  /** What happened to the value */
+  kind: DiffChangeKind
+  /** Field path, e.g. "gradients[1].factor" */
+  path: string
+  /** Value in the first configuration (undefined when added) */
+  before?: unknown
+  /** Value in the second configuration (undefined when removed) */
+  after?: unknown
+  /** Numeric difference (after - before) for changed numbers */
+  delta?: number
+  /** Per-channel difference (after - before) for changed RGB colours */
+  colorDelta?: Color3
+}
+
+/** Side a merge conflict is resolved to */
+export type MergeSide = 'ours' | 'theirs'
+
+/**
+ * A field both sides changed differently. The merged result holds the value of `resolution`
+ */
+export interface MergeConflict {
+  /** Field path, e.g. "base.color" */
+  path: string
+  /** Value in the common ancestor (undefined when absent) */
+  base: unknown
+  /** Our value (undefined when we removed it) */
+  ours: unknown
+  /** Their value (undefined when they removed it) */
+  theirs: unknown
+  /** Side the merged result took */
+  resolution: MergeSide
+}
+
+/**
+ * Options for mergeConfigs
+ */
+export interface MergeOptions {
+  /** Side taken for conflicts without an explicit resolution (default: 'ours') */
+  prefer?: MergeSide
+  /** Per-conflict resolutions keyed by conflict path */
+  resolutions?: Record<string, MergeSide>
+}
+
+/**
+ * Result of a three-way merge
+ */
+export interface MergeResult<T> {
+  /** Merged configuration */
+  merged: T
+  /** Conflicts, in document order */
+  conflicts: MergeConflict[]
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isPrimitiveArray(value: unknown[]): boolean {
+  return value.every((item) => typeof item !== 'object' || item === null)
+}
+
+/**
+ * Joins a field path with an object key or an array item key
+ */
+function joinPath(path: string, key: string, isItem = false): string {
+  if (isItem) return `${path}[${key}]`
+  return path ? `${path}.${key}` : key
+}
+
+/**
+ * Returns the identity key of an array item: stack layers and other items with an id use
+ * the id, FFT coefficients their frequency
+ */
+function getItemKey(item: unknown): string | null {
+  if (!isPlainObject(item)) return null
+  if (typeof item.id === 'string') return item.id
+  if (
+    typeof item.freqX === 'number' &&
+    typeof item.freqY === 'number' &&
+    typeof item.freqZ === 'number'
+  ) {
+    return `${item.freqX},${item.freqY},${item.freqZ}`
+  }
+  return null
+}
+
+/**
+ * Keys every item of the arrays by identity, or returns null when an item has no key
+ * or two items share one (the arrays are then matched by index)
+ */
+function keyArrayItems(...arrays: unknown[][]): Map<string, unknown>[] | null {
+  const keyed: Map<string, unknown>[] = []
+  for (const array of arrays) {
+    const items = new Map<string, unknown>()
+    for (const item of array) {
+      const key = getItemKey(item)
+      if (key === null || items.has(key)) return null
+      items.set(key, item)
+    }
+    keyed.push(items)
+  }
+  return keyed
+}
+
+/**
+ * Returns the union of the keys, in order of first appearance
+ */
+function unionKeys(...keyLists: Iterable<string>[]): string[] {
+  const keys = new Set<string>()
+  for (const list of keyLists) {
+    for (const key of list) keys.add(key)
+  }
+  return Array.from(keys)
+}
+
+function isColor(path: string, value: unknown): value is Color3 {
+  return (
+    /colou?r/i.test(path.slice(path.lastIndexOf('.') + 1)) &&
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((channel) => typeof channel === 'number')
+  )
+}
+
+// ============================================================================
+// Diff
+// ============================================================================
+
+function diffValues(before: unknown, after: unknown, path: string, changes: DiffChange[]): void {
+  if (jsonEqual(before, after)) return
+
+  if (before === undefined) {
+    changes.push({ kind: 'added', path, after })
+    return
+  }
+  if (after === undefined) {
+    changes.push({ kind: 'removed', path, before })
+    return
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    for (const key of unionKeys(Object.keys(before), Object.keys(after))) {
+      diffValues(before[key], after[key], joinPath(path, key), changes)
+    }
+    return
+  }
+
+  if (
+    Array.isArray(before) &&
+    Array.isArray(after) &&
+    !(isPrimitiveArray(before) && isPrimitiveArray(after))
+  ) {
+    const keyed = keyArrayItems(before, after)
+    if (keyed) {
+      const [beforeItems, afterItems] = keyed
+      for (const key of unionKeys(beforeItems.keys(), afterItems.keys())) {
+        diffValues(beforeItems.get(key), afterItems.get(key), joinPath(path, key, true), changes)
+      }
+    } else {
+      for (let i = 0; i < Math.max(before.length, after.length); i++) {
+        diffValues(before[i], after[i], joinPath(path, String(i), true), changes)
+      }
+    }
+    return
+  }
+
+  const change: DiffChange = { kind: 'changed', path, before, after }
+  if (typeof before === 'number' && typeof after === 'number') {
+    change.delta = after - before
+  } else if (isColor(path, before) && isColor(path, after)) {
+    change.colorDelta = [after[0] - before[0], after[1] - before[1], after[2] - before[2]]
+  }
+  changes.push(change)
+}
+
+/**
+ * Lists the differences between two configurations
+ * @param before - First configuration
+ * @param after - Second configuration
+ * @returns Changes in document order; empty when the configurations are equal
+ */
+export function diffConfigs(before: DiffableConfig, after: DiffableConfig): DiffChange[] {
+  const changes: DiffChange[] = []
+  diffValues(before, after, '', changes)
+  return changes
+}
+
+/**
+ * Summarises a diff, e.g. "3 changed, 1 added" or "No changes"
+ */
+export function summarizeDiff(changes: DiffChange[]): string {
+  const counts: Record<DiffChangeKind, number> = { changed: 0, added: 0, removed: 0 }
+  for (const change of changes) counts[change.kind]++
+  const parts = (Object.keys(counts) as DiffChangeKind[])
+    .filter((kind) => counts[kind] > 0)
+    .map((kind) => `${counts[kind]} ${kind}`)
+  return parts.length > 0 ? parts.join(', ') : 'No changes'
+}
+
+/**
+ * Formats a diff value for display
+ */
+export function formatDiffValue(value: unknown): string {
+  if (value === undefined) return '—'
+  if (typeof value === 'number') return String(Number(value.toFixed(3)))
+  if (Array.isArray(value)) {
+    return isPrimitiveArray(value)
+      ? `[${value.map(formatDiffValue).join(', ')}]`
+      : `[${value.length} items]`
+  }
+  if (isPlainObject(value)) return '{…}'
+  return String(value)
+}
+
+// ============================================================================
+// Three-way merge
+// ============================================================================
+
+interface MergeContext {
+  options: MergeOptions
+  conflicts: MergeConflict[]
+}
+
+function resolveConflict(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string,
+  context: MergeContext
+): unknown {
+  const resolution = context.options.resolutions?.[path] ?? context.options.prefer ?? 'ours'
+  context.conflicts.push({ path, base, ours, theirs, resolution })
+  return resolution === 'ours' ? ours : theirs
+}
+
+function mergeArrays(
+  base: unknown[],
+  ours: unknown[],
+  theirs: unknown[],
+  path: string,
+  context: MergeContext
+): unknown[] | undefined {
+  const keyed = keyArrayItems(base, ours, theirs)
+  if (keyed) {
+    // Our order first, then the items only they added
+    const [baseItems, ourItems, theirItems] = keyed
+    const merged: unknown[] = []
+    for (const key of unionKeys(ourItems.keys(), theirItems.keys(), baseItems.keys())) {
+      const item = mergeValues(
+        baseItems.get(key),
+        ourItems.get(key),
+        theirItems.get(key),
+        joinPath(path, key, true),
+        context
+      )
+      if (item !== undefined) merged.push(item)
+    }
+    return merged
+  }
+
+  if (base.length === ours.length && base.length === theirs.length) {
+    return base.map((item, i) =>
+      mergeValues(item, ours[i], theirs[i], joinPath(path, String(i), true), context)
+    )
+  }
+
+  return undefined
+}
+
+function mergeValues(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string,
+  context: MergeContext
+): unknown {
+  if (jsonEqual(ours, theirs)) return ours
+  if (jsonEqual(base, ours)) return theirs
+  if (jsonEqual(base, theirs)) return ours
+
+  if (isPlainObject(base) && isPlainObject(ours) && isPlainObject(theirs)) {
+    const merged: Record<string, unknown> = {}
+    for (const key of unionKeys(Object.keys(ours), Object.keys(theirs), Object.keys(base))) {
+      const value = mergeValues(base[key], ours[key], theirs[key], joinPath(path, key), context)
+      if (value !== undefined) merged[key] = value
+    }
+    return merged
+  }
+
+  if (
+    Array.isArray(base) &&
+    Array.isArray(ours) &&
+    Array.isArray(theirs) &&
+    !isPrimitiveArray([...base, ...ours, ...theirs])
+  ) {
+    const merged = mergeArrays(base, ours, theirs, path, context)
+    if (merged) return merged
+  }
+
+  return resolveConflict(base, ours, theirs, path, context)
+}
+
+/**
+ * Merges two edited versions of a configuration with their common ancestor.
+ * Changes made on one side only are kept; fields both sides changed differently are
+ * conflicts, resolved to `options.resolutions[path]` or `options.prefer`
+ * @param base - Common ancestor
+ * @param ours - Our version
+ * @param theirs - Their version
+ * @param options - Conflict resolution
+ */
+export function mergeConfigs<T extends DiffableConfig>(
+  base: T,
+  ours: T,
+  theirs: T,
+  options: MergeOptions = {}
+): MergeResult<T> {
+  const context: MergeContext = { options, conflicts: [] }
+  const merged = mergeValues(base, ours, theirs, '', context) as T
+  return { merged, conflicts: context.conflicts }
+}
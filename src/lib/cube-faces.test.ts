@@ -0,0 +1,75 @@
+/**
+ * Unit tests for per-face cube overrides
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getCubeFaceAt,
+  hasFaceOverrides,
+  resolveCubeFace,
+  resolveNeighborFaces,
+} from './cube-faces'
+import type { SpectralCube } from '../types/cube'
+
+const grassBlock: SpectralCube = {
+  id: 'grass_block',
+  base: { color: [0.45, 0.3, 0.2], roughness: 0.9 },
+  gradients: [{ axis: 'y', factor: 0.2, color_shift: [0.1, 0.1, 0] }],
+  noise: { type: 'perlin', scale: 8, mask: 'bottom_40%' },
+  faces: {
+    top: { base: { color: [0.3, 0.6, 0.2] }, gradients: [], noise: { type: 'worley' } },
+    sides: { noise: { mask: 'top_25%' } },
+    front: { base: { roughness: 0.2 } },
+  },
+}
+
+describe('cube-faces', () => {
+  describe('hasFaceOverrides', () => {
+    it('should detect cubes with at least one override', () => {
+      expect(hasFaceOverrides(grassBlock)).toBe(true)
+      expect(hasFaceOverrides({ ...grassBlock, faces: {} })).toBe(false)
+      expect(hasFaceOverrides({ ...grassBlock, faces: undefined })).toBe(false)
+    })
+  })
+
+  describe('resolveCubeFace', () => {
+    it('should merge base and noise fields and replace gradients', () => {
+      const top = resolveCubeFace(grassBlock, 'top')
+      expect(top.base).toEqual({ color: [0.3, 0.6, 0.2], roughness: 0.9 })
+      expect(top.gradients).toEqual([])
+      expect(top.noise).toEqual({ type: 'worley', scale: 8, mask: 'bottom_40%' })
+      expect(top.faces).toBeUndefined()
+    })
+
+    it('should apply sides before single side faces', () => {
+      const front = resolveCubeFace(grassBlock, 'front')
+      expect(front.noise?.mask).toBe('top_25%')
+      expect(front.base).toEqual({ color: [0.45, 0.3, 0.2], roughness: 0.2 })
+      expect(resolveCubeFace(grassBlock, 'left').base.roughness).toBe(0.9)
+      expect(resolveCubeFace(grassBlock, 'sides').base.roughness).toBe(0.9)
+    })
+
+    it('should leave faces without overrides unchanged', () => {
+      expect(resolveCubeFace(grassBlock, 'bottom')).toEqual({ ...grassBlock, faces: undefined })
+    })
+  })
+
+  describe('resolveNeighborFaces', () => {
+    it('should resolve every neighbour to the same face', () => {
+      const neighbors = resolveNeighborFaces({ x: grassBlock }, 'top')
+      expect(neighbors?.x?.base.color).toEqual([0.3, 0.6, 0.2])
+      expect(resolveNeighborFaces(undefined, 'top')).toBeUndefined()
+    })
+  })
+
+  describe('getCubeFaceAt', () => {
+    it('should pick the face of the farthest axis', () => {
+      expect(getCubeFaceAt([0.1, 0.5, -0.2])).toBe('top')
+      expect(getCubeFaceAt([0.1, -0.5, -0.2])).toBe('bottom')
+      expect(getCubeFaceAt([0.5, 0.2, 0.3])).toBe('right')
+      expect(getCubeFaceAt([-0.5, 0.2, 0.3])).toBe('left')
+      expect(getCubeFaceAt([0.1, 0.2, 0.5])).toBe('back')
+      expect(getCubeFaceAt([0.1, 0.2, -0.5])).toBe('front')
+    })
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Per-face cube overrides
+ * Resolves the `faces` overrides of a SpectralCube into one plain cube per face,
+ * so the shader uniforms, LOD simplifications and CPU rasterizer can treat every
+ * face as an ordinary cube
+ */
+
+import type {
+  CubeFace,
+  CubeFaceOverride,
+  CubeFaceTarget,
+  NeighborDirection,
+  SpectralCube,
+} from '../types/cube'
+
+/** 3D vector as a tuple */
+type Vec3 = [number, number, number]
+
+/** All faces of a cube */
+export const CUBE_FACES: CubeFace[] = ['top', 'bottom', 'left', 'right', 'front', 'back']
+
+/** Faces in the material group order of THREE.BoxGeometry (+X, -X, +Y, -Y, +Z, -Z) */
+export const BOX_GEOMETRY_FACES: CubeFace[] = ['right', 'left', 'top', 'bottom', 'back', 'front']
+
+/** Faces covered by the 'sides' override */
+const SIDE_FACES: CubeFace[] = ['left', 'right', 'front', 'back']
+
+/** Face whose outward normal points toward each neighbour */
+export const NEIGHBOR_FACES: Record<NeighborDirection, CubeFace> = {
+  x: 'right',
+  '-x': 'left',
+  y: 'top',
+  '-y': 'bottom',
+  z: 'back',
+  '-z': 'front',
+}
+
+/**
+ * Checks whether a cube has any face override
+ */
+export function hasFaceOverrides(cube: SpectralCube): boolean {
+  return Object.values(cube.faces ?? {}).some((override) => override !== undefined)
+}
+
+/**
+ * Merges one override over a cube
+ */
+function applyFaceOverride(
+  cube: SpectralCube,
+  override: CubeFaceOverride | undefined
+): SpectralCube {
+  if (!override) return cube
+  return {
+    ...cube,
+    base: override.base ? { ...cube.base, ...override.base } : cube.base,
+    gradients: override.gradients ?? cube.gradients,
+    noise: override.noise ? { ...cube.noise, ...override.noise } : cube.noise,
+  }
+}
+
+/**
+ * Returns the cube as seen on one face (or on all sides): the cube-wide fields
+ * with the 'sides' override and then the face's own override merged in.
+ * The result has no `faces` field.
+ */
+export function resolveCubeFace(cube: SpectralCube, target: CubeFaceTarget): SpectralCube {
+  const { faces, ...plain } = cube
+  if (!faces) return plain
+
+  const isSide = target === 'sides' || SIDE_FACES.includes(target)
+  const withSides = isSide ? applyFaceOverride(plain, faces.sides) : plain
+  return target === 'sides' ? withSides : applyFaceOverride(withSides, faces[target])
+}
+
+/**
+ * Resolves neighbour cubes to the given face, so edge blending on a face
+ * blends toward the same face of the neighbours
+ */
+export function resolveNeighborFaces(
+  neighbors: Partial<Record<NeighborDirection, SpectralCube>> | undefined,
+  face: CubeFace
+): Partial<Record<NeighborDirection, SpectralCube>> | undefined {
+  if (!neighbors) return undefined
+  const resolved: Partial<Record<NeighborDirection, SpectralCube>> = {}
+  for (const [direction, neighbor] of Object.entries(neighbors)) {
+    if (neighbor) resolved[direction as NeighborDirection] = resolveCubeFace(neighbor, face)
+  }
+  return resolved
+}
+
+/**
+ * Face of the unit cube that a local surface position [-0.5, 0.5] lies on
+ * (the axis farthest from the centre; ties go to Y, then X)
+ */
+export function getCubeFaceAt(localPosition: Vec3): CubeFace {
+  const [x, y, z] = localPosition.map(Math.abs)
+  if (y >= x && y >= z) return localPosition[1] >= 0 ? 'top' : 'bottom'
+  if (x >= z) return localPosition[0] >= 0 ? 'right' : 'left'
+  return localPosition[2] >= 0 ? 'back' : 'front'
+}
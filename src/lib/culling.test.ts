@@ -0,0 +1,106 @@
+/**
+ * Unit tests for visibility culling
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import type { SpectralCube } from '../types/cube'
+import {
+  createCameraFrustum,
+  cullCubes,
+  findOccludedCubes,
+  isCubeInFrustum,
+  isOpaqueCube,
+} from './culling'
+import type { CullableCube } from './culling'
+
+const stone: SpectralCube = { id: 'stone', base: { color: [0.5, 0.5, 0.5] } }
+const glass: SpectralCube = { id: 'glass', base: { color: [0.8, 0.9, 1], transparency: 0.4 } }
+
+function block(size: number, configAt: (x: number, y: number, z: number) => SpectralCube) {
+  const cubes: CullableCube[] = []
+  for (let x = 0; x < size; x++) {
+    for (let y = 0; y < size; y++) {
+      for (let z = 0; z < size; z++) {
+        cubes.push({
+          key: `${x}-${y}-${z}`,
+          config: configAt(x, y, z),
+          gridPosition: [x, y, z],
+          position: [x, y, z],
+        })
+      }
+    }
+  }
+  return cubes
+}
+
+function lookingDownNegativeZ(): THREE.PerspectiveCamera {
+  const camera = new THREE.PerspectiveCamera(60, 1, 0.1, 100)
+  camera.position.set(0, 0, 10)
+  camera.lookAt(0, 0, 0)
+  camera.updateMatrixWorld()
+  return camera
+}
+
+describe('culling', () => {
+  describe('occlusion', () => {
+    it('should treat cubes without transparency as opaque', () => {
+      expect(isOpaqueCube(stone)).toBe(true)
+      expect(isOpaqueCube(glass)).toBe(false)
+    })
+
+    it('should find cubes enclosed by opaque neighbours', () => {
+      expect(findOccludedCubes(block(3, () => stone))).toEqual(new Set(['1-1-1']))
+      // 4×4×4 has a 2×2×2 core
+      expect(findOccludedCubes(block(4, () => stone)).size).toBe(8)
+    })
+
+    it('should keep cubes visible through a transparent neighbour', () => {
+      const cubes = block(3, (x, y, z) => (x === 2 && y === 1 && z === 1 ? glass : stone))
+      expect(findOccludedCubes(cubes).size).toBe(0)
+
+      // A transparent cube is still hidden when its own neighbours are opaque
+      const core = block(3, (x, y, z) => (x === 1 && y === 1 && z === 1 ? glass : stone))
+      expect(findOccludedCubes(core)).toEqual(new Set(['1-1-1']))
+    })
+  })
+
+  describe('frustum', () => {
+    it('should test cube bounds against the camera frustum', () => {
+      const frustum = createCameraFrustum(lookingDownNegativeZ())
+
+      expect(isCubeInFrustum(frustum, [0, 0, 0])).toBe(true)
+      expect(isCubeInFrustum(frustum, [0, 0, 20])).toBe(false)
+      expect(isCubeInFrustum(frustum, [20, 0, 0])).toBe(false)
+      // A large cube reaches into view from outside
+      expect(isCubeInFrustum(frustum, [20, 0, 0], 40)).toBe(true)
+      expect(isCubeInFrustum(frustum, [20, 0, 0], [40, 1, 1])).toBe(true)
+    })
+  })
+
+  describe('cullCubes', () => {
+    it('should split cubes into visible, occluded and frustum-culled', () => {
+      const cubes = block(3, () => stone)
+      const behind: CullableCube = {
+        key: 'behind',
+        config: stone,
+        gridPosition: [10, 10, 10],
+        position: [0, 0, 20],
+      }
+
+      const result = cullCubes([...cubes, behind], {
+        occluded: findOccludedCubes(cubes),
+        frustum: createCameraFrustum(lookingDownNegativeZ()),
+      })
+
+      expect(result.visible).toHaveLength(26)
+      expect(result.frustumCulled).toEqual(new Set(['behind']))
+      expect(result.counts).toEqual({ occludedCubes: 1, frustumCulledCubes: 1 })
+    })
+
+    it('should keep every cube without culling options', () => {
+      const cubes = block(2, () => stone)
+      expect(cullCubes(cubes).visible).toEqual(cubes)
+    })
+  })
+})
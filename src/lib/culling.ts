@@ -0,0 +1,162 @@
+/**
+ * Visibility Culling for Cube Grids
+ * Finds cubes that cannot be seen, so they can be skipped by the LOD system and the renderer:
+ * - Occlusion: a cube whose six neighbours are all opaque (transparency ≥ 1) is enclosed
+ *   in a solid volume
+ * - Frustum: a cube whose bounding box lies outside the camera frustum
+ */
+
+import * as THREE from 'three'
+import type { SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+
+/**
+ * A grid cube considered for culling
+ */
+export interface CullableCube {
+  /** Unique key of the cube */
+  key: string
+  /** Cube configuration */
+  config: SpectralCube
+  /** Integer grid position; neighbours differ by one on a single axis */
+  gridPosition: [number, number, number]
+  /** World position of the cube centre */
+  position: [number, number, number]
+  /** Uniform or per-axis size in world units (default: 1) */
+  size?: number | [number, number, number]
+}
+
+/**
+ * Numbers of culled cubes, reported in LODStatistics
+ */
+export interface CullingCounts {
+  /** Cubes enclosed by opaque neighbours */
+  occludedCubes: number
+  /** Cubes outside the camera frustum */
+  frustumCulledCubes: number
+}
+
+/**
+ * Options for cullCubes
+ */
+export interface CullingOptions {
+  /** Keys of occluded cubes (see findOccludedCubes); none when omitted */
+  occluded?: ReadonlySet<string>
+  /** Camera frustum (see createCameraFrustum); no frustum culling when omitted */
+  frustum?: THREE.Frustum
+}
+
+/**
+ * Result of cullCubes
+ */
+export interface CullingResult<T extends CullableCube> {
+  /** Cubes that may be visible, in input order */
+  visible: T[]
+  /** Keys of cubes outside the frustum */
+  frustumCulled: Set<string>
+  /** Culling counts */
+  counts: CullingCounts
+}
+
+/** Offsets of the six face neighbours */
+const NEIGHBOR_OFFSETS: [number, number, number][] = [
+  [1, 0, 0],
+  [-1, 0, 0],
+  [0, 1, 0],
+  [0, -1, 0],
+  [0, 0, 1],
+  [0, 0, -1],
+]
+
+function cellKey([x, y, z]: [number, number, number]): string {
+  return `${x},${y},${z}`
+}
+
+/**
+ * Checks whether a cube hides what is behind it
+ */
+export function isOpaqueCube(config: SpectralCube): boolean {
+  return (config.base.transparency ?? CUBE_DEFAULTS.base.transparency) >= 1
+}
+
+/**
+ * Finds cubes whose six neighbours are all opaque
+ * @returns Keys of the occluded cubes
+ */
+export function findOccludedCubes(cubes: CullableCube[]): Set<string> {
+  const opaqueCells = new Set<string>()
+  for (const cube of cubes) {
+    if (isOpaqueCube(cube.config)) opaqueCells.add(cellKey(cube.gridPosition))
+  }
+
+  const occluded = new Set<string>()
+  for (const cube of cubes) {
+    const [x, y, z] = cube.gridPosition
+    const enclosed = NEIGHBOR_OFFSETS.every(([dx, dy, dz]) =>
+      opaqueCells.has(cellKey([x + dx, y + dy, z + dz]))
+    )
+    if (enclosed) occluded.add(cube.key)
+  }
+  return occluded
+}
+
+/**
+ * Creates the view frustum of a camera from its current matrices
+ */
+export function createCameraFrustum(camera: THREE.Camera): THREE.Frustum {
+  const viewProjection = new THREE.Matrix4().multiplyMatrices(
+    camera.projectionMatrix,
+    camera.matrixWorldInverse
+  )
+  return new THREE.Frustum().setFromProjectionMatrix(viewProjection)
+}
+
+const cubeBounds = new THREE.Box3()
+const cubeCenter = new THREE.Vector3()
+const cubeSize = new THREE.Vector3()
+
+/**
+ * Checks whether the bounding box of a cube intersects a frustum
+ */
+export function isCubeInFrustum(
+  frustum: THREE.Frustum,
+  position: [number, number, number],
+  size: number | [number, number, number] = 1
+): boolean {
+  cubeCenter.fromArray(position)
+  if (typeof size === 'number') {
+    cubeSize.setScalar(size)
+  } else {
+    cubeSize.fromArray(size)
+  }
+  return frustum.intersectsBox(cubeBounds.setFromCenterAndSize(cubeCenter, cubeSize))
+}
+
+/**
+ * Removes occluded cubes and cubes outside the frustum
+ */
+export function cullCubes<T extends CullableCube>(
+  cubes: T[],
+  options: CullingOptions = {}
+): CullingResult<T> {
+  const { occluded, frustum } = options
+  const visible: T[] = []
+  const frustumCulled = new Set<string>()
+  let occludedCubes = 0
+
+  for (const cube of cubes) {
+    if (occluded?.has(cube.key)) {
+      occludedCubes++
+    } else if (frustum && !isCubeInFrustum(frustum, cube.position, cube.size)) {
+      frustumCulled.add(cube.key)
+    } else {
+      visible.push(cube)
+    }
+  }
+
+  return {
+    visible,
+    frustumCulled,
+    counts: { occludedCubes, frustumCulledCubes: frustumCulled.size },
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Unit tests for glTF 2.0 export
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  exportCubeToGLB,
+  exportCubeToGLTF,
+  extractCubeFromGLTF,
+  getGLTFBuffer,
+  parseGLB,
+} from './gltf-export'
+import type { GLTFDocument } from './gltf-export'
+import type { SpectralCube } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import stoneMoss from '../../examples/stone-moss.json'
+import metalRust from '../../examples/metal-rust.json'
+import stoneWall from '../../examples/stack-stone-wall.json'
+
+const cube = stoneMoss as SpectralCube
+const stack = stoneWall as CubeStackConfig
+
+/** Reads the float32 data behind an accessor */
+function readAccessor(document: GLTFDocument, binary: Uint8Array, index: number): Float32Array {
+  const accessor = document.accessors[index]
+  const view = document.bufferViews[accessor.bufferView]
+  const components = accessor.type === 'VEC3' ? 3 : accessor.type === 'VEC2' ? 2 : 1
+  return new Float32Array(
+    binary.slice(view.byteOffset, view.byteOffset + accessor.count * components * 4).buffer
+  )
+}
+
+describe('gltf-export', () => {
+  describe('exportCubeToGLTF', () => {
+    it('should produce a glTF 2.0 document with one textured box mesh', () => {
+      const document = exportCubeToGLTF(cube, { textureSize: 4 })
+
+      expect(document.asset.version).toBe('2.0')
+      expect(document.scenes[document.scene].nodes).toEqual([0])
+      expect(document.meshes).toHaveLength(1)
+      expect(document.materials).toHaveLength(1)
+      expect(document.images[0].mimeType).toBe('image/png')
+      expect(document.materials[0].pbrMetallicRoughness.baseColorTexture.index).toBe(0)
+    })
+
+    it('should embed a buffer whose views stay inside it and are 4-byte aligned', () => {
+      const document = exportCubeToGLTF(cube, { textureSize: 4 })
+      const buffer = getGLTFBuffer(document)!
+
+      expect(buffer.byteLength).toBe(document.buffers[0].byteLength)
+      for (const view of document.bufferViews) {
+        expect(view.byteOffset % 4).toBe(0)
+        expect(view.byteOffset + view.byteLength).toBeLessThanOrEqual(buffer.byteLength)
+      }
+    })
+
+    it('should write a closed unit box with 24 vertices and 12 triangles', () => {
+      const document = exportCubeToGLTF(cube, { textureSize: 2 })
+      const buffer = getGLTFBuffer(document)!
+      const { attributes, indices } = document.meshes[0].primitives[0]
+
+      expect(document.accessors[attributes.POSITION].count).toBe(24)
+      expect(document.accessors[indices].count).toBe(36)
+
+      const positions = readAccessor(document, buffer, attributes.POSITION)
+      expect(Math.max(...positions)).toBe(0.5)
+      expect(Math.min(...positions)).toBe(-0.5)
+
+      const uvs = readAccessor(document, buffer, attributes.TEXCOORD_0)
+      expect(Math.min(...uvs)).toBe(0)
+      expect(Math.max(...uvs)).toBe(1)
+    })
+
+    it('should wind every face counter-clockwise around its normal', () => {
+      const document = exportCubeToGLTF(cube, { textureSize: 2 })
+      const buffer = getGLTFBuffer(document)!
+      const { attributes } = document.meshes[0].primitives[0]
+      const positions = readAccessor(document, buffer, attributes.POSITION)
+      const normals = readAccessor(document, buffer, attributes.NORMAL)
+
+      for (let face = 0; face < 6; face++) {
+        const p = (i: number) => Array.from(positions.subarray(i * 3, i * 3 + 3))
+        const [a, b, c] = [p(face * 4), p(face * 4 + 1), p(face * 4 + 2)]
+        const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]]
+        const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]]
+        const cross = [
+          e1[1] * e2[2] - e1[2] * e2[1],
+          e1[2] * e2[0] - e1[0] * e2[2],
+          e1[0] * e2[1] - e1[1] * e2[0],
+        ]
+        const normal = Array.from(normals.subarray(face * 12, face * 12 + 3))
+        expect(cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2]).toBeGreaterThan(
+          0
+        )
+      }
+    })
+
+    it('should map roughness, transparency and metal onto the PBR material', () => {
+      const glass: SpectralCube = {
+        id: 'glass',
+        base: { color: [0.8, 0.9, 1], roughness: 0.1, transparency: 0.3 },
+      }
+      const glassMaterial = exportCubeToGLTF(glass, { textureSize: 1 }).materials[0]
+      expect(glassMaterial.pbrMetallicRoughness.roughnessFactor).toBe(0.1)
+      expect(glassMaterial.pbrMetallicRoughness.baseColorFactor[3]).toBe(0.3)
+      expect(glassMaterial.pbrMetallicRoughness.metallicFactor).toBe(0)
+      expect(glassMaterial.alphaMode).toBe('BLEND')
+
+      const metalMaterial = exportCubeToGLTF(metalRust as SpectralCube, { textureSize: 1 })
+        .materials[0]
+      expect(metalMaterial.pbrMetallicRoughness.metallicFactor).toBe(1)
+      expect(metalMaterial.alphaMode).toBe('OPAQUE')
+    })
+
+    it('should export stacks as a node hierarchy', () => {
+      const document = exportCubeToGLTF(stack, { textureSize: 2 })
+      const root = document.nodes[document.scenes[0].nodes[0]]
+
+      expect(root.children).toHaveLength(stack.layers.length)
+      expect(document.meshes).toHaveLength(stack.layers.length)
+
+      const layerNodes = root.children!.map((index) => document.nodes[index])
+      expect(layerNodes[0].extras?.stackLayerId).toBe(stack.layers[0].id)
+      expect(layerNodes[0].extras?.spectralCube).toEqual(stack.layers[0].cubeConfig)
+
+      // Layers are placed bottom to top
+      const heights = layerNodes.map((node) => node.translation![1])
+      expect([...heights].sort((a, b) => a - b)).toEqual(heights)
+    })
+
+    it('should share one set of geometry accessors between layers', () => {
+      const document = exportCubeToGLTF(stack, { textureSize: 1 })
+      expect(document.accessors).toHaveLength(4)
+      const positions = new Set(
+        document.meshes.map((mesh) => mesh.primitives[0].attributes.POSITION)
+      )
+      expect(positions.size).toBe(1)
+    })
+  })
+
+  describe('exportCubeToGLB', () => {
+    it('should write a valid GLB header and chunks', () => {
+      const glb = exportCubeToGLB(cube, { textureSize: 2 })
+      const view = new DataView(glb.buffer)
+
+      expect(view.getUint32(0, true)).toBe(0x46546c67) // "glTF"
+      expect(view.getUint32(4, true)).toBe(2)
+      expect(view.getUint32(8, true)).toBe(glb.byteLength)
+      expect(glb.byteLength % 4).toBe(0)
+
+      const { document, binary } = parseGLB(glb)
+      expect(document.buffers[0].uri).toBeUndefined()
+      expect(binary!.byteLength).toBe(document.buffers[0].byteLength)
+    })
+
+    it('should reject data that is not GLB', () => {
+      expect(() => parseGLB(new Uint8Array(32))).toThrow('Not a GLB file')
+    })
+  })
+
+  describe('extractCubeFromGLTF', () => {
+    it('should round-trip a cube through glTF JSON losslessly', () => {
+      const document = JSON.parse(JSON.stringify(exportCubeToGLTF(cube, { textureSize: 1 })))
+      expect(extractCubeFromGLTF(document)).toEqual(cube)
+    })
+
+    it('should round-trip a stack through GLB losslessly', () => {
+      expect(extractCubeFromGLTF(exportCubeToGLB(stack, { textureSize: 1 }))).toEqual(stack)
+    })
+
+    it('should return null for assets without isocubic extras', () => {
+      const document = exportCubeToGLTF(cube, { textureSize: 1 })
+      delete document.nodes[0].extras
+      expect(extractCubeFromGLTF(document)).toBeNull()
+    })
+  })
+})
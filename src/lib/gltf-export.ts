@@ -0,0 +1,507 @@
+/**
+ * glTF 2.0 Export
+ * Converts cubes and cube stacks into glTF assets for Blender and game engines
+ *
+ * - Each cube becomes a unit box mesh with a baked texture atlas (3 x 2 faces)
+ *   rendered from the procedural parameters by the CPU rasterizer shaders
+ * - roughness / transparency / physics.material map onto the PBR
+ *   metallic-roughness material
+ * - Stacks become a root node with one child node per layer
+ * - The source configuration is stored in node `extras`, so importing the
+ *   asset back with extractCubeFromGLTF is lossless
+ */
+
+import type { SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import { getLayerYPosition, getStackCenterOffset } from '../types/stack'
+import {
+  createSpectralCubeShader,
+  getStackLayerCubeConfig,
+  isCubeStackConfig,
+} from './cpu-rasterizer'
+import { encodePNG } from './png-encoder'
+
+/**
+ * Configurations that can be exported to glTF
+ */
+export type GLTFExportable = SpectralCube | CubeStackConfig
+
+/**
+ * Export options
+ */
+export interface GLTFExportOptions {
+  /** Baked texture resolution per cube face in pixels (default: 64) */
+  textureSize?: number
+}
+
+/**
+ * isocubic data stored in node extras
+ */
+export interface GLTFCubeExtras {
+  /** Source cube configuration (cube nodes and stack layer nodes) */
+  spectralCube?: SpectralCube
+  /** Source stack configuration (stack root node) */
+  cubeStack?: CubeStackConfig
+  /** Stack layer id (stack layer nodes) */
+  stackLayerId?: string
+}
+
+/**
+ * Subset of the glTF 2.0 JSON document written by the exporter
+ */
+export interface GLTFDocument {
+  asset: { version: '2.0'; generator?: string }
+  scene: number
+  scenes: { name?: string; nodes: number[] }[]
+  nodes: {
+    name?: string
+    mesh?: number
+    children?: number[]
+    translation?: [number, number, number]
+    scale?: [number, number, number]
+    extras?: GLTFCubeExtras
+  }[]
+  meshes: {
+    name?: string
+    primitives: { attributes: Record<string, number>; indices: number; material: number }[]
+  }[]
+  materials: {
+    name?: string
+    pbrMetallicRoughness: {
+      baseColorFactor: [number, number, number, number]
+      baseColorTexture: { index: number }
+      metallicFactor: number
+      roughnessFactor: number
+    }
+    alphaMode: 'OPAQUE' | 'BLEND'
+    doubleSided: boolean
+  }[]
+  textures: { sampler: number; source: number }[]
+  samplers: { magFilter: number; minFilter: number; wrapS: number; wrapT: number }[]
+  images: { name?: string; bufferView: number; mimeType: 'image/png' }[]
+  accessors: {
+    bufferView: number
+    componentType: number
+    count: number
+    type: 'SCALAR' | 'VEC2' | 'VEC3'
+    min?: number[]
+    max?: number[]
+  }[]
+  bufferViews: { buffer: number; byteOffset: number; byteLength: number; target?: number }[]
+  buffers: { byteLength: number; uri?: string }[]
+}
+
+/** Default baked texture size per face */
+const DEFAULT_TEXTURE_SIZE = 64
+
+/** Atlas layout: faces in NEIGHBOR_DIRECTIONS order, 3 columns x 2 rows */
+const ATLAS_COLUMNS = 3
+const ATLAS_ROWS = 2
+
+/** glTF constants */
+const FLOAT = 5126
+const UNSIGNED_SHORT = 5123
+const ARRAY_BUFFER = 34962
+const ELEMENT_ARRAY_BUFFER = 34963
+const LINEAR = 9729
+const CLAMP_TO_EDGE = 33071
+
+/** GLB container constants */
+const GLB_MAGIC = 0x46546c67 // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a // "JSON"
+const GLB_CHUNK_BIN = 0x004e4942 // "BIN\0"
+
+type Vec3 = [number, number, number]
+
+/**
+ * Cube faces (+x, -x, +y, -y, +z, -z): normal and in-face texture axes
+ * The U x V cross product equals the normal, giving counter-clockwise triangles
+ */
+const FACES: { normal: Vec3; u: Vec3; v: Vec3 }[] = [
+  { normal: [1, 0, 0], u: [0, 0, -1], v: [0, 1, 0] },
+  { normal: [-1, 0, 0], u: [0, 0, 1], v: [0, 1, 0] },
+  { normal: [0, 1, 0], u: [1, 0, 0], v: [0, 0, -1] },
+  { normal: [0, -1, 0], u: [1, 0, 0], v: [0, 0, 1] },
+  { normal: [0, 0, 1], u: [1, 0, 0], v: [0, 1, 0] },
+  { normal: [0, 0, -1], u: [-1, 0, 0], v: [0, 1, 0] },
+]
+
+/**
+ * Point on a face for face texture coordinates (s, t) in [0, 1], t pointing down
+ */
+function facePoint(face: (typeof FACES)[number], s: number, t: number): Vec3 {
+  return [0, 1, 2].map(
+    (axis) => face.normal[axis] * 0.5 + (s - 0.5) * face.u[axis] + (0.5 - t) * face.v[axis]
+  ) as Vec3
+}
+
+/**
+ * Builds the unit box geometry shared by all cube meshes
+ */
+function createBoxGeometry(): {
+  positions: Float32Array
+  normals: Float32Array
+  uvs: Float32Array
+  indices: Uint16Array
+} {
+  const positions: number[] = []
+  const normals: number[] = []
+  const uvs: number[] = []
+  const indices: number[] = []
+
+  FACES.forEach((face, faceIndex) => {
+    const column = faceIndex % ATLAS_COLUMNS
+    const row = Math.floor(faceIndex / ATLAS_COLUMNS)
+    const base = faceIndex * 4
+
+    // Bottom-left, bottom-right, top-right, top-left in face texture space
+    for (const [s, t] of [
+      [0, 1],
+      [1, 1],
+      [1, 0],
+      [0, 0],
+    ]) {
+      positions.push(...facePoint(face, s, t))
+      normals.push(...face.normal)
+      uvs.push((column + s) / ATLAS_COLUMNS, (row + t) / ATLAS_ROWS)
+    }
+    indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+  })
+
+  return {
+    positions: new Float32Array(positions),
+    normals: new Float32Array(normals),
+    uvs: new Float32Array(uvs),
+    indices: new Uint16Array(indices),
+  }
+}
+
+/**
+ * Bakes the unlit surface colour of a cube into a PNG texture atlas
+ * @param center - Center of the cube in scene units (for world-space noise)
+ * @param scale - Size of the cube in scene units
+ */
+function bakeCubeAtlas(
+  config: SpectralCube,
+  textureSize: number,
+  gridPosition: Vec3,
+  center: Vec3,
+  scale: Vec3
+): Uint8Array {
+  const shader = createSpectralCubeShader(config, { gridPosition, unlit: true })
+  const width = textureSize * ATLAS_COLUMNS
+  const height = textureSize * ATLAS_ROWS
+  const rgba = new Uint8Array(width * height * 4)
+
+  FACES.forEach((face, faceIndex) => {
+    const column = faceIndex % ATLAS_COLUMNS
+    const row = Math.floor(faceIndex / ATLAS_COLUMNS)
+
+    for (let y = 0; y < textureSize; y++) {
+      for (let x = 0; x < textureSize; x++) {
+        const localPosition = facePoint(face, (x + 0.5) / textureSize, (y + 0.5) / textureSize)
+        const color = shader({
+          localPosition,
+          worldPosition: localPosition.map((v, axis) => center[axis] + v * scale[axis]) as Vec3,
+          globalPosition: localPosition.map((v, axis) => gridPosition[axis] + v + 0.5) as Vec3,
+          normal: face.normal,
+        })
+
+        const offset = ((row * textureSize + y) * width + column * textureSize + x) * 4
+        rgba[offset] = Math.round(color[0] * 255)
+        rgba[offset + 1] = Math.round(color[1] * 255)
+        rgba[offset + 2] = Math.round(color[2] * 255)
+        rgba[offset + 3] = 255
+      }
+    }
+  })
+
+  return encodePNG(width, height, rgba)
+}
+
+/**
+ * Accumulates binary data and glTF buffer views
+ */
+class BinaryBuilder {
+  readonly views: GLTFDocument['bufferViews'] = []
+  private readonly parts: Uint8Array[] = []
+  private byteLength = 0
+
+  /** Appends data (4-byte aligned) and returns its buffer view index */
+  add(data: ArrayBufferView, target?: number): number {
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    this.views.push({
+      buffer: 0,
+      byteOffset: this.byteLength,
+      byteLength: bytes.byteLength,
+      ...(target !== undefined ? { target } : {}),
+    })
+    this.parts.push(bytes)
+    this.byteLength += bytes.byteLength
+
+    const padding = (4 - (this.byteLength % 4)) % 4
+    if (padding > 0) {
+      this.parts.push(new Uint8Array(padding))
+      this.byteLength += padding
+    }
+    return this.views.length - 1
+  }
+
+  /** Concatenates all appended data */
+  build(): Uint8Array {
+    const result = new Uint8Array(this.byteLength)
+    let offset = 0
+    for (const part of this.parts) {
+      result.set(part, offset)
+      offset += part.byteLength
+    }
+    return result
+  }
+}
+
+/**
+ * Builds the glTF document and its binary buffer
+ */
+function buildGLTF(
+  config: GLTFExportable,
+  options: GLTFExportOptions
+): { document: GLTFDocument; binary: Uint8Array } {
+  const textureSize = Math.max(1, Math.round(options.textureSize ?? DEFAULT_TEXTURE_SIZE))
+  const binary = new BinaryBuilder()
+
+  const document: GLTFDocument = {
+    asset: { version: '2.0', generator: 'isocubic' },
+    scene: 0,
+    scenes: [],
+    nodes: [],
+    meshes: [],
+    materials: [],
+    textures: [],
+    samplers: [
+      { magFilter: LINEAR, minFilter: LINEAR, wrapS: CLAMP_TO_EDGE, wrapT: CLAMP_TO_EDGE },
+    ],
+    images: [],
+    accessors: [],
+    bufferViews: binary.views,
+    buffers: [],
+  }
+
+  // Shared unit box geometry
+  const geometry = createBoxGeometry()
+  const addAccessor = (accessor: GLTFDocument['accessors'][number]) =>
+    document.accessors.push(accessor) - 1
+  const attributes = {
+    POSITION: addAccessor({
+      bufferView: binary.add(geometry.positions, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: geometry.positions.length / 3,
+      type: 'VEC3',
+      min: [-0.5, -0.5, -0.5],
+      max: [0.5, 0.5, 0.5],
+    }),
+    NORMAL: addAccessor({
+      bufferView: binary.add(geometry.normals, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: geometry.normals.length / 3,
+      type: 'VEC3',
+    }),
+    TEXCOORD_0: addAccessor({
+      bufferView: binary.add(geometry.uvs, ARRAY_BUFFER),
+      componentType: FLOAT,
+      count: geometry.uvs.length / 2,
+      type: 'VEC2',
+    }),
+  }
+  const indices = addAccessor({
+    bufferView: binary.add(geometry.indices, ELEMENT_ARRAY_BUFFER),
+    componentType: UNSIGNED_SHORT,
+    count: geometry.indices.length,
+    type: 'SCALAR',
+  })
+
+  /** Adds a textured material and mesh for one cube, returns the mesh index */
+  const addCubeMesh = (cube: SpectralCube, gridPosition: Vec3, center: Vec3, scale: Vec3) => {
+    const name = cube.meta?.name || cube.id
+    const image = document.images.push({
+      name: `${cube.id}_atlas`,
+      bufferView: binary.add(bakeCubeAtlas(cube, textureSize, gridPosition, center, scale)),
+      mimeType: 'image/png',
+    })
+    const texture = document.textures.push({ sampler: 0, source: image - 1 })
+    const transparency = cube.base.transparency ?? CUBE_DEFAULTS.base.transparency
+    const material = document.materials.push({
+      name,
+      pbrMetallicRoughness: {
+        baseColorFactor: [1, 1, 1, transparency],
+        baseColorTexture: { index: texture - 1 },
+        metallicFactor: cube.physics?.material === 'metal' ? 1 : 0,
+        roughnessFactor: cube.base.roughness ?? CUBE_DEFAULTS.base.roughness,
+      },
+      alphaMode: transparency < 1 ? 'BLEND' : 'OPAQUE',
+      doubleSided: false,
+    })
+    return (
+      document.meshes.push({
+        name,
+        primitives: [{ attributes: { ...attributes }, indices, material: material - 1 }],
+      }) - 1
+    )
+  }
+
+  if (isCubeStackConfig(config)) {
+    const centerOffset = getStackCenterOffset(config)
+    const children = config.layers.map((layer, index) => {
+      const height = layer.height ?? 1
+      const center: Vec3 = [0, getLayerYPosition(config, index) - centerOffset, 0]
+      const scale: Vec3 = [1, height, 1]
+      const mesh = addCubeMesh(
+        getStackLayerCubeConfig(config, layer.cubeConfig),
+        [0, index, 0],
+        center,
+        scale
+      )
+      return (
+        document.nodes.push({
+          name: layer.name || layer.id,
+          mesh,
+          translation: center,
+          scale,
+          extras: { spectralCube: layer.cubeConfig, stackLayerId: layer.id },
+        }) - 1
+      )
+    })
+    const root = document.nodes.push({
+      name: config.meta?.name || config.id,
+      children,
+      extras: { cubeStack: config },
+    })
+    document.scenes.push({ name: config.meta?.name || config.id, nodes: [root - 1] })
+  } else {
+    const mesh = addCubeMesh(config, [0, 0, 0], [0, 0, 0], [1, 1, 1])
+    const root = document.nodes.push({
+      name: config.meta?.name || config.id,
+      mesh,
+      extras: { spectralCube: config },
+    })
+    document.scenes.push({ name: config.meta?.name || config.id, nodes: [root - 1] })
+  }
+
+  const data = binary.build()
+  document.buffers.push({ byteLength: data.byteLength })
+  return { document, binary: data }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/**
+ * Exports a cube or stack as a self-contained glTF JSON document (.gltf)
+ * Geometry and textures are embedded as a base64 data URI
+ */
+export function exportCubeToGLTF(
+  config: GLTFExportable,
+  options: GLTFExportOptions = {}
+): GLTFDocument {
+  const { document, binary } = buildGLTF(config, options)
+  document.buffers[0].uri = `data:application/octet-stream;base64,${toBase64(binary)}`
+  return document
+}
+
+/**
+ * Exports a cube or stack as binary glTF (.glb)
+ */
+export function exportCubeToGLB(
+  config: GLTFExportable,
+  options: GLTFExportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const { document, binary } = buildGLTF(config, options)
+
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(document))
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4
+  const binLength = Math.ceil(binary.length / 4) * 4
+  const totalLength = 12 + 8 + jsonLength + 8 + binLength
+
+  const glb = new Uint8Array(totalLength)
+  const view = new DataView(glb.buffer)
+  view.setUint32(0, GLB_MAGIC, true)
+  view.setUint32(4, 2, true)
+  view.setUint32(8, totalLength, true)
+
+  view.setUint32(12, jsonLength, true)
+  view.setUint32(16, GLB_CHUNK_JSON, true)
+  glb.set(jsonBytes, 20)
+  glb.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength) // JSON is padded with spaces
+
+  const binOffset = 20 + jsonLength
+  view.setUint32(binOffset, binLength, true)
+  view.setUint32(binOffset + 4, GLB_CHUNK_BIN, true)
+  glb.set(binary, binOffset + 8)
+
+  return glb
+}
+
+/**
+ * Reads the JSON chunk of a GLB file
+ * @throws Error if the data is not a GLB 2.0 container
+ */
+export function parseGLB(glb: Uint8Array): { document: GLTFDocument; binary: Uint8Array | null } {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength)
+  if (glb.byteLength < 20 || view.getUint32(0, true) !== GLB_MAGIC) {
+    throw new Error('Not a GLB file')
+  }
+  if (view.getUint32(4, true) !== 2) {
+    throw new Error(`Unsupported GLB version: ${view.getUint32(4, true)}`)
+  }
+
+  const jsonLength = view.getUint32(12, true)
+  if (view.getUint32(16, true) !== GLB_CHUNK_JSON) {
+    throw new Error('GLB is missing its JSON chunk')
+  }
+  const document = JSON.parse(
+    new TextDecoder().decode(glb.subarray(20, 20 + jsonLength))
+  ) as GLTFDocument
+
+  const binOffset = 20 + jsonLength
+  let binary: Uint8Array | null = null
+  if (binOffset + 8 <= glb.byteLength && view.getUint32(binOffset + 4, true) === GLB_CHUNK_BIN) {
+    binary = glb.subarray(binOffset + 8, binOffset + 8 + view.getUint32(binOffset, true))
+  }
+  return { document, binary }
+}
+
+/**
+ * Gets the embedded binary buffer of a .gltf document written by exportCubeToGLTF
+ */
+export function getGLTFBuffer(document: GLTFDocument): Uint8Array | null {
+  const uri = document.buffers[0]?.uri
+  const match = uri?.match(/^data:[^;]*;base64,(.*)$/)
+  return match ? fromBase64(match[1]) : null
+}
+
+/**
+ * Recovers the original cube or stack configuration from an exported asset
+ * @param input - glTF JSON document or GLB bytes
+ * @returns The configuration stored in the scene root extras, or null if none
+ */
+export function extractCubeFromGLTF(input: GLTFDocument | Uint8Array): GLTFExportable | null {
+  const document = input instanceof Uint8Array ? parseGLB(input).document : input
+  const scene = document.scenes?.[document.scene ?? 0]
+  const root = scene ? document.nodes?.[scene.nodes[0]] : undefined
+  return root?.extras?.cubeStack ?? root?.extras?.spectralCube ?? null
+}
@@ -0,0 +1,257 @@
+/**
+ * Unit tests for the branching undo/redo timeline
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { SpectralCube } from '../types/cube'
+import {
+  HISTORY_GROUP_WINDOW_MS,
+  MAX_HISTORY_NODES,
+  canRedoTimeline,
+  canUndoTimeline,
+  commitToTimeline,
+  createHistoryTimeline,
+  describePatch,
+  formatHistoryPath,
+  getHistoryChildren,
+  getHistoryEntries,
+  getHistoryNodeCube,
+  jumpToHistoryNode,
+  parseHistoryTimeline,
+  redoTimeline,
+  undoTimeline,
+} from './history'
+
+const baseCube: SpectralCube = {
+  id: 'history_cube',
+  base: { color: [0.5, 0.5, 0.5], roughness: 0.5 },
+  gradients: [{ axis: 'y', factor: 0.3, color_shift: [0.1, 0.1, 0.1] }],
+  noise: { type: 'perlin', scale: 8, octaves: 4 },
+}
+
+const withScale = (scale: number): SpectralCube => ({
+  ...baseCube,
+  noise: { ...baseCube.noise!, scale },
+})
+
+const withRoughness = (roughness: number): SpectralCube => ({
+  ...baseCube,
+  base: { ...baseCube.base, roughness },
+})
+
+describe('history', () => {
+  describe('labels', () => {
+    it('should format JSON Pointers as field paths', () => {
+      expect(formatHistoryPath('/gradients/0/factor')).toBe('gradients[0].factor')
+      expect(formatHistoryPath('/noise/scale')).toBe('noise.scale')
+    })
+
+    it('should describe replacements, additions and removals', () => {
+      expect(describePatch(baseCube, [{ op: 'replace', path: '/noise/scale', value: 12 }])).toBe(
+        'noise.scale 8 → 12'
+      )
+      expect(
+        describePatch(baseCube, [
+          { op: 'add', path: '/gradients/1', value: { axis: 'x', factor: 1, color_shift: [] } },
+        ])
+      ).toBe('add gradients[1]')
+      expect(describePatch(baseCube, [{ op: 'remove', path: '/noise' }])).toBe('remove noise')
+    })
+
+    it('should summarise long patches', () => {
+      expect(
+        describePatch(baseCube, [
+          { op: 'replace', path: '/noise/scale', value: 1 },
+          { op: 'replace', path: '/noise/octaves', value: 2 },
+          { op: 'replace', path: '/base/roughness', value: 0.1 },
+        ])
+      ).toBe('noise.scale 8 → 1, noise.octaves 4 → 2 +1 more')
+    })
+  })
+
+  describe('commitToTimeline', () => {
+    it('should ignore edits that change nothing', () => {
+      const timeline = createHistoryTimeline(baseCube, undefined, 0)
+      expect(commitToTimeline(timeline, { ...baseCube })).toBe(timeline)
+    })
+
+    it('should merge edits of the same field within the group window', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withScale(9), { time: 1000 })
+      timeline = commitToTimeline(timeline, withScale(10), { time: 1500 })
+      timeline = commitToTimeline(timeline, withScale(11), { time: 2000 })
+
+      expect(Object.keys(timeline.nodes)).toHaveLength(2)
+      expect(timeline.nodes[timeline.currentId].label).toBe('noise.scale 8 → 11')
+      expect(undoTimeline(timeline).present).toEqual(baseCube)
+    })
+
+    it('should start a new step after the window, for other fields or when asked', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withScale(9), { time: 1000 })
+      timeline = commitToTimeline(timeline, withScale(10), {
+        time: 1001 + HISTORY_GROUP_WINDOW_MS,
+      })
+      expect(Object.keys(timeline.nodes)).toHaveLength(3)
+
+      timeline = commitToTimeline(timeline, { ...withScale(10), id: 'renamed' }, { time: 3000 })
+      const renamed = { ...withScale(10), id: 'renamed_2' }
+      timeline = commitToTimeline(timeline, renamed, { time: 3001, group: false })
+      expect(Object.keys(timeline.nodes)).toHaveLength(5)
+    })
+
+    it('should drop a merged step that returns to its starting value', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withScale(9), { time: 1000 })
+      timeline = commitToTimeline(timeline, withScale(8), { time: 1200 })
+
+      expect(Object.keys(timeline.nodes)).toEqual(['h0'])
+      expect(timeline.currentId).toBe('h0')
+      expect(canRedoTimeline(timeline)).toBe(false)
+    })
+
+    it('should use a custom label', () => {
+      const timeline = commitToTimeline(createHistoryTimeline(baseCube), withScale(2), {
+        label: 'Import "Stone"',
+      })
+      expect(timeline.nodes[timeline.currentId].label).toBe('Import "Stone"')
+    })
+
+    it('should keep at most MAX_HISTORY_NODES nodes, moving the root forward', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      for (let i = 1; i <= MAX_HISTORY_NODES + 5; i++) {
+        timeline = commitToTimeline(timeline, withScale(8 + i), { group: false })
+      }
+
+      expect(Object.keys(timeline.nodes)).toHaveLength(MAX_HISTORY_NODES)
+      expect(timeline.nodes[timeline.rootId].parentId).toBeNull()
+      expect(timeline.present.noise?.scale).toBe(8 + MAX_HISTORY_NODES + 5)
+      expect(getHistoryEntries(timeline)).toHaveLength(MAX_HISTORY_NODES)
+    })
+
+    it('should prune old side branches before the current path', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withRoughness(0.9), { group: false })
+      timeline = undoTimeline(timeline)
+      for (let i = 1; i < MAX_HISTORY_NODES; i++) {
+        timeline = commitToTimeline(timeline, withScale(8 + i), { group: false })
+      }
+
+      expect(Object.keys(timeline.nodes)).toHaveLength(MAX_HISTORY_NODES)
+      expect(timeline.rootId).toBe('h0')
+      expect(timeline.nodes.h1).toBeUndefined()
+    })
+  })
+
+  describe('navigation', () => {
+    /** Root → A (scale 12), with a second branch B (roughness 0.9) created after undo */
+    function createBranchedTimeline() {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withScale(12), { time: 1000 })
+      const a = timeline.currentId
+      timeline = undoTimeline(timeline)
+      timeline = commitToTimeline(timeline, withRoughness(0.9), { time: 2000 })
+      return { timeline, a, b: timeline.currentId }
+    }
+
+    it('should keep the undone edit as a branch', () => {
+      const { timeline, a, b } = createBranchedTimeline()
+      expect(getHistoryChildren(timeline, timeline.rootId).map((node) => node.id)).toEqual([a, b])
+      expect(canUndoTimeline(timeline)).toBe(true)
+      expect(canRedoTimeline(timeline)).toBe(false)
+    })
+
+    it('should redo the most recent branch unless one is chosen', () => {
+      const { timeline, a } = createBranchedTimeline()
+      const atRoot = undoTimeline(timeline)
+      expect(redoTimeline(atRoot).present).toEqual(withRoughness(0.9))
+      expect(redoTimeline(atRoot, a).present).toEqual(withScale(12))
+      expect(redoTimeline(atRoot, 'missing')).toBe(atRoot)
+    })
+
+    it('should jump across branches and remember the branch for redo', () => {
+      const { timeline, a } = createBranchedTimeline()
+      const jumped = jumpToHistoryNode(timeline, a)
+
+      expect(jumped.present).toEqual(withScale(12))
+      expect(jumped.nodes[jumped.rootId].redoChildId).toBe(a)
+      expect(redoTimeline(undoTimeline(jumped)).currentId).toBe(a)
+      expect(jumpToHistoryNode(timeline, 'missing')).toBe(timeline)
+    })
+
+    it('should read the cube at any node without moving', () => {
+      const { timeline, a } = createBranchedTimeline()
+
+      expect(getHistoryNodeCube(timeline, a)).toEqual(withScale(12))
+      expect(getHistoryNodeCube(timeline, timeline.rootId)).toEqual(baseCube)
+      expect(getHistoryNodeCube(timeline, 'missing')).toBeNull()
+      expect(timeline.present).toEqual(withRoughness(0.9))
+    })
+
+    it('should leave the input timeline unchanged', () => {
+      const { timeline } = createBranchedTimeline()
+      const snapshot = JSON.stringify(timeline)
+      undoTimeline(timeline)
+      jumpToHistoryNode(timeline, timeline.rootId)
+      commitToTimeline(timeline, withScale(3))
+      expect(JSON.stringify(timeline)).toBe(snapshot)
+    })
+  })
+
+  describe('getHistoryEntries', () => {
+    it('should list the redo branch on the main line and indent the others', () => {
+      let timeline = createHistoryTimeline(baseCube, undefined, 0)
+      timeline = commitToTimeline(timeline, withScale(12), { time: 1000 })
+      timeline = undoTimeline(timeline)
+      timeline = commitToTimeline(timeline, withRoughness(0.9), { time: 2000 })
+
+      expect(getHistoryEntries(timeline)).toEqual([
+        expect.objectContaining({
+          label: 'Initial state',
+          depth: 0,
+          isCurrent: false,
+          isActivePath: true,
+          childCount: 2,
+        }),
+        expect.objectContaining({
+          label: 'base.roughness 0.5 → 0.9',
+          depth: 0,
+          isCurrent: true,
+          isActivePath: true,
+        }),
+        expect.objectContaining({
+          label: 'noise.scale 8 → 12',
+          depth: 1,
+          isCurrent: false,
+          isActivePath: false,
+        }),
+      ])
+    })
+  })
+
+  describe('parseHistoryTimeline', () => {
+    it('should accept a stored timeline', () => {
+      const timeline = commitToTimeline(createHistoryTimeline(baseCube), withScale(2))
+      expect(parseHistoryTimeline(JSON.parse(JSON.stringify(timeline)))).toEqual(timeline)
+    })
+
+    it('should convert legacy snapshot history', () => {
+      const timeline = parseHistoryTimeline({
+        past: [baseCube, withScale(9)],
+        present: withScale(10),
+        future: [withScale(11)],
+      })
+
+      expect(timeline?.present).toEqual(withScale(10))
+      expect(getHistoryEntries(timeline!)).toHaveLength(4)
+      expect(redoTimeline(timeline!).present).toEqual(withScale(11))
+      expect(undoTimeline(undoTimeline(timeline!)).present).toEqual(baseCube)
+    })
+
+    it('should reject unrecognised data', () => {
+      expect(parseHistoryTimeline(null)).toBeNull()
+      expect(parseHistoryTimeline({ past: [], present: null, future: [] })).toBeNull()
+      expect(parseHistoryTimeline('history')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,483 @@
+/**
+ * Branching undo/redo timeline
+ * Stores edit history as a tree of JSON patches with a human-readable label
+ * per node. Undo moves to the parent node; a new edit after undo starts a new
+ * branch instead of discarding the redo path, and any node can be jumped to.
+ * Rapid edits of the same fields (slider drags) are merged into one node.
+ *
+ * All functions are pure: they return a new timeline and never modify their input
+ */
+
+import type { SpectralCube } from '../types/cube'
+import { applyPatch, createPatch, getValueAtPointer, parseJsonPointer } from './json-patch'
+import type { JsonPatchOperation } from './json-patch'
+
+/** Edits of the same fields within this window are merged into one node */
+export const HISTORY_GROUP_WINDOW_MS = 1000
+
+/** Maximum number of nodes kept in a timeline */
+export const MAX_HISTORY_NODES = 200
+
+/** Label of the root node */
+const ROOT_LABEL = 'Initial state'
+
+/**
+ * One state of the timeline
+ */
+export interface HistoryNode {
+  id: string
+  /** Parent node, null for the root */
+  parentId: string | null
+  /** Human-readable description, e.g. "noise.scale 8 → 12" */
+  label: string
+  /** Patch from the parent's cube to this node's cube */
+  patch: JsonPatchOperation[]
+  /** Patch from this node's cube back to the parent's cube */
+  inverse: JsonPatchOperation[]
+  /** ISO timestamp of the (last merged) edit */
+  timestamp: string
+  /** Merge key: edits with the same key within the group window share a node */
+  group?: string
+  /** Child followed by redo (the most recently created or visited branch) */
+  redoChildId?: string
+}
+
+/**
+ * Branching history of one cube
+ */
+export interface HistoryTimeline {
+  rootId: string
+  currentId: string
+  /** Cube at the current node */
+  present: SpectralCube
+  nodes: Record<string, HistoryNode>
+  /** Counter for node IDs */
+  nextId: number
+}
+
+/**
+ * Options for recording an edit
+ */
+export interface HistoryCommitOptions {
+  /** Label to use instead of the generated one */
+  label?: string
+  /**
+   * Merge key; defaults to the changed paths so repeated edits of the same
+   * fields merge. `false` always creates a new node.
+   */
+  group?: string | false
+  /** Edit time in milliseconds (default: now) */
+  time?: number
+}
+
+/**
+ * Flattened node for display
+ */
+export interface HistoryEntry {
+  id: string
+  parentId: string | null
+  label: string
+  timestamp: string
+  /** Branch indentation: 0 for the main line, +1 for each alternative branch */
+  depth: number
+  /** Whether this is the current node */
+  isCurrent: boolean
+  /** Whether the node lies between the root and the current node */
+  isActivePath: boolean
+  /** Number of child branches */
+  childCount: number
+}
+
+/**
+ * A step of the timeline compared with the current cube
+ */
+export interface HistoryComparison {
+  /** Compared step */
+  nodeId: string
+  /** Label of the compared step */
+  label: string
+  /** Cube at the compared step */
+  before: SpectralCube
+  /** Cube at the current node */
+  after: SpectralCube
+}
+
+/**
+ * Legacy snapshot history ({ past, present, future }) written by older versions
+ */
+interface LegacyHistoryState {
+  past: SpectralCube[]
+  present: SpectralCube | null
+  future: SpectralCube[]
+}
+
+// ============================================================================
+// Labels
+// ============================================================================
+
+/**
+ * Formats a JSON Pointer as a dotted field path ("/gradients/0/factor" → "gradients[0].factor")
+ */
+export function formatHistoryPath(path: string): string {
+  return parseJsonPointer(path).reduce(
+    (label, segment) =>
+      /^\d+$/.test(segment) ? `${label}[${segment}]` : label ? `${label}.${segment}` : segment,
+    ''
+  )
+}
+
+/**
+ * Formats a value for a history label
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return 'unset'
+  if (typeof value === 'number') return String(Number(value.toFixed(3)))
+  if (typeof value === 'string') return value.length > 24 ? `${value.slice(0, 23)}…` : value
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item !== 'object' || item === null)
+      ? `[${value.map(formatValue).join(', ')}]`
+      : `[${value.length} items]`
+  }
+  if (typeof value === 'object' && value !== null) return '{…}'
+  return String(value)
+}
+
+/**
+ * Describes a patch, e.g. "noise.scale 8 → 12" or "add gradients[1]"
+ * @param before - Document the patch applies to
+ * @param patch - Operations to describe
+ */
+export function describePatch(before: unknown, patch: JsonPatchOperation[]): string {
+  const labels = patch.map((operation) => {
+    const path = formatHistoryPath(operation.path) || 'document'
+    switch (operation.op) {
+      case 'replace':
+        return `${path} ${formatValue(getValueAtPointer(before, operation.path))} → ${formatValue(operation.value)}`
+      case 'add':
+        return typeof operation.value === 'object' && operation.value !== null
+          ? `add ${path}`
+          : `${path} = ${formatValue(operation.value)}`
+      case 'remove':
+        return `remove ${path}`
+    }
+  })
+  if (labels.length <= 2) return labels.join(', ')
+  return `${labels.slice(0, 2).join(', ')} +${labels.length - 2} more`
+}
+
+// ============================================================================
+// Timeline Construction
+// ============================================================================
+
+/**
+ * Creates a timeline with a single root node
+ * @param cube - Cube at the root
+ * @param label - Root label (default: "Initial state")
+ * @param time - Creation time in milliseconds (default: now)
+ */
+export function createHistoryTimeline(
+  cube: SpectralCube,
+  label: string = ROOT_LABEL,
+  time: number = Date.now()
+): HistoryTimeline {
+  const root: HistoryNode = {
+    id: 'h0',
+    parentId: null,
+    label,
+    patch: [],
+    inverse: [],
+    timestamp: new Date(time).toISOString(),
+  }
+  return { rootId: root.id, currentId: root.id, present: cube, nodes: { h0: root }, nextId: 1 }
+}
+
+/**
+ * Gets the child nodes of a node, oldest first
+ */
+export function getHistoryChildren(timeline: HistoryTimeline, nodeId: string): HistoryNode[] {
+  return Object.values(timeline.nodes)
+    .filter((node) => node.parentId === nodeId)
+    .sort((a, b) => Number(a.id.slice(1)) - Number(b.id.slice(1)))
+}
+
+/**
+ * Gets the node IDs from the root to a node (inclusive)
+ */
+function getPathFromRoot(timeline: HistoryTimeline, nodeId: string): string[] {
+  const path: string[] = []
+  for (let id: string | null = nodeId; id !== null; id = timeline.nodes[id]?.parentId ?? null) {
+    path.unshift(id)
+  }
+  return path
+}
+
+/**
+ * Removes a node and its subtree
+ */
+function removeSubtree(nodes: Record<string, HistoryNode>, nodeId: string): void {
+  for (const node of Object.values(nodes)) {
+    if (node.parentId === nodeId) removeSubtree(nodes, node.id)
+  }
+  delete nodes[nodeId]
+}
+
+/**
+ * Drops nodes beyond MAX_HISTORY_NODES: first the oldest branches off the
+ * current path, then the oldest nodes of the current path itself (the root moves forward)
+ */
+function pruneTimeline(timeline: HistoryTimeline, maxNodes: number): HistoryTimeline {
+  if (Object.keys(timeline.nodes).length <= maxNodes) return timeline
+
+  const nodes = { ...timeline.nodes }
+  let rootId = timeline.rootId
+  const activePath = new Set(getPathFromRoot(timeline, timeline.currentId))
+
+  // Oldest leaf first, so a dropped branch shrinks from its tip
+  while (Object.keys(nodes).length > maxNodes) {
+    const leaf = Object.values(nodes)
+      .filter(
+        (node) =>
+          !activePath.has(node.id) &&
+          !Object.values(nodes).some((other) => other.parentId === node.id)
+      )
+      .sort((a, b) => Number(a.id.slice(1)) - Number(b.id.slice(1)))[0]
+    if (!leaf) break
+    delete nodes[leaf.id]
+  }
+
+  while (Object.keys(nodes).length > maxNodes && rootId !== timeline.currentId) {
+    const nextRootId = [...activePath][[...activePath].indexOf(rootId) + 1]
+    for (const node of Object.values(nodes)) {
+      if (node.parentId === rootId && node.id !== nextRootId) removeSubtree(nodes, node.id)
+    }
+    delete nodes[rootId]
+    nodes[nextRootId] = { ...nodes[nextRootId], parentId: null, patch: [], inverse: [] }
+    rootId = nextRootId
+  }
+
+  return { ...timeline, rootId, nodes }
+}
+
+/**
+ * Records an edit as a new node below the current one, or merges it into the
+ * current node when it repeats the same fields within the group window
+ * @param timeline - Timeline to extend
+ * @param cube - Cube after the edit
+ * @param options - Label, merge key and time
+ * @returns The new timeline (the same object when the cube did not change)
+ */
+export function commitToTimeline(
+  timeline: HistoryTimeline,
+  cube: SpectralCube,
+  options: HistoryCommitOptions = {}
+): HistoryTimeline {
+  const patch = createPatch(timeline.present, cube)
+  if (patch.length === 0) return timeline
+
+  const time = options.time ?? Date.now()
+  const timestamp = new Date(time).toISOString()
+  const group =
+    options.group === false
+      ? undefined
+      : (options.group ?? patch.map((operation) => operation.path).join(','))
+  const current = timeline.nodes[timeline.currentId]
+
+  const canMerge =
+    group !== undefined &&
+    current.parentId !== null &&
+    current.group === group &&
+    time - Date.parse(current.timestamp) <= HISTORY_GROUP_WINDOW_MS &&
+    getHistoryChildren(timeline, current.id).length === 0
+
+  if (canMerge) {
+    const parent = timeline.nodes[current.parentId!]
+    const base = applyPatch(timeline.present, current.inverse)
+    const mergedPatch = createPatch(base, cube)
+    const nodes = { ...timeline.nodes }
+
+    // Dragging back to the starting value undoes the whole step
+    if (mergedPatch.length === 0) {
+      delete nodes[current.id]
+      nodes[parent.id] = { ...parent, redoChildId: undefined }
+      return { ...timeline, currentId: parent.id, present: cube, nodes }
+    }
+
+    nodes[current.id] = {
+      ...current,
+      label: options.label ?? describePatch(base, mergedPatch),
+      patch: mergedPatch,
+      inverse: createPatch(cube, base),
+      timestamp,
+    }
+    return { ...timeline, present: cube, nodes }
+  }
+
+  const node: HistoryNode = {
+    id: `h${timeline.nextId}`,
+    parentId: current.id,
+    label: options.label ?? describePatch(timeline.present, patch),
+    patch,
+    inverse: createPatch(cube, timeline.present),
+    timestamp,
+    ...(group !== undefined && { group }),
+  }
+  const nodes = {
+    ...timeline.nodes,
+    [current.id]: { ...current, redoChildId: node.id },
+    [node.id]: node,
+  }
+  return pruneTimeline(
+    { ...timeline, currentId: node.id, present: cube, nodes, nextId: timeline.nextId + 1 },
+    MAX_HISTORY_NODES
+  )
+}
+
+// ============================================================================
+// Navigation
+// ============================================================================
+
+/**
+ * Checks whether the current node has a parent to undo to
+ */
+export function canUndoTimeline(timeline: HistoryTimeline): boolean {
+  return timeline.nodes[timeline.currentId].parentId !== null
+}
+
+/**
+ * Checks whether the current node has a child to redo to
+ */
+export function canRedoTimeline(timeline: HistoryTimeline): boolean {
+  return getHistoryChildren(timeline, timeline.currentId).length > 0
+}
+
+/**
+ * Moves to another node, updating the present cube along the path
+ * and the redo branch of every node passed on the way down
+ * @param timeline - Timeline to navigate
+ * @param nodeId - Target node
+ * @returns The new timeline, or the same object when the node does not exist
+ */
+export function jumpToHistoryNode(timeline: HistoryTimeline, nodeId: string): HistoryTimeline {
+  if (!timeline.nodes[nodeId] || nodeId === timeline.currentId) return timeline
+
+  const fromPath = getPathFromRoot(timeline, timeline.currentId)
+  const toPath = getPathFromRoot(timeline, nodeId)
+  let common = 0
+  while (common < fromPath.length && fromPath[common] === toPath[common]) common++
+
+  let present = timeline.present
+  for (const id of fromPath.slice(common).reverse()) {
+    present = applyPatch(present, timeline.nodes[id].inverse)
+  }
+  const nodes = { ...timeline.nodes }
+  for (let i = common; i < toPath.length; i++) {
+    present = applyPatch(present, nodes[toPath[i]].patch)
+    const parentId = toPath[i - 1]
+    nodes[parentId] = { ...nodes[parentId], redoChildId: toPath[i] }
+  }
+
+  return { ...timeline, currentId: nodeId, present, nodes }
+}
+
+/**
+ * Gets the cube at any node without moving the timeline
+ * @returns The cube, or null when the node does not exist
+ */
+export function getHistoryNodeCube(timeline: HistoryTimeline, nodeId: string): SpectralCube | null {
+  if (!timeline.nodes[nodeId]) return null
+  return jumpToHistoryNode(timeline, nodeId).present
+}
+
+/**
+ * Moves to the parent node
+ */
+export function undoTimeline(timeline: HistoryTimeline): HistoryTimeline {
+  const parentId = timeline.nodes[timeline.currentId].parentId
+  return parentId === null ? timeline : jumpToHistoryNode(timeline, parentId)
+}
+
+/**
+ * Moves to a child node
+ * @param timeline - Timeline to navigate
+ * @param childId - Branch to follow (default: the most recently used branch)
+ */
+export function redoTimeline(timeline: HistoryTimeline, childId?: string): HistoryTimeline {
+  const children = getHistoryChildren(timeline, timeline.currentId)
+  const redoChildId = timeline.nodes[timeline.currentId].redoChildId
+  const target =
+    children.find((child) => child.id === childId) ??
+    (childId === undefined
+      ? (children.find((child) => child.id === redoChildId) ?? children[children.length - 1])
+      : undefined)
+  return target ? jumpToHistoryNode(timeline, target.id) : timeline
+}
+
+/**
+ * Flattens the timeline tree for display, depth-first from the root;
+ * the branch on the redo path is listed first
+ */
+export function getHistoryEntries(timeline: HistoryTimeline): HistoryEntry[] {
+  const activePath = new Set(getPathFromRoot(timeline, timeline.currentId))
+  const entries: HistoryEntry[] = []
+
+  const visit = (node: HistoryNode, depth: number) => {
+    const children = getHistoryChildren(timeline, node.id)
+    entries.push({
+      id: node.id,
+      parentId: node.parentId,
+      label: node.label,
+      timestamp: node.timestamp,
+      depth,
+      isCurrent: node.id === timeline.currentId,
+      isActivePath: activePath.has(node.id),
+      childCount: children.length,
+    })
+    const main =
+      children.find((child) => child.id === node.redoChildId) ?? children[children.length - 1]
+    if (main) visit(main, depth)
+    for (const child of children) {
+      if (child !== main) visit(child, depth + 1)
+    }
+  }
+
+  visit(timeline.nodes[timeline.rootId], 0)
+  return entries
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Builds a linear timeline from legacy snapshot history
+ */
+function timelineFromSnapshots(state: LegacyHistoryState): HistoryTimeline | null {
+  const snapshots = [...state.past, ...(state.present ? [state.present] : []), ...state.future]
+  if (snapshots.length === 0) return null
+
+  let timeline = createHistoryTimeline(snapshots[0])
+  for (const cube of snapshots.slice(1)) {
+    timeline = commitToTimeline(timeline, cube, { group: false })
+  }
+  const presentIndex = state.present ? state.past.length : Math.max(state.past.length - 1, 0)
+  for (let i = snapshots.length - 1; i > presentIndex; i--) {
+    timeline = undoTimeline(timeline)
+  }
+  return timeline
+}
+
+/**
+ * Reads a stored timeline, converting snapshot history written by older versions
+ * @returns The timeline, or null for unrecognised data
+ */
+export function parseHistoryTimeline(data: unknown): HistoryTimeline | null {
+  if (typeof data !== 'object' || data === null) return null
+  const value = data as Partial<HistoryTimeline & LegacyHistoryState>
+  if (typeof value.rootId === 'string' && value.nodes && value.present) {
+    return value as HistoryTimeline
+  }
+  if (Array.isArray(value.past) && Array.isArray(value.future)) {
+    return timelineFromSnapshots(value as LegacyHistoryState)
+  }
+  return null
+}
@@ -0,0 +1,184 @@
+/**
+ * Unit tests for GPU instanced cube rendering
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import type { SpectralCube } from '../types/cube'
+import {
+  INSTANCE_ATTRIBUTES,
+  createBenchmarkScene,
+  createInstancedCubeMesh,
+  createInstancedMaterial,
+  disposeInstancedCubeMesh,
+  getInstanceBatchKey,
+  getInstancingStatistics,
+  isInstanceable,
+  layoutCubeInstances,
+  packInstanceData,
+  updateInstancedCubeMesh,
+} from './instanced-renderer'
+import type { CubeInstance } from './instanced-renderer'
+
+const stone: SpectralCube = {
+  id: 'stone',
+  base: { color: [0.5, 0.5, 0.5], roughness: 0.8 },
+  gradients: [
+    { axis: 'y', factor: 0.3, color_shift: [0.1, 0.1, 0.1] },
+    { axis: 'x', factor: 0.2, color_shift: [0, 0.1, 0] },
+  ],
+  noise: { type: 'perlin', scale: 8, octaves: 4, seed: 7 },
+  meta: { name: 'Stone' },
+}
+
+const darkStone: SpectralCube = {
+  ...stone,
+  id: 'dark_stone',
+  base: { ...stone.base, color: [0.2, 0.2, 0.2] },
+  noise: { ...stone.noise!, seed: 42 },
+  meta: { name: 'Dark stone' },
+}
+
+const glass: SpectralCube = { ...stone, id: 'glass', base: { ...stone.base, transparency: 0.5 } }
+
+function cube(key: string, config: SpectralCube, x = 0, extra: Partial<CubeInstance> = {}) {
+  return {
+    key,
+    config,
+    position: [x, 0, 0],
+    gridPosition: [x, 0, 0],
+    ...extra,
+  } as CubeInstance
+}
+
+describe('instanced-renderer', () => {
+  describe('batching', () => {
+    it('should batch cubes that differ only in colour, seed and metadata', () => {
+      expect(getInstanceBatchKey(stone)).toBe(getInstanceBatchKey(darkStone))
+      expect(getInstanceBatchKey(stone)).not.toBe(getInstanceBatchKey(glass))
+      expect(getInstanceBatchKey(stone, 0)).toBe(getInstanceBatchKey(stone, 4))
+    })
+
+    it('should split material graph cubes by LOD level', () => {
+      const graph: SpectralCube = {
+        ...stone,
+        material: {
+          nodes: [{ id: 'c', type: 'color', color: [1, 0, 0] }],
+          output: 'c',
+        },
+      }
+      expect(getInstanceBatchKey(graph, 0)).not.toBe(getInstanceBatchKey(graph, 4))
+    })
+
+    it('should leave face overrides and cubes next to other materials to ParametricCube', () => {
+      const grassTop: SpectralCube = { ...stone, faces: { top: { base: { color: [0, 1, 0] } } } }
+      expect(isInstanceable(cube('a', stone))).toBe(true)
+      expect(isInstanceable(cube('a', grassTop))).toBe(false)
+      expect(isInstanceable(cube('a', stone, 0, { neighbors: { x: { ...stone } } }))).toBe(true)
+      expect(isInstanceable(cube('a', stone, 0, { neighbors: { x: darkStone } }))).toBe(false)
+
+      const layout = layoutCubeInstances([
+        cube('a', stone, 0),
+        cube('b', grassTop, 1),
+        cube('c', glass, 2),
+        cube('d', darkStone, 3),
+      ])
+      expect(layout.batches.map((batch) => batch.instances.map((i) => i.key))).toEqual([
+        ['a', 'd'],
+        ['c'],
+      ])
+      expect(layout.fallback.map((i) => i.key)).toEqual(['b'])
+      expect(getInstancingStatistics(layout)).toEqual({
+        totalCubes: 4,
+        instancedCubes: 3,
+        batches: 2,
+        drawCalls: 8,
+      })
+    })
+  })
+
+  describe('packInstanceData', () => {
+    it('should pack matrices and per-instance parameters with LOD applied', () => {
+      const [batch] = layoutCubeInstances([
+        cube('a', stone, 0),
+        cube('b', darkStone, 2, { scale: [1, 2, 1], lodLevel: 4 }),
+      ]).batches
+      const { matrices, attributes } = packInstanceData(batch)
+
+      expect(matrices).toHaveLength(32)
+      const matrix = new THREE.Matrix4().fromArray(matrices, 16)
+      const position = new THREE.Vector3()
+      const scale = new THREE.Vector3()
+      matrix.decompose(position, new THREE.Quaternion(), scale)
+      expect(position.toArray()).toEqual([2, 0, 0])
+      expect(scale.toArray()).toEqual([1, 2, 1])
+
+      for (const [name, size] of Object.entries(INSTANCE_ATTRIBUTES)) {
+        expect(attributes[name as keyof typeof INSTANCE_ATTRIBUTES]).toHaveLength(size * 2)
+      }
+      expect(Array.from(attributes.aGridPosition)).toEqual([0, 0, 0, 2, 0, 0])
+      expect(Array.from(attributes.aBaseColor)).toEqual(
+        Array.from(new Float32Array([0.5, 0.5, 0.5, 0.2, 0.2, 0.2]))
+      )
+      // Full detail: 2 gradients, perlin, 4 octaves, smooth boundary
+      expect(Array.from(attributes.aDetail.slice(0, 4))).toEqual([2, 1, 4, 1])
+      // LOD 4 keeps one gradient and drops noise and stitching
+      expect(Array.from(attributes.aDetail.slice(4))).toEqual([1, 0, 0, 0])
+      expect(Array.from(attributes.aNoiseSeed)).toEqual([7, 42])
+    })
+  })
+
+  describe('meshes', () => {
+    it('should create one instanced mesh with the instanced shaders', () => {
+      const [batch] = layoutCubeInstances([cube('a', stone, 0), cube('b', darkStone, 1)]).batches
+      const mesh = createInstancedCubeMesh(batch)
+      const material = mesh.material as THREE.ShaderMaterial
+
+      expect(mesh).toBeInstanceOf(THREE.InstancedMesh)
+      expect(mesh.count).toBe(2)
+      expect(material.vertexShader).toContain('instanceMatrix')
+      expect(material.fragmentShader).toContain('#define uBaseColor vInstanceBaseColor')
+      expect(mesh.geometry.getAttribute('aDetail')).toBeInstanceOf(THREE.InstancedBufferAttribute)
+      expect(mesh.geometry.getAttribute('aDetail').itemSize).toBe(4)
+      expect(createInstancedMaterial({ ...batch, config: glass }).transparent).toBe(true)
+
+      disposeInstancedCubeMesh(mesh)
+    })
+
+    it('should update instance data in place when the count matches', () => {
+      const instances = [cube('a', stone, 0), cube('b', darkStone, 1)]
+      const mesh = createInstancedCubeMesh(layoutCubeInstances(instances).batches[0])
+      const detail = mesh.geometry.getAttribute('aDetail') as THREE.InstancedBufferAttribute
+      const version = detail.version
+
+      const lowered = instances.map((instance) => ({ ...instance, lodLevel: 4 as const }))
+      expect(updateInstancedCubeMesh(mesh, layoutCubeInstances(lowered).batches[0])).toBe(true)
+      expect(detail.array[1]).toBe(0)
+      expect(detail.version).toBeGreaterThan(version)
+
+      const fewer = layoutCubeInstances(lowered.slice(1)).batches[0]
+      expect(updateInstancedCubeMesh(mesh, fewer)).toBe(false)
+    })
+  })
+
+  describe('benchmark scene', () => {
+    it('should draw a 64×4×64 map in one call per material', () => {
+      const scene = createBenchmarkScene()
+      expect(scene).toHaveLength(64 * 4 * 64)
+      expect(createBenchmarkScene()).toEqual(scene)
+
+      const layout = layoutCubeInstances(scene)
+      expect(getInstancingStatistics(layout)).toEqual({
+        totalCubes: 16384,
+        instancedCubes: 16384,
+        batches: 3,
+        drawCalls: 3,
+      })
+      expect(new Set(scene.map((instance) => instance.lodLevel))).toEqual(new Set([0, 1, 2, 3, 4]))
+
+      const { matrices, attributes } = packInstanceData(layout.batches[0])
+      expect(matrices).toHaveLength(64 * 64 * 16)
+      expect(attributes.aBaseColor.every(Number.isFinite)).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,427 @@
+/**
+ * GPU Instanced Cube Rendering
+ * Draws large cube grids with one THREE.InstancedMesh per batch of cubes sharing a
+ * configuration, instead of one mesh and ShaderMaterial per cell.
+ *
+ * Cubes are batched by their configuration without base colour and noise seed. Those,
+ * together with the grid position and the LOD-limited detail (gradient count, noise
+ * type, noise octaves, boundary mode), are packed into instanced buffer attributes that
+ * the instanced shader variant reads instead of the matching uniforms.
+ *
+ * Cubes with face overrides use one material per face, and cubes next to a different
+ * material need per-cube neighbour uniforms for edge blending; both are left to
+ * ParametricCube (see isInstanceable)
+ */
+
+import * as THREE from 'three'
+import type { Color3, NeighborDirection, SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+import type { LODLevel, LODLevelSettings } from '../types/lod'
+import { DEFAULT_LOD_SETTINGS } from '../types/lod'
+import { createInstancedFragmentShader, instancedVertexShader } from '../shaders/parametric-cube'
+import {
+  applyLODToBoundaryMode,
+  applyLODToGradientCount,
+  applyLODToOctaves,
+  boundaryModeToInt,
+  createUniforms,
+  getLODSettings,
+  noiseTypeToInt,
+} from './shader-utils'
+import { applyLODToMaterialGraph, compileMaterialGraph } from './material-graph'
+import { hasFaceOverrides } from './cube-faces'
+import { normalizeNoiseSeed } from './noise'
+import { jsonEqual } from './json-patch'
+
+/**
+ * A cube to draw
+ */
+export interface CubeInstance {
+  /** Unique key of the cube, e.g. its grid cell */
+  key: string
+  /** Cube configuration */
+  config: SpectralCube
+  /** World position of the cube centre */
+  position: [number, number, number]
+  /** Grid position for seamless stitching */
+  gridPosition: [number, number, number]
+  /** Uniform or per-axis scale (default: 1) */
+  scale?: number | [number, number, number]
+  /** LOD level (default: full detail) */
+  lodLevel?: LODLevel
+  /** Neighbouring cube configurations; cubes next to a different material are not instanced */
+  neighbors?: Partial<Record<NeighborDirection, SpectralCube>>
+}
+
+/**
+ * Cubes drawn with one instanced mesh
+ */
+export interface CubeInstanceBatch {
+  /** Batch key (see getInstanceBatchKey) */
+  key: string
+  /** Configuration the shared uniforms are created from */
+  config: SpectralCube
+  /** LOD level of the material graph; only material graph batches are split by level */
+  lodLevel?: LODLevel
+  /** Cubes in the batch */
+  instances: CubeInstance[]
+}
+
+/**
+ * Cubes split into instanced batches and cubes drawn individually
+ */
+export interface InstancedCubeLayout {
+  /** Instanced batches, in order of first appearance */
+  batches: CubeInstanceBatch[]
+  /** Cubes that cannot be instanced */
+  fallback: CubeInstance[]
+}
+
+/**
+ * Draw call counts of a layout
+ */
+export interface InstancingStatistics {
+  /** Number of cubes */
+  totalCubes: number
+  /** Number of cubes drawn through instanced batches */
+  instancedCubes: number
+  /** Number of instanced batches */
+  batches: number
+  /** Draw calls: one per batch, one per material of each individually drawn cube */
+  drawCalls: number
+}
+
+/**
+ * Names and item sizes of the per-instance attributes read by instancedVertexShader
+ */
+export const INSTANCE_ATTRIBUTES = {
+  aGridPosition: 3,
+  aBaseColor: 3,
+  aDetail: 4,
+  aNoiseSeed: 1,
+} as const
+
+/** Name of a per-instance attribute */
+export type InstanceAttributeName = keyof typeof INSTANCE_ATTRIBUTES
+
+/**
+ * Packed per-instance data of a batch
+ */
+export interface PackedInstanceData {
+  /** Column-major instance matrices, 16 floats per instance */
+  matrices: Float32Array
+  /** Attribute arrays, INSTANCE_ATTRIBUTES[name] floats per instance */
+  attributes: Record<InstanceAttributeName, Float32Array>
+}
+
+/**
+ * Options for packing and mesh creation
+ */
+export interface InstancedMeshOptions {
+  /** Settings of each LOD level (default: DEFAULT_LOD_SETTINGS) */
+  levelSettings?: Record<LODLevel, LODLevelSettings>
+}
+
+// ============================================================================
+// Batching
+// ============================================================================
+
+/**
+ * Returns the key of the batch a cube belongs to: its configuration without the
+ * fields that do not affect rendering or are stored per instance.
+ * Material graphs compile LOD into the shader, so their key includes the LOD level
+ */
+export function getInstanceBatchKey(config: SpectralCube, lodLevel?: LODLevel): string {
+  // Fields set to undefined are left out by JSON.stringify
+  const key = JSON.stringify({
+    ...config,
+    id: undefined,
+    schema_version: undefined,
+    prompt: undefined,
+    meta: undefined,
+    physics: undefined,
+    base: { ...config.base, color: undefined },
+    noise: config.noise && { ...config.noise, seed: undefined },
+  })
+  return config.material ? `${key}@${lodLevel ?? 'full'}` : key
+}
+
+/**
+ * Checks whether a cube can be drawn through an instanced batch
+ */
+export function isInstanceable(instance: CubeInstance): boolean {
+  if (hasFaceOverrides(instance.config)) return false
+  return Object.values(instance.neighbors ?? {}).every(
+    (neighbor) =>
+      neighbor === undefined || neighbor === instance.config || jsonEqual(neighbor, instance.config)
+  )
+}
+
+/**
+ * Groups cubes into instanced batches
+ */
+export function layoutCubeInstances(instances: CubeInstance[]): InstancedCubeLayout {
+  const batches = new Map<string, CubeInstanceBatch>()
+  const fallback: CubeInstance[] = []
+
+  for (const instance of instances) {
+    if (!isInstanceable(instance)) {
+      fallback.push(instance)
+      continue
+    }
+    const key = getInstanceBatchKey(instance.config, instance.lodLevel)
+    let batch = batches.get(key)
+    if (!batch) {
+      batch = {
+        key,
+        config: instance.config,
+        lodLevel: instance.config.material ? instance.lodLevel : undefined,
+        instances: [],
+      }
+      batches.set(key, batch)
+    }
+    batch.instances.push(instance)
+  }
+
+  return { batches: Array.from(batches.values()), fallback }
+}
+
+/**
+ * Counts the draw calls of a layout
+ */
+export function getInstancingStatistics(layout: InstancedCubeLayout): InstancingStatistics {
+  const instancedCubes = layout.batches.reduce((sum, batch) => sum + batch.instances.length, 0)
+  const fallbackDrawCalls = layout.fallback.reduce(
+    (sum, instance) => sum + (hasFaceOverrides(instance.config) ? 6 : 1),
+    0
+  )
+  return {
+    totalCubes: instancedCubes + layout.fallback.length,
+    instancedCubes,
+    batches: layout.batches.length,
+    drawCalls: layout.batches.length + fallbackDrawCalls,
+  }
+}
+
+// ============================================================================
+// Packing
+// ============================================================================
+
+/**
+ * Packs the instance matrices and per-instance attributes of a batch
+ */
+export function packInstanceData(
+  batch: CubeInstanceBatch,
+  options: InstancedMeshOptions = {}
+): PackedInstanceData {
+  const { levelSettings = DEFAULT_LOD_SETTINGS } = options
+  const count = batch.instances.length
+  const matrices = new Float32Array(count * 16)
+  const attributes = Object.fromEntries(
+    Object.entries(INSTANCE_ATTRIBUTES).map(([name, size]) => [
+      name,
+      new Float32Array(count * size),
+    ])
+  ) as Record<InstanceAttributeName, Float32Array>
+
+  const matrix = new THREE.Matrix4()
+  const translation = new THREE.Vector3()
+  const scale = new THREE.Vector3()
+  const rotation = new THREE.Quaternion()
+
+  batch.instances.forEach((instance, i) => {
+    const { config, lodLevel } = instance
+    const { gradients = [], noise, boundary } = config
+    const lodSettings =
+      lodLevel === undefined ? null : getLODSettings(lodLevel, levelSettings[lodLevel])
+
+    const instanceScale = instance.scale ?? 1
+    if (typeof instanceScale === 'number') {
+      scale.setScalar(instanceScale)
+    } else {
+      scale.fromArray(instanceScale)
+    }
+    matrix.compose(translation.fromArray(instance.position), rotation, scale)
+    matrix.toArray(matrices, i * 16)
+
+    attributes.aGridPosition.set(instance.gridPosition, i * 3)
+    attributes.aBaseColor.set(config.base.color, i * 3)
+    attributes.aDetail.set(
+      [
+        applyLODToGradientCount(Math.min(gradients.length, 4), lodSettings),
+        (lodSettings && !lodSettings.enableNoise) || !noise
+          ? 0
+          : noiseTypeToInt(noise.type ?? CUBE_DEFAULTS.noise.type),
+        applyLODToOctaves(noise?.octaves ?? CUBE_DEFAULTS.noise.octaves, lodSettings),
+        applyLODToBoundaryMode(
+          boundaryModeToInt(boundary?.mode ?? CUBE_DEFAULTS.boundary.mode),
+          lodSettings
+        ),
+      ],
+      i * 4
+    )
+    attributes.aNoiseSeed[i] = normalizeNoiseSeed(noise?.seed ?? CUBE_DEFAULTS.noise.seed)
+  })
+
+  return { matrices, attributes }
+}
+
+// ============================================================================
+// Meshes
+// ============================================================================
+
+/**
+ * Creates the shared material of a batch
+ */
+export function createInstancedMaterial(
+  batch: CubeInstanceBatch,
+  options: InstancedMeshOptions = {}
+): THREE.ShaderMaterial {
+  const { levelSettings = DEFAULT_LOD_SETTINGS } = options
+  const { config, lodLevel } = batch
+  const lodSettings =
+    lodLevel === undefined ? null : getLODSettings(lodLevel, levelSettings[lodLevel])
+
+  return new THREE.ShaderMaterial({
+    vertexShader: instancedVertexShader,
+    fragmentShader: config.material
+      ? createInstancedFragmentShader(
+          compileMaterialGraph(applyLODToMaterialGraph(config.material, lodSettings))
+        )
+      : createInstancedFragmentShader(),
+    uniforms: createUniforms(config),
+    transparent: (config.base.transparency ?? 1) < 1,
+    side: THREE.FrontSide,
+  })
+}
+
+/**
+ * Creates the instanced mesh of a batch
+ * @throws MaterialGraphError if the batch's material graph is invalid
+ */
+export function createInstancedCubeMesh(
+  batch: CubeInstanceBatch,
+  options: InstancedMeshOptions = {}
+): THREE.InstancedMesh {
+  const count = batch.instances.length
+  const geometry = new THREE.BoxGeometry(1, 1, 1)
+  for (const [name, size] of Object.entries(INSTANCE_ATTRIBUTES)) {
+    geometry.setAttribute(
+      name,
+      new THREE.InstancedBufferAttribute(new Float32Array(count * size), size)
+    )
+  }
+
+  const mesh = new THREE.InstancedMesh(geometry, createInstancedMaterial(batch, options), count)
+  mesh.name = `instanced-cubes-${batch.config.id}`
+  updateInstancedCubeMesh(mesh, batch, options)
+  return mesh
+}
+
+/**
+ * Writes the instance data of a batch into an existing mesh, e.g. after LOD changes.
+ * The batch must have the key and instance count the mesh was created with
+ * @returns false (leaving the mesh unchanged) when the instance count differs
+ */
+export function updateInstancedCubeMesh(
+  mesh: THREE.InstancedMesh,
+  batch: CubeInstanceBatch,
+  options: InstancedMeshOptions = {}
+): boolean {
+  if (mesh.count !== batch.instances.length) return false
+
+  const { matrices, attributes } = packInstanceData(batch, options)
+  mesh.instanceMatrix.array.set(matrices)
+  mesh.instanceMatrix.needsUpdate = true
+  for (const name of Object.keys(attributes) as InstanceAttributeName[]) {
+    const attribute = mesh.geometry.getAttribute(name) as THREE.InstancedBufferAttribute
+    attribute.array.set(attributes[name])
+    attribute.needsUpdate = true
+  }
+  mesh.computeBoundingSphere()
+  return true
+}
+
+/**
+ * Frees the GPU resources of a mesh created by createInstancedCubeMesh
+ */
+export function disposeInstancedCubeMesh(mesh: THREE.InstancedMesh): void {
+  mesh.geometry.dispose()
+  for (const material of [mesh.material].flat()) material.dispose()
+  mesh.dispose()
+}
+
+// ============================================================================
+// Benchmark
+// ============================================================================
+
+/**
+ * Materials of the benchmark scene, bottom to top
+ */
+const BENCHMARK_MATERIALS: SpectralCube[] = [
+  {
+    id: 'benchmark_stone',
+    base: { color: [0.45, 0.45, 0.47], roughness: 0.8 },
+    noise: { type: 'worley', scale: 4, octaves: 3 },
+  },
+  {
+    id: 'benchmark_dirt',
+    base: { color: [0.45, 0.3, 0.18], roughness: 0.9 },
+    gradients: [{ axis: 'y', factor: 0.2, color_shift: [0.05, 0.03, 0] }],
+    noise: { type: 'perlin', scale: 6, octaves: 4 },
+  },
+  {
+    id: 'benchmark_grass',
+    base: { color: [0.3, 0.55, 0.2], roughness: 0.7 },
+    gradients: [{ axis: 'y', factor: 0.4, color_shift: [0.1, 0.15, 0] }],
+    noise: { type: 'perlin', scale: 10, octaves: 4, mask: 'top' },
+  },
+]
+
+/**
+ * Deterministic 0..1 hash of a grid cell
+ */
+function hashCell(x: number, y: number, z: number): number {
+  const h = Math.sin(x * 127.1 + y * 311.7 + z * 74.7) * 43758.5453
+  return h - Math.floor(h)
+}
+
+/**
+ * Creates a reproducible benchmark map: stone at the bottom, grass on top and dirt in
+ * between, with per-cell colour and seed variation and LOD levels growing with the
+ * distance from the centre. Defaults to a 64×4×64 map
+ */
+export function createBenchmarkScene(
+  gridSize: [number, number, number] = [64, 4, 64]
+): CubeInstance[] {
+  const [sizeX, sizeY, sizeZ] = gridSize
+  const instances: CubeInstance[] = []
+
+  for (let x = 0; x < sizeX; x++) {
+    for (let y = 0; y < sizeY; y++) {
+      for (let z = 0; z < sizeZ; z++) {
+        const material = y === sizeY - 1 ? 2 : y === 0 ? 0 : 1
+        const template = BENCHMARK_MATERIALS[material]
+        const variation = 0.9 + hashCell(x, y, z) * 0.2
+        const distance = Math.hypot(x - (sizeX - 1) / 2, z - (sizeZ - 1) / 2)
+
+        instances.push({
+          key: `benchmark-${x}-${y}-${z}`,
+          config: {
+            ...template,
+            base: {
+              ...template.base,
+              color: template.base.color.map((channel) => channel * variation) as Color3,
+            },
+            noise: { ...template.noise, seed: Math.floor(hashCell(z, x, y) * 1000) },
+          },
+          position: [x - (sizeX - 1) / 2, y - (sizeY - 1) / 2, z - (sizeZ - 1) / 2],
+          gridPosition: [x, y, z],
+          lodLevel: Math.min(4, Math.floor(distance / 8)) as LODLevel,
+        })
+      }
+    }
+  }
+
+  return instances
+}
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for the isometric camera rig
+ */
+
+import { describe, it, expect } from 'vitest'
+import * as THREE from 'three'
+import {
+  DIMETRIC_ELEVATION,
+  ISOMETRIC_ZOOM_LEVELS,
+  applyIsometricCameraPose,
+  createIsometricView,
+  getIsometricCameraPose,
+  getIsometricTileWidth,
+  rotateIsometricView,
+  zoomIsometricView,
+} from './isometric-camera'
+import type { IsometricView } from './isometric-camera'
+
+/** Creates a camera for a view and a projector from world space to viewport pixels */
+function project(view: IsometricView, width: number, height: number) {
+  const camera = new THREE.OrthographicCamera()
+  const pose = getIsometricCameraPose(view, width, height)
+  applyIsometricCameraPose(camera, pose)
+  const toPixels = (point: [number, number, number]) => {
+    const ndc = new THREE.Vector3(...point).project(camera)
+    return [((ndc.x + 1) / 2) * width, ((1 - ndc.y) / 2) * height]
+  }
+  return { camera, pose, toPixels }
+}
+
+describe('isometric-camera', () => {
+  describe('view state', () => {
+    it('should wrap rotation in both directions', () => {
+      const view = createIsometricView()
+      expect(rotateIsometricView(view, 1).rotation).toBe(1)
+      expect(rotateIsometricView(view, -1).rotation).toBe(3)
+      expect(rotateIsometricView(view, 6).rotation).toBe(2)
+    })
+
+    it('should clamp zoom to the available levels', () => {
+      const view = createIsometricView({ zoomIndex: 1 })
+      expect(zoomIsometricView(view, -5).zoomIndex).toBe(0)
+      expect(zoomIsometricView(view, 50).zoomIndex).toBe(ISOMETRIC_ZOOM_LEVELS.length - 1)
+      expect(getIsometricTileWidth(createIsometricView().zoomIndex)).toBe(32)
+      expect(getIsometricTileWidth(99, [10, 20])).toBe(20)
+    })
+  })
+
+  describe('getIsometricCameraPose', () => {
+    it('should draw the top face of a cube twice as wide as it is tall', () => {
+      const { toPixels } = project(createIsometricView(), 400, 300)
+      const corners = [
+        [-0.5, 0.5, -0.5],
+        [0.5, 0.5, -0.5],
+        [0.5, 0.5, 0.5],
+        [-0.5, 0.5, 0.5],
+      ].map((corner) => toPixels(corner as [number, number, number]))
+      const xs = corners.map(([x]) => x)
+      const ys = corners.map(([, y]) => y)
+
+      expect(Math.max(...xs) - Math.min(...xs)).toBeCloseTo(32)
+      expect(Math.max(...ys) - Math.min(...ys)).toBeCloseTo(16)
+    })
+
+    it('should look down at the dimetric angle from four diagonals', () => {
+      const positions = [0, 1, 2, 3].map((steps) => {
+        const view = rotateIsometricView(createIsometricView(), steps)
+        return getIsometricCameraPose(view, 400, 300).position
+      })
+
+      expect(positions.map(([x, , z]) => [Math.sign(x), Math.sign(z)])).toEqual([
+        [1, 1],
+        [1, -1],
+        [-1, -1],
+        [-1, 1],
+      ])
+      for (const [x, y, z] of positions) {
+        expect(Math.atan2(y, Math.hypot(x, z))).toBeCloseTo(DIMETRIC_ELEVATION)
+      }
+    })
+
+    it('should size the frustum from the viewport and the tile width', () => {
+      const pose = getIsometricCameraPose(createIsometricView({ zoomIndex: 5 }), 640, 480)
+      expect(pose.tileWidth).toBe(64)
+      expect((pose.right - pose.left) * pose.pixelsPerUnit).toBeCloseTo(640)
+      expect((pose.top - pose.bottom) * pose.pixelsPerUnit).toBeCloseTo(480)
+      expect(pose.right).toBeCloseTo(-pose.left)
+    })
+
+    it('should put grid corners on whole pixels in pixel-perfect mode', () => {
+      const view = createIsometricView({ target: [0.3, 0.2, 0.7], pixelPerfect: true })
+      const { toPixels } = project(view, 101, 75)
+
+      for (const corner of [
+        [0, 0, 0],
+        [1, 0, 0],
+        [3, 0, -2],
+      ] as [number, number, number][]) {
+        for (const pixel of toPixels(corner)) {
+          expect(Math.abs(pixel - Math.round(pixel))).toBeLessThan(1e-6)
+        }
+      }
+    })
+
+    it('should keep the requested target outside pixel-perfect mode', () => {
+      const pose = getIsometricCameraPose(
+        createIsometricView({ target: [0.3, 0.2, 0.7] }),
+        100,
+        100
+      )
+      expect(pose.target).toEqual([0.3, 0.2, 0.7])
+    })
+  })
+})
@@ -0,0 +1,244 @@
+/**
+ * Isometric Camera Rig
+ * Orthographic camera for the isometric editor view:
+ * - Classic 2:1 dimetric angle: the camera looks down at 30°, so the top face of a cube
+ *   is drawn twice as wide as it is tall
+ * - Four views, 90° apart, around a target point (snap rotation)
+ * - Zoom levels given as the on-screen width of a cube's top face in whole pixels
+ * - Pixel-perfect mode for sprite export: the frustum spans whole pixels and the target is
+ *   snapped so that grid corners land on pixel boundaries
+ */
+
+import * as THREE from 'three'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Camera mode of a 3D view
+ */
+export type CameraMode = 'perspective' | 'isometric'
+
+/**
+ * One of the four snapped view directions (multiples of 90° around the vertical axis)
+ */
+export type IsometricRotation = 0 | 1 | 2 | 3
+
+/**
+ * State of an isometric view
+ */
+export interface IsometricView {
+  /** Snapped view direction */
+  rotation: IsometricRotation
+  /** Index into the zoom levels */
+  zoomIndex: number
+  /** Point the camera looks at, in world space */
+  target: [number, number, number]
+  /** Snap the projection to whole pixels */
+  pixelPerfect: boolean
+}
+
+/**
+ * Options for getIsometricCameraPose
+ */
+export interface IsometricCameraOptions {
+  /** Zoom levels as tile widths in pixels (default: ISOMETRIC_ZOOM_LEVELS) */
+  zoomLevels?: readonly number[]
+  /** Distance from the target to the camera (default: 50) */
+  distance?: number
+  /** Near clipping plane (default: 0.1) */
+  near?: number
+  /** Far clipping plane (default: 200) */
+  far?: number
+}
+
+/**
+ * Position, orientation and frustum of an orthographic camera for an isometric view
+ */
+export interface IsometricCameraPose {
+  /** Camera position in world space */
+  position: [number, number, number]
+  /** Camera rotation as Euler angles in YXZ order (yaw, then pitch) */
+  rotation: [number, number, number, 'YXZ']
+  /** Point the camera looks at, after pixel snapping */
+  target: [number, number, number]
+  /** Frustum bounds in world units */
+  left: number
+  right: number
+  top: number
+  bottom: number
+  near: number
+  far: number
+  /** On-screen width of a cube's top face in pixels */
+  tileWidth: number
+  /** Pixels per world unit across the screen */
+  pixelsPerUnit: number
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Downward angle of the camera for the 2:1 dimetric projection (30°):
+ * a horizontal square seen at this angle is foreshortened to half its height
+ */
+export const DIMETRIC_ELEVATION = Math.asin(0.5)
+
+/**
+ * Zoom levels as tile widths in pixels. Multiples of 4 keep the corners of the top faces
+ * (half a tile across, a quarter tile down) on whole pixels
+ */
+export const ISOMETRIC_ZOOM_LEVELS: readonly number[] = [8, 16, 24, 32, 48, 64, 96, 128]
+
+/** Default zoom level: 32 px tiles */
+export const DEFAULT_ISOMETRIC_ZOOM_INDEX = 3
+
+// ============================================================================
+// View State
+// ============================================================================
+
+/**
+ * Creates an isometric view looking at the origin
+ */
+export function createIsometricView(overrides: Partial<IsometricView> = {}): IsometricView {
+  return {
+    rotation: 0,
+    zoomIndex: DEFAULT_ISOMETRIC_ZOOM_INDEX,
+    target: [0, 0, 0],
+    pixelPerfect: false,
+    ...overrides,
+  }
+}
+
+/**
+ * Rotates a view by 90° steps; positive steps turn the camera counter-clockwise around
+ * the target as seen from above
+ */
+export function rotateIsometricView(view: IsometricView, steps: number): IsometricView {
+  const rotation = ((((view.rotation + steps) % 4) + 4) % 4) as IsometricRotation
+  return { ...view, rotation }
+}
+
+/**
+ * Moves a view by zoom steps (positive zooms in), clamped to the available levels
+ */
+export function zoomIsometricView(
+  view: IsometricView,
+  steps: number,
+  zoomLevels: readonly number[] = ISOMETRIC_ZOOM_LEVELS
+): IsometricView {
+  const zoomIndex = Math.min(Math.max(view.zoomIndex + steps, 0), zoomLevels.length - 1)
+  return { ...view, zoomIndex }
+}
+
+/**
+ * Gets the tile width in pixels of a zoom level, clamped to the available levels
+ */
+export function getIsometricTileWidth(
+  zoomIndex: number,
+  zoomLevels: readonly number[] = ISOMETRIC_ZOOM_LEVELS
+): number {
+  return zoomLevels[Math.min(Math.max(Math.round(zoomIndex), 0), zoomLevels.length - 1)]
+}
+
+/**
+ * Angle of the camera around the vertical axis, measured from +Z towards +X.
+ * Views sit on the diagonals so two side faces are always visible
+ */
+export function getIsometricAzimuth(rotation: IsometricRotation): number {
+  return Math.PI / 4 + (rotation * Math.PI) / 2
+}
+
+// ============================================================================
+// Camera Pose
+// ============================================================================
+
+/**
+ * Bounds of a frustum that is `pixels` wide around the view centre. In pixel-perfect
+ * mode the size is rounded to whole pixels and the centre sits on a pixel boundary
+ */
+function getFrustumSpan(pixels: number, pixelsPerUnit: number, pixelPerfect: boolean) {
+  if (!pixelPerfect) {
+    const half = pixels / 2 / pixelsPerUnit
+    return { min: -half, max: half }
+  }
+  const whole = Math.max(Math.round(pixels), 1)
+  const below = Math.floor(whole / 2)
+  return { min: -below / pixelsPerUnit, max: (whole - below) / pixelsPerUnit }
+}
+
+/**
+ * Computes the orthographic camera for an isometric view and a viewport size in pixels.
+ * A cube one unit wide is `tileWidth` pixels wide on screen, so `LODSystem.calculateScreenSize`
+ * sees the same size at any distance
+ */
+export function getIsometricCameraPose(
+  view: IsometricView,
+  viewportWidth: number,
+  viewportHeight: number,
+  options: IsometricCameraOptions = {}
+): IsometricCameraPose {
+  const { zoomLevels = ISOMETRIC_ZOOM_LEVELS, distance = 50, near = 0.1, far = 200 } = options
+
+  const tileWidth = getIsometricTileWidth(view.zoomIndex, zoomLevels)
+  // The top face diagonal (√2 units) spans one tile width
+  const pixelsPerUnit = tileWidth / Math.SQRT2
+
+  const azimuth = getIsometricAzimuth(view.rotation)
+  const rotation: IsometricCameraPose['rotation'] = [-DIMETRIC_ELEVATION, azimuth, 0, 'YXZ']
+  const quaternion = new THREE.Quaternion().setFromEuler(
+    new THREE.Euler(rotation[0], rotation[1], rotation[2], rotation[3])
+  )
+
+  const target = new THREE.Vector3(...view.target)
+  if (view.pixelPerfect) {
+    // Move the target along the screen axes so the world origin lands on a pixel corner
+    for (const axis of [new THREE.Vector3(1, 0, 0), new THREE.Vector3(0, 1, 0)]) {
+      axis.applyQuaternion(quaternion)
+      const pixels = target.dot(axis) * pixelsPerUnit
+      target.addScaledVector(axis, (Math.round(pixels) - pixels) / pixelsPerUnit)
+    }
+  }
+
+  const backward = new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion)
+  const position = target.clone().addScaledVector(backward, distance)
+
+  const horizontal = getFrustumSpan(viewportWidth, pixelsPerUnit, view.pixelPerfect)
+  const vertical = getFrustumSpan(viewportHeight, pixelsPerUnit, view.pixelPerfect)
+
+  return {
+    position: [position.x, position.y, position.z],
+    rotation,
+    target: [target.x, target.y, target.z],
+    left: horizontal.min,
+    right: horizontal.max,
+    top: vertical.max,
+    bottom: vertical.min,
+    near,
+    far,
+    tileWidth,
+    pixelsPerUnit,
+  }
+}
+
+/**
+ * Applies a pose to an orthographic camera and updates its matrices
+ */
+export function applyIsometricCameraPose(
+  camera: THREE.OrthographicCamera,
+  pose: IsometricCameraPose
+): void {
+  camera.position.set(...pose.position)
+  camera.rotation.set(...pose.rotation)
+  camera.left = pose.left
+  camera.right = pose.right
+  camera.top = pose.top
+  camera.bottom = pose.bottom
+  camera.near = pose.near
+  camera.far = pose.far
+  camera.zoom = 1
+  camera.updateProjectionMatrix()
+  camera.updateMatrixWorld()
+}
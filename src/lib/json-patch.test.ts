@@ -0,0 +1,107 @@
+/**
+ * Unit tests for the JSON Patch subset
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  JsonPatchError,
+  applyPatch,
+  createPatch,
+  getValueAtPointer,
+  jsonEqual,
+  parseJsonPointer,
+  toJsonPointer,
+} from './json-patch'
+
+describe('json-patch', () => {
+  describe('JSON Pointers', () => {
+    it('should escape and unescape segments', () => {
+      const pointer = toJsonPointer(['a/b', 'c~d', 0])
+      expect(pointer).toBe('/a~1b/c~0d/0')
+      expect(parseJsonPointer(pointer)).toEqual(['a/b', 'c~d', '0'])
+      expect(parseJsonPointer('')).toEqual([])
+    })
+
+    it('should reject pointers without a leading slash', () => {
+      expect(() => parseJsonPointer('a/b')).toThrow(JsonPatchError)
+    })
+
+    it('should read values', () => {
+      const doc = { a: { b: [1, 2, 3] } }
+      expect(getValueAtPointer(doc, '/a/b/1')).toBe(2)
+      expect(getValueAtPointer(doc, '/a/c/0')).toBeUndefined()
+    })
+  })
+
+  describe('jsonEqual', () => {
+    it('should compare structurally and ignore undefined fields', () => {
+      expect(jsonEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+      expect(jsonEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+      expect(jsonEqual([1, 2], [2, 1])).toBe(false)
+      expect(jsonEqual({ a: 1 }, [1])).toBe(false)
+    })
+  })
+
+  describe('createPatch', () => {
+    it('should return an empty patch for equal documents', () => {
+      expect(createPatch({ a: [1, 2] }, { a: [1, 2] })).toEqual([])
+    })
+
+    it('should replace changed leaves and whole primitive arrays', () => {
+      const from = { noise: { scale: 8 }, color: [0.1, 0.2, 0.3] }
+      const to = { noise: { scale: 12 }, color: [0.1, 0.2, 0.4] }
+      expect(createPatch(from, to)).toEqual([
+        { op: 'replace', path: '/noise/scale', value: 12 },
+        { op: 'replace', path: '/color', value: [0.1, 0.2, 0.4] },
+      ])
+    })
+
+    it('should add and remove object fields and array items', () => {
+      const from = { a: 1, list: [{ x: 1 }, { x: 2 }, { x: 3 }] }
+      const to = { b: 2, list: [{ x: 1 }] }
+      expect(createPatch(from, to)).toEqual([
+        { op: 'remove', path: '/a' },
+        { op: 'add', path: '/b', value: 2 },
+        { op: 'remove', path: '/list/2' },
+        { op: 'remove', path: '/list/1' },
+      ])
+    })
+
+    it('should produce patches that round-trip', () => {
+      const from = { a: { b: [{ c: 1 }] }, d: 'x' }
+      const to = { a: { b: [{ c: 2 }, { c: 3 }] }, e: [true] }
+      expect(applyPatch(from, createPatch(from, to))).toEqual(to)
+      expect(applyPatch(to, createPatch(to, from))).toEqual(from)
+    })
+  })
+
+  describe('applyPatch', () => {
+    it('should not modify the input document', () => {
+      const doc = { a: { b: 1 } }
+      const result = applyPatch(doc, [{ op: 'replace', path: '/a/b', value: 2 }])
+      expect(result).toEqual({ a: { b: 2 } })
+      expect(doc.a.b).toBe(1)
+    })
+
+    it('should append with "-" and replace the root', () => {
+      expect(applyPatch({ list: [1] }, [{ op: 'add', path: '/list/-', value: 2 }])).toEqual({
+        list: [1, 2],
+      })
+      expect(applyPatch({ a: 1 }, [{ op: 'replace', path: '', value: { b: 2 } }])).toEqual({
+        b: 2,
+      })
+    })
+
+    it('should throw for paths that do not exist', () => {
+      expect(() => applyPatch({ a: 1 }, [{ op: 'replace', path: '/b', value: 2 }])).toThrow(
+        JsonPatchError
+      )
+      expect(() => applyPatch({ list: [] }, [{ op: 'remove', path: '/list/0' }])).toThrow(
+        'out of range'
+      )
+      expect(() => applyPatch({ a: 1 }, [{ op: 'add', path: '/a/b/c', value: 1 }])).toThrow(
+        'does not exist'
+      )
+    })
+  })
+})
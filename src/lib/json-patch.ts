@@ -0,0 +1,255 @@
+/**
+ * JSON Patch (RFC 6902) subset
+ * Computes and applies add/remove/replace patches between JSON documents.
+ * Paths are JSON Pointers (RFC 6901).
+ *
+ * Arrays of primitives (colours, vectors, tag lists) are replaced as a whole,
+ * so one patch operation matches one user-visible value
+ */
+
+/** JSON value */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue }
+
+/**
+ * One patch operation
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: JsonValue }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: JsonValue }
+
+/**
+ * Error thrown when a patch does not fit the document
+ */
+export class JsonPatchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JsonPatchError'
+  }
+}
+
+/**
+ * Escapes one JSON Pointer segment
+ */
+function escapeSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Splits a JSON Pointer into unescaped segments
+ */
+export function parseJsonPointer(path: string): string[] {
+  if (path === '') return []
+  if (!path.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${path}"`)
+  }
+  return path
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+}
+
+/**
+ * Builds a JSON Pointer from path segments
+ */
+export function toJsonPointer(segments: (string | number)[]): string {
+  return segments.map((segment) => `/${escapeSegment(segment)}`).join('')
+}
+
+/**
+ * Checks for a plain JSON object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Deep copy of a JSON value (undefined object fields are dropped, as in JSON)
+ */
+function cloneJson<T>(value: T): T {
+  return value === undefined ? value : (JSON.parse(JSON.stringify(value)) as T)
+}
+
+/**
+ * Structural equality of two JSON values
+ */
+export function jsonEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, i) => jsonEqual(item, b[i]))
+    )
+  }
+  if (isObject(a) && isObject(b)) {
+    const keysA = Object.keys(a).filter((key) => a[key] !== undefined)
+    const keysB = Object.keys(b).filter((key) => b[key] !== undefined)
+    return keysA.length === keysB.length && keysA.every((key) => jsonEqual(a[key], b[key]))
+  }
+  return false
+}
+
+/**
+ * Checks for an array whose items are all primitives
+ */
+function isPrimitiveArray(value: unknown[]): boolean {
+  return value.every((item) => typeof item !== 'object' || item === null)
+}
+
+/**
+ * Appends the operations turning `from` into `to` at `segments`
+ */
+function diffValues(
+  from: unknown,
+  to: unknown,
+  segments: (string | number)[],
+  operations: JsonPatchOperation[]
+): void {
+  if (jsonEqual(from, to)) return
+  const path = toJsonPointer(segments)
+
+  if (isObject(from) && isObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (from[key] !== undefined && to[key] === undefined) {
+        operations.push({ op: 'remove', path: toJsonPointer([...segments, key]) })
+      }
+    }
+    for (const key of Object.keys(to)) {
+      if (to[key] === undefined) continue
+      if (from[key] === undefined) {
+        operations.push({
+          op: 'add',
+          path: toJsonPointer([...segments, key]),
+          value: cloneJson(to[key]) as JsonValue,
+        })
+      } else {
+        diffValues(from[key], to[key], [...segments, key], operations)
+      }
+    }
+    return
+  }
+
+  if (
+    Array.isArray(from) &&
+    Array.isArray(to) &&
+    !(isPrimitiveArray(from) && isPrimitiveArray(to))
+  ) {
+    const common = Math.min(from.length, to.length)
+    for (let i = 0; i < common; i++) {
+      diffValues(from[i], to[i], [...segments, i], operations)
+    }
+    // Remove from the end so earlier indices stay valid
+    for (let i = from.length - 1; i >= common; i--) {
+      operations.push({ op: 'remove', path: toJsonPointer([...segments, i]) })
+    }
+    for (let i = common; i < to.length; i++) {
+      operations.push({
+        op: 'add',
+        path: toJsonPointer([...segments, i]),
+        value: cloneJson(to[i]) as JsonValue,
+      })
+    }
+    return
+  }
+
+  operations.push({ op: 'replace', path, value: cloneJson(to) as JsonValue })
+}
+
+/**
+ * Computes the patch turning one JSON document into another
+ * @param from - Original document
+ * @param to - Target document
+ * @returns Operations in application order (empty when the documents are equal)
+ */
+export function createPatch(from: unknown, to: unknown): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = []
+  diffValues(from, to, [], operations)
+  return operations
+}
+
+/**
+ * Resolves an array index segment
+ */
+function arrayIndex(segment: string, length: number, allowEnd: boolean): number {
+  if (allowEnd && segment === '-') return length
+  const index = /^(0|[1-9]\d*)$/.test(segment) ? Number(segment) : NaN
+  if (!(index <= (allowEnd ? length : length - 1))) {
+    throw new JsonPatchError(`Array index "${segment}" is out of range`)
+  }
+  return index
+}
+
+/**
+ * Applies a patch to a copy of a JSON document
+ * @param document - Document to patch (not modified)
+ * @param patch - Operations to apply in order
+ * @returns The patched copy
+ * @throws JsonPatchError when a path does not exist
+ */
+export function applyPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  let root: unknown = cloneJson(document)
+
+  for (const operation of patch) {
+    const segments = parseJsonPointer(operation.path)
+    if (segments.length === 0) {
+      if (operation.op === 'remove') {
+        throw new JsonPatchError('Cannot remove the document root')
+      }
+      root = cloneJson(operation.value)
+      continue
+    }
+
+    let parent: unknown = root
+    for (const segment of segments.slice(0, -1)) {
+      const next: unknown = Array.isArray(parent)
+        ? parent[arrayIndex(segment, parent.length, false)]
+        : isObject(parent)
+          ? parent[segment]
+          : undefined
+      if (typeof next !== 'object' || next === null) {
+        throw new JsonPatchError(`Path "${operation.path}" does not exist`)
+      }
+      parent = next
+    }
+
+    const key = segments[segments.length - 1]
+    if (Array.isArray(parent)) {
+      const index = arrayIndex(key, parent.length, operation.op === 'add')
+      if (operation.op === 'add') parent.splice(index, 0, cloneJson(operation.value))
+      else if (operation.op === 'remove') parent.splice(index, 1)
+      else parent[index] = cloneJson(operation.value)
+    } else if (isObject(parent)) {
+      if (operation.op !== 'add' && !(key in parent)) {
+        throw new JsonPatchError(`Path "${operation.path}" does not exist`)
+      }
+      if (operation.op === 'remove') delete parent[key]
+      else parent[key] = cloneJson(operation.value)
+    } else {
+      throw new JsonPatchError(`Path "${operation.path}" does not exist`)
+    }
+  }
+
+  return root as T
+}
+
+/**
+ * Reads the value at a JSON Pointer
+ * @returns The value, or undefined when the path does not exist
+ */
+export function getValueAtPointer(document: unknown, path: string): unknown {
+  let value: unknown = document
+  for (const segment of parseJsonPointer(path)) {
+    if (Array.isArray(value)) value = value[Number(segment)]
+    else if (isObject(value)) value = value[segment]
+    else return undefined
+  }
+  return value
+}
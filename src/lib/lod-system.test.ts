@@ -9,6 +9,7 @@ import {
   createLODSystem,
   getLODSystem,
   calculateLODForPosition,
+  calculateStackLOD,
   getAdjustedLODConfig,
 } from './lod-system'
 import type { LODSystem } from './lod-system'
@@ -19,6 +20,8 @@ import {
   createDefaultLODState,
   createEmptyLODStatistics,
 } from '../types/lod'
+import { createDefaultCube } from '../types/cube'
+import { createCubeStack, createStackLayer } from '../types/stack'
 
 describe('LOD System', () => {
   describe('LODSystem class', () => {
@@ -94,6 +97,15 @@ describe('LOD System', () => {
         system.setEnabled(false)
         expect(system.calculateLODFromDistance(100)).toBe(0)
       })
+
+      it('should keep the previous level inside the hysteresis band', () => {
+        // Threshold between LOD 1 and 2 is 15, band is 15%
+        expect(system.calculateLODFromDistance(16, 1)).toBe(1)
+        expect(system.calculateLODFromDistance(18, 1)).toBe(2)
+        expect(system.calculateLODFromDistance(14, 2)).toBe(2)
+        expect(system.calculateLODFromDistance(12, 2)).toBe(1)
+        expect(system.calculateLODFromDistance(40, 1)).toBe(3)
+      })
     })
 
     describe('calculateScreenSize', () => {
@@ -120,6 +132,24 @@ describe('LOD System', () => {
 
         expect(size2).toBeCloseTo(size1 * 2, 0)
       })
+
+      it('should not depend on distance with an orthographic projection', () => {
+        // 10 world units span the 1080 px viewport
+        const camera = new THREE.OrthographicCamera(-5, 5, 5, -5)
+        const options = { projectionMatrix: camera.projectionMatrix, viewportHeight: 1080 }
+        const cubePos = new THREE.Vector3(0, 0, 0)
+
+        const near = system.calculateScreenSize(cubePos, 1, {
+          ...options,
+          cameraPosition: new THREE.Vector3(0, 0, 2),
+        })
+        const far = system.calculateScreenSize(cubePos, 1, {
+          ...options,
+          cameraPosition: new THREE.Vector3(0, 0, 100),
+        })
+        expect(near).toBeCloseTo(108)
+        expect(far).toBeCloseTo(108)
+      })
     })
 
     describe('calculateLODFromScreenSize', () => {
@@ -147,6 +177,12 @@ describe('LOD System', () => {
         expect(system.calculateLODFromScreenSize(10)).toBe(4)
         expect(system.calculateLODFromScreenSize(5)).toBe(4)
       })
+
+      it('should keep the previous level inside the hysteresis band', () => {
+        expect(system.calculateLODFromScreenSize(95, 1)).toBe(1)
+        expect(system.calculateLODFromScreenSize(105, 2)).toBe(2)
+        expect(system.calculateLODFromScreenSize(80, 1)).toBe(2)
+      })
     })
 
     describe('calculateLOD', () => {
@@ -164,6 +200,47 @@ describe('LOD System', () => {
         expect(result.settings).toBeDefined()
       })
 
+      it('should select by screen size alone in screen-space mode', () => {
+        const cubePos = new THREE.Vector3(0, 0, 0)
+        const options = {
+          cameraPosition: new THREE.Vector3(0, 0, 20),
+          viewportHeight: 1080,
+          objectSize: 8,
+        }
+
+        const screenSpace = system.calculateLOD(cubePos, options)
+        expect(screenSpace.screenSize).toBeGreaterThan(200)
+        expect(screenSpace.level).toBe(0)
+
+        system.setConfig({ selectionMode: 'distance' })
+        expect(system.calculateLOD(cubePos, options).level).toBe(2)
+      })
+
+      it('should ignore distance bands with an orthographic projection', () => {
+        system.setConfig({ selectionMode: 'distance' })
+        const camera = new THREE.OrthographicCamera(-2, 2, 2, -2)
+
+        const result = system.calculateLOD(new THREE.Vector3(0, 0, 0), {
+          cameraPosition: new THREE.Vector3(0, 0, 60),
+          projectionMatrix: camera.projectionMatrix,
+          viewportHeight: 1080,
+        })
+        expect(result.screenSize).toBeCloseTo(270)
+        expect(result.level).toBe(0)
+      })
+
+      it('should report the level before the quality adjustment', () => {
+        system.setConfig({ selectionMode: 'distance' })
+        const result = system.calculateLOD(new THREE.Vector3(0, 0, 0), {
+          cameraPosition: new THREE.Vector3(0, 0, 20),
+          objectSize: 8,
+          qualityLevel: 'low',
+        })
+
+        expect(result.baseLevel).toBe(2)
+        expect(result.level).toBe(3)
+      })
+
       it('should include settings in result', () => {
         const cubePos = new THREE.Vector3(0, 0, 0)
         const cameraPos = new THREE.Vector3(0, 0, 5)
@@ -280,6 +357,43 @@ describe('LOD System', () => {
         expect(state.currentLevel).toBe(3)
         expect(state.transitionProgress).toBe(1)
       })
+
+      it('should restart the cross-fade when the target level changes', () => {
+        system.updateCubeState('cube-1', 1, 0.1)
+        const state = system.updateCubeState('cube-1', 2, 0.15)
+
+        expect(state.currentLevel).toBe(1)
+        expect(state.targetLevel).toBe(2)
+        expect(state.transitionProgress).toBeCloseTo(0.5)
+
+        system.updateCubeState('cube-1', 2, 0.15)
+        expect(state.currentLevel).toBe(2)
+        expect(state.transitionProgress).toBe(1)
+      })
+
+      it('should track distance, screen size and hysteresis per cube', () => {
+        const options = { cameraPosition: new THREE.Vector3(0, 0, 16), objectSize: 8 }
+        system.setConfig({ selectionMode: 'distance', transitionDuration: 0 })
+
+        system.updateCubeLOD('cube-1', new THREE.Vector3(0, 0, 4), options, 0.1)
+        const { result, state } = system.updateCubeLOD(
+          'cube-1',
+          new THREE.Vector3(0, 0, 0),
+          options,
+          0.1
+        )
+
+        // 16 units away is past the LOD 1 threshold but inside the band
+        expect(result.level).toBe(1)
+        expect(state.currentLevel).toBe(1)
+        expect(state.distanceFromCamera).toBeCloseTo(16)
+        expect(state.screenSize).toBeGreaterThan(0)
+
+        system.removeCubeState('cube-1')
+        expect(
+          system.updateCubeLOD('cube-1', new THREE.Vector3(0, 0, 0), options, 0.1).result.level
+        ).toBe(2)
+      })
     })
 
     describe('statistics', () => {
@@ -332,6 +446,78 @@ describe('LOD System', () => {
         expect(stats.cubesPerLevel[2]).toBe(1)
         expect(stats.cubesPerLevel[4]).toBe(0)
       })
+
+      it('should report culled cubes as fully saved work', () => {
+        system.setConfig({ transitionDuration: 0 })
+
+        // Two cubes at LOD 0 use all 4 octaves
+        system.updateCubeState('cube-1', 0, 0.1)
+        system.updateCubeState('cube-2', 0, 0.1)
+
+        const stats = system.updateStatistics({ occludedCubes: 1, frustumCulledCubes: 1 })
+
+        expect(stats.totalCubes).toBe(2)
+        expect(stats.occludedCubes).toBe(1)
+        expect(stats.frustumCulledCubes).toBe(1)
+        expect(stats.performanceSavings).toBe(50)
+        expect(system.updateStatistics().occludedCubes).toBe(0)
+      })
+    })
+  })
+
+  describe('calculateStackLOD', () => {
+    const cube = createDefaultCube('layer')
+    const stack = createCubeStack('tower', [
+      createStackLayer('bottom', cube, 'bottom', 1),
+      createStackLayer('thick', cube, 'middle', 2),
+      createStackLayer('thin', cube, 'middle', 0.25),
+      createStackLayer('top', cube, 'top', 0.25),
+    ])
+
+    it('should keep every layer that covers enough pixels', () => {
+      const result = calculateStackLOD(stack, { screenSize: 100, lodLevel: 4 })
+
+      expect(result.groups.map((group) => group.count)).toEqual([1, 1, 1, 1])
+      expect(result.visibleLayers).toBe(4)
+      expect(result.simplifiedTransitions).toBe(false)
+    })
+
+    it('should merge sub-pixel layers into blocks using the tallest layer', () => {
+      const result = calculateStackLOD(stack, { screenSize: 1, minLayerScreenSize: 2 })
+
+      expect(
+        result.groups.map(({ layer, startIndex, count, height }) => [
+          layer.id,
+          startIndex,
+          count,
+          height,
+        ])
+      ).toEqual([['thick', 0, 4, 3.5]])
+      expect(result.simplifiedTransitions).toBe(true)
+    })
+
+    it('should merge trailing sub-pixel layers into the block below', () => {
+      const blocks = (options: { screenSize: number; scale?: number }) =>
+        calculateStackLOD(stack, options).groups.map((group) => [group.startIndex, group.count])
+
+      expect(blocks({ screenSize: 1 })).toEqual([
+        [0, 1],
+        [1, 3],
+      ])
+      expect(blocks({ screenSize: 1, scale: 2 })).toEqual([
+        [0, 1],
+        [1, 1],
+        [2, 2],
+      ])
+    })
+
+    it('should fall back to the LOD rule without a screen size', () => {
+      expect(calculateStackLOD(stack, { lodLevel: 3 }).groups.map((g) => g.layer.id)).toEqual([
+        'bottom',
+        'thin',
+        'top',
+      ])
+      expect(calculateStackLOD(stack, { lodLevel: 4 }).visibleLayers).toBe(2)
     })
   })
 
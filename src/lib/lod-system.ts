@@ -3,6 +3,11 @@
  * Core module for calculating and managing level of detail for cubes
  *
  * ISSUE 17: LOD-система для дальних кубиков
+ *
+ * Levels are picked from the projected screen size (or distance bands) with a hysteresis
+ * band around each boundary, so cubes near a boundary do not flip back and forth.
+ * Level changes cross-fade over `transitionDuration`; stacks merge layers that project
+ * to less than `minLayerScreenSize` pixels
  */
 
 import * as THREE from 'three'
@@ -19,7 +24,9 @@ import {
   createDefaultLODState,
   createEmptyLODStatistics,
 } from '../types/lod'
+import type { CubeStackConfig, StackLayer, StackRenderState } from '../types/stack'
 import type { DeviceCapabilities, QualityLevel } from './performance'
+import type { CullingCounts } from './culling'
 
 /**
  * Options for LOD calculation
@@ -37,6 +44,10 @@ export interface LODCalculationOptions {
   qualityLevel?: QualityLevel
   /** Device capabilities */
   deviceCapabilities?: DeviceCapabilities
+  /** Size of the object in world units (default: 1) */
+  objectSize?: number
+  /** Level previously selected for the object (`baseLevel`), the reference for hysteresis */
+  previousLevel?: LODLevel
 }
 
 /**
@@ -45,6 +56,8 @@ export interface LODCalculationOptions {
 export interface LODCalculationResult {
   /** Calculated LOD level */
   level: LODLevel
+  /** Level selected before the quality adjustment; pass back as `previousLevel` */
+  baseLevel: LODLevel
   /** Distance from camera */
   distance: number
   /** Projected screen size in pixels (if calculable) */
@@ -59,6 +72,7 @@ export interface LODCalculationResult {
 export class LODSystem {
   private config: LODConfig
   private cubeStates: Map<string, CubeLODState> = new Map()
+  private selectedLevels: Map<string, LODLevel> = new Map()
   private statistics: LODStatistics = createEmptyLODStatistics()
 
   constructor(config: LODConfig = DEFAULT_LOD_CONFIG) {
@@ -100,22 +114,52 @@ export class LODSystem {
     return this.config.enabled
   }
 
+  /**
+   * Applies the hysteresis band: the level only changes once the measure is far enough
+   * past the boundary. `levelAt` maps a measure to a level, `increasing` tells whether a
+   * larger measure means a coarser level (distance) or a finer one (screen size)
+   */
+  private applyHysteresis(
+    measure: number,
+    levelAt: (measure: number) => LODLevel,
+    increasing: boolean,
+    previousLevel?: LODLevel
+  ): LODLevel {
+    const band = Math.min(Math.max(this.config.hysteresis ?? 0, 0), 0.5)
+    if (previousLevel === undefined || band === 0) {
+      return levelAt(measure)
+    }
+
+    // Coarser only when even the most favourable measure in the band is coarser, finer likewise
+    const coarser = levelAt(increasing ? measure * (1 - band) : measure * (1 + band))
+    if (coarser > previousLevel) return coarser
+    const finer = levelAt(increasing ? measure * (1 + band) : measure * (1 - band))
+    if (finer < previousLevel) return finer
+    return previousLevel
+  }
+
   /**
    * Calculate LOD level based on distance from camera
+   * @param distance - Distance from the camera
+   * @param previousLevel - Previously selected level, enables hysteresis
    */
-  calculateLODFromDistance(distance: number): LODLevel {
+  calculateLODFromDistance(distance: number, previousLevel?: LODLevel): LODLevel {
     if (!this.config.enabled) {
       return 0
     }
 
-    for (const threshold of this.config.thresholds) {
-      if (distance >= threshold.minDistance && distance < threshold.maxDistance) {
-        return threshold.level
+    const levelAt = (d: number): LODLevel => {
+      for (const threshold of this.config.thresholds) {
+        if (d >= threshold.minDistance && d < threshold.maxDistance) {
+          return threshold.level
+        }
       }
+
+      // Default to lowest detail for very far distances
+      return 4
     }
 
-    // Default to lowest detail for very far distances
-    return 4
+    return this.applyHysteresis(distance, levelAt, true, previousLevel)
   }
 
   /**
@@ -139,13 +183,18 @@ export class LODSystem {
       return (cubeSize * viewportHeight) / (distance * 2)
     }
 
+    // Element [1][1] maps view-space height to normalized device coordinates
+    const fovFactor = projectionMatrix.elements[5]
+
+    // Orthographic projection: the size on screen does not depend on the distance
+    if (isOrthographicProjection(projectionMatrix)) {
+      return Math.abs(cubeSize * fovFactor * (viewportHeight / 2))
+    }
+
     // Calculate using proper projection
     const distance = cubePosition.distanceTo(cameraPosition)
     if (distance <= 0) return viewportHeight
 
-    // Extract FOV from projection matrix (element [1][1])
-    const fovFactor = projectionMatrix.elements[5]
-
     // Calculate angular size and convert to pixels
     const angularSize = cubeSize / distance
     const screenSize = angularSize * fovFactor * (viewportHeight / 2)
@@ -155,8 +204,10 @@ export class LODSystem {
 
   /**
    * Calculate LOD level based on screen size
+   * @param screenSize - Projected size in pixels
+   * @param previousLevel - Previously selected level, enables hysteresis
    */
-  calculateLODFromScreenSize(screenSize: number): LODLevel {
+  calculateLODFromScreenSize(screenSize: number, previousLevel?: LODLevel): LODLevel {
     if (!this.config.enabled) {
       return 0
     }
@@ -164,41 +215,79 @@ export class LODSystem {
     const threshold = this.config.screenSizeThreshold
 
     // Progressive LOD based on screen size
-    if (screenSize >= threshold * 4) return 0
-    if (screenSize >= threshold * 2) return 1
-    if (screenSize >= threshold) return 2
-    if (screenSize >= threshold / 2) return 3
-    return 4
+    const levelAt = (size: number): LODLevel => {
+      if (size >= threshold * 4) return 0
+      if (size >= threshold * 2) return 1
+      if (size >= threshold) return 2
+      if (size >= threshold / 2) return 3
+      return 4
+    }
+
+    return this.applyHysteresis(screenSize, levelAt, false, previousLevel)
   }
 
   /**
    * Calculate full LOD information for a cube
    */
   calculateLOD(cubePosition: THREE.Vector3, options: LODCalculationOptions): LODCalculationResult {
-    const { cameraPosition } = options
+    const { cameraPosition, previousLevel } = options
     const distance = cubePosition.distanceTo(cameraPosition)
-
-    // Calculate LOD from both distance and screen size
-    const distanceLOD = this.calculateLODFromDistance(distance)
-    const screenSize = this.calculateScreenSize(cubePosition, 1, options)
-    const screenSizeLOD = this.calculateLODFromScreenSize(screenSize)
-
-    // Use the more aggressive (higher number = lower detail) LOD
-    let level = Math.max(distanceLOD, screenSizeLOD) as LODLevel
+    const screenSize = this.calculateScreenSize(cubePosition, options.objectSize ?? 1, options)
+    const screenSizeLOD = this.calculateLODFromScreenSize(screenSize, previousLevel)
+
+    // In distance mode, use the more aggressive (higher number = lower detail) LOD.
+    // Distance bands do not apply to orthographic views, where distance does not change size
+    const orthographic =
+      !!options.projectionMatrix && isOrthographicProjection(options.projectionMatrix)
+    const baseLevel =
+      this.config.selectionMode === 'screenSpace' || orthographic
+        ? screenSizeLOD
+        : (Math.max(
+            this.calculateLODFromDistance(distance, previousLevel),
+            screenSizeLOD
+          ) as LODLevel)
 
     // Adjust for quality settings
-    level = this.adjustLODForQuality(level, options.qualityLevel)
+    const level = this.adjustLODForQuality(baseLevel, options.qualityLevel)
 
     const settings = this.getSettingsForLevel(level)
 
     return {
       level,
+      baseLevel,
       distance,
       screenSize,
       settings,
     }
   }
 
+  /**
+   * Calculates the LOD of a tracked cube and advances its transition.
+   * The level selected on the previous update is the reference for hysteresis
+   * @param cubeId - Cube identifier
+   * @param cubePosition - Position of the cube in world space
+   * @param options - Calculation options including camera info
+   * @param deltaTime - Time since the previous update in seconds
+   */
+  updateCubeLOD(
+    cubeId: string,
+    cubePosition: THREE.Vector3,
+    options: LODCalculationOptions,
+    deltaTime: number
+  ): { result: LODCalculationResult; state: CubeLODState } {
+    const result = this.calculateLOD(cubePosition, {
+      ...options,
+      previousLevel: this.selectedLevels.get(cubeId),
+    })
+    this.selectedLevels.set(cubeId, result.baseLevel)
+
+    const state = this.updateCubeState(cubeId, result.level, deltaTime)
+    state.distanceFromCamera = result.distance
+    state.screenSize = result.screenSize ?? state.screenSize
+
+    return { result, state }
+  }
+
   /**
    * Adjust LOD level based on quality settings and device capabilities
    */
@@ -226,17 +315,21 @@ export class LODSystem {
   }
 
   /**
-   * Update LOD state for a cube with smooth transitions
+   * Update LOD state for a cube with smooth transitions.
+   * A new target restarts the cross-fade from the current level; new cubes start at the target
    */
   updateCubeState(cubeId: string, targetLevel: LODLevel, deltaTime: number): CubeLODState {
     let state = this.cubeStates.get(cubeId)
 
     if (!state) {
-      state = createDefaultLODState()
+      state = { ...createDefaultLODState(), currentLevel: targetLevel, targetLevel }
       this.cubeStates.set(cubeId, state)
     }
 
-    state.targetLevel = targetLevel
+    if (state.targetLevel !== targetLevel) {
+      state.targetLevel = targetLevel
+      state.transitionProgress = state.currentLevel === targetLevel ? 1 : 0
+    }
 
     // Handle transition
     if (state.currentLevel !== state.targetLevel) {
@@ -269,6 +362,7 @@ export class LODSystem {
    */
   removeCubeState(cubeId: string): void {
     this.cubeStates.delete(cubeId)
+    this.selectedLevels.delete(cubeId)
   }
 
   /**
@@ -276,13 +370,17 @@ export class LODSystem {
    */
   clearAllStates(): void {
     this.cubeStates.clear()
+    this.selectedLevels.clear()
   }
 
   /**
    * Update statistics based on current cube states
+   * @param culling - Cubes skipped by culling; they count as fully saved work
    */
-  updateStatistics(): LODStatistics {
+  updateStatistics(culling?: CullingCounts): LODStatistics {
     const stats = createEmptyLODStatistics()
+    stats.occludedCubes = culling?.occludedCubes ?? 0
+    stats.frustumCulledCubes = culling?.frustumCulledCubes ?? 0
 
     for (const state of this.cubeStates.values()) {
       stats.cubesPerLevel[state.currentLevel]++
@@ -303,14 +401,16 @@ export class LODSystem {
     }
 
     // Estimate performance savings
-    // Based on reduction in noise octaves (main performance factor)
+    // Based on reduction in noise octaves (main performance factor); culled cubes are not
+    // rendered at all
     const maxOctaves = 4
     let totalOctaves = 0
     for (const [level, count] of Object.entries(stats.cubesPerLevel)) {
       const settings = this.getSettingsForLevel(parseInt(level) as LODLevel)
       totalOctaves += settings.noiseOctaves * count
     }
-    const maxPossibleOctaves = stats.totalCubes * maxOctaves
+    const culledCubes = stats.occludedCubes + stats.frustumCulledCubes
+    const maxPossibleOctaves = (stats.totalCubes + culledCubes) * maxOctaves
     if (maxPossibleOctaves > 0) {
       stats.performanceSavings = ((maxPossibleOctaves - totalOctaves) / maxPossibleOctaves) * 100
     }
@@ -372,6 +472,140 @@ export function calculateLODForPosition(
   return system.calculateLOD(posVec, { cameraPosition: camVec })
 }
 
+/**
+ * Checks whether a projection matrix is orthographic (element [3][3] is 1; 0 for perspective)
+ */
+export function isOrthographicProjection(projectionMatrix: THREE.Matrix4): boolean {
+  return projectionMatrix.elements[15] === 1
+}
+
+// ============================================================================
+// Stack LOD
+// ============================================================================
+
+/**
+ * Consecutive stack layers rendered as one block
+ */
+export interface StackLayerGroup {
+  /** Layer whose material the block uses (the tallest in the group) */
+  layer: StackLayer
+  /** Index of the first layer of the group in the stack */
+  startIndex: number
+  /** Number of layers in the group */
+  count: number
+  /** Combined height of the layers */
+  height: number
+}
+
+/**
+ * Options for calculateStackLOD
+ */
+export interface StackLODOptions {
+  /** LOD level of the stack */
+  lodLevel?: LODLevel
+  /** Projected size of one world unit in pixels; enables merging of sub-pixel layers */
+  screenSize?: number
+  /** Scale of the stack (default: 1) */
+  scale?: number
+  /** Projected layer height in pixels below which layers are merged (default from DEFAULT_LOD_CONFIG) */
+  minLayerScreenSize?: number
+  /** Distance from camera */
+  distanceFromCamera?: number
+}
+
+/**
+ * Render state of a stack with the layer blocks to draw
+ */
+export interface StackLODResult extends StackRenderState {
+  /** Blocks to render, bottom to top */
+  groups: StackLayerGroup[]
+}
+
+/**
+ * Creates a group from consecutive layers, using the tallest layer's material
+ */
+function createLayerGroup(layers: StackLayer[], startIndex: number): StackLayerGroup {
+  const heights = layers.map((layer) => layer.height ?? 1)
+  const tallest = heights.indexOf(Math.max(...heights))
+  return {
+    layer: layers[tallest],
+    startIndex,
+    count: layers.length,
+    height: heights.reduce((sum, height) => sum + height, 0),
+  }
+}
+
+/**
+ * Merges layers that project to less than `minSize` pixels with the layers above them;
+ * sub-pixel layers at the top are merged into the block below
+ */
+function mergeSubPixelLayers(
+  layers: StackLayer[],
+  pixelsPerUnit: number,
+  minSize: number
+): StackLayerGroup[] {
+  const groups: StackLayerGroup[] = []
+  let pending: StackLayer[] = []
+  let pendingHeight = 0
+
+  layers.forEach((layer, index) => {
+    pending.push(layer)
+    pendingHeight += layer.height ?? 1
+    if (pendingHeight * pixelsPerUnit >= minSize) {
+      groups.push(createLayerGroup(pending, index - pending.length + 1))
+      pending = []
+      pendingHeight = 0
+    }
+  })
+
+  if (pending.length > 0) {
+    const last = groups.pop()
+    groups.push(
+      last
+        ? createLayerGroup(layers.slice(last.startIndex), last.startIndex)
+        : createLayerGroup(pending, 0)
+    )
+  }
+
+  return groups
+}
+
+/**
+ * Decides which layers of a stack are drawn.
+ * With a screen size, layers thinner than `minLayerScreenSize` pixels are merged into
+ * neighbouring blocks. Without one, LOD 3 keeps the bottom, middle and top layers and
+ * LOD 4 the bottom and top layers
+ */
+export function calculateStackLOD(
+  stack: CubeStackConfig,
+  options: StackLODOptions = {}
+): StackLODResult {
+  const { lodLevel, screenSize, scale = 1, distanceFromCamera = 0 } = options
+  const { layers } = stack
+  let groups: StackLayerGroup[]
+
+  if (screenSize !== undefined) {
+    const minSize = options.minLayerScreenSize ?? DEFAULT_LOD_CONFIG.minLayerScreenSize ?? 1
+    groups = mergeSubPixelLayers(layers, screenSize * scale, minSize)
+  } else {
+    let visibleIndices = layers.map((_, index) => index)
+    if (lodLevel === 4 && layers.length > 2) {
+      visibleIndices = [0, layers.length - 1]
+    } else if (lodLevel === 3 && layers.length > 3) {
+      visibleIndices = [0, Math.floor(layers.length / 2), layers.length - 1]
+    }
+    groups = visibleIndices.map((index) => createLayerGroup([layers[index]], index))
+  }
+
+  return {
+    currentLODLevel: lodLevel ?? 0,
+    visibleLayers: groups.length,
+    simplifiedTransitions: groups.length < layers.length,
+    distanceFromCamera,
+    groups,
+  }
+}
+
 /**
  * Apply quality-based adjustments to LOD thresholds
  */
@@ -0,0 +1,293 @@
+/**
+ * Unit tests for the material graph compiler and CPU evaluator
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MaterialGraphError,
+  applyLODToMaterialGraph,
+  compileMaterialGraph,
+  createMaterialEvaluator,
+  createMaterialGraphShader,
+  cubeToMaterialGraph,
+  getCubeMaterialGraph,
+  sortMaterialGraph,
+} from './material-graph'
+import type { MaterialEvaluationContext, MaterialSample } from './material-graph'
+import { createSpectralCubeShader } from './cpu-rasterizer'
+import type { RasterFragment } from './cpu-rasterizer'
+import { validateCube } from './validation'
+import { DEFAULT_LOD_SETTINGS } from '../types/lod'
+import type { SpectralCube } from '../types/cube'
+import type { MaterialGraph, MaterialNode } from '../types/material-graph'
+import stoneMoss from '../../examples/stone-moss.json'
+import woodOak from '../../examples/wood-oak.json'
+
+const context: MaterialEvaluationContext = {
+  boundaryMode: 0,
+  neighborInfluence: 0,
+  gridPosition: [0, 0, 0],
+}
+
+function sample(x: number, y: number, z: number): MaterialSample {
+  return {
+    localPosition: [x, y, z],
+    worldPosition: [x, y, z],
+    globalPosition: [x + 0.5, y + 0.5, z + 0.5],
+  }
+}
+
+const samples: RasterFragment[] = [
+  [0, 0.5, 0],
+  [0.5, -0.3, 0.1],
+  [-0.2, -0.45, 0.5],
+  [0.37, 0.12, -0.5],
+].map(([x, y, z]): RasterFragment => ({ ...sample(x, y, z), normal: [0, 0, 1] }))
+
+/** Two noises blended over a gradient-tinted base */
+const layeredGraph: MaterialGraph = {
+  nodes: [
+    { id: 'base', type: 'color', color: [0.4, 0.3, 0.2] },
+    { id: 'height', type: 'gradient', axis: 'y' },
+    {
+      id: 'tinted',
+      type: 'blend',
+      mode: 'mix',
+      base: 'base',
+      layer: [0.2, 0.5, 0.1],
+      factor: 'height',
+    },
+    { id: 'grain', type: 'noise', noise: 'perlin', scale: 4, seed: 7 },
+    { id: 'cracks', type: 'noise', noise: 'crackle', scale: 6 },
+    { id: 'crack_mask', type: 'remap', input: 'cracks', from: [0, 0.2], to: [1, 0], clamp: true },
+    {
+      id: 'grained',
+      type: 'blend',
+      mode: 'overlay',
+      base: 'tinted',
+      layer: [0.5, 0.5, 0.5],
+      factor: 'grain',
+    },
+    {
+      id: 'out',
+      type: 'blend',
+      mode: 'multiply',
+      base: 'grained',
+      layer: [0.1, 0.1, 0.1],
+      factor: 'crack_mask',
+    },
+  ],
+  output: 'out',
+}
+
+describe('material-graph', () => {
+  describe('sortMaterialGraph', () => {
+    it('should order nodes after their inputs and drop unused nodes', () => {
+      const order = sortMaterialGraph({
+        nodes: [
+          { id: 'out', type: 'blend', mode: 'add', base: 'base', layer: [1, 1, 1], factor: 'k' },
+          { id: 'unused', type: 'constant', value: 1 },
+          { id: 'k', type: 'constant', value: 0.1 },
+          { id: 'base', type: 'color', color: [0, 0, 0] },
+        ],
+        output: 'out',
+      }).map((node) => node.id)
+      expect(order).toEqual(['base', 'k', 'out'])
+    })
+
+    it('should reject unknown references, cycles, kind mismatches and scalar outputs', () => {
+      const color: [number, number, number] = [0, 0, 0]
+      const base = { id: 'base', type: 'color', color } as const
+      expect(() =>
+        sortMaterialGraph({
+          nodes: [base, { id: 'out', type: 'blend', mode: 'mix', base: 'base', layer: 'nope' }],
+          output: 'out',
+        })
+      ).toThrow('unknown node "nope"')
+      expect(() =>
+        sortMaterialGraph({
+          nodes: [
+            base,
+            { id: 'a', type: 'math', operation: 'add', a: 'b', b: 1 },
+            { id: 'b', type: 'math', operation: 'add', a: 'a', b: 1 },
+            { id: 'out', type: 'blend', mode: 'mix', base: 'base', layer: base.color, factor: 'a' },
+          ],
+          output: 'out',
+        })
+      ).toThrow('cycle')
+      expect(() =>
+        sortMaterialGraph({
+          nodes: [
+            base,
+            {
+              id: 'out',
+              type: 'blend',
+              mode: 'mix',
+              base: 'base',
+              layer: [1, 1, 1],
+              factor: 'base',
+            },
+          ],
+          output: 'out',
+        })
+      ).toThrow('expects a scalar')
+      expect(() =>
+        sortMaterialGraph({ nodes: [{ id: 'k', type: 'constant', value: 1 }], output: 'k' })
+      ).toThrow(MaterialGraphError)
+    })
+
+    it('should enforce the noise node limit', () => {
+      const noises = Array.from({ length: 5 }, (_, i) => ({
+        id: `n${i}`,
+        type: 'noise' as const,
+        noise: 'perlin' as const,
+      }))
+      let color = 'base'
+      const blends = noises.map((noise, i): MaterialNode => {
+        const node: MaterialNode = {
+          id: `b${i}`,
+          type: 'blend',
+          mode: 'add',
+          base: color,
+          layer: [1, 1, 1],
+          factor: noise.id,
+        }
+        color = node.id
+        return node
+      })
+      expect(() =>
+        sortMaterialGraph({
+          nodes: [{ id: 'base', type: 'color', color: [0, 0, 0] }, ...noises, ...blends],
+          output: color,
+        })
+      ).toThrow('noise nodes')
+    })
+  })
+
+  describe('cubeToMaterialGraph', () => {
+    it('should shade exactly like the flat fields', () => {
+      for (const cube of [stoneMoss, woodOak] as SpectralCube[]) {
+        const flat = createSpectralCubeShader(cube, { gridPosition: [2, 0, 1] })
+        const graph = createSpectralCubeShader(
+          { ...cube, material: cubeToMaterialGraph(cube) },
+          { gridPosition: [2, 0, 1] }
+        )
+        for (const fragment of samples) {
+          expect(graph(fragment)).toEqual(flat(fragment))
+        }
+      }
+    })
+
+    it('should keep matching when LOD disables noise', () => {
+      const cube = stoneMoss as SpectralCube
+      const options = { lodLevel: 4 as const }
+      const flat = createSpectralCubeShader(cube, options)
+      const graph = createSpectralCubeShader(
+        { ...cube, material: cubeToMaterialGraph(cube) },
+        options
+      )
+      for (const fragment of samples) {
+        expect(graph(fragment)).toEqual(flat(fragment))
+      }
+    })
+
+    it('should be used only for cubes without their own material', () => {
+      const cube = stoneMoss as SpectralCube
+      expect(getCubeMaterialGraph(cube)).toEqual(cubeToMaterialGraph(cube))
+      expect(getCubeMaterialGraph({ ...cube, material: layeredGraph })).toBe(layeredGraph)
+    })
+  })
+
+  describe('applyLODToMaterialGraph', () => {
+    it('should cap octaves or replace noise with its midpoint', () => {
+      const graph = cubeToMaterialGraph(stoneMoss as SpectralCube)
+      const reduced = applyLODToMaterialGraph(graph, DEFAULT_LOD_SETTINGS[2])
+      expect(reduced.nodes.find((node) => node.id === 'noise')).toMatchObject({
+        type: 'noise',
+        octaves: Math.min(4, DEFAULT_LOD_SETTINGS[2].noiseOctaves),
+      })
+      const disabled = applyLODToMaterialGraph(graph, {
+        ...DEFAULT_LOD_SETTINGS[0],
+        enableNoise: false,
+      })
+      expect(disabled.nodes.find((node) => node.id === 'noise')).toEqual({
+        id: 'noise',
+        type: 'constant',
+        value: 0.5,
+      })
+      expect(applyLODToMaterialGraph(graph, null)).toBe(graph)
+    })
+  })
+
+  describe('createMaterialEvaluator', () => {
+    it('should evaluate every blend mode', () => {
+      const evaluate = (mode: 'mix' | 'add' | 'subtract' | 'multiply' | 'screen' | 'overlay') =>
+        createMaterialEvaluator(
+          {
+            nodes: [
+              {
+                id: 'out',
+                type: 'blend',
+                mode,
+                base: [0.25, 0.5, 0.75],
+                layer: [0.5, 0.5, 0.5],
+                factor: 1,
+              },
+            ],
+            output: 'out',
+          },
+          context
+        )(sample(0, 0, 0))
+      expect(evaluate('mix')).toEqual([0.5, 0.5, 0.5])
+      expect(evaluate('add')).toEqual([0.75, 1, 1.25])
+      expect(evaluate('subtract')).toEqual([-0.25, 0, 0.25])
+      expect(evaluate('multiply')).toEqual([0.125, 0.25, 0.375])
+      expect(evaluate('screen')).toEqual([0.625, 0.75, 0.875])
+      expect(evaluate('overlay')).toEqual([0.25, 0.5, 0.75])
+    })
+
+    it('should combine several noises deterministically', () => {
+      const evaluate = createMaterialEvaluator(layeredGraph, context)
+      const colors = samples.map((fragment) => evaluate(fragment))
+      expect(colors).toEqual(samples.map((fragment) => evaluate(fragment)))
+      expect(new Set(colors.map((color) => color.join())).size).toBeGreaterThan(1)
+    })
+  })
+
+  describe('compileMaterialGraph', () => {
+    it('should emit computeMaterialColor with one variable per used node', () => {
+      const glsl = compileMaterialGraph(layeredGraph)
+      expect(glsl).toContain('vec3 computeMaterialColor()')
+      expect(glsl).toContain('vec3 m0 = vec3(0.4, 0.3, 0.2);')
+      expect(glsl).toContain('computeNoise(')
+      expect(glsl).toContain('blendOverlay(')
+      expect(glsl).toContain('clamp(')
+      expect(glsl).toContain(`return m${layeredGraph.nodes.length - 1};`)
+    })
+
+    it('should compile the flat-field preset with masks and gradients', () => {
+      const glsl = compileMaterialGraph(cubeToMaterialGraph(stoneMoss as SpectralCube))
+      expect(glsl).toContain('getGradientFactor(vPosition, vGlobalPosition, uGridPosition, 1,')
+      expect(glsl).toContain('getRegionMask(vPosition, 0, 0.0, 0.4)')
+    })
+
+    it('should produce a complete fragment shader', () => {
+      const shader = createMaterialGraphShader(layeredGraph)
+      expect(shader).toContain('void main()')
+      expect(shader).toContain('vec3 color = computeMaterialColor();')
+      expect(shader.match(/vec3 computeMaterialColor\(\)/g)).toHaveLength(1)
+    })
+  })
+
+  describe('validation', () => {
+    it('should accept cubes with a material graph and report broken graphs', () => {
+      expect(validateCube({ ...stoneMoss, material: layeredGraph }).valid).toBe(true)
+      const result = validateCube({
+        ...stoneMoss,
+        material: { nodes: layeredGraph.nodes, output: 'missing' },
+      })
+      expect(result.valid).toBe(false)
+      expect(result.errors[0]).toMatchObject({ path: '/material', keyword: 'materialGraph' })
+    })
+  })
+})
@@ -0,0 +1,594 @@
+/**
+ * Material graph compiler and CPU evaluator
+ * Turns a MaterialGraph into GLSL for parametric-cube.ts and into a per-sample
+ * function for the CPU rasterizer. Both follow the same formulas, so viewport,
+ * previews and baked textures agree.
+ *
+ * The flat base/gradients/noise fields of a SpectralCube map onto the preset
+ * graph built by cubeToMaterialGraph, which evaluates to exactly the colour the
+ * flat shader path computes.
+ */
+
+import type { Color3, SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+import type { LODLevelSettings } from '../types/lod'
+import type {
+  MaterialBlendMode,
+  MaterialColorInput,
+  MaterialGraph,
+  MaterialMaskAxis,
+  MaterialNode,
+  MaterialScalarInput,
+  MaterialValueKind,
+} from '../types/material-graph'
+import { MAX_MATERIAL_NODES, MAX_MATERIAL_NOISE_NODES } from '../types/material-graph'
+import { computeNoise, normalizeNoiseSeed } from './noise'
+import { axisToInt, noiseTypeToInt, parseMask } from './shader-utils'
+import { createMaterialFragmentShader } from '../shaders/parametric-cube'
+
+/** 3D vector as a tuple */
+type Vec3 = [number, number, number]
+
+/**
+ * Surface position passed to a material evaluator (the shader varyings)
+ */
+export interface MaterialSample {
+  /** Local position in the unit cube [-0.5, 0.5] */
+  localPosition: Vec3
+  /** Position in scene units */
+  worldPosition: Vec3
+  /** Grid position + local position + 0.5 */
+  globalPosition: Vec3
+}
+
+/**
+ * Per-cube values the graph reads from uniforms
+ */
+export interface MaterialEvaluationContext {
+  /** Shader boundary mode (0=none, 1=smooth, 2=hard) */
+  boundaryMode: number
+  /** Neighbour influence [0, 1] */
+  neighborInfluence: number
+  /** Grid position of the cube */
+  gridPosition: Vec3
+}
+
+/**
+ * CPU material: returns the unclamped surface colour at a sample
+ */
+export type MaterialEvaluator = (sample: MaterialSample) => Color3
+
+/**
+ * Error thrown for graphs that cannot be compiled
+ */
+export class MaterialGraphError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MaterialGraphError'
+  }
+}
+
+/** Shader integers of mask axes (same encoding as uNoiseMaskAxis) */
+const MASK_AXIS: Record<MaterialMaskAxis, number> = { y: 0, x: 1, z: 2 }
+
+function clamp(x: number, min: number, max: number): number {
+  return Math.min(Math.max(x, min), max)
+}
+
+/** GLSL smoothstep */
+function smoothstep(edge0: number, edge1: number, x: number): number {
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
+/** GLSL mix */
+function mix(a: number, b: number, t: number): number {
+  return a * (1 - t) + b * t
+}
+
+/** GLSL fract */
+function fract(x: number): number {
+  return x - Math.floor(x)
+}
+
+function length(v: Vec3): number {
+  return Math.sqrt(v[0] * v[0] + v[1] * v[1] + v[2] * v[2])
+}
+
+// ============================================================
+// SHADER HELPERS (CPU equivalents of parametric-cube.glsl)
+// ============================================================
+
+function getLocalGradientFactor(pos: Vec3, axis: number): number {
+  if (axis >= 0 && axis <= 2) return pos[axis] + 0.5
+  return length(pos) * 2
+}
+
+function getGlobalGradientFactor(globalPos: Vec3, gridPos: Vec3, axis: number): number {
+  if (axis >= 0 && axis <= 2) return fract(globalPos[axis])
+  return (
+    length([
+      globalPos[0] - gridPos[0] - 0.5,
+      globalPos[1] - gridPos[1] - 0.5,
+      globalPos[2] - gridPos[2] - 0.5,
+    ]) * 2
+  )
+}
+
+/**
+ * Gradient position for a shader axis integer, honouring the boundary mode
+ * Equivalent to GLSL `getGradientFactor`
+ */
+export function getGradientFactor(
+  localPos: Vec3,
+  globalPos: Vec3,
+  gridPos: Vec3,
+  axis: number,
+  boundaryMode: number,
+  neighborInfluence: number
+): number {
+  if (boundaryMode === 0) return getLocalGradientFactor(localPos, axis)
+  if (boundaryMode === 1) {
+    return mix(
+      getLocalGradientFactor(localPos, axis),
+      getGlobalGradientFactor(globalPos, gridPos, axis),
+      neighborInfluence
+    )
+  }
+  return getGlobalGradientFactor(globalPos, gridPos, axis)
+}
+
+/**
+ * Soft region mask along a shader axis integer (0=y, 1=x, 2=z)
+ * Equivalent to GLSL `getRegionMask`
+ */
+export function getRegionMask(localPos: Vec3, axis: number, start: number, end: number): number {
+  const maskPos = (axis === 1 ? localPos[0] : axis === 2 ? localPos[2] : localPos[1]) + 0.5
+  if (start >= end) return 1
+  return smoothstep(start, start + 0.1, maskPos) * (1 - smoothstep(end - 0.1, end, maskPos))
+}
+
+// ============================================================
+// GRAPH STRUCTURE
+// ============================================================
+
+/**
+ * Kind of value a node produces
+ */
+export function getMaterialNodeKind(node: MaterialNode): MaterialValueKind {
+  return node.type === 'color' || node.type === 'blend' ? 'color' : 'scalar'
+}
+
+/** IDs of the nodes a node reads, with the kind each input expects */
+function nodeInputs(
+  node: MaterialNode
+): [MaterialScalarInput | MaterialColorInput, MaterialValueKind][] {
+  switch (node.type) {
+    case 'remap':
+      return [[node.input, 'scalar']]
+    case 'math':
+      return [
+        [node.a, 'scalar'],
+        [node.b, 'scalar'],
+      ]
+    case 'blend':
+      return [
+        [node.base, 'color'],
+        [node.layer, 'color'],
+        [node.factor ?? 1, 'scalar'],
+      ]
+    default:
+      return []
+  }
+}
+
+/**
+ * Checks a graph and returns the nodes the output depends on, in evaluation order
+ * @throws MaterialGraphError for unknown or mistyped references, cycles, missing
+ *   output, empty remap ranges, or graphs over the node limits
+ */
+export function sortMaterialGraph(graph: MaterialGraph): MaterialNode[] {
+  if (graph.nodes.length > MAX_MATERIAL_NODES) {
+    throw new MaterialGraphError(`Material graphs are limited to ${MAX_MATERIAL_NODES} nodes`)
+  }
+
+  const byId = new Map<string, MaterialNode>()
+  for (const node of graph.nodes) {
+    if (byId.has(node.id)) throw new MaterialGraphError(`Duplicate node id "${node.id}"`)
+    byId.set(node.id, node)
+  }
+
+  const output = byId.get(graph.output)
+  if (!output) throw new MaterialGraphError(`Output node "${graph.output}" not found`)
+  if (getMaterialNodeKind(output) !== 'color') {
+    throw new MaterialGraphError(`Output node "${graph.output}" must produce a colour`)
+  }
+
+  const sorted: MaterialNode[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (node: MaterialNode): void => {
+    if (state.get(node.id) === 'done') return
+    if (state.get(node.id) === 'visiting') {
+      throw new MaterialGraphError(`Material graph has a cycle through "${node.id}"`)
+    }
+    state.set(node.id, 'visiting')
+
+    for (const [input, kind] of nodeInputs(node)) {
+      if (typeof input !== 'string') continue
+      const source = byId.get(input)
+      if (!source) {
+        throw new MaterialGraphError(`Node "${node.id}" references unknown node "${input}"`)
+      }
+      if (getMaterialNodeKind(source) !== kind) {
+        throw new MaterialGraphError(`Node "${node.id}" expects a ${kind} from "${input}"`)
+      }
+      visit(source)
+    }
+
+    if (node.type === 'remap') {
+      const [from0, from1] = node.from ?? [0, 1]
+      if (from0 === from1) {
+        throw new MaterialGraphError(`Remap node "${node.id}" has an empty source range`)
+      }
+    }
+
+    state.set(node.id, 'done')
+    sorted.push(node)
+  }
+
+  visit(output)
+
+  if (sorted.filter((node) => node.type === 'noise').length > MAX_MATERIAL_NOISE_NODES) {
+    throw new MaterialGraphError(
+      `Material graphs are limited to ${MAX_MATERIAL_NOISE_NODES} noise nodes`
+    )
+  }
+
+  return sorted
+}
+
+// ============================================================
+// PRESETS AND LOD
+// ============================================================
+
+/**
+ * Builds the graph equivalent of a cube's flat base colour, gradients (first 4)
+ * and noise fields
+ */
+export function cubeToMaterialGraph(cube: SpectralCube): MaterialGraph {
+  const nodes: MaterialNode[] = [{ id: 'base', type: 'color', color: [...cube.base.color] }]
+  let color = 'base'
+
+  ;(cube.gradients ?? []).slice(0, 4).forEach((gradient, index) => {
+    nodes.push(
+      { id: `gradient_${index}`, type: 'gradient', axis: gradient.axis },
+      {
+        id: `gradient_${index}_strength`,
+        type: 'remap',
+        input: `gradient_${index}`,
+        to: [0, gradient.factor],
+      },
+      {
+        id: `gradient_${index}_shift`,
+        type: 'blend',
+        mode: 'add',
+        base: color,
+        layer: [...gradient.color_shift],
+        factor: `gradient_${index}_strength`,
+      }
+    )
+    color = `gradient_${index}_shift`
+  })
+
+  const noise = cube.noise
+  if (noise) {
+    nodes.push(
+      {
+        id: 'noise',
+        type: 'noise',
+        noise: noise.type ?? CUBE_DEFAULTS.noise.type,
+        scale: noise.scale ?? CUBE_DEFAULTS.noise.scale,
+        octaves: noise.octaves ?? CUBE_DEFAULTS.noise.octaves,
+        persistence: noise.persistence ?? CUBE_DEFAULTS.noise.persistence,
+        seed: noise.seed ?? CUBE_DEFAULTS.noise.seed,
+      },
+      { id: 'noise_centered', type: 'math', operation: 'subtract', a: 'noise', b: 0.5 },
+      { id: 'noise_influence', type: 'math', operation: 'multiply', a: 'noise_centered', b: 0.3 }
+    )
+
+    // Without a mask string the full 0..1 range still fades out at the cube edges
+    const { start, end, axis } = parseMask(noise.mask)
+    const maskAxis = (Object.keys(MASK_AXIS) as MaterialMaskAxis[]).find(
+      (key) => MASK_AXIS[key] === axis
+    )
+    nodes.push(
+      { id: 'noise_mask', type: 'mask', axis: maskAxis ?? 'y', start, end },
+      {
+        id: 'noise_masked',
+        type: 'math',
+        operation: 'multiply',
+        a: 'noise_influence',
+        b: 'noise_mask',
+      },
+      {
+        id: 'noise_shift',
+        type: 'blend',
+        mode: 'add',
+        base: color,
+        layer: [1, 1, 1],
+        factor: 'noise_masked',
+      }
+    )
+    color = 'noise_shift'
+  }
+
+  return { nodes, output: color }
+}
+
+/**
+ * Returns the graph that shades a cube: its own material, or the flat-field preset
+ */
+export function getCubeMaterialGraph(cube: SpectralCube): MaterialGraph {
+  return cube.material ?? cubeToMaterialGraph(cube)
+}
+
+/**
+ * Applies LOD noise settings to a graph: caps noise octaves, or replaces noise
+ * nodes with their midpoint 0.5 when noise is disabled
+ */
+export function applyLODToMaterialGraph(
+  graph: MaterialGraph,
+  lodSettings: LODLevelSettings | null
+): MaterialGraph {
+  if (!lodSettings) return graph
+  return {
+    ...graph,
+    nodes: graph.nodes.map((node): MaterialNode => {
+      if (node.type !== 'noise') return node
+      if (!lodSettings.enableNoise) return { id: node.id, type: 'constant', value: 0.5 }
+      return {
+        ...node,
+        octaves: Math.min(node.octaves ?? CUBE_DEFAULTS.noise.octaves, lodSettings.noiseOctaves),
+      }
+    }),
+  }
+}
+
+// ============================================================
+// GLSL COMPILER
+// ============================================================
+
+/** Formats a number as a GLSL float literal */
+function glslFloat(value: number): string {
+  if (!Number.isFinite(value)) throw new MaterialGraphError(`Invalid number ${value}`)
+  const text = String(value)
+  return /[.e]/.test(text) ? text : `${text}.0`
+}
+
+function glslVec3(color: Color3): string {
+  return `vec3(${color.map(glslFloat).join(', ')})`
+}
+
+const GLSL_BLEND: Record<MaterialBlendMode, (base: string, layer: string, f: string) => string> = {
+  mix: (base, layer, f) => `mix(${base}, ${layer}, ${f})`,
+  add: (base, layer, f) => `${base} + ${layer} * ${f}`,
+  subtract: (base, layer, f) => `${base} - ${layer} * ${f}`,
+  multiply: (base, layer, f) => `mix(${base}, ${base} * ${layer}, ${f})`,
+  screen: (base, layer, f) => `mix(${base}, 1.0 - (1.0 - ${base}) * (1.0 - ${layer}), ${f})`,
+  overlay: (base, layer, f) => `mix(${base}, blendOverlay(${base}, ${layer}), ${f})`,
+}
+
+/**
+ * Compiles a graph into GLSL that defines `vec3 computeMaterialColor()` for
+ * createMaterialFragmentShader; constants are inlined
+ * @throws MaterialGraphError if the graph is invalid
+ */
+export function compileMaterialGraph(graph: MaterialGraph): string {
+  const nodes = sortMaterialGraph(graph)
+  const names = new Map(nodes.map((node, index) => [node.id, `m${index}`]))
+  const scalar = (input: MaterialScalarInput) =>
+    typeof input === 'number' ? glslFloat(input) : names.get(input)!
+  const color = (input: MaterialColorInput) =>
+    typeof input === 'string' ? names.get(input)! : glslVec3(input)
+
+  const lines = nodes.map((node) => {
+    const name = names.get(node.id)!
+    switch (node.type) {
+      case 'color':
+        return `vec3 ${name} = ${glslVec3(node.color)};`
+      case 'constant':
+        return `float ${name} = ${glslFloat(node.value)};`
+      case 'gradient':
+        return (
+          `float ${name} = getGradientFactor(vPosition, vGlobalPosition, uGridPosition, ` +
+          `${axisToInt(node.axis)}, uBoundaryMode, uNeighborInfluence);`
+        )
+      case 'noise': {
+        const scale = glslFloat(node.scale ?? CUBE_DEFAULTS.noise.scale)
+        const octaves = node.octaves ?? CUBE_DEFAULTS.noise.octaves
+        const persistence = glslFloat(node.persistence ?? CUBE_DEFAULTS.noise.persistence)
+        const seed = glslFloat(normalizeNoiseSeed(node.seed ?? CUBE_DEFAULTS.noise.seed))
+        return (
+          `float ${name} = computeNoise((uBoundaryMode == 0 ? vWorldPosition : vGlobalPosition) * ` +
+          `${scale}, ${noiseTypeToInt(node.noise)}, ${octaves}, ${persistence}, ${seed});`
+        )
+      }
+      case 'remap': {
+        const [from0, from1] = (node.from ?? [0, 1]).map(glslFloat)
+        const [to0, to1] = node.to
+        const value =
+          `mix(${glslFloat(to0)}, ${glslFloat(to1)}, ` +
+          `(${scalar(node.input)} - ${from0}) / (${from1} - ${from0}))`
+        return node.clamp
+          ? `float ${name} = clamp(${value}, ${glslFloat(Math.min(to0, to1))}, ${glslFloat(Math.max(to0, to1))});`
+          : `float ${name} = ${value};`
+      }
+      case 'mask':
+        return (
+          `float ${name} = getRegionMask(vPosition, ${MASK_AXIS[node.axis]}, ` +
+          `${glslFloat(node.start)}, ${glslFloat(node.end)});`
+        )
+      case 'math': {
+        const [a, b] = [scalar(node.a), scalar(node.b)]
+        const expression = {
+          add: `${a} + ${b}`,
+          subtract: `${a} - ${b}`,
+          multiply: `${a} * ${b}`,
+          min: `min(${a}, ${b})`,
+          max: `max(${a}, ${b})`,
+        }[node.operation]
+        return `float ${name} = ${expression};`
+      }
+      case 'blend':
+        return `vec3 ${name} = ${GLSL_BLEND[node.mode](color(node.base), color(node.layer), scalar(node.factor ?? 1))};`
+    }
+  })
+
+  return /* glsl */ `
+// ============================================================
+// MATERIAL (compiled material graph)
+// ============================================================
+
+vec3 blendOverlay(vec3 base, vec3 layer) {
+    return mix(1.0 - 2.0 * (1.0 - base) * (1.0 - layer), 2.0 * base * layer, step(base, vec3(0.5)));
+}
+
+vec3 computeMaterialColor() {
+${lines.map((line) => `    ${line}`).join('\n')}
+    return ${names.get(graph.output)};
+}
+`
+}
+
+/**
+ * Builds a complete parametric cube fragment shader for a graph
+ * @throws MaterialGraphError if the graph is invalid
+ */
+export function createMaterialGraphShader(graph: MaterialGraph): string {
+  return createMaterialFragmentShader(compileMaterialGraph(graph))
+}
+
+// ============================================================
+// CPU EVALUATOR
+// ============================================================
+
+type Value = number | Color3
+
+const CPU_BLEND: Record<MaterialBlendMode, (base: number, layer: number, f: number) => number> = {
+  mix: (base, layer, f) => mix(base, layer, f),
+  add: (base, layer, f) => base + layer * f,
+  subtract: (base, layer, f) => base - layer * f,
+  multiply: (base, layer, f) => mix(base, base * layer, f),
+  screen: (base, layer, f) => mix(base, 1 - (1 - base) * (1 - layer), f),
+  overlay: (base, layer, f) =>
+    mix(base, base <= 0.5 ? 2 * base * layer : 1 - 2 * (1 - base) * (1 - layer), f),
+}
+
+/**
+ * Creates a CPU evaluator for a graph
+ * @throws MaterialGraphError if the graph is invalid
+ */
+export function createMaterialEvaluator(
+  graph: MaterialGraph,
+  context: MaterialEvaluationContext
+): MaterialEvaluator {
+  const nodes = sortMaterialGraph(graph)
+  const slots = new Map(nodes.map((node, index) => [node.id, index]))
+  const { boundaryMode, neighborInfluence, gridPosition } = context
+
+  const scalar = (input: MaterialScalarInput) => {
+    if (typeof input === 'number') return () => input
+    const slot = slots.get(input)!
+    return (values: Value[]) => values[slot] as number
+  }
+  const color = (input: MaterialColorInput) => {
+    if (typeof input !== 'string') return () => input
+    const slot = slots.get(input)!
+    return (values: Value[]) => values[slot] as Color3
+  }
+
+  const steps = nodes.map((node): ((values: Value[], sample: MaterialSample) => Value) => {
+    switch (node.type) {
+      case 'color':
+        return () => node.color
+      case 'constant':
+        return () => node.value
+      case 'gradient': {
+        const axis = axisToInt(node.axis)
+        return (_, sample) =>
+          getGradientFactor(
+            sample.localPosition,
+            sample.globalPosition,
+            gridPosition,
+            axis,
+            boundaryMode,
+            neighborInfluence
+          )
+      }
+      case 'noise': {
+        const type = noiseTypeToInt(node.noise)
+        const scale = node.scale ?? CUBE_DEFAULTS.noise.scale
+        const octaves = node.octaves ?? CUBE_DEFAULTS.noise.octaves
+        const persistence = node.persistence ?? CUBE_DEFAULTS.noise.persistence
+        const seed = normalizeNoiseSeed(node.seed ?? CUBE_DEFAULTS.noise.seed)
+        return (_, sample) => {
+          const source = boundaryMode === 0 ? sample.worldPosition : sample.globalPosition
+          return computeNoise(
+            source[0] * scale,
+            source[1] * scale,
+            source[2] * scale,
+            type,
+            octaves,
+            persistence,
+            seed
+          )
+        }
+      }
+      case 'remap': {
+        const input = scalar(node.input)
+        const [from0, from1] = node.from ?? [0, 1]
+        const [to0, to1] = node.to
+        return (values) => {
+          const value = mix(to0, to1, (input(values) - from0) / (from1 - from0))
+          return node.clamp ? clamp(value, Math.min(to0, to1), Math.max(to0, to1)) : value
+        }
+      }
+      case 'mask': {
+        const axis = MASK_AXIS[node.axis]
+        return (_, sample) => getRegionMask(sample.localPosition, axis, node.start, node.end)
+      }
+      case 'math': {
+        const [a, b] = [scalar(node.a), scalar(node.b)]
+        const operation = {
+          add: (x: number, y: number) => x + y,
+          subtract: (x: number, y: number) => x - y,
+          multiply: (x: number, y: number) => x * y,
+          min: Math.min,
+          max: Math.max,
+        }[node.operation]
+        return (values) => operation(a(values), b(values))
+      }
+      case 'blend': {
+        const [base, layer, factor] = [
+          color(node.base),
+          color(node.layer),
+          scalar(node.factor ?? 1),
+        ]
+        const blend = CPU_BLEND[node.mode]
+        return (values) => {
+          const [b, l, f] = [base(values), layer(values), factor(values)]
+          return [blend(b[0], l[0], f), blend(b[1], l[1], f), blend(b[2], l[2], f)]
+        }
+      }
+    }
+  })
+
+  const output = slots.get(graph.output)!
+  return (sample) => {
+    const values: Value[] = []
+    for (let i = 0; i < steps.length; i++) values.push(steps[i](values, sample))
+    const [r, g, b] = values[output] as Color3
+    return [r, g, b]
+  }
+}
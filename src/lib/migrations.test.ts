@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the schema migration pipeline
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MigrationError,
+  SCHEMA_MIGRATIONS,
+  detectDocumentKind,
+  formatMigrationReport,
+  getSchemaVersion,
+  migrateCube,
+  migrateDocument,
+  migrateStack,
+} from './migrations'
+import type { SchemaMigration } from './migrations'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
+import { isValidCube } from './validation'
+import stoneMoss from '../../examples/stone-moss.json'
+
+const legacyCube = { id: 'legacy', base: { color: [0.5, 0.5, 0.5] } }
+
+describe('migrations', () => {
+  describe('getSchemaVersion', () => {
+    it('should treat documents without schema_version as version 1', () => {
+      expect(getSchemaVersion(legacyCube)).toBe(1)
+      expect(getSchemaVersion({ schema_version: 2 })).toBe(2)
+    })
+  })
+
+  describe('detectDocumentKind', () => {
+    it('should tell cubes, FFT cubes and stacks apart', () => {
+      expect(detectDocumentKind(legacyCube)).toBe('cube')
+      expect(detectDocumentKind({ id: 'f', is_magical: true, channels: {} })).toBe('fftCube')
+      expect(detectDocumentKind({ id: 's', layers: [] })).toBe('stack')
+    })
+  })
+
+  describe('migrateDocument', () => {
+    it('should have a step from every older version for every kind', () => {
+      for (const steps of Object.values(SCHEMA_MIGRATIONS)) {
+        for (let version = 1; version < CURRENT_SCHEMA_VERSION; version++) {
+          expect(steps.some((step) => step.from === version)).toBe(true)
+        }
+      }
+    })
+
+    it('should upgrade version 1 cubes and report the applied steps', () => {
+      const { document, report } = migrateCube(legacyCube)
+      expect(document.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+      expect(report).toEqual({
+        kind: 'cube',
+        fromVersion: 1,
+        toVersion: CURRENT_SCHEMA_VERSION,
+        applied: ['Added schema_version'],
+      })
+      expect(isValidCube(document)).toBe(true)
+    })
+
+    it('should not modify the input document', () => {
+      const input = structuredClone(stoneMoss)
+      migrateCube(input)
+      expect(input).toEqual(stoneMoss)
+    })
+
+    it('should return current documents unchanged without a report', () => {
+      const current = { ...legacyCube, schema_version: CURRENT_SCHEMA_VERSION }
+      const result = migrateCube(current)
+      expect(result.document).toBe(current)
+      expect(result.report).toBeNull()
+    })
+
+    it('should upgrade the layer cubes of stacks', () => {
+      const { document } = migrateStack({
+        id: 'stack',
+        layers: [{ id: 'layer', cubeConfig: legacyCube }],
+        totalHeight: 1,
+      })
+      expect(document.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+      expect(document.layers[0].cubeConfig.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
+    it('should run custom steps in order', () => {
+      const steps: SchemaMigration[] = [
+        { from: 2, description: 'b', migrate: (doc) => ({ ...doc, trail: `${doc.trail}b` }) },
+        { from: 1, description: 'a', migrate: (doc) => ({ ...doc, trail: 'a' }) },
+      ]
+      const { document, report } = migrateDocument(legacyCube, 'cube', steps, 3)
+      expect(document).toMatchObject({ trail: 'ab', schema_version: 3 })
+      expect(report?.applied).toEqual(['a', 'b'])
+    })
+
+    it('should reject documents from newer versions', () => {
+      expect(() => migrateCube({ ...legacyCube, schema_version: 99 })).toThrow(
+        'only versions up to'
+      )
+    })
+
+    it('should reject missing steps and non-objects', () => {
+      expect(() => migrateDocument(legacyCube, 'cube', [], 2)).toThrow(
+        'No cube migration from schema version 1'
+      )
+      expect(() => migrateCube([legacyCube])).toThrow(MigrationError)
+      expect(() => migrateCube({ ...legacyCube, schema_version: 0 })).toThrow(
+        'Invalid schema_version'
+      )
+    })
+  })
+
+  describe('formatMigrationReport', () => {
+    it('should describe the upgrade', () => {
+      const { report } = migrateCube(legacyCube)
+      expect(formatMigrationReport(report!)).toBe(
+        'Upgraded cube from schema v1 to v2: Added schema_version'
+      )
+    })
+  })
+})
@@ -0,0 +1,205 @@
+/**
+ * Schema migration pipeline for cube JSON
+ * Upgrades SpectralCube, FFTCubeConfig and CubeStackConfig documents written
+ * with older schema versions before they are validated, so exported files,
+ * localStorage entries, presets and share links keep loading as the schema grows
+ *
+ * To change the format: bump CURRENT_SCHEMA_VERSION in types/cube.ts and
+ * append a step from the previous version to every list in SCHEMA_MIGRATIONS
+ */
+
+import type { FFTCubeConfig, SpectralCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+
+/** Kinds of documents that carry a schema_version */
+export type SchemaDocumentKind = 'cube' | 'fftCube' | 'stack'
+
+/** Untyped JSON object being migrated */
+export type SchemaDocument = Record<string, unknown>
+
+/**
+ * A single upgrade step from one schema version to the next
+ */
+export interface SchemaMigration {
+  /** Version the step applies to */
+  from: number
+  /** Human-readable summary used in migration reports */
+  description: string
+  /** Returns the upgraded document; receives a private copy it may modify */
+  migrate: (document: SchemaDocument) => SchemaDocument
+}
+
+/**
+ * What the pipeline changed in a document
+ */
+export interface MigrationReport {
+  kind: SchemaDocumentKind
+  /** Version of the input document */
+  fromVersion: number
+  /** Version after migration */
+  toVersion: number
+  /** Descriptions of the applied steps, in order */
+  applied: string[]
+}
+
+/**
+ * Result of migrating a document
+ */
+export interface MigrationResult<T> {
+  /** The upgraded document (the input itself when it was already current) */
+  document: T
+  /** Report of the applied steps, or null when nothing was upgraded */
+  report: MigrationReport | null
+}
+
+/**
+ * Error thrown when a document cannot be migrated
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MigrationError'
+  }
+}
+
+/**
+ * Version 1 documents predate the schema_version field; the pipeline stamps
+ * the new version after every step, so nothing else changes
+ */
+function unchanged(document: SchemaDocument): SchemaDocument {
+  return document
+}
+
+/**
+ * Ordered upgrade steps for each document kind
+ */
+export const SCHEMA_MIGRATIONS: Record<SchemaDocumentKind, SchemaMigration[]> = {
+  cube: [{ from: 1, description: 'Added schema_version', migrate: unchanged }],
+  fftCube: [{ from: 1, description: 'Added schema_version', migrate: unchanged }],
+  stack: [
+    {
+      from: 1,
+      description: 'Added schema_version and upgraded layer cubes',
+      migrate: (document) => {
+        const layers = Array.isArray(document.layers) ? document.layers : []
+        return {
+          ...document,
+          layers: layers.map((layer: SchemaDocument) =>
+            isSchemaDocument(layer.cubeConfig)
+              ? { ...layer, cubeConfig: migrateDocument(layer.cubeConfig, 'cube').document }
+              : layer
+          ),
+        }
+      },
+    },
+  ],
+}
+
+function isSchemaDocument(value: unknown): value is SchemaDocument {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Returns the schema version of a document (1 when the field is missing)
+ */
+export function getSchemaVersion(document: SchemaDocument): number {
+  const version = document.schema_version
+  return typeof version === 'number' ? version : 1
+}
+
+/**
+ * Guesses the kind of a document from its shape
+ */
+export function detectDocumentKind(document: SchemaDocument): SchemaDocumentKind {
+  if (Array.isArray(document.layers)) return 'stack'
+  if (document.is_magical === true || isSchemaDocument(document.channels)) return 'fftCube'
+  return 'cube'
+}
+
+/**
+ * Upgrades a document to CURRENT_SCHEMA_VERSION
+ * The input is never modified
+ * @param document - Parsed JSON document
+ * @param kind - Document kind (detected from the shape when omitted)
+ * @param migrations - Upgrade steps (defaults to SCHEMA_MIGRATIONS for the kind)
+ * @param targetVersion - Version to upgrade to (defaults to CURRENT_SCHEMA_VERSION)
+ * @throws MigrationError for non-objects, documents from a newer version, or missing steps
+ */
+export function migrateDocument<T = SchemaDocument>(
+  document: unknown,
+  kind?: SchemaDocumentKind,
+  migrations?: SchemaMigration[],
+  targetVersion: number = CURRENT_SCHEMA_VERSION
+): MigrationResult<T> {
+  if (!isSchemaDocument(document)) {
+    throw new MigrationError(
+      `Expected a JSON object, got ${Array.isArray(document) ? 'array' : typeof document}`
+    )
+  }
+
+  const documentKind = kind ?? detectDocumentKind(document)
+  const steps = migrations ?? SCHEMA_MIGRATIONS[documentKind]
+  const fromVersion = getSchemaVersion(document)
+
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new MigrationError(`Invalid schema_version: ${String(document.schema_version)}`)
+  }
+  if (fromVersion > targetVersion) {
+    throw new MigrationError(
+      `This ${documentKind} uses schema version ${fromVersion}, but only versions up to ` +
+        `${targetVersion} are supported; please update the editor`
+    )
+  }
+  if (fromVersion === targetVersion) {
+    return { document: document as T, report: null }
+  }
+
+  let current: SchemaDocument = structuredClone(document)
+  const applied: string[] = []
+  for (let version = fromVersion; version < targetVersion; version++) {
+    const step = steps.find((migration) => migration.from === version)
+    if (!step) {
+      throw new MigrationError(`No ${documentKind} migration from schema version ${version}`)
+    }
+    current = { ...step.migrate(current), schema_version: version + 1 }
+    applied.push(step.description)
+  }
+
+  return {
+    document: current as T,
+    report: { kind: documentKind, fromVersion, toVersion: targetVersion, applied },
+  }
+}
+
+/**
+ * Upgrades a SpectralCube document
+ */
+export function migrateCube(document: unknown): MigrationResult<SpectralCube> {
+  return migrateDocument<SpectralCube>(document, 'cube')
+}
+
+/**
+ * Upgrades an FFTCubeConfig document
+ */
+export function migrateFFTCube(document: unknown): MigrationResult<FFTCubeConfig> {
+  return migrateDocument<FFTCubeConfig>(document, 'fftCube')
+}
+
+/**
+ * Upgrades a CubeStackConfig document (including its layer cubes)
+ */
+export function migrateStack(document: unknown): MigrationResult<CubeStackConfig> {
+  return migrateDocument<CubeStackConfig>(document, 'stack')
+}
+
+/**
+ * Formats a migration report for display
+ * @example "Upgraded cube from schema v1 to v2: Added schema_version"
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+  return (
+    `Upgraded ${report.kind} from schema v${report.fromVersion} to v${report.toVersion}: ` +
+    report.applied.join('; ')
+  )
+}
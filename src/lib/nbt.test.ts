@@ -0,0 +1,113 @@
+/**
+ * Unit tests for the NBT codec
+ */
+
+import { describe, it, expect } from 'vitest'
+import { gunzipSync, gzipSync } from 'node:zlib'
+import { isGzip, readNBT, readNBTFile, writeNBT, writeNBTFile } from './nbt'
+import type { NBTDocument } from './nbt'
+
+/** The "hello world" test file from the NBT specification */
+const HELLO_WORLD = new Uint8Array([
+  0x0a, 0x00, 0x0b, 0x68, 0x65, 0x6c, 0x6c, 0x6f, 0x20, 0x77, 0x6f, 0x72, 0x6c, 0x64, 0x08, 0x00,
+  0x04, 0x6e, 0x61, 0x6d, 0x65, 0x00, 0x09, 0x42, 0x61, 0x6e, 0x61, 0x6e, 0x72, 0x61, 0x6d, 0x61,
+  0x00,
+])
+
+const sample: NBTDocument = {
+  name: 'Root',
+  root: {
+    type: 'compound',
+    value: {
+      byte: { type: 'byte', value: -5 },
+      short: { type: 'short', value: 1234 },
+      int: { type: 'int', value: -100000 },
+      long: { type: 'long', value: 9007199254740993n },
+      float: { type: 'float', value: 0.5 },
+      double: { type: 'double', value: Math.PI },
+      bytes: { type: 'byteArray', value: Int8Array.from([1, -2, 3]) },
+      text: { type: 'string', value: 'Блок' },
+      list: {
+        type: 'list',
+        itemType: 'int',
+        value: [
+          { type: 'int', value: 1 },
+          { type: 'int', value: 2 },
+        ],
+      },
+      empty: { type: 'list', itemType: 'end', value: [] },
+      nested: { type: 'compound', value: { flag: { type: 'byte', value: 1 } } },
+      ints: { type: 'intArray', value: Int32Array.from([7, -8]) },
+      longs: { type: 'longArray', value: BigInt64Array.from([1n, -1n]) },
+    },
+  },
+}
+
+describe('nbt', () => {
+  describe('readNBT', () => {
+    it('should decode the specification hello world file', () => {
+      expect(readNBT(HELLO_WORLD)).toEqual({
+        name: 'hello world',
+        root: { type: 'compound', value: { name: { type: 'string', value: 'Bananrama' } } },
+      })
+    })
+
+    it('should reject truncated data and non-compound roots', () => {
+      expect(() => readNBT(HELLO_WORLD.subarray(0, 20))).toThrow('Truncated NBT data')
+      expect(() => readNBT(new Uint8Array([8, 0, 0, 0, 0]))).toThrow('root must be a compound')
+    })
+  })
+
+  describe('writeNBT', () => {
+    it('should encode the specification hello world file byte for byte', () => {
+      expect(Array.from(writeNBT(readNBT(HELLO_WORLD)))).toEqual(Array.from(HELLO_WORLD))
+    })
+
+    it('should round-trip every tag type', () => {
+      expect(readNBT(writeNBT(sample))).toEqual(sample)
+    })
+
+    it('should grow its buffer for large payloads', () => {
+      const large: NBTDocument = {
+        name: 'x'.repeat(2000),
+        root: {
+          type: 'compound',
+          value: { data: { type: 'byteArray', value: new Int8Array(5000).fill(7) } },
+        },
+      }
+      expect(readNBT(writeNBT(large))).toEqual(large)
+    })
+
+    it('should reject lists with mixed item types', () => {
+      expect(() =>
+        writeNBT({
+          name: '',
+          root: {
+            type: 'compound',
+            value: {
+              list: { type: 'list', itemType: 'int', value: [{ type: 'byte', value: 1 }] },
+            },
+          },
+        })
+      ).toThrow('NBT list of int contains a byte')
+    })
+  })
+
+  describe('gzip files', () => {
+    it('should detect gzip data', () => {
+      expect(isGzip(gzipSync(Buffer.from('x')))).toBe(true)
+      expect(isGzip(HELLO_WORLD)).toBe(false)
+    })
+
+    it('should read gzip compressed and plain files', async () => {
+      expect((await readNBTFile(new Uint8Array(gzipSync(HELLO_WORLD)))).name).toBe('hello world')
+      expect((await readNBTFile(HELLO_WORLD)).name).toBe('hello world')
+    })
+
+    it('should write gzip files that zlib can inflate', async () => {
+      const file = await writeNBTFile(sample)
+      expect(isGzip(file)).toBe(true)
+      expect(readNBT(new Uint8Array(gunzipSync(file)))).toEqual(sample)
+    })
+  })
+})
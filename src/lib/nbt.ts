@@ -0,0 +1,324 @@
+/**
+ * Named Binary Tag (NBT) reader and writer
+ * Minimal big-endian NBT codec used for Minecraft-style schematic files,
+ * with optional gzip wrapping via the Compression Streams API
+ */
+
+/** NBT tag type names, in tag ID order starting at 1 */
+export type NBTTagType =
+  | 'byte'
+  | 'short'
+  | 'int'
+  | 'long'
+  | 'float'
+  | 'double'
+  | 'byteArray'
+  | 'string'
+  | 'list'
+  | 'compound'
+  | 'intArray'
+  | 'longArray'
+
+/** Compound tag: named child tags */
+export interface NBTCompound {
+  type: 'compound'
+  value: Record<string, NBTTag>
+}
+
+/** List tag: unnamed child tags of a single type */
+export interface NBTList {
+  type: 'list'
+  /** Type of every item ('end' only for empty lists written by some tools) */
+  itemType: NBTTagType | 'end'
+  value: NBTTag[]
+}
+
+/** Any NBT tag */
+export type NBTTag =
+  | { type: 'byte'; value: number }
+  | { type: 'short'; value: number }
+  | { type: 'int'; value: number }
+  | { type: 'long'; value: bigint }
+  | { type: 'float'; value: number }
+  | { type: 'double'; value: number }
+  | { type: 'byteArray'; value: Int8Array }
+  | { type: 'string'; value: string }
+  | NBTList
+  | NBTCompound
+  | { type: 'intArray'; value: Int32Array }
+  | { type: 'longArray'; value: BigInt64Array }
+
+/** A decoded NBT file: the root compound and its name */
+export interface NBTDocument {
+  name: string
+  root: NBTCompound
+}
+
+const TAG_TYPES: (NBTTagType | 'end')[] = [
+  'end',
+  'byte',
+  'short',
+  'int',
+  'long',
+  'float',
+  'double',
+  'byteArray',
+  'string',
+  'list',
+  'compound',
+  'intArray',
+  'longArray',
+]
+
+/**
+ * Sequential big-endian reader over a byte buffer
+ */
+class NBTReader {
+  private readonly view: DataView
+  private readonly bytes: Uint8Array
+  private offset = 0
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  private take(length: number): number {
+    if (length < 0 || this.offset + length > this.bytes.length) {
+      throw new Error('Truncated NBT data')
+    }
+    const start = this.offset
+    this.offset += length
+    return start
+  }
+
+  tagType(): NBTTagType | 'end' {
+    const id = this.view.getUint8(this.take(1))
+    const type = TAG_TYPES[id]
+    if (!type) throw new Error(`Unknown NBT tag type ${id}`)
+    return type
+  }
+
+  string(): string {
+    const length = this.view.getUint16(this.take(2))
+    const start = this.take(length)
+    return new TextDecoder().decode(this.bytes.subarray(start, start + length))
+  }
+
+  payload(type: NBTTagType): NBTTag {
+    switch (type) {
+      case 'byte':
+        return { type, value: this.view.getInt8(this.take(1)) }
+      case 'short':
+        return { type, value: this.view.getInt16(this.take(2)) }
+      case 'int':
+        return { type, value: this.view.getInt32(this.take(4)) }
+      case 'long':
+        return { type, value: this.view.getBigInt64(this.take(8)) }
+      case 'float':
+        return { type, value: this.view.getFloat32(this.take(4)) }
+      case 'double':
+        return { type, value: this.view.getFloat64(this.take(8)) }
+      case 'byteArray': {
+        const length = this.view.getInt32(this.take(4))
+        const start = this.take(length)
+        return { type, value: Int8Array.from(this.bytes.subarray(start, start + length)) }
+      }
+      case 'string':
+        return { type, value: this.string() }
+      case 'list': {
+        const itemType = this.tagType()
+        const length = this.view.getInt32(this.take(4))
+        const value: NBTTag[] = []
+        if (itemType !== 'end') {
+          for (let i = 0; i < length; i++) value.push(this.payload(itemType))
+        }
+        return { type, itemType, value }
+      }
+      case 'compound': {
+        const value: Record<string, NBTTag> = {}
+        for (let child = this.tagType(); child !== 'end'; child = this.tagType()) {
+          const name = this.string()
+          value[name] = this.payload(child)
+        }
+        return { type, value }
+      }
+      case 'intArray': {
+        const length = this.view.getInt32(this.take(4))
+        const start = this.take(length * 4)
+        const value = new Int32Array(length)
+        for (let i = 0; i < length; i++) value[i] = this.view.getInt32(start + i * 4)
+        return { type, value }
+      }
+      case 'longArray': {
+        const length = this.view.getInt32(this.take(4))
+        const start = this.take(length * 8)
+        const value = new BigInt64Array(length)
+        for (let i = 0; i < length; i++) value[i] = this.view.getBigInt64(start + i * 8)
+        return { type, value }
+      }
+    }
+  }
+}
+
+/**
+ * Growable big-endian byte writer
+ * Every write reserves space first, since growing replaces the buffer and view
+ */
+class NBTWriter {
+  private bytes = new Uint8Array(1024)
+  private view = new DataView(this.bytes.buffer)
+  private length = 0
+
+  private reserve(size: number): number {
+    if (this.length + size > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + size))
+      grown.set(this.bytes.subarray(0, this.length))
+      this.bytes = grown
+      this.view = new DataView(grown.buffer)
+    }
+    const start = this.length
+    this.length += size
+    return start
+  }
+
+  private raw(bytes: Uint8Array): void {
+    const start = this.reserve(bytes.length)
+    this.bytes.set(bytes, start)
+  }
+
+  private number(size: 1 | 2 | 4 | 8, write: (view: DataView, offset: number) => void): void {
+    const start = this.reserve(size)
+    write(this.view, start)
+  }
+
+  tagType(type: NBTTagType | 'end'): void {
+    this.number(1, (view, at) => view.setUint8(at, TAG_TYPES.indexOf(type)))
+  }
+
+  string(text: string): void {
+    const encoded = new TextEncoder().encode(text)
+    if (encoded.length > 0xffff) throw new Error('NBT string is longer than 65535 bytes')
+    this.number(2, (view, at) => view.setUint16(at, encoded.length))
+    this.raw(encoded)
+  }
+
+  private arrayLength(length: number): void {
+    this.number(4, (view, at) => view.setInt32(at, length))
+  }
+
+  payload(tag: NBTTag): void {
+    switch (tag.type) {
+      case 'byte':
+        this.number(1, (view, at) => view.setInt8(at, tag.value))
+        break
+      case 'short':
+        this.number(2, (view, at) => view.setInt16(at, tag.value))
+        break
+      case 'int':
+        this.number(4, (view, at) => view.setInt32(at, tag.value))
+        break
+      case 'long':
+        this.number(8, (view, at) => view.setBigInt64(at, tag.value))
+        break
+      case 'float':
+        this.number(4, (view, at) => view.setFloat32(at, tag.value))
+        break
+      case 'double':
+        this.number(8, (view, at) => view.setFloat64(at, tag.value))
+        break
+      case 'byteArray':
+        this.arrayLength(tag.value.length)
+        this.raw(new Uint8Array(tag.value.buffer, tag.value.byteOffset, tag.value.length))
+        break
+      case 'string':
+        this.string(tag.value)
+        break
+      case 'list':
+        this.tagType(tag.value.length > 0 ? tag.itemType : 'end')
+        this.arrayLength(tag.value.length)
+        for (const item of tag.value) {
+          if (item.type !== tag.itemType) {
+            throw new Error(`NBT list of ${tag.itemType} contains a ${item.type}`)
+          }
+          this.payload(item)
+        }
+        break
+      case 'compound':
+        for (const [name, child] of Object.entries(tag.value)) {
+          this.tagType(child.type)
+          this.string(name)
+          this.payload(child)
+        }
+        this.tagType('end')
+        break
+      case 'intArray':
+        this.arrayLength(tag.value.length)
+        for (const value of tag.value) this.number(4, (view, at) => view.setInt32(at, value))
+        break
+      case 'longArray':
+        this.arrayLength(tag.value.length)
+        for (const value of tag.value) this.number(8, (view, at) => view.setBigInt64(at, value))
+        break
+    }
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+/**
+ * Decodes uncompressed NBT data
+ * @throws Error when the data is truncated or the root is not a compound
+ */
+export function readNBT(bytes: Uint8Array): NBTDocument {
+  const reader = new NBTReader(bytes)
+  if (reader.tagType() !== 'compound') throw new Error('NBT root must be a compound tag')
+  const name = reader.string()
+  return { name, root: reader.payload('compound') as NBTCompound }
+}
+
+/**
+ * Encodes an NBT document without compression
+ */
+export function writeNBT(document: NBTDocument): Uint8Array<ArrayBuffer> {
+  const writer = new NBTWriter()
+  writer.tagType('compound')
+  writer.string(document.name)
+  writer.payload(document.root)
+  return writer.result()
+}
+
+/**
+ * Returns true when the bytes start with the gzip magic number
+ */
+export function isGzip(bytes: Uint8Array): boolean {
+  return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b
+}
+
+async function transform(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array<ArrayBuffer>> {
+  const writer = stream.writable.getWriter()
+  const written = writer.write(bytes).then(() => writer.close())
+  const [result] = await Promise.all([new Response(stream.readable).arrayBuffer(), written])
+  return new Uint8Array(result)
+}
+
+/**
+ * Decodes an NBT file, inflating it first when it is gzip compressed
+ */
+export async function readNBTFile(bytes: Uint8Array): Promise<NBTDocument> {
+  if (!isGzip(bytes)) return readNBT(bytes)
+  // Streams only take bytes backed by an ArrayBuffer
+  return readNBT(await transform(new Uint8Array(bytes), new DecompressionStream('gzip')))
+}
+
+/**
+ * Encodes an NBT document as a gzip compressed file (the format Minecraft tools expect)
+ */
+export async function writeNBTFile(document: NBTDocument): Promise<Uint8Array<ArrayBuffer>> {
+  return transform(writeNBT(document), new CompressionStream('gzip'))
+}
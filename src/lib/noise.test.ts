@@ -0,0 +1,150 @@
+/**
+ * Unit tests for the seeded CPU reference noise
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  MAX_NOISE_SEED,
+  normalizeNoiseSeed,
+  pcg3d,
+  hash3,
+  gradientNoise,
+  fbm,
+  worleyNoise,
+  crackleNoise,
+  computeNoise,
+} from './noise'
+
+/** Samples a noise function on a small grid */
+function sample(fn: (x: number, y: number, z: number) => number, step = 0.37): number[] {
+  const values: number[] = []
+  for (let x = 0; x < 4; x++) {
+    for (let y = 0; y < 4; y++) {
+      for (let z = 0; z < 4; z++) {
+        values.push(fn(x * step + 0.1, y * step + 0.2, z * step + 0.3))
+      }
+    }
+  }
+  return values
+}
+
+describe('noise', () => {
+  describe('normalizeNoiseSeed', () => {
+    it('should keep seeds in range unchanged', () => {
+      expect(normalizeNoiseSeed(0)).toBe(0)
+      expect(normalizeNoiseSeed(42)).toBe(42)
+      expect(normalizeNoiseSeed(MAX_NOISE_SEED)).toBe(MAX_NOISE_SEED)
+    })
+
+    it('should wrap negative and large seeds into [0, 2^24)', () => {
+      expect(normalizeNoiseSeed(-1)).toBe(MAX_NOISE_SEED)
+      expect(normalizeNoiseSeed(MAX_NOISE_SEED + 1)).toBe(0)
+      expect(normalizeNoiseSeed(999999999)).toBe(999999999 % 16777216)
+    })
+
+    it('should truncate fractions and ignore non-finite seeds', () => {
+      expect(normalizeNoiseSeed(7.9)).toBe(7)
+      expect(normalizeNoiseSeed(NaN)).toBe(0)
+      expect(normalizeNoiseSeed(Infinity)).toBe(0)
+    })
+  })
+
+  describe('pcg3d', () => {
+    it('should match the reference uint32 PCG3D values', () => {
+      expect(pcg3d(0, 0, 0)).toEqual([2611992518, 2833812075, 1058359340])
+      expect(pcg3d(1, 2, 3)).toEqual([4204755366, 1223881804, 1500469937])
+      expect(pcg3d(0xffffffff, 0, 5)).toEqual([1950919947, 793867229, 665230363])
+    })
+  })
+
+  describe('hash3', () => {
+    it('should return values in [0, 1)', () => {
+      for (let i = -5; i < 5; i++) {
+        for (const value of hash3(i, i * 3, -i * 7, 99)) {
+          expect(value).toBeGreaterThanOrEqual(0)
+          expect(value).toBeLessThan(1)
+        }
+      }
+    })
+
+    it('should use the top 24 bits of the PCG3D hash', () => {
+      const [hx] = pcg3d(1, 2, 3)
+      expect(hash3(1, 2, 3)[0]).toBe((hx >>> 8) / 16777216)
+    })
+
+    it('should treat negative cells as two complement integers', () => {
+      expect(hash3(-1, 0, 0)).toEqual(hash3(0xffffffff, 0, 0))
+    })
+
+    it('should change with the seed', () => {
+      expect(hash3(1, 2, 3, 1)).not.toEqual(hash3(1, 2, 3, 2))
+    })
+  })
+
+  describe('gradientNoise', () => {
+    it('should be zero at lattice points', () => {
+      expect(gradientNoise(2, 3, 4, 5)).toBe(0)
+    })
+
+    it('should stay roughly in [-1, 1]', () => {
+      for (const value of sample((x, y, z) => gradientNoise(x, y, z, 3))) {
+        expect(Math.abs(value)).toBeLessThanOrEqual(1)
+      }
+    })
+  })
+
+  describe('fbm', () => {
+    it('should return 0 without octaves', () => {
+      expect(fbm(0.5, 0.5, 0.5, 0, 0.5)).toBe(0)
+    })
+
+    it('should cap octaves at 8 like the shader', () => {
+      expect(fbm(1.3, 2.7, 0.4, 20, 0.5, 1)).toBe(fbm(1.3, 2.7, 0.4, 8, 0.5, 1))
+    })
+  })
+
+  describe('worleyNoise and crackleNoise', () => {
+    it('should return non-negative distances', () => {
+      for (const value of sample((x, y, z) => worleyNoise(x, y, z, 4))) {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThanOrEqual(1)
+      }
+      for (const value of sample((x, y, z) => crackleNoise(x, y, z, 4))) {
+        expect(value).toBeGreaterThanOrEqual(0)
+      }
+    })
+  })
+
+  describe('computeNoise', () => {
+    it('should be deterministic for the same seed', () => {
+      for (const type of [1, 2, 3]) {
+        const a = sample((x, y, z) => computeNoise(x, y, z, type, 4, 0.5, 1234))
+        const b = sample((x, y, z) => computeNoise(x, y, z, type, 4, 0.5, 1234))
+        expect(a).toEqual(b)
+      }
+    })
+
+    it('should vary with the seed', () => {
+      const a = sample((x, y, z) => computeNoise(x, y, z, 1, 4, 0.5, 1))
+      const b = sample((x, y, z) => computeNoise(x, y, z, 1, 4, 0.5, 2))
+      const differing = a.filter((value, i) => Math.abs(value - b[i]) > 0.01)
+      expect(differing.length).toBeGreaterThan(a.length / 2)
+    })
+
+    it('should normalize Perlin output to [0, 1]', () => {
+      for (const value of sample((x, y, z) => computeNoise(x, y, z, 1, 4, 0.5, 9))) {
+        expect(value).toBeGreaterThanOrEqual(0)
+        expect(value).toBeLessThanOrEqual(1)
+      }
+    })
+
+    it('should return 0 for noise type none', () => {
+      expect(computeNoise(0.5, 0.5, 0.5, 0, 4, 0.5)).toBe(0)
+    })
+
+    it('should return float32 values', () => {
+      const value = computeNoise(1.3, 0.7, 2.1, 1, 4, 0.5, 77)
+      expect(Math.fround(value)).toBe(value)
+    })
+  })
+})
@@ -0,0 +1,233 @@
+/**
+ * Seeded procedural noise (CPU reference implementation)
+ *
+ * Mirrors the noise functions of parametric-cube.glsl and the WGSL compute
+ * shaders in webgpu-compute.ts so CPU-rendered previews, bakes and tests match
+ * the viewport:
+ * - Lattice hashing uses the PCG3D integer hash, which is exact on every
+ *   backend (GLSL ES 3.0 / WGSL unsigned integers, Math.imul on the CPU)
+ * - Hash output keeps 24 bits, so the integer → float conversion is exact
+ * - All floating point steps are rounded to float32 (Math.fround) in the same
+ *   order as the shader code; GLSL `mix` is evaluated as `a * (1 - t) + b * t`
+ *
+ * Any change to the noise functions here must be applied to the shaders too.
+ */
+
+const f32 = Math.fround
+
+/** Largest seed that is exactly representable as a float32 uniform */
+export const MAX_NOISE_SEED = 16777215
+
+/** Scale that maps a 24-bit hash to [0, 1) (2^-24, exact in float32) */
+const HASH_TO_UNIT = 1 / 16777216
+
+/** Per-axis seed multipliers (same constants as the shaders) */
+const SEED_MULTIPLIERS: [number, number, number] = [0x9e3779b9, 0x85ebca6b, 0xc2b2ae35]
+
+/**
+ * Maps a seed of any size or sign into [0, MAX_NOISE_SEED]
+ * Shaders receive the seed as a float uniform, so it must stay below 2^24
+ */
+export function normalizeNoiseSeed(seed: number = 0): number {
+  if (!Number.isFinite(seed)) return 0
+  const range = MAX_NOISE_SEED + 1
+  const wrapped = Math.trunc(seed) % range
+  return wrapped < 0 ? wrapped + range : wrapped
+}
+
+/**
+ * PCG3D integer hash (Jarzynski & Olano, 2020) on unsigned 32-bit values
+ */
+export function pcg3d(x: number, y: number, z: number): [number, number, number] {
+  x = (Math.imul(x, 1664525) + 1013904223) >>> 0
+  y = (Math.imul(y, 1664525) + 1013904223) >>> 0
+  z = (Math.imul(z, 1664525) + 1013904223) >>> 0
+
+  x = (x + Math.imul(y, z)) >>> 0
+  y = (y + Math.imul(z, x)) >>> 0
+  z = (z + Math.imul(x, y)) >>> 0
+
+  x = (x ^ (x >>> 16)) >>> 0
+  y = (y ^ (y >>> 16)) >>> 0
+  z = (z ^ (z >>> 16)) >>> 0
+
+  x = (x + Math.imul(y, z)) >>> 0
+  y = (y + Math.imul(z, x)) >>> 0
+  z = (z + Math.imul(x, y)) >>> 0
+
+  return [x, y, z]
+}
+
+/**
+ * Hashes an integer lattice cell to three values in [0, 1)
+ * Equivalent to GLSL `hash3(vec3 p, float seed)`
+ */
+export function hash3(x: number, y: number, z: number, seed: number = 0): [number, number, number] {
+  const s = normalizeNoiseSeed(seed)
+  const [hx, hy, hz] = pcg3d(
+    ((x | 0) ^ Math.imul(s, SEED_MULTIPLIERS[0])) >>> 0,
+    ((y | 0) ^ Math.imul(s, SEED_MULTIPLIERS[1])) >>> 0,
+    ((z | 0) ^ Math.imul(s, SEED_MULTIPLIERS[2])) >>> 0
+  )
+  return [(hx >>> 8) * HASH_TO_UNIT, (hy >>> 8) * HASH_TO_UNIT, (hz >>> 8) * HASH_TO_UNIT]
+}
+
+/** GLSL `mix` in float32 */
+function mix(a: number, b: number, t: number): number {
+  return f32(f32(a * f32(1 - t)) + f32(b * t))
+}
+
+/** GLSL `dot` in float32 */
+function dot3(ax: number, ay: number, az: number, bx: number, by: number, bz: number): number {
+  return f32(f32(f32(ax * bx) + f32(ay * by)) + f32(az * bz))
+}
+
+/** Smooth interpolation curve f * f * (3 - 2f) in float32 */
+function fade(t: number): number {
+  return f32(f32(t * t) * f32(3 - f32(2 * t)))
+}
+
+/**
+ * 3D gradient noise (Perlin-like), roughly in [-1, 1]
+ */
+export function gradientNoise(x: number, y: number, z: number, seed: number = 0): number {
+  x = f32(x)
+  y = f32(y)
+  z = f32(z)
+  const ix = Math.floor(x)
+  const iy = Math.floor(y)
+  const iz = Math.floor(z)
+  const fx = f32(x - ix)
+  const fy = f32(y - iy)
+  const fz = f32(z - iz)
+
+  const corner = (cx: number, cy: number, cz: number): number => {
+    const h = hash3(ix + cx, iy + cy, iz + cz, seed)
+    return dot3(
+      f32(h[0] * 2) - 1,
+      f32(h[1] * 2) - 1,
+      f32(h[2] * 2) - 1,
+      f32(fx - cx),
+      f32(fy - cy),
+      f32(fz - cz)
+    )
+  }
+
+  const ux = fade(fx)
+  const uy = fade(fy)
+  const uz = fade(fz)
+
+  return mix(
+    mix(mix(corner(0, 0, 0), corner(1, 0, 0), ux), mix(corner(0, 1, 0), corner(1, 1, 0), ux), uy),
+    mix(mix(corner(0, 0, 1), corner(1, 0, 1), ux), mix(corner(0, 1, 1), corner(1, 1, 1), ux), uy),
+    uz
+  )
+}
+
+/**
+ * Fractal Brownian Motion over gradient noise, roughly in [-1, 1]
+ */
+export function fbm(
+  x: number,
+  y: number,
+  z: number,
+  octaves: number,
+  persistence: number,
+  seed: number = 0
+): number {
+  let value = 0
+  let amplitude = 0.5
+  let frequency = 1
+  let maxValue = 0
+  const p = f32(persistence)
+
+  for (let i = 0; i < Math.min(octaves, 8); i++) {
+    const n = gradientNoise(f32(x * frequency), f32(y * frequency), f32(z * frequency), seed)
+    value = f32(value + f32(amplitude * n))
+    maxValue = f32(maxValue + amplitude)
+    amplitude = f32(amplitude * p)
+    frequency = f32(frequency * 2)
+  }
+
+  return maxValue > 0 ? f32(value / maxValue) : 0
+}
+
+/**
+ * Distances to the nearest (F1) and second nearest (F2) cell centers
+ */
+function cellDistances(x: number, y: number, z: number, seed: number): [number, number] {
+  x = f32(x)
+  y = f32(y)
+  z = f32(z)
+  const ix = Math.floor(x)
+  const iy = Math.floor(y)
+  const iz = Math.floor(z)
+  const fx = f32(x - ix)
+  const fy = f32(y - iy)
+  const fz = f32(z - iz)
+
+  let minDist1 = 1
+  let minDist2 = 1
+
+  for (let dx = -1; dx <= 1; dx++) {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dz = -1; dz <= 1; dz++) {
+        const h = hash3(ix + dx, iy + dy, iz + dz, seed)
+        const diffX = f32(f32(dx + h[0]) - fx)
+        const diffY = f32(f32(dy + h[1]) - fy)
+        const diffZ = f32(f32(dz + h[2]) - fz)
+        const dist = f32(Math.sqrt(dot3(diffX, diffY, diffZ, diffX, diffY, diffZ)))
+
+        if (dist < minDist1) {
+          minDist2 = minDist1
+          minDist1 = dist
+        } else if (dist < minDist2) {
+          minDist2 = dist
+        }
+      }
+    }
+  }
+
+  return [minDist1, minDist2]
+}
+
+/**
+ * Worley (cellular) noise: distance to the nearest cell center
+ */
+export function worleyNoise(x: number, y: number, z: number, seed: number = 0): number {
+  return cellDistances(x, y, z, seed)[0]
+}
+
+/**
+ * Crackle noise (Worley F2 - F1)
+ */
+export function crackleNoise(x: number, y: number, z: number, seed: number = 0): number {
+  const [minDist1, minDist2] = cellDistances(x, y, z, seed)
+  return f32(minDist2 - minDist1)
+}
+
+/**
+ * Combined noise function, equivalent to GLSL `computeNoise`
+ * noiseType uses the shader integers (see noiseTypeToInt): 0=none, 1=perlin, 2=worley, 3=crackle
+ * Perlin output is normalized to [0, 1]; Worley and crackle return distances
+ */
+export function computeNoise(
+  x: number,
+  y: number,
+  z: number,
+  noiseType: number,
+  octaves: number,
+  persistence: number,
+  seed: number = 0
+): number {
+  switch (noiseType) {
+    case 1:
+      return f32(f32(fbm(x, y, z, octaves, persistence, seed) * 0.5) + 0.5)
+    case 2:
+      return worleyNoise(x, y, z, seed)
+    case 3:
+      return crackleNoise(x, y, z, seed)
+    default:
+      return 0
+  }
+}
@@ -347,6 +347,19 @@ describe('Performance Utilities', () => {
       // Should return default FPS
       expect(monitor.getAverageFPS()).toBe(60)
     })
+    it('should read frame times from an injected clock', () => {
+      let time = 1000
+      const monitor = new FrameRateMonitor(4, () => time)
+
+      for (const frameTime of [0, 20, 20, 40, 40, 40]) {
+        time += frameTime
+        monitor.recordFrame()
+      }
+
+      // Only the last 4 frame times are kept: 20, 40, 40, 40
+      expect(monitor.getSampleCount()).toBe(4)
+      expect(monitor.getAverageFPS()).toBeCloseTo(1000 / 35)
+    })
   })
 
   describe('lazyLoad', () => {
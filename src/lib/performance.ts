@@ -187,16 +187,22 @@ export class FrameRateMonitor {
   private frames: number[] = []
   private lastFrameTime = 0
   private readonly sampleSize: number
+  private readonly now: () => number
 
-  constructor(sampleSize = 60) {
+  /**
+   * @param sampleSize - Number of frame times averaged
+   * @param now - Clock in milliseconds (defaults to performance.now; pass a fake clock in tests)
+   */
+  constructor(sampleSize = 60, now: () => number = () => performance.now()) {
     this.sampleSize = sampleSize
+    this.now = now
   }
 
   /**
    * Record a frame
    */
   recordFrame(): void {
-    const now = performance.now()
+    const now = this.now()
     if (this.lastFrameTime > 0) {
       const frameTime = now - this.lastFrameTime
       this.frames.push(frameTime)
@@ -216,6 +222,13 @@ export class FrameRateMonitor {
     return 1000 / avgFrameTime
   }
 
+  /**
+   * Get the number of frame times in the sample window
+   */
+  getSampleCount(): number {
+    return this.frames.length
+  }
+
   /**
    * Check if FPS is below threshold
    */
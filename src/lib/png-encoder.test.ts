@@ -0,0 +1,80 @@
+/**
+ * Unit tests for the PNG encoder
+ */
+
+import { describe, it, expect } from 'vitest'
+import { inflateSync } from 'node:zlib'
+import { adler32, crc32, encodePNG } from './png-encoder'
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+/** Splits a PNG file into its chunks */
+function readChunks(png: Uint8Array): { type: string; data: Uint8Array }[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength)
+  const chunks: { type: string; data: Uint8Array }[] = []
+  let offset = 8
+  while (offset < png.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8))
+    const data = png.subarray(offset + 8, offset + 8 + length)
+    expect(view.getUint32(offset + 8 + length)).toBe(crc32(png, offset + 4, offset + 8 + length))
+    chunks.push({ type, data })
+    offset += 12 + length
+  }
+  return chunks
+}
+
+describe('png-encoder', () => {
+  describe('checksums', () => {
+    it('should compute the standard CRC-32 check value', () => {
+      expect(crc32(bytes('123456789'))).toBe(0xcbf43926)
+    })
+
+    it('should compute the standard Adler-32 value', () => {
+      expect(adler32(bytes('Wikipedia'))).toBe(0x11e60398)
+    })
+  })
+
+  describe('encodePNG', () => {
+    it('should write the PNG signature and IHDR', () => {
+      const png = encodePNG(3, 2, new Uint8Array(3 * 2 * 4))
+      expect(Array.from(png.subarray(0, 8))).toEqual([137, 80, 78, 71, 13, 10, 26, 10])
+
+      const chunks = readChunks(png)
+      expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND'])
+
+      const header = new DataView(chunks[0].data.buffer, chunks[0].data.byteOffset, 13)
+      expect(header.getUint32(0)).toBe(3)
+      expect(header.getUint32(4)).toBe(2)
+      expect(header.getUint8(8)).toBe(8) // bit depth
+      expect(header.getUint8(9)).toBe(6) // RGBA
+    })
+
+    it('should store pixel rows that a zlib decoder can read back', () => {
+      const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 10, 20, 30, 40])
+      const idat = readChunks(encodePNG(2, 2, rgba)).find((chunk) => chunk.type === 'IDAT')!
+      const raw = inflateSync(idat.data)
+
+      expect(raw.length).toBe(2 * (2 * 4 + 1))
+      expect(raw[0]).toBe(0) // filter: none
+      expect(Array.from(raw.subarray(1, 9))).toEqual(Array.from(rgba.subarray(0, 8)))
+      expect(raw[9]).toBe(0)
+      expect(Array.from(raw.subarray(10, 18))).toEqual(Array.from(rgba.subarray(8, 16)))
+    })
+
+    it('should split large images into several stored blocks', () => {
+      const size = 200
+      const rgba = new Uint8Array(size * size * 4).map((_, i) => i % 251)
+      const idat = readChunks(encodePNG(size, size, rgba)).find((chunk) => chunk.type === 'IDAT')!
+      const raw = inflateSync(idat.data)
+
+      expect(raw.length).toBe(size * (size * 4 + 1))
+      expect(raw[size * 4 + 1 + 5]).toBe(rgba[size * 4 + 4])
+    })
+
+    it('should reject mismatched buffers and invalid sizes', () => {
+      expect(() => encodePNG(2, 2, new Uint8Array(8))).toThrow('expected 16')
+      expect(() => encodePNG(0, 2, new Uint8Array(0))).toThrow('Invalid PNG dimensions')
+    })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Minimal PNG encoder
+ * Encodes 8-bit RGBA pixel buffers to PNG bytes without canvas, zlib or other
+ * platform APIs, so images can be produced in Node, workers and tests.
+ *
+ * Image data is written as stored (uncompressed) deflate blocks. The output is
+ * a valid PNG that every decoder reads, at the cost of a larger file; it is meant
+ * for thumbnails and previews, not for large images.
+ */
+
+/** PNG file signature */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/** Maximum payload of one stored deflate block */
+const MAX_STORED_BLOCK = 65535
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+/**
+ * CRC-32 (ISO 3309) as used by PNG chunks
+ */
+export function crc32(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = start; i < end; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Adler-32 checksum as used by zlib streams
+ */
+export function adler32(bytes: Uint8Array): number {
+  let a = 1
+  let b = 0
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521
+    b = (b + a) % 65521
+  }
+  return ((b << 16) | a) >>> 0
+}
+
+/**
+ * Wraps raw bytes in a zlib stream made of stored deflate blocks
+ */
+function zlibStore(raw: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(raw.length / MAX_STORED_BLOCK))
+  const out = new Uint8Array(2 + raw.length + blockCount * 5 + 4)
+  let offset = 0
+
+  // zlib header: deflate, 32K window, no preset dictionary, fastest level
+  out[offset++] = 0x78
+  out[offset++] = 0x01
+
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK
+    const length = Math.min(MAX_STORED_BLOCK, raw.length - start)
+    out[offset++] = block === blockCount - 1 ? 1 : 0 // BFINAL, BTYPE = 00 (stored)
+    out[offset++] = length & 0xff
+    out[offset++] = (length >>> 8) & 0xff
+    out[offset++] = ~length & 0xff
+    out[offset++] = (~length >>> 8) & 0xff
+    out.set(raw.subarray(start, start + length), offset)
+    offset += length
+  }
+
+  const checksum = adler32(raw)
+  out[offset++] = (checksum >>> 24) & 0xff
+  out[offset++] = (checksum >>> 16) & 0xff
+  out[offset++] = (checksum >>> 8) & 0xff
+  out[offset++] = checksum & 0xff
+
+  return out
+}
+
+function writeUint32(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = (value >>> 24) & 0xff
+  target[offset + 1] = (value >>> 16) & 0xff
+  target[offset + 2] = (value >>> 8) & 0xff
+  target[offset + 3] = value & 0xff
+}
+
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length)
+  writeUint32(chunk, 0, data.length)
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i)
+  }
+  chunk.set(data, 8)
+  writeUint32(chunk, 8 + data.length, crc32(chunk, 4, 8 + data.length))
+  return chunk
+}
+
+/**
+ * Encodes an RGBA buffer (row-major, 4 bytes per pixel, top row first) as PNG
+ * @throws Error if the buffer size does not match the dimensions
+ */
+export function encodePNG(
+  width: number,
+  height: number,
+  rgba: Uint8Array | Uint8ClampedArray
+): Uint8Array {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error(`Invalid PNG dimensions: ${width}x${height}`)
+  }
+  if (rgba.length !== width * height * 4) {
+    throw new Error(
+      `RGBA buffer has ${rgba.length} bytes, expected ${width * height * 4} for ${width}x${height}`
+    )
+  }
+
+  // IHDR: width, height, bit depth 8, colour type 6 (RGBA), deflate, adaptive filter, no interlace
+  const header = new Uint8Array(13)
+  writeUint32(header, 0, width)
+  writeUint32(header, 4, height)
+  header[8] = 8
+  header[9] = 6
+
+  // Scanlines, each prefixed with filter type 0 (none)
+  const stride = width * 4
+  const raw = new Uint8Array((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  const chunks = [
+    createChunk('IHDR', header),
+    createChunk('IDAT', zlibStore(raw)),
+    createChunk('IEND', new Uint8Array(0)),
+  ]
+
+  const png = new Uint8Array(
+    PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0)
+  )
+  png.set(PNG_SIGNATURE, 0)
+  let offset = PNG_SIGNATURE.length
+  for (const chunk of chunks) {
+    png.set(chunk, offset)
+    offset += chunk.length
+  }
+  return png
+}
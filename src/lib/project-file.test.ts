@@ -0,0 +1,198 @@
+/**
+ * Unit tests for .isocubic project files
+ */
+
+import { describe, it, expect } from 'vitest'
+import type { SpectralCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION, createDefaultCube } from '../types/cube'
+import { createCubeStack, createStackLayer } from '../types/stack'
+import type { WorldConfig } from '../types/world'
+import { DEFAULT_LOD_CONFIG } from '../types/lod'
+import type { StackPreset } from './stack-presets'
+import {
+  PROJECT_FILE_VERSION,
+  createProjectFile,
+  findProjectCollisions,
+  getCollisionKey,
+  parseProject,
+  readProjectFile,
+  resolveProjectCollisions,
+  serializeProject,
+} from './project-file'
+import type { ProjectContents } from './project-file'
+
+const stone: SpectralCube = {
+  ...createDefaultCube('stone'),
+  meta: { name: 'Stone' },
+}
+const grass: SpectralCube = { ...createDefaultCube('grass'), meta: { name: 'Grass' } }
+const stack = createCubeStack('tower', [
+  createStackLayer('tower_0', stone, 'bottom'),
+  createStackLayer('tower_1', grass, 'top'),
+])
+const preset: StackPreset = {
+  id: 'user_1',
+  name: 'Tower',
+  description: '',
+  tags: [],
+  category: 'custom',
+  config: stack,
+  isUserPreset: true,
+}
+const world: WorldConfig = {
+  id: 'island',
+  palette: { stone, grass },
+  stacks: { tower: stack },
+  cells: { '0,0,0': 'stone', '1,0,0': 'grass', '2,0,0': { stack: 'tower' } },
+}
+
+/** Project with every kind of item */
+function createContents(overrides: Partial<ProjectContents> = {}): ProjectContents {
+  return {
+    name: 'Island',
+    cubes: [stone],
+    fftCubes: [],
+    stacks: [stack],
+    stackPresets: [preset],
+    worlds: [world],
+    lod: DEFAULT_LOD_CONFIG,
+    editor: { currentCubeId: 'stone', currentWorldId: 'island' },
+    ...overrides,
+  }
+}
+
+describe('project-file', () => {
+  describe('createProjectFile', () => {
+    it('should store every cube and stack once and refer to them by id', () => {
+      const file = createProjectFile(createContents(), '2026-01-01T00:00:00Z')
+
+      expect(file).toMatchObject({
+        format: 'isocubic-project',
+        version: PROJECT_FILE_VERSION,
+        schema_version: CURRENT_SCHEMA_VERSION,
+        created: '2026-01-01T00:00:00Z',
+        cubes: ['stone'],
+        stacks: ['tower'],
+      })
+      expect(file.definitions.cubes.map((cube) => cube.id)).toEqual(['stone', 'grass'])
+      expect(file.definitions.stacks).toHaveLength(1)
+      expect(file.stackPresets[0]).toMatchObject({ id: 'user_1', stackId: 'tower' })
+      expect(file.stackPresets[0]).not.toHaveProperty('config')
+      expect(file.worlds[0].palette).toEqual({ stone: 'stone', grass: 'grass' })
+      expect(file.worlds[0].stacks).toEqual({ tower: 'tower' })
+    })
+
+    it('should keep differing items with the same id apart', () => {
+      const mossy = { ...stone, meta: { name: 'Mossy stone' } }
+      const file = createProjectFile(
+        createContents({ worlds: [{ ...world, palette: { stone: mossy, grass } }] })
+      )
+
+      expect(file.definitions.cubes.map((cube) => cube.id)).toEqual(['stone', 'stone_2', 'grass'])
+      expect(file.worlds[0].palette.stone).toBe('stone_2')
+    })
+  })
+
+  describe('readProjectFile', () => {
+    it('should round-trip the project contents', () => {
+      const contents = createContents()
+      const result = parseProject(serializeProject(contents))
+
+      expect(result.success).toBe(true)
+      expect(result.migratedCount).toBe(0)
+      const project = result.project!
+      expect(project.name).toBe('Island')
+      expect(project.cubes[0]).toMatchObject({ id: 'stone', meta: { name: 'Stone' } })
+      expect(project.stackPresets[0].config.id).toBe('tower')
+      expect(project.stackPresets[0]).not.toHaveProperty('stackId')
+      expect(project.worlds[0].palette.grass.meta?.name).toBe('Grass')
+      expect(project.worlds[0].stacks?.tower.layers).toHaveLength(2)
+      expect(project.lod).toEqual(DEFAULT_LOD_CONFIG)
+      expect(project.editor).toEqual(contents.editor)
+    })
+
+    it('should give palette cubes their key as id again', () => {
+      const mossy = { ...stone, meta: { name: 'Mossy stone' } }
+      const result = parseProject(
+        serializeProject(
+          createContents({ worlds: [{ ...world, palette: { stone: mossy, grass } }] })
+        )
+      )
+
+      expect(result.project!.worlds[0].palette.stone).toMatchObject({
+        id: 'stone',
+        meta: { name: 'Mossy stone' },
+      })
+    })
+
+    it('should upgrade items written with older schema versions', () => {
+      const file = createProjectFile(createContents({ stackPresets: [], worlds: [] }))
+      delete file.definitions.cubes[0].schema_version
+
+      const result = readProjectFile(JSON.parse(JSON.stringify(file)))
+      expect(result.migratedCount).toBe(1)
+      expect(result.project!.cubes[0].schema_version).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
+    it('should reject other files, newer versions and broken references', () => {
+      expect(parseProject('not json').error).toContain('Failed to parse project file')
+      expect(readProjectFile([stone]).error).toContain('Not a project file')
+
+      const file = createProjectFile(createContents())
+      expect(readProjectFile({ ...file, version: PROJECT_FILE_VERSION + 1 }).error).toContain(
+        'is not supported'
+      )
+      expect(readProjectFile({ ...file, cubes: ['missing'] }).error).toContain(
+        'cubes[0]: unknown reference "missing"'
+      )
+      expect(
+        readProjectFile({ ...file, definitions: { ...file.definitions, cubes: [{ id: 'x' }] } })
+          .error
+      ).toContain('definitions.cubes[0]')
+    })
+  })
+
+  describe('id collisions', () => {
+    const existing = { cube: ['stone'], stackPreset: ['user_1'] }
+
+    it('should list imported items whose ids already exist', () => {
+      expect(findProjectCollisions(createContents(), existing)).toEqual([
+        { kind: 'cube', id: 'stone', name: 'Stone' },
+        { kind: 'stackPreset', id: 'user_1', name: 'Tower' },
+      ])
+      expect(findProjectCollisions(createContents(), {})).toEqual([])
+    })
+
+    it('should rename by default and update editor references', () => {
+      const resolved = resolveProjectCollisions(createContents(), {
+        cube: ['stone', 'stone_2'],
+        world: ['island'],
+      })
+
+      expect(resolved.cubes[0].id).toBe('stone_3')
+      expect(resolved.worlds[0].id).toBe('island_2')
+      expect(resolved.worlds[0].palette.stone.id).toBe('stone')
+      expect(resolved.editor).toEqual({ currentCubeId: 'stone_3', currentWorldId: 'island_2' })
+    })
+
+    it('should apply per-item resolutions', () => {
+      const contents = createContents()
+      const resolved = resolveProjectCollisions(contents, existing, {
+        [getCollisionKey({ kind: 'cube', id: 'stone' })]: 'replace',
+        [getCollisionKey({ kind: 'stackPreset', id: 'user_1' })]: 'skip',
+      })
+
+      expect(resolved.cubes).toEqual([stone])
+      expect(resolved.stackPresets).toEqual([])
+      expect(resolved.editor.currentCubeId).toBe('stone')
+      expect(contents.stackPresets).toHaveLength(1)
+    })
+
+    it('should apply one resolution to every collision', () => {
+      const resolved = resolveProjectCollisions(createContents(), existing, 'skip')
+      expect(resolved.cubes).toEqual([])
+      expect(resolved.stackPresets).toEqual([])
+      expect(resolved.worlds).toHaveLength(1)
+    })
+  })
+})
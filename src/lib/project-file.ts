@@ -0,0 +1,536 @@
+/**
+ * Project files (.isocubic)
+ * Bundles cubes, FFT cubes, stacks, user stack presets, worlds, the LOD
+ * configuration and editor state into one JSON manifest.
+ *
+ * Every cube and stack is stored once under `definitions`: the project's
+ * cube and stack lists, worlds and stack presets refer to them by id. On import, ids that already exist locally can be renamed,
+ * replaced or skipped; renames are applied to the editor state references
+ */
+
+import type { FFTCubeConfig, SpectralCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import type { WorldConfig } from '../types/world'
+import type { LODConfig } from '../types/lod'
+import type { StackPreset } from './stack-presets'
+import type { MigrationReport } from './migrations'
+import { migrateCube, migrateFFTCube, migrateStack } from './migrations'
+import type { ValidationResult } from './validation'
+import { validateCube, validateFFTCube, validateStack, validateWorld } from './validation'
+import { jsonEqual } from './json-patch'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Value of the `format` field identifying project files */
+export const PROJECT_FILE_FORMAT = 'isocubic-project'
+
+/** Current project manifest version */
+export const PROJECT_FILE_VERSION = 1
+
+/** File extension of project files */
+export const PROJECT_FILE_EXTENSION = '.isocubic'
+
+/** Kinds of items a project holds */
+export type ProjectItemKind = 'cube' | 'fftCube' | 'stack' | 'stackPreset' | 'world'
+
+/** What to do with an imported item whose id already exists */
+export type CollisionResolution = 'rename' | 'replace' | 'skip'
+
+/**
+ * Items open in the editor when the project was saved
+ */
+export interface ProjectEditorState {
+  currentCubeId?: string
+  currentFFTCubeId?: string
+  currentStackId?: string
+  currentWorldId?: string
+}
+
+/**
+ * Project contents with every reference resolved
+ */
+export interface ProjectContents {
+  /** Project name */
+  name: string
+  cubes: SpectralCube[]
+  fftCubes: FFTCubeConfig[]
+  stacks: CubeStackConfig[]
+  stackPresets: StackPreset[]
+  worlds: WorldConfig[]
+  lod?: LODConfig
+  editor: ProjectEditorState
+}
+
+/**
+ * Stack preset as stored in a project file (config replaced by a stack id)
+ */
+export interface ProjectStackPresetEntry extends Omit<StackPreset, 'config' | 'isUserPreset'> {
+  stackId: string
+}
+
+/**
+ * World as stored in a project file (palette cubes and stacks replaced by ids)
+ */
+export interface ProjectWorldEntry extends Omit<WorldConfig, 'palette' | 'stacks'> {
+  palette: Record<string, string>
+  stacks?: Record<string, string>
+}
+
+/**
+ * Serialized project manifest
+ */
+export interface IsocubicProjectFile {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  /** Cube schema version the items were written with */
+  schema_version: number
+  name: string
+  created: string
+  /** Every cube and stack of the project, each stored once */
+  definitions: { cubes: SpectralCube[]; stacks: CubeStackConfig[] }
+  /** Ids of the project's own cubes (palette-only cubes are not listed) */
+  cubes: string[]
+  /** Ids of the project's own stacks */
+  stacks: string[]
+  fftCubes: FFTCubeConfig[]
+  stackPresets: ProjectStackPresetEntry[]
+  worlds: ProjectWorldEntry[]
+  lod?: LODConfig
+  editor: ProjectEditorState
+}
+
+/**
+ * Result of reading a project file
+ */
+export interface ProjectImportResult {
+  success: boolean
+  project?: ProjectContents
+  error?: string
+  /** Number of items upgraded from an older schema version */
+  migratedCount?: number
+}
+
+/**
+ * Imported item whose id already exists locally
+ */
+export interface ProjectCollision {
+  kind: ProjectItemKind
+  id: string
+  /** Display name of the imported item */
+  name: string
+}
+
+/** Ids that already exist locally, per item kind */
+export type ProjectExistingIds = Partial<Record<ProjectItemKind, Iterable<string>>>
+
+/** One resolution for all collisions, or one per collision key (see getCollisionKey) */
+export type ProjectCollisionResolutions =
+  | CollisionResolution
+  | Partial<Record<string, CollisionResolution>>
+
+/**
+ * Error thrown for malformed project files
+ */
+export class ProjectFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ProjectFileError'
+  }
+}
+
+/** Item with an id, as held by every project list */
+type ProjectItem = { id: string }
+
+/** Contents field and editor reference of each item kind */
+const PROJECT_ITEM_FIELDS: Record<
+  ProjectItemKind,
+  {
+    list: keyof Omit<ProjectContents, 'name' | 'lod' | 'editor'>
+    editor?: keyof ProjectEditorState
+  }
+> = {
+  cube: { list: 'cubes', editor: 'currentCubeId' },
+  fftCube: { list: 'fftCubes', editor: 'currentFFTCubeId' },
+  stack: { list: 'stacks', editor: 'currentStackId' },
+  stackPreset: { list: 'stackPresets' },
+  world: { list: 'worlds', editor: 'currentWorldId' },
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Picks an id not in `taken` by appending _2, _3, ...
+ */
+function uniqueId(id: string, taken: Set<string>): string {
+  let candidate = id
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${id}_${n}`
+  }
+  return candidate
+}
+
+/**
+ * Adds an item to a list unless an equal item with the same id is already there;
+ * an item that differs from the listed one gets a new id
+ * @returns The id under which the item is listed
+ */
+function internItem<T extends ProjectItem>(list: T[], item: T): string {
+  const existing = list.find((entry) => entry.id === item.id)
+  if (existing && jsonEqual(existing, item)) return item.id
+
+  const taken = new Set(list.map((entry) => entry.id))
+  const id = uniqueId(item.id, taken)
+  list.push(id === item.id ? item : { ...item, id })
+  return id
+}
+
+/**
+ * Builds the project manifest, storing every cube and stack once
+ * @param contents - Items to bundle
+ * @param created - Creation timestamp (default: now)
+ */
+export function createProjectFile(
+  contents: ProjectContents,
+  created: string = new Date().toISOString()
+): IsocubicProjectFile {
+  const cubes: SpectralCube[] = []
+  const stacks: CubeStackConfig[] = []
+  const cubeIds = contents.cubes.map((cube) => internItem(cubes, cube))
+  const stackIds = contents.stacks.map((stack) => internItem(stacks, stack))
+
+  const stackPresets = contents.stackPresets.map((preset): ProjectStackPresetEntry => {
+    const entry: ProjectStackPresetEntry & Partial<StackPreset> = {
+      ...preset,
+      stackId: internItem(stacks, preset.config),
+    }
+    delete entry.config
+    delete entry.isUserPreset
+    return entry
+  })
+
+  const worlds = contents.worlds.map(
+    ({ palette, stacks: worldStacks, ...world }): ProjectWorldEntry => ({
+      ...world,
+      palette: Object.fromEntries(
+        Object.entries(palette).map(([key, cube]) => [key, internItem(cubes, cube)])
+      ),
+      ...(worldStacks && {
+        stacks: Object.fromEntries(
+          Object.entries(worldStacks).map(([key, stack]) => [key, internItem(stacks, stack)])
+        ),
+      }),
+    })
+  )
+
+  return {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    schema_version: CURRENT_SCHEMA_VERSION,
+    name: contents.name,
+    created,
+    definitions: {
+      cubes: cubes.map((cube) => ({ ...cube, schema_version: CURRENT_SCHEMA_VERSION })),
+      stacks: stacks.map((stack) => ({ ...stack, schema_version: CURRENT_SCHEMA_VERSION })),
+    },
+    cubes: cubeIds,
+    stacks: stackIds,
+    fftCubes: contents.fftCubes.map((cube) => ({
+      ...cube,
+      schema_version: CURRENT_SCHEMA_VERSION,
+    })),
+    stackPresets,
+    worlds,
+    ...(contents.lod && { lod: contents.lod }),
+    editor: { ...contents.editor },
+  }
+}
+
+/**
+ * Serializes a project to the text of an .isocubic file
+ */
+export function serializeProject(contents: ProjectContents): string {
+  return JSON.stringify(createProjectFile(contents), null, 2)
+}
+
+// ============================================================================
+// Import
+// ============================================================================
+
+/**
+ * Upgrades and validates every item of one list
+ * @throws ProjectFileError describing the first invalid item
+ */
+function readItems<T>(
+  data: unknown,
+  field: string,
+  migrate: (document: unknown) => { document: T; report: MigrationReport | null },
+  validate: (document: unknown) => ValidationResult,
+  counter: { migrated: number }
+): T[] {
+  if (data === undefined) return []
+  if (!Array.isArray(data)) {
+    throw new ProjectFileError(`${field} must be an array`)
+  }
+  return data.map((item, index) => {
+    const { document, report } = migrate(item)
+    const validation = validate(document)
+    if (!validation.valid) {
+      const errors = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
+      throw new ProjectFileError(`${field}[${index}]: ${errors}`)
+    }
+    if (report) counter.migrated++
+    return document
+  })
+}
+
+/**
+ * Reads a list of ids
+ * @throws ProjectFileError when the value is not an array
+ */
+function readRefs(data: unknown, field: string): unknown[] {
+  if (data === undefined) return []
+  if (!Array.isArray(data)) {
+    throw new ProjectFileError(`${field} must be an array`)
+  }
+  return data
+}
+
+/**
+ * Looks up a referenced item
+ * @throws ProjectFileError when the id is unknown
+ */
+function resolveRef<T extends ProjectItem>(items: T[], id: unknown, path: string): T {
+  const item = items.find((entry) => entry.id === id)
+  if (!item) {
+    throw new ProjectFileError(`${path}: unknown reference "${String(id)}"`)
+  }
+  return item
+}
+
+/**
+ * Resolves a world palette or stack record; each item takes its key as id
+ * again, since a definition may have been stored under a different id
+ */
+function resolveKeyedRefs<T extends ProjectItem>(
+  items: T[],
+  refs: Record<string, unknown>,
+  path: string
+): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(refs).map(([key, id]) => [
+      key,
+      { ...resolveRef(items, id, `${path}.${key}`), id: key },
+    ])
+  )
+}
+
+/**
+ * Reads a stored LOD configuration; JSON turns the open-ended last
+ * threshold (maxDistance: Infinity) into null
+ */
+function readLODConfig(data: object): LODConfig {
+  const lod = data as LODConfig
+  return {
+    ...lod,
+    thresholds: (lod.thresholds ?? []).map((threshold) => ({
+      ...threshold,
+      maxDistance: threshold.maxDistance ?? Infinity,
+    })),
+  }
+}
+
+/**
+ * Reads a parsed project manifest, upgrading older items and resolving references
+ * @param data - Parsed JSON
+ * @returns The project contents, or the first problem found
+ */
+export function readProjectFile(data: unknown): ProjectImportResult {
+  try {
+    if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+      throw new ProjectFileError('Not a project file')
+    }
+    const file = data as Partial<Record<keyof IsocubicProjectFile, unknown>>
+    if (file.format !== PROJECT_FILE_FORMAT) {
+      throw new ProjectFileError('Not a project file')
+    }
+    if (typeof file.version !== 'number' || file.version > PROJECT_FILE_VERSION) {
+      throw new ProjectFileError(
+        `Project file version ${String(file.version)} is not supported (newest: ${PROJECT_FILE_VERSION})`
+      )
+    }
+
+    const counter = { migrated: 0 }
+    const definitions = (file.definitions ?? {}) as Record<string, unknown>
+    const cubes = readItems(
+      definitions.cubes,
+      'definitions.cubes',
+      migrateCube,
+      validateCube,
+      counter
+    )
+    const stacks = readItems(
+      definitions.stacks,
+      'definitions.stacks',
+      migrateStack,
+      validateStack,
+      counter
+    )
+    const fftCubes = readItems(file.fftCubes, 'fftCubes', migrateFFTCube, validateFFTCube, counter)
+
+    const presetEntries = (file.stackPresets ?? []) as ProjectStackPresetEntry[]
+    const stackPresets = presetEntries.map((entry, index): StackPreset => {
+      const preset: StackPreset & Partial<ProjectStackPresetEntry> = {
+        ...entry,
+        config: resolveRef(stacks, entry.stackId, `stackPresets[${index}].stackId`),
+      }
+      delete preset.stackId
+      return preset
+    })
+
+    const worldEntries = (file.worlds ?? []) as ProjectWorldEntry[]
+    const worlds = worldEntries.map((entry, index): WorldConfig => {
+      const { palette, stacks: worldStacks, ...rest } = entry
+      const world: WorldConfig = {
+        ...rest,
+        palette: resolveKeyedRefs(cubes, palette ?? {}, `worlds[${index}].palette`),
+        ...(worldStacks && {
+          stacks: resolveKeyedRefs(stacks, worldStacks, `worlds[${index}].stacks`),
+        }),
+      }
+      const validation = validateWorld(world)
+      if (!validation.valid) {
+        const errors = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
+        throw new ProjectFileError(`worlds[${index}]: ${errors}`)
+      }
+      return world
+    })
+
+    return {
+      success: true,
+      project: {
+        name: typeof file.name === 'string' ? file.name : 'Untitled project',
+        cubes: readRefs(file.cubes, 'cubes').map((id, i) => resolveRef(cubes, id, `cubes[${i}]`)),
+        fftCubes,
+        stacks: readRefs(file.stacks, 'stacks').map((id, i) =>
+          resolveRef(stacks, id, `stacks[${i}]`)
+        ),
+        stackPresets,
+        worlds,
+        ...(typeof file.lod === 'object' && file.lod !== null && { lod: readLODConfig(file.lod) }),
+        editor: { ...(file.editor as ProjectEditorState | undefined) },
+      },
+      migratedCount: counter.migrated,
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: `Invalid project file: ${message}` }
+  }
+}
+
+/**
+ * Parses the text of an .isocubic file
+ */
+export function parseProject(text: string): ProjectImportResult {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: `Failed to parse project file: ${message}` }
+  }
+  return readProjectFile(data)
+}
+
+// ============================================================================
+// Id Collisions
+// ============================================================================
+
+/**
+ * Key identifying a collision in a per-item resolution map
+ */
+export function getCollisionKey(collision: Pick<ProjectCollision, 'kind' | 'id'>): string {
+  return `${collision.kind}:${collision.id}`
+}
+
+/**
+ * Display name of a project item
+ */
+function getItemName(kind: ProjectItemKind, item: ProjectItem): string {
+  if (kind === 'stackPreset') return (item as StackPreset).name
+  return (item as { meta?: { name?: string } }).meta?.name ?? item.id
+}
+
+/**
+ * Lists imported items whose ids already exist locally
+ * @param project - Imported project
+ * @param existing - Local ids per kind (kinds left out never collide)
+ */
+export function findProjectCollisions(
+  project: ProjectContents,
+  existing: ProjectExistingIds
+): ProjectCollision[] {
+  const collisions: ProjectCollision[] = []
+  for (const kind of Object.keys(PROJECT_ITEM_FIELDS) as ProjectItemKind[]) {
+    const ids = new Set(existing[kind] ?? [])
+    const items = project[PROJECT_ITEM_FIELDS[kind].list] as ProjectItem[]
+    for (const item of items) {
+      if (ids.has(item.id)) {
+        collisions.push({ kind, id: item.id, name: getItemName(kind, item) })
+      }
+    }
+  }
+  return collisions
+}
+
+/**
+ * Applies collision resolutions to an imported project: renamed items get a
+ * free id (editor references follow), skipped items are dropped, replaced
+ * items keep their id and overwrite the local item when saved
+ * @param project - Imported project
+ * @param existing - Local ids per kind
+ * @param resolutions - One resolution for all collisions or one per collision key (default: rename)
+ */
+export function resolveProjectCollisions(
+  project: ProjectContents,
+  existing: ProjectExistingIds,
+  resolutions: ProjectCollisionResolutions = 'rename'
+): ProjectContents {
+  const resolved: ProjectContents = { ...project, editor: { ...project.editor } }
+
+  for (const kind of Object.keys(PROJECT_ITEM_FIELDS) as ProjectItemKind[]) {
+    const fields = PROJECT_ITEM_FIELDS[kind]
+    const ids = new Set(existing[kind] ?? [])
+    const items = project[fields.list] as ProjectItem[]
+    const taken = new Set([...ids, ...items.map((item) => item.id)])
+
+    const next: ProjectItem[] = []
+    for (const item of items) {
+      const resolution = ids.has(item.id)
+        ? typeof resolutions === 'string'
+          ? resolutions
+          : (resolutions[getCollisionKey({ kind, id: item.id })] ?? 'rename')
+        : 'replace'
+
+      if (resolution === 'skip') continue
+      if (resolution === 'replace') {
+        next.push(item)
+        continue
+      }
+
+      const id = uniqueId(item.id, taken)
+      taken.add(id)
+      next.push({ ...item, id })
+      if (fields.editor && resolved.editor[fields.editor] === item.id) {
+        resolved.editor[fields.editor] = id
+      }
+    }
+    Object.assign(resolved, { [fields.list]: next })
+  }
+
+  return resolved
+}
@@ -716,13 +716,13 @@ describe('Screen Capture Library', () => {
   // localStorage functions
   // ==========================================================================
   describe('saveScreenshots', () => {
-    it('should save screenshots to localStorage', () => {
+    it('should save screenshots to localStorage', async () => {
       const screenshots: IssueScreenshot[] = [
         { id: 'test1', imageData: 'data1', timestamp: '2024-01-01' },
         { id: 'test2', imageData: 'data2', timestamp: '2024-01-02' },
       ]
 
-      saveScreenshots(screenshots)
+      await saveScreenshots(screenshots)
       expect(localStorageMock.setItem).toHaveBeenCalledWith(
         SCREENSHOTS_STORAGE_KEY,
         expect.any(String)
@@ -732,67 +732,69 @@ describe('Screen Capture Library', () => {
       expect(saved).toHaveLength(2)
     })
 
-    it('should limit stored screenshots', () => {
+    it('should limit stored screenshots', async () => {
       const screenshots: IssueScreenshot[] = Array.from({ length: 30 }, (_, i) => ({
         id: `test${i}`,
         imageData: `data${i}`,
         timestamp: `2024-01-${i + 1}`,
       }))
 
-      saveScreenshots(screenshots)
+      await saveScreenshots(screenshots)
       const saved = JSON.parse(localStorageMock.setItem.mock.calls[0][1])
       expect(saved).toHaveLength(MAX_STORED_SCREENSHOTS)
     })
 
-    it('should handle localStorage errors gracefully', () => {
+    it('should report an exceeded quota as a StorageError', async () => {
       localStorageMock.setItem.mockImplementationOnce(() => {
-        throw new Error('QuotaExceededError')
+        throw new DOMException('Storage is full', 'QuotaExceededError')
       })
 
-      // Should not throw
-      expect(() => saveScreenshots([])).not.toThrow()
+      await expect(saveScreenshots([])).rejects.toMatchObject({
+        name: 'StorageError',
+        code: 'quota_exceeded',
+      })
     })
   })
 
   describe('loadScreenshots', () => {
-    it('should load screenshots from localStorage', () => {
+    it('should load screenshots from localStorage', async () => {
       const screenshots = [{ id: 'test1', imageData: 'data1', timestamp: '2024-01-01' }]
       localStorageMock.getItem.mockReturnValueOnce(JSON.stringify(screenshots))
 
-      const loaded = loadScreenshots()
+      const loaded = await loadScreenshots()
       expect(loaded).toHaveLength(1)
       expect(loaded[0].id).toBe('test1')
     })
 
-    it('should return empty array when no data', () => {
+    it('should return empty array when no data', async () => {
       localStorageMock.getItem.mockReturnValueOnce(null)
-      expect(loadScreenshots()).toEqual([])
+      expect(await loadScreenshots()).toEqual([])
     })
 
-    it('should handle invalid JSON gracefully', () => {
+    it('should handle invalid JSON gracefully', async () => {
       localStorageMock.getItem.mockReturnValueOnce('invalid json{{{')
-      expect(loadScreenshots()).toEqual([])
+      expect(await loadScreenshots()).toEqual([])
     })
 
-    it('should handle localStorage errors gracefully', () => {
+    it('should handle localStorage errors gracefully', async () => {
       localStorageMock.getItem.mockImplementationOnce(() => {
         throw new Error('Access denied')
       })
-      expect(loadScreenshots()).toEqual([])
+      expect(await loadScreenshots()).toEqual([])
     })
   })
 
   describe('clearStoredScreenshots', () => {
-    it('should remove screenshots from localStorage', () => {
-      clearStoredScreenshots()
+    it('should remove screenshots from localStorage', async () => {
+      await clearStoredScreenshots()
       expect(localStorageMock.removeItem).toHaveBeenCalledWith(SCREENSHOTS_STORAGE_KEY)
     })
 
-    it('should handle localStorage errors gracefully', () => {
+    it('should handle localStorage errors gracefully', async () => {
       localStorageMock.removeItem.mockImplementationOnce(() => {
         throw new Error('Access denied')
       })
-      expect(() => clearStoredScreenshots()).not.toThrow()
+      await expect(clearStoredScreenshots()).resolves.toBeUndefined()
     })
   })
 
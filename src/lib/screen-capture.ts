@@ -16,6 +16,7 @@
  */
 
 import type { IssueScreenshot, IssueAnnotation } from '../types/issue-generator'
+import { StorageError, getStorageAdapter } from './storage-adapter'
 
 /**
  * Capture format options
@@ -670,7 +671,7 @@ export function createScreenCaptureManager(): ScreenCaptureManager {
 }
 
 /**
- * LocalStorage key for saved screenshots
+ * Storage key for saved screenshots
  */
 export const SCREENSHOTS_STORAGE_KEY = 'isocubic_god_mode_screenshots'
 
@@ -680,24 +681,27 @@ export const SCREENSHOTS_STORAGE_KEY = 'isocubic_god_mode_screenshots'
 export const MAX_STORED_SCREENSHOTS = 20
 
 /**
- * Saves screenshots to localStorage
+ * Saves screenshots to storage
+ * @throws StorageError if the screenshots cannot be stored (e.g. storage quota exceeded)
  */
-export function saveScreenshots(screenshots: IssueScreenshot[]): void {
+export async function saveScreenshots(screenshots: IssueScreenshot[]): Promise<void> {
+  // Limit the number of stored screenshots
+  const limited = screenshots.slice(-MAX_STORED_SCREENSHOTS)
   try {
-    // Limit the number of stored screenshots
-    const limited = screenshots.slice(-MAX_STORED_SCREENSHOTS)
-    localStorage.setItem(SCREENSHOTS_STORAGE_KEY, JSON.stringify(limited))
+    const adapter = await getStorageAdapter()
+    await adapter.setItem(SCREENSHOTS_STORAGE_KEY, JSON.stringify(limited))
   } catch (e) {
-    console.warn('Failed to save screenshots:', e)
+    throw new StorageError('Failed to save screenshots', e)
   }
 }
 
 /**
- * Loads screenshots from localStorage
+ * Loads screenshots from storage
  */
-export function loadScreenshots(): IssueScreenshot[] {
+export async function loadScreenshots(): Promise<IssueScreenshot[]> {
   try {
-    const stored = localStorage.getItem(SCREENSHOTS_STORAGE_KEY)
+    const adapter = await getStorageAdapter()
+    const stored = await adapter.getItem(SCREENSHOTS_STORAGE_KEY)
     if (stored) {
       return JSON.parse(stored)
     }
@@ -708,11 +712,12 @@ export function loadScreenshots(): IssueScreenshot[] {
 }
 
 /**
- * Clears screenshots from localStorage
+ * Clears screenshots from storage
  */
-export function clearStoredScreenshots(): void {
+export async function clearStoredScreenshots(): Promise<void> {
   try {
-    localStorage.removeItem(SCREENSHOTS_STORAGE_KEY)
+    const adapter = await getStorageAdapter()
+    await adapter.removeItem(SCREENSHOTS_STORAGE_KEY)
   } catch (e) {
     console.warn('Failed to clear screenshots:', e)
   }
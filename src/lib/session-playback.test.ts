@@ -0,0 +1,249 @@
+/**
+ * Unit tests for session playback
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  SessionPlayback,
+  PLAYBACK_TICK_MS,
+  createSessionPlayback,
+  fetchSessionRecording,
+  getFrameCube,
+  readSessionRecording,
+} from './session-playback'
+import type {
+  CollaborativeAction,
+  Participant,
+  RecordedAction,
+  SessionRecording,
+} from '../types/collaboration'
+
+const start = Date.parse('2026-01-01T00:00:00.000Z')
+
+const alice: Participant = {
+  id: 'p-alice',
+  name: 'Alice',
+  color: '#ff0000',
+  role: 'owner',
+  status: 'online',
+  joinedAt: '2026-01-01T00:00:00.000Z',
+  lastActiveAt: '2026-01-01T00:00:00.000Z',
+}
+
+// Helper to record an action the given number of ms after the start
+const at = (ms: number, type: CollaborativeAction['type'], payload: unknown): RecordedAction => {
+  const time = new Date(start + ms).toISOString()
+  return {
+    recordedAt: time,
+    action: {
+      id: `action-${ms}`,
+      type,
+      participantId: alice.id,
+      sessionId: 's-1',
+      timestamp: time,
+      payload,
+    } as CollaborativeAction,
+  }
+}
+
+const stone = { id: 'stone', base: { color: [0.5, 0.5, 0.5] } }
+
+const recording: SessionRecording = {
+  sessionId: 's-1',
+  name: 'Castle',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  participants: [[alice.id, alice]],
+  actions: [
+    at(0, 'participant_join', { participant: alice }),
+    at(1000, 'cube_create', { cube: stone }),
+    at(2000, 'cursor_move', { position: { x: 1, y: 2, z: 3 } }),
+    at(3000, 'cube_update', { cubeId: 'stone', changes: { base: { color: [1, 1, 1] } } }),
+    at(4000, 'cube_delete', { cubeId: 'stone' }),
+    at(5000, 'participant_leave', { reason: 'manual' }),
+  ],
+}
+
+describe('SessionPlayback', () => {
+  let playback: SessionPlayback
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    playback = createSessionPlayback(recording)
+  })
+
+  afterEach(() => {
+    playback.dispose()
+    vi.useRealTimers()
+  })
+
+  it('should start at the first recorded action', () => {
+    const frame = playback.getFrame()
+
+    expect(playback.getDuration()).toBe(5000)
+    expect(frame).toMatchObject({ position: 0, appliedCount: 1, cubes: [] })
+    expect(frame.participants).toEqual([{ ...alice, cursor: undefined }])
+  })
+
+  it('should rebuild cubes and cursors when seeking', () => {
+    playback.seek(2500)
+    expect(playback.getFrame().cubes).toEqual([['stone', stone]])
+    expect(playback.getFrame().participants[0]?.cursor).toEqual({ x: 1, y: 2, z: 3 })
+
+    playback.seek(3000)
+    expect(playback.getFrame().cubes).toEqual([['stone', { ...stone, base: { color: [1, 1, 1] } }]])
+
+    playback.seek(4500)
+    expect(playback.getFrame().cubes).toEqual([])
+
+    // Seeking backward replays from the start
+    playback.seek(1500)
+    expect(playback.getFrame()).toMatchObject({ appliedCount: 2, cubes: [['stone', stone]] })
+    expect(playback.getFrame().participants[0]?.cursor).toBeUndefined()
+  })
+
+  it('should clamp seeks to the recording', () => {
+    playback.seek(-100)
+    expect(playback.getPosition()).toBe(0)
+
+    playback.seek(99999)
+    expect(playback.getPosition()).toBe(5000)
+    expect(playback.getFrame().participants[0]?.status).toBe('offline')
+  })
+
+  it('should play at the chosen speed and stop at the end', () => {
+    const ended = vi.fn()
+    playback.on('ended', ended)
+    playback.setSpeed(4)
+
+    playback.play()
+    expect(playback.isPlaying()).toBe(true)
+    vi.advanceTimersByTime(500)
+    expect(playback.getPosition()).toBe(2000)
+
+    vi.advanceTimersByTime(1000)
+    expect(playback.getPosition()).toBe(5000)
+    expect(playback.isPlaying()).toBe(false)
+    expect(ended).toHaveBeenCalledTimes(1)
+  })
+
+  it('should emit frames while playing and pause in place', () => {
+    const frame = vi.fn()
+    playback.on('frame', frame)
+
+    playback.play()
+    vi.advanceTimersByTime(PLAYBACK_TICK_MS * 2)
+    playback.pause()
+    vi.advanceTimersByTime(1000)
+
+    expect(frame).toHaveBeenCalledTimes(2)
+    expect(playback.getPosition()).toBe(PLAYBACK_TICK_MS * 2)
+
+    playback.off('frame', frame)
+    playback.seek(0)
+    expect(frame).toHaveBeenCalledTimes(2)
+  })
+
+  it('should play again from the start after the end', () => {
+    playback.seek(5000)
+    playback.play()
+    vi.advanceTimersByTime(PLAYBACK_TICK_MS)
+
+    expect(playback.getPosition()).toBe(PLAYBACK_TICK_MS)
+  })
+
+  it('should reject non-positive speeds', () => {
+    expect(() => playback.setSpeed(0)).toThrow(/positive/)
+    expect(playback.getSpeed()).toBe(1)
+  })
+
+  it('should handle an empty recording', () => {
+    const empty = new SessionPlayback({ ...recording, participants: [], actions: [] })
+
+    expect(empty.getDuration()).toBe(0)
+    expect(empty.getFrame()).toMatchObject({ cubes: [], participants: [], lastAction: null })
+  })
+})
+
+describe('getFrameCube', () => {
+  const moss = { id: 'moss', base: { color: [0.2, 0.5, 0.2] } }
+  const energy = { id: 'energy', channels: {}, fft_size: 8 }
+  const frame = createSessionPlayback(recording).getFrame()
+
+  it('should pick the cube of the last cube action', () => {
+    const lastAction = at(1000, 'cube_update', { cubeId: 'moss', changes: {} })
+    const cubes = [
+      ['moss', moss],
+      ['stone', stone],
+    ] as typeof frame.cubes
+
+    expect(getFrameCube({ ...frame, cubes, lastAction })).toEqual(moss)
+  })
+
+  it('should fall back to a selected cube, then to the first spectral cube', () => {
+    const cubes = [
+      ['energy', energy],
+      ['moss', moss],
+      ['stone', stone],
+    ] as typeof frame.cubes
+    const selecting = { ...alice, cursor: { x: 0, y: 0, z: 0, selectedCubeId: 'stone' } }
+
+    expect(getFrameCube({ ...frame, cubes, participants: [selecting] })).toEqual(stone)
+    expect(getFrameCube({ ...frame, cubes })).toEqual(moss)
+    expect(getFrameCube({ ...frame, cubes: [['energy', energy]] as typeof frame.cubes })).toBe(null)
+  })
+})
+
+describe('readSessionRecording', () => {
+  // jsdom files have no text()
+  const createFile = (content: unknown, name: string) =>
+    ({ name, text: () => Promise.resolve(JSON.stringify(content)) }) as File
+
+  it('should read a saved recording response or a bare recording', async () => {
+    const response = createFile({ recording }, 'castle.json')
+    const bare = createFile(recording, 'castle.json')
+
+    await expect(readSessionRecording(response)).resolves.toEqual(recording)
+    await expect(readSessionRecording(bare)).resolves.toEqual(recording)
+  })
+
+  it('should reject files that are not recordings', async () => {
+    const cube = createFile(stone, 'stone.json')
+
+    await expect(readSessionRecording(cube)).rejects.toThrow(
+      'stone.json is not a session recording'
+    )
+  })
+})
+
+describe('fetchSessionRecording', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should download the recording from the HTTP API', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ recording }),
+    })
+    vi.stubGlobal('fetch', fetchMock)
+
+    await expect(
+      fetchSessionRecording('https://example.com/api', 's-1', 'token-1')
+    ).resolves.toEqual(recording)
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://example.com/api/sessions/s-1/recording',
+      expect.objectContaining({
+        method: 'GET',
+        headers: expect.objectContaining({ Authorization: 'Bearer token-1' }),
+      })
+    )
+  })
+
+  it('should throw when the session is not found', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }))
+
+    await expect(
+      fetchSessionRecording('https://example.com/api', 's-9', 'token-1')
+    ).rejects.toThrow('404')
+  })
+})
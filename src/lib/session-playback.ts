@@ -0,0 +1,391 @@
+/**
+ * Time-travel playback of collaborative sessions
+ * Replays a session recording exported by the server (see `GET /api/sessions/:id/recording`)
+ * at an adjustable speed. Cube actions are applied through a CRDT document, as in a live
+ * session, and joins, leaves, cursor moves and selections update the participants, so each
+ * frame shows the cubes and the cursors as they were at that moment.
+ *
+ * Seeking forward applies the actions in between; seeking backward rebuilds from the start
+ */
+
+import type { SpectralCube, FFTCubeConfig } from '../types/cube'
+import type {
+  Participant,
+  ParticipantId,
+  RecordedAction,
+  SessionRecording,
+} from '../types/collaboration'
+import { CRDTClock, applyDelta, createCRDTDocument, getActionDelta, getDocumentCubes } from './crdt'
+import type { CRDTDocument } from './crdt'
+
+/** Playback speeds offered by the player */
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8] as const
+
+/** Interval between playback ticks, in ms of wall time */
+export const PLAYBACK_TICK_MS = 50
+
+/**
+ * Session state at a point of the recording
+ */
+export interface PlaybackFrame {
+  /** Time since the start of the recording, in ms */
+  position: number
+  /** Length of the recording, in ms */
+  duration: number
+  /** Number of recorded actions applied so far */
+  appliedCount: number
+  /** Cubes as [id, cube] entries, sorted by id */
+  cubes: [string, SpectralCube | FFTCubeConfig][]
+  /** Participants with their status and cursor at this time */
+  participants: Participant[]
+  /** Last applied action, null at the start */
+  lastAction: RecordedAction | null
+}
+
+/**
+ * Event types emitted by SessionPlayback: a new frame while playing or after a seek, and
+ * the end of the recording
+ */
+export type PlaybackEventType = 'frame' | 'ended'
+
+/**
+ * Playback event listener callback type
+ */
+export type PlaybackEventListener = (frame: PlaybackFrame) => void
+
+/**
+ * Replays a session recording
+ */
+export class SessionPlayback {
+  private recording: SessionRecording
+  private listeners: Map<PlaybackEventType, Set<PlaybackEventListener>> = new Map()
+  /** Recording time of the first action, the origin of positions */
+  private startTime: number
+  private duration: number
+  private position = 0
+  private speed = 1
+  private timer: ReturnType<typeof setInterval> | null = null
+  private lastTickAt = 0
+
+  // State at the current position
+  private nextIndex = 0
+  private document: CRDTDocument = createCRDTDocument()
+  private clock = new CRDTClock('playback')
+  private participants: Map<ParticipantId, Participant> = new Map()
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording
+    const first = recording.actions[0]
+    const last = recording.actions[recording.actions.length - 1]
+    this.startTime = Date.parse(first?.recordedAt ?? recording.createdAt)
+    this.duration = last ? Math.max(0, Date.parse(last.recordedAt) - this.startTime) : 0
+    this.reset()
+    this.advance()
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  /**
+   * Gets the length of the recording in ms
+   */
+  getDuration(): number {
+    return this.duration
+  }
+
+  /**
+   * Gets the current position in ms
+   */
+  getPosition(): number {
+    return this.position
+  }
+
+  /**
+   * Gets the playback speed (1 is real time)
+   */
+  getSpeed(): number {
+    return this.speed
+  }
+
+  /**
+   * Sets the playback speed (1 is real time)
+   */
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Playback speed must be positive, got ${speed}`)
+    }
+    this.speed = speed
+  }
+
+  /**
+   * Whether the recording is playing
+   */
+  isPlaying(): boolean {
+    return this.timer !== null
+  }
+
+  /**
+   * Gets the session state at the current position
+   */
+  getFrame(): PlaybackFrame {
+    return {
+      position: this.position,
+      duration: this.duration,
+      appliedCount: this.nextIndex,
+      cubes: getDocumentCubes<SpectralCube | FFTCubeConfig>(this.document),
+      participants: Array.from(this.participants.values(), (participant) => ({ ...participant })),
+      lastAction: this.recording.actions[this.nextIndex - 1] ?? null,
+    }
+  }
+
+  // ==========================================================================
+  // Controls
+  // ==========================================================================
+
+  /**
+   * Starts or resumes playback; at the end of the recording, plays it again from the start
+   */
+  play(): void {
+    if (this.timer) return
+    if (this.position >= this.duration) {
+      this.seek(0)
+    }
+    this.lastTickAt = Date.now()
+    this.timer = setInterval(() => this.tick(), PLAYBACK_TICK_MS)
+  }
+
+  /**
+   * Pauses playback at the current position
+   */
+  pause(): void {
+    if (!this.timer) return
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  /**
+   * Moves to a position in ms, clamped to the recording, and emits the frame
+   */
+  seek(position: number): void {
+    const target = Math.min(Math.max(position, 0), this.duration)
+    if (target < this.position) {
+      this.reset()
+    }
+    this.position = target
+    this.advance()
+    this.emit('frame')
+  }
+
+  /**
+   * Advances the position by the wall time since the last tick, scaled by the speed
+   */
+  private tick(): void {
+    const now = Date.now()
+    const position = this.position + (now - this.lastTickAt) * this.speed
+    this.lastTickAt = now
+
+    this.position = Math.min(position, this.duration)
+    this.advance()
+    this.emit('frame')
+
+    if (this.position >= this.duration) {
+      this.pause()
+      this.emit('ended')
+    }
+  }
+
+  // ==========================================================================
+  // Replay
+  // ==========================================================================
+
+  /**
+   * Returns to the state before the first action: no cubes, every participant offline
+   */
+  private reset(): void {
+    this.nextIndex = 0
+    this.position = 0
+    this.document = createCRDTDocument()
+    this.clock = new CRDTClock('playback')
+    this.participants = new Map(
+      this.recording.participants.map(([id, participant]) => [
+        id,
+        { ...participant, status: 'offline', cursor: undefined },
+      ])
+    )
+  }
+
+  /**
+   * Applies the actions recorded up to the current position
+   */
+  private advance(): void {
+    const { actions } = this.recording
+    while (this.nextIndex < actions.length) {
+      const recorded = actions[this.nextIndex]!
+      if (Date.parse(recorded.recordedAt) - this.startTime > this.position) break
+      this.applyAction(recorded)
+      this.nextIndex++
+    }
+  }
+
+  /**
+   * Applies one recorded action to the cubes or the participants
+   */
+  private applyAction({ action }: RecordedAction): void {
+    const participant = this.participants.get(action.participantId)
+
+    switch (action.type) {
+      case 'cube_create':
+      case 'cube_update':
+      case 'cube_delete': {
+        const delta = getActionDelta(this.document, this.clock, action)
+        if (delta) {
+          applyDelta(this.document, delta)
+          this.clock.observe(delta)
+        }
+        break
+      }
+      case 'participant_join':
+        this.participants.set(action.participantId, {
+          ...participant,
+          ...action.payload.participant,
+          status: 'online',
+          cursor: undefined,
+        })
+        break
+      case 'participant_leave':
+        if (participant) {
+          participant.status = 'offline'
+          participant.cursor = undefined
+        }
+        break
+      case 'cursor_move':
+        if (participant) {
+          participant.cursor = action.payload.position
+        }
+        break
+      case 'cube_select':
+        if (participant?.cursor) {
+          participant.cursor = {
+            ...participant.cursor,
+            selectedCubeId: action.payload.cubeId ?? undefined,
+          }
+        }
+        break
+      default:
+        // Settings, locks and comments do not change what playback shows
+        break
+    }
+  }
+
+  // ==========================================================================
+  // Events
+  // ==========================================================================
+
+  /**
+   * Adds an event listener
+   */
+  on(type: PlaybackEventType, listener: PlaybackEventListener): void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set())
+    }
+    this.listeners.get(type)!.add(listener)
+  }
+
+  /**
+   * Removes an event listener
+   */
+  off(type: PlaybackEventType, listener: PlaybackEventListener): void {
+    this.listeners.get(type)?.delete(listener)
+  }
+
+  /**
+   * Emits the current frame to all listeners of an event
+   */
+  private emit(type: PlaybackEventType): void {
+    const listeners = this.listeners.get(type)
+    if (!listeners?.size) return
+
+    const frame = this.getFrame()
+    listeners.forEach((listener) => {
+      try {
+        listener(frame)
+      } catch {
+        // Ignore listener errors
+      }
+    })
+  }
+
+  /**
+   * Stops playback and removes all listeners
+   */
+  dispose(): void {
+    this.pause()
+    this.listeners.clear()
+  }
+}
+
+/**
+ * Gets the spectral cube a frame is about, to show it in the editor: the cube of the last
+ * applied cube action, else a cube selected by a participant, else the first cube.
+ * FFT cubes are skipped; null when the frame has no spectral cube
+ */
+export function getFrameCube(frame: PlaybackFrame): SpectralCube | null {
+  const cubes = new Map(
+    frame.cubes.filter((entry): entry is [string, SpectralCube] => !('channels' in entry[1]))
+  )
+  const action = frame.lastAction?.action
+  const candidates = [
+    action?.type === 'cube_create' ? action.payload.cube.id : undefined,
+    action?.type === 'cube_update' ? action.payload.cubeId : undefined,
+    ...frame.participants.map((participant) => participant.cursor?.selectedCubeId),
+  ]
+  for (const cubeId of candidates) {
+    const cube = cubeId ? cubes.get(cubeId) : undefined
+    if (cube) return cube
+  }
+  return cubes.values().next().value ?? null
+}
+
+/**
+ * Creates a playback of a session recording
+ */
+export function createSessionPlayback(recording: SessionRecording): SessionPlayback {
+  return new SessionPlayback(recording)
+}
+
+/**
+ * Reads a recording saved from `GET /api/sessions/:id/recording`, either the whole response or
+ * the recording alone
+ */
+export async function readSessionRecording(file: File): Promise<SessionRecording> {
+  const parsed = JSON.parse(await file.text()) as { recording: SessionRecording } | SessionRecording
+  const recording = 'recording' in parsed ? parsed.recording : parsed
+  if (!Array.isArray(recording?.actions) || !Array.isArray(recording?.participants)) {
+    throw new Error(`${file.name} is not a session recording`)
+  }
+  return recording
+}
+
+/**
+ * Downloads a session's recording from the server's HTTP API
+ * (`serverUrl` as in PollingConfig, e.g. `https://isocubic.example.com/api`) as a participant,
+ * with the `authToken` the server issued on joining the session
+ */
+export async function fetchSessionRecording(
+  serverUrl: string,
+  sessionId: string,
+  authToken: string
+): Promise<SessionRecording> {
+  const response = await fetch(`${serverUrl}/sessions/${encodeURIComponent(sessionId)}/recording`, {
+    method: 'GET',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${authToken}` },
+  })
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch session recording: ${response.status}`)
+  }
+
+  const data = (await response.json()) as { recording: SessionRecording }
+  return data.recording
+}
@@ -11,10 +11,13 @@ import {
   boundaryModeToInt,
   parseMask,
   createUniforms,
+  createNeighborUniformValues,
+  createFaceUniforms,
   getLODSettings,
   applyLODToOctaves,
   applyLODToGradientCount,
   applyLODToBoundaryMode,
+  NOISE_COLOR_AMPLITUDE,
 } from './shader-utils'
 import type { SpectralCube } from '../types/cube'
 import { DEFAULT_LOD_SETTINGS } from '../types/lod'
@@ -186,6 +189,15 @@ describe('Shader Utils', () => {
       expect(uniforms.uNoisePersistence.value).toBe(0.6)
       expect(uniforms.uNoiseMaskStart.value).toBe(0)
       expect(uniforms.uNoiseMaskEnd.value).toBe(0.4)
+      expect(uniforms.uNoiseSeed.value).toBe(0)
+    })
+
+    it('should pass the noise seed, wrapped into the shader range', () => {
+      const seeded = createUniforms({ ...baseConfig, noise: { type: 'perlin', seed: 1234 } })
+      expect(seeded.uNoiseSeed.value).toBe(1234)
+
+      const wrapped = createUniforms({ ...baseConfig, noise: { type: 'perlin', seed: -1 } })
+      expect(wrapped.uNoiseSeed.value).toBe(16777215)
     })
 
     it('should handle boundary settings', () => {
@@ -232,6 +244,112 @@ describe('Shader Utils', () => {
     })
   })
 
+  describe('neighbour uniforms', () => {
+    const grass: SpectralCube = {
+      id: 'grass',
+      base: { color: [0.2, 0.6, 0.1] },
+      noise: { type: 'worley', scale: 12 },
+    }
+    const sand: SpectralCube = { id: 'sand', base: { color: [0.9, 0.8, 0.5] } }
+
+    it('should mark all neighbours absent by default', () => {
+      const values = createNeighborUniformValues()
+      expect(values.present).toEqual([0, 0, 0, 0, 0, 0])
+      expect(values.color).toHaveLength(6)
+      expect(values.noiseType).toEqual([0, 0, 0, 0, 0, 0])
+    })
+
+    it('should pack neighbours in +x, -x, +y, -y, +z, -z order', () => {
+      const values = createNeighborUniformValues({ x: grass, '-z': sand })
+      expect(values.present).toEqual([1, 0, 0, 0, 0, 1])
+      expect(values.color[0].toArray()).toEqual([0.2, 0.6, 0.1])
+      expect(values.color[5].toArray()).toEqual([0.9, 0.8, 0.5])
+    })
+
+    it('should pack neighbour noise params', () => {
+      const values = createNeighborUniformValues({ y: grass, '-y': sand })
+      expect(values.noiseType[2]).toBe(2) // worley
+      expect(values.noiseScale[2]).toBe(12)
+      expect(values.noiseType[3]).toBe(0) // no noise
+    })
+
+    it("should pack each neighbour's octaves, persistence and amplitude", () => {
+      const rough: SpectralCube = {
+        ...grass,
+        noise: { type: 'perlin', octaves: 7, persistence: 0.8 },
+      }
+      const values = createNeighborUniformValues({ x: rough, '-x': sand })
+      expect(values.noiseOctaves[0]).toBe(7)
+      expect(values.noisePersistence[0]).toBe(0.8)
+      expect(values.noiseAmplitude[0]).toBe(NOISE_COLOR_AMPLITUDE)
+      expect(values.noiseAmplitude[1]).toBe(0) // no noise
+    })
+
+    it('should apply LOD limits to neighbour noise', () => {
+      const rough: SpectralCube = { ...grass, noise: { type: 'perlin', octaves: 7 } }
+      const values = createNeighborUniformValues({ x: rough }, DEFAULT_LOD_SETTINGS[2])
+      expect(values.noiseOctaves[0]).toBe(DEFAULT_LOD_SETTINGS[2].noiseOctaves)
+
+      const uniforms = createUniforms(sand, { neighbors: { x: rough }, lodLevel: 4 })
+      expect(uniforms.uNeighborNoiseType.value[0]).toBe(0)
+      expect(uniforms.uNeighborNoiseAmplitude.value[0]).toBe(0)
+    })
+
+    it('should expose neighbour uniforms from createUniforms', () => {
+      const uniforms = createUniforms(sand, { neighbors: { '-x': grass } })
+      expect(uniforms.uNeighborPresent.value).toEqual([0, 1, 0, 0, 0, 0])
+      expect(uniforms.uNeighborColor.value[1]).toBeInstanceOf(THREE.Vector3)
+      expect(uniforms.uNeighborNoiseType.value[1]).toBe(2)
+      expect(uniforms.uNeighborNoiseScale.value[1]).toBe(12)
+    })
+
+    it('should pack neighbour noise seeds', () => {
+      const values = createNeighborUniformValues({
+        x: { ...grass, noise: { ...grass.noise, seed: 42 } },
+        '-x': grass,
+      })
+      expect(values.noiseSeed).toEqual([42, 0, 0, 0, 0, 0])
+    })
+  })
+
+  describe('createFaceUniforms', () => {
+    const grassBlock: SpectralCube = {
+      id: 'grass_block',
+      base: { color: [0.45, 0.3, 0.2] },
+      noise: { type: 'perlin', octaves: 6 },
+      faces: {
+        top: {
+          base: { color: [0.3, 0.6, 0.2] },
+          gradients: [
+            { axis: 'x', factor: 0.5, color_shift: [0.1, 0, 0] },
+            { axis: 'z', factor: 0.5, color_shift: [0, 0.1, 0] },
+          ],
+        },
+      },
+    }
+
+    it('should create one uniform set per box face in +x, -x, +y, -y, +z, -z order', () => {
+      const faces = createFaceUniforms(grassBlock)
+      expect(faces).toHaveLength(6)
+      expect(faces[2].uBaseColor.value.toArray()).toEqual([0.3, 0.6, 0.2])
+      expect(faces[2].uGradientCount.value).toBe(2)
+      expect(faces[0].uBaseColor.value.toArray()).toEqual([0.45, 0.3, 0.2])
+      expect(faces[0].uGradientCount.value).toBe(0)
+    })
+
+    it('should apply LOD limits to overridden fields', () => {
+      const faces = createFaceUniforms(grassBlock, { lodLevel: 3 })
+      expect(faces[2].uGradientCount.value).toBe(DEFAULT_LOD_SETTINGS[3].maxGradients)
+      expect(faces[2].uNoiseOctaves.value).toBe(DEFAULT_LOD_SETTINGS[3].noiseOctaves)
+    })
+
+    it('should blend toward the same face of neighbours', () => {
+      const faces = createFaceUniforms(grassBlock, { neighbors: { x: grassBlock } })
+      expect(faces[2].uNeighborColor.value[0].toArray()).toEqual([0.3, 0.6, 0.2])
+      expect(faces[0].uNeighborColor.value[0].toArray()).toEqual([0.45, 0.3, 0.2])
+    })
+  })
+
   describe('LOD functions', () => {
     describe('getLODSettings', () => {
       it('should return null for undefined LOD level', () => {
@@ -4,10 +4,19 @@
  */
 
 import * as THREE from 'three'
-import type { SpectralCube, GradientAxis, NoiseType, BoundaryMode } from '../types/cube'
+import type {
+  SpectralCube,
+  GradientAxis,
+  NoiseType,
+  BoundaryMode,
+  NeighborDirection,
+} from '../types/cube'
 import { CUBE_DEFAULTS } from '../types/cube'
 import type { LODLevel, LODLevelSettings } from '../types/lod'
 import { DEFAULT_LOD_SETTINGS } from '../types/lod'
+import { NEIGHBOR_DIRECTIONS } from './world'
+import { normalizeNoiseSeed } from './noise'
+import { BOX_GEOMETRY_FACES, resolveCubeFace, resolveNeighborFaces } from './cube-faces'
 
 /**
  * Maps gradient axis string to shader integer
@@ -120,6 +129,8 @@ export interface CreateUniformsOptions {
   lodLevel?: LODLevel
   /** Custom LOD settings (overrides defaults if provided) */
   lodSettings?: LODLevelSettings
+  /** Neighbouring cube configurations for edge blending toward different materials */
+  neighbors?: Partial<Record<NeighborDirection, SpectralCube>>
 }
 
 /**
@@ -169,6 +180,69 @@ export function applyLODToBoundaryMode(
   return originalMode
 }
 
+/**
+ * Colour amplitude of cube noise: noise in [0, 1] shifts the colour by (noise - 0.5) * amplitude
+ */
+export const NOISE_COLOR_AMPLITUDE = 0.3
+
+/**
+ * Neighbour material uniform arrays, indexed in NEIGHBOR_DIRECTIONS order
+ */
+export interface NeighborUniformValues {
+  present: number[]
+  color: THREE.Vector3[]
+  noiseType: number[]
+  noiseScale: number[]
+  noiseOctaves: number[]
+  noisePersistence: number[]
+  /** Colour amplitude of each neighbour's noise (0 when it has none) */
+  noiseAmplitude: number[]
+  noiseSeed: number[]
+}
+
+/**
+ * Packs neighbour base colours and noise params into shader uniform arrays
+ * Missing neighbours are marked as absent so the shader skips them; LOD limits
+ * apply to neighbour noise as to the cube's own
+ */
+export function createNeighborUniformValues(
+  neighbors: Partial<Record<NeighborDirection, SpectralCube>> = {},
+  lodSettings: LODLevelSettings | null = null
+): NeighborUniformValues {
+  const values: NeighborUniformValues = {
+    present: [],
+    color: [],
+    noiseType: [],
+    noiseScale: [],
+    noiseOctaves: [],
+    noisePersistence: [],
+    noiseAmplitude: [],
+    noiseSeed: [],
+  }
+  const noiseEnabled = !lodSettings || lodSettings.enableNoise
+
+  for (const direction of NEIGHBOR_DIRECTIONS) {
+    const neighbor = neighbors[direction]
+    const noise = noiseEnabled ? neighbor?.noise : undefined
+    values.present.push(neighbor ? 1 : 0)
+    values.color.push(
+      neighbor
+        ? new THREE.Vector3(neighbor.base.color[0], neighbor.base.color[1], neighbor.base.color[2])
+        : new THREE.Vector3(0, 0, 0)
+    )
+    values.noiseType.push(noise ? noiseTypeToInt(noise.type ?? CUBE_DEFAULTS.noise.type) : 0)
+    values.noiseScale.push(noise?.scale ?? CUBE_DEFAULTS.noise.scale)
+    values.noiseOctaves.push(
+      applyLODToOctaves(noise?.octaves ?? CUBE_DEFAULTS.noise.octaves, lodSettings)
+    )
+    values.noisePersistence.push(noise?.persistence ?? CUBE_DEFAULTS.noise.persistence)
+    values.noiseAmplitude.push(noise ? NOISE_COLOR_AMPLITUDE : 0)
+    values.noiseSeed.push(normalizeNoiseSeed(noise?.seed ?? CUBE_DEFAULTS.noise.seed))
+  }
+
+  return values
+}
+
 /**
  * Creates shader uniforms from SpectralCube configuration
  * @param config - The cube configuration
@@ -179,7 +253,7 @@ export function createUniforms(
   options: CreateUniformsOptions = {}
 ): Record<string, THREE.IUniform> {
   const { base, gradients = [], noise, boundary } = config
-  const { gridPosition = [0, 0, 0], lodLevel, lodSettings: customLodSettings } = options
+  const { gridPosition = [0, 0, 0], lodLevel, lodSettings: customLodSettings, neighbors } = options
 
   // Get LOD settings if LOD level is specified
   const lodSettings = getLODSettings(lodLevel, customLodSettings)
@@ -222,6 +296,8 @@ export function createUniforms(
         ? noiseTypeToInt(noise.type ?? CUBE_DEFAULTS.noise.type)
         : 0
 
+  const neighborValues = createNeighborUniformValues(neighbors, lodSettings)
+
   return {
     // Base material
     uBaseColor: {
@@ -244,6 +320,7 @@ export function createUniforms(
     uNoiseMaskStart: { value: maskParams.start },
     uNoiseMaskEnd: { value: maskParams.end },
     uNoiseMaskAxis: { value: maskParams.axis },
+    uNoiseSeed: { value: normalizeNoiseSeed(noise?.seed ?? CUBE_DEFAULTS.noise.seed) },
 
     // Lighting
     uLightDirection: { value: new THREE.Vector3(1, 1, 1).normalize() },
@@ -256,5 +333,35 @@ export function createUniforms(
       value: boundary?.neighbor_influence ?? CUBE_DEFAULTS.boundary.neighbor_influence,
     },
     uGridPosition: { value: new THREE.Vector3(gridPosition[0], gridPosition[1], gridPosition[2]) },
+
+    // Neighbour materials (edge blending toward different neighbours)
+    uNeighborPresent: { value: neighborValues.present },
+    uNeighborColor: { value: neighborValues.color },
+    uNeighborNoiseType: { value: neighborValues.noiseType },
+    uNeighborNoiseScale: { value: neighborValues.noiseScale },
+    uNeighborNoiseOctaves: { value: neighborValues.noiseOctaves },
+    uNeighborNoisePersistence: { value: neighborValues.noisePersistence },
+    uNeighborNoiseAmplitude: { value: neighborValues.noiseAmplitude },
+    uNeighborNoiseSeed: { value: neighborValues.noiseSeed },
   }
 }
+
+/**
+ * Creates one uniform set per face for cubes with face overrides, in the
+ * material order of THREE.BoxGeometry (+X, -X, +Y, -Y, +Z, -Z)
+ * Each face is resolved to a plain cube first, so LOD limits apply to the
+ * overridden gradients and noise exactly as to the cube-wide ones
+ * @param config - The cube configuration
+ * @param options - Same options as createUniforms
+ */
+export function createFaceUniforms(
+  config: SpectralCube,
+  options: CreateUniformsOptions = {}
+): Record<string, THREE.IUniform>[] {
+  return BOX_GEOMETRY_FACES.map((face) =>
+    createUniforms(resolveCubeFace(config, face), {
+      ...options,
+      neighbors: resolveNeighborFaces(options.neighbors, face),
+    })
+  )
+}
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { shareLinkService, generateQRCode } from './share-links'
 import type { SpectralCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
 import type { ShareLink, CreateShareLinkRequest } from '../types/share'
 
 // Mock localStorage
@@ -208,6 +209,13 @@ describe('shareLinkService', () => {
       expect(result.cube!.id).toBe(sampleCube.id)
     })
 
+    it('upgrades cubes shared before schema versioning', async () => {
+      const result = await shareLinkService.accessShareLink({ id: createdLink.id })
+
+      expect(sampleCube.schema_version).toBeUndefined()
+      expect(result.cube!.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+    })
+
     it('returns error for non-existent link', async () => {
       const result = await shareLinkService.accessShareLink({ id: 'nonexistent' })
 
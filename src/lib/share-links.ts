@@ -33,6 +33,7 @@ import {
   generateOGTags,
   DEFAULT_QR_CONFIG,
 } from '../types/share'
+import { migrateCube } from './migrations'
 
 // ============================================================================
 // Configuration
@@ -425,7 +426,8 @@ export const shareLinkService = {
 
       return {
         success: true,
-        cube,
+        // Links created before schema versioning hold version 1 cubes
+        cube: migrateCube(cube).document,
         shareLink: metadata,
       }
     } catch (error) {
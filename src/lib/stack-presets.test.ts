@@ -17,13 +17,16 @@ import {
   getUserStackPresets,
   saveStackAsPreset,
   deleteUserPreset,
+  addUserStackPresets,
   applyPreset,
   exportPresetAsJSON,
   importPresetFromJSON,
   type StackPresetCategory,
 } from './stack-presets'
 import { createCubeStack, createStackLayer } from '../types/stack'
-import { createDefaultCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION, createDefaultCube } from '../types/cube'
+import { validateStack } from './validation'
+import { MemoryStorageAdapter, setStorageAdapter } from './storage-adapter'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -151,96 +154,96 @@ describe('Stack Presets Module', () => {
   })
 
   describe('getAllStackPresets', () => {
-    it('should return all built-in presets when no user presets exist', () => {
-      const allPresets = getAllStackPresets()
+    it('should return all built-in presets when no user presets exist', async () => {
+      const allPresets = await getAllStackPresets()
       expect(allPresets.length).toBe(STACK_PRESETS.length)
     })
 
-    it('should include user presets when they exist', () => {
+    it('should include user presets when they exist', async () => {
       const testStack = createTestStack()
-      saveStackAsPreset(testStack, 'User Stack', 'Test description')
+      await saveStackAsPreset(testStack, 'User Stack', 'Test description')
 
-      const allPresets = getAllStackPresets()
+      const allPresets = await getAllStackPresets()
       expect(allPresets.length).toBe(STACK_PRESETS.length + 1)
     })
   })
 
   describe('getPresetsByCategory', () => {
-    it('should filter presets by category', () => {
-      const constructionPresets = getPresetsByCategory('construction')
+    it('should filter presets by category', async () => {
+      const constructionPresets = await getPresetsByCategory('construction')
       expect(constructionPresets.length).toBeGreaterThan(0)
       for (const preset of constructionPresets) {
         expect(preset.category).toBe('construction')
       }
     })
 
-    it('should return empty array for category with no presets', () => {
-      const customPresets = getPresetsByCategory('custom')
+    it('should return empty array for category with no presets', async () => {
+      const customPresets = await getPresetsByCategory('custom')
       expect(customPresets).toEqual([])
     })
 
-    it('should include user presets in custom category', () => {
+    it('should include user presets in custom category', async () => {
       const testStack = createTestStack()
-      saveStackAsPreset(testStack, 'Custom Stack')
+      await saveStackAsPreset(testStack, 'Custom Stack')
 
-      const customPresets = getPresetsByCategory('custom')
+      const customPresets = await getPresetsByCategory('custom')
       expect(customPresets.length).toBe(1)
       expect(customPresets[0].name).toBe('Custom Stack')
     })
   })
 
   describe('searchStackPresets', () => {
-    it('should return all presets for empty query', () => {
-      const results = searchStackPresets('')
+    it('should return all presets for empty query', async () => {
+      const results = await searchStackPresets('')
       expect(results.length).toBe(STACK_PRESETS.length)
     })
 
-    it('should search by name', () => {
-      const results = searchStackPresets('stone')
+    it('should search by name', async () => {
+      const results = await searchStackPresets('stone')
       expect(results.length).toBeGreaterThan(0)
       expect(results.some((p) => p.name.toLowerCase().includes('stone'))).toBe(true)
     })
 
-    it('should search by tags', () => {
-      const results = searchStackPresets('medieval')
+    it('should search by tags', async () => {
+      const results = await searchStackPresets('medieval')
       expect(results.length).toBeGreaterThan(0)
       expect(results.some((p) => p.tags.includes('medieval'))).toBe(true)
     })
 
-    it('should search by description', () => {
-      const results = searchStackPresets('layers')
+    it('should search by description', async () => {
+      const results = await searchStackPresets('layers')
       expect(results.length).toBeGreaterThan(0)
     })
 
-    it('should be case-insensitive', () => {
-      const resultsLower = searchStackPresets('stone')
-      const resultsUpper = searchStackPresets('STONE')
+    it('should be case-insensitive', async () => {
+      const resultsLower = await searchStackPresets('stone')
+      const resultsUpper = await searchStackPresets('STONE')
       expect(resultsLower.length).toBe(resultsUpper.length)
     })
 
-    it('should return empty array for non-matching query', () => {
-      const results = searchStackPresets('xyznonexistent123')
+    it('should return empty array for non-matching query', async () => {
+      const results = await searchStackPresets('xyznonexistent123')
       expect(results).toEqual([])
     })
   })
 
   describe('getPresetById', () => {
-    it('should find preset by ID', () => {
-      const preset = getPresetById('stone_wall')
+    it('should find preset by ID', async () => {
+      const preset = await getPresetById('stone_wall')
       expect(preset).toBeDefined()
       expect(preset?.id).toBe('stone_wall')
     })
 
-    it('should return undefined for non-existent ID', () => {
-      const preset = getPresetById('nonexistent_id')
+    it('should return undefined for non-existent ID', async () => {
+      const preset = await getPresetById('nonexistent_id')
       expect(preset).toBeUndefined()
     })
 
-    it('should find user presets by ID', () => {
+    it('should find user presets by ID', async () => {
       const testStack = createTestStack()
-      const savedPreset = saveStackAsPreset(testStack, 'Test Stack')
+      const savedPreset = await saveStackAsPreset(testStack, 'Test Stack')
 
-      const foundPreset = getPresetById(savedPreset.id)
+      const foundPreset = await getPresetById(savedPreset.id)
       expect(foundPreset).toBeDefined()
       expect(foundPreset?.name).toBe('Test Stack')
     })
@@ -248,25 +251,28 @@ describe('Stack Presets Module', () => {
 
   describe('User Preset Management', () => {
     describe('getUserStackPresets', () => {
-      it('should return empty array when no user presets exist', () => {
-        const userPresets = getUserStackPresets()
+      it('should return empty array when no user presets exist', async () => {
+        const userPresets = await getUserStackPresets()
         expect(userPresets).toEqual([])
       })
 
-      it('should return user presets from localStorage', () => {
+      it('should return user presets from localStorage', async () => {
         const testStack = createTestStack()
-        saveStackAsPreset(testStack, 'Saved Stack')
+        await saveStackAsPreset(testStack, 'Saved Stack')
 
-        const userPresets = getUserStackPresets()
+        const userPresets = await getUserStackPresets()
         expect(userPresets.length).toBe(1)
         expect(userPresets[0].isUserPreset).toBe(true)
       })
     })
 
     describe('saveStackAsPreset', () => {
-      it('should save stack as user preset', () => {
+      it('should save stack as user preset', async () => {
         const testStack = createTestStack()
-        const preset = saveStackAsPreset(testStack, 'My Stack', 'Description', ['tag1', 'tag2'])
+        const preset = await saveStackAsPreset(testStack, 'My Stack', 'Description', [
+          'tag1',
+          'tag2',
+        ])
 
         expect(preset.id).toBeDefined()
         expect(preset.name).toBe('My Stack')
@@ -276,56 +282,84 @@ describe('Stack Presets Module', () => {
         expect(preset.isUserPreset).toBe(true)
       })
 
-      it('should persist preset to localStorage', () => {
+      it('should persist preset to localStorage', async () => {
         const testStack = createTestStack()
-        saveStackAsPreset(testStack, 'Persisted Stack')
+        await saveStackAsPreset(testStack, 'Persisted Stack')
 
         expect(localStorageMock.setItem).toHaveBeenCalled()
 
-        const userPresets = getUserStackPresets()
+        const userPresets = await getUserStackPresets()
         expect(userPresets.length).toBe(1)
         expect(userPresets[0].name).toBe('Persisted Stack')
       })
 
-      it('should generate unique IDs for presets', () => {
+      it('should generate unique IDs for presets', async () => {
         const testStack = createTestStack()
-        const preset1 = saveStackAsPreset(testStack, 'Stack 1')
-        const preset2 = saveStackAsPreset(testStack, 'Stack 2')
+        const preset1 = await saveStackAsPreset(testStack, 'Stack 1')
+        const preset2 = await saveStackAsPreset(testStack, 'Stack 2')
 
         expect(preset1.id).not.toBe(preset2.id)
       })
 
-      it('should extract preview color from first layer', () => {
+      it('should extract preview color from first layer', async () => {
         const testStack = createTestStack()
         testStack.layers[0].cubeConfig.base.color = [0.8, 0.2, 0.1]
-        const preset = saveStackAsPreset(testStack, 'Colored Stack')
+        const preset = await saveStackAsPreset(testStack, 'Colored Stack')
 
         expect(preset.previewColor).toEqual([0.8, 0.2, 0.1])
       })
+
+      it('should report an exceeded quota as a StorageError', async () => {
+        setStorageAdapter(new MemoryStorageAdapter(100))
+        try {
+          await expect(saveStackAsPreset(createTestStack(), 'Too Big')).rejects.toMatchObject({
+            name: 'StorageError',
+            code: 'quota_exceeded',
+          })
+        } finally {
+          setStorageAdapter(null)
+        }
+      })
+    })
+
+    describe('addUserStackPresets', () => {
+      it('should add presets and replace user presets with the same ID', async () => {
+        const existing = await saveStackAsPreset(createTestStack(), 'Existing')
+        const other = await saveStackAsPreset(createTestStack(), 'Other')
+
+        await addUserStackPresets([
+          { ...existing, name: 'Replaced' },
+          { ...other, id: 'imported_1', name: 'Imported', category: 'natural' },
+        ])
+
+        const userPresets = await getUserStackPresets()
+        expect(userPresets.map((preset) => preset.name)).toEqual(['Other', 'Replaced', 'Imported'])
+        expect(userPresets[2]).toMatchObject({ category: 'custom', isUserPreset: true })
+      })
     })
 
     describe('deleteUserPreset', () => {
-      it('should delete user preset by ID', () => {
+      it('should delete user preset by ID', async () => {
         const testStack = createTestStack()
-        const preset = saveStackAsPreset(testStack, 'To Delete')
+        const preset = await saveStackAsPreset(testStack, 'To Delete')
 
-        const deleted = deleteUserPreset(preset.id)
+        const deleted = await deleteUserPreset(preset.id)
         expect(deleted).toBe(true)
 
-        const userPresets = getUserStackPresets()
+        const userPresets = await getUserStackPresets()
         expect(userPresets).toEqual([])
       })
 
-      it('should return false for non-existent preset', () => {
-        const deleted = deleteUserPreset('nonexistent_id')
+      it('should return false for non-existent preset', async () => {
+        const deleted = await deleteUserPreset('nonexistent_id')
         expect(deleted).toBe(false)
       })
 
-      it('should not affect built-in presets', () => {
-        const deleted = deleteUserPreset('stone_wall')
+      it('should not affect built-in presets', async () => {
+        const deleted = await deleteUserPreset('stone_wall')
         expect(deleted).toBe(false)
 
-        const preset = getPresetById('stone_wall')
+        const preset = await getPresetById('stone_wall')
         expect(preset).toBeDefined()
       })
     })
@@ -408,6 +442,11 @@ describe('Stack Presets Module', () => {
         expect(parsed.tags).toEqual(preset.tags)
         expect(parsed.config).toBeDefined()
       })
+
+      it('should stamp the stack with the current schema version', () => {
+        const parsed = JSON.parse(exportPresetAsJSON(STACK_PRESETS[0]))
+        expect(parsed.config.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+      })
     })
 
     describe('importPresetFromJSON', () => {
@@ -431,6 +470,13 @@ describe('Stack Presets Module', () => {
         expect(imported?.id).toContain('imported_')
       })
 
+      it('should upgrade layer cubes written with an older schema', () => {
+        // Presets exported before schema_version carry none
+        const imported = importPresetFromJSON(JSON.stringify(STACK_PRESETS[0]))
+        expect(imported?.config.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+        expect(imported?.config.layers[0].cubeConfig.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+      })
+
       it('should return null for invalid JSON', () => {
         const imported = importPresetFromJSON('not valid json')
         expect(imported).toBeNull()
@@ -442,6 +488,12 @@ describe('Stack Presets Module', () => {
         expect(imported).toBeNull()
       })
 
+      it('should return null for stacks that fail validation', () => {
+        const preset = STACK_PRESETS[0]
+        const invalid = { ...preset, config: { ...preset.config, totalHeight: 99 } }
+        expect(importPresetFromJSON(JSON.stringify(invalid))).toBeNull()
+      })
+
       it('should return null for JSON with empty layers', () => {
         const invalid = JSON.stringify({
           id: 'test',
@@ -455,6 +507,12 @@ describe('Stack Presets Module', () => {
   })
 
   describe('Preset Content Validation', () => {
+    it('all presets should pass stack validation', () => {
+      for (const preset of STACK_PRESETS) {
+        expect(validateStack(preset.config).errors).toEqual([])
+      }
+    })
+
     it('all presets should have valid layer configurations', () => {
       for (const preset of STACK_PRESETS) {
         for (const layer of preset.config.layers) {
@@ -7,12 +7,16 @@
  * Features:
  * - Pre-defined stack configurations for common use cases
  * - Search by name/tags
- * - Ability to save custom presets to localStorage
+ * - Ability to save custom presets to storage
  */
 
 import type { CubeStackConfig, StackTransition } from '../types/stack'
 import type { SpectralCube, Color3, MaterialType, NoiseType } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
 import { createStackLayer, createCubeStack, DEFAULT_STACK_TRANSITION } from '../types/stack'
+import { migrateStack } from './migrations'
+import { formatValidationErrors, validateStack } from './validation'
+import { StorageError, getStorageAdapter } from './storage-adapter'
 
 /**
  * Stack preset metadata interface
@@ -597,77 +601,80 @@ export const STACK_PRESETS: StackPreset[] = [
 // Preset Management Functions
 // =============================================================================
 
-/** Local storage key for user presets */
+/** Storage key for user presets */
 const USER_PRESETS_STORAGE_KEY = 'isocubic_user_stack_presets'
 
 /**
  * Get all presets (built-in + user saved)
  */
-export function getAllStackPresets(): StackPreset[] {
-  const userPresets = getUserStackPresets()
+export async function getAllStackPresets(): Promise<StackPreset[]> {
+  const userPresets = await getUserStackPresets()
   return [...STACK_PRESETS, ...userPresets]
 }
 
 /**
  * Get presets by category
  */
-export function getPresetsByCategory(category: StackPresetCategory): StackPreset[] {
-  return getAllStackPresets().filter((preset) => preset.category === category)
+export async function getPresetsByCategory(category: StackPresetCategory): Promise<StackPreset[]> {
+  return (await getAllStackPresets()).filter((preset) => preset.category === category)
 }
 
 /**
- * Search presets by query string (matches name, description, tags)
+ * Check whether a preset matches a query string (name, description, tags);
+ * an empty query matches every preset
  */
-export function searchStackPresets(query: string): StackPreset[] {
+export function matchesStackPresetQuery(preset: StackPreset, query: string): boolean {
   const normalizedQuery = query.toLowerCase().trim()
   if (!normalizedQuery) {
-    return getAllStackPresets()
+    return true
   }
 
-  return getAllStackPresets().filter((preset) => {
-    const searchText = [preset.name, preset.description, ...preset.tags].join(' ').toLowerCase()
+  const searchText = [preset.name, preset.description, ...preset.tags].join(' ').toLowerCase()
+  return searchText.includes(normalizedQuery)
+}
 
-    return searchText.includes(normalizedQuery)
-  })
+/**
+ * Search presets by query string (matches name, description, tags)
+ */
+export async function searchStackPresets(query: string): Promise<StackPreset[]> {
+  return (await getAllStackPresets()).filter((preset) => matchesStackPresetQuery(preset, query))
 }
 
 /**
  * Get a preset by ID
  */
-export function getPresetById(id: string): StackPreset | undefined {
-  return getAllStackPresets().find((preset) => preset.id === id)
+export async function getPresetById(id: string): Promise<StackPreset | undefined> {
+  return (await getAllStackPresets()).find((preset) => preset.id === id)
 }
 
 /**
- * Get user-saved presets from localStorage
+ * Get user-saved presets from storage
  */
-export function getUserStackPresets(): StackPreset[] {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return []
-  }
-
+export async function getUserStackPresets(): Promise<StackPreset[]> {
   try {
-    const stored = localStorage.getItem(USER_PRESETS_STORAGE_KEY)
+    const adapter = await getStorageAdapter()
+    const stored = await adapter.getItem(USER_PRESETS_STORAGE_KEY)
     if (!stored) return []
 
     const parsed = JSON.parse(stored) as StackPreset[]
     // Mark all as user presets
     return parsed.map((preset) => ({ ...preset, isUserPreset: true, category: 'custom' as const }))
   } catch {
-    console.warn('Failed to load user stack presets from localStorage')
+    console.warn('Failed to load user stack presets from storage')
     return []
   }
 }
 
 /**
  * Save current stack as a user preset
+ * @throws StorageError if the preset cannot be stored (e.g. storage quota exceeded)
  */
-export function saveStackAsPreset(
+export async function saveStackAsPreset(
   stack: CubeStackConfig,
   name: string,
   description: string = '',
   tags: string[] = []
-): StackPreset {
+): Promise<StackPreset> {
   const preset: StackPreset = {
     id: `user_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
     name,
@@ -682,41 +689,56 @@ export function saveStackAsPreset(
     previewColor: stack.layers[0]?.cubeConfig.base.color ?? [0.5, 0.5, 0.5],
   }
 
-  // Save to localStorage
-  const userPresets = getUserStackPresets()
+  const userPresets = await getUserStackPresets()
   userPresets.push(preset)
 
-  if (typeof window !== 'undefined' && window.localStorage) {
-    try {
-      localStorage.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(userPresets))
-    } catch {
-      console.warn('Failed to save user stack preset to localStorage')
-    }
+  try {
+    const adapter = await getStorageAdapter()
+    await adapter.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(userPresets))
+  } catch (error) {
+    throw new StorageError('Failed to save user stack preset', error)
   }
 
   return preset
 }
 
 /**
- * Delete a user preset by ID
+ * Add presets to the user presets, replacing user presets with the same ID
+ * (used when importing project files)
+ * @throws StorageError if the presets cannot be stored (e.g. storage quota exceeded)
  */
-export function deleteUserPreset(presetId: string): boolean {
-  if (typeof window === 'undefined' || !window.localStorage) {
-    return false
+export async function addUserStackPresets(presets: StackPreset[]): Promise<void> {
+  const incomingIds = new Set(presets.map((preset) => preset.id))
+  const userPresets = (await getUserStackPresets()).filter((p) => !incomingIds.has(p.id))
+  userPresets.push(
+    ...presets.map((preset) => ({ ...preset, isUserPreset: true, category: 'custom' as const }))
+  )
+
+  try {
+    const adapter = await getStorageAdapter()
+    await adapter.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(userPresets))
+  } catch (error) {
+    throw new StorageError('Failed to save user stack presets', error)
   }
+}
 
+/**
+ * Delete a user preset by ID
+ */
+export async function deleteUserPreset(presetId: string): Promise<boolean> {
   try {
-    const userPresets = getUserStackPresets()
+    const userPresets = await getUserStackPresets()
     const filteredPresets = userPresets.filter((p) => p.id !== presetId)
 
     if (filteredPresets.length === userPresets.length) {
       return false // Preset not found
     }
 
-    localStorage.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(filteredPresets))
+    const adapter = await getStorageAdapter()
+    await adapter.setItem(USER_PRESETS_STORAGE_KEY, JSON.stringify(filteredPresets))
     return true
   } catch {
-    console.warn('Failed to delete user stack preset from localStorage')
+    console.warn('Failed to delete user stack preset from storage')
     return false
   }
 }
@@ -751,10 +773,14 @@ export function applyPreset(preset: StackPreset): CubeStackConfig {
 }
 
 /**
- * Export preset as JSON string
+ * Export preset as JSON string, its stack stamped with the current schema version
  */
 export function exportPresetAsJSON(preset: StackPreset): string {
-  return JSON.stringify(preset, null, 2)
+  return JSON.stringify(
+    { ...preset, config: { ...preset.config, schema_version: CURRENT_SCHEMA_VERSION } },
+    null,
+    2
+  )
 }
 
 /**
@@ -770,9 +796,17 @@ export function importPresetFromJSON(jsonString: string): StackPreset | null {
       return null
     }
 
+    const config = migrateStack(parsed.config).document
+    const validation = validateStack(config)
+    if (!validation.valid) {
+      console.warn(`Invalid preset JSON:\n${formatValidationErrors(validation.errors)}`)
+      return null
+    }
+
     // Generate new ID to avoid conflicts
     return {
       ...parsed,
+      config,
       id: `imported_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`,
       isUserPreset: true,
       category: 'custom',
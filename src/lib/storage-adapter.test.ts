@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the pluggable storage backends
+ */
+
+import { describe, it, expect, afterEach } from 'vitest'
+import {
+  LocalStorageAdapter,
+  MemoryStorageAdapter,
+  MIGRATED_STORAGE_KEYS,
+  STORAGE_MIGRATION_MARKER_KEY,
+  StorageError,
+  getStorageAdapter,
+  isQuotaExceededError,
+  migrateLocalStorageKeys,
+  setStorageAdapter,
+} from './storage-adapter'
+
+/** Web Storage stand-in that rejects writes over a size limit */
+function createLimitedStorage(limit: number): Storage {
+  const store = new Map<string, string>()
+  return {
+    get length() {
+      return store.size
+    },
+    key: (index: number) => [...store.keys()][index] ?? null,
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      if (value.length > limit) throw new DOMException('Storage is full', 'QuotaExceededError')
+      store.set(key, value)
+    },
+    removeItem: (key: string) => {
+      store.delete(key)
+    },
+    clear: () => store.clear(),
+  }
+}
+
+describe('storage-adapter', () => {
+  afterEach(() => {
+    setStorageAdapter(null)
+  })
+
+  describe('StorageError', () => {
+    it('should derive the quota code from the cause', () => {
+      const quota = new DOMException('Storage is full', 'QuotaExceededError')
+      expect(new StorageError('Failed', quota).code).toBe('quota_exceeded')
+      expect(new StorageError('Failed', new StorageError('Inner', quota)).code).toBe(
+        'quota_exceeded'
+      )
+      expect(new StorageError('Failed', new Error('Other')).code).toBe('unknown')
+      expect(new StorageError('Failed', undefined, 'unavailable').code).toBe('unavailable')
+    })
+
+    it('should recognise browser-specific quota errors', () => {
+      expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true)
+      expect(isQuotaExceededError({ name: 'Error', code: 22 })).toBe(true)
+      expect(isQuotaExceededError(new Error('QuotaExceededError'))).toBe(false)
+      expect(isQuotaExceededError(null)).toBe(false)
+    })
+  })
+
+  describe('MemoryStorageAdapter', () => {
+    it('should store, list and remove values', async () => {
+      const adapter = new MemoryStorageAdapter()
+      await adapter.setItem('a', '1')
+      await adapter.setItem('b', '2')
+      await adapter.removeItem('a')
+      expect(await adapter.getItem('a')).toBeNull()
+      expect(await adapter.getItem('b')).toBe('2')
+      expect(await adapter.keys()).toEqual(['b'])
+    })
+
+    it('should enforce the quota, counting replaced values once', async () => {
+      const adapter = new MemoryStorageAdapter(10)
+      await adapter.setItem('k', '123456789')
+      await adapter.setItem('k', '987654321')
+      await expect(adapter.setItem('x', '1')).rejects.toMatchObject({ code: 'quota_exceeded' })
+      expect(adapter.size).toBe(10)
+    })
+  })
+
+  describe('LocalStorageAdapter', () => {
+    it('should wrap quota errors in a StorageError', async () => {
+      const adapter = new LocalStorageAdapter(createLimitedStorage(5))
+      await adapter.setItem('small', '123')
+      expect(await adapter.keys()).toEqual(['small'])
+      await expect(adapter.setItem('large', '123456')).rejects.toMatchObject({
+        name: 'StorageError',
+        code: 'quota_exceeded',
+        message: expect.stringContaining('storage quota exceeded'),
+      })
+    })
+  })
+
+  describe('migrateLocalStorageKeys', () => {
+    it('should move the legacy keys once and leave other keys alone', async () => {
+      const source = createLimitedStorage(Infinity)
+      source.setItem('isocubic_configs', '{"a":1}')
+      source.setItem('isocubic_history', '{"past":[]}')
+      source.setItem('isocubic_auth_session', 'session')
+      const target = new MemoryStorageAdapter()
+      await target.setItem('isocubic_history', '{"past":["newer"]}')
+
+      expect(await migrateLocalStorageKeys(target, source)).toEqual(['isocubic_configs'])
+      expect(await target.getItem('isocubic_configs')).toBe('{"a":1}')
+      expect(await target.getItem('isocubic_history')).toBe('{"past":["newer"]}')
+      expect(await target.getItem(STORAGE_MIGRATION_MARKER_KEY)).not.toBeNull()
+      for (const key of MIGRATED_STORAGE_KEYS) expect(source.getItem(key)).toBeNull()
+      expect(source.getItem('isocubic_auth_session')).toBe('session')
+
+      source.setItem('isocubic_configs', '{"b":2}')
+      expect(await migrateLocalStorageKeys(target, source)).toEqual([])
+      expect(await target.getItem('isocubic_configs')).toBe('{"a":1}')
+    })
+
+    it('should keep the source keys when a copy fails', async () => {
+      const source = createLimitedStorage(Infinity)
+      source.setItem('isocubic_configs', 'x'.repeat(100))
+      const target = new MemoryStorageAdapter(50)
+
+      await expect(migrateLocalStorageKeys(target, source)).rejects.toBeInstanceOf(StorageError)
+      expect(source.getItem('isocubic_configs')).toHaveLength(100)
+      expect(await target.getItem(STORAGE_MIGRATION_MARKER_KEY)).toBeNull()
+    })
+  })
+
+  describe('getStorageAdapter', () => {
+    it('should fall back to localStorage without IndexedDB and share one adapter', async () => {
+      const adapter = await getStorageAdapter()
+      expect(adapter.name).toBe('localStorage')
+      expect(await getStorageAdapter()).toBe(adapter)
+    })
+
+    it('should use an adapter set explicitly', async () => {
+      const memory = new MemoryStorageAdapter()
+      setStorageAdapter(memory)
+      expect(await getStorageAdapter()).toBe(memory)
+    })
+  })
+})
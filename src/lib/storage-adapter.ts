@@ -0,0 +1,379 @@
+/**
+ * Pluggable key-value storage backends
+ * Provides the StorageAdapter interface with localStorage, IndexedDB and
+ * in-memory implementations, quota-aware StorageError reporting, and the
+ * one-time migration of legacy localStorage keys into IndexedDB
+ *
+ * Values are stored as strings (serialized JSON) so every backend behaves the same
+ */
+
+/**
+ * Async key-value storage backend
+ */
+export interface StorageAdapter {
+  /** Backend name for diagnostics */
+  readonly name: string
+  /** Reads a value, resolving to null when the key is missing */
+  getItem(key: string): Promise<string | null>
+  /**
+   * Writes a value
+   * @throws StorageError (code 'quota_exceeded' when the backend is full)
+   */
+  setItem(key: string, value: string): Promise<void>
+  /** Removes a value (missing keys are ignored) */
+  removeItem(key: string): Promise<void>
+  /** Lists all stored keys */
+  keys(): Promise<string[]>
+}
+
+/**
+ * Reason a storage operation failed
+ */
+export type StorageErrorCode = 'quota_exceeded' | 'unavailable' | 'unknown'
+
+/**
+ * Storage error class
+ */
+export class StorageError extends Error {
+  readonly cause?: unknown
+  readonly code: StorageErrorCode
+
+  /**
+   * @param message - Error message
+   * @param cause - Underlying error
+   * @param code - Failure reason (derived from the cause when omitted)
+   */
+  constructor(message: string, cause?: unknown, code?: StorageErrorCode) {
+    super(message)
+    this.name = 'StorageError'
+    this.cause = cause
+    this.code = code ?? getStorageErrorCode(cause)
+  }
+}
+
+/**
+ * Checks whether an error reports an exceeded storage quota
+ * (DOMException names and legacy codes differ between browsers)
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (error instanceof StorageError) return error.code === 'quota_exceeded'
+  if (typeof error !== 'object' || error === null) return false
+  const { name, code } = error as { name?: unknown; code?: unknown }
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  )
+}
+
+/**
+ * Derives the StorageError code of an underlying error
+ */
+function getStorageErrorCode(cause: unknown): StorageErrorCode {
+  if (cause instanceof StorageError) return cause.code
+  return isQuotaExceededError(cause) ? 'quota_exceeded' : 'unknown'
+}
+
+/**
+ * Wraps a failed write in a StorageError
+ */
+function writeError(adapter: StorageAdapter, key: string, cause: unknown): StorageError {
+  const reason = isQuotaExceededError(cause) ? 'storage quota exceeded' : 'write failed'
+  return new StorageError(`Failed to write "${key}" to ${adapter.name}: ${reason}`, cause)
+}
+
+// ============================================================================
+// localStorage
+// ============================================================================
+
+/**
+ * Storage adapter over window.localStorage (about 5 MB per origin)
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage'
+  private storage: Storage
+
+  /**
+   * @param storage - Web Storage object (default: window.localStorage)
+   */
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(key)
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      this.storage.setItem(key, value)
+    } catch (error) {
+      throw writeError(this, key, error)
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.storage.removeItem(key)
+  }
+
+  async keys(): Promise<string[]> {
+    const keys: string[] = []
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i)
+      if (key !== null) keys.push(key)
+    }
+    return keys
+  }
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+/** IndexedDB database holding the key-value store */
+export const INDEXED_DB_NAME = 'isocubic'
+
+/** Object store of the key-value pairs */
+const INDEXED_DB_STORE = 'kv'
+
+/**
+ * Resolves an IDBRequest as a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Storage adapter over an IndexedDB object store (quota is a share of free disk space)
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'IndexedDB'
+  private db: IDBDatabase
+
+  private constructor(db: IDBDatabase) {
+    this.db = db
+  }
+
+  /**
+   * Opens (and creates on first use) the key-value database
+   * @param dbName - Database name (default: 'isocubic')
+   * @param factory - IndexedDB factory (default: window.indexedDB)
+   * @throws StorageError with code 'unavailable' when the database cannot be opened
+   */
+  static async open(
+    dbName: string = INDEXED_DB_NAME,
+    factory: IDBFactory = indexedDB
+  ): Promise<IndexedDBAdapter> {
+    try {
+      const request = factory.open(dbName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(INDEXED_DB_STORE)
+      }
+      return new IndexedDBAdapter(await requestToPromise(request))
+    } catch (error) {
+      throw new StorageError(`Failed to open IndexedDB "${dbName}"`, error, 'unavailable')
+    }
+  }
+
+  /**
+   * Runs one request in a transaction and waits for the transaction to finish
+   * (quota errors are only reported when the transaction commits)
+   */
+  private async run<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const transaction = this.db.transaction(INDEXED_DB_STORE, mode)
+    const done = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onabort = () => reject(transaction.error)
+      transaction.onerror = () => reject(transaction.error)
+    })
+    const result = requestToPromise(operation(transaction.objectStore(INDEXED_DB_STORE)))
+    // Await both together so a failed request never leaves its rejection unhandled
+    const [value] = await Promise.all([result, done])
+    return value
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.run('readonly', (store) => store.get(key))
+    return typeof value === 'string' ? value : null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      await this.run('readwrite', (store) => store.put(value, key))
+    } catch (error) {
+      throw writeError(this, key, error)
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run('readwrite', (store) => store.delete(key))
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run('readonly', (store) => store.getAllKeys())
+    return keys.map(String)
+  }
+}
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+/**
+ * Non-persistent storage adapter, used when no browser storage is available
+ * and in tests. An optional quota (in UTF-16 characters of keys and values)
+ * simulates a full backend.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory'
+  private store = new Map<string, string>()
+  private quota: number
+
+  /**
+   * @param quota - Maximum total size of keys and values (default: unlimited)
+   */
+  constructor(quota: number = Infinity) {
+    this.quota = quota
+  }
+
+  /** Total size of keys and values */
+  get size(): number {
+    let size = 0
+    for (const [key, value] of this.store) size += key.length + value.length
+    return size
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const previous = this.store.get(key)
+    const previousSize = previous === undefined ? 0 : key.length + previous.length
+    if (this.size - previousSize + key.length + value.length > this.quota) {
+      throw new StorageError(
+        `Failed to write "${key}" to memory: storage quota exceeded`,
+        undefined,
+        'quota_exceeded'
+      )
+    }
+    this.store.set(key, value)
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key)
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.store.keys()]
+  }
+}
+
+// ============================================================================
+// Legacy Key Migration
+// ============================================================================
+
+/**
+ * localStorage keys moved into the active adapter: saved configs, current
+ * cube and undo history (storage.ts), user stack presets (stack-presets.ts)
+ * and God Mode screenshots (screen-capture.ts)
+ */
+export const MIGRATED_STORAGE_KEYS = [
+  'isocubic_configs',
+  'isocubic_current',
+  'isocubic_history',
+  'isocubic_user_stack_presets',
+  'isocubic_god_mode_screenshots',
+] as const
+
+/** Marker written to the target adapter once the migration has run */
+export const STORAGE_MIGRATION_MARKER_KEY = 'isocubic_storage_migrated'
+
+/**
+ * Copies the legacy keys from localStorage into another adapter, once.
+ * Values already present in the target win. The source keys are removed
+ * only after every copy succeeded, so a failed migration is retried on
+ * the next start.
+ * @param target - Adapter to migrate into
+ * @param source - Legacy storage (default: window.localStorage)
+ * @returns Keys that were copied (empty when the migration already ran)
+ * @throws StorageError when a copy fails
+ */
+export async function migrateLocalStorageKeys(
+  target: StorageAdapter,
+  source: Storage = localStorage
+): Promise<string[]> {
+  if ((await target.getItem(STORAGE_MIGRATION_MARKER_KEY)) !== null) return []
+
+  const migrated: string[] = []
+  for (const key of MIGRATED_STORAGE_KEYS) {
+    const value = source.getItem(key)
+    if (value === null) continue
+    if ((await target.getItem(key)) === null) {
+      await target.setItem(key, value)
+      migrated.push(key)
+    }
+  }
+
+  await target.setItem(STORAGE_MIGRATION_MARKER_KEY, new Date().toISOString())
+  for (const key of MIGRATED_STORAGE_KEYS) {
+    source.removeItem(key)
+  }
+  return migrated
+}
+
+// ============================================================================
+// Active Adapter
+// ============================================================================
+
+let activeAdapter: Promise<StorageAdapter> | null = null
+
+/**
+ * Picks the best available backend: IndexedDB (with the legacy keys migrated
+ * into it), then localStorage, then memory
+ */
+async function createDefaultStorageAdapter(): Promise<StorageAdapter> {
+  const hasLocalStorage = typeof localStorage !== 'undefined'
+
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      const adapter = await IndexedDBAdapter.open()
+      if (hasLocalStorage) {
+        try {
+          await migrateLocalStorageKeys(adapter)
+        } catch (error) {
+          console.warn('Failed to migrate localStorage data to IndexedDB:', error)
+        }
+      }
+      return adapter
+    } catch (error) {
+      console.warn('IndexedDB is unavailable, falling back to localStorage:', error)
+    }
+  }
+
+  return hasLocalStorage ? new LocalStorageAdapter() : new MemoryStorageAdapter()
+}
+
+/**
+ * Gets the storage adapter shared by the persistence modules
+ * (created on first use)
+ */
+export function getStorageAdapter(): Promise<StorageAdapter> {
+  activeAdapter ??= createDefaultStorageAdapter()
+  return activeAdapter
+}
+
+/**
+ * Replaces the shared storage adapter
+ * @param adapter - Adapter to use, or null to pick the default backend again on next use
+ */
+export function setStorageAdapter(adapter: StorageAdapter | null): void {
+  activeAdapter = adapter ? Promise.resolve(adapter) : null
+}
@@ -5,6 +5,9 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import type { SpectralCube } from '../types/cube'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
+import type { WorldConfig } from '../types/world'
+import { exportWorldToSchematic, exportWorldToVox } from './voxel-formats'
 import {
   saveCubeToStorage,
   loadCubeFromStorage,
@@ -15,6 +18,9 @@ import {
   saveCurrentCube,
   loadCurrentCube,
   clearCurrentCube,
+  exportCubeToGLBFile,
+  exportWorldToVoxFile,
+  importWorldFromVoxelFile,
   importCubeFromFile,
   importCubesFromFile,
   pushToHistory,
@@ -25,9 +31,13 @@ import {
   clearHistory,
   initializeHistory,
   getHistoryState,
+  getHistoryEntries,
+  getHistoryCube,
+  jumpToHistory,
   AutosaveManager,
   StorageError,
 } from './storage'
+import { MemoryStorageAdapter, setStorageAdapter } from './storage-adapter'
 
 // Mock localStorage
 const localStorageMock = (() => {
@@ -65,6 +75,16 @@ function createMockFile(content: string, name: string = 'test.json'): File {
   return file
 }
 
+// Helper to create a mock binary File with working arrayBuffer() method
+function createMockBinaryFile(bytes: Uint8Array<ArrayBuffer>, name: string): File {
+  return Object.assign(new Blob([bytes]), {
+    name,
+    lastModified: Date.now(),
+    webkitRelativePath: '',
+    arrayBuffer: () => Promise.resolve(bytes.slice().buffer),
+  }) as File
+}
+
 // Test cube fixture
 const createTestCube = (id: string = 'test_cube_001'): SpectralCube => ({
   id,
@@ -100,8 +120,15 @@ const createTestCube = (id: string = 'test_cube_001'): SpectralCube => ({
   },
 })
 
+// Test world fixture
+const createTestWorld = (): WorldConfig => ({
+  id: 'test_world',
+  palette: { test_cube_001: createTestCube() },
+  cells: { '0,0,0': 'test_cube_001', '1,0,0': 'test_cube_001' },
+})
+
 describe('Storage Module', () => {
-  beforeEach(() => {
+  beforeEach(async () => {
     localStorageMock.clear()
     vi.clearAllMocks()
   })
@@ -112,49 +139,64 @@ describe('Storage Module', () => {
 
   describe('LocalStorage functions', () => {
     describe('saveCubeToStorage', () => {
-      it('should save a cube to localStorage', () => {
+      it('should save a cube to localStorage', async () => {
         const cube = createTestCube()
-        saveCubeToStorage(cube)
+        await saveCubeToStorage(cube)
 
         expect(localStorageMock.setItem).toHaveBeenCalled()
-        const stored = loadCubeFromStorage(cube.id)
+        const stored = await loadCubeFromStorage(cube.id)
         expect(stored).not.toBeNull()
         expect(stored?.id).toBe(cube.id)
       })
 
-      it('should update the modified timestamp', () => {
+      it('should update the modified timestamp', async () => {
         const cube = createTestCube()
-        saveCubeToStorage(cube)
+        await saveCubeToStorage(cube)
 
-        const stored = loadCubeFromStorage(cube.id)
+        const stored = await loadCubeFromStorage(cube.id)
         expect(stored?.meta?.modified).toBeDefined()
       })
 
-      it('should overwrite existing cube with same id', () => {
+      it('should overwrite existing cube with same id', async () => {
         const cube1 = createTestCube()
         cube1.prompt = 'First version'
-        saveCubeToStorage(cube1)
+        await saveCubeToStorage(cube1)
 
         const cube2 = createTestCube()
         cube2.prompt = 'Second version'
-        saveCubeToStorage(cube2)
+        await saveCubeToStorage(cube2)
 
-        const stored = loadCubeFromStorage(cube1.id)
+        const stored = await loadCubeFromStorage(cube1.id)
         expect(stored?.prompt).toBe('Second version')
       })
     })
 
     describe('loadCubeFromStorage', () => {
-      it('should return null for non-existent cube', () => {
-        const result = loadCubeFromStorage('non_existent')
+      it('should upgrade and persist cubes saved with an older schema', async () => {
+        const legacy = createTestCube('legacy_cube')
+        localStorageMock.setItem(
+          'isocubic_configs',
+          JSON.stringify({ legacy_cube: { cube: legacy, savedAt: '2024-01-01T00:00:00.000Z' } })
+        )
+
+        expect((await loadCubeFromStorage('legacy_cube'))?.schema_version).toBe(
+          CURRENT_SCHEMA_VERSION
+        )
+        expect((await getAllConfigsFromStorage()).legacy_cube.cube.schema_version).toBe(
+          CURRENT_SCHEMA_VERSION
+        )
+      })
+
+      it('should return null for non-existent cube', async () => {
+        const result = await loadCubeFromStorage('non_existent')
         expect(result).toBeNull()
       })
 
-      it('should load saved cube correctly', () => {
+      it('should load saved cube correctly', async () => {
         const cube = createTestCube()
-        saveCubeToStorage(cube)
+        await saveCubeToStorage(cube)
 
-        const loaded = loadCubeFromStorage(cube.id)
+        const loaded = await loadCubeFromStorage(cube.id)
         expect(loaded).not.toBeNull()
         expect(loaded?.id).toBe(cube.id)
         expect(loaded?.base.color).toEqual(cube.base.color)
@@ -162,18 +204,18 @@ describe('Storage Module', () => {
     })
 
     describe('getAllConfigsFromStorage', () => {
-      it('should return empty object when no configs saved', () => {
-        const configs = getAllConfigsFromStorage()
+      it('should return empty object when no configs saved', async () => {
+        const configs = await getAllConfigsFromStorage()
         expect(configs).toEqual({})
       })
 
-      it('should return all saved configs', () => {
+      it('should return all saved configs', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
-        saveCubeToStorage(cube1)
-        saveCubeToStorage(cube2)
+        await saveCubeToStorage(cube1)
+        await saveCubeToStorage(cube2)
 
-        const configs = getAllConfigsFromStorage()
+        const configs = await getAllConfigsFromStorage()
         expect(Object.keys(configs)).toHaveLength(2)
         expect(configs['cube_1']).toBeDefined()
         expect(configs['cube_2']).toBeDefined()
@@ -181,19 +223,19 @@ describe('Storage Module', () => {
     })
 
     describe('getSavedCubesList', () => {
-      it('should return empty array when no configs saved', () => {
-        const list = getSavedCubesList()
+      it('should return empty array when no configs saved', async () => {
+        const list = await getSavedCubesList()
         expect(list).toEqual([])
       })
 
-      it('should return list of saved cubes', () => {
+      it('should return list of saved cubes', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
 
-        saveCubeToStorage(cube1)
-        saveCubeToStorage(cube2)
+        await saveCubeToStorage(cube1)
+        await saveCubeToStorage(cube2)
 
-        const list = getSavedCubesList()
+        const list = await getSavedCubesList()
         expect(list).toHaveLength(2)
         // Both cubes should be in the list
         const ids = list.map((c) => c.cube.id)
@@ -203,33 +245,33 @@ describe('Storage Module', () => {
     })
 
     describe('deleteCubeFromStorage', () => {
-      it('should return false for non-existent cube', () => {
-        const result = deleteCubeFromStorage('non_existent')
+      it('should return false for non-existent cube', async () => {
+        const result = await deleteCubeFromStorage('non_existent')
         expect(result).toBe(false)
       })
 
-      it('should delete existing cube and return true', () => {
+      it('should delete existing cube and return true', async () => {
         const cube = createTestCube()
-        saveCubeToStorage(cube)
+        await saveCubeToStorage(cube)
 
-        const result = deleteCubeFromStorage(cube.id)
+        const result = await deleteCubeFromStorage(cube.id)
         expect(result).toBe(true)
 
-        const loaded = loadCubeFromStorage(cube.id)
+        const loaded = await loadCubeFromStorage(cube.id)
         expect(loaded).toBeNull()
       })
     })
 
     describe('clearAllConfigs', () => {
-      it('should remove all saved configs', () => {
+      it('should remove all saved configs', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
-        saveCubeToStorage(cube1)
-        saveCubeToStorage(cube2)
+        await saveCubeToStorage(cube1)
+        await saveCubeToStorage(cube2)
 
-        clearAllConfigs()
+        await clearAllConfigs()
 
-        const configs = getAllConfigsFromStorage()
+        const configs = await getAllConfigsFromStorage()
         expect(configs).toEqual({})
       })
     })
@@ -237,33 +279,68 @@ describe('Storage Module', () => {
 
   describe('Current cube state functions', () => {
     describe('saveCurrentCube / loadCurrentCube', () => {
-      it('should save and load current cube', () => {
+      it('should save and load current cube', async () => {
         const cube = createTestCube()
-        saveCurrentCube(cube)
+        await saveCurrentCube(cube)
 
-        const loaded = loadCurrentCube()
+        const loaded = await loadCurrentCube()
         expect(loaded).not.toBeNull()
         expect(loaded?.id).toBe(cube.id)
       })
 
-      it('should return null when no current cube saved', () => {
-        const loaded = loadCurrentCube()
+      it('should return null when no current cube saved', async () => {
+        const loaded = await loadCurrentCube()
         expect(loaded).toBeNull()
       })
     })
 
     describe('clearCurrentCube', () => {
-      it('should clear current cube', () => {
+      it('should clear current cube', async () => {
         const cube = createTestCube()
-        saveCurrentCube(cube)
-        clearCurrentCube()
+        await saveCurrentCube(cube)
+        await clearCurrentCube()
 
-        const loaded = loadCurrentCube()
+        const loaded = await loadCurrentCube()
         expect(loaded).toBeNull()
       })
     })
   })
 
+  describe('Export functions', () => {
+    describe('exportCubeToGLBFile', () => {
+      it('should download a binary glTF file named after the cube', async () => {
+        const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:glb')
+        const revokeObjectURL = vi.fn()
+        Object.assign(URL, { createObjectURL, revokeObjectURL })
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+        exportCubeToGLBFile(createTestCube(), undefined, { textureSize: 1 })
+
+        const blob = createObjectURL.mock.calls[0][0]
+        expect(blob.type).toBe('model/gltf-binary')
+        const link = click.mock.instances[0] as unknown as HTMLAnchorElement
+        expect(link.download).toBe('Test_Cube.glb')
+        expect(revokeObjectURL).toHaveBeenCalledWith('blob:glb')
+        click.mockRestore()
+      })
+    })
+
+    describe('exportWorldToVoxFile', () => {
+      it('should download a .vox file named after the world', async () => {
+        const createObjectURL = vi.fn<(blob: Blob) => string>(() => 'blob:vox')
+        Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() })
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+        exportWorldToVoxFile(createTestWorld())
+
+        const link = click.mock.instances[0] as unknown as HTMLAnchorElement
+        expect(link.download).toBe('test_world.vox')
+        expect(createObjectURL.mock.calls[0][0].size).toBeGreaterThan(8)
+        click.mockRestore()
+      })
+    })
+  })
+
   describe('Import functions', () => {
     describe('importCubeFromFile', () => {
       it('should import valid cube from file', async () => {
@@ -294,6 +371,23 @@ describe('Storage Module', () => {
         expect(result.error).toContain('Invalid cube configuration')
       })
 
+      it('should report schema migrations of older files', async () => {
+        const result = await importCubeFromFile(createMockFile(JSON.stringify(createTestCube())))
+        expect(result.success).toBe(true)
+        expect(result.cube?.schema_version).toBe(CURRENT_SCHEMA_VERSION)
+        expect(result.migration).toMatchObject({
+          fromVersion: 1,
+          toVersion: CURRENT_SCHEMA_VERSION,
+        })
+      })
+
+      it('should reject files from a newer schema version', async () => {
+        const cube = { ...createTestCube(), schema_version: CURRENT_SCHEMA_VERSION + 1 }
+        const result = await importCubeFromFile(createMockFile(JSON.stringify(cube)))
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('please update the editor')
+      })
+
       it('should handle array of cubes (return first)', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
@@ -306,6 +400,34 @@ describe('Storage Module', () => {
       })
     })
 
+    describe('importWorldFromVoxelFile', () => {
+      it('should import a .vox file as a world named after the file', async () => {
+        const file = createMockBinaryFile(exportWorldToVox(createTestWorld()), 'My Castle.vox')
+
+        const result = await importWorldFromVoxelFile(file)
+        expect(result.success).toBe(true)
+        expect(result.world?.id).toBe('my_castle')
+        expect(Object.keys(result.world!.cells)).toHaveLength(2)
+      })
+
+      it('should import a schematic file', async () => {
+        const world = createTestWorld()
+        const file = createMockBinaryFile(await exportWorldToSchematic(world), 'test.schem')
+
+        const result = await importWorldFromVoxelFile(file)
+        expect(result.success).toBe(true)
+        expect(result.world).toEqual(world)
+      })
+
+      it('should return an error for unreadable files', async () => {
+        const file = createMockBinaryFile(new Uint8Array([1, 2, 3]), 'broken.schem')
+
+        const result = await importWorldFromVoxelFile(file)
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('Failed to import voxel file')
+      })
+    })
+
     describe('importCubesFromFile', () => {
       it('should import multiple valid cubes', async () => {
         const cube1 = createTestCube('cube_1')
@@ -334,161 +456,236 @@ describe('Storage Module', () => {
   })
 
   describe('History functions', () => {
-    beforeEach(() => {
-      clearHistory()
+    beforeEach(async () => {
+      await clearHistory()
     })
 
     describe('pushToHistory', () => {
-      it('should add cube to history', () => {
+      it('should start a timeline with the first cube as root', async () => {
         const cube = createTestCube()
-        pushToHistory(cube)
+        await pushToHistory(cube)
 
-        const state = getHistoryState()
-        expect(state.present).not.toBeNull()
-        expect(state.present?.id).toBe(cube.id)
+        const state = await getHistoryState()
+        expect(state?.present.id).toBe(cube.id)
+        expect(Object.keys(state!.nodes)).toEqual([state!.rootId])
       })
 
-      it('should move previous present to past', () => {
+      it('should record a labelled patch instead of a snapshot', async () => {
         const cube1 = createTestCube('cube_1')
-        const cube2 = createTestCube('cube_2')
+        const cube2 = { ...cube1, noise: { ...cube1.noise!, scale: 12 } }
 
-        pushToHistory(cube1)
-        pushToHistory(cube2)
+        await pushToHistory(cube1)
+        await pushToHistory(cube2)
 
-        const state = getHistoryState()
-        expect(state.past).toHaveLength(1)
-        expect(state.past[0].id).toBe('cube_1')
-        expect(state.present?.id).toBe('cube_2')
+        const state = await getHistoryState()
+        const node = state!.nodes[state!.currentId]
+        expect(node.label).toBe('noise.scale 8 → 12')
+        expect(node.patch).toEqual([{ op: 'replace', path: '/noise/scale', value: 12 }])
+        expect(state!.present.noise?.scale).toBe(12)
       })
 
-      it('should clear future on new action', () => {
+      it('should merge rapid edits of the same field into one step', async () => {
+        const cube = createTestCube('cube_1')
+        await pushToHistory(cube)
+        for (const scale of [9, 10, 11]) {
+          await pushToHistory({ ...cube, noise: { ...cube.noise!, scale } })
+        }
+
+        const entries = await getHistoryEntries()
+        expect(entries).toHaveLength(2)
+        expect(entries[1].label).toBe('noise.scale 8 → 11')
+      })
+
+      it('should keep the undone future as a branch', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
         const cube3 = createTestCube('cube_3')
 
-        pushToHistory(cube1)
-        pushToHistory(cube2)
-        undo() // Now cube1 is present, cube2 is in future
+        await pushToHistory(cube1)
+        await pushToHistory(cube2)
+        await undo() // Now cube1 is present, cube2 is a branch
 
-        pushToHistory(cube3) // Should clear future
+        await pushToHistory(cube3)
 
-        const state = getHistoryState()
-        expect(state.future).toHaveLength(0)
+        const entries = await getHistoryEntries()
+        expect(entries.map((entry) => entry.label)).toEqual([
+          'Initial state',
+          'id cube_1 → cube_3',
+          'id cube_1 → cube_2',
+        ])
+        expect(entries[2]).toMatchObject({ depth: 1, isActivePath: false })
       })
     })
 
     describe('undo', () => {
-      it('should return null when no history', () => {
-        const result = undo()
+      it('should return null when no history', async () => {
+        const result = await undo()
         expect(result).toBeNull()
       })
 
-      it('should return previous state', () => {
+      it('should return previous state', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
 
-        pushToHistory(cube1)
-        pushToHistory(cube2)
+        await pushToHistory(cube1)
+        await pushToHistory(cube2)
 
-        const result = undo()
+        const result = await undo()
         expect(result).not.toBeNull()
         expect(result?.id).toBe('cube_1')
       })
 
-      it('should move current to future', () => {
+      it('should keep the undone step for redo', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
 
-        pushToHistory(cube1)
-        pushToHistory(cube2)
-        undo()
+        await pushToHistory(cube1)
+        await pushToHistory(cube2)
+        await undo()
 
-        const state = getHistoryState()
-        expect(state.future).toHaveLength(1)
-        expect(state.future[0].id).toBe('cube_2')
+        const state = await getHistoryState()
+        expect(state!.currentId).toBe(state!.rootId)
+        expect(Object.keys(state!.nodes)).toHaveLength(2)
       })
     })
 
     describe('redo', () => {
-      it('should return null when no future', () => {
-        const result = redo()
+      it('should return null when no future', async () => {
+        const result = await redo()
         expect(result).toBeNull()
       })
 
-      it('should return next state', () => {
+      it('should return next state', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
 
-        pushToHistory(cube1)
-        pushToHistory(cube2)
-        undo()
+        await pushToHistory(cube1)
+        await pushToHistory(cube2)
+        await undo()
 
-        const result = redo()
+        const result = await redo()
         expect(result).not.toBeNull()
         expect(result?.id).toBe('cube_2')
       })
+
+      it('should follow a chosen branch', async () => {
+        await pushToHistory(createTestCube('cube_1'))
+        await pushToHistory(createTestCube('cube_2'))
+        const first = (await getHistoryState())!.currentId
+        await undo()
+        await pushToHistory(createTestCube('cube_3'))
+        await undo()
+
+        expect((await redo())?.id).toBe('cube_3')
+        await undo()
+        expect((await redo(first))?.id).toBe('cube_2')
+      })
+    })
+
+    describe('jumpToHistory', () => {
+      it('should jump across branches', async () => {
+        await pushToHistory(createTestCube('cube_1'))
+        await pushToHistory(createTestCube('cube_2'))
+        const target = (await getHistoryState())!.currentId
+        await undo()
+        await pushToHistory(createTestCube('cube_3'))
+
+        expect((await jumpToHistory(target))?.id).toBe('cube_2')
+        expect(await jumpToHistory(target)).toBeNull()
+        expect(await jumpToHistory('missing')).toBeNull()
+      })
+    })
+
+    describe('getHistoryCube', () => {
+      it('should read a step without moving to it', async () => {
+        await pushToHistory(createTestCube('cube_1'))
+        await pushToHistory(createTestCube('cube_2'))
+        const { rootId, currentId } = (await getHistoryState())!
+
+        expect((await getHistoryCube(rootId))?.id).toBe('cube_1')
+        expect((await getHistoryState())!.currentId).toBe(currentId)
+        expect(await getHistoryCube('missing')).toBeNull()
+      })
     })
 
     describe('canUndo / canRedo', () => {
-      it('should return false when no history', () => {
-        expect(canUndo()).toBe(false)
-        expect(canRedo()).toBe(false)
+      it('should return false when no history', async () => {
+        expect(await canUndo()).toBe(false)
+        expect(await canRedo()).toBe(false)
       })
 
-      it('should return correct values after operations', () => {
+      it('should return correct values after operations', async () => {
         const cube1 = createTestCube('cube_1')
         const cube2 = createTestCube('cube_2')
 
-        pushToHistory(cube1)
-        expect(canUndo()).toBe(false) // Only present, no past
+        await pushToHistory(cube1)
+        expect(await canUndo()).toBe(false) // Only the root
 
-        pushToHistory(cube2)
-        expect(canUndo()).toBe(true) // cube1 in past
+        await pushToHistory(cube2)
+        expect(await canUndo()).toBe(true) // cube1 is the parent
 
-        undo()
-        expect(canUndo()).toBe(false) // No more past
-        expect(canRedo()).toBe(true) // cube2 in future
+        await undo()
+        expect(await canUndo()).toBe(false) // Back at the root
+        expect(await canRedo()).toBe(true) // cube2 is a child
       })
     })
 
     describe('initializeHistory', () => {
-      it('should set initial state with empty past and future', () => {
+      it('should start a new timeline with a labelled root', async () => {
+        await pushToHistory(createTestCube('cube_1'))
+        await pushToHistory(createTestCube('cube_2'))
+
         const cube = createTestCube()
-        initializeHistory(cube)
+        await initializeHistory(cube, 'Open "Test"')
 
-        const state = getHistoryState()
-        expect(state.past).toHaveLength(0)
-        expect(state.future).toHaveLength(0)
-        expect(state.present?.id).toBe(cube.id)
+        const entries = await getHistoryEntries()
+        expect(entries).toHaveLength(1)
+        expect(entries[0]).toMatchObject({ label: 'Open "Test"', isCurrent: true })
+        expect((await getHistoryState())?.present.id).toBe(cube.id)
       })
     })
 
     describe('clearHistory', () => {
-      it('should clear all history', () => {
+      it('should clear all history', async () => {
         const cube = createTestCube()
-        pushToHistory(cube)
-        clearHistory()
+        await pushToHistory(cube)
+        await clearHistory()
+
+        expect(await getHistoryState()).toBeNull()
+        expect(await getHistoryEntries()).toEqual([])
+      })
+    })
 
-        const state = getHistoryState()
-        expect(state.past).toHaveLength(0)
-        expect(state.future).toHaveLength(0)
-        expect(state.present).toBeNull()
+    describe('legacy snapshot history', () => {
+      it('should convert stored past/present/future snapshots', async () => {
+        localStorage.setItem(
+          'isocubic_history',
+          JSON.stringify({
+            past: [createTestCube('cube_1')],
+            present: createTestCube('cube_2'),
+            future: [createTestCube('cube_3')],
+          })
+        )
+
+        expect(await canUndo()).toBe(true)
+        expect(await canRedo()).toBe(true)
+        expect((await undo())?.id).toBe('cube_1')
       })
     })
   })
 
   describe('AutosaveManager', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       vi.useFakeTimers()
-      clearCurrentCube()
-      clearHistory()
+      await clearCurrentCube()
+      await clearHistory()
     })
 
     afterEach(() => {
       vi.useRealTimers()
     })
 
-    it('should debounce saves', () => {
+    it('should debounce saves', async () => {
       const manager = new AutosaveManager(100)
       const cube1 = createTestCube('cube_1')
       const cube2 = createTestCube('cube_2')
@@ -496,55 +693,92 @@ describe('Storage Module', () => {
       manager.schedule(cube1, false)
       manager.schedule(cube2, false) // Should cancel first
 
-      vi.advanceTimersByTime(50)
-      expect(loadCurrentCube()).toBeNull() // Not saved yet
+      await vi.advanceTimersByTimeAsync(50)
+      expect(await loadCurrentCube()).toBeNull() // Not saved yet
 
-      vi.advanceTimersByTime(100)
-      const saved = loadCurrentCube()
+      await vi.advanceTimersByTimeAsync(100)
+      const saved = await loadCurrentCube()
       expect(saved?.id).toBe('cube_2') // Only cube2 saved
     })
 
-    it('should cancel pending save', () => {
+    it('should cancel pending save', async () => {
       const manager = new AutosaveManager(100)
       const cube = createTestCube()
 
       manager.schedule(cube, false)
       manager.cancel()
 
-      vi.advanceTimersByTime(200)
-      expect(loadCurrentCube()).toBeNull()
+      await vi.advanceTimersByTimeAsync(200)
+      expect(await loadCurrentCube()).toBeNull()
     })
 
-    it('should save immediately with saveNow', () => {
+    it('should save immediately with saveNow', async () => {
       const manager = new AutosaveManager(100)
       const cube = createTestCube()
 
-      manager.saveNow(cube, false)
+      await manager.saveNow(cube, false)
 
       // No need to advance timers
-      const saved = loadCurrentCube()
+      const saved = await loadCurrentCube()
       expect(saved?.id).toBe(cube.id)
     })
 
-    it('should push to history when enabled', () => {
+    it('should push to history when enabled', async () => {
       const manager = new AutosaveManager(100)
       const cube = createTestCube()
 
-      manager.saveNow(cube, true)
+      await manager.saveNow(cube, true)
 
-      const state = getHistoryState()
-      expect(state.present?.id).toBe(cube.id)
+      const state = await getHistoryState()
+      expect(state?.present.id).toBe(cube.id)
     })
   })
 
   describe('StorageError', () => {
-    it('should have correct properties', () => {
+    it('should have correct properties', async () => {
       const cause = new Error('Original error')
       const error = new StorageError('Test message', cause)
 
       expect(error.name).toBe('StorageError')
       expect(error.message).toBe('Test message')
       expect(error.cause).toBe(cause)
+      expect(error.code).toBe('unknown')
+    })
+  })
+
+  describe('Quota errors', () => {
+    beforeEach(() => {
+      setStorageAdapter(new MemoryStorageAdapter(200))
+    })
+
+    afterEach(() => {
+      setStorageAdapter(null)
+    })
+
+    it('should report an exceeded quota when saving cubes', async () => {
+      await expect(saveCubeToStorage(createTestCube())).rejects.toMatchObject({
+        name: 'StorageError',
+        code: 'quota_exceeded',
+      })
+    })
+
+    it('should no longer swallow history and current cube failures', async () => {
+      await expect(pushToHistory(createTestCube())).rejects.toBeInstanceOf(StorageError)
+      await expect(saveCurrentCube(createTestCube())).rejects.toMatchObject({
+        code: 'quota_exceeded',
+      })
+      // A failed update does not block later ones
+      expect(await undo()).toBeNull()
+    })
+
+    it('should pass scheduled autosave failures to onError', async () => {
+      vi.useFakeTimers()
+      const onError = vi.fn()
+      new AutosaveManager(100, onError).schedule(createTestCube())
+
+      await vi.advanceTimersByTimeAsync(100)
+      vi.useRealTimers()
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'quota_exceeded' }))
     })
   })
 })
@@ -1,16 +1,58 @@
 /**
  * Storage module for SpectralCube configurations
- * Provides LocalStorage persistence, JSON file export/import, and undo/redo history
+ * Provides persistence through the active StorageAdapter (IndexedDB when
+ * available), JSON and .isocubic project file export/import, voxel file interop,
+ * and a branching undo/redo history stored as labelled JSON patches
+ *
+ * Cubes written with older schema versions are upgraded on load and import
  */
 
 import type { SpectralCube } from '../types/cube'
-import { validateCube, isValidCube } from './validation'
+import { CURRENT_SCHEMA_VERSION } from '../types/cube'
+import type { WorldConfig } from '../types/world'
+import { validateCube, isValidCube, validateWorld } from './validation'
+import { migrateCube } from './migrations'
+import type { MigrationReport } from './migrations'
+import { exportCubeToGLB } from './gltf-export'
+import type { GLTFExportOptions } from './gltf-export'
+import {
+  exportWorldToSchematic,
+  exportWorldToVox,
+  importSchematicToWorld,
+  importVoxToWorld,
+} from './voxel-formats'
+import type { SchematicExportOptions, VoxelImportOptions } from './voxel-formats'
+import { StorageError, getStorageAdapter } from './storage-adapter'
+import { PROJECT_FILE_EXTENSION, parseProject, serializeProject } from './project-file'
+import type { ProjectContents, ProjectImportResult } from './project-file'
+import {
+  canRedoTimeline,
+  canUndoTimeline,
+  commitToTimeline,
+  createHistoryTimeline,
+  getHistoryEntries as getTimelineEntries,
+  getHistoryNodeCube,
+  jumpToHistoryNode,
+  parseHistoryTimeline,
+  redoTimeline,
+  undoTimeline,
+} from './history'
+import type { HistoryCommitOptions, HistoryEntry, HistoryTimeline } from './history'
+
+export { StorageError } from './storage-adapter'
+export type { StorageErrorCode } from './storage-adapter'
+export type {
+  HistoryCommitOptions,
+  HistoryComparison,
+  HistoryEntry,
+  HistoryTimeline,
+} from './history'
+export type { ProjectContents, ProjectImportResult } from './project-file'
 
 // Storage keys
 const STORAGE_KEY_CONFIGS = 'isocubic_configs'
 const STORAGE_KEY_CURRENT = 'isocubic_current'
 const STORAGE_KEY_HISTORY = 'isocubic_history'
-const MAX_HISTORY_SIZE = 50
 
 /**
  * Stored configuration with metadata
@@ -21,69 +63,101 @@ export interface StoredConfig {
 }
 
 /**
- * History state for undo/redo
+ * Result of import operation
  */
-export interface HistoryState {
-  past: SpectralCube[]
-  present: SpectralCube | null
-  future: SpectralCube[]
+export interface ImportResult {
+  success: boolean
+  cube?: SpectralCube
+  error?: string
+  /** Present when the cube was upgraded from an older schema version */
+  migration?: MigrationReport
 }
 
 /**
- * Result of import operation
+ * Result of importing a voxel file as a world
  */
-export interface ImportResult {
+export interface WorldImportResult {
   success: boolean
-  cube?: SpectralCube
+  world?: WorldConfig
   error?: string
 }
 
+// ============================================================================
+// Saved Configurations
+// ============================================================================
+
 /**
- * Storage error class
+ * Writes a JSON value through the active storage adapter
+ * @throws StorageError when the write fails (code 'quota_exceeded' when storage is full)
  */
-export class StorageError extends Error {
-  readonly cause?: unknown
+async function writeJSON(key: string, value: unknown): Promise<void> {
+  const adapter = await getStorageAdapter()
+  await adapter.setItem(key, JSON.stringify(value))
+}
 
-  constructor(message: string, cause?: unknown) {
-    super(message)
-    this.name = 'StorageError'
-    this.cause = cause
+/**
+ * Reads a JSON value through the active storage adapter
+ * @returns The parsed value, or null when missing or unreadable
+ */
+async function readJSON<T>(key: string): Promise<T | null> {
+  try {
+    const adapter = await getStorageAdapter()
+    const data = await adapter.getItem(key)
+    return data ? (JSON.parse(data) as T) : null
+  } catch {
+    return null
   }
 }
 
-// ============================================================================
-// LocalStorage Functions
-// ============================================================================
+/**
+ * Removes a value through the active storage adapter
+ */
+async function removeKey(key: string): Promise<void> {
+  const adapter = await getStorageAdapter()
+  await adapter.removeItem(key)
+}
 
 /**
- * Saves a cube configuration to LocalStorage
+ * Saves a cube configuration to storage
  * @param cube - The cube to save
  * @throws StorageError if saving fails
  */
-export function saveCubeToStorage(cube: SpectralCube): void {
+export async function saveCubeToStorage(cube: SpectralCube): Promise<void> {
   try {
-    const configs = getAllConfigsFromStorage()
+    const configs = await getAllConfigsFromStorage()
     const storedConfig: StoredConfig = {
-      cube: { ...cube, meta: { ...cube.meta, modified: new Date().toISOString() } },
+      cube: {
+        ...cube,
+        schema_version: CURRENT_SCHEMA_VERSION,
+        meta: { ...cube.meta, modified: new Date().toISOString() },
+      },
       savedAt: new Date().toISOString(),
     }
     configs[cube.id] = storedConfig
-    localStorage.setItem(STORAGE_KEY_CONFIGS, JSON.stringify(configs))
+    await writeJSON(STORAGE_KEY_CONFIGS, configs)
   } catch (error) {
-    throw new StorageError('Failed to save cube to LocalStorage', error)
+    throw new StorageError('Failed to save cube to storage', error)
   }
 }
 
 /**
- * Loads a cube configuration from LocalStorage by ID
+ * Loads a cube configuration from storage by ID
  * @param id - The cube ID to load
  * @returns The cube if found, null otherwise
  */
-export function loadCubeFromStorage(id: string): SpectralCube | null {
+export async function loadCubeFromStorage(id: string): Promise<SpectralCube | null> {
   try {
-    const configs = getAllConfigsFromStorage()
+    const configs = await getAllConfigsFromStorage()
     const stored = configs[id]
-    return stored?.cube ?? null
+    if (!stored) return null
+
+    // Persist upgrades so the migration only runs once per stored cube
+    const { document, report } = migrateCube(stored.cube)
+    if (report) {
+      configs[id] = { ...stored, cube: document }
+      await writeJSON(STORAGE_KEY_CONFIGS, configs)
+    }
+    return document
   } catch {
     return null
   }
@@ -93,38 +167,32 @@ export function loadCubeFromStorage(id: string): SpectralCube | null {
  * Gets all stored cube configurations
  * @returns Record of cube IDs to stored configs
  */
-export function getAllConfigsFromStorage(): Record<string, StoredConfig> {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY_CONFIGS)
-    if (!data) return {}
-    return JSON.parse(data) as Record<string, StoredConfig>
-  } catch {
-    return {}
-  }
+export async function getAllConfigsFromStorage(): Promise<Record<string, StoredConfig>> {
+  return (await readJSON<Record<string, StoredConfig>>(STORAGE_KEY_CONFIGS)) ?? {}
 }
 
 /**
  * Gets a list of all saved cubes with metadata
  * @returns Array of stored configs sorted by save date (newest first)
  */
-export function getSavedCubesList(): StoredConfig[] {
-  const configs = getAllConfigsFromStorage()
+export async function getSavedCubesList(): Promise<StoredConfig[]> {
+  const configs = await getAllConfigsFromStorage()
   return Object.values(configs).sort(
     (a, b) => new Date(b.savedAt).getTime() - new Date(a.savedAt).getTime()
   )
 }
 
 /**
- * Deletes a cube configuration from LocalStorage
+ * Deletes a cube configuration from storage
  * @param id - The cube ID to delete
  * @returns True if deleted, false if not found
  */
-export function deleteCubeFromStorage(id: string): boolean {
+export async function deleteCubeFromStorage(id: string): Promise<boolean> {
   try {
-    const configs = getAllConfigsFromStorage()
+    const configs = await getAllConfigsFromStorage()
     if (!(id in configs)) return false
     delete configs[id]
-    localStorage.setItem(STORAGE_KEY_CONFIGS, JSON.stringify(configs))
+    await writeJSON(STORAGE_KEY_CONFIGS, configs)
     return true
   } catch {
     return false
@@ -132,10 +200,10 @@ export function deleteCubeFromStorage(id: string): boolean {
 }
 
 /**
- * Clears all cube configurations from LocalStorage
+ * Clears all cube configurations from storage
  */
-export function clearAllConfigs(): void {
-  localStorage.removeItem(STORAGE_KEY_CONFIGS)
+export async function clearAllConfigs(): Promise<void> {
+  await removeKey(STORAGE_KEY_CONFIGS)
 }
 
 // ============================================================================
@@ -145,12 +213,13 @@ export function clearAllConfigs(): void {
 /**
  * Saves the current working cube state
  * @param cube - The current cube to save
+ * @throws StorageError if saving fails
  */
-export function saveCurrentCube(cube: SpectralCube): void {
+export async function saveCurrentCube(cube: SpectralCube): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY_CURRENT, JSON.stringify(cube))
-  } catch {
-    // Silently fail for autosave
+    await writeJSON(STORAGE_KEY_CURRENT, cube)
+  } catch (error) {
+    throw new StorageError('Failed to save the current cube', error)
   }
 }
 
@@ -158,12 +227,12 @@ export function saveCurrentCube(cube: SpectralCube): void {
  * Loads the current working cube state
  * @returns The current cube if found, null otherwise
  */
-export function loadCurrentCube(): SpectralCube | null {
+export async function loadCurrentCube(): Promise<SpectralCube | null> {
   try {
-    const data = localStorage.getItem(STORAGE_KEY_CURRENT)
+    const data = await readJSON<unknown>(STORAGE_KEY_CURRENT)
     if (!data) return null
-    const parsed = JSON.parse(data)
-    return isValidCube(parsed) ? parsed : null
+    const { document } = migrateCube(data)
+    return isValidCube(document) ? document : null
   } catch {
     return null
   }
@@ -172,21 +241,39 @@ export function loadCurrentCube(): SpectralCube | null {
 /**
  * Clears the current working cube state
  */
-export function clearCurrentCube(): void {
-  localStorage.removeItem(STORAGE_KEY_CURRENT)
+export async function clearCurrentCube(): Promise<void> {
+  await removeKey(STORAGE_KEY_CURRENT)
 }
 
 // ============================================================================
 // JSON File Export/Import
 // ============================================================================
 
+/**
+ * Triggers a browser download of a blob
+ * @param blob - File contents
+ * @param name - File name without extension (sanitized to [a-zA-Z0-9_-])
+ * @param extension - File extension including the dot
+ */
+function downloadBlob(blob: Blob, name: string, extension: string): void {
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name.replace(/[^a-zA-Z0-9_-]/g, '_')}${extension}`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
 /**
  * Exports a cube configuration to a JSON file download
  * @param cube - The cube to export
  * @param filename - Optional custom filename (without extension)
  */
 export function exportCubeToFile(cube: SpectralCube, filename?: string): void {
-  const json = JSON.stringify(cube, null, 2)
+  const json = JSON.stringify({ ...cube, schema_version: CURRENT_SCHEMA_VERSION }, null, 2)
   const blob = new Blob([json], { type: 'application/json' })
   const url = URL.createObjectURL(blob)
 
@@ -202,13 +289,34 @@ export function exportCubeToFile(cube: SpectralCube, filename?: string): void {
   URL.revokeObjectURL(url)
 }
 
+/**
+ * Exports a cube configuration to a binary glTF (.glb) file download
+ * The original configuration is kept in the asset extras for lossless re-import
+ * @param cube - The cube to export
+ * @param filename - Optional custom filename (without extension)
+ * @param options - Texture baking options
+ */
+export function exportCubeToGLBFile(
+  cube: SpectralCube,
+  filename?: string,
+  options?: GLTFExportOptions
+): void {
+  const glb = exportCubeToGLB(cube, options)
+  const blob = new Blob([glb], { type: 'model/gltf-binary' })
+  downloadBlob(blob, filename || cube.meta?.name || cube.id, '.glb')
+}
+
 /**
  * Exports multiple cube configurations to a single JSON file
  * @param cubes - Array of cubes to export
  * @param filename - Optional custom filename (without extension)
  */
 export function exportCubesToFile(cubes: SpectralCube[], filename?: string): void {
-  const json = JSON.stringify(cubes, null, 2)
+  const json = JSON.stringify(
+    cubes.map((cube) => ({ ...cube, schema_version: CURRENT_SCHEMA_VERSION })),
+    null,
+    2
+  )
   const blob = new Blob([json], { type: 'application/json' })
   const url = URL.createObjectURL(blob)
 
@@ -223,6 +331,31 @@ export function exportCubesToFile(cubes: SpectralCube[], filename?: string): voi
   URL.revokeObjectURL(url)
 }
 
+/**
+ * Upgrades and validates one parsed cube
+ * @param cubeData - Parsed JSON value
+ * @param errorPrefix - Prefix for validation error messages
+ */
+function importCubeData(cubeData: unknown, errorPrefix: string): ImportResult {
+  let migrated: ReturnType<typeof migrateCube>
+  try {
+    migrated = migrateCube(cubeData)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: `${errorPrefix}: ${message}` }
+  }
+
+  const validation = validateCube(migrated.document)
+  if (!validation.valid) {
+    const errorMessages = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
+    return { success: false, error: `${errorPrefix}: ${errorMessages}` }
+  }
+
+  return migrated.report
+    ? { success: true, cube: migrated.document, migration: migrated.report }
+    : { success: true, cube: migrated.document }
+}
+
 /**
  * Imports a cube configuration from a JSON file
  * @param file - The file to import
@@ -236,19 +369,7 @@ export async function importCubeFromFile(file: File): Promise<ImportResult> {
     // Handle array of cubes (return first one)
     const cubeData = Array.isArray(parsed) ? parsed[0] : parsed
 
-    const validation = validateCube(cubeData)
-    if (!validation.valid) {
-      const errorMessages = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
-      return {
-        success: false,
-        error: `Invalid cube configuration: ${errorMessages}`,
-      }
-    }
-
-    return {
-      success: true,
-      cube: cubeData as SpectralCube,
-    }
+    return importCubeData(cubeData, 'Invalid cube configuration')
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error'
     return {
@@ -272,13 +393,7 @@ export async function importCubesFromFile(file: File): Promise<ImportResult[]> {
     const results: ImportResult[] = []
 
     for (const cubeData of cubes) {
-      const validation = validateCube(cubeData)
-      if (validation.valid) {
-        results.push({ success: true, cube: cubeData as SpectralCube })
-      } else {
-        const errorMessages = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
-        results.push({ success: false, error: `Invalid cube: ${errorMessages}` })
-      }
+      results.push(importCubeData(cubeData, 'Invalid cube'))
     }
 
     return results
@@ -288,6 +403,111 @@ export async function importCubesFromFile(file: File): Promise<ImportResult[]> {
   }
 }
 
+// ============================================================================
+// Project File Export/Import
+// ============================================================================
+
+/** File types accepted by importProjectFromFile */
+export const PROJECT_FILE_ACCEPT = `${PROJECT_FILE_EXTENSION},.json`
+
+/**
+ * Exports a project bundle to an .isocubic file download
+ * @param project - Cubes, stacks, presets, worlds and editor state to bundle
+ * @param filename - Optional custom filename (without extension)
+ */
+export function exportProjectToFile(project: ProjectContents, filename?: string): void {
+  const blob = new Blob([serializeProject(project)], { type: 'application/json' })
+  downloadBlob(blob, filename || project.name, PROJECT_FILE_EXTENSION)
+}
+
+/**
+ * Imports a project bundle from an .isocubic file
+ * Items written with older schema versions are upgraded; id collisions with
+ * local items are left to the caller (see resolveProjectCollisions)
+ * @param file - The file to import
+ * @returns Promise with import result
+ */
+export async function importProjectFromFile(file: File): Promise<ProjectImportResult> {
+  try {
+    return parseProject(await file.text())
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: `Failed to read project file: ${message}` }
+  }
+}
+
+// ============================================================================
+// Voxel File Export/Import
+// ============================================================================
+
+/** File types accepted by importWorldFromVoxelFile */
+export const VOXEL_FILE_ACCEPT = '.vox,.schem'
+
+/**
+ * Imports a world from a MagicaVoxel .vox or Sponge .schem file
+ * The format is detected from the file contents
+ * @param file - The file to import
+ * @param options - Palette clustering and naming options
+ * @returns Promise with import result
+ */
+export async function importWorldFromVoxelFile(
+  file: File,
+  options: VoxelImportOptions = {}
+): Promise<WorldImportResult> {
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const worldId =
+      options.worldId ??
+      (file.name
+        .replace(/\.[^.]*$/, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9_]/g, '_') ||
+        undefined)
+    const isVox = String.fromCharCode(...bytes.subarray(0, 4)) === 'VOX '
+    const world = isVox
+      ? importVoxToWorld(bytes, { ...options, worldId })
+      : await importSchematicToWorld(bytes, { ...options, worldId })
+
+    const validation = validateWorld(world)
+    if (!validation.valid) {
+      const errorMessages = validation.errors.map((e) => `${e.path}: ${e.message}`).join('; ')
+      return { success: false, error: `Invalid world: ${errorMessages}` }
+    }
+    return { success: true, world }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { success: false, error: `Failed to import voxel file: ${message}` }
+  }
+}
+
+/**
+ * Exports a world to a MagicaVoxel .vox file download
+ * @param world - The world to export
+ * @param filename - Optional custom filename (without extension)
+ * @throws VoxelFormatError when the world does not fit the .vox limits
+ */
+export function exportWorldToVoxFile(world: WorldConfig, filename?: string): void {
+  const blob = new Blob([exportWorldToVox(world)], { type: 'application/octet-stream' })
+  downloadBlob(blob, filename || world.meta?.name || world.id, '.vox')
+}
+
+/**
+ * Exports a world to a Sponge schematic (.schem) file download
+ * @param world - The world to export
+ * @param filename - Optional custom filename (without extension)
+ * @param options - Block names to use for palette cubes
+ */
+export async function exportWorldToSchematicFile(
+  world: WorldConfig,
+  filename?: string,
+  options?: SchematicExportOptions
+): Promise<void> {
+  const blob = new Blob([await exportWorldToSchematic(world, options)], {
+    type: 'application/octet-stream',
+  })
+  downloadBlob(blob, filename || world.meta?.name || world.id, '.schem')
+}
+
 /**
  * Creates a file input and triggers file selection
  * @param onFileSelected - Callback when file is selected
@@ -313,137 +533,161 @@ export function triggerFileInput(
 // Undo/Redo History
 // ============================================================================
 
+/** Pending history update; updates are chained so read-modify-write cycles never interleave */
+let historyQueue: Promise<unknown> = Promise.resolve()
+
 /**
- * Gets the current history state from storage
- * @returns The history state
+ * Runs a history update after all previously queued ones
  */
-export function getHistoryState(): HistoryState {
-  try {
-    const data = localStorage.getItem(STORAGE_KEY_HISTORY)
-    if (!data) {
-      return { past: [], present: null, future: [] }
-    }
-    return JSON.parse(data) as HistoryState
-  } catch {
-    return { past: [], present: null, future: [] }
-  }
+function queueHistoryUpdate<T>(update: () => Promise<T>): Promise<T> {
+  const result = historyQueue.then(update)
+  historyQueue = result.catch(() => undefined)
+  return result
 }
 
 /**
- * Saves history state to storage
- * @param state - The history state to save
+ * Gets the history timeline from storage
+ * (snapshot history written by older versions is converted)
+ * @returns The timeline, or null when no history is stored
  */
-function saveHistoryState(state: HistoryState): void {
-  try {
-    // Limit history size
-    const limitedState: HistoryState = {
-      past: state.past.slice(-MAX_HISTORY_SIZE),
-      present: state.present,
-      future: state.future.slice(0, MAX_HISTORY_SIZE),
-    }
-    localStorage.setItem(STORAGE_KEY_HISTORY, JSON.stringify(limitedState))
-  } catch {
-    // Silently fail
-  }
+export async function getHistoryState(): Promise<HistoryTimeline | null> {
+  return parseHistoryTimeline(await readJSON<unknown>(STORAGE_KEY_HISTORY))
 }
 
 /**
- * Pushes a new state to history
- * @param cube - The new cube state to push
+ * Gets the history timeline flattened for display
+ * @returns Entries depth-first from the root (empty when no history is stored)
  */
-export function pushToHistory(cube: SpectralCube): void {
-  const state = getHistoryState()
-
-  if (state.present !== null) {
-    state.past.push(state.present)
-  }
-
-  state.present = cube
-  state.future = [] // Clear redo stack on new action
-
-  saveHistoryState(state)
+export async function getHistoryEntries(): Promise<HistoryEntry[]> {
+  const timeline = await getHistoryState()
+  return timeline ? getTimelineEntries(timeline) : []
 }
 
 /**
- * Performs an undo operation
- * @returns The previous cube state, or null if nothing to undo
+ * Gets the cube at any step of the stored timeline without moving to it
+ * @param nodeId - The step to read
+ * @returns The cube at that step, or null if no history is stored or the step does not exist
  */
-export function undo(): SpectralCube | null {
-  const state = getHistoryState()
+export async function getHistoryCube(nodeId: string): Promise<SpectralCube | null> {
+  const timeline = await getHistoryState()
+  return timeline ? getHistoryNodeCube(timeline, nodeId) : null
+}
 
-  if (state.past.length === 0) {
-    return null
+/**
+ * Saves the history timeline to storage
+ * @param timeline - The timeline to save
+ * @throws StorageError if saving fails
+ */
+async function saveHistoryState(timeline: HistoryTimeline): Promise<void> {
+  try {
+    await writeJSON(STORAGE_KEY_HISTORY, timeline)
+  } catch (error) {
+    throw new StorageError('Failed to save undo history', error)
   }
+}
 
-  const previous = state.past.pop()!
-
-  if (state.present !== null) {
-    state.future.unshift(state.present)
-  }
+/**
+ * Moves through the stored timeline and persists the result
+ * @returns The cube at the new current node, or null when the timeline did not move
+ */
+function navigateHistory(
+  move: (timeline: HistoryTimeline) => HistoryTimeline
+): Promise<SpectralCube | null> {
+  return queueHistoryUpdate(async () => {
+    const timeline = await getHistoryState()
+    if (!timeline) return null
+
+    const next = move(timeline)
+    if (next === timeline) return null
+    await saveHistoryState(next)
+    return next.present
+  })
+}
 
-  state.present = previous
-  saveHistoryState(state)
+/**
+ * Records an edit in history. Repeated edits of the same fields within
+ * HISTORY_GROUP_WINDOW_MS (e.g. a slider drag) are merged into one step; an
+ * edit after undo starts a new branch. Without stored history the cube
+ * becomes the root of a new timeline.
+ * @param cube - The cube after the edit
+ * @param options - Label and merge key for the step
+ * @throws StorageError if saving fails
+ */
+export function pushToHistory(
+  cube: SpectralCube,
+  options: HistoryCommitOptions = {}
+): Promise<void> {
+  return queueHistoryUpdate(async () => {
+    const timeline = await getHistoryState()
+    const next = timeline ? commitToTimeline(timeline, cube, options) : createHistoryTimeline(cube)
+    if (next !== timeline) {
+      await saveHistoryState(next)
+    }
+  })
+}
 
-  return previous
+/**
+ * Performs an undo operation (moves to the parent step)
+ * @returns The previous cube state, or null if nothing to undo
+ * @throws StorageError if saving fails
+ */
+export function undo(): Promise<SpectralCube | null> {
+  return navigateHistory(undoTimeline)
 }
 
 /**
  * Performs a redo operation
+ * @param branchId - Child step to follow (default: the most recently used branch)
  * @returns The next cube state, or null if nothing to redo
+ * @throws StorageError if saving fails
  */
-export function redo(): SpectralCube | null {
-  const state = getHistoryState()
-
-  if (state.future.length === 0) {
-    return null
-  }
-
-  const next = state.future.shift()!
-
-  if (state.present !== null) {
-    state.past.push(state.present)
-  }
-
-  state.present = next
-  saveHistoryState(state)
+export function redo(branchId?: string): Promise<SpectralCube | null> {
+  return navigateHistory((timeline) => redoTimeline(timeline, branchId))
+}
 
-  return next
+/**
+ * Jumps to any step of the timeline
+ * @param nodeId - The step to jump to
+ * @returns The cube at that step, or null if the step does not exist or is already current
+ * @throws StorageError if saving fails
+ */
+export function jumpToHistory(nodeId: string): Promise<SpectralCube | null> {
+  return navigateHistory((timeline) => jumpToHistoryNode(timeline, nodeId))
 }
 
 /**
  * Checks if undo is available
  * @returns True if undo is available
  */
-export function canUndo(): boolean {
-  return getHistoryState().past.length > 0
+export async function canUndo(): Promise<boolean> {
+  const timeline = await getHistoryState()
+  return timeline !== null && canUndoTimeline(timeline)
 }
 
 /**
  * Checks if redo is available
  * @returns True if redo is available
  */
-export function canRedo(): boolean {
-  return getHistoryState().future.length > 0
+export async function canRedo(): Promise<boolean> {
+  const timeline = await getHistoryState()
+  return timeline !== null && canRedoTimeline(timeline)
 }
 
 /**
  * Clears all history
  */
-export function clearHistory(): void {
-  localStorage.removeItem(STORAGE_KEY_HISTORY)
+export function clearHistory(): Promise<void> {
+  return queueHistoryUpdate(() => removeKey(STORAGE_KEY_HISTORY))
 }
 
 /**
- * Initializes history with a cube (for fresh start)
+ * Starts a new timeline with the cube as its root (for fresh start)
  * @param cube - The initial cube state
+ * @param label - Root label (default: "Initial state")
+ * @throws StorageError if saving fails
  */
-export function initializeHistory(cube: SpectralCube): void {
-  const state: HistoryState = {
-    past: [],
-    present: cube,
-    future: [],
-  }
-  saveHistoryState(state)
+export function initializeHistory(cube: SpectralCube, label?: string): Promise<void> {
+  return queueHistoryUpdate(() => saveHistoryState(createHistoryTimeline(cube, label)))
 }
 
 // ============================================================================
@@ -456,13 +700,16 @@ export function initializeHistory(cube: SpectralCube): void {
 export class AutosaveManager {
   private timeoutId: ReturnType<typeof setTimeout> | null = null
   private debounceMs: number
+  private onError?: (error: StorageError) => void
 
   /**
    * Creates a new AutosaveManager
    * @param debounceMs - Debounce delay in milliseconds (default: 1000)
+   * @param onError - Called when a scheduled save fails (e.g. storage quota exceeded)
    */
-  constructor(debounceMs: number = 1000) {
+  constructor(debounceMs: number = 1000, onError?: (error: StorageError) => void) {
     this.debounceMs = debounceMs
+    this.onError = onError
   }
 
   /**
@@ -476,11 +723,16 @@ export class AutosaveManager {
     }
 
     this.timeoutId = setTimeout(() => {
-      saveCurrentCube(cube)
-      if (pushHistory) {
-        pushToHistory(cube)
-      }
       this.timeoutId = null
+      this.save(cube, pushHistory).catch((error: unknown) => {
+        const storageError =
+          error instanceof StorageError ? error : new StorageError('Autosave failed', error)
+        if (this.onError) {
+          this.onError(storageError)
+        } else {
+          console.warn('Autosave failed:', storageError)
+        }
+      })
     }, this.debounceMs)
   }
 
@@ -498,12 +750,20 @@ export class AutosaveManager {
    * Forces immediate save
    * @param cube - The cube to save
    * @param pushHistory - Whether to push to history (default: true)
+   * @throws StorageError if saving fails
    */
-  saveNow(cube: SpectralCube, pushHistory: boolean = true): void {
+  async saveNow(cube: SpectralCube, pushHistory: boolean = true): Promise<void> {
     this.cancel()
-    saveCurrentCube(cube)
+    await this.save(cube, pushHistory)
+  }
+
+  /**
+   * Saves the current cube and optionally pushes it to history
+   */
+  private async save(cube: SpectralCube, pushHistory: boolean): Promise<void> {
+    await saveCurrentCube(cube)
     if (pushHistory) {
-      pushToHistory(cube)
+      await pushToHistory(cube)
     }
   }
 }
@@ -511,6 +771,9 @@ export class AutosaveManager {
 /**
  * Creates a default autosave manager instance
  */
-export function createAutosaveManager(debounceMs?: number): AutosaveManager {
-  return new AutosaveManager(debounceMs)
+export function createAutosaveManager(
+  debounceMs?: number,
+  onError?: (error: StorageError) => void
+): AutosaveManager {
+  return new AutosaveManager(debounceMs, onError)
 }
@@ -1,12 +1,22 @@
 /**
- * JSON Schema validation for SpectralCube configurations
- * Uses Ajv (Another JSON Schema Validator) for validation
+ * JSON Schema validation for SpectralCube, FFTCubeConfig, CubeStackConfig and
+ * WorldConfig configurations
+ * Uses Ajv (Another JSON Schema Validator) for validation, followed by semantic
+ * checks that JSON Schema cannot express
  */
 
 import Ajv from 'ajv'
+import type { ValidateFunction } from 'ajv'
 import addFormats from 'ajv-formats'
-import type { SpectralCube } from '../types/cube'
+import type { FFTCubeConfig, SpectralCube } from '../types/cube'
+import type { CubeStackConfig, StackLayerPosition } from '../types/stack'
+import type { WorldConfig } from '../types/world'
 import cubeSchema from '../types/cube-schema.json'
+import fftCubeSchema from '../types/fft-cube-schema.json'
+import stackSchema from '../types/stack-schema.json'
+import worldSchema from '../types/world-schema.json'
+import { resolveWorld } from './world'
+import { sortMaterialGraph } from './material-graph'
 
 // Create Ajv instance with JSON Schema draft-07 support
 const ajv = new Ajv({
@@ -18,8 +28,14 @@ const ajv = new Ajv({
 // Add format validators (date-time, etc.)
 addFormats(ajv)
 
-// Compile the schema
-const validateCubeSchema = ajv.compile(cubeSchema)
+// Compile the schemas (later schemas reference earlier ones by $id)
+const validateCubeSchema = ajv.compile<SpectralCube>(cubeSchema)
+const validateFFTCubeSchema = ajv.compile<FFTCubeConfig>(fftCubeSchema)
+const validateStackSchema = ajv.compile<CubeStackConfig>(stackSchema)
+const validateWorldSchema = ajv.compile<WorldConfig>(worldSchema)
+
+/** Tolerance for comparing a stack's totalHeight with its layer heights */
+const HEIGHT_TOLERANCE = 1e-6
 
 /**
  * Validation result with detailed error information
@@ -40,25 +56,54 @@ export interface ValidationError {
 }
 
 /**
- * Validates a SpectralCube configuration against the JSON schema
+ * Converts the errors of the last run of a compiled schema
+ */
+function schemaErrors(validate: ValidateFunction): ValidationError[] {
+  return (validate.errors || []).map((error) => ({
+    path: error.instancePath || '/',
+    message: error.message || 'Unknown validation error',
+    keyword: error.keyword,
+    params: error.params as Record<string, unknown>,
+  }))
+}
+
+/**
+ * Semantic checks for a schema-valid cube: its material graph, if any, has
+ * resolvable, correctly typed and acyclic node references
+ */
+function checkMaterialGraph(cube: SpectralCube, basePath: string = ''): ValidationError[] {
+  if (!cube.material) return []
+
+  try {
+    sortMaterialGraph(cube.material)
+    return []
+  } catch (error) {
+    return [
+      {
+        path: `${basePath}/material`,
+        message: (error as Error).message,
+        keyword: 'materialGraph',
+        params: {},
+      },
+    ]
+  }
+}
+
+/**
+ * Validates a SpectralCube configuration against the JSON schema and checks its
+ * material graph
  * @param cube - The cube configuration to validate
  * @returns Validation result with errors if any
  */
 export function validateCube(cube: unknown): ValidationResult {
   const valid = validateCubeSchema(cube)
 
-  if (valid) {
-    return { valid: true, errors: [] }
+  if (!valid) {
+    return { valid: false, errors: schemaErrors(validateCubeSchema) }
   }
 
-  const errors: ValidationError[] = (validateCubeSchema.errors || []).map((error) => ({
-    path: error.instancePath || '/',
-    message: error.message || 'Unknown validation error',
-    keyword: error.keyword,
-    params: error.params as Record<string, unknown>,
-  }))
-
-  return { valid: false, errors }
+  const errors = checkMaterialGraph(cube as SpectralCube)
+  return { valid: errors.length === 0, errors }
 }
 
 /**
@@ -87,6 +132,221 @@ export function isValidCube(cube: unknown): cube is SpectralCube {
   return validateCube(cube).valid
 }
 
+/**
+ * Validates an FFTCubeConfig against the JSON schema and checks that every
+ * coefficient frequency fits the cube's fft_size (at most fft_size / 2)
+ * @param cube - The FFT cube configuration to validate
+ * @returns Validation result with errors if any
+ */
+export function validateFFTCube(cube: unknown): ValidationResult {
+  const valid = validateFFTCubeSchema(cube)
+
+  if (!valid) {
+    return { valid: false, errors: schemaErrors(validateFFTCubeSchema) }
+  }
+
+  const config = cube as FFTCubeConfig
+  const maxFrequency = config.fft_size / 2
+  const errors: ValidationError[] = []
+
+  for (const channelId of ['R', 'G', 'B', 'A'] as const) {
+    config.channels[channelId]?.coefficients.forEach((coefficient, index) => {
+      for (const axis of ['freqX', 'freqY', 'freqZ'] as const) {
+        if (coefficient[axis] > maxFrequency) {
+          errors.push({
+            path: `/channels/${channelId}/coefficients/${index}/${axis}`,
+            message: `must be at most ${maxFrequency} for fft_size ${config.fft_size}`,
+            keyword: 'frequencyBound',
+            params: { limit: maxFrequency, fftSize: config.fft_size },
+          })
+        }
+      }
+    })
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Checks if a value is a valid FFTCubeConfig (type guard)
+ * @param cube - The value to check
+ * @returns True if the value is a valid FFTCubeConfig
+ */
+export function isValidFFTCube(cube: unknown): cube is FFTCubeConfig {
+  return validateFFTCube(cube).valid
+}
+
+/**
+ * Expected position of a layer, as assigned by createCubeStack
+ */
+function expectedLayerPosition(index: number, count: number): StackLayerPosition {
+  if (count === 1) return 'single'
+  if (index === 0) return 'bottom'
+  return index === count - 1 ? 'top' : 'middle'
+}
+
+/**
+ * Semantic checks for a schema-valid stack: layer ids are unique, layer
+ * positions follow their order, totalHeight is the sum of the layer heights and
+ * layer material graphs are well formed
+ */
+function checkStackLayers(stack: CubeStackConfig, basePath: string = ''): ValidationError[] {
+  const errors: ValidationError[] = []
+  const layerIds = new Set<string>()
+
+  stack.layers.forEach((layer, index) => {
+    if (layerIds.has(layer.id)) {
+      errors.push({
+        path: `${basePath}/layers/${index}/id`,
+        message: `duplicates layer id "${layer.id}"`,
+        keyword: 'duplicateId',
+        params: { id: layer.id },
+      })
+    }
+    layerIds.add(layer.id)
+    errors.push(...checkMaterialGraph(layer.cubeConfig, `${basePath}/layers/${index}/cubeConfig`))
+
+    const expected = expectedLayerPosition(index, stack.layers.length)
+    if (layer.position !== expected) {
+      errors.push({
+        path: `${basePath}/layers/${index}/position`,
+        message: `must be "${expected}" for layer ${index + 1} of ${stack.layers.length}`,
+        keyword: 'layerPosition',
+        params: { expected, actual: layer.position },
+      })
+    }
+  })
+
+  const layerHeight = stack.layers.reduce((sum, layer) => sum + (layer.height ?? 1), 0)
+  if (Math.abs(stack.totalHeight - layerHeight) > HEIGHT_TOLERANCE) {
+    errors.push({
+      path: `${basePath}/totalHeight`,
+      message: `must equal the sum of layer heights (${layerHeight})`,
+      keyword: 'heightSum',
+      params: { expected: layerHeight, actual: stack.totalHeight },
+    })
+  }
+
+  return errors
+}
+
+/**
+ * Validates a CubeStackConfig against the JSON schema (including every layer
+ * cube) and checks layer ordering and heights
+ * @param stack - The stack configuration to validate
+ * @returns Validation result with errors if any
+ */
+export function validateStack(stack: unknown): ValidationResult {
+  const valid = validateStackSchema(stack)
+
+  if (!valid) {
+    return { valid: false, errors: schemaErrors(validateStackSchema) }
+  }
+
+  const errors = checkStackLayers(stack as CubeStackConfig)
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Checks if a value is a valid CubeStackConfig (type guard)
+ * @param stack - The value to check
+ * @returns True if the value is a valid CubeStackConfig
+ */
+export function isValidStack(stack: unknown): stack is CubeStackConfig {
+  return validateStack(stack).valid
+}
+
+/**
+ * Validates a WorldConfig against the JSON schema and checks that
+ * palette/stack references resolve, ids match their keys, stack layers are
+ * ordered and sized consistently, cells stay within the declared size and
+ * stacks do not grow into occupied cells
+ * @param world - The world configuration to validate
+ * @returns Validation result with errors if any
+ */
+export function validateWorld(world: unknown): ValidationResult {
+  const valid = validateWorldSchema(world)
+
+  if (!valid) {
+    return { valid: false, errors: schemaErrors(validateWorldSchema) }
+  }
+
+  const config = world as WorldConfig
+  const errors: ValidationError[] = []
+
+  for (const [key, cube] of Object.entries(config.palette)) {
+    if (cube.id !== key) {
+      errors.push({
+        path: `/palette/${key}/id`,
+        message: `must match palette key "${key}"`,
+        keyword: 'idMismatch',
+        params: { key, id: cube.id },
+      })
+    }
+    errors.push(...checkMaterialGraph(cube, `/palette/${key}`))
+  }
+
+  for (const [key, stack] of Object.entries(config.stacks ?? {})) {
+    if (stack.id !== key) {
+      errors.push({
+        path: `/stacks/${key}/id`,
+        message: `must match stack key "${key}"`,
+        keyword: 'idMismatch',
+        params: { key, id: stack.id },
+      })
+    }
+    errors.push(...checkStackLayers(stack, `/stacks/${key}`))
+  }
+
+  const resolved = resolveWorld(config)
+
+  for (const key of resolved.unresolved) {
+    errors.push({
+      path: `/cells/${key}`,
+      message: 'references an unknown palette cube or stack',
+      keyword: 'reference',
+      params: { cell: config.cells[key] },
+    })
+  }
+
+  for (const key of resolved.overlaps) {
+    errors.push({
+      path: `/cells/${key}`,
+      message: 'is occupied by more than one cube',
+      keyword: 'overlap',
+      params: { key },
+    })
+  }
+
+  if (config.size) {
+    const size = config.size
+    for (const cell of resolved.cells) {
+      const outside = cell.occupied.find((position) =>
+        position.some((value, axis) => value < 0 || value >= size[axis])
+      )
+      if (outside) {
+        errors.push({
+          path: `/cells/${cell.key}`,
+          message: `must lie within world size [${size.join(', ')}]`,
+          keyword: 'bounds',
+          params: { position: outside, size },
+        })
+      }
+    }
+  }
+
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Checks if a value is a valid WorldConfig (type guard)
+ * @param world - The value to check
+ * @returns True if the value is a valid WorldConfig
+ */
+export function isValidWorld(world: unknown): world is WorldConfig {
+  return validateWorld(world).valid
+}
+
 /**
  * Formats validation errors for display
  * @param errors - Array of validation errors
@@ -0,0 +1,280 @@
+/**
+ * Unit tests for MagicaVoxel and schematic interop
+ */
+
+import { describe, it, expect } from 'vitest'
+import { gunzipSync } from 'node:zlib'
+import {
+  VOX_DEFAULT_PALETTE,
+  VoxelFormatError,
+  exportWorldToSchematic,
+  exportWorldToVox,
+  importSchematicToWorld,
+  importVoxToWorld,
+  parseSchematic,
+  parseVox,
+  schematicToWorld,
+  voxToWorld,
+  worldToSchematic,
+  worldToVox,
+  writeSchematic,
+} from './voxel-formats'
+import type { VoxFile } from './voxel-formats'
+import { readNBT, writeNBTFile } from './nbt'
+import type { WorldConfig } from '../types/world'
+import { isValidWorld } from './validation'
+import { resolveWorld } from './world'
+import gardenPath from '../../examples/world-garden-path.json'
+
+const world = gardenPath as unknown as WorldConfig
+
+/** Builds a .vox chunk by hand, independent of the module's writer */
+function voxChunk(id: string, content: number[], children: number[] = []): number[] {
+  const int32 = (value: number) => [value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff, 0]
+  return [
+    ...Array.from(id, (c) => c.charCodeAt(0)),
+    ...int32(content.length),
+    ...int32(children.length),
+    ...content,
+    ...children,
+  ]
+}
+
+function voxString(text: string): number[] {
+  return [text.length, 0, 0, 0, ...Array.from(text, (c) => c.charCodeAt(0))]
+}
+
+/** 2x2x1 model: two reds, one glass voxel */
+function createSampleVox(): Uint8Array {
+  const rgba = new Array(256 * 4).fill(0)
+  rgba.splice(0, 12, 200, 10, 10, 255, 202, 12, 10, 255, 40, 80, 220, 255)
+  const matl = [3, 0, 0, 0, 2, 0, 0, 0]
+  matl.push(...voxString('_type'), ...voxString('_glass'))
+  matl.push(...voxString('_trans'), ...voxString('0.6'))
+  const children = [
+    ...voxChunk('SIZE', [2, 0, 0, 0, 2, 0, 0, 0, 1, 0, 0, 0]),
+    ...voxChunk('XYZI', [3, 0, 0, 0, 0, 0, 0, 1, 1, 0, 0, 2, 0, 1, 0, 3]),
+    ...voxChunk('RGBA', rgba),
+    ...voxChunk('MATL', matl),
+  ]
+  return new Uint8Array([
+    ...voxString('VOX ').slice(4),
+    150,
+    0,
+    0,
+    0,
+    ...voxChunk('MAIN', [], children),
+  ])
+}
+
+describe('voxel-formats', () => {
+  describe('VOX_DEFAULT_PALETTE', () => {
+    it('should match the MagicaVoxel default palette layout', () => {
+      expect(VOX_DEFAULT_PALETTE).toHaveLength(256)
+      expect(VOX_DEFAULT_PALETTE[1]).toEqual([255, 255, 255, 255])
+      expect(VOX_DEFAULT_PALETTE[2]).toEqual([255, 255, 204, 255])
+      expect(VOX_DEFAULT_PALETTE[215]).toEqual([0, 0, 51, 255])
+      expect(VOX_DEFAULT_PALETTE[216]).toEqual([238, 0, 0, 255])
+      expect(VOX_DEFAULT_PALETTE[255]).toEqual([17, 17, 17, 255])
+    })
+  })
+
+  describe('parseVox', () => {
+    it('should read models, palette and materials', () => {
+      const vox = parseVox(createSampleVox())
+      expect(vox.version).toBe(150)
+      expect(vox.models).toHaveLength(1)
+      expect(vox.models[0].size).toEqual([2, 2, 1])
+      expect(vox.models[0].voxels).toEqual([
+        { x: 0, y: 0, z: 0, colorIndex: 1 },
+        { x: 1, y: 0, z: 0, colorIndex: 2 },
+        { x: 0, y: 1, z: 0, colorIndex: 3 },
+      ])
+      expect(vox.palette[1]).toEqual([200, 10, 10, 255])
+      expect(vox.materials[3]).toEqual({ type: 'glass', transmission: 0.6 })
+    })
+
+    it('should reject files that are not .vox', () => {
+      expect(() => parseVox(new Uint8Array(16))).toThrow(VoxelFormatError)
+    })
+
+    it('should reject truncated chunks', () => {
+      const bytes = createSampleVox()
+      expect(() => parseVox(bytes.subarray(0, 40))).toThrow('Truncated')
+    })
+  })
+
+  describe('voxToWorld', () => {
+    it('should cluster similar palette colours with the same material', () => {
+      const result = importVoxToWorld(createSampleVox())
+      expect(Object.keys(result.palette).sort()).toEqual(['vox_1', 'vox_3'])
+      expect(result.palette.vox_1.base.color[0]).toBeCloseTo(201 / 255, 3)
+      expect(isValidWorld(result)).toBe(true)
+    })
+
+    it('should keep every palette entry with zero tolerance', () => {
+      const result = importVoxToWorld(createSampleVox(), { colorTolerance: 0 })
+      expect(Object.keys(result.palette)).toHaveLength(3)
+    })
+
+    it('should guess glass from MATL and map transmission to transparency', () => {
+      const glass = importVoxToWorld(createSampleVox()).palette.vox_3
+      expect(glass.physics?.material).toBe('glass')
+      expect(glass.base.transparency).toBeCloseTo(0.4, 5)
+    })
+
+    it('should map Z-up voxels onto the Y-up grid without mirroring', () => {
+      const result = importVoxToWorld(createSampleVox(), { worldId: 'sample' })
+      expect(result.id).toBe('sample')
+      expect(result.size).toEqual([2, 1, 2])
+      // vox (x, y, z) -> world (x, z, sizeY - 1 - y)
+      expect(result.cells['0,0,1']).toBe('vox_1')
+      expect(result.cells['1,0,1']).toBe('vox_1')
+      expect(result.cells['0,0,0']).toBe('vox_3')
+    })
+
+    it('should fall back to the default palette without an RGBA chunk', () => {
+      const vox: VoxFile = {
+        version: 150,
+        models: [{ size: [1, 1, 1], voxels: [{ x: 0, y: 0, z: 0, colorIndex: 216 }] }],
+        palette: [...VOX_DEFAULT_PALETTE],
+        materials: {},
+      }
+      expect(voxToWorld(vox).palette.vox_216.base.color).toEqual([0.9333, 0, 0])
+    })
+
+    it('should report missing models', () => {
+      expect(() => importVoxToWorld(createSampleVox(), { model: 2 })).toThrow(
+        'Model 2 not found; the file has 1 model(s)'
+      )
+    })
+  })
+
+  describe('worldToVox', () => {
+    it('should write one voxel per resolved cell and one palette entry per distinct cube', () => {
+      const vox = worldToVox(world)
+      const used = new Set(vox.models[0].voxels.map((voxel) => voxel.colorIndex))
+      // Two palette cubes plus the two pillar stack layers
+      expect(used.size).toBe(4)
+      expect(vox.models[0].voxels).toHaveLength(resolveWorld(world).cells.length)
+      expect(vox.models[0].size).toEqual([3, 3, 2])
+    })
+
+    it('should round-trip positions, colours and materials', () => {
+      const source: WorldConfig = {
+        id: 'roundtrip',
+        palette: {
+          brass: {
+            id: 'brass',
+            base: { color: [0.8, 0.6, 0.2], roughness: 0.3 },
+            physics: { material: 'metal' },
+          },
+          pane: {
+            id: 'pane',
+            base: { color: [0.7, 0.9, 1], transparency: 0.25 },
+            physics: { material: 'glass' },
+          },
+        },
+        cells: { '0,0,0': 'brass', '3,2,1': 'pane', '1,0,0': 'brass' },
+      }
+
+      const result = importVoxToWorld(exportWorldToVox(source), { colorTolerance: 0 })
+      expect(Object.keys(result.cells).sort()).toEqual(Object.keys(source.cells).sort())
+
+      const brass = result.palette[result.cells['0,0,0'] as string]
+      expect(brass.base.color[0]).toBeCloseTo(0.8, 2)
+      expect(brass.base.roughness).toBe(0.3)
+      expect(brass.physics?.material).toBe('metal')
+
+      const pane = result.palette[result.cells['3,2,1'] as string]
+      expect(pane.base.transparency).toBeCloseTo(0.25, 5)
+      expect(pane.physics?.material).toBe('glass')
+    })
+
+    it('should reject empty worlds', () => {
+      expect(() => worldToVox({ id: 'empty', palette: {}, cells: {} })).toThrow(
+        'The world has no cells to export'
+      )
+    })
+  })
+
+  describe('schematics', () => {
+    it('should write a gzip compressed Sponge v2 schematic', async () => {
+      const bytes = await exportWorldToSchematic(world)
+      const { name, root } = readNBT(new Uint8Array(gunzipSync(bytes)))
+      expect(name).toBe('Schematic')
+      expect(root.value.Version).toEqual({ type: 'int', value: 2 })
+      expect(root.value.Palette.type).toBe('compound')
+      expect(root.value.BlockData.type).toBe('byteArray')
+    })
+
+    it('should map materials to vanilla blocks unless overridden', () => {
+      const data = worldToSchematic(world, { blockNames: { grass_001: 'minecraft:grass_block' } })
+      expect(data.palette[0]).toBe('minecraft:air')
+      expect(data.palette).toContain('minecraft:grass_block')
+      expect(data.palette).toContain('minecraft:stone')
+    })
+
+    it('should restore the embedded world losslessly', async () => {
+      expect(await importSchematicToWorld(await exportWorldToSchematic(world))).toEqual(world)
+    })
+
+    it('should build cubes from block states for foreign schematics', async () => {
+      const data = worldToSchematic(world)
+      data.palette = ['minecraft:air', 'minecraft:oak_planks', 'minecraft:glass[waterlogged=false]']
+      data.blocks = Int32Array.from({ length: data.blocks.length }, (_, i) => i % 3)
+      delete data.world
+
+      const result = schematicToWorld(await parseSchematic(await writeSchematic(data)))
+      expect(Object.keys(result.palette).sort()).toEqual(['glass', 'oak_planks'])
+      expect(result.palette.oak_planks.physics?.material).toBe('wood')
+      expect(result.palette.glass.physics?.material).toBe('glass')
+      expect(result.cells['1,0,0']).toBe('oak_planks')
+      expect(result.cells['0,0,0']).toBeUndefined()
+      expect(isValidWorld(result)).toBe(true)
+    })
+
+    it('should read version 3 schematics', async () => {
+      const bytes = await writeNBTFile({
+        name: '',
+        root: {
+          type: 'compound',
+          value: {
+            Schematic: {
+              type: 'compound',
+              value: {
+                Version: { type: 'int', value: 3 },
+                Width: { type: 'short', value: 1 },
+                Height: { type: 'short', value: 2 },
+                Length: { type: 'short', value: 1 },
+                Blocks: {
+                  type: 'compound',
+                  value: {
+                    Palette: {
+                      type: 'compound',
+                      value: {
+                        'minecraft:air': { type: 'int', value: 0 },
+                        'minecraft:iron_block': { type: 'int', value: 1 },
+                      },
+                    },
+                    Data: { type: 'byteArray', value: Int8Array.from([1, 0]) },
+                  },
+                },
+              },
+            },
+          },
+        },
+      })
+
+      const result = await importSchematicToWorld(bytes)
+      expect(result.cells).toEqual({ '0,0,0': 'iron_block' })
+      expect(result.palette.iron_block.physics?.material).toBe('metal')
+    })
+
+    it('should reject files that are not NBT', async () => {
+      await expect(parseSchematic(new Uint8Array([1, 2, 3]))).rejects.toThrow(
+        'Not a schematic file'
+      )
+    })
+  })
+})
@@ -0,0 +1,920 @@
+/**
+ * Voxel format interop
+ * Imports and exports worlds as MagicaVoxel .vox files and Sponge
+ * (Minecraft-style) .schem schematics. Palette colours and block states
+ * become SpectralCube definitions in the world palette
+ */
+
+import type { MaterialType, SpectralCube } from '../types/cube'
+import type { WorldConfig, WorldCoordinate } from '../types/world'
+import { createWorld, toCellKey } from '../types/world'
+import type { ResolvedWorldCell } from './world'
+import { getWorldBounds, resolveWorld } from './world'
+import type { NBTCompound, NBTTag } from './nbt'
+import { readNBTFile, writeNBTFile } from './nbt'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** RGBA colour with 0-255 channels */
+export type VoxColor = [number, number, number, number]
+
+/** MagicaVoxel material types (MATL `_type` without the leading underscore) */
+export type VoxMaterialType = 'diffuse' | 'metal' | 'glass' | 'emit' | 'blend' | 'media' | 'cloud'
+
+/**
+ * Material properties of a palette entry (MATL chunk)
+ */
+export interface VoxMaterial {
+  type: VoxMaterialType
+  /** Surface roughness (0-1) */
+  roughness?: number
+  /** Metalness (0-1) */
+  metalness?: number
+  /** Light transmission of glass (0-1) */
+  transmission?: number
+  /** Index of refraction */
+  ior?: number
+  /** Emission strength */
+  emission?: number
+}
+
+/** A single voxel; coordinates are local to its model */
+export interface VoxVoxel {
+  x: number
+  y: number
+  z: number
+  /** Palette index (1-255) */
+  colorIndex: number
+}
+
+/** A model (SIZE + XYZI chunk pair); MagicaVoxel is Z-up */
+export interface VoxModel {
+  size: [number, number, number]
+  voxels: VoxVoxel[]
+}
+
+/**
+ * Decoded .vox file
+ */
+export interface VoxFile {
+  version: number
+  models: VoxModel[]
+  /** 256 colours indexed by palette index (entry 0 is unused) */
+  palette: VoxColor[]
+  /** Materials keyed by palette index */
+  materials: Record<number, VoxMaterial>
+}
+
+/**
+ * Decoded Sponge schematic (block grid is Y-up like the world grid)
+ */
+export interface SchematicData {
+  /** Size along x */
+  width: number
+  /** Size along y */
+  height: number
+  /** Size along z */
+  length: number
+  /** Block state strings indexed by palette ID */
+  palette: string[]
+  /** Palette ID per block, indexed by x + z * width + y * width * length */
+  blocks: Int32Array
+  /** Original world embedded by our exporter for lossless re-import */
+  world?: WorldConfig
+}
+
+/**
+ * Options for importing voxel files into a world
+ */
+export interface VoxelImportOptions {
+  /** ID of the created world (default: 'vox_import' or 'schematic_import') */
+  worldId?: string
+  /**
+   * Maximum RGB distance (channels 0-1) for merging .vox palette entries with
+   * the same material into one cube (default: 0.04, 0 keeps every entry)
+   */
+  colorTolerance?: number
+  /** Prefix for cube IDs generated from .vox palette entries (default: 'vox') */
+  idPrefix?: string
+  /** Model to import from multi-model .vox files (default: 0) */
+  model?: number
+}
+
+/**
+ * Options for exporting a world as a schematic
+ */
+export interface SchematicExportOptions {
+  /** Block state per palette cube ID; other cubes get a block guessed from their material */
+  blockNames?: Record<string, string>
+}
+
+/**
+ * Error thrown when a voxel file cannot be read or a world cannot be written
+ */
+export class VoxelFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'VoxelFormatError'
+  }
+}
+
+// ============================================================================
+// MagicaVoxel .vox
+// ============================================================================
+
+const VOX_MAX_SIZE = 256
+const VOX_MATERIAL_TYPES: VoxMaterialType[] = [
+  'diffuse',
+  'metal',
+  'glass',
+  'emit',
+  'blend',
+  'media',
+  'cloud',
+]
+
+function createDefaultPalette(): VoxColor[] {
+  const palette: VoxColor[] = [[0, 0, 0, 0]]
+  const steps = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00]
+  for (const r of steps) {
+    for (const g of steps) {
+      for (const b of steps) {
+        if (r || g || b) palette.push([r, g, b, 255])
+      }
+    }
+  }
+  const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11]
+  for (const v of ramp) palette.push([v, 0, 0, 255])
+  for (const v of ramp) palette.push([0, v, 0, 255])
+  for (const v of ramp) palette.push([0, 0, v, 255])
+  for (const v of ramp) palette.push([v, v, v, 255])
+  return palette
+}
+
+/**
+ * MagicaVoxel's built-in palette, used when a file has no RGBA chunk
+ */
+export const VOX_DEFAULT_PALETTE: readonly VoxColor[] = createDefaultPalette()
+
+function readAscii(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4))
+}
+
+function readDict(view: DataView, bytes: Uint8Array, offset: number): Record<string, string> {
+  const decoder = new TextDecoder()
+  const dict: Record<string, string> = {}
+  const readString = () => {
+    const length = view.getInt32(offset, true)
+    const text = decoder.decode(bytes.subarray(offset + 4, offset + 4 + length))
+    offset += 4 + length
+    return text
+  }
+  const pairs = view.getInt32(offset, true)
+  offset += 4
+  for (let i = 0; i < pairs; i++) {
+    const key = readString()
+    dict[key] = readString()
+  }
+  return dict
+}
+
+function dictToMaterial(dict: Record<string, string>): VoxMaterial {
+  const type = (dict._type ?? '_diffuse').replace(/^_/, '') as VoxMaterialType
+  const material: VoxMaterial = { type: VOX_MATERIAL_TYPES.includes(type) ? type : 'diffuse' }
+  const fields: [keyof Omit<VoxMaterial, 'type'>, string][] = [
+    ['roughness', '_rough'],
+    ['metalness', '_metal'],
+    ['transmission', '_trans'],
+    ['ior', '_ior'],
+    ['emission', '_emit'],
+  ]
+  for (const [field, key] of fields) {
+    const value = parseFloat(dict[key])
+    if (Number.isFinite(value)) material[field] = value
+  }
+  return material
+}
+
+function materialToDict(material: VoxMaterial): Record<string, string> {
+  const dict: Record<string, string> = { _type: `_${material.type}` }
+  if (material.roughness !== undefined) dict._rough = String(material.roughness)
+  if (material.metalness !== undefined) dict._metal = String(material.metalness)
+  if (material.transmission !== undefined) dict._trans = String(material.transmission)
+  if (material.ior !== undefined) dict._ior = String(material.ior)
+  if (material.emission !== undefined) dict._emit = String(material.emission)
+  return dict
+}
+
+/**
+ * Decodes a MagicaVoxel .vox file
+ * Reads SIZE/XYZI model pairs, the RGBA palette and MATL materials; scene
+ * graph chunks (nTRN, nGRP, nSHP) and render settings are ignored
+ * @throws VoxelFormatError for invalid or truncated files
+ */
+export function parseVox(bytes: Uint8Array): VoxFile {
+  if (bytes.length < 8 || readAscii(bytes, 0) !== 'VOX ') {
+    throw new VoxelFormatError('Not a MagicaVoxel .vox file')
+  }
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const file: VoxFile = {
+    version: view.getInt32(4, true),
+    models: [],
+    palette: VOX_DEFAULT_PALETTE.map((color) => [...color] as VoxColor),
+    materials: {},
+  }
+
+  let size: [number, number, number] | null = null
+  let offset = 8
+  while (offset + 12 <= bytes.length) {
+    const id = readAscii(bytes, offset)
+    const contentSize = view.getInt32(offset + 4, true)
+    const childrenSize = view.getInt32(offset + 8, true)
+    const content = offset + 12
+    if (contentSize < 0 || childrenSize < 0 || content + contentSize > bytes.length) {
+      throw new VoxelFormatError(`Truncated ${id} chunk`)
+    }
+
+    switch (id) {
+      case 'SIZE':
+        size = [
+          view.getInt32(content, true),
+          view.getInt32(content + 4, true),
+          view.getInt32(content + 8, true),
+        ]
+        break
+      case 'XYZI': {
+        if (!size) throw new VoxelFormatError('XYZI chunk without a preceding SIZE chunk')
+        const count = view.getInt32(content, true)
+        if (count < 0 || 4 + count * 4 > contentSize) {
+          throw new VoxelFormatError('Truncated XYZI chunk')
+        }
+        const voxels: VoxVoxel[] = []
+        for (let i = 0; i < count; i++) {
+          const at = content + 4 + i * 4
+          voxels.push({
+            x: bytes[at],
+            y: bytes[at + 1],
+            z: bytes[at + 2],
+            colorIndex: bytes[at + 3],
+          })
+        }
+        file.models.push({ size, voxels })
+        break
+      }
+      case 'RGBA':
+        // Entry i holds the colour of palette index i + 1
+        for (let i = 0; i < 255; i++) {
+          const at = content + i * 4
+          file.palette[i + 1] = [bytes[at], bytes[at + 1], bytes[at + 2], bytes[at + 3]]
+        }
+        break
+      case 'MATL': {
+        const materialId = view.getInt32(content, true)
+        file.materials[materialId] = dictToMaterial(readDict(view, bytes, content + 4))
+        break
+      }
+    }
+
+    // MAIN is the only chunk whose children we descend into
+    offset = id === 'MAIN' ? content + contentSize : content + contentSize + childrenSize
+  }
+
+  if (file.models.length === 0) throw new VoxelFormatError('The .vox file contains no models')
+  return file
+}
+
+function chunk(id: string, content: Uint8Array, children: Uint8Array = new Uint8Array(0)) {
+  const bytes = new Uint8Array(12 + content.length + children.length)
+  const view = new DataView(bytes.buffer)
+  for (let i = 0; i < 4; i++) bytes[i] = id.charCodeAt(i)
+  view.setInt32(4, content.length, true)
+  view.setInt32(8, children.length, true)
+  bytes.set(content, 12)
+  bytes.set(children, 12 + content.length)
+  return bytes
+}
+
+function int32LE(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4)
+  const view = new DataView(bytes.buffer)
+  values.forEach((value, i) => view.setInt32(i * 4, value, true))
+  return bytes
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+function encodeDict(dict: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = [int32LE(Object.keys(dict).length)]
+  for (const text of Object.entries(dict).flat()) {
+    const encoded = encoder.encode(text)
+    parts.push(int32LE(encoded.length), encoded)
+  }
+  return concat(parts)
+}
+
+/**
+ * Encodes a MagicaVoxel .vox file
+ * @throws VoxelFormatError when a model exceeds the 256 voxel limit per axis
+ */
+export function writeVox(file: VoxFile): Uint8Array<ArrayBuffer> {
+  const children: Uint8Array[] = []
+
+  for (const model of file.models) {
+    if (model.size.some((extent) => extent < 1 || extent > VOX_MAX_SIZE)) {
+      throw new VoxelFormatError(`Model size must be 1-${VOX_MAX_SIZE} voxels per axis`)
+    }
+    children.push(chunk('SIZE', int32LE(...model.size)))
+
+    const xyzi = new Uint8Array(4 + model.voxels.length * 4)
+    new DataView(xyzi.buffer).setInt32(0, model.voxels.length, true)
+    model.voxels.forEach((voxel, i) =>
+      xyzi.set([voxel.x, voxel.y, voxel.z, voxel.colorIndex], 4 + i * 4)
+    )
+    children.push(chunk('XYZI', xyzi))
+  }
+
+  const rgba = new Uint8Array(256 * 4)
+  for (let i = 0; i < 255; i++) rgba.set(file.palette[i + 1] ?? [0, 0, 0, 255], i * 4)
+  children.push(chunk('RGBA', rgba))
+
+  for (const [id, material] of Object.entries(file.materials)) {
+    children.push(
+      chunk('MATL', concat([int32LE(Number(id)), encodeDict(materialToDict(material))]))
+    )
+  }
+
+  const header = new Uint8Array(8)
+  header.set([0x56, 0x4f, 0x58, 0x20]) // "VOX "
+  new DataView(header.buffer).setInt32(4, file.version, true)
+  return concat([header, chunk('MAIN', new Uint8Array(0), concat(children))])
+}
+
+/**
+ * Surface parameters of a cube generated from a palette entry
+ */
+function voxSurface(color: VoxColor, material: VoxMaterial | undefined): Omit<SpectralCube, 'id'> {
+  const cube: Omit<SpectralCube, 'id'> = {
+    base: { color: [color[0] / 255, color[1] / 255, color[2] / 255] },
+  }
+  if (material?.roughness !== undefined) cube.base.roughness = material.roughness
+  if (material?.type === 'glass' && material.transmission !== undefined) {
+    cube.base.transparency = Math.min(1, Math.max(0, 1 - material.transmission))
+  } else if (color[3] < 255) {
+    cube.base.transparency = color[3] / 255
+  }
+  if (material?.type === 'metal') {
+    cube.physics = { material: 'metal' }
+  } else if (material?.type === 'glass') {
+    cube.physics = { material: 'glass', break_pattern: 'shatter' }
+  }
+  return cube
+}
+
+interface PaletteCluster {
+  /** Most used palette index in the cluster; names the cube */
+  index: number
+  surface: Omit<SpectralCube, 'id'>
+  signature: string
+  weight: number
+  sum: [number, number, number]
+}
+
+function clusterMean(cluster: PaletteCluster): [number, number, number] {
+  return cluster.sum.map((channel) => channel / cluster.weight) as [number, number, number]
+}
+
+/**
+ * Groups the used palette entries into cubes
+ * Entries merge when their materials match and their colours lie within the tolerance
+ * @returns Cube per palette index
+ */
+function clusterPalette(
+  vox: VoxFile,
+  usage: Map<number, number>,
+  tolerance: number,
+  idPrefix: string
+): Map<number, SpectralCube> {
+  const clusters: PaletteCluster[] = []
+  const assignments = new Map<number, PaletteCluster>()
+  const entries = [...usage.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])
+
+  for (const [index, count] of entries) {
+    const surface = voxSurface(vox.palette[index] ?? [0, 0, 0, 255], vox.materials[index])
+    const signature = JSON.stringify([
+      surface.base.roughness,
+      surface.base.transparency,
+      surface.physics,
+    ])
+    const color = surface.base.color
+    let cluster = clusters.find((candidate) => {
+      if (candidate.signature !== signature) return false
+      const mean = clusterMean(candidate)
+      return Math.hypot(mean[0] - color[0], mean[1] - color[1], mean[2] - color[2]) <= tolerance
+    })
+    if (!cluster) {
+      cluster = { index, surface, signature, weight: 0, sum: [0, 0, 0] }
+      clusters.push(cluster)
+    }
+    cluster.weight += count
+    for (let c = 0; c < 3; c++) cluster.sum[c] += color[c] * count
+    assignments.set(index, cluster)
+  }
+
+  const cubes = new Map<PaletteCluster, SpectralCube>()
+  for (const cluster of clusters) {
+    const color = clusterMean(cluster).map((c) => Math.round(c * 10000) / 10000)
+    cubes.set(cluster, {
+      id: `${idPrefix}_${cluster.index}`,
+      ...cluster.surface,
+      base: { ...cluster.surface.base, color: color as [number, number, number] },
+      meta: { name: `Palette ${cluster.index}`, tags: ['vox'] },
+    })
+  }
+  return new Map([...assignments].map(([index, cluster]) => [index, cubes.get(cluster)!]))
+}
+
+/**
+ * Converts a decoded .vox model into a world
+ * MagicaVoxel's Z-up axes are mapped to the Y-up world grid, keeping handedness:
+ * world = [x, z, sizeY - 1 - y]
+ */
+export function voxToWorld(vox: VoxFile, options: VoxelImportOptions = {}): WorldConfig {
+  const modelIndex = options.model ?? 0
+  const model = vox.models[modelIndex]
+  if (!model) {
+    throw new VoxelFormatError(
+      `Model ${modelIndex} not found; the file has ${vox.models.length} model(s)`
+    )
+  }
+
+  const voxels = model.voxels.filter((voxel) => voxel.colorIndex > 0)
+  const usage = new Map<number, number>()
+  for (const voxel of voxels) {
+    usage.set(voxel.colorIndex, (usage.get(voxel.colorIndex) ?? 0) + 1)
+  }
+  const cubes = clusterPalette(
+    vox,
+    usage,
+    options.colorTolerance ?? 0.04,
+    options.idPrefix ?? 'vox'
+  )
+
+  const world = createWorld(options.worldId ?? 'vox_import', [...new Set(cubes.values())])
+  world.size = [model.size[0], model.size[2], model.size[1]]
+  for (const voxel of voxels) {
+    const coordinate: WorldCoordinate = [voxel.x, voxel.z, model.size[1] - 1 - voxel.y]
+    world.cells[toCellKey(coordinate)] = cubes.get(voxel.colorIndex)!.id
+  }
+  return world
+}
+
+/** Identifies the cube definition behind a resolved cell */
+function sourceKey(cell: ResolvedWorldCell): string {
+  return cell.source.type === 'cube'
+    ? `cube:${cell.source.cubeId}`
+    : `stack:${cell.source.stackId}:${cell.source.layerIndex}`
+}
+
+function cubeToVoxColor(cube: SpectralCube): VoxColor {
+  const channel = (value: number) => Math.round(Math.min(1, Math.max(0, value)) * 255)
+  const alpha = cube.physics?.material === 'glass' ? 1 : (cube.base.transparency ?? 1)
+  return [...cube.base.color.map(channel), channel(alpha)] as VoxColor
+}
+
+function cubeToVoxMaterial(cube: SpectralCube): VoxMaterial | undefined {
+  const roughness = cube.base.roughness
+  switch (cube.physics?.material) {
+    case 'metal':
+      return { type: 'metal', metalness: 1, ...(roughness !== undefined && { roughness }) }
+    case 'glass':
+      return {
+        type: 'glass',
+        transmission: 1 - (cube.base.transparency ?? 1),
+        ...(roughness !== undefined && { roughness }),
+      }
+    default:
+      return roughness !== undefined ? { type: 'diffuse', roughness } : undefined
+  }
+}
+
+/**
+ * Converts a world into a single-model .vox file
+ * Every distinct cube (palette cube or stack layer) takes one palette index
+ * @throws VoxelFormatError for empty worlds, more than 255 cubes or models over 256 voxels
+ */
+export function worldToVox(world: WorldConfig): VoxFile {
+  const resolved = resolveWorld(world)
+  const bounds = getWorldBounds(resolved)
+  if (!bounds) throw new VoxelFormatError('The world has no cells to export')
+
+  const { min, max } = bounds
+  const size: [number, number, number] = [
+    max[0] - min[0] + 1,
+    max[2] - min[2] + 1,
+    max[1] - min[1] + 1,
+  ]
+  if (size.some((extent) => extent > VOX_MAX_SIZE)) {
+    throw new VoxelFormatError(`World is larger than ${VOX_MAX_SIZE} cells along an axis`)
+  }
+  const file: VoxFile = {
+    version: 150,
+    models: [{ size, voxels: [] }],
+    palette: VOX_DEFAULT_PALETTE.map((color) => [...color] as VoxColor),
+    materials: {},
+  }
+
+  const indices = new Map<string, number>()
+  for (const cell of resolved.cells) {
+    const key = sourceKey(cell)
+    let colorIndex = indices.get(key)
+    if (colorIndex === undefined) {
+      colorIndex = indices.size + 1
+      if (colorIndex > 255) {
+        throw new VoxelFormatError('MagicaVoxel palettes hold at most 255 distinct cubes')
+      }
+      indices.set(key, colorIndex)
+      file.palette[colorIndex] = cubeToVoxColor(cell.config)
+      const material = cubeToVoxMaterial(cell.config)
+      if (material) file.materials[colorIndex] = material
+    }
+    const [x, y, z] = cell.position
+    file.models[0].voxels.push({ x: x - min[0], y: max[2] - z, z: y - min[1], colorIndex })
+  }
+  return file
+}
+
+/**
+ * Reads a .vox file into a world
+ */
+export function importVoxToWorld(bytes: Uint8Array, options?: VoxelImportOptions): WorldConfig {
+  return voxToWorld(parseVox(bytes), options)
+}
+
+/**
+ * Writes a world as .vox file bytes
+ */
+export function exportWorldToVox(world: WorldConfig): Uint8Array<ArrayBuffer> {
+  return writeVox(worldToVox(world))
+}
+
+// ============================================================================
+// Sponge schematics (.schem)
+// ============================================================================
+
+/** Minecraft data version written into schematics (1.20.1) */
+const SCHEMATIC_DATA_VERSION = 3465
+const AIR_BLOCKS = new Set([
+  'minecraft:air',
+  'minecraft:cave_air',
+  'minecraft:void_air',
+  'minecraft:structure_void',
+])
+
+const DYE_COLORS: Record<string, [number, number, number]> = {
+  white: [0.91, 0.92, 0.92],
+  orange: [0.94, 0.46, 0.08],
+  magenta: [0.74, 0.27, 0.71],
+  light_blue: [0.23, 0.69, 0.85],
+  yellow: [0.97, 0.78, 0.16],
+  lime: [0.44, 0.73, 0.1],
+  pink: [0.93, 0.55, 0.67],
+  gray: [0.24, 0.26, 0.28],
+  light_gray: [0.56, 0.56, 0.53],
+  cyan: [0.08, 0.54, 0.57],
+  purple: [0.48, 0.16, 0.67],
+  blue: [0.21, 0.22, 0.62],
+  brown: [0.45, 0.28, 0.16],
+  green: [0.33, 0.43, 0.11],
+  red: [0.63, 0.15, 0.13],
+  black: [0.08, 0.08, 0.1],
+}
+
+/** Average texture colours of common blocks */
+const BLOCK_COLORS: Record<string, [number, number, number]> = {
+  stone: [0.49, 0.49, 0.49],
+  cobblestone: [0.48, 0.48, 0.48],
+  deepslate: [0.31, 0.31, 0.33],
+  granite: [0.58, 0.4, 0.34],
+  andesite: [0.53, 0.53, 0.53],
+  diorite: [0.74, 0.74, 0.74],
+  dirt: [0.53, 0.38, 0.26],
+  grass_block: [0.37, 0.6, 0.27],
+  sand: [0.86, 0.81, 0.6],
+  gravel: [0.51, 0.49, 0.49],
+  clay: [0.63, 0.65, 0.71],
+  bricks: [0.59, 0.38, 0.33],
+  oak_planks: [0.64, 0.51, 0.31],
+  oak_log: [0.42, 0.33, 0.2],
+  spruce_planks: [0.45, 0.34, 0.2],
+  birch_planks: [0.75, 0.69, 0.48],
+  oak_leaves: [0.24, 0.46, 0.15],
+  moss_block: [0.35, 0.43, 0.18],
+  glass: [0.78, 0.88, 0.9],
+  ice: [0.57, 0.72, 0.98],
+  snow_block: [0.97, 0.99, 0.99],
+  water: [0.25, 0.37, 0.85],
+  lava: [0.85, 0.4, 0.1],
+  obsidian: [0.08, 0.06, 0.12],
+  netherrack: [0.38, 0.15, 0.15],
+  iron_block: [0.86, 0.86, 0.86],
+  gold_block: [0.96, 0.82, 0.24],
+  copper_block: [0.75, 0.42, 0.31],
+  diamond_block: [0.38, 0.86, 0.85],
+  amethyst_block: [0.53, 0.39, 0.75],
+}
+
+/** Block name keywords used to guess a cube material, checked in order */
+const MATERIAL_KEYWORDS: [RegExp, MaterialType][] = [
+  [/glass|ice/, 'glass'],
+  [/water|lava/, 'liquid'],
+  [/iron|gold|copper|netherite|anvil|chain/, 'metal'],
+  [/diamond|emerald|amethyst|quartz|crystal|prismarine/, 'crystal'],
+  [/log|wood|planks|stem|hyphae|bamboo|barrel|bookshelf/, 'wood'],
+  [/leaves|grass|moss|vine|mushroom|wool|hay|sponge|coral|melon|pumpkin/, 'organic'],
+]
+
+/** Default block written for cubes of each material */
+const MATERIAL_BLOCKS: Record<MaterialType, string> = {
+  stone: 'minecraft:stone',
+  wood: 'minecraft:oak_planks',
+  metal: 'minecraft:iron_block',
+  glass: 'minecraft:glass',
+  organic: 'minecraft:moss_block',
+  crystal: 'minecraft:amethyst_block',
+  liquid: 'minecraft:water',
+}
+
+function blockColor(path: string): [number, number, number] {
+  if (BLOCK_COLORS[path]) return BLOCK_COLORS[path]
+  const dye = Object.keys(DYE_COLORS)
+    .sort((a, b) => b.length - a.length)
+    .find((name) => path.startsWith(`${name}_`))
+  if (dye) return DYE_COLORS[dye]
+  const known = Object.keys(BLOCK_COLORS).find((name) => path.includes(name))
+  if (known) return BLOCK_COLORS[known]
+
+  // Unknown blocks get a stable muted colour derived from their name
+  let hash = 2166136261
+  for (let i = 0; i < path.length; i++) hash = Math.imul(hash ^ path.charCodeAt(i), 16777619)
+  return [0, 8, 16].map((shift) => 0.3 + (((hash >>> shift) & 0xff) / 255) * 0.5) as [
+    number,
+    number,
+    number,
+  ]
+}
+
+/**
+ * Creates a cube definition for a Minecraft block state
+ * Block states that differ only in properties share one cube
+ */
+function blockToCube(state: string): SpectralCube {
+  const name = state.replace(/\[.*$/, '')
+  const [namespace, path] = name.includes(':') ? name.split(':', 2) : ['minecraft', name]
+  const id = `${namespace === 'minecraft' ? '' : `${namespace}_`}${path}`
+    .toLowerCase()
+    .replace(/[^a-z0-9_]/g, '_')
+  const material = MATERIAL_KEYWORDS.find(([pattern]) => pattern.test(path))?.[1] ?? 'stone'
+
+  const cube: SpectralCube = {
+    id,
+    base: { color: blockColor(path) },
+    physics: { material },
+    meta: { name: `${namespace}:${path}`, tags: ['minecraft'] },
+  }
+  if (material === 'glass') cube.base.transparency = 0.4
+  if (material === 'liquid') cube.base.transparency = 0.7
+  return cube
+}
+
+function defaultBlockForCube(cube: SpectralCube): string {
+  if (cube.physics?.material) return MATERIAL_BLOCKS[cube.physics.material]
+  const [r, g, b] = cube.base.color
+  let closest = 'white'
+  let closestDistance = Infinity
+  for (const [dye, color] of Object.entries(DYE_COLORS)) {
+    const distance = Math.hypot(color[0] - r, color[1] - g, color[2] - b)
+    if (distance < closestDistance) {
+      closest = dye
+      closestDistance = distance
+    }
+  }
+  return `minecraft:${closest}_concrete`
+}
+
+function getTag<T extends NBTTag['type']>(
+  compound: NBTCompound | undefined,
+  name: string,
+  type: T
+): Extract<NBTTag, { type: T }> | undefined {
+  const tag = compound?.value[name]
+  return tag?.type === type ? (tag as Extract<NBTTag, { type: T }>) : undefined
+}
+
+function decodeVarints(data: Int8Array, count: number): Int32Array {
+  const values = new Int32Array(count)
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    let value = 0
+    let shift = 0
+    let byte: number
+    do {
+      if (offset >= data.length) throw new VoxelFormatError('Truncated schematic block data')
+      byte = data[offset++] & 0xff
+      value |= (byte & 0x7f) << shift
+      shift += 7
+    } while (byte & 0x80)
+    values[i] = value
+  }
+  return values
+}
+
+function encodeVarints(values: Int32Array): Int8Array {
+  const bytes: number[] = []
+  for (let value of values) {
+    while (value >= 0x80) {
+      bytes.push((value & 0x7f) | 0x80)
+      value >>>= 7
+    }
+    bytes.push(value)
+  }
+  return Int8Array.from(bytes)
+}
+
+/**
+ * Decodes a Sponge schematic (versions 1-3, gzip compressed or not)
+ * @throws VoxelFormatError for invalid files and legacy MCEdit schematics
+ */
+export async function parseSchematic(bytes: Uint8Array): Promise<SchematicData> {
+  let root: NBTCompound
+  try {
+    root = (await readNBTFile(bytes)).root
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    throw new VoxelFormatError(`Not a schematic file: ${message}`)
+  }
+
+  // Version 3 nests everything in a "Schematic" compound
+  const schematic = getTag(root, 'Schematic', 'compound') ?? root
+  if (getTag(schematic, 'Materials', 'string')) {
+    throw new VoxelFormatError('Legacy MCEdit schematics are not supported; save as .schem')
+  }
+  const version = getTag(schematic, 'Version', 'int')?.value ?? 1
+  const container = version >= 3 ? getTag(schematic, 'Blocks', 'compound') : schematic
+  const paletteTag = getTag(container, 'Palette', 'compound')
+  const data = getTag(container, version >= 3 ? 'Data' : 'BlockData', 'byteArray')
+  const [width, height, length] = ['Width', 'Height', 'Length'].map(
+    (name) => (getTag(schematic, name, 'short')?.value ?? 0) & 0xffff
+  )
+  if (!paletteTag || !data) throw new VoxelFormatError('Schematic is missing its block palette')
+
+  const palette: string[] = []
+  for (const [state, tag] of Object.entries(paletteTag.value)) {
+    if (tag.type === 'int') palette[tag.value] = state
+  }
+
+  const result: SchematicData = {
+    width,
+    height,
+    length,
+    palette,
+    blocks: decodeVarints(data.value, width * height * length),
+  }
+
+  const embedded = getTag(getTag(schematic, 'Metadata', 'compound'), 'IsocubicWorld', 'byteArray')
+  if (embedded) {
+    try {
+      result.world = JSON.parse(new TextDecoder().decode(embedded.value)) as WorldConfig
+    } catch {
+      // A damaged embedded world falls back to the block data
+    }
+  }
+  return result
+}
+
+/**
+ * Encodes a Sponge schematic (version 2, gzip compressed)
+ */
+export async function writeSchematic(data: SchematicData): Promise<Uint8Array<ArrayBuffer>> {
+  const palette: Record<string, NBTTag> = {}
+  data.palette.forEach((state, id) => {
+    palette[state] = { type: 'int', value: id }
+  })
+
+  const schematic: NBTCompound = {
+    type: 'compound',
+    value: {
+      Version: { type: 'int', value: 2 },
+      DataVersion: { type: 'int', value: SCHEMATIC_DATA_VERSION },
+      Width: { type: 'short', value: (data.width << 16) >> 16 },
+      Height: { type: 'short', value: (data.height << 16) >> 16 },
+      Length: { type: 'short', value: (data.length << 16) >> 16 },
+      Offset: { type: 'intArray', value: new Int32Array(3) },
+      PaletteMax: { type: 'int', value: data.palette.length },
+      Palette: { type: 'compound', value: palette },
+      BlockData: { type: 'byteArray', value: encodeVarints(data.blocks) },
+    },
+  }
+  if (data.world) {
+    const json = new TextEncoder().encode(JSON.stringify(data.world))
+    schematic.value.Metadata = {
+      type: 'compound',
+      value: { IsocubicWorld: { type: 'byteArray', value: new Int8Array(json.buffer) } },
+    }
+  }
+  return writeNBTFile({ name: 'Schematic', root: schematic })
+}
+
+/**
+ * Converts a schematic into a world
+ * Schematics written by this module carry the original world and are restored
+ * losslessly; others get one cube per block type with a guessed colour and material
+ */
+export function schematicToWorld(
+  data: SchematicData,
+  options: VoxelImportOptions = {}
+): WorldConfig {
+  if (data.world) return data.world
+
+  const cubes = new Map<number, SpectralCube>()
+  data.palette.forEach((state, id) => {
+    if (!AIR_BLOCKS.has(state.replace(/\[.*$/, ''))) cubes.set(id, blockToCube(state))
+  })
+
+  const palette = new Map([...cubes.values()].map((cube) => [cube.id, cube]))
+  const world = createWorld(options.worldId ?? 'schematic_import', [...palette.values()])
+  world.size = [data.width, data.height, data.length]
+  for (let y = 0; y < data.height; y++) {
+    for (let z = 0; z < data.length; z++) {
+      for (let x = 0; x < data.width; x++) {
+        const cube = cubes.get(data.blocks[x + z * data.width + y * data.width * data.length])
+        if (cube) world.cells[toCellKey([x, y, z])] = cube.id
+      }
+    }
+  }
+  return world
+}
+
+/**
+ * Converts a world into a schematic with vanilla blocks
+ * The world itself is embedded in the schematic metadata for lossless re-import
+ * @throws VoxelFormatError for empty worlds
+ */
+export function worldToSchematic(
+  world: WorldConfig,
+  options: SchematicExportOptions = {}
+): SchematicData {
+  const resolved = resolveWorld(world)
+  const bounds = getWorldBounds(resolved)
+  if (!bounds) throw new VoxelFormatError('The world has no cells to export')
+
+  const { min, max } = bounds
+  const [width, height, length] = [0, 1, 2].map((axis) => max[axis] - min[axis] + 1)
+  if (Math.max(width, height, length) > 0xffff) {
+    throw new VoxelFormatError('World is too large for a schematic')
+  }
+
+  const palette = ['minecraft:air']
+  const blocks = new Int32Array(width * height * length)
+  for (const cell of resolved.cells) {
+    const state =
+      (cell.source.type === 'cube' && options.blockNames?.[cell.source.cubeId]) ||
+      defaultBlockForCube(cell.config)
+    let id = palette.indexOf(state)
+    if (id < 0) id = palette.push(state) - 1
+    const [x, y, z] = [0, 1, 2].map((axis) => cell.position[axis] - min[axis])
+    blocks[x + z * width + y * width * length] = id
+  }
+
+  return { width, height, length, palette, blocks, world }
+}
+
+/**
+ * Reads a schematic file into a world
+ */
+export async function importSchematicToWorld(
+  bytes: Uint8Array,
+  options?: VoxelImportOptions
+): Promise<WorldConfig> {
+  return schematicToWorld(await parseSchematic(bytes), options)
+}
+
+/**
+ * Writes a world as gzip compressed .schem file bytes
+ */
+export async function exportWorldToSchematic(
+  world: WorldConfig,
+  options?: SchematicExportOptions
+): Promise<Uint8Array<ArrayBuffer>> {
+  return writeSchematic(worldToSchematic(world, options))
+}
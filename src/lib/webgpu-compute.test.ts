@@ -7,6 +7,7 @@ import {
   getPreferredComputeMethod,
   getWebGPUComputeVersion,
 } from './webgpu-compute'
+import { computeNoise as computeNoiseCPU } from './noise'
 import type { WebGPUSupport, NoiseParams, NoiseResult, BenchmarkResult } from './webgpu-compute'
 
 describe('WebGPU Compute Module', () => {
@@ -238,6 +239,28 @@ describe('WebGPU Compute Module', () => {
         expect(differences).toBeGreaterThan(result1.data.length * 0.5)
       })
 
+      it('should match the CPU reference noise used by the cube shader', async () => {
+        const result = await compute.computeNoise({ ...defaultParams, type: 'worley', seed: 7 })
+        const size = result.size
+
+        for (const [x, y, z] of [
+          [0, 0, 0],
+          [3, 5, 1],
+          [7, 7, 7],
+        ]) {
+          const expected = computeNoiseCPU(
+            ((x + 0.5) * defaultParams.scale) / size,
+            ((y + 0.5) * defaultParams.scale) / size,
+            ((z + 0.5) * defaultParams.scale) / size,
+            2,
+            defaultParams.octaves,
+            defaultParams.persistence,
+            7
+          )
+          expect(result.data[z * size * size + y * size + x]).toBeCloseTo(expected, 5)
+        }
+      })
+
       it('should respond to scale parameter', async () => {
         const smallScale = await compute.computeNoise({
           ...defaultParams,
@@ -13,6 +13,8 @@
 
 import { FFT3D } from './fft-wasm'
 import type { FFTResult, FFTSize } from './fft-wasm'
+import { computeNoise, normalizeNoiseSeed } from './noise'
+import { noiseTypeToInt } from './shader-utils'
 
 /**
  * WebGPU support status
@@ -122,6 +124,33 @@ export async function checkWebGPUSupport(): Promise<WebGPUSupport> {
   }
 }
 
+/**
+ * WGSL seeded lattice hash shared by the noise shaders
+ * Same PCG3D hash as parametric-cube.glsl and src/lib/noise.ts, so all
+ * backends produce the same lattice values for a given seed
+ */
+const seededHashShader = /* wgsl */ `
+// PCG3D integer hash (Jarzynski & Olano, 2020)
+fn pcg3d(v_in: vec3<u32>) -> vec3<u32> {
+  var v = v_in * 1664525u + 1013904223u;
+  v.x += v.y * v.z;
+  v.y += v.z * v.x;
+  v.z += v.x * v.y;
+  v ^= v >> vec3<u32>(16u);
+  v.x += v.y * v.z;
+  v.y += v.z * v.x;
+  v.z += v.x * v.y;
+  return v;
+}
+
+// Seeded hash of an integer lattice cell to [0, 1)
+fn hash3(p: vec3<f32>) -> vec3<f32> {
+  let seedMix = vec3<u32>(u32(params.seed)) * vec3<u32>(0x9E3779B9u, 0x85EBCA6Bu, 0xC2B2AE35u);
+  let h = pcg3d(bitcast<vec3<u32>>(vec3<i32>(p)) ^ seedMix);
+  return vec3<f32>(h >> vec3<u32>(8u)) * (1.0 / 16777216.0);
+}
+`
+
 /**
  * WGSL Compute Shader for Perlin Noise Generation
  */
@@ -139,16 +168,7 @@ struct Params {
 }
 @group(0) @binding(1) var<uniform> params: Params;
 
-// Hash function for noise generation
-fn hash3(p: vec3<f32>) -> vec3<f32> {
-  var q = vec3<f32>(
-    dot(p, vec3<f32>(127.1, 311.7, 74.7)),
-    dot(p, vec3<f32>(269.5, 183.3, 246.1)),
-    dot(p, vec3<f32>(113.5, 271.9, 124.6))
-  );
-  return fract(sin(q + params.seed) * 43758.5453123);
-}
-
+${seededHashShader}
 // Smoothstep interpolation
 fn smootherstep(t: f32) -> f32 {
   return t * t * (3.0 - 2.0 * t);
@@ -243,16 +263,7 @@ struct Params {
 }
 @group(0) @binding(1) var<uniform> params: Params;
 
-// Hash function for cell centers
-fn hash3(p: vec3<f32>) -> vec3<f32> {
-  var q = vec3<f32>(
-    dot(p, vec3<f32>(127.1, 311.7, 74.7)),
-    dot(p, vec3<f32>(269.5, 183.3, 246.1)),
-    dot(p, vec3<f32>(113.5, 271.9, 124.6))
-  );
-  return fract(sin(q + params.seed) * 43758.5453123);
-}
-
+${seededHashShader}
 // Worley noise - finds minimum distance to cell centers
 fn worleyNoise(p: vec3<f32>) -> f32 {
   let i = floor(p);
@@ -316,16 +327,7 @@ struct Params {
 }
 @group(0) @binding(1) var<uniform> params: Params;
 
-// Hash function for cell centers
-fn hash3(p: vec3<f32>) -> vec3<f32> {
-  var q = vec3<f32>(
-    dot(p, vec3<f32>(127.1, 311.7, 74.7)),
-    dot(p, vec3<f32>(269.5, 183.3, 246.1)),
-    dot(p, vec3<f32>(113.5, 271.9, 124.6))
-  );
-  return fract(sin(q + params.seed) * 43758.5453123);
-}
-
+${seededHashShader}
 // Crackle noise - F2 - F1 (edge detection)
 fn crackleNoise(p: vec3<f32>) -> f32 {
   let i = floor(p);
@@ -614,7 +616,7 @@ export class WebGPUCompute {
     uniformView.setFloat32(4, scale, true)
     uniformView.setUint32(8, octaves, true)
     uniformView.setFloat32(12, persistence, true)
-    uniformView.setFloat32(16, seed, true)
+    uniformView.setFloat32(16, normalizeNoiseSeed(seed), true)
 
     const uniformBuffer = this.device.createBuffer({
       size: 20,
@@ -679,192 +681,10 @@ export class WebGPUCompute {
     const totalSize = size * size * size
     const data = new Float32Array(totalSize)
 
-    // JavaScript noise implementation
-    // Proper fract function (returns fractional part, always positive)
-    const fract = (x: number): number => x - Math.floor(x)
-
-    // Improved hash function that produces pseudo-random values for 3D coordinates
-    const hash3 = (x: number, y: number, z: number): [number, number, number] => {
-      // Use different prime multipliers to avoid patterns
-      // Add offsets to handle zero coordinates better
-      const px = (x + 0.5) * 127.1 + (y + 0.5) * 311.7 + (z + 0.5) * 74.7 + seed * 1.31
-      const py = (x + 0.5) * 269.5 + (y + 0.5) * 183.3 + (z + 0.5) * 246.1 + seed * 2.47
-      const pz = (x + 0.5) * 113.5 + (y + 0.5) * 271.9 + (z + 0.5) * 124.6 + seed * 3.83
-
-      return [
-        fract(Math.sin(px) * 43758.5453123),
-        fract(Math.sin(py) * 43758.5453123),
-        fract(Math.sin(pz) * 43758.5453123),
-      ]
-    }
-
-    const smoothstep = (t: number): number => t * t * (3 - 2 * t)
-
-    const lerp = (a: number, b: number, t: number): number => a + t * (b - a)
-
-    const gradientNoise = (x: number, y: number, z: number): number => {
-      const ix = Math.floor(x)
-      const iy = Math.floor(y)
-      const iz = Math.floor(z)
-      const fx = x - ix
-      const fy = y - iy
-      const fz = z - iz
-
-      const ux = smoothstep(fx)
-      const uy = smoothstep(fy)
-      const uz = smoothstep(fz)
-
-      // Sample 8 corners and compute gradient dot products
-      const n000 = (() => {
-        const h = hash3(ix, iy, iz)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * fx + gy * fy + gz * fz
-      })()
-
-      const n100 = (() => {
-        const h = hash3(ix + 1, iy, iz)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * (fx - 1) + gy * fy + gz * fz
-      })()
-
-      const n010 = (() => {
-        const h = hash3(ix, iy + 1, iz)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * fx + gy * (fy - 1) + gz * fz
-      })()
-
-      const n110 = (() => {
-        const h = hash3(ix + 1, iy + 1, iz)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * (fx - 1) + gy * (fy - 1) + gz * fz
-      })()
-
-      const n001 = (() => {
-        const h = hash3(ix, iy, iz + 1)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * fx + gy * fy + gz * (fz - 1)
-      })()
-
-      const n101 = (() => {
-        const h = hash3(ix + 1, iy, iz + 1)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * (fx - 1) + gy * fy + gz * (fz - 1)
-      })()
-
-      const n011 = (() => {
-        const h = hash3(ix, iy + 1, iz + 1)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * fx + gy * (fy - 1) + gz * (fz - 1)
-      })()
-
-      const n111 = (() => {
-        const h = hash3(ix + 1, iy + 1, iz + 1)
-        const gx = h[0] * 2 - 1,
-          gy = h[1] * 2 - 1,
-          gz = h[2] * 2 - 1
-        return gx * (fx - 1) + gy * (fy - 1) + gz * (fz - 1)
-      })()
-
-      // Trilinear interpolation
-      const nx00 = lerp(n000, n100, ux)
-      const nx10 = lerp(n010, n110, ux)
-      const nx01 = lerp(n001, n101, ux)
-      const nx11 = lerp(n011, n111, ux)
-      const nxy0 = lerp(nx00, nx10, uy)
-      const nxy1 = lerp(nx01, nx11, uy)
-      return lerp(nxy0, nxy1, uz)
-    }
-
-    const fbm = (x: number, y: number, z: number): number => {
-      let value = 0
-      let amplitude = 0.5
-      let frequency = 1
-      let maxValue = 0
-
-      const effectiveOctaves = Math.max(1, octaves) // Ensure at least 1 octave
-
-      for (let i = 0; i < effectiveOctaves; i++) {
-        value += amplitude * gradientNoise(x * frequency, y * frequency, z * frequency)
-        maxValue += amplitude
-        amplitude *= persistence
-        frequency *= 2
-      }
-
-      return maxValue > 0 ? value / maxValue : 0
-    }
-
-    const worleyNoise = (x: number, y: number, z: number): number => {
-      const ix = Math.floor(x)
-      const iy = Math.floor(y)
-      const iz = Math.floor(z)
-      const fx = x - ix
-      const fy = y - iy
-      const fz = z - iz
-
-      let minDist = 1
-
-      for (let dx = -1; dx <= 1; dx++) {
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dz = -1; dz <= 1; dz++) {
-            const h = hash3(ix + dx, iy + dy, iz + dz)
-            const diffX = dx + h[0] - fx
-            const diffY = dy + h[1] - fy
-            const diffZ = dz + h[2] - fz
-            const dist = Math.sqrt(diffX * diffX + diffY * diffY + diffZ * diffZ)
-            minDist = Math.min(minDist, dist)
-          }
-        }
-      }
-
-      return minDist
-    }
-
-    const crackleNoise = (x: number, y: number, z: number): number => {
-      const ix = Math.floor(x)
-      const iy = Math.floor(y)
-      const iz = Math.floor(z)
-      const fx = x - ix
-      const fy = y - iy
-      const fz = z - iz
-
-      let minDist1 = 1
-      let minDist2 = 1
-
-      for (let dx = -1; dx <= 1; dx++) {
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dz = -1; dz <= 1; dz++) {
-            const h = hash3(ix + dx, iy + dy, iz + dz)
-            const diffX = dx + h[0] - fx
-            const diffY = dy + h[1] - fy
-            const diffZ = dz + h[2] - fz
-            const dist = Math.sqrt(diffX * diffX + diffY * diffY + diffZ * diffZ)
-
-            if (dist < minDist1) {
-              minDist2 = minDist1
-              minDist1 = dist
-            } else if (dist < minDist2) {
-              minDist2 = dist
-            }
-          }
-        }
-      }
-
-      return minDist2 - minDist1
-    }
+    // Same seeded noise as the shaders (see noise.ts)
+    const noiseType = noiseTypeToInt(type)
+    const effectiveOctaves = Math.max(1, octaves) // Ensure at least 1 octave
+    const noiseSeed = normalizeNoiseSeed(seed)
 
     // Generate noise values
     // Add 0.5 offset to sample at cell centers rather than corners
@@ -877,22 +697,15 @@ export class WebGPUCompute {
           const py = ((y + 0.5) * scale) / size
           const pz = ((z + 0.5) * scale) / size
 
-          let value: number
-          switch (type) {
-            case 'perlin':
-              value = fbm(px, py, pz) * 0.5 + 0.5
-              break
-            case 'worley':
-              value = worleyNoise(px, py, pz)
-              break
-            case 'crackle':
-              value = crackleNoise(px, py, pz)
-              break
-            default:
-              value = 0
-          }
-
-          data[index] = value
+          data[index] = computeNoise(
+            px,
+            py,
+            pz,
+            noiseType,
+            effectiveOctaves,
+            persistence,
+            noiseSeed
+          )
         }
       }
     }
@@ -53,6 +53,8 @@ class MockWebSocket {
   static OPEN = 1
   static CLOSING = 2
   static CLOSED = 3
+  /** Most recently created socket */
+  static latest: MockWebSocket | null = null
 
   readyState = MockWebSocket.CONNECTING
   onopen: ((event: Event) => void) | null = null
@@ -65,6 +67,7 @@ class MockWebSocket {
 
   constructor(url: string) {
     this.url = url
+    MockWebSocket.latest = this
     // Simulate async connection
     setTimeout(() => {
       this.readyState = MockWebSocket.OPEN
@@ -514,9 +517,35 @@ describe('PollingClient', () => {
     it('should send actions', async () => {
       const action = createMockAction()
 
-      fetchMock.mockResolvedValue({ ok: true })
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ success: true, actionId: action.id }),
+      })
+
+      await expect(client.sendAction(action)).resolves.toEqual({
+        success: true,
+        actionId: action.id,
+      })
+    })
+
+    it('should resolve with the rejection of an invalid action', async () => {
+      const action = createMockAction()
+
+      fetchMock.mockResolvedValue({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            success: false,
+            actionId: action.id,
+            error: 'Cube is locked by participant-2',
+            code: 'CUBE_LOCKED',
+          }),
+      })
 
-      await expect(client.sendAction(action)).resolves.not.toThrow()
+      await expect(client.sendAction(action)).resolves.toMatchObject({
+        success: false,
+        code: 'CUBE_LOCKED',
+      })
     })
 
     it('should fail when not connected', async () => {
@@ -663,6 +692,237 @@ describe('RealtimeClient', () => {
       expect(client.getWebSocketClient()).toBeNull()
     })
   })
+
+  describe('outbound queue', () => {
+    /** Waits for the latest socket to send a message of a type and returns it */
+    const waitForSent = (type: string, count = 1) =>
+      vi.waitFor(() => {
+        const sent = MockWebSocket.latest!.getSentMessages()
+          .map((data) => JSON.parse(data))
+          .filter((message) => message.type === type)
+        expect(sent.length).toBeGreaterThanOrEqual(count)
+        return sent[count - 1]
+      })
+
+    /** Answers a request on the latest socket */
+    const respond = (request: { id: string }, type: string, payload: object) =>
+      MockWebSocket.latest!.simulateMessage({
+        type,
+        id: request.id,
+        timestamp: new Date().toISOString(),
+        payload,
+      })
+
+    beforeEach(() => {
+      localStorage.clear()
+    })
+
+    it('should queue actions while offline once each', () => {
+      expect(client.sendAction(createMockAction({ id: 'a' }))).toBe(1)
+      expect(client.sendAction(createMockAction({ id: 'b' }))).toBe(2)
+      expect(client.sendAction(createMockAction({ id: 'a' }))).toBe(1)
+      expect(client.getQueuedActions().map((action) => action.id)).toEqual(['a', 'b'])
+    })
+
+    it('should send queued actions with sequence numbers and drop them when acknowledged', async () => {
+      await client.connect('session-1', 'participant-1')
+      const acked = vi.fn()
+      client.on('action_acked', acked)
+
+      client.sendAction(createMockAction())
+      const message = await waitForSent('sync_action')
+      expect(message.payload.sequence).toBe(1)
+
+      respond(message, 'ack', { success: true, sequence: 1 })
+      await vi.waitFor(() => expect(acked).toHaveBeenCalled())
+
+      expect(acked.mock.calls[0][0].data).toEqual({
+        actionId: 'action-1',
+        sequence: 1,
+        success: true,
+        duplicate: false,
+      })
+      expect(client.getQueuedActions()).toEqual([])
+    })
+
+    it('should restore the queue after a reload and send it on connect', async () => {
+      client.sendAction(createMockAction())
+      await client.connect('session-1', 'participant-1')
+      const stored = await waitForSent('sync_action')
+      respond(stored, 'ack', { success: true, sequence: 1 })
+      await vi.waitFor(() => expect(client.getQueuedActions()).toEqual([]))
+      client.sendAction(createMockAction({ id: 'action-2' }))
+      client.dispose()
+
+      const reloaded = createRealtimeClient()
+      await reloaded.connect('session-1', 'participant-1')
+      const message = await waitForSent('sync_action')
+
+      expect(message.payload.action.id).toBe('action-2')
+      expect(message.payload.sequence).toBe(2)
+      reloaded.dispose()
+    })
+
+    it('should keep actions stored per participant', async () => {
+      client.sendAction(createMockAction())
+      await client.connect('session-1', 'participant-1')
+      client.dispose()
+
+      const other = createRealtimeClient()
+      await other.connect('session-1', 'participant-2')
+
+      expect(other.getQueuedActions()).toEqual([])
+      other.dispose()
+    })
+
+    it('should rejoin, resync and replay unacknowledged actions after reconnecting', async () => {
+      const reconnecting = createRealtimeClient({
+        websocket: { ...DEFAULT_WEBSOCKET_CONFIG, reconnectBaseDelay: 0, reconnectMaxDelay: 0 },
+        queueStorageKey: null,
+      })
+      const join = { sessionCode: 'ABC234', participantName: 'Alice' }
+      const connected = reconnecting.connect('session-1', 'participant-1', undefined, join)
+      respond(await waitForSent('join_session'), 'join_session', {
+        success: true,
+        lastSequence: 4,
+      })
+      await connected
+      await waitForSent('full_sync')
+
+      expect(reconnecting.sendAction(createMockAction())).toBe(5)
+      await waitForSent('sync_action')
+
+      // The connection drops before the acknowledgement arrives
+      const dropped = MockWebSocket.latest!
+      dropped.readyState = MockWebSocket.CLOSED
+      dropped.onclose?.({ code: 1006, reason: '', wasClean: false } as CloseEvent)
+      await vi.waitFor(() => expect(MockWebSocket.latest).not.toBe(dropped))
+
+      respond(await waitForSent('join_session'), 'join_session', {
+        success: true,
+        lastSequence: 5,
+      })
+      const fullSync = await waitForSent('full_sync')
+      const replayed = await waitForSent('sync_action')
+      const sent = MockWebSocket.latest!.getSentMessages().map((data) => JSON.parse(data))
+
+      expect(sent.indexOf(sent.find((message) => message.id === fullSync.id))).toBeLessThan(
+        sent.indexOf(sent.find((message) => message.id === replayed.id))
+      )
+      expect(replayed.payload.sequence).toBe(5)
+
+      respond(replayed, 'ack', { success: true, sequence: 5, duplicate: true })
+      await vi.waitFor(() => expect(reconnecting.getQueuedActions()).toEqual([]))
+      expect(reconnecting.sendAction(createMockAction({ id: 'action-2' }))).toBe(6)
+      reconnecting.dispose()
+    })
+
+    it('should not send queued actions before the join completes', async () => {
+      const joining = createRealtimeClient({ queueStorageKey: null })
+      const join = { sessionCode: 'ABC234', participantName: 'Alice' }
+      const connected = joining.connect('session-1', 'participant-1', undefined, join)
+      const joinRequest = await waitForSent('join_session')
+      joining.sendAction(createMockAction())
+      await new Promise((resolve) => setTimeout(resolve, 20))
+
+      const sent = MockWebSocket.latest!.getSentMessages().map((data) => JSON.parse(data))
+      expect(sent.some((message) => message.type === 'sync_action')).toBe(false)
+
+      respond(joinRequest, 'join_session', { success: true, lastSequence: 0 })
+      await connected
+      const message = await waitForSent('sync_action')
+      expect(message.payload.sequence).toBe(1)
+      joining.dispose()
+    })
+
+    it('should keep an action queued and retry it when the server has not joined the client', async () => {
+      const retrying = createRealtimeClient({ ackTimeout: 200, queueStorageKey: null })
+      await retrying.connect('session-1', 'participant-1')
+      const acked = vi.fn()
+      retrying.on('action_acked', acked)
+      vi.spyOn(console, 'log').mockImplementation(() => {})
+
+      retrying.sendAction(createMockAction())
+      respond(await waitForSent('sync_action'), 'ack', {
+        success: false,
+        sequence: 1,
+        code: 'NOT_JOINED',
+      })
+      const retried = await waitForSent('sync_action', 2)
+
+      expect(acked).not.toHaveBeenCalled()
+      expect(retrying.getQueuedActions().map((action) => action.id)).toEqual(['action-1'])
+
+      respond(retried, 'ack', { success: true, sequence: 1 })
+      await vi.waitFor(() => expect(retrying.getQueuedActions()).toEqual([]))
+      retrying.dispose()
+    })
+
+    it("should renumber actions queued before joining after the server's last sequence", async () => {
+      const unstored = createRealtimeClient({ queueStorageKey: null })
+      expect(unstored.sendAction(createMockAction())).toBe(1)
+
+      const join = { sessionCode: 'ABC234', participantName: 'Alice' }
+      const connected = unstored.connect('session-1', 'participant-1', undefined, join)
+      respond(await waitForSent('join_session'), 'join_session', {
+        success: true,
+        lastSequence: 7,
+      })
+      await connected
+      const message = await waitForSent('sync_action')
+
+      expect(message.payload.sequence).toBe(8)
+      expect(unstored.sendAction(createMockAction({ id: 'action-2' }))).toBe(9)
+      unstored.dispose()
+    })
+
+    it('should number actions queued before loading the stored queue after the stored ones', async () => {
+      await client.connect('session-1', 'participant-1')
+      client.sendAction(createMockAction())
+      client.dispose()
+
+      const reloaded = createRealtimeClient()
+      expect(reloaded.sendAction(createMockAction({ id: 'action-2' }))).toBe(1)
+      await reloaded.connect('session-1', 'participant-1')
+      const first = await waitForSent('sync_action')
+      respond(first, 'ack', { success: true, sequence: 1 })
+      const second = await waitForSent('sync_action', 2)
+
+      expect(first.payload.action.id).toBe('action-1')
+      expect(second.payload).toMatchObject({ sequence: 2, action: { id: 'action-2' } })
+      expect(reloaded.getQueuedActions().map((action) => action.id)).toEqual(['action-2'])
+      reloaded.dispose()
+    })
+
+    it('should join over HTTP and continue from the server sequence when polling', async () => {
+      fetchMock.mockImplementation((url: string) => {
+        const data = url.endsWith('/sessions/join')
+          ? { success: true, authToken: 'token-1', lastSequence: 3 }
+          : url.endsWith('/action')
+            ? { success: true, actionId: 'action-1', sequence: 4 }
+            : { success: true, messages: [] }
+        return Promise.resolve({ ok: true, json: () => Promise.resolve(data) })
+      })
+      const polling = createRealtimeClient({ preferWebSocket: false, queueStorageKey: null })
+      polling.sendAction(createMockAction())
+
+      const join = { sessionCode: 'ABC234', participantName: 'Alice' }
+      await polling.connect('session-1', 'participant-1', undefined, join)
+      await vi.waitFor(() => expect(polling.getQueuedActions()).toEqual([]))
+
+      const [joinUrl, joinInit] = fetchMock.mock.calls[0]
+      expect(joinUrl).toMatch(/\/sessions\/join$/)
+      expect(JSON.parse(joinInit.body)).toEqual({
+        sessionCode: 'ABC234',
+        participantName: 'Alice',
+        participantId: 'participant-1',
+      })
+      const actionCall = fetchMock.mock.calls.find(([url]) => url.endsWith('/action'))!
+      expect(JSON.parse(actionCall[1].body).sequence).toBe(4)
+      expect(actionCall[1].headers.Authorization).toBe('Bearer token-1')
+      polling.dispose()
+    })
+  })
 })
 
 // ============================================================================
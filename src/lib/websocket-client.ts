@@ -1,6 +1,8 @@
 /**
  * WebSocket client for real-time collaboration
- * Provides WebSocket connection management, reconnection, heartbeat, and message handling
+ * Provides WebSocket connection management, reconnection, heartbeat, and message handling.
+ * RealtimeClient keeps an outbound queue of actions, persisted locally, that is replayed
+ * after every reconnect until the server acknowledges each action
  */
 
 import type {
@@ -17,9 +19,14 @@ import type {
   StateChangeEventData,
   JoinSessionResponse,
   SyncActionResponse,
+  AckMessage,
+  ActionAckedEventData,
+  QueuedAction,
+  FullSyncMessage,
 } from '../types/websocket'
 import {
   DEFAULT_WEBSOCKET_CONFIG,
+  generateMessageId,
   parseWebSocketMessage,
   serializeWebSocketMessage,
   createJoinSessionMessage,
@@ -29,7 +36,12 @@ import {
   createPresenceUpdateMessage,
   createHeartbeatMessage,
 } from '../types/websocket'
-import type { CollaborativeAction, SessionId, ParticipantId } from '../types/collaboration'
+import type {
+  CollaborativeAction,
+  SessionId,
+  ParticipantId,
+  SerializableSession,
+} from '../types/collaboration'
 
 // ============================================================================
 // WebSocket Client Class
@@ -175,6 +187,8 @@ export class WebSocketClient {
       }
 
       this.emit('close', closeData)
+      // No response can arrive on a closed socket
+      this.clearPendingRequests(new Error('Connection closed'))
 
       // Don't reject if we successfully connected and then closed
       if (this.state === 'connecting') {
@@ -637,7 +651,12 @@ export function createWebSocketClient(config?: Partial<WebSocketClientConfig>):
 // Polling Fallback Client
 // ============================================================================
 
-import type { PollingClientConfig, PollingResponse } from '../types/websocket'
+import type {
+  PollingActionResponse,
+  PollingClientConfig,
+  PollingJoinResponse,
+  PollingResponse,
+} from '../types/websocket'
 import { DEFAULT_POLLING_CONFIG } from '../types/websocket'
 
 /**
@@ -653,6 +672,7 @@ export class PollingClient {
   private sessionId: SessionId | null = null
   private participantId: ParticipantId | null = null
   private lastPollTimestamp: string | null = null
+  private authToken: string | null = null
 
   constructor(config?: Partial<PollingClientConfig>) {
     this.config = { ...DEFAULT_POLLING_CONFIG, ...config }
@@ -695,6 +715,42 @@ export class PollingClient {
     }
   }
 
+  /**
+   * Joins a session (again) over HTTP and keeps the participant's auth token.
+   * Resolves with the server's response, including its last sequence number for the participant
+   */
+  async joinSession(
+    sessionCode: string,
+    participantName: string,
+    participantId?: ParticipantId
+  ): Promise<PollingJoinResponse> {
+    const response = await fetch(`${this.config.serverUrl}/sessions/join`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sessionCode, participantName, participantId }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Failed to join session: ${response.status}`)
+    }
+    const data = (await response.json()) as PollingJoinResponse
+    this.authToken = data.authToken
+    return data
+  }
+
+  /**
+   * Gets the headers of requests made as the participant, with its auth token once joined
+   */
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.authToken) {
+      headers.Authorization = `Bearer ${this.authToken}`
+    }
+    return headers
+  }
+
   /**
    * Stops polling
    */
@@ -703,6 +759,7 @@ export class PollingClient {
     this.sessionId = null
     this.participantId = null
     this.lastPollTimestamp = null
+    this.authToken = null
     const previousState = this.state
     this.state = 'disconnected'
     this.emit('state_changed', { previousState, currentState: 'disconnected' })
@@ -796,28 +853,56 @@ export class PollingClient {
   }
 
   /**
-   * Sends an action to the server
+   * Sends an action to the server, with its outbound queue sequence number if it has one.
+   * The server applies it as the participant of the token from `joinSession`.
+   * Resolves with the server's verdict; an action it rejected resolves with `success: false`
    */
-  async sendAction(action: CollaborativeAction): Promise<void> {
+  async sendAction(action: CollaborativeAction, sequence?: number): Promise<PollingActionResponse> {
     if (!this.sessionId || !this.participantId) {
       throw new Error('Not connected')
     }
 
     const response = await fetch(`${this.config.serverUrl}/action`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: this.getHeaders(),
       body: JSON.stringify({
         sessionId: this.sessionId,
-        participantId: this.participantId,
         action,
+        sequence,
       }),
     })
 
     if (!response.ok) {
       throw new Error(`Failed to send action: ${response.status}`)
     }
+    return (await response.json()) as PollingActionResponse
+  }
+
+  /**
+   * Fetches the server's copy of the session and delivers it as a `full_sync` response
+   * message, as the WebSocket server answers a full sync request
+   */
+  async requestFullSync(): Promise<void> {
+    if (!this.sessionId) {
+      throw new Error('Not connected')
+    }
+
+    const response = await fetch(
+      `${this.config.serverUrl}/sessions/${encodeURIComponent(this.sessionId)}`,
+      { method: 'GET', headers: this.getHeaders() }
+    )
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch session: ${response.status}`)
+    }
+    const data = (await response.json()) as { session: SerializableSession }
+    const message: FullSyncMessage = {
+      id: generateMessageId(),
+      type: 'full_sync',
+      timestamp: new Date().toISOString(),
+      payload: { sessionId: this.sessionId, requestType: 'response', session: data.session },
+    }
+    this.handleMessage(message)
   }
 
   /**
@@ -833,9 +918,7 @@ export class PollingClient {
 
     const response = await fetch(`${this.config.serverUrl}/presence`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
+      headers: this.getHeaders(),
       body: JSON.stringify({
         sessionId: this.sessionId,
         participantId: this.participantId,
@@ -967,6 +1050,21 @@ export interface RealtimeClientConfig {
   preferWebSocket: boolean
   /** Fallback to polling if WebSocket fails */
   enablePollingFallback: boolean
+  /** localStorage key prefix of the outbound action queue; null keeps it in memory only */
+  queueStorageKey: string | null
+  /** Maximum number of queued actions; the oldest are dropped beyond it */
+  maxQueuedActions: number
+  /** Time to wait for the server to acknowledge a queued action (ms) */
+  ackTimeout: number
+}
+
+/**
+ * Session the client joins after every (re)connect, over WebSocket or HTTP, so that queued
+ * actions are accepted by the server
+ */
+export interface RealtimeJoinInfo {
+  sessionCode: string
+  participantName: string
 }
 
 /**
@@ -977,6 +1075,9 @@ export const DEFAULT_REALTIME_CONFIG: RealtimeClientConfig = {
   polling: DEFAULT_POLLING_CONFIG,
   preferWebSocket: true,
   enablePollingFallback: true,
+  queueStorageKey: 'isocubic_realtime_queue',
+  maxQueuedActions: 1000,
+  ackTimeout: 10000,
 }
 
 /**
@@ -989,6 +1090,16 @@ export class RealtimeClient {
   private usingWebSocket = true
   private listeners: Map<WebSocketEventType, Set<WebSocketEventListener>> = new Map()
   private messageListeners: Map<string, Set<WebSocketEventListener<IncomingMessage>>> = new Map()
+  private sessionId: SessionId | null = null
+  private participantId: ParticipantId | null = null
+  private joinInfo: RealtimeJoinInfo | null = null
+  /** Actions not yet acknowledged by the server, oldest first */
+  private queue: QueuedAction[] = []
+  private lastSequence = 0
+  /** Whether the session was joined since the last (re)connect; the queue waits for it */
+  private joined = false
+  private flushing = false
+  private flushRetryTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(config?: Partial<RealtimeClientConfig>) {
     this.config = {
@@ -1033,13 +1144,23 @@ export class RealtimeClient {
   }
 
   /**
-   * Connects using WebSocket or falls back to polling
+   * Connects using WebSocket or falls back to polling, then replays the queued actions.
+   * With `join`, the client joins the session after every (re)connect and continues the
+   * numbering of the queued actions from the server's last sequence
    */
   async connect(
     sessionId: SessionId,
     participantId: ParticipantId,
-    serverUrl?: string
+    serverUrl?: string,
+    join?: RealtimeJoinInfo
   ): Promise<void> {
+    this.sessionId = sessionId
+    this.participantId = participantId
+    this.joinInfo = join ?? null
+    this.usingWebSocket = false
+    this.joined = false
+    this.loadQueue()
+
     if (this.config.preferWebSocket && this.isWebSocketSupported()) {
       try {
         this.wsClient = createWebSocketClient(this.config.websocket)
@@ -1048,7 +1169,6 @@ export class RealtimeClient {
         const wsUrl = serverUrl ?? this.config.websocket.serverUrl
         await this.wsClient.connect(wsUrl)
         this.usingWebSocket = true
-        return
       } catch (error) {
         console.log('WebSocket connection failed:', error)
         if (!this.config.enablePollingFallback) {
@@ -1056,19 +1176,266 @@ export class RealtimeClient {
         }
         // Fall through to polling
       }
+      if (this.usingWebSocket) {
+        await this.resync()
+        return
+      }
     }
 
     // Use polling as fallback or primary
-    this.usingWebSocket = false
     this.pollingClient = createPollingClient(this.config.polling)
     this.setupPollingListeners()
+    if (this.joinInfo) {
+      const response = await this.pollingClient.joinSession(
+        this.joinInfo.sessionCode,
+        this.joinInfo.participantName,
+        participantId
+      )
+      this.adoptServerSequence(response.lastSequence)
+    }
     await this.pollingClient.connect(sessionId, participantId)
+    this.joined = true
+    void this.flushQueue()
+  }
+
+  /**
+   * After a WebSocket (re)connect: joins the session again, requests a full sync and replays
+   * the queued actions. The full sync is requested before the replay, so its response
+   * reflects the server without them and arrives before their acknowledgements. Nothing is
+   * replayed before the join has completed, as the server does not accept actions until then
+   */
+  private async resync(): Promise<void> {
+    if (!this.wsClient || !this.sessionId) return
+    this.joined = false
+
+    if (this.joinInfo) {
+      const response = await this.wsClient.joinSession(
+        this.joinInfo.sessionCode,
+        this.joinInfo.participantName,
+        this.participantId ?? undefined
+      )
+      this.adoptServerSequence(response.payload.lastSequence ?? 0)
+    }
+    this.joined = true
+
+    this.wsClient.requestFullSync(this.sessionId)
+    void this.flushQueue()
   }
 
   /**
-   * Disconnects
+   * Requests the server's copy of the session, e.g. to revert a rejected action. It arrives
+   * as a `full_sync` response message over WebSocket and polling alike
+   */
+  requestFullSync(): void {
+    if (!this.sessionId || !this.isConnected()) return
+
+    if (this.usingWebSocket && this.wsClient) {
+      this.wsClient.requestFullSync(this.sessionId)
+    } else if (this.pollingClient) {
+      this.pollingClient.requestFullSync().catch((error) => {
+        console.log('Full sync failed:', error)
+      })
+    }
+  }
+
+  // ==========================================================================
+  // Outbound Queue
+  // ==========================================================================
+
+  /**
+   * Continues the numbering from the last sequence the server applied for the participant.
+   * Actions already sent with a number up to it may have been applied without their
+   * acknowledgement arriving, so they keep it and are acknowledged as duplicates. The others
+   * are renumbered after it; the server would drop them as duplicates otherwise, e.g. when
+   * the numbering restarted because the queue could not be stored
+   */
+  private adoptServerSequence(serverSequence: number): void {
+    let sequence = serverSequence
+    this.queue = this.queue.map((entry) => {
+      if (entry.sent && entry.sequence <= serverSequence) return entry
+      sequence++
+      return { sequence, action: entry.action }
+    })
+    this.lastSequence = sequence
+    this.saveQueue()
+  }
+
+  /**
+   * Queues an action for the server and sends it when connected. The action stays queued,
+   * also across page reloads, until the server acknowledges it. Returns its sequence number
+   */
+  sendAction(action: CollaborativeAction): number {
+    const queued = this.queue.find((entry) => entry.action.id === action.id)
+    if (queued) {
+      return queued.sequence
+    }
+
+    const sequence = ++this.lastSequence
+    this.queue.push({ sequence, action })
+    if (this.queue.length > this.config.maxQueuedActions) {
+      const dropped = this.queue.splice(0, this.queue.length - this.config.maxQueuedActions)
+      console.warn(`Outbound queue full, dropped ${dropped.length} actions`)
+    }
+    this.saveQueue()
+    void this.flushQueue()
+
+    return sequence
+  }
+
+  /**
+   * Gets the actions waiting for acknowledgement, oldest first
+   */
+  getQueuedActions(): CollaborativeAction[] {
+    return this.queue.map((entry) => entry.action)
+  }
+
+  /**
+   * Sends the queued actions one at a time, in order, while connected and joined. Stops at
+   * the first failure and retries after `ackTimeout` if still connected; otherwise the rest
+   * stay queued for the next (re)connect
+   */
+  async flushQueue(): Promise<void> {
+    if (this.flushing) return
+    this.flushing = true
+    this.clearFlushRetry()
+
+    try {
+      while (this.joined && this.isConnected() && this.queue.length > 0) {
+        const entry = this.queue[0]
+        entry.sent = true
+        this.saveQueue()
+        const acked = await this.sendQueuedAction(entry)
+        // A rejoin may have renumbered the queue meanwhile, so the entry is found by its action
+        this.queue = this.queue.filter((queued) => queued.action.id !== entry.action.id)
+        this.saveQueue()
+        this.emit('action_acked', acked)
+      }
+    } catch (error) {
+      console.log('Outbound queue paused:', error)
+      if (this.isConnected()) {
+        this.flushRetryTimer = setTimeout(() => {
+          this.flushRetryTimer = null
+          void this.flushQueue()
+        }, this.config.ackTimeout)
+      }
+    } finally {
+      this.flushing = false
+    }
+  }
+
+  /**
+   * Cancels a scheduled flush retry
+   */
+  private clearFlushRetry(): void {
+    if (this.flushRetryTimer) {
+      clearTimeout(this.flushRetryTimer)
+      this.flushRetryTimer = null
+    }
+  }
+
+  /**
+   * Sends one queued action and waits for the server to acknowledge it
+   */
+  private async sendQueuedAction(entry: QueuedAction): Promise<ActionAckedEventData> {
+    const { action, sequence } = entry
+
+    if (this.usingWebSocket && this.wsClient) {
+      const message = createSyncActionMessage(action, action.sessionId, sequence)
+      const response = await this.wsClient.sendWithResponse<AckMessage | SyncActionResponse>(
+        message,
+        this.config.ackTimeout
+      )
+      if (response.payload.code === 'NOT_JOINED') {
+        // Not an answer to the action: it stays queued and is sent again
+        throw new Error(response.payload.error ?? 'Not joined to the session')
+      }
+      const duplicate = response.type === 'ack' && response.payload.duplicate === true
+      return {
+        actionId: action.id,
+        sequence,
+        success: response.payload.success,
+        duplicate,
+        error: response.payload.error,
+        code: response.payload.code,
+      }
+    }
+
+    if (!this.pollingClient) {
+      throw new Error('Not connected')
+    }
+    // Over polling the HTTP response is the acknowledgement
+    const response = await this.pollingClient.sendAction(action, sequence)
+    return {
+      actionId: action.id,
+      sequence,
+      success: response.success,
+      duplicate: response.duplicate === true,
+      error: response.error,
+      code: response.code,
+    }
+  }
+
+  /**
+   * Gets the storage key of the participant's queue
+   */
+  private getQueueStorageKey(): string | null {
+    if (!this.config.queueStorageKey || !this.participantId) return null
+    return `${this.config.queueStorageKey}:${this.participantId}`
+  }
+
+  /**
+   * Loads the participant's queue from localStorage
+   */
+  private loadQueue(): void {
+    const key = this.getQueueStorageKey()
+    if (!key) return
+
+    try {
+      const data = localStorage.getItem(key)
+      if (!data) return
+      const stored = JSON.parse(data) as { lastSequence: number; actions: QueuedAction[] }
+      // Keep actions queued in memory before connecting, numbered after the stored ones
+      const known = new Set(stored.actions.map((entry) => entry.action.id))
+      let sequence = Math.max(stored.lastSequence, ...stored.actions.map((entry) => entry.sequence))
+      const pending = this.queue
+        .filter((entry) => !known.has(entry.action.id))
+        .map((entry) => {
+          if (entry.sequence > sequence) {
+            sequence = entry.sequence
+            return entry
+          }
+          sequence++
+          return { sequence, action: entry.action }
+        })
+      this.queue = [...stored.actions, ...pending]
+      this.lastSequence = Math.max(this.lastSequence, sequence)
+    } catch {
+      // Ignore unreadable queues
+    }
+  }
+
+  /**
+   * Saves the participant's queue to localStorage
+   */
+  private saveQueue(): void {
+    const key = this.getQueueStorageKey()
+    if (!key) return
+
+    try {
+      localStorage.setItem(
+        key,
+        JSON.stringify({ lastSequence: this.lastSequence, actions: this.queue })
+      )
+    } catch {
+      // Ignore storage errors (e.g. quota exceeded)
+    }
+  }
+
+  /**
+   * Disconnects. Queued actions are kept for the next connect
    */
   disconnect(): void {
+    this.clearFlushRetry()
     if (this.wsClient) {
       this.wsClient.disconnect()
       this.wsClient = null
@@ -1108,6 +1475,16 @@ export class RealtimeClient {
         this.emit(eventType, event.data)
       })
     }
+
+    this.wsClient.on('close', () => {
+      this.joined = false
+    })
+
+    this.wsClient.on('reconnected', () => {
+      this.resync().catch((error) => {
+        console.log('Resync after reconnect failed:', error)
+      })
+    })
   }
 
   /**
@@ -0,0 +1,281 @@
+/**
+ * Unit tests for chunked world streaming
+ */
+
+import { describe, it, expect, vi } from 'vitest'
+import type { SpectralCube } from '../types/cube'
+import type { WorldConfig } from '../types/world'
+import { createWorld, fillWorldRegion } from '../types/world'
+import { createCubeStack, createStackLayer } from '../types/stack'
+import { MemoryStorageAdapter } from './storage-adapter'
+import { layoutCubeInstances } from './instanced-renderer'
+import {
+  WorldStreamingError,
+  createChunkImpostor,
+  deleteWorldChunks,
+  getChunkCoordinate,
+  getChunkDistance,
+  getImpostorInstances,
+  getWorldChunkKey,
+  getWorldHeaderKey,
+  loadWorldChunks,
+  openWorldStream,
+  saveWorldChunks,
+  splitWorldIntoChunks,
+} from './world-streaming'
+
+const stone: SpectralCube = { id: 'stone', base: { color: [0.4, 0.4, 0.4] } }
+const grass: SpectralCube = { id: 'grass', base: { color: [0.2, 0.8, 0.2] } }
+
+/** A row of 20 stone cells along x: five chunks of size 4 */
+function createRowWorld(): WorldConfig {
+  return fillWorldRegion(createWorld('row', [stone, grass]), [0, 0, 0], [19, 0, 0], 'stone')
+}
+
+const streamingConfig = { impostorDistance: 6, viewDistance: 10, hysteresis: 2 }
+
+async function openRow(config = {}) {
+  const adapter = new MemoryStorageAdapter()
+  await saveWorldChunks(createRowWorld(), { adapter, chunkSize: 4 })
+  const streamer = await openWorldStream('row', {
+    adapter,
+    config: { ...streamingConfig, ...config },
+  })
+  return { adapter, streamer }
+}
+
+describe('world-streaming', () => {
+  describe('chunking', () => {
+    it('should round chunk coordinates down, including negative cells', () => {
+      expect(getChunkCoordinate([-1, 0, 17], 16)).toEqual([-1, 0, 1])
+      expect(getChunkCoordinate([15, 16, -16], 16)).toEqual([0, 1, -1])
+    })
+
+    it('should split cells into chunks keyed by chunk coordinate', () => {
+      const chunks = splitWorldIntoChunks(createRowWorld(), 8)
+
+      expect(Array.from(chunks.keys())).toEqual(['0,0,0', '1,0,0', '2,0,0'])
+      expect(Object.keys(chunks.get('2,0,0')!.cells)).toEqual([
+        '16,0,0',
+        '17,0,0',
+        '18,0,0',
+        '19,0,0',
+      ])
+    })
+
+    it('should measure the distance to the chunk bounds', () => {
+      expect(getChunkDistance([1, 1, 1], [0, 0, 0], 4)).toBe(0)
+      expect(getChunkDistance([-2.5, 0, 0], [0, 0, 0], 4)).toBe(2)
+      expect(getChunkDistance([10, 0, 0], [1, 0, 0], 4)).toBeCloseTo(2.5)
+    })
+  })
+
+  describe('persistence', () => {
+    it('should store a header and one key per chunk', async () => {
+      const adapter = new MemoryStorageAdapter()
+      const world = createRowWorld()
+      const header = await saveWorldChunks(world, { adapter, chunkSize: 4 })
+
+      expect(header.chunks).toHaveLength(5)
+      expect((await adapter.keys()).sort()).toEqual(
+        [
+          getWorldHeaderKey('row'),
+          ...header.chunks.map((key) => getWorldChunkKey('row', key)),
+        ].sort()
+      )
+      expect(await loadWorldChunks('row', adapter)).toEqual(world)
+    })
+
+    it('should remove chunks that an earlier save stored', async () => {
+      const adapter = new MemoryStorageAdapter()
+      await saveWorldChunks(createRowWorld(), { adapter, chunkSize: 4 })
+
+      const shorter = fillWorldRegion(createWorld('row', [stone]), [0, 0, 0], [3, 0, 0], 'stone')
+      await saveWorldChunks(shorter, { adapter, chunkSize: 4 })
+      expect(await adapter.keys()).toHaveLength(2)
+
+      await deleteWorldChunks('row', adapter)
+      expect(await adapter.keys()).toEqual([])
+      expect(await loadWorldChunks('row', adapter)).toBeNull()
+    })
+
+    it('should refuse to stream a world that is not stored', async () => {
+      await expect(
+        openWorldStream('missing', { adapter: new MemoryStorageAdapter() })
+      ).rejects.toThrow(WorldStreamingError)
+    })
+  })
+
+  describe('WorldStreamer', () => {
+    it('should load chunks around the camera and render far ones as impostors', async () => {
+      const { streamer } = await openRow()
+
+      // Chunk distances from x = 0: 0, 3.5, 7.5, 11.5, 15.5
+      const first = await streamer.update([0, 0, 0])
+      expect(first.loaded).toEqual(['0,0,0', '1,0,0', '2,0,0'])
+      expect(streamer.getChunkDetail('1,0,0')).toBe('full')
+      expect(streamer.getChunkDetail('2,0,0')).toBe('impostor')
+      expect(streamer.getChunkDetail('3,0,0')).toBeNull()
+      expect(Object.keys(streamer.getWorld().cells)).toHaveLength(8)
+      expect(streamer.getImpostors().map((impostor) => impostor.chunkKey)).toEqual(['2,0,0'])
+
+      // Chunk distances from x = 16: 12.5, 8.5, 4.5, 0.5, 0
+      const second = await streamer.update([16, 0, 0])
+      expect(second).toEqual({
+        loaded: ['4,0,0', '3,0,0'],
+        unloaded: ['0,0,0'],
+        detailChanged: ['1,0,0', '2,0,0'],
+      })
+      expect(streamer.getStatistics()).toEqual({
+        totalChunks: 5,
+        loadedChunks: 4,
+        fullChunks: 3,
+        impostorChunks: 1,
+        dirtyChunks: 0,
+      })
+    })
+
+    it('should keep chunks inside the hysteresis band', async () => {
+      const { streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+
+      // Chunk 1 is 7.5 away: past the impostor distance but within the hysteresis band
+      const result = await streamer.update([-4, 0, 0])
+      expect(result.detailChanged).toEqual([])
+      expect(streamer.getChunkDetail('1,0,0')).toBe('full')
+    })
+
+    it('should load the nearest chunks first when loads are limited', async () => {
+      const { streamer } = await openRow({ maxLoadsPerUpdate: 1 })
+
+      expect((await streamer.update([9, 0, 0])).loaded).toEqual(['2,0,0'])
+      expect((await streamer.update([9, 0, 0])).loaded).toEqual(['1,0,0'])
+    })
+
+    it('should rewrite only dirty chunks on flush', async () => {
+      const { adapter, streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+      const setItem = vi.spyOn(adapter, 'setItem')
+
+      streamer.setCell([1, 0, 0], 'grass')
+      streamer.setCell([2, 0, 0], 'grass')
+      expect(streamer.getStatistics().dirtyChunks).toBe(1)
+
+      expect(await streamer.flush()).toEqual({ written: ['0,0,0'], removed: [], header: false })
+      expect(setItem.mock.calls.map(([key]) => key)).toEqual([getWorldChunkKey('row', '0,0,0')])
+      expect((await loadWorldChunks('row', adapter))!.cells['1,0,0']).toBe('grass')
+      expect(await streamer.flush()).toEqual({ written: [], removed: [], header: false })
+    })
+
+    it('should add and remove chunks through the header', async () => {
+      const { adapter, streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+
+      streamer.setCell([0, 4, 0], 'grass')
+      for (let x = 4; x < 8; x++) streamer.setCell([x, 0, 0], null)
+
+      expect(await streamer.flush()).toEqual({
+        written: ['0,1,0'],
+        removed: ['1,0,0'],
+        header: true,
+      })
+      const stored = await loadWorldChunks('row', adapter)
+      expect(stored!.cells['0,4,0']).toBe('grass')
+      expect(stored!.cells['4,0,0']).toBeUndefined()
+      expect(streamer.getHeader().chunks).toContain('0,1,0')
+      expect(streamer.getHeader().chunks).not.toContain('1,0,0')
+    })
+
+    it('should write dirty chunks before unloading them', async () => {
+      const { adapter, streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+      streamer.setCell([0, 0, 0], 'grass')
+
+      const result = await streamer.update([40, 0, 0])
+      expect(result.unloaded).toContain('0,0,0')
+      expect((await loadWorldChunks('row', adapter))!.cells['0,0,0']).toBe('grass')
+      expect(streamer.getStatistics().dirtyChunks).toBe(0)
+    })
+
+    it('should keep a new chunk reachable after unloading it without a flush', async () => {
+      const { adapter, streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+      streamer.setCell([0, 4, 0], 'grass')
+
+      expect((await streamer.update([40, 0, 0])).unloaded).toContain('0,1,0')
+
+      const reopened = await openWorldStream('row', { adapter, config: streamingConfig })
+      expect(reopened.getHeader().chunks).toContain('0,1,0')
+      expect((await loadWorldChunks('row', adapter))!.cells['0,4,0']).toBe('grass')
+    })
+
+    it('should not edit stored chunks that are not loaded', async () => {
+      const { streamer } = await openRow()
+      expect(() => streamer.setCell([0, 0, 0], 'grass')).toThrow(WorldStreamingError)
+    })
+
+    it('should rebuild impostors after edits and palette changes', async () => {
+      const { streamer } = await openRow()
+      await streamer.update([0, 0, 0])
+      const [before] = streamer.getImpostors()
+      const version = streamer.getVersion()
+      expect(streamer.getImpostors()[0]).toBe(before)
+      await streamer.update([0, 0, 0])
+      expect(streamer.getVersion()).toBe(version)
+
+      streamer.setPaletteCube({ ...stone, base: { color: [1, 0, 0] } })
+      expect(streamer.getVersion()).toBeGreaterThan(version)
+      expect(streamer.getImpostors()[0].blocks[0].color).toEqual([1, 0, 0])
+      expect((await streamer.flush()).header).toBe(true)
+    })
+  })
+
+  describe('impostors', () => {
+    it('should merge each block into one box with the mean colour', () => {
+      let world = createWorld('mix', [stone, grass])
+      world = fillWorldRegion(world, [0, 0, 0], [3, 0, 3], 'stone')
+      world = fillWorldRegion(world, [0, 1, 0], [1, 1, 3], 'grass')
+      const [chunk] = splitWorldIntoChunks(world, 16).values()
+
+      const impostor = createChunkImpostor(chunk, world, 4)
+      expect(impostor.blocks).toHaveLength(1)
+      const [block] = impostor.blocks
+      expect(block.cellCount).toBe(24)
+      expect(block.min).toEqual([0, 0, 0])
+      expect(block.size).toEqual([4, 2, 4])
+      expect(block.center).toEqual([1.5, 0.5, 1.5])
+      // 16 stone and 8 grass cells
+      expect(block.color[1]).toBeCloseTo((16 * 0.4 + 8 * 0.8) / 24)
+    })
+
+    it('should expand stacks before merging', () => {
+      const stack = createCubeStack('tower', [
+        createStackLayer('bottom', stone, 'bottom'),
+        createStackLayer('top', grass, 'top'),
+      ])
+      const world = {
+        ...createWorld('towers', [stone], [stack]),
+        cells: { '0,0,0': { stack: 'tower' } },
+      }
+      const [chunk] = splitWorldIntoChunks(world, 16).values()
+
+      expect(createChunkImpostor(chunk, world, 4).blocks[0].size).toEqual([1, 2, 1])
+    })
+
+    it('should draw all impostor boxes as LOD 4 instances in one batch', () => {
+      let world = createWorld('mix', [stone, grass])
+      world = fillWorldRegion(world, [0, 0, 0], [7, 0, 7], 'stone')
+      world = fillWorldRegion(world, [0, 0, 0], [3, 0, 3], 'grass')
+      const [chunk] = splitWorldIntoChunks(world, 16).values()
+
+      const instances = getImpostorInstances([createChunkImpostor(chunk, world, 4)], 2, [0, 10, 0])
+      expect(instances).toHaveLength(4)
+      expect(instances[0]).toMatchObject({
+        position: [3, 10, 3],
+        scale: [8, 2, 8],
+        lodLevel: 4,
+      })
+      expect(layoutCubeInstances(instances).batches).toHaveLength(1)
+    })
+  })
+})
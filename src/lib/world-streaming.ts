@@ -0,0 +1,758 @@
+/**
+ * Chunked world streaming
+ * Splits a WorldConfig into fixed-size chunks that are persisted separately
+ * through the active StorageAdapter and paged in and out around the camera
+ *
+ * - A world is stored as a header (palette, stacks, metadata and the chunk
+ *   index) plus one storage key per chunk
+ * - WorldStreamer keeps only the chunks within the view distance in memory;
+ *   nearer chunks are rendered cube by cube, farther ones as impostors
+ * - Impostors merge the cells of each block of a chunk into one box with the
+ *   block's mean base colour, drawn at LOD 4 where cubes already drop to their
+ *   DC colour
+ * - Edits mark their chunk dirty and flush() rewrites only dirty chunks (and
+ *   the header when the chunk index or palette changed)
+ */
+
+import type { SpectralCube } from '../types/cube'
+import { DEFAULT_LOD_THRESHOLDS } from '../types/lod'
+import type { CubeStackConfig } from '../types/stack'
+import type { WorldCell, WorldConfig, WorldCoordinate, WorldMeta } from '../types/world'
+import { parseCellKey, toCellKey } from '../types/world'
+import { resolveWorld } from './world'
+import type { StorageAdapter } from './storage-adapter'
+import { getStorageAdapter } from './storage-adapter'
+import type { CubeInstance } from './instanced-renderer'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A chunk of world cells
+ */
+export interface WorldChunk {
+  /** Chunk key ("cx,cy,cz") */
+  key: string
+  /** Chunk coordinate (cell coordinate divided by the chunk size, rounded down) */
+  coordinate: WorldCoordinate
+  /** Cells of the chunk keyed by world cell key ("x,y,z") */
+  cells: Record<string, WorldCell>
+}
+
+/**
+ * Stored part of a chunked world that is always in memory
+ */
+export interface WorldStreamHeader {
+  /** World ID */
+  id: string
+  /** Optional world bounds */
+  size?: WorldCoordinate
+  /** Cube definitions keyed by ID */
+  palette: Record<string, SpectralCube>
+  /** Stack definitions keyed by ID */
+  stacks?: Record<string, CubeStackConfig>
+  /** Metadata */
+  meta?: WorldMeta
+  /** Number of cells along each axis of a chunk */
+  chunkSize: number
+  /** Keys of the stored chunks */
+  chunks: string[]
+}
+
+/**
+ * How a loaded chunk is rendered
+ */
+export type ChunkDetail = 'full' | 'impostor'
+
+/**
+ * Streaming configuration (distances in grid cells)
+ */
+export interface WorldStreamingConfig {
+  /** Chunks farther than this from the camera are rendered as impostors */
+  impostorDistance: number
+  /** Chunks farther than this are unloaded */
+  viewDistance: number
+  /** Extra distance a chunk must pass before it is unloaded or turned into an impostor */
+  hysteresis: number
+  /** Cells along each axis of an impostor block */
+  impostorBlockSize: number
+  /** Maximum chunks read from storage per update, nearest first */
+  maxLoadsPerUpdate: number
+}
+
+/**
+ * A merged box of an impostor
+ */
+export interface ChunkImpostorBlock {
+  /** Lowest occupied cell of the block */
+  min: WorldCoordinate
+  /** Centre of the box in grid units */
+  center: [number, number, number]
+  /** Size of the box in cells */
+  size: [number, number, number]
+  /** Mean base colour of the merged cells */
+  color: [number, number, number]
+  /** Number of merged cells */
+  cellCount: number
+}
+
+/**
+ * Low-detail stand-in for a far chunk
+ */
+export interface ChunkImpostor {
+  /** Chunk key */
+  chunkKey: string
+  /** Merged boxes */
+  blocks: ChunkImpostorBlock[]
+}
+
+/**
+ * Chunks affected by a streaming update
+ */
+export interface WorldStreamingUpdate {
+  /** Chunks read from storage */
+  loaded: string[]
+  /** Chunks dropped from memory */
+  unloaded: string[]
+  /** Loaded chunks that switched between full detail and impostor */
+  detailChanged: string[]
+}
+
+/**
+ * Storage writes made by a flush
+ */
+export interface WorldStreamingFlush {
+  /** Chunks written */
+  written: string[]
+  /** Chunks removed because they became empty */
+  removed: string[]
+  /** Whether the header was written */
+  header: boolean
+}
+
+/**
+ * Counts of streamed chunks
+ */
+export interface WorldStreamingStatistics {
+  /** Chunks stored for the world */
+  totalChunks: number
+  /** Chunks in memory */
+  loadedChunks: number
+  /** Loaded chunks rendered cube by cube */
+  fullChunks: number
+  /** Loaded chunks rendered as impostors */
+  impostorChunks: number
+  /** Chunks with unsaved edits */
+  dirtyChunks: number
+}
+
+/**
+ * Options for opening or saving a chunked world
+ */
+export interface WorldStreamingOptions {
+  /** Storage backend (default: the shared adapter) */
+  adapter?: StorageAdapter
+  /** Streaming configuration overrides */
+  config?: Partial<WorldStreamingConfig>
+}
+
+/**
+ * Error thrown for missing chunked worlds and edits to chunks that are not loaded
+ */
+export class WorldStreamingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorldStreamingError'
+  }
+}
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+/** Default number of cells along each axis of a chunk */
+export const DEFAULT_CHUNK_SIZE = 16
+
+/**
+ * Default streaming configuration
+ * Impostors start where the default LOD thresholds reach level 4
+ */
+export const DEFAULT_WORLD_STREAMING_CONFIG: WorldStreamingConfig = {
+  impostorDistance: DEFAULT_LOD_THRESHOLDS[4].minDistance,
+  viewDistance: 128,
+  hysteresis: 8,
+  impostorBlockSize: 4,
+  maxLoadsPerUpdate: 8,
+}
+
+/** Prefix of chunked world storage keys */
+const STORAGE_KEY_WORLD_PREFIX = 'isocubic_world_'
+
+/**
+ * Storage key of a chunked world header
+ */
+export function getWorldHeaderKey(worldId: string): string {
+  return `${STORAGE_KEY_WORLD_PREFIX}${worldId}`
+}
+
+/**
+ * Storage key of a chunk
+ */
+export function getWorldChunkKey(worldId: string, chunkKey: string): string {
+  return `${STORAGE_KEY_WORLD_PREFIX}${worldId}_chunk_${chunkKey}`
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Gets the coordinate of the chunk holding a cell
+ */
+export function getChunkCoordinate(
+  cell: WorldCoordinate,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): WorldCoordinate {
+  return [
+    Math.floor(cell[0] / chunkSize),
+    Math.floor(cell[1] / chunkSize),
+    Math.floor(cell[2] / chunkSize),
+  ]
+}
+
+/**
+ * Splits the cells of a world into chunks
+ * Stack cells belong to the chunk of their bottom cell
+ */
+export function splitWorldIntoChunks(
+  world: WorldConfig,
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Map<string, WorldChunk> {
+  const chunks = new Map<string, WorldChunk>()
+  for (const [cellKey, cell] of Object.entries(world.cells)) {
+    const position = parseCellKey(cellKey)
+    if (!position) continue
+    const coordinate = getChunkCoordinate(position, chunkSize)
+    const key = toCellKey(coordinate)
+    let chunk = chunks.get(key)
+    if (!chunk) {
+      chunk = { key, coordinate, cells: {} }
+      chunks.set(key, chunk)
+    }
+    chunk.cells[cellKey] = cell
+  }
+  return chunks
+}
+
+/**
+ * Distance in cells from a point to the bounds of a chunk (0 inside the chunk)
+ */
+export function getChunkDistance(
+  point: [number, number, number],
+  coordinate: WorldCoordinate,
+  chunkSize: number
+): number {
+  let sum = 0
+  for (let axis = 0; axis < 3; axis++) {
+    // Cells are centred on their coordinate, so a chunk spans half a cell past its edge cells
+    const min = coordinate[axis] * chunkSize - 0.5
+    const max = min + chunkSize
+    const delta = Math.max(min - point[axis], 0, point[axis] - max)
+    sum += delta * delta
+  }
+  return Math.sqrt(sum)
+}
+
+function headerToWorld(header: WorldStreamHeader, cells: Record<string, WorldCell>): WorldConfig {
+  const world: WorldConfig = { id: header.id, palette: header.palette, cells }
+  if (header.size) world.size = header.size
+  if (header.stacks) world.stacks = header.stacks
+  if (header.meta) world.meta = header.meta
+  return world
+}
+
+// ============================================================================
+// Impostors
+// ============================================================================
+
+/** Base configuration of impostor boxes; only the colour varies, so they share one batch */
+export const IMPOSTOR_CUBE: SpectralCube = {
+  id: 'chunk_impostor',
+  base: { color: [0.5, 0.5, 0.5], roughness: 1 },
+}
+
+/**
+ * Merges the cells of a chunk into one box per block of `blockSize` cells
+ * Each box spans the occupied cells of its block and takes their mean base colour
+ */
+export function createChunkImpostor(
+  chunk: WorldChunk,
+  header: Pick<WorldStreamHeader, 'id' | 'palette' | 'stacks'>,
+  blockSize: number = DEFAULT_WORLD_STREAMING_CONFIG.impostorBlockSize
+): ChunkImpostor {
+  const resolved = resolveWorld({
+    id: header.id,
+    palette: header.palette,
+    stacks: header.stacks,
+    cells: chunk.cells,
+  })
+
+  const blocks = new Map<
+    string,
+    { min: WorldCoordinate; max: WorldCoordinate; color: number[]; cellCount: number }
+  >()
+  for (const cell of resolved.cells) {
+    const key = toCellKey(getChunkCoordinate(cell.position, blockSize))
+    const block = blocks.get(key)
+    const color = cell.config.base.color
+    if (!block) {
+      blocks.set(key, {
+        min: [...cell.position],
+        max: [...cell.position],
+        color: [...color],
+        cellCount: 1,
+      })
+      continue
+    }
+    for (let axis = 0; axis < 3; axis++) {
+      block.min[axis] = Math.min(block.min[axis], cell.position[axis])
+      block.max[axis] = Math.max(block.max[axis], cell.position[axis])
+      block.color[axis] += color[axis]
+    }
+    block.cellCount++
+  }
+
+  return {
+    chunkKey: chunk.key,
+    blocks: Array.from(blocks.values(), ({ min, max, color, cellCount }) => ({
+      min,
+      center: [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2],
+      size: [max[0] - min[0] + 1, max[1] - min[1] + 1, max[2] - min[2] + 1],
+      color: [color[0] / cellCount, color[1] / cellCount, color[2] / cellCount],
+      cellCount,
+    })),
+  }
+}
+
+/**
+ * Converts impostors into LOD 4 cube instances for InstancedCubes
+ * @param step - Distance between cell centres in world units
+ * @param origin - World position of cell 0,0,0
+ */
+export function getImpostorInstances(
+  impostors: ChunkImpostor[],
+  step = 1,
+  origin: [number, number, number] = [0, 0, 0]
+): CubeInstance[] {
+  return impostors.flatMap((impostor) =>
+    impostor.blocks.map((block) => ({
+      key: `impostor-${impostor.chunkKey}-${toCellKey(block.min)}`,
+      config: { ...IMPOSTOR_CUBE, base: { ...IMPOSTOR_CUBE.base, color: block.color } },
+      position: [
+        origin[0] + block.center[0] * step,
+        origin[1] + block.center[1] * step,
+        origin[2] + block.center[2] * step,
+      ],
+      gridPosition: block.min,
+      scale: [block.size[0] * step, block.size[1] * step, block.size[2] * step],
+      lodLevel: 4,
+    }))
+  )
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+/**
+ * Saves a world as a header and one storage key per chunk
+ * Chunks stored by an earlier save that are now empty are removed
+ * @returns The stored header
+ * @throws StorageError when a write fails
+ */
+export async function saveWorldChunks(
+  world: WorldConfig,
+  options: WorldStreamingOptions & { chunkSize?: number } = {}
+): Promise<WorldStreamHeader> {
+  const adapter = options.adapter ?? (await getStorageAdapter())
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE
+  const chunks = splitWorldIntoChunks(world, chunkSize)
+
+  for (const chunk of chunks.values()) {
+    await adapter.setItem(getWorldChunkKey(world.id, chunk.key), JSON.stringify(chunk))
+  }
+
+  const previous = await readHeader(adapter, world.id)
+  for (const key of previous?.chunks ?? []) {
+    if (!chunks.has(key)) await adapter.removeItem(getWorldChunkKey(world.id, key))
+  }
+
+  const header: WorldStreamHeader = {
+    id: world.id,
+    size: world.size,
+    palette: world.palette,
+    stacks: world.stacks,
+    meta: world.meta,
+    chunkSize,
+    chunks: Array.from(chunks.keys()),
+  }
+  await adapter.setItem(getWorldHeaderKey(world.id), JSON.stringify(header))
+  return header
+}
+
+/**
+ * Loads a whole chunked world into memory (e.g. for export)
+ * @returns The world, or null when no chunked world with this ID is stored
+ */
+export async function loadWorldChunks(
+  worldId: string,
+  adapter?: StorageAdapter
+): Promise<WorldConfig | null> {
+  const storage = adapter ?? (await getStorageAdapter())
+  const header = await readHeader(storage, worldId)
+  if (!header) return null
+
+  const cells: Record<string, WorldCell> = {}
+  for (const key of header.chunks) {
+    const chunk = await readChunk(storage, worldId, key)
+    if (chunk) Object.assign(cells, chunk.cells)
+  }
+  return headerToWorld(header, cells)
+}
+
+/**
+ * Removes a chunked world and all its chunks
+ */
+export async function deleteWorldChunks(worldId: string, adapter?: StorageAdapter): Promise<void> {
+  const storage = adapter ?? (await getStorageAdapter())
+  const header = await readHeader(storage, worldId)
+  for (const key of header?.chunks ?? []) {
+    await storage.removeItem(getWorldChunkKey(worldId, key))
+  }
+  await storage.removeItem(getWorldHeaderKey(worldId))
+}
+
+async function readJSON<T>(adapter: StorageAdapter, key: string): Promise<T | null> {
+  try {
+    const data = await adapter.getItem(key)
+    return data ? (JSON.parse(data) as T) : null
+  } catch {
+    return null
+  }
+}
+
+function readHeader(adapter: StorageAdapter, worldId: string): Promise<WorldStreamHeader | null> {
+  return readJSON<WorldStreamHeader>(adapter, getWorldHeaderKey(worldId))
+}
+
+function readChunk(
+  adapter: StorageAdapter,
+  worldId: string,
+  key: string
+): Promise<WorldChunk | null> {
+  return readJSON<WorldChunk>(adapter, getWorldChunkKey(worldId, key))
+}
+
+// ============================================================================
+// Streamer
+// ============================================================================
+
+/**
+ * A chunk held in memory
+ */
+interface LoadedChunk {
+  chunk: WorldChunk
+  detail: ChunkDetail
+  /** Cached impostor, cleared by edits */
+  impostor: ChunkImpostor | null
+}
+
+/**
+ * Pages the chunks of a stored world in and out around the camera
+ */
+export class WorldStreamer {
+  private header: WorldStreamHeader
+  private readonly adapter: StorageAdapter
+  private config: WorldStreamingConfig
+  private index: Set<string>
+  private loaded = new Map<string, LoadedChunk>()
+  private dirty = new Set<string>()
+  private headerDirty = false
+  /** Incremented whenever the rendered chunks or their cells change */
+  private version = 0
+  /** Serializes updates and flushes so storage reads and writes never interleave */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    header: WorldStreamHeader,
+    adapter: StorageAdapter,
+    config?: Partial<WorldStreamingConfig>
+  ) {
+    this.header = header
+    this.adapter = adapter
+    this.config = { ...DEFAULT_WORLD_STREAMING_CONFIG, ...config }
+    this.index = new Set(header.chunks)
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  // ==========================================================================
+  // State
+  // ==========================================================================
+
+  /**
+   * Gets the streaming configuration
+   */
+  getConfig(): Readonly<WorldStreamingConfig> {
+    return this.config
+  }
+
+  /**
+   * Gets the world header (palette, stacks and chunk index)
+   */
+  getHeader(): Readonly<WorldStreamHeader> {
+    return { ...this.header, chunks: Array.from(this.index) }
+  }
+
+  /**
+   * Gets a counter that changes whenever getWorld() or getImpostors() would change
+   */
+  getVersion(): number {
+    return this.version
+  }
+
+  /**
+   * Gets the detail of a chunk, or null when it is not loaded
+   */
+  getChunkDetail(chunkKey: string): ChunkDetail | null {
+    return this.loaded.get(chunkKey)?.detail ?? null
+  }
+
+  /**
+   * Gets a world holding the cells of the full-detail chunks
+   */
+  getWorld(): WorldConfig {
+    const cells: Record<string, WorldCell> = {}
+    for (const { chunk, detail } of this.loaded.values()) {
+      if (detail === 'full') Object.assign(cells, chunk.cells)
+    }
+    return headerToWorld(this.header, cells)
+  }
+
+  /**
+   * Gets the impostors of the far chunks (built on first use after a load or edit)
+   */
+  getImpostors(): ChunkImpostor[] {
+    const impostors: ChunkImpostor[] = []
+    for (const loaded of this.loaded.values()) {
+      if (loaded.detail !== 'impostor') continue
+      loaded.impostor ??= createChunkImpostor(
+        loaded.chunk,
+        this.header,
+        this.config.impostorBlockSize
+      )
+      impostors.push(loaded.impostor)
+    }
+    return impostors
+  }
+
+  /**
+   * Gets chunk counts
+   */
+  getStatistics(): WorldStreamingStatistics {
+    let fullChunks = 0
+    for (const { detail } of this.loaded.values()) {
+      if (detail === 'full') fullChunks++
+    }
+    return {
+      totalChunks: this.index.size,
+      loadedChunks: this.loaded.size,
+      fullChunks,
+      impostorChunks: this.loaded.size - fullChunks,
+      dirtyChunks: this.dirty.size,
+    }
+  }
+
+  // ==========================================================================
+  // Streaming
+  // ==========================================================================
+
+  /**
+   * Loads, unloads and re-details chunks for a camera position
+   * Dirty chunks are written before they are unloaded, with the header when that changed
+   * the chunk index (a new chunk stays reachable without a flush)
+   * @param cameraPosition - Camera position in grid units
+   */
+  update(cameraPosition: [number, number, number]): Promise<WorldStreamingUpdate> {
+    return this.enqueue(() => this.applyUpdate(cameraPosition))
+  }
+
+  private async applyUpdate(cameraPosition: [number, number, number]) {
+    const { impostorDistance, viewDistance, hysteresis, maxLoadsPerUpdate } = this.config
+    const { chunkSize } = this.header
+    const result: WorldStreamingUpdate = { loaded: [], unloaded: [], detailChanged: [] }
+    const detailFor = (distance: number): ChunkDetail =>
+      distance <= impostorDistance ? 'full' : 'impostor'
+    const toLoad: { key: string; distance: number }[] = []
+
+    for (const key of this.index) {
+      const distance = getChunkDistance(cameraPosition, parseCellKey(key)!, chunkSize)
+      const loaded = this.loaded.get(key)
+
+      if (!loaded) {
+        if (distance <= viewDistance) toLoad.push({ key, distance })
+      } else if (distance > viewDistance + hysteresis) {
+        if (this.dirty.has(key)) {
+          await this.writeChunk(key)
+          if (this.headerDirty) await this.writeHeader()
+        }
+        this.loaded.delete(key)
+        result.unloaded.push(key)
+      } else if (loaded.detail === 'full' && distance > impostorDistance + hysteresis) {
+        loaded.detail = 'impostor'
+        result.detailChanged.push(key)
+      } else if (loaded.detail === 'impostor' && distance <= impostorDistance) {
+        loaded.detail = 'full'
+        result.detailChanged.push(key)
+      }
+    }
+
+    toLoad.sort((a, b) => a.distance - b.distance)
+    for (const { key, distance } of toLoad.slice(0, maxLoadsPerUpdate)) {
+      const chunk = (await readChunk(this.adapter, this.header.id, key)) ?? {
+        key,
+        coordinate: parseCellKey(key)!,
+        cells: {},
+      }
+      this.loaded.set(key, { chunk, detail: detailFor(distance), impostor: null })
+      result.loaded.push(key)
+    }
+
+    if (result.loaded.length + result.unloaded.length + result.detailChanged.length > 0) {
+      this.version++
+    }
+    return result
+  }
+
+  // ==========================================================================
+  // Editing
+  // ==========================================================================
+
+  /**
+   * Sets or clears a cell and marks its chunk dirty
+   * Cells of chunks that do not exist yet create a new full-detail chunk
+   * @throws WorldStreamingError when the cell's chunk is stored but not loaded
+   */
+  setCell(coordinate: WorldCoordinate, cell: WorldCell | null): void {
+    const chunkCoordinate = getChunkCoordinate(coordinate, this.header.chunkSize)
+    const key = toCellKey(chunkCoordinate)
+    let loaded = this.loaded.get(key)
+
+    if (!loaded) {
+      if (this.index.has(key)) {
+        throw new WorldStreamingError(`Chunk ${key} of world "${this.header.id}" is not loaded`)
+      }
+      if (cell === null) return
+      loaded = {
+        chunk: { key, coordinate: chunkCoordinate, cells: {} },
+        detail: 'full',
+        impostor: null,
+      }
+      this.loaded.set(key, loaded)
+      this.index.add(key)
+      this.headerDirty = true
+    }
+
+    const cellKey = toCellKey(coordinate)
+    if (cell === null) {
+      delete loaded.chunk.cells[cellKey]
+    } else {
+      loaded.chunk.cells[cellKey] = cell
+    }
+    loaded.impostor = null
+    this.dirty.add(key)
+    this.version++
+  }
+
+  /**
+   * Adds or replaces a palette cube; only the header is rewritten on flush
+   */
+  setPaletteCube(cube: SpectralCube): void {
+    this.header = { ...this.header, palette: { ...this.header.palette, [cube.id]: cube } }
+    for (const loaded of this.loaded.values()) loaded.impostor = null
+    this.headerDirty = true
+    this.version++
+  }
+
+  /**
+   * Writes dirty chunks, and the header when the chunk index or palette changed
+   * @throws StorageError when a write fails (unwritten chunks stay dirty)
+   */
+  flush(): Promise<WorldStreamingFlush> {
+    return this.enqueue(async () => {
+      const result: WorldStreamingFlush = { written: [], removed: [], header: false }
+      for (const key of Array.from(this.dirty)) {
+        if (await this.writeChunk(key)) {
+          result.written.push(key)
+        } else {
+          result.removed.push(key)
+        }
+      }
+      if (this.headerDirty) {
+        await this.writeHeader()
+        result.header = true
+      }
+      return result
+    })
+  }
+
+  /**
+   * Writes the header with the current chunk index and palette
+   */
+  private async writeHeader(): Promise<void> {
+    await this.adapter.setItem(getWorldHeaderKey(this.header.id), JSON.stringify(this.getHeader()))
+    this.headerDirty = false
+  }
+
+  /**
+   * Writes a dirty chunk, or removes it when it became empty
+   * @returns false when the chunk was removed
+   */
+  private async writeChunk(key: string): Promise<boolean> {
+    const { chunk } = this.loaded.get(key)!
+    const storageKey = getWorldChunkKey(this.header.id, key)
+    const empty = Object.keys(chunk.cells).length === 0
+
+    if (empty) {
+      await this.adapter.removeItem(storageKey)
+      this.index.delete(key)
+      this.loaded.delete(key)
+      this.headerDirty = true
+    } else {
+      await this.adapter.setItem(storageKey, JSON.stringify(chunk))
+    }
+    this.dirty.delete(key)
+    return !empty
+  }
+}
+
+/**
+ * Opens a stored chunked world for streaming; no chunks are loaded until the first update
+ * @throws WorldStreamingError when no chunked world with this ID is stored
+ */
+export async function openWorldStream(
+  worldId: string,
+  options: WorldStreamingOptions = {}
+): Promise<WorldStreamer> {
+  const adapter = options.adapter ?? (await getStorageAdapter())
+  const header = await readHeader(adapter, worldId)
+  if (!header) {
+    throw new WorldStreamingError(`No chunked world "${worldId}" in ${adapter.name}`)
+  }
+  return new WorldStreamer(header, adapter, options.config)
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getNeighborConfigs,
+  getWorldBounds,
+  getWorldNeighbors,
+  resolveWorld,
+  NEIGHBOR_OFFSETS,
+} from './world'
+import type { WorldConfig } from '../types/world'
+import { createDefaultCube } from '../types/cube'
+import { createCubeStack, createStackLayer } from '../types/stack'
+
+import gardenPath from '../../examples/world-garden-path.json'
+
+const world = gardenPath as unknown as WorldConfig
+
+describe('World Resolution', () => {
+  describe('resolveWorld', () => {
+    it('should resolve every palette cell and expand stacks', () => {
+      const resolved = resolveWorld(world)
+      // 8 palette cells + 2 stack layers
+      expect(resolved.cells).toHaveLength(10)
+      expect(resolved.unresolved).toEqual([])
+      expect(resolved.overlaps).toEqual([])
+    })
+
+    it('should use the palette configuration for cube cells', () => {
+      const cell = resolveWorld(world).index.get('1,0,0')
+      expect(cell?.config.id).toBe('stone_path_001')
+      expect(cell?.source).toEqual({ type: 'cube', cubeId: 'stone_path_001' })
+    })
+
+    it('should place stack layers above the referencing cell', () => {
+      const resolved = resolveWorld(world)
+      const top = resolved.index.get('2,1,2')
+      expect(top?.config.id).toBe('pillar_top')
+      expect(top?.source).toEqual({ type: 'stack', stackId: 'pillar_001', layerIndex: 1 })
+      expect(top?.center).toEqual([2, 1, 2])
+    })
+
+    it('should center uneven stack layers', () => {
+      const cube = createDefaultCube('layer')
+      const stack = createCubeStack('tall', [
+        createStackLayer('l0', cube, 'bottom', 2),
+        createStackLayer('l1', cube, 'top', 1),
+      ])
+      const resolved = resolveWorld({
+        id: 'w',
+        palette: {},
+        stacks: { tall: stack },
+        cells: { '0,0,0': { stack: 'tall' } },
+      })
+      expect(resolved.index.get('0,0,0')?.center[1]).toBeCloseTo(0.5)
+      expect(resolved.index.get('0,0,0')?.height).toBe(2)
+      expect(resolved.index.get('0,2,0')?.center[1]).toBeCloseTo(2)
+    })
+
+    it('should place stack layers above the heights of the layers below', () => {
+      const cube = createDefaultCube('layer')
+      const stack = createCubeStack('tall', [
+        createStackLayer('l0', cube, 'bottom', 2),
+        createStackLayer('l1', cube, 'top', 1),
+      ])
+      const resolved = resolveWorld({
+        id: 'w',
+        palette: {},
+        stacks: { tall: stack },
+        cells: { '0,0,0': { stack: 'tall' } },
+      })
+      expect(resolved.cells.map((cell) => cell.key)).toEqual(['0,0,0', '0,2,0'])
+      expect(resolved.cells[0].occupied).toEqual([
+        [0, 0, 0],
+        [0, 1, 0],
+      ])
+      expect(resolved.index.get('0,1,0')).toBe(resolved.cells[0])
+      expect(resolved.overlaps).toEqual([])
+      expect(getWorldBounds(resolved)).toEqual({ min: [0, 0, 0], max: [0, 2, 0] })
+    })
+
+    it('should let fractional stack layers share a cell', () => {
+      const cube = createDefaultCube('layer')
+      const stack = createCubeStack('slabs', [
+        createStackLayer('l0', cube, 'bottom', 0.5),
+        createStackLayer('l1', cube, 'top', 0.5),
+      ])
+      const resolved = resolveWorld({
+        id: 'w',
+        palette: {},
+        stacks: { slabs: stack },
+        cells: { '0,0,0': { stack: 'slabs' } },
+      })
+      expect(resolved.cells).toHaveLength(2)
+      expect(resolved.overlaps).toEqual([])
+    })
+
+    it('should report cells covered by a tall layer and another cube as overlaps', () => {
+      const cube = createDefaultCube('layer')
+      const stack = createCubeStack('tall', [createStackLayer('l0', cube, 'single', 3)])
+      const resolved = resolveWorld({
+        id: 'w',
+        palette: { stone: cube },
+        stacks: { tall: stack },
+        cells: { '0,0,0': { stack: 'tall' }, '0,2,0': 'stone' },
+      })
+      expect(resolved.overlaps).toEqual(['0,2,0'])
+      expect(resolved.index.get('0,2,0')?.source).toEqual({
+        type: 'stack',
+        stackId: 'tall',
+        layerIndex: 0,
+      })
+    })
+
+    it('should apply stack boundary settings to layers', () => {
+      const stack = createCubeStack('s', [createStackLayer('l0', createDefaultCube('c'))])
+      stack.boundaryMode = 'hard'
+      stack.neighborInfluence = 0.9
+      const cell = resolveWorld({
+        id: 'w',
+        palette: {},
+        stacks: { s: stack },
+        cells: { '0,0,0': { stack: 's' } },
+      }).cells[0]
+      expect(cell.config.boundary).toEqual({ mode: 'hard', neighbor_influence: 0.9 })
+    })
+
+    it('should default boundary settings for palette cubes', () => {
+      const cube = { id: 'plain', base: { color: [0.5, 0.5, 0.5] as [number, number, number] } }
+      const cell = resolveWorld({ id: 'w', palette: { plain: cube }, cells: { '0,0,0': 'plain' } })
+        .cells[0]
+      expect(cell.config.boundary).toEqual({ mode: 'smooth', neighbor_influence: 0.5 })
+    })
+
+    it('should report unresolved references', () => {
+      const resolved = resolveWorld({ id: 'w', palette: {}, cells: { '0,0,0': 'missing' } })
+      expect(resolved.cells).toHaveLength(0)
+      expect(resolved.unresolved).toEqual(['0,0,0'])
+    })
+
+    it('should return cells in deterministic order', () => {
+      const keys = resolveWorld(world).cells.map((c) => c.key)
+      expect(keys[0]).toBe('0,0,0')
+      expect(keys[keys.length - 1]).toBe('2,1,2')
+    })
+  })
+
+  describe('getWorldNeighbors', () => {
+    it('should return different neighbouring cubes by direction', () => {
+      const resolved = resolveWorld(world)
+      const neighbors = getWorldNeighbors(resolved, [1, 0, 1])
+      expect(neighbors.x?.config.id).toBe('grass_001')
+      expect(neighbors['-x']?.config.id).toBe('grass_001')
+      expect(neighbors.z?.config.id).toBe('stone_path_001')
+      expect(neighbors['-z']?.config.id).toBe('stone_path_001')
+      expect(neighbors.y).toBeUndefined()
+      expect(neighbors['-y']).toBeUndefined()
+    })
+
+    it('should see stack layers as vertical neighbours', () => {
+      const neighbors = getWorldNeighbors(resolveWorld(world), [2, 0, 2])
+      expect(neighbors.y?.config.id).toBe('pillar_top')
+    })
+
+    it('should define opposite offsets for opposite directions', () => {
+      expect(NEIGHBOR_OFFSETS.x.map((v) => 0 - v)).toEqual(NEIGHBOR_OFFSETS['-x'])
+      expect(NEIGHBOR_OFFSETS.y.map((v) => 0 - v)).toEqual(NEIGHBOR_OFFSETS['-y'])
+      expect(NEIGHBOR_OFFSETS.z.map((v) => 0 - v)).toEqual(NEIGHBOR_OFFSETS['-z'])
+    })
+  })
+
+  describe('getNeighborConfigs', () => {
+    it('should map neighbour cells to their configurations', () => {
+      const configs = getNeighborConfigs(resolveWorld(world), [0, 0, 0])
+      expect(Object.keys(configs).sort()).toEqual(['x', 'z'])
+      expect(configs.x?.id).toBe('stone_path_001')
+      expect(configs.z?.id).toBe('grass_001')
+    })
+  })
+
+  describe('getWorldBounds', () => {
+    it('should return inclusive bounds of occupied cells', () => {
+      expect(getWorldBounds(resolveWorld(world))).toEqual({ min: [0, 0, 0], max: [2, 1, 2] })
+    })
+
+    it('should return null for an empty world', () => {
+      expect(getWorldBounds(resolveWorld({ id: 'w', palette: {}, cells: {} }))).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,278 @@
+/**
+ * World resolution utilities
+ * Expands a sparse WorldConfig into renderable cells and answers neighbour
+ * queries used for boundary stitching between different cubes
+ */
+
+import type { NeighborDirection, SpectralCube } from '../types/cube'
+import { CUBE_DEFAULTS } from '../types/cube'
+import type { CubeStackConfig } from '../types/stack'
+import { getLayerYPosition } from '../types/stack'
+import type { WorldConfig, WorldCoordinate } from '../types/world'
+import { isStackCell, parseCellKey, toCellKey } from '../types/world'
+
+/**
+ * Where a resolved cell's configuration came from
+ */
+export type WorldCellSource =
+  | { type: 'cube'; cubeId: string }
+  | { type: 'stack'; stackId: string; layerIndex: number }
+
+/**
+ * A single occupied cell after palette and stack references are resolved
+ */
+export interface ResolvedWorldCell {
+  /** Cell key ("x,y,z") */
+  key: string
+  /** Integer grid coordinate of the cell (the lowest cell for tall stack layers) */
+  position: WorldCoordinate
+  /** Grid coordinates covered by the cube, bottom to top (more than one for tall stack layers) */
+  occupied: WorldCoordinate[]
+  /** Center of the rendered cube in grid units (differs from position for uneven stack layers) */
+  center: [number, number, number]
+  /** Vertical size of the rendered cube in grid units */
+  height: number
+  /** Effective cube configuration for this cell */
+  config: SpectralCube
+  /** Origin of the configuration */
+  source: WorldCellSource
+}
+
+/**
+ * Result of resolving a world
+ */
+export interface ResolvedWorld {
+  /** All occupied cells in deterministic (x, y, z) order */
+  cells: ResolvedWorldCell[]
+  /** Lookup of occupied cells by key (a tall stack layer is listed under every cell it covers) */
+  index: Map<string, ResolvedWorldCell>
+  /** Cell keys whose palette or stack reference could not be resolved */
+  unresolved: string[]
+  /** Cell keys occupied by more than one cube (e.g. a stack growing into another cell) */
+  overlaps: string[]
+}
+
+/**
+ * Axis-aligned bounds of the occupied cells (inclusive)
+ */
+export interface WorldBounds {
+  min: WorldCoordinate
+  max: WorldCoordinate
+}
+
+/**
+ * Grid offsets for each neighbour direction
+ */
+export const NEIGHBOR_OFFSETS: Record<NeighborDirection, WorldCoordinate> = {
+  x: [1, 0, 0],
+  '-x': [-1, 0, 0],
+  y: [0, 1, 0],
+  '-y': [0, -1, 0],
+  z: [0, 0, 1],
+  '-z': [0, 0, -1],
+}
+
+/**
+ * All neighbour directions in a stable order
+ */
+export const NEIGHBOR_DIRECTIONS: NeighborDirection[] = ['x', '-x', 'y', '-y', 'z', '-z']
+
+/**
+ * Neighbours of a cell, keyed by direction (missing entries are empty cells)
+ */
+export type WorldNeighbors = Partial<Record<NeighborDirection, ResolvedWorldCell>>
+
+/**
+ * Ensures a cube has explicit boundary settings so stitching is enabled in grids
+ */
+function withBoundary(
+  config: SpectralCube,
+  mode = config.boundary?.mode,
+  influence = config.boundary?.neighbor_influence
+): SpectralCube {
+  return {
+    ...config,
+    boundary: {
+      mode: mode ?? CUBE_DEFAULTS.boundary.mode,
+      neighbor_influence: influence ?? CUBE_DEFAULTS.boundary.neighbor_influence,
+    },
+  }
+}
+
+function compareCoordinates(a: WorldCoordinate, b: WorldCoordinate): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2]
+}
+
+/**
+ * Gets the grid cells covered by a stack layer, from the sum of the heights below it
+ * Fractional layers share cells with their neighbours in the stack
+ */
+function getLayerCells(
+  position: WorldCoordinate,
+  stack: CubeStackConfig,
+  layerIndex: number
+): WorldCoordinate[] {
+  let bottom = 0
+  for (let i = 0; i < layerIndex; i++) {
+    bottom += stack.layers[i].height ?? 1
+  }
+  const top = bottom + (stack.layers[layerIndex].height ?? 1)
+  const first = Math.floor(bottom)
+  const last = Math.max(first, Math.ceil(top) - 1)
+
+  const cells: WorldCoordinate[] = []
+  for (let y = first; y <= last; y++) {
+    cells.push([position[0], position[1] + y, position[2]])
+  }
+  return cells
+}
+
+/**
+ * Resolves every cell of a world into concrete cube configurations
+ * Stack references are expanded upwards, each layer covering as many cells as its height
+ */
+export function resolveWorld(world: WorldConfig): ResolvedWorld {
+  const cells: ResolvedWorldCell[] = []
+  const index = new Map<string, ResolvedWorldCell>()
+  /** Referencing world cell of every occupied key, to tell overlaps from layers sharing a cell */
+  const owners = new Map<string, string>()
+  const unresolved: string[] = []
+  const overlaps = new Set<string>()
+
+  // The first cube to claim a cell keeps it; cubes left without any cell are dropped
+  const place = (cell: ResolvedWorldCell, owner: string) => {
+    let claimed = false
+    for (const position of cell.occupied) {
+      const key = toCellKey(position)
+      const current = owners.get(key)
+      if (current === undefined) {
+        owners.set(key, owner)
+        index.set(key, cell)
+      } else if (current !== owner) {
+        overlaps.add(key)
+        continue
+      }
+      claimed = true
+    }
+    if (claimed) {
+      cells.push(cell)
+    }
+  }
+
+  for (const [key, cell] of Object.entries(world.cells)) {
+    const position = parseCellKey(key)
+    if (!position) {
+      unresolved.push(key)
+      continue
+    }
+
+    if (isStackCell(cell)) {
+      const stack = world.stacks?.[cell.stack]
+      if (!stack || stack.layers.length === 0) {
+        unresolved.push(key)
+        continue
+      }
+      stack.layers.forEach((layer, layerIndex) => {
+        const occupied = getLayerCells(position, stack, layerIndex)
+        const layerPosition = occupied[0]!
+        place(
+          {
+            key: toCellKey(layerPosition),
+            position: layerPosition,
+            occupied,
+            center: [
+              position[0],
+              position[1] - 0.5 + getLayerYPosition(stack, layerIndex),
+              position[2],
+            ],
+            height: layer.height ?? 1,
+            config: withBoundary(
+              layer.cubeConfig,
+              stack.boundaryMode ?? layer.cubeConfig.boundary?.mode,
+              stack.neighborInfluence ?? layer.cubeConfig.boundary?.neighbor_influence
+            ),
+            source: { type: 'stack', stackId: cell.stack, layerIndex },
+          },
+          key
+        )
+      })
+      continue
+    }
+
+    const cube = world.palette[cell]
+    if (!cube) {
+      unresolved.push(key)
+      continue
+    }
+    place(
+      {
+        key,
+        position,
+        occupied: [position],
+        center: [...position],
+        height: 1,
+        config: withBoundary(cube),
+        source: { type: 'cube', cubeId: cell },
+      },
+      key
+    )
+  }
+
+  cells.sort((a, b) => compareCoordinates(a.position, b.position))
+
+  return { cells, index, unresolved, overlaps: Array.from(overlaps) }
+}
+
+/**
+ * Gets the occupied neighbours of a grid coordinate
+ */
+export function getWorldNeighbors(
+  resolved: ResolvedWorld,
+  position: WorldCoordinate
+): WorldNeighbors {
+  const neighbors: WorldNeighbors = {}
+  for (const direction of NEIGHBOR_DIRECTIONS) {
+    const offset = NEIGHBOR_OFFSETS[direction]
+    const neighbor = resolved.index.get(
+      toCellKey([position[0] + offset[0], position[1] + offset[1], position[2] + offset[2]])
+    )
+    if (neighbor) {
+      neighbors[direction] = neighbor
+    }
+  }
+  return neighbors
+}
+
+/**
+ * Gets the configurations of the occupied neighbours of a grid coordinate
+ * Suitable for the `neighbors` option of createUniforms
+ */
+export function getNeighborConfigs(
+  resolved: ResolvedWorld,
+  position: WorldCoordinate
+): Partial<Record<NeighborDirection, SpectralCube>> {
+  const neighbors = getWorldNeighbors(resolved, position)
+  return Object.fromEntries(
+    Object.entries(neighbors).map(([direction, cell]) => [direction, cell.config])
+  ) as Partial<Record<NeighborDirection, SpectralCube>>
+}
+
+/**
+ * Calculates the inclusive bounds of all occupied cells
+ * @returns Bounds, or null for an empty world
+ */
+export function getWorldBounds(resolved: ResolvedWorld): WorldBounds | null {
+  if (resolved.cells.length === 0) return null
+
+  const min: WorldCoordinate = [...resolved.cells[0].position]
+  const max: WorldCoordinate = [...resolved.cells[0].position]
+  for (const cell of resolved.cells) {
+    for (const position of cell.occupied) {
+      for (let axis = 0; axis < 3; axis++) {
+        min[axis] = Math.min(min[axis], position[axis])
+        max[axis] = Math.max(max[axis], position[axis])
+      }
+    }
+  }
+  return { min, max }
+}
@@ -1,5 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { vertexShader, fragmentShader, defaultUniforms } from './parametric-cube'
+import {
+  vertexShader,
+  fragmentShader,
+  defaultUniforms,
+  createMaterialFragmentShader,
+  createInstancedFragmentShader,
+  instancedVertexShader,
+} from './parametric-cube'
 
 describe('Parametric Cube Shader Module', () => {
   describe('vertexShader', () => {
@@ -75,6 +82,7 @@ describe('Parametric Cube Shader Module', () => {
       expect(fragmentShader).toContain('uniform float uNoiseMaskStart')
       expect(fragmentShader).toContain('uniform float uNoiseMaskEnd')
       expect(fragmentShader).toContain('uniform int uNoiseMaskAxis')
+      expect(fragmentShader).toContain('uniform float uNoiseSeed')
     })
 
     it('should declare lighting uniforms', () => {
@@ -91,29 +99,36 @@ describe('Parametric Cube Shader Module', () => {
       expect(fragmentShader).toContain('gl_FragColor')
     })
 
+    it('should hash lattice cells with the PCG3D integer hash', () => {
+      expect(fragmentShader).toContain('uvec3 pcg3d(uvec3 v)')
+      expect(fragmentShader).not.toContain('43758.5453')
+    })
+
     it('should implement hash function for noise', () => {
-      expect(fragmentShader).toContain('vec3 hash3(vec3 p)')
+      expect(fragmentShader).toContain('vec3 hash3(vec3 p, float seed)')
     })
 
     it('should implement gradient noise function', () => {
-      expect(fragmentShader).toContain('float gradientNoise(vec3 p)')
+      expect(fragmentShader).toContain('float gradientNoise(vec3 p, float seed)')
     })
 
     it('should implement fBm function', () => {
-      expect(fragmentShader).toContain('float fbm(vec3 p, int octaves, float persistence)')
+      expect(fragmentShader).toContain(
+        'float fbm(vec3 p, int octaves, float persistence, float seed)'
+      )
     })
 
     it('should implement worley noise function', () => {
-      expect(fragmentShader).toContain('float worleyNoise(vec3 p)')
+      expect(fragmentShader).toContain('float worleyNoise(vec3 p, float seed)')
     })
 
     it('should implement crackle noise function', () => {
-      expect(fragmentShader).toContain('float crackleNoise(vec3 p)')
+      expect(fragmentShader).toContain('float crackleNoise(vec3 p, float seed)')
     })
 
     it('should implement computeNoise function', () => {
       expect(fragmentShader).toContain(
-        'float computeNoise(vec3 p, int noiseType, int octaves, float persistence)'
+        'float computeNoise(vec3 p, int noiseType, int octaves, float persistence, float seed)'
       )
     })
 
@@ -144,9 +159,82 @@ describe('Parametric Cube Shader Module', () => {
       expect(fragmentShader).toContain('noiseType == 3') // Crackle
     })
 
+    it('should declare neighbour material uniforms', () => {
+      expect(fragmentShader).toContain('uniform float uNeighborPresent[6]')
+      expect(fragmentShader).toContain('uniform vec3 uNeighborColor[6]')
+      expect(fragmentShader).toContain('uniform int uNeighborNoiseType[6]')
+      expect(fragmentShader).toContain('uniform float uNeighborNoiseScale[6]')
+      expect(fragmentShader).toContain('uniform float uNeighborNoiseSeed[6]')
+      expect(fragmentShader).toContain('uniform int uNeighborNoiseOctaves[6]')
+      expect(fragmentShader).toContain('uniform float uNeighborNoisePersistence[6]')
+      expect(fragmentShader).toContain('uniform float uNeighborNoiseAmplitude[6]')
+    })
+
+    it("should sample neighbour noise with the neighbour's own parameters", () => {
+      expect(fragmentShader).toContain('max(uNeighborNoiseOctaves[i], 1)')
+      expect(fragmentShader).toContain('(neighborNoise - 0.5) * uNeighborNoiseAmplitude[i]')
+    })
+
+    it('should blend edges toward neighbouring materials in smooth mode', () => {
+      expect(fragmentShader).toContain('float getFaceDistance(vec3 pos, int direction)')
+      expect(fragmentShader).toContain(
+        'vec3 applyNeighborBlending(vec3 color, vec3 localPos, vec3 globalPos, float blendWidth)'
+      )
+      expect(fragmentShader).toContain('uBoundaryMode == 1 && uNeighborInfluence > 0.0')
+    })
+
     it('should clamp final color output', () => {
       expect(fragmentShader).toContain('clamp(finalColor, 0.0, 1.0)')
     })
+
+    it('should take the surface colour from computeMaterialColor', () => {
+      expect(fragmentShader).toContain('vec3 computeMaterialColor()')
+      expect(fragmentShader).toContain('vec3 color = computeMaterialColor();')
+    })
+  })
+
+  describe('createMaterialFragmentShader', () => {
+    it('should replace the flat material with the given chunk', () => {
+      const chunk = 'vec3 computeMaterialColor() { return vec3(1.0, 0.0, 0.0); }'
+      const shader = createMaterialFragmentShader(chunk)
+      expect(shader).toContain(chunk)
+      expect(shader).not.toContain('vec3 color = uBaseColor;')
+      expect(shader).toContain(
+        'float getRegionMask(vec3 localPos, int axis, float start, float end)'
+      )
+      expect(shader).toContain('void main()')
+    })
+  })
+
+  describe('instanced shaders', () => {
+    it('should place instances with the instance matrix and pass per-instance parameters', () => {
+      expect(instancedVertexShader).toContain('modelMatrix * instanceMatrix * vec4(position, 1.0)')
+      expect(instancedVertexShader).toContain('vGlobalPosition = aGridPosition + position + 0.5')
+      expect(instancedVertexShader).toContain('attribute vec3 aGridPosition')
+      expect(instancedVertexShader).toContain('attribute vec3 aBaseColor')
+      expect(instancedVertexShader).toContain('attribute vec4 aDetail')
+      expect(instancedVertexShader).toContain('attribute float aNoiseSeed')
+    })
+
+    it('should read per-cube uniforms from the instance varyings', () => {
+      const shader = createInstancedFragmentShader()
+      expect(shader).toContain('#define uBaseColor vInstanceBaseColor')
+      expect(shader).toContain('#define uNoiseOctaves int(vInstanceDetail.z + 0.5)')
+      // Overrides come after the uniform declarations and before the material
+      expect(shader.indexOf('uniform vec3 uBaseColor')).toBeLessThan(
+        shader.indexOf('#define uBaseColor')
+      )
+      expect(shader.indexOf('#define uBaseColor')).toBeLessThan(
+        shader.indexOf('vec3 color = uBaseColor;')
+      )
+    })
+
+    it('should accept a material graph chunk', () => {
+      const chunk = 'vec3 computeMaterialColor() { return vec3(1.0, 0.0, 0.0); }'
+      const shader = createInstancedFragmentShader(chunk)
+      expect(shader).toContain(chunk)
+      expect(shader).not.toContain('vec3 color = uBaseColor;')
+    })
   })
 
   describe('defaultUniforms', () => {
@@ -209,6 +297,10 @@ describe('Parametric Cube Shader Module', () => {
       expect(defaultUniforms.uNoiseMaskAxis.value).toBe(0)
     })
 
+    it('should have uNoiseSeed with default 0', () => {
+      expect(defaultUniforms.uNoiseSeed.value).toBe(0)
+    })
+
     it('should have uLightDirection with default [1,1,1]', () => {
       expect(defaultUniforms.uLightDirection.value).toEqual([1, 1, 1])
     })
@@ -232,6 +324,11 @@ describe('Parametric Cube Shader Module', () => {
     it('should have uGridPosition with default [0,0,0]', () => {
       expect(defaultUniforms.uGridPosition.value).toEqual([0, 0, 0])
     })
+
+    it('should have no neighbours present by default', () => {
+      expect(defaultUniforms.uNeighborPresent.value).toEqual([0, 0, 0, 0, 0, 0])
+      expect(defaultUniforms.uNeighborColor.value).toHaveLength(6)
+    })
   })
 })
 
@@ -39,16 +39,49 @@ void main() {
 `
 
 /**
- * Fragment shader for parametric cube
- * Implements:
- * - Base color rendering
- * - Gradient effects (X, Y, Z, radial axes)
- * - Perlin, Worley, and Crackle noise patterns
- * - Region-based noise masking
- * - Basic diffuse lighting
- * - Seamless boundary stitching between adjacent cubes
+ * Vertex shader for instanced parametric cubes (see lib/instanced-renderer)
+ * - Places each instance with the instanceMatrix attribute of THREE.InstancedMesh
+ * - Passes the per-instance grid position and material parameters to the fragment shader
+ */
+export const instancedVertexShader = /* glsl */ `
+varying vec3 vPosition;
+varying vec3 vNormal;
+varying vec3 vWorldPosition;
+varying vec3 vGlobalPosition;
+
+// Per-instance parameters
+attribute vec3 aGridPosition; // Position of this instance in the grid
+attribute vec3 aBaseColor;    // Base colour
+attribute vec4 aDetail;       // Gradient count, noise type, noise octaves, boundary mode (LOD applied)
+attribute float aNoiseSeed;   // Noise seed
+
+varying vec3 vInstanceGridPosition;
+varying vec3 vInstanceBaseColor;
+varying vec4 vInstanceDetail;
+varying float vInstanceNoiseSeed;
+
+void main() {
+    vPosition = position;
+    vNormal = normalize(normalMatrix * mat3(instanceMatrix) * normal);
+
+    vec4 worldPos = modelMatrix * instanceMatrix * vec4(position, 1.0);
+    vWorldPosition = worldPos.xyz;
+    vGlobalPosition = aGridPosition + position + 0.5;
+
+    vInstanceGridPosition = aGridPosition;
+    vInstanceBaseColor = aBaseColor;
+    vInstanceDetail = aDetail;
+    vInstanceNoiseSeed = aNoiseSeed;
+
+    gl_Position = projectionMatrix * viewMatrix * worldPos;
+}
+`
+
+/**
+ * Fragment shader declarations and helper functions shared by the flat and
+ * material graph variants (uniforms, noise, gradients, masks, neighbour blending)
  */
-export const fragmentShader = /* glsl */ `
+const fragmentShaderLibrary = /* glsl */ `
 // Varyings from vertex shader
 varying vec3 vPosition;
 varying vec3 vNormal;
@@ -74,6 +107,7 @@ uniform float uNoisePersistence; // Amplitude decay
 uniform float uNoiseMaskStart;   // Mask region start [0,1]
 uniform float uNoiseMaskEnd;     // Mask region end [0,1]
 uniform int uNoiseMaskAxis;      // 0=y(default), 1=x, 2=z
+uniform float uNoiseSeed;        // Integer seed (0 to 2^24 - 1) for reproducible variation
 
 // Lighting uniforms
 uniform vec3 uLightDirection;
@@ -85,22 +119,43 @@ uniform int uBoundaryMode;           // 0=none, 1=smooth, 2=hard
 uniform float uNeighborInfluence;    // [0,1] blend factor for neighbor influence
 uniform vec3 uGridPosition;          // Position of this cube in the grid
 
+// Neighbour material uniforms (order: +x, -x, +y, -y, +z, -z)
+uniform float uNeighborPresent[6];          // 1.0 if a neighbouring cube exists in that direction
+uniform vec3 uNeighborColor[6];             // Base color of each neighbour
+uniform int uNeighborNoiseType[6];          // Noise type of each neighbour (0=none)
+uniform float uNeighborNoiseScale[6];       // Noise frequency of each neighbour
+uniform int uNeighborNoiseOctaves[6];       // Noise octaves of each neighbour
+uniform float uNeighborNoisePersistence[6]; // Noise persistence of each neighbour
+uniform float uNeighborNoiseAmplitude[6];   // Noise colour amplitude of each neighbour
+uniform float uNeighborNoiseSeed[6];        // Noise seed of each neighbour
+
 // ============================================================
 // NOISE FUNCTIONS
 // ============================================================
 
-// Hash function for noise
-vec3 hash3(vec3 p) {
-    p = vec3(
-        dot(p, vec3(127.1, 311.7, 74.7)),
-        dot(p, vec3(269.5, 183.3, 246.1)),
-        dot(p, vec3(113.5, 271.9, 124.6))
-    );
-    return fract(sin(p) * 43758.5453123);
+// PCG3D integer hash (Jarzynski & Olano, 2020)
+// Integer arithmetic is exact, so the CPU reference in lib/noise.ts matches bit for bit
+uvec3 pcg3d(uvec3 v) {
+    v = v * 1664525u + 1013904223u;
+    v.x += v.y * v.z;
+    v.y += v.z * v.x;
+    v.z += v.x * v.y;
+    v ^= v >> 16u;
+    v.x += v.y * v.z;
+    v.y += v.z * v.x;
+    v.z += v.x * v.y;
+    return v;
+}
+
+// Hash an integer lattice cell to three values in 0..1, varied by the noise seed
+// Keeps 24 bits so the integer -> float conversion is exact
+vec3 hash3(vec3 p, float seed) {
+    uvec3 v = uvec3(ivec3(p)) ^ (uvec3(uint(seed)) * uvec3(0x9E3779B9u, 0x85EBCA6Bu, 0xC2B2AE35u));
+    return vec3(pcg3d(v) >> 8u) * (1.0 / 16777216.0);
 }
 
 // 3D Gradient noise (Perlin-like)
-float gradientNoise(vec3 p) {
+float gradientNoise(vec3 p, float seed) {
     vec3 i = floor(p);
     vec3 f = fract(p);
 
@@ -108,14 +163,14 @@ float gradientNoise(vec3 p) {
     vec3 u = f * f * (3.0 - 2.0 * f);
 
     // Sample 8 corners
-    float n000 = dot(hash3(i + vec3(0.0, 0.0, 0.0)) * 2.0 - 1.0, f - vec3(0.0, 0.0, 0.0));
-    float n100 = dot(hash3(i + vec3(1.0, 0.0, 0.0)) * 2.0 - 1.0, f - vec3(1.0, 0.0, 0.0));
-    float n010 = dot(hash3(i + vec3(0.0, 1.0, 0.0)) * 2.0 - 1.0, f - vec3(0.0, 1.0, 0.0));
-    float n110 = dot(hash3(i + vec3(1.0, 1.0, 0.0)) * 2.0 - 1.0, f - vec3(1.0, 1.0, 0.0));
-    float n001 = dot(hash3(i + vec3(0.0, 0.0, 1.0)) * 2.0 - 1.0, f - vec3(0.0, 0.0, 1.0));
-    float n101 = dot(hash3(i + vec3(1.0, 0.0, 1.0)) * 2.0 - 1.0, f - vec3(1.0, 0.0, 1.0));
-    float n011 = dot(hash3(i + vec3(0.0, 1.0, 1.0)) * 2.0 - 1.0, f - vec3(0.0, 1.0, 1.0));
-    float n111 = dot(hash3(i + vec3(1.0, 1.0, 1.0)) * 2.0 - 1.0, f - vec3(1.0, 1.0, 1.0));
+    float n000 = dot(hash3(i + vec3(0.0, 0.0, 0.0), seed) * 2.0 - 1.0, f - vec3(0.0, 0.0, 0.0));
+    float n100 = dot(hash3(i + vec3(1.0, 0.0, 0.0), seed) * 2.0 - 1.0, f - vec3(1.0, 0.0, 0.0));
+    float n010 = dot(hash3(i + vec3(0.0, 1.0, 0.0), seed) * 2.0 - 1.0, f - vec3(0.0, 1.0, 0.0));
+    float n110 = dot(hash3(i + vec3(1.0, 1.0, 0.0), seed) * 2.0 - 1.0, f - vec3(1.0, 1.0, 0.0));
+    float n001 = dot(hash3(i + vec3(0.0, 0.0, 1.0), seed) * 2.0 - 1.0, f - vec3(0.0, 0.0, 1.0));
+    float n101 = dot(hash3(i + vec3(1.0, 0.0, 1.0), seed) * 2.0 - 1.0, f - vec3(1.0, 0.0, 1.0));
+    float n011 = dot(hash3(i + vec3(0.0, 1.0, 1.0), seed) * 2.0 - 1.0, f - vec3(0.0, 1.0, 1.0));
+    float n111 = dot(hash3(i + vec3(1.0, 1.0, 1.0), seed) * 2.0 - 1.0, f - vec3(1.0, 1.0, 1.0));
 
     // Trilinear interpolation
     return mix(
@@ -126,7 +181,7 @@ float gradientNoise(vec3 p) {
 }
 
 // Fractal Brownian Motion (fBm) for Perlin noise
-float fbm(vec3 p, int octaves, float persistence) {
+float fbm(vec3 p, int octaves, float persistence, float seed) {
     float value = 0.0;
     float amplitude = 0.5;
     float frequency = 1.0;
@@ -134,7 +189,7 @@ float fbm(vec3 p, int octaves, float persistence) {
 
     for (int i = 0; i < 8; i++) {
         if (i >= octaves) break;
-        value += amplitude * gradientNoise(p * frequency);
+        value += amplitude * gradientNoise(p * frequency, seed);
         maxValue += amplitude;
         amplitude *= persistence;
         frequency *= 2.0;
@@ -144,7 +199,7 @@ float fbm(vec3 p, int octaves, float persistence) {
 }
 
 // Worley (Cellular) noise
-float worleyNoise(vec3 p) {
+float worleyNoise(vec3 p, float seed) {
     vec3 i = floor(p);
     vec3 f = fract(p);
 
@@ -155,7 +210,7 @@ float worleyNoise(vec3 p) {
         for (int y = -1; y <= 1; y++) {
             for (int z = -1; z <= 1; z++) {
                 vec3 neighbor = vec3(float(x), float(y), float(z));
-                vec3 cellCenter = hash3(i + neighbor);
+                vec3 cellCenter = hash3(i + neighbor, seed);
                 vec3 diff = neighbor + cellCenter - f;
                 float dist = length(diff);
                 minDist = min(minDist, dist);
@@ -167,7 +222,7 @@ float worleyNoise(vec3 p) {
 }
 
 // Crackle noise (Worley F2 - F1)
-float crackleNoise(vec3 p) {
+float crackleNoise(vec3 p, float seed) {
     vec3 i = floor(p);
     vec3 f = fract(p);
 
@@ -179,7 +234,7 @@ float crackleNoise(vec3 p) {
         for (int y = -1; y <= 1; y++) {
             for (int z = -1; z <= 1; z++) {
                 vec3 neighbor = vec3(float(x), float(y), float(z));
-                vec3 cellCenter = hash3(i + neighbor);
+                vec3 cellCenter = hash3(i + neighbor, seed);
                 vec3 diff = neighbor + cellCenter - f;
                 float dist = length(diff);
 
@@ -197,16 +252,16 @@ float crackleNoise(vec3 p) {
 }
 
 // Combined noise function based on type
-float computeNoise(vec3 p, int noiseType, int octaves, float persistence) {
+float computeNoise(vec3 p, int noiseType, int octaves, float persistence, float seed) {
     if (noiseType == 1) {
         // Perlin noise with fBm
-        return fbm(p, octaves, persistence) * 0.5 + 0.5; // Normalize to [0,1]
+        return fbm(p, octaves, persistence, seed) * 0.5 + 0.5; // Normalize to [0,1]
     } else if (noiseType == 2) {
         // Worley noise
-        return worleyNoise(p);
+        return worleyNoise(p, seed);
     } else if (noiseType == 3) {
         // Crackle noise
-        return crackleNoise(p);
+        return crackleNoise(p, seed);
     }
     return 0.0;
 }
@@ -269,11 +324,76 @@ float getGradientFactor(vec3 localPos, vec3 globalPos, vec3 gridPos, int axis, i
     }
 }
 
+// Soft region mask along a local axis (0=y, 1=x, 2=z), 1.0 everywhere when start >= end
+float getRegionMask(vec3 localPos, int axis, float start, float end) {
+    float maskPos;
+    if (axis == 1) {
+        maskPos = localPos.x + 0.5; // Normalize to [0,1]
+    } else if (axis == 2) {
+        maskPos = localPos.z + 0.5;
+    } else {
+        maskPos = localPos.y + 0.5; // Default Y axis
+    }
+
+    if (start >= end) return 1.0;
+    return smoothstep(start, start + 0.1, maskPos) * (1.0 - smoothstep(end - 0.1, end, maskPos));
+}
+
 // ============================================================
-// MAIN FRAGMENT SHADER
+// NEIGHBOR BLENDING FUNCTIONS
 // ============================================================
 
-void main() {
+// Distance from the local position to the face in the given direction (0 at the face)
+float getFaceDistance(vec3 pos, int direction) {
+    if (direction == 0) return 0.5 - pos.x;
+    if (direction == 1) return pos.x + 0.5;
+    if (direction == 2) return 0.5 - pos.y;
+    if (direction == 3) return pos.y + 0.5;
+    if (direction == 4) return 0.5 - pos.z;
+    return pos.z + 0.5;
+}
+
+// Blend the cube color toward the materials of its actual neighbours.
+// The weight reaches 0.5 at the shared face, so both cubes meet at the same color.
+vec3 applyNeighborBlending(vec3 color, vec3 localPos, vec3 globalPos, float blendWidth) {
+    vec3 result = color;
+    for (int i = 0; i < 6; i++) {
+        if (uNeighborPresent[i] < 0.5) continue;
+
+        float dist = getFaceDistance(localPos, i);
+        if (dist >= blendWidth) continue;
+
+        // Neighbour material sampled at the same global position for continuity
+        vec3 neighborColor = uNeighborColor[i];
+        if (uNeighborNoiseType[i] > 0) {
+            float neighborNoise = computeNoise(
+                globalPos * uNeighborNoiseScale[i],
+                uNeighborNoiseType[i],
+                max(uNeighborNoiseOctaves[i], 1),
+                uNeighborNoisePersistence[i],
+                uNeighborNoiseSeed[i]
+            );
+            neighborColor += vec3((neighborNoise - 0.5) * uNeighborNoiseAmplitude[i]);
+        }
+
+        float weight = 0.5 * (1.0 - smoothstep(0.0, blendWidth, dist));
+        result = mix(result, neighborColor, weight);
+    }
+    return result;
+}
+
+`
+
+/**
+ * Surface colour from the flat base colour, gradient and noise uniforms
+ */
+const flatMaterialChunk = /* glsl */ `
+// ============================================================
+// MATERIAL
+// ============================================================
+
+// Cubes with a material graph replace this function with compiled graph code
+vec3 computeMaterialColor() {
     // Start with base color
     vec3 color = uBaseColor;
 
@@ -304,30 +424,36 @@ void main() {
             // Use global grid position for seamless noise across boundaries
             noisePos = vGlobalPosition * uNoiseScale;
         }
-        float noiseValue = computeNoise(noisePos, uNoiseType, uNoiseOctaves, uNoisePersistence);
+        float noiseValue = computeNoise(noisePos, uNoiseType, uNoiseOctaves, uNoisePersistence, uNoiseSeed);
 
         // Apply mask based on local position (mask is per-cube, not global)
-        float maskPos;
-        if (uNoiseMaskAxis == 1) {
-            maskPos = vPosition.x + 0.5; // Normalize to [0,1]
-        } else if (uNoiseMaskAxis == 2) {
-            maskPos = vPosition.z + 0.5;
-        } else {
-            maskPos = vPosition.y + 0.5; // Default Y axis
-        }
-
-        // Calculate mask factor
-        float maskFactor = 1.0;
-        if (uNoiseMaskStart < uNoiseMaskEnd) {
-            maskFactor = smoothstep(uNoiseMaskStart, uNoiseMaskStart + 0.1, maskPos) *
-                        (1.0 - smoothstep(uNoiseMaskEnd - 0.1, uNoiseMaskEnd, maskPos));
-        }
+        float maskFactor = getRegionMask(vPosition, uNoiseMaskAxis, uNoiseMaskStart, uNoiseMaskEnd);
 
         // Modulate color with noise
         float noiseInfluence = (noiseValue - 0.5) * 0.3 * maskFactor;
         color += vec3(noiseInfluence);
     }
 
+    return color;
+}
+`
+
+/**
+ * Fragment shader entry point: material colour, neighbour blending and lighting
+ */
+const fragmentShaderMain = /* glsl */ `
+// ============================================================
+// MAIN FRAGMENT SHADER
+// ============================================================
+
+void main() {
+    vec3 color = computeMaterialColor();
+
+    // Blend edges toward different neighbouring materials (smooth mode only)
+    if (uBoundaryMode == 1 && uNeighborInfluence > 0.0) {
+        color = applyNeighborBlending(color, vPosition, vGlobalPosition, uNeighborInfluence * 0.5);
+    }
+
     // Basic lighting calculation
     vec3 normal = normalize(vNormal);
     vec3 lightDir = normalize(uLightDirection);
@@ -351,6 +477,55 @@ void main() {
 }
 `
 
+/**
+ * Fragment shader for parametric cube
+ * Implements:
+ * - Base color rendering
+ * - Gradient effects (X, Y, Z, radial axes)
+ * - Seeded Perlin, Worley, and Crackle noise patterns
+ * - Region-based noise masking
+ * - Basic diffuse lighting
+ * - Seamless boundary stitching between adjacent cubes
+ * - Edge blending toward different neighbouring materials
+ */
+export const fragmentShader = fragmentShaderLibrary + flatMaterialChunk + fragmentShaderMain
+
+/**
+ * Builds a fragment shader whose surface colour comes from a compiled material graph
+ * @param materialChunk - GLSL defining `vec3 computeMaterialColor()` (see compileMaterialGraph)
+ */
+export function createMaterialFragmentShader(materialChunk: string): string {
+  return fragmentShaderLibrary + materialChunk + fragmentShaderMain
+}
+
+/**
+ * Redirects the per-cube uniforms read by the material and main chunks to the
+ * per-instance varyings of instancedVertexShader
+ * Integers travel as floats and seeds are rounded, as varyings are interpolated
+ */
+const instancedMaterialOverrides = /* glsl */ `
+varying vec3 vInstanceGridPosition;
+varying vec3 vInstanceBaseColor;
+varying vec4 vInstanceDetail;
+varying float vInstanceNoiseSeed;
+
+#define uGridPosition vInstanceGridPosition
+#define uBaseColor vInstanceBaseColor
+#define uGradientCount int(vInstanceDetail.x + 0.5)
+#define uNoiseType int(vInstanceDetail.y + 0.5)
+#define uNoiseOctaves int(vInstanceDetail.z + 0.5)
+#define uBoundaryMode int(vInstanceDetail.w + 0.5)
+#define uNoiseSeed floor(vInstanceNoiseSeed + 0.5)
+`
+
+/**
+ * Builds the fragment shader for instanced cubes, used with instancedVertexShader
+ * @param materialChunk - GLSL defining `vec3 computeMaterialColor()`; defaults to the flat material
+ */
+export function createInstancedFragmentShader(materialChunk: string = flatMaterialChunk): string {
+  return fragmentShaderLibrary + instancedMaterialOverrides + materialChunk + fragmentShaderMain
+}
+
 /**
  * Default uniform values for the parametric cube shader
  */
@@ -381,6 +556,7 @@ export const defaultUniforms = {
   uNoiseMaskStart: { value: 0.0 },
   uNoiseMaskEnd: { value: 1.0 },
   uNoiseMaskAxis: { value: 0 },
+  uNoiseSeed: { value: 0 },
 
   // Lighting
   uLightDirection: { value: [1, 1, 1] },
@@ -391,4 +567,23 @@ export const defaultUniforms = {
   uBoundaryMode: { value: 1 }, // Default to smooth
   uNeighborInfluence: { value: 0.5 },
   uGridPosition: { value: [0, 0, 0] },
+
+  // Neighbour materials (order: +x, -x, +y, -y, +z, -z)
+  uNeighborPresent: { value: [0, 0, 0, 0, 0, 0] },
+  uNeighborColor: {
+    value: [
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+      [0, 0, 0],
+    ],
+  },
+  uNeighborNoiseType: { value: [0, 0, 0, 0, 0, 0] },
+  uNeighborNoiseScale: { value: [8.0, 8.0, 8.0, 8.0, 8.0, 8.0] },
+  uNeighborNoiseOctaves: { value: [4, 4, 4, 4, 4, 4] },
+  uNeighborNoisePersistence: { value: [0.5, 0.5, 0.5, 0.5, 0.5, 0.5] },
+  uNeighborNoiseAmplitude: { value: [0, 0, 0, 0, 0, 0] },
+  uNeighborNoiseSeed: { value: [0, 0, 0, 0, 0, 0] },
 }
@@ -4,6 +4,7 @@
  */
 
 import type { SpectralCube, FFTCubeConfig } from './cube'
+import type { CRDTDocument } from '../lib/crdt'
 
 // ============================================================================
 // Session Types
@@ -15,8 +16,11 @@ export type SessionId = string
 /** Unique identifier for a participant */
 export type ParticipantId = string
 
-/** Role of a participant in a session */
-export type ParticipantRole = 'owner' | 'editor' | 'viewer'
+/**
+ * Role of a participant in a session: owners also change settings, editors change cubes,
+ * commenters comment on cubes and viewers only select and point
+ */
+export type ParticipantRole = 'owner' | 'editor' | 'commenter' | 'viewer'
 
 /** Current status of a participant */
 export type ParticipantStatus = 'online' | 'away' | 'offline'
@@ -34,6 +38,9 @@ export type ActionType =
   | 'participant_join'
   | 'participant_leave'
   | 'session_settings_update'
+  | 'cube_lock'
+  | 'cube_unlock'
+  | 'cube_comment'
 
 /**
  * Cursor position in 3D space
@@ -105,6 +112,10 @@ export interface Session {
   participants: Map<ParticipantId, Participant>
   /** Cubes being edited in this session */
   cubes: Map<string, SpectralCube | FFTCubeConfig>
+  /** CRDT state of the cubes (kept with the 'crdt' conflict resolution strategy) */
+  document?: CRDTDocument
+  /** Locked cubes and the participant holding each lock */
+  cubeLocks?: Record<string, ParticipantId>
   /** Timestamp of session creation */
   createdAt: string
   /** Timestamp of last modification */
@@ -121,6 +132,8 @@ export interface SerializableSession {
   ownerId: ParticipantId
   participants: [ParticipantId, Participant][]
   cubes: [string, SpectralCube | FFTCubeConfig][]
+  document?: CRDTDocument
+  cubeLocks?: Record<string, ParticipantId>
   createdAt: string
   modifiedAt: string
 }
@@ -152,6 +165,8 @@ export interface CubeCreateAction extends BaseAction {
   type: 'cube_create'
   payload: {
     cube: SpectralCube | FFTCubeConfig
+    /** CRDT delta of the change */
+    delta?: CRDTDocument
   }
 }
 
@@ -165,6 +180,8 @@ export interface CubeUpdateAction extends BaseAction {
     changes: Partial<SpectralCube | FFTCubeConfig>
     /** Previous state for conflict resolution */
     previousState?: SpectralCube | FFTCubeConfig
+    /** CRDT delta of the change */
+    delta?: CRDTDocument
   }
 }
 
@@ -177,6 +194,8 @@ export interface CubeDeleteAction extends BaseAction {
     cubeId: string
     /** Deleted cube for undo capability */
     deletedCube?: SpectralCube | FFTCubeConfig
+    /** CRDT delta of the change */
+    delta?: CRDTDocument
   }
 }
 
@@ -230,6 +249,37 @@ export interface SessionSettingsUpdateAction extends BaseAction {
   }
 }
 
+/**
+ * Action to lock a cube, so that only the holder edits or deletes it
+ */
+export interface CubeLockAction extends BaseAction {
+  type: 'cube_lock'
+  payload: {
+    cubeId: string
+  }
+}
+
+/**
+ * Action to release a cube lock (by the holder or the owner)
+ */
+export interface CubeUnlockAction extends BaseAction {
+  type: 'cube_unlock'
+  payload: {
+    cubeId: string
+  }
+}
+
+/**
+ * Action to comment on a cube; the server relays comments without storing them
+ */
+export interface CubeCommentAction extends BaseAction {
+  type: 'cube_comment'
+  payload: {
+    cubeId: string
+    text: string
+  }
+}
+
 /**
  * Union type of all collaborative actions
  */
@@ -242,6 +292,31 @@ export type CollaborativeAction =
   | ParticipantJoinAction
   | ParticipantLeaveAction
   | SessionSettingsUpdateAction
+  | CubeLockAction
+  | CubeUnlockAction
+  | CubeCommentAction
+
+/**
+ * Action in a session recording, with the server time it was applied
+ */
+export interface RecordedAction {
+  /** When the server applied the action */
+  recordedAt: string
+  action: CollaborativeAction
+}
+
+/**
+ * Session recording exported by the server: every applied action plus joins, leaves and
+ * sampled cursor positions, oldest first
+ */
+export interface SessionRecording {
+  sessionId: SessionId
+  name: string
+  createdAt: string
+  /** Participants at export time; those who left appear in `participant_join` actions */
+  participants: [ParticipantId, Participant][]
+  actions: RecordedAction[]
+}
 
 // ============================================================================
 // State Management Types
@@ -296,9 +371,10 @@ export interface ActionResult {
 }
 
 /**
- * Conflict resolution strategy
+ * Conflict resolution strategy. 'crdt' merges per field through the shared CRDT document
+ * (see lib/crdt.ts), so concurrent edits converge without conflicts
  */
-export type ConflictResolutionStrategy = 'last_write_wins' | 'first_write_wins' | 'merge'
+export type ConflictResolutionStrategy = 'last_write_wins' | 'first_write_wins' | 'merge' | 'crdt'
 
 /**
  * Configuration for the collaboration module
@@ -428,6 +504,8 @@ export function serializeSession(session: Session): SerializableSession {
     ownerId: session.ownerId,
     participants: Array.from(session.participants.entries()),
     cubes: Array.from(session.cubes.entries()),
+    document: session.document,
+    cubeLocks: session.cubeLocks,
     createdAt: session.createdAt,
     modifiedAt: session.modifiedAt,
   }
@@ -444,6 +522,8 @@ export function deserializeSession(serializable: SerializableSession): Session {
     ownerId: serializable.ownerId,
     participants: new Map(serializable.participants),
     cubes: new Map(serializable.cubes),
+    document: serializable.document,
+    cubeLocks: serializable.cubeLocks,
     createdAt: serializable.createdAt,
     modifiedAt: serializable.modifiedAt,
   }
@@ -1,6 +1,17 @@
 import { describe, it, expect } from 'vitest'
-import { validateCube, validateAndParseCube, isValidCube } from '../lib/validation'
-import { createDefaultCube, type SpectralCube } from './cube'
+import {
+  validateCube,
+  validateAndParseCube,
+  isValidCube,
+  validateFFTCube,
+  isValidFFTCube,
+} from '../lib/validation'
+import {
+  createDefaultCube,
+  createDefaultFFTCube,
+  type FFTCubeConfig,
+  type SpectralCube,
+} from './cube'
 
 // Import example configs
 import stoneMoss from '../../examples/stone-moss.json'
@@ -107,6 +118,46 @@ describe('SpectralCube Schema Validation', () => {
       const result = validateCube(invalidCube)
       expect(result.valid).toBe(false)
     })
+
+    it('should accept an integer noise seed within the shader range', () => {
+      const seeded = {
+        id: 'test_001',
+        base: { color: [0.5, 0.5, 0.5] },
+        noise: { type: 'perlin', seed: 16777215 },
+      }
+
+      expect(validateCube(seeded).valid).toBe(true)
+    })
+
+    it('should reject fractional or out of range noise seeds', () => {
+      const base = { id: 'test_001', base: { color: [0.5, 0.5, 0.5] } }
+
+      expect(validateCube({ ...base, noise: { seed: 1.5 } }).valid).toBe(false)
+      expect(validateCube({ ...base, noise: { seed: -1 } }).valid).toBe(false)
+      expect(validateCube({ ...base, noise: { seed: 16777216 } }).valid).toBe(false)
+    })
+
+    it('should accept partial face overrides', () => {
+      const grassBlock = {
+        id: 'grass_block',
+        base: { color: [0.45, 0.3, 0.2] },
+        faces: {
+          top: { base: { color: [0.3, 0.6, 0.2] }, noise: { type: 'worley' } },
+          sides: { gradients: [{ axis: 'y', factor: 0.3, color_shift: [0.1, 0.2, 0] }] },
+        },
+      }
+
+      expect(validateCube(grassBlock).valid).toBe(true)
+    })
+
+    it('should reject unknown faces and per-face transparency', () => {
+      const base = { id: 'test_001', base: { color: [0.5, 0.5, 0.5] } }
+
+      expect(validateCube({ ...base, faces: { north: {} } }).valid).toBe(false)
+      expect(validateCube({ ...base, faces: { top: { base: { transparency: 0.5 } } } }).valid).toBe(
+        false
+      )
+    })
   })
 
   describe('validateAndParseCube', () => {
@@ -243,6 +294,57 @@ describe('SpectralCube Schema Validation', () => {
   })
 })
 
+describe('FFTCubeConfig Schema Validation', () => {
+  const createFFTCube = (): FFTCubeConfig => {
+    const cube = createDefaultFFTCube('energy-cube')
+    cube.channels.R!.coefficients = [{ amplitude: 0.3, phase: 0, freqX: 4, freqY: 1, freqZ: 0 }]
+    return cube
+  }
+
+  it('should accept createDefaultFFTCube output', () => {
+    expect(validateFFTCube(createFFTCube()).errors).toEqual([])
+  })
+
+  it('should reject unsupported FFT sizes', () => {
+    expect(isValidFFTCube({ ...createFFTCube(), fft_size: 12 })).toBe(false)
+  })
+
+  it('should reject more than 8 coefficients per channel', () => {
+    const cube = createFFTCube()
+    cube.channels.G!.coefficients = Array.from({ length: 9 }, () => ({
+      amplitude: 0.1,
+      phase: 0,
+      freqX: 1,
+      freqY: 0,
+      freqZ: 0,
+    }))
+    const result = validateFFTCube(cube)
+    expect(result.valid).toBe(false)
+    expect(result.errors[0].path).toBe('/channels/G/coefficients')
+  })
+
+  it('should reject frequencies above fft_size / 2', () => {
+    const cube = createFFTCube()
+    cube.channels.R!.coefficients[0].freqY = 5
+    const result = validateFFTCube(cube)
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        path: '/channels/R/coefficients/0/freqY',
+        keyword: 'frequencyBound',
+        message: 'must be at most 4 for fft_size 8',
+      }),
+    ])
+    expect(isValidFFTCube({ ...cube, fft_size: 16 })).toBe(true)
+  })
+
+  it('should reject non-integer frequencies and plain SpectralCubes', () => {
+    const cube = createFFTCube()
+    cube.channels.R!.coefficients[0].freqX = 1.5
+    expect(isValidFFTCube(cube)).toBe(false)
+    expect(isValidFFTCube(stoneMoss)).toBe(false)
+  })
+})
+
 describe('Example Configs Type Safety', () => {
   it('stoneMoss should match SpectralCube type', () => {
     const cube: SpectralCube = stoneMoss as SpectralCube
@@ -3,6 +3,8 @@
  * These types are derived from cube-schema.json and should be kept in sync
  */
 
+import type { MaterialGraph } from './material-graph'
+
 /** RGB color as normalized values [0, 1] */
 export type Color3 = [number, number, number]
 
@@ -27,6 +29,13 @@ export type BoundaryMode = 'none' | 'smooth' | 'hard'
 /** FFT size options (8x8x8, 16x16x16, or 32x32x32) */
 export type FFTSize = 8 | 16 | 32
 
+/**
+ * Current version of the cube, FFT cube and stack JSON formats
+ * Documents without a schema_version are version 1; older documents are
+ * upgraded by the migration pipeline in lib/migrations.ts
+ */
+export const CURRENT_SCHEMA_VERSION = 2
+
 /**
  * Base material properties
  */
@@ -65,8 +74,38 @@ export interface CubeNoise {
   persistence?: number
   /** Region mask for noise application (e.g., "bottom_40%", "top_60%") */
   mask?: string
+  /** Integer seed [0, 16777215] that varies the pattern of otherwise identical cubes */
+  seed?: number
 }
 
+/**
+ * Face of a cube: top (+Y), bottom (-Y), left (-X), right (+X), front (-Z), back (+Z)
+ * (the same sides the noise mask strings name)
+ */
+export type CubeFace = 'top' | 'bottom' | 'left' | 'right' | 'front' | 'back'
+
+/** Key of a face override: a single face, or 'sides' for left/right/front/back */
+export type CubeFaceTarget = CubeFace | 'sides'
+
+/**
+ * Partial override of a cube's surface on some faces
+ * Base fields and noise fields are merged over the cube's own; gradients replace the list
+ */
+export interface CubeFaceOverride {
+  /** Base colour and roughness (transparency stays per cube) */
+  base?: Partial<Omit<CubeBase, 'transparency'>>
+  /** Gradients for these faces */
+  gradients?: CubeGradient[]
+  /** Noise fields for these faces */
+  noise?: CubeNoise
+}
+
+/**
+ * Per-face overrides; a single face takes precedence over 'sides', which takes
+ * precedence over the cube-wide fields
+ */
+export type CubeFaces = Partial<Record<CubeFaceTarget, CubeFaceOverride>>
+
 /**
  * Physical properties of the material
  */
@@ -165,6 +204,8 @@ export interface CubeBoundary {
  * Extends SpectralCube with FFT coefficients for energy visualization
  */
 export interface FFTCubeConfig {
+  /** Schema version the configuration was written with (see CURRENT_SCHEMA_VERSION) */
+  schema_version?: number
   /** Unique identifier for the cube configuration */
   id: string
   /** Text prompt used to generate this cube configuration */
@@ -192,6 +233,8 @@ export interface FFTCubeConfig {
  * Defines all properties for a parametric cube in the isocubic editor
  */
 export interface SpectralCube {
+  /** Schema version the configuration was written with (see CURRENT_SCHEMA_VERSION) */
+  schema_version?: number
   /** Unique identifier for the cube configuration */
   id: string
   /** Text prompt used to generate this cube configuration */
@@ -202,6 +245,13 @@ export interface SpectralCube {
   gradients?: CubeGradient[]
   /** Procedural noise settings for surface texture */
   noise?: CubeNoise
+  /**
+   * Node-based surface colour; replaces base.color, gradients and noise for
+   * shading when present (base.color still describes the cube to its neighbours)
+   */
+  material?: MaterialGraph
+  /** Per-face overrides of base, gradients and noise (e.g. grass on top of dirt) */
+  faces?: CubeFaces
   /** Physical properties of the material */
   physics?: CubePhysics
   /** Metadata and tags for organization */
@@ -223,6 +273,7 @@ export const CUBE_DEFAULTS = {
     scale: 8.0,
     octaves: 4,
     persistence: 0.5,
+    seed: 0,
   },
   physics: {
     material: 'stone' as MaterialType,
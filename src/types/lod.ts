@@ -10,6 +10,13 @@
  */
 export type LODLevel = 0 | 1 | 2 | 3 | 4
 
+/**
+ * How the LOD level of a cube is selected:
+ * - distance: the coarser of the distance band and the screen size band
+ * - screenSpace: the projected screen size alone
+ */
+export type LODSelectionMode = 'distance' | 'screenSpace'
+
 /**
  * LOD threshold configuration for a specific level
  */
@@ -54,6 +61,15 @@ export interface LODConfig {
   transitionDuration: number
   /** Screen size threshold (pixels) below which LOD is more aggressive */
   screenSizeThreshold: number
+  /** Level selection mode (default: 'distance') */
+  selectionMode?: LODSelectionMode
+  /**
+   * Hysteresis band as a fraction of each level boundary (0-0.5, default: 0).
+   * A cube only changes level once its screen size or distance is this far past the boundary
+   */
+  hysteresis?: number
+  /** Projected height in pixels below which stack layers are merged with their neighbours */
+  minLayerScreenSize?: number
 }
 
 /**
@@ -86,6 +102,12 @@ export interface LODStatistics {
   transitioningCubes: number
   /** Estimated performance savings (percentage) */
   performanceSavings: number
+  /** Number of cubes skipped because all six neighbours are opaque */
+  occludedCubes: number
+  /** Number of cubes skipped because they are outside the camera frustum */
+  frustumCulledCubes: number
+  /** Draw calls used to render the cubes, when reported by the renderer */
+  drawCalls?: number
 }
 
 /**
@@ -154,6 +176,9 @@ export const DEFAULT_LOD_CONFIG: LODConfig = {
   levelSettings: DEFAULT_LOD_SETTINGS,
   transitionDuration: 0.3,
   screenSizeThreshold: 50,
+  selectionMode: 'screenSpace',
+  hysteresis: 0.15,
+  minLayerScreenSize: 1,
 }
 
 /**
@@ -179,5 +204,7 @@ export function createEmptyLODStatistics(): LODStatistics {
     averageLODLevel: 0,
     transitioningCubes: 0,
     performanceSavings: 0,
+    occludedCubes: 0,
+    frustumCulledCubes: 0,
   }
 }
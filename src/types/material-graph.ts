@@ -0,0 +1,150 @@
+/**
+ * TypeScript types for node-based cube materials
+ * A material graph describes the surface colour of a SpectralCube as a DAG of
+ * nodes (colours, gradients, noises, remaps, masks, math and blends); it is
+ * compiled to GLSL for the viewport and evaluated directly by the CPU rasterizer
+ *
+ * Cubes without a graph use the flat base/gradients/noise fields, which are
+ * equivalent to the preset graph built by cubeToMaterialGraph in lib/material-graph.ts
+ */
+
+import type { Color3, GradientAxis, NoiseType } from './cube'
+
+/** Kind of value a node produces */
+export type MaterialValueKind = 'scalar' | 'color'
+
+/** Scalar input: a constant or the ID of a scalar node */
+export type MaterialScalarInput = number | string
+
+/** Colour input: a constant RGB colour or the ID of a colour node */
+export type MaterialColorInput = Color3 | string
+
+/** Axis of a region mask */
+export type MaterialMaskAxis = 'x' | 'y' | 'z'
+
+/** Binary operation of a math node */
+export type MaterialMathOperation = 'add' | 'subtract' | 'multiply' | 'min' | 'max'
+
+/**
+ * How a blend node combines its layer with its base
+ * - mix: replaces the base
+ * - add / subtract: adds or subtracts the layer scaled by the factor
+ * - multiply / screen / overlay: photo-editor style modes, faded in by the factor
+ */
+export type MaterialBlendMode = 'mix' | 'add' | 'subtract' | 'multiply' | 'screen' | 'overlay'
+
+/** Fields shared by every node */
+interface MaterialNodeBase {
+  /** Unique node ID within the graph, referenced by other nodes' inputs */
+  id: string
+}
+
+/** Constant colour */
+export interface MaterialColorNode extends MaterialNodeBase {
+  type: 'color'
+  color: Color3
+}
+
+/** Constant scalar */
+export interface MaterialConstantNode extends MaterialNodeBase {
+  type: 'constant'
+  value: number
+}
+
+/**
+ * Position along an axis in [0, 1] (radial: distance from the centre)
+ * Honours the cube's boundary mode like the flat gradients do
+ */
+export interface MaterialGradientNode extends MaterialNodeBase {
+  type: 'gradient'
+  axis: GradientAxis
+}
+
+/**
+ * Seeded procedural noise sampled at the world (boundary mode none) or
+ * global grid position, so patterns continue across neighbouring cubes
+ */
+export interface MaterialNoiseNode extends MaterialNodeBase {
+  type: 'noise'
+  noise: NoiseType
+  /** Frequency (default: 8) */
+  scale?: number
+  /** Octaves for Perlin fBm (default: 4) */
+  octaves?: number
+  /** Amplitude decay between octaves (default: 0.5) */
+  persistence?: number
+  /** Integer seed [0, 16777215] (default: 0) */
+  seed?: number
+}
+
+/**
+ * Linear remap of a scalar from one range to another
+ */
+export interface MaterialRemapNode extends MaterialNodeBase {
+  type: 'remap'
+  input: MaterialScalarInput
+  /** Source range (default: [0, 1]) */
+  from?: [number, number]
+  /** Target range */
+  to: [number, number]
+  /** Clamp the result to the target range (default: false) */
+  clamp?: boolean
+}
+
+/**
+ * Soft 0..1 mask that is 1 between start and end along an axis of the cube
+ * (same 0.1 wide falloff as the flat noise mask)
+ */
+export interface MaterialMaskNode extends MaterialNodeBase {
+  type: 'mask'
+  axis: MaterialMaskAxis
+  /** Region start in [0, 1] */
+  start: number
+  /** Region end in [0, 1] */
+  end: number
+}
+
+/** Binary operation on two scalars */
+export interface MaterialMathNode extends MaterialNodeBase {
+  type: 'math'
+  operation: MaterialMathOperation
+  a: MaterialScalarInput
+  b: MaterialScalarInput
+}
+
+/** Combines two colours */
+export interface MaterialBlendNode extends MaterialNodeBase {
+  type: 'blend'
+  mode: MaterialBlendMode
+  base: MaterialColorInput
+  layer: MaterialColorInput
+  /** Strength of the layer (default: 1) */
+  factor?: MaterialScalarInput
+}
+
+/** Any material graph node */
+export type MaterialNode =
+  | MaterialColorNode
+  | MaterialConstantNode
+  | MaterialGradientNode
+  | MaterialNoiseNode
+  | MaterialRemapNode
+  | MaterialMaskNode
+  | MaterialMathNode
+  | MaterialBlendNode
+
+/**
+ * Node-based surface colour description
+ */
+export interface MaterialGraph {
+  /** Nodes in any order; inputs may only form a DAG */
+  nodes: MaterialNode[]
+  /** ID of the colour node that produces the surface colour */
+  output: string
+}
+
+/** Maximum number of nodes in a graph (keeps generated shaders small) */
+export const MAX_MATERIAL_NODES = 32
+
+/** Maximum number of noise nodes in a graph (each one is a full noise evaluation) */
+export const MAX_MATERIAL_NOISE_NODES = 4
@@ -12,6 +12,7 @@ import {
   type StackLayer,
 } from './stack'
 import { createDefaultCube, type SpectralCube } from './cube'
+import { validateStack, isValidStack } from '../lib/validation'
 
 // Import example stack configs
 import stoneWall from '../../examples/stack-stone-wall.json'
@@ -443,3 +444,52 @@ describe('Example Stack Configs', () => {
     })
   })
 })
+
+describe('Stack Schema Validation', () => {
+  const createStack = (): CubeStackConfig =>
+    createCubeStack('test_stack', [
+      createStackLayer('base', createDefaultCube('base_cube'), 'bottom', 1.5),
+      createStackLayer('top', createDefaultCube('top_cube'), 'top', 0.5),
+    ])
+
+  it('should accept the example stacks and createCubeStack output', () => {
+    for (const stack of [stoneWall, woodenTower, layeredEarth, createStack()]) {
+      expect(validateStack(stack).errors).toEqual([])
+    }
+  })
+
+  it('should validate layer cubes against the cube schema', () => {
+    const stack = createStack()
+    stack.layers[0].cubeConfig = { id: 'Bad Id', base: { color: [2, 0, 0] } }
+    expect(isValidStack(stack)).toBe(false)
+  })
+
+  it('should reject a totalHeight that disagrees with the layers', () => {
+    const result = validateStack({ ...createStack(), totalHeight: 3 })
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      expect.objectContaining({ path: '/totalHeight', keyword: 'heightSum' }),
+    ])
+  })
+
+  it('should reject layer positions that do not follow the layer order', () => {
+    const stack = createStack()
+    stack.layers = [stack.layers[1], stack.layers[0]]
+    const result = validateStack(stack)
+    expect(result.errors.map((error) => error.path)).toEqual([
+      '/layers/0/position',
+      '/layers/1/position',
+    ])
+  })
+
+  it('should reject duplicate layer ids', () => {
+    const stack = createStack()
+    stack.layers[1] = { ...stack.layers[1], id: 'base' }
+    expect(validateStack(stack).errors[0]).toMatchObject({ keyword: 'duplicateId' })
+  })
+
+  it('should reject empty stacks and unknown properties', () => {
+    expect(isValidStack({ ...createStack(), layers: [] })).toBe(false)
+    expect(isValidStack({ ...createStack(), colour: 'red' })).toBe(false)
+  })
+})
@@ -71,6 +71,8 @@ export interface StackPhysics extends CubePhysics {
  * Represents a vertical construction of multiple layers
  */
 export interface CubeStackConfig {
+  /** Schema version the configuration was written with (see CURRENT_SCHEMA_VERSION) */
+  schema_version?: number
   /** Unique identifier for the stack */
   id: string
   /** Text prompt used to generate this stack */
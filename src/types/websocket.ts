@@ -48,6 +48,10 @@ export interface JoinSessionResponse extends BaseWebSocketMessage {
     success: boolean
     session?: SerializableSession
     participant?: Participant
+    /** Token to authenticate the participant's HTTP requests, e.g. for the recording */
+    authToken?: string
+    /** Highest action sequence number the server applied for this participant */
+    lastSequence?: number
     error?: string
   }
 }
@@ -77,6 +81,8 @@ export interface SyncActionMessage extends BaseWebSocketMessage {
   payload: {
     action: CollaborativeAction
     sessionId: SessionId
+    /** Per-participant sequence number; the server drops replays and answers with an ack */
+    sequence?: number
   }
 }
 
@@ -87,6 +93,7 @@ export interface SyncActionResponse extends BaseWebSocketMessage {
     success: boolean
     actionId: string
     error?: string
+    code?: ActionErrorCode
   }
 }
 
@@ -135,6 +142,19 @@ export interface HeartbeatResponse extends BaseWebSocketMessage {
   }
 }
 
+/** Code of an action the server rejected, sent in `ErrorMessage` and with the failed response */
+export type ActionErrorCode =
+  | 'INVALID_ACTION'
+  | 'UNKNOWN_FIELDS'
+  | 'INVALID_CUBE'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'SESSION_NOT_FOUND'
+  | 'NOT_A_PARTICIPANT'
+  | 'PERMISSION_DENIED'
+  | 'CUBE_NOT_FOUND'
+  | 'CUBE_LOCKED'
+  | 'NOT_JOINED'
+
 /** Error message from server */
 export interface ErrorMessage extends BaseWebSocketMessage {
   type: 'error'
@@ -151,6 +171,12 @@ export interface AckMessage extends BaseWebSocketMessage {
   payload: {
     messageId: string
     success: boolean
+    /** Sequence number of the acknowledged action */
+    sequence?: number
+    /** The action had already been applied (a replay) */
+    duplicate?: boolean
+    error?: string
+    code?: ActionErrorCode
   }
 }
 
@@ -230,6 +256,7 @@ export type WebSocketEventType =
   | 'reconnected'
   | 'max_reconnects'
   | 'state_changed'
+  | 'action_acked'
 
 /** WebSocket client event */
 export interface WebSocketEvent<T = unknown> {
@@ -261,6 +288,31 @@ export interface StateChangeEventData {
   reason?: string
 }
 
+/** Action acknowledged event data (RealtimeClient outbound queue) */
+export interface ActionAckedEventData {
+  actionId: string
+  sequence: number
+  /** Whether the server accepted the action; rejected actions are dropped from the queue too */
+  success: boolean
+  /** The server had already applied the action (a replay) */
+  duplicate: boolean
+  error?: string
+  code?: ActionErrorCode
+}
+
+// ============================================================================
+// Offline Queue Types
+// ============================================================================
+
+/** Action waiting in the outbound queue for a server acknowledgement */
+export interface QueuedAction {
+  /** Per-participant sequence number */
+  sequence: number
+  action: CollaborativeAction
+  /** Whether the action was sent with this sequence number (it may have been applied) */
+  sent?: boolean
+}
+
 // ============================================================================
 // Polling Fallback Types
 // ============================================================================
@@ -299,6 +351,29 @@ export interface PollingResponse {
   nextPollDelay?: number
 }
 
+/** Response to joining a session over HTTP */
+export interface PollingJoinResponse {
+  success: boolean
+  session: SerializableSession
+  participant: Participant
+  /** Token to authenticate the participant's actions */
+  authToken: string
+  /** Highest action sequence number the server applied for this participant */
+  lastSequence: number
+}
+
+/** Response to an action sent over HTTP; rejections also come with status 200 */
+export interface PollingActionResponse {
+  success: boolean
+  actionId: string
+  sequence?: number
+  duplicate?: boolean
+  error?: string
+  code?: ActionErrorCode
+  /** Schema violations or the lock holder */
+  details?: unknown
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -379,7 +454,8 @@ export function createLeaveSessionMessage(
 /** Creates a sync action message */
 export function createSyncActionMessage(
   action: CollaborativeAction,
-  sessionId: SessionId
+  sessionId: SessionId,
+  sequence?: number
 ): SyncActionMessage {
   return {
     id: generateMessageId(),
@@ -388,6 +464,7 @@ export function createSyncActionMessage(
     payload: {
       action,
       sessionId,
+      ...(sequence !== undefined ? { sequence } : {}),
     },
   }
 }
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createWorld,
+  fillWorldRegion,
+  isStackCell,
+  parseCellKey,
+  setWorldCell,
+  toCellKey,
+  type WorldConfig,
+} from './world'
+import { createDefaultCube } from './cube'
+import { createCubeStack, createStackLayer } from './stack'
+import { validateWorld, isValidWorld } from '../lib/validation'
+
+// Import example world config
+import gardenPath from '../../examples/world-garden-path.json'
+
+describe('World Types', () => {
+  describe('cell keys', () => {
+    it('should convert coordinates to keys', () => {
+      expect(toCellKey([1, -2, 3])).toBe('1,-2,3')
+    })
+
+    it('should parse valid keys', () => {
+      expect(parseCellKey('1,-2,3')).toEqual([1, -2, 3])
+    })
+
+    it('should reject malformed keys', () => {
+      expect(parseCellKey('1,2')).toBeNull()
+      expect(parseCellKey('1.5,2,3')).toBeNull()
+      expect(parseCellKey('a,b,c')).toBeNull()
+    })
+  })
+
+  describe('isStackCell', () => {
+    it('should distinguish stack references from cube ids', () => {
+      expect(isStackCell({ stack: 'tower' })).toBe(true)
+      expect(isStackCell('stone_001')).toBe(false)
+    })
+  })
+
+  describe('createWorld', () => {
+    it('should key palette and stacks by id', () => {
+      const cube = createDefaultCube('stone_001')
+      const stack = createCubeStack('tower', [createStackLayer('l0', cube)])
+      const world = createWorld('world_001', [cube], [stack])
+
+      expect(world.palette.stone_001).toBe(cube)
+      expect(world.stacks?.tower).toBe(stack)
+      expect(world.cells).toEqual({})
+    })
+
+    it('should omit stacks when none are given', () => {
+      expect(createWorld('world_001').stacks).toBeUndefined()
+    })
+  })
+
+  describe('setWorldCell', () => {
+    it('should set and clear cells without mutating the input', () => {
+      const world = createWorld('world_001', [createDefaultCube('stone_001')])
+      const withCell = setWorldCell(world, [0, 0, 0], 'stone_001')
+
+      expect(withCell.cells['0,0,0']).toBe('stone_001')
+      expect(world.cells['0,0,0']).toBeUndefined()
+      expect(setWorldCell(withCell, [0, 0, 0], null).cells['0,0,0']).toBeUndefined()
+    })
+  })
+
+  describe('fillWorldRegion', () => {
+    it('should fill an inclusive box regardless of corner order', () => {
+      const world = fillWorldRegion(createWorld('world_001'), [1, 0, 1], [0, 0, 0], 'stone_001')
+      expect(Object.keys(world.cells).sort()).toEqual(['0,0,0', '0,0,1', '1,0,0', '1,0,1'])
+    })
+  })
+})
+
+describe('validateWorld', () => {
+  const validWorld = (): WorldConfig => ({
+    id: 'world_001',
+    palette: { stone_001: createDefaultCube('stone_001') },
+    cells: { '0,0,0': 'stone_001' },
+  })
+
+  it('should validate the garden path example', () => {
+    const result = validateWorld(gardenPath)
+    expect(result.errors).toEqual([])
+    expect(result.valid).toBe(true)
+  })
+
+  it('should validate a minimal world', () => {
+    expect(isValidWorld(validWorld())).toBe(true)
+  })
+
+  it('should reject invalid palette cubes via the cube schema', () => {
+    const world = validWorld()
+    world.palette.stone_001.base.color = [2, 0, 0]
+    const result = validateWorld(world)
+    expect(result.valid).toBe(false)
+    expect(result.errors[0].path).toContain('/palette/stone_001/base/color')
+  })
+
+  it('should reject malformed cell keys', () => {
+    const world = { ...validWorld(), cells: { '0,0': 'stone_001' } }
+    expect(validateWorld(world).valid).toBe(false)
+  })
+
+  it('should reject unknown palette references', () => {
+    const world = { ...validWorld(), cells: { '0,0,0': 'missing_cube' } }
+    const result = validateWorld(world)
+    expect(result.valid).toBe(false)
+    expect(result.errors[0].keyword).toBe('reference')
+  })
+
+  it('should reject unknown stack references', () => {
+    const world = { ...validWorld(), cells: { '0,0,0': { stack: 'missing' } } }
+    expect(validateWorld(world).errors[0].keyword).toBe('reference')
+  })
+
+  it('should reject palette keys that do not match cube ids', () => {
+    const world = validWorld()
+    world.palette.other_001 = createDefaultCube('stone_001')
+    const result = validateWorld(world)
+    expect(result.errors.some((e) => e.keyword === 'idMismatch')).toBe(true)
+  })
+
+  it('should reject cells outside the declared size', () => {
+    const world = { ...validWorld(), size: [1, 1, 1] as [number, number, number] }
+    world.cells = { '1,0,0': 'stone_001' }
+    expect(validateWorld(world).errors[0].keyword).toBe('bounds')
+  })
+
+  it('should reject stacks that grow out of the declared size', () => {
+    const world = gardenPath as unknown as WorldConfig
+    const result = validateWorld({ ...world, size: [3, 1, 3] })
+    expect(result.valid).toBe(false)
+    expect(result.errors.some((e) => e.path === '/cells/2,1,2')).toBe(true)
+  })
+
+  it('should reject tall stack layers that grow out of the declared size', () => {
+    const stack = createCubeStack('tall', [
+      createStackLayer('l0', createDefaultCube('layer'), 'single', 2),
+    ])
+    const result = validateWorld({
+      ...validWorld(),
+      size: [1, 1, 1],
+      stacks: { tall: stack },
+      cells: { '0,0,0': { stack: 'tall' } },
+    })
+    expect(result.errors.map((e) => e.keyword)).toEqual(['bounds'])
+    expect(result.errors[0].params).toMatchObject({ position: [0, 1, 0] })
+  })
+
+  it('should reject stacks growing into occupied cells', () => {
+    const world = gardenPath as unknown as WorldConfig
+    const result = validateWorld({ ...world, cells: { ...world.cells, '2,1,2': 'grass_001' } })
+    expect(result.errors.some((e) => e.keyword === 'overlap')).toBe(true)
+  })
+})
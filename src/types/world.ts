@@ -0,0 +1,149 @@
+/**
+ * TypeScript types for World (scene) configuration
+ * A world is a sparse voxel map of grid cells, each pointing at a cube
+ * definition from the world palette or at a cube stack
+ *
+ * These types are derived from world-schema.json and should be kept in sync
+ */
+
+import type { SpectralCube } from './cube'
+import type { CubeStackConfig } from './stack'
+
+/** Integer grid coordinate [x, y, z] */
+export type WorldCoordinate = [number, number, number]
+
+/**
+ * Reference to a stack in the world's stack library
+ * The stack's bottom layer is placed in the referencing cell and the
+ * remaining layers occupy the cells above it, each layer covering as many
+ * cells as its height
+ */
+export interface WorldStackRef {
+  /** ID of the stack in WorldConfig.stacks */
+  stack: string
+}
+
+/**
+ * Contents of a single world cell
+ * Either a palette cube ID or a reference to a stack
+ */
+export type WorldCell = string | WorldStackRef
+
+/**
+ * Metadata for a world
+ */
+export interface WorldMeta {
+  /** Human-readable name for the world */
+  name?: string
+  /** Searchable tags for categorization */
+  tags?: string[]
+  /** Creator of this world */
+  author?: string
+  /** Creation timestamp in ISO 8601 format */
+  created?: string
+  /** Last modification timestamp in ISO 8601 format */
+  modified?: string
+}
+
+/**
+ * Complete world configuration
+ * Describes a heterogeneous isometric map built from palette cubes and stacks
+ */
+export interface WorldConfig {
+  /** Unique identifier for the world */
+  id: string
+  /** Optional world bounds [x, y, z]; when set, every cell must lie in [0, size) */
+  size?: WorldCoordinate
+  /** Cube definitions keyed by ID (the key must match the cube's own id) */
+  palette: Record<string, SpectralCube>
+  /** Stack definitions keyed by ID (the key must match the stack's own id) */
+  stacks?: Record<string, CubeStackConfig>
+  /** Sparse cell map keyed by "x,y,z" grid coordinates */
+  cells: Record<string, WorldCell>
+  /** Metadata */
+  meta?: WorldMeta
+}
+
+/**
+ * Converts a grid coordinate to its cell key ("x,y,z")
+ */
+export function toCellKey(coordinate: WorldCoordinate): string {
+  return `${coordinate[0]},${coordinate[1]},${coordinate[2]}`
+}
+
+/**
+ * Parses a cell key ("x,y,z") into a grid coordinate
+ * @returns The coordinate, or null if the key is not three integers
+ */
+export function parseCellKey(key: string): WorldCoordinate | null {
+  const match = key.match(/^(-?\d+),(-?\d+),(-?\d+)$/)
+  if (!match) return null
+  return [parseInt(match[1], 10), parseInt(match[2], 10), parseInt(match[3], 10)]
+}
+
+/**
+ * Checks whether a cell references a stack (type guard)
+ */
+export function isStackCell(cell: WorldCell): cell is WorldStackRef {
+  return typeof cell === 'object' && cell !== null && typeof cell.stack === 'string'
+}
+
+/**
+ * Creates an empty world with the given palette
+ */
+export function createWorld(
+  id: string,
+  palette: SpectralCube[] = [],
+  stacks: CubeStackConfig[] = []
+): WorldConfig {
+  const world: WorldConfig = {
+    id,
+    palette: Object.fromEntries(palette.map((cube) => [cube.id, cube])),
+    cells: {},
+    meta: {
+      created: new Date().toISOString(),
+    },
+  }
+  if (stacks.length > 0) {
+    world.stacks = Object.fromEntries(stacks.map((stack) => [stack.id, stack]))
+  }
+  return world
+}
+
+/**
+ * Returns a copy of the world with the given cell set (or cleared when cell is null)
+ */
+export function setWorldCell(
+  world: WorldConfig,
+  coordinate: WorldCoordinate,
+  cell: WorldCell | null
+): WorldConfig {
+  const key = toCellKey(coordinate)
+  const cells = { ...world.cells }
+  if (cell === null) {
+    delete cells[key]
+  } else {
+    cells[key] = cell
+  }
+  return { ...world, cells }
+}
+
+/**
+ * Fills an axis-aligned box of cells (inclusive bounds) with the same contents
+ */
+export function fillWorldRegion(
+  world: WorldConfig,
+  from: WorldCoordinate,
+  to: WorldCoordinate,
+  cell: WorldCell
+): WorldConfig {
+  const cells = { ...world.cells }
+  for (let x = Math.min(from[0], to[0]); x <= Math.max(from[0], to[0]); x++) {
+    for (let y = Math.min(from[1], to[1]); y <= Math.max(from[1], to[1]); y++) {
+      for (let z = Math.min(from[2], to[2]); z <= Math.max(from[2], to[2]); z++) {
+        cells[toCellKey([x, y, z])] = cell
+      }
+    }
+  }
+  return { ...world, cells }
+}